@@ -1,9 +1,11 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { promisify } from 'util';
-import * as proj4 from 'proj4';
 import { v4 as uuidv4 } from 'uuid';
 import { version } from 'os';
+import { CoordinateSystemManager } from '../sensors/CoordinateSystemManager';
+import { DxfReader, DxfWriter, type DxfDrawing, type DxfVersion } from './DxfFormat';
+import { CadStandard, type CadStandardProfile, type CadStandardReport, type CadStandardRule } from './CadStandard';
 
 // Types pour les entités CAO
 type DWGEntityType = 'POINT' | 'LINE' | 'LWPOLYLINE' | 'CIRCLE' | 'ARC' | 'TEXT' | 'MTEXT' | 'INSERT' | 'DIMENSION' | 'HATCH' | 'IMAGE';
@@ -15,11 +17,13 @@ interface DWGEntityBase {
   id: string;
   type: DWGEntityType;
   layer: string;
-  color?: number; // Code couleur AutoCAD (1-255)
+  color?: number; // Code couleur AutoCAD (1-255, 0 = DuBloc, 256 = DuCalque)
+  trueColor?: number; // Couleur RVB 24 bits (0xRRGGBB), prioritaire sur `color`
   lineType?: string;
   lineWeight?: number; // en mm
   handle?: string; // Identifiant unique dans le fichier DWG
   extendedData?: Record<string, any>;
+  xdata?: Record<string, Array<[number, string | number]>>; // Données étendues d'autres applications, par nom d'application
 }
 
 interface PointEntity extends DWGEntityBase {
@@ -37,6 +41,7 @@ interface LineEntity extends DWGEntityBase {
 interface LWPolylineEntity extends DWGEntityBase {
   type: 'LWPOLYLINE';
   vertices: Point[];
+  bulges?: number[]; // Renflement de chaque segment (tan(angle/4), positif = sens trigonométrique)
   closed: boolean;
   elevation?: number;
   width?: number;
@@ -50,8 +55,25 @@ interface TextEntity extends DWGEntityBase {
   height: number;
   rotation?: number; // en degrés
   style?: string;
-  width?: number;
-  attachmentPoint?: number;
+  width?: number; // TEXT : facteur de largeur ; MTEXT : largeur du cadre
+  attachmentPoint?: number; // MTEXT : 1 (haut gauche) à 9 (bas droite)
+  horizontalAlignment?: number; // TEXT : 0 gauche, 1 centre, 2 droite…
+  verticalAlignment?: number; // TEXT : 0 ligne de base, 1 bas, 2 milieu, 3 haut
+  alignmentPoint?: Point3D; // TEXT : second point d'alignement
+}
+
+interface CircleEntity extends DWGEntityBase {
+  type: 'CIRCLE';
+  center: Point3D;
+  radius: number;
+}
+
+interface ArcEntity extends DWGEntityBase {
+  type: 'ARC';
+  center: Point3D;
+  radius: number;
+  startAngle: number; // en degrés, sens trigonométrique
+  endAngle: number;
 }
 
 interface BlockReference extends DWGEntityBase {
@@ -74,7 +96,7 @@ interface HatchEntity extends DWGEntityBase {
   solid: boolean;
 }
 
-type DWGEntity = PointEntity | LineEntity | LWPolylineEntity | TextEntity | BlockReference | HatchEntity;
+type DWGEntity = PointEntity | LineEntity | LWPolylineEntity | CircleEntity | ArcEntity | TextEntity | BlockReference | HatchEntity;
 
 // Définition d'un bloc personnalisé
 interface BlockDefinition {
@@ -93,17 +115,30 @@ type ConversionOptions = {
   precision?: number; // Précision des coordonnées
   defaultLayer?: string; // Couche par défaut pour les entités sans couche
   includeMetadata?: boolean; // Inclure les métadonnées dans les données étendues
+  drawingScale?: number; // Dénominateur d'échelle du plan (hauteurs de texte et symboles de la norme)
+  transformation?: TransformationReport; // Bilan à compléter des reprojections effectuées
 };
 
 // Options d'export DWG
 type ExportOptions = ConversionOptions & {
   fileName?: string;
-  version?: 'R12' | 'R14' | '2000' | '2004' | '2007' | '2010' | '2013' | '2018';
+  version?: DxfVersion;
   includeThumbnail?: boolean;
   creator?: string;
   comments?: string;
 };
 
+/**
+ * Bilan des transformations de coordonnées appliquées lors d'un export
+ */
+export interface TransformationReport {
+  sourceCRS: string;
+  targetCRS: string;
+  accuracy: number; // Précision estimée la plus défavorable (m)
+  steps: string[]; // Transformations de datum utilisées
+  failed: number; // Points laissés dans le système source
+}
+
 // Options d'import DWG
 type ImportOptions = ConversionOptions & {
   extractLayers?: boolean;
@@ -122,9 +157,10 @@ export class CADBridge {
   private layerStyles: Map<string, any> = new Map();
   private textStyles: Map<string, any> = new Map();
   private lineTypes: Map<string, any> = new Map();
+  private standard: CadStandardProfile = CadStandard.CADASTRAL;
   
   private constructor() {
-    this.initializeDefaultStyles();
+    this.applyStandard();
   }
 
   static getInstance(): CADBridge {
@@ -135,13 +171,18 @@ export class CADBridge {
   }
 
   /**
-   * Initialise les styles par défaut
+   * Remplace les calques, types de ligne, styles de texte et blocs de la
+   * session par ceux de la norme de dessin courante
    */
-  private initializeDefaultStyles(): void {
-    // Styles de couches par défaut
+  private applyStandard(): void {
+    const standard = this.standard;
+    this.layerStyles.clear();
+    this.textStyles.clear();
+    this.lineTypes.clear();
+    this.blockDefinitions.clear();
+
+    // Styles de base de tout dessin
     this.layerStyles.set('0', { color: 7, lineWeight: 0.25, lineType: 'CONTINUOUS' });
-    
-    // Styles de texte par défaut
     this.textStyles.set('STANDARD', {
       font: 'Arial',
       width: 1.0,
@@ -150,14 +191,49 @@ export class CADBridge {
       generation: 0,
       flags: 0
     });
-    
-    // Types de ligne par défaut
-    this.lineTypes.set('CONTINUOUS', {
-      name: 'CONTINUOUS',
-      description: 'Solid line',
-      pattern: [],
-      length: 0
-    });
+    this.setLineType('CONTINUOUS', [], 'Solid line');
+
+    standard.lineTypes.forEach(lineType => this.setLineType(lineType.name, lineType.pattern, lineType.description));
+    standard.layers.forEach(layer => this.setLayerStyle(layer.name, layer));
+    standard.textStyles.forEach(style => this.setTextStyle(style.name, {
+      font: style.font,
+      width: style.width ?? 1,
+      oblique: style.oblique ?? 0,
+      lastHeight: CadStandard.textHeight(standard, style.name),
+      generation: 0,
+      flags: 0
+    }));
+    CadStandard.blockDefinitions(standard).forEach(block => this.blockDefinitions.set(block.name, block));
+  }
+
+  /**
+   * Norme de dessin (calques, blocs, styles) appliquée aux exports et imports.
+   * Accepte un profil ou sa forme JSON.
+   */
+  setStandard(profile: CadStandardProfile | string): void {
+    this.standard = CadStandard.parse(profile);
+    this.applyStandard();
+  }
+
+  getStandard(): CadStandardProfile {
+    return this.standard;
+  }
+
+  /**
+   * Charge une norme de dessin depuis un fichier JSON
+   */
+  async loadStandardFromFile(filePath: string): Promise<void> {
+    const content = await promisify(fs.readFile)(filePath, 'utf-8');
+    this.setStandard(content);
+    console.log(`Norme CAO '${this.standard.name}' chargée depuis ${filePath}`);
+  }
+
+  /**
+   * Objets qu'aucune règle de la norme courante ne couvre ; ils sont exportés
+   * sur leur calque d'origine
+   */
+  validateFeatures(features: GeoJSON.Feature[]): CadStandardReport {
+    return CadStandard.validate(this.standard, features);
   }
 
   /**
@@ -172,8 +248,10 @@ export class CADBridge {
     
     for (const geoObj of geoObjects) {
       try {
-        const layer = this.getLayerForFeature(geoObj, options);
-        const color = this.getColorForFeature(geoObj);
+        // Calque et couleur de la norme (DuCalque), sinon ceux de l'objet
+        const rule = CadStandard.match(this.standard, geoObj).rule;
+        const layer = rule?.layer ?? this.getLayerForFeature(geoObj, options);
+        const color = rule && geoObj.properties?.color === undefined ? 256 : this.getColorForFeature(geoObj);
         
         if (!geoObj.geometry) continue;
         
@@ -181,17 +259,19 @@ export class CADBridge {
           id: geoObj.id as string || uuidv4(),
           layer,
           color,
-          extendedData: options.includeMetadata ? geoObj.properties : undefined
+          ...(geoObj.properties?.trueColor !== undefined && { trueColor: geoObj.properties.trueColor }),
+          ...(geoObj.properties?.lineType && { lineType: geoObj.properties.lineType }),
+          ...(geoObj.properties?.lineWeight !== undefined && { lineWeight: geoObj.properties.lineWeight }),
+          ...(geoObj.properties?.xdata && { xdata: geoObj.properties.xdata }),
+          // Les XDATA d'autres applications sont réécrites telles quelles, hors propriétés
+          extendedData: options.includeMetadata
+            ? Object.fromEntries(Object.entries(geoObj.properties ?? {}).filter(([key]) => key !== 'xdata'))
+            : undefined
         };
         
         switch (geoObj.geometry.type) {
           case 'Point':
-            const point = this.convertPoint(geoObj.geometry.coordinates, options);
-            entities.push({
-              ...baseProps,
-              type: 'POINT',
-              position: [point[0], point[1], 0]
-            } as PointEntity);
+            entities.push(this.pointEntity(geoObj, geoObj.geometry.coordinates, baseProps, rule, options));
             break;
             
           case 'LineString':
@@ -213,19 +293,14 @@ export class CADBridge {
                 type: 'LWPOLYLINE',
                 vertices,
                 closed: true,
-                layer: index === 0 ? layer : `${layer}_hole${index}`
+                layer: index === 0 || rule ? layer : `${layer}_hole${index}`
               } as LWPolylineEntity);
             });
             break;
             
           case 'MultiPoint':
             geoObj.geometry.coordinates.forEach((coord: number[]) => {
-              const point = this.convertPoint(coord, options);
-              entities.push({
-                ...baseProps,
-                type: 'POINT',
-                position: [point[0], point[1], 0]
-              } as PointEntity);
+              entities.push(this.pointEntity(geoObj, coord, baseProps, rule, options));
             });
             break;
             
@@ -237,7 +312,7 @@ export class CADBridge {
                 type: 'LWPOLYLINE',
                 vertices,
                 closed: false,
-                layer: `${layer}_part${index + 1}`
+                layer: rule ? layer : `${layer}_part${index + 1}`
               } as LWPolylineEntity);
             });
             break;
@@ -251,9 +326,11 @@ export class CADBridge {
                   type: 'LWPOLYLINE',
                   vertices,
                   closed: true,
-                  layer: ringIndex === 0 
-                    ? `${layer}_poly${polyIndex + 1}` 
-                    : `${layer}_poly${polyIndex + 1}_hole${ringIndex}`
+                  layer: rule
+                    ? layer
+                    : ringIndex === 0 
+                      ? `${layer}_poly${polyIndex + 1}` 
+                      : `${layer}_poly${polyIndex + 1}_hole${ringIndex}`
                 } as LWPolylineEntity);
               });
             });
@@ -272,8 +349,11 @@ export class CADBridge {
             break;
         }
         
-        // Ajouter du texte si une propriété label est présente
-        if (geoObj.properties?.label && geoObj.geometry.type === 'Point') {
+        // Étiquette de la norme, sinon texte de la propriété label sur les points
+        const label = rule?.label && this.labelEntity(geoObj, rule, baseProps, options);
+        if (label) {
+          entities.push(label);
+        } else if (!rule?.label && geoObj.properties?.label && geoObj.geometry.type === 'Point') {
           const point = this.convertPoint(geoObj.geometry.coordinates, options);
           entities.push({
             ...baseProps,
@@ -293,79 +373,102 @@ export class CADBridge {
   }
   
   /**
-   * Exporte des entités DWG dans un fichier
+   * Exporte des entités au format DXF ASCII (R12 ou 2000 à 2018), avec les
+   * calques, types de ligne, styles de texte et blocs définis
    */
-  async exportDWG(
+  async exportDXF(
     entities: DWGEntity[],
     options: ExportOptions = {}
   ): Promise<Buffer> {
     try {
-      // Vérifier si nous avons besoin d'une conversion de système de coordonnées
-      const needsReprojection = options.sourceCRS && options.targetCRS && 
-                              options.sourceCRS !== options.targetCRS;
-      
-      // Préparer les données pour l'export
-      const exportData = {
-        header: {
-          version: options.version || '2018',
-          creator: options.creator || 'CADBridge',
-          created: new Date().toISOString(),
-          comments: options.comments || '',
-          units: 'Meters',
-          insbase: [0, 0, 0],
-          extmin: this.calculateBoundingBox(entities).min,
-          extmax: this.calculateBoundingBox(entities).max,
-          limmin: [0, 0],
-          limmax: [1000, 1000],
-          layers: Array.from(new Set(entities.map(e => e.layer))),
-          blocks: Array.from(this.blockDefinitions.values()).map(block => ({
-            name: block.name,
-            basePoint: block.basePoint,
-            entityCount: block.entities.length
-          }))
-        },
-        entities: entities.map(entity => ({
-          ...entity,
-          // Appliquer la transformation de coordonnées si nécessaire
-          ...(entity.type === 'POINT' && {
-            position: needsReprojection 
-              ? this.transformCoordinates(entity.position, options.sourceCRS!, options.targetCRS!)
-              : entity.position
-          }),
-          // Traiter les autres types d'entités de manière similaire...
-        })),
-        blocks: Array.from(this.blockDefinitions.values())
-      };
-      
-      // Dans une implémentation réelle, on utiliserait une bibliothèque comme 'dwg2dxf' ou 'teigha-file-converter'
-      // Ici, on simule la génération d'un fichier DWG
-      const dwgContent = this.simulateDWGGeneration(exportData);
+      // Calques absents de la norme : écrits tels quels, mais signalés
+      const standardLayers = new Set(['0', ...this.standard.layers.map(layer => layer.name.toUpperCase())]);
+      const outside = new Set(entities.filter(entity => !standardLayers.has(entity.layer.toUpperCase())).map(entity => entity.layer));
+      if (outside.size) {
+        console.warn(`Calques hors de la norme '${this.standard.name}': ${Array.from(outside).join(', ')}`);
+      }
       
-      return Buffer.from(dwgContent);
+      const drawing = this.prepareDrawing(entities, options);
+      return Buffer.from(DxfWriter.write(drawing, options.version || '2013'), 'utf-8');
     } catch (error) {
-      console.error('Erreur lors de l\'export DWG:', error);
-      throw new Error(`Échec de l'export DWG: ${error}`);
+      console.error('Erreur lors de l\'export DXF:', error);
+      throw new Error(`Échec de l'export DXF: ${error}`);
     }
   }
+
+  /**
+   * Exporte des entités DWG. Le format DWG binaire n'est pas documenté : le
+   * dessin est écrit en DXF de la version demandée, qu'AutoCAD ouvre directement.
+   */
+  async exportDWG(
+    entities: DWGEntity[],
+    options: ExportOptions = {}
+  ): Promise<Buffer> {
+    return this.exportDXF(entities, { ...options, version: options.version || '2018' });
+  }
+
+  /**
+   * Lit un fichier DXF sans conversion : entités, calques, types de ligne et blocs
+   */
+  readDXF(file: Buffer | string): DxfDrawing {
+    return DxfReader.read(typeof file === 'string' ? file : new Uint8Array(file));
+  }
   
   /**
-   * Importe un fichier DWG/DXF et le convertit en entités géographiques
+   * Importe un fichier DWG/DXF et le convertit en entités géographiques,
+   * avec le bilan de leur classement selon la norme de dessin
    */
   async importDWG(
     file: Buffer,
     options: ImportOptions = {}
-  ): Promise<GeoJSON.FeatureCollection> {
+  ): Promise<GeoJSON.FeatureCollection & { standard: CadStandardReport }> {
     try {
-      // Dans une implémentation réelle, on utiliserait une bibliothèque pour lire le fichier DWG/DXF
       const dwgData = await this.parseDWGFile(file, options);
       
+      // Les calques, types de ligne et blocs lus sont repris pour les exports suivants
+      if (options.extractLayers !== false) {
+        dwgData.layers.forEach(({ name, ...style }) => this.setLayerStyle(name, style));
+        dwgData.lineTypes.forEach(lineType => this.setLineType(lineType.name, lineType.pattern, lineType.description));
+        dwgData.textStyles.forEach(style => this.setTextStyle(style.name, {
+          font: style.font,
+          width: style.width,
+          oblique: style.oblique,
+          lastHeight: style.height,
+          generation: 0,
+          flags: 0
+        }));
+      }
+      if (options.extractBlocks !== false) {
+        dwgData.blocks.forEach(block => this.defineBlock(block));
+      }
+      
       const features: GeoJSON.Feature[] = [];
+      const entities = dwgData.entities.filter(entity =>
+        !(options.extractText === false && (entity.type === 'TEXT' || entity.type === 'MTEXT')) &&
+        !(options.extractHatches === false && entity.type === 'HATCH')
+      );
+      
+      const standard: CadStandardReport = { profile: this.standard.name, total: 0, matched: 0, byClass: {}, unmatched: [] };
+      const unclassified = new Map<string, number>();
       
-      // Convertir chaque entité DWG en feature GeoJSON
-      for (const entity of dwgData.entities) {
+      // Convertir chaque entité DWG en feature GeoJSON, classée selon la norme
+      for (const entity of entities) {
         try {
           const feature = this.convertDWGEntityToGeoJSON(entity, options);
           if (feature) {
+            const rule = this.classifyFeature(feature, entity);
+            if (rule) {
+              standard.matched++;
+              standard.byClass[rule.featureClass] = (standard.byClass[rule.featureClass] ?? 0) + 1;
+            } else {
+              unclassified.set(entity.layer, (unclassified.get(entity.layer) ?? 0) + 1);
+              standard.unmatched.push({
+                index: features.length,
+                ...(feature.id !== undefined && { id: feature.id }),
+                ...(feature.geometry && { geometry: feature.geometry.type }),
+                reason: `no rule for layer ${entity.layer}`
+              });
+            }
             features.push(feature);
           }
         } catch (error) {
@@ -373,9 +476,18 @@ export class CADBridge {
         }
       }
       
+      if (unclassified.size) {
+        console.warn(
+          `Entités hors de la norme '${this.standard.name}':`,
+          Array.from(unclassified, ([layer, count]) => `${layer} (${count})`).join(', ')
+        );
+      }
+      
+      standard.total = features.length;
       return {
         type: 'FeatureCollection',
-        features
+        features,
+        standard
       };
     } catch (error) {
       console.error('Erreur lors de l\'import DWG:', error);
@@ -385,6 +497,32 @@ export class CADBridge {
   
   // Méthodes d'aide pour la conversion
   
+  /**
+   * Reporte sur un objet importé la classe de la règle de son calque, les
+   * conditions fixes de la règle et les attributs du bloc ; rend la règle appliquée
+   */
+  private classifyFeature(feature: GeoJSON.Feature, entity: DWGEntity): CadStandardRule | undefined {
+    const match = CadStandard.classify(this.standard, entity);
+    if (!match) return undefined;
+    
+    const properties = feature.properties!;
+    if (match.label) {
+      properties.labelOf = match.rule.featureClass;
+      return match.rule;
+    }
+    
+    properties[this.standard.classProperty] ??= match.rule.featureClass;
+    Object.entries(match.rule.where ?? {})
+      .filter(([, value]) => !Array.isArray(value))
+      .forEach(([key, value]) => { properties[key] ??= value; });
+    if (entity.type === 'INSERT') {
+      Object.entries(match.rule.attributes ?? {})
+        .filter(([tag]) => entity.attributes?.[tag] !== undefined)
+        .forEach(([tag, property]) => { properties[property] ??= entity.attributes![tag]; });
+    }
+    return match.rule;
+  }
+  
   private getLayerForFeature(
     feature: GeoJSON.Feature,
     options: ConversionOptions
@@ -412,6 +550,11 @@ export class CADBridge {
       'orange': 40
     };
     
+    // Code ACI déjà numérique (entités lues depuis un DXF)
+    if (typeof feature.properties?.color === 'number') {
+      return feature.properties.color;
+    }
+    
     if (feature.properties?.color) {
       return colorMap[feature.properties.color.toLowerCase()] || 7; // Par défaut blanc
     }
@@ -419,12 +562,122 @@ export class CADBridge {
     return 7; // Couleur par défaut (blanc)
   }
   
+  /**
+   * Point simple, ou bloc de symbole de la norme à l'échelle du plan avec ses attributs
+   */
+  private pointEntity(
+    feature: GeoJSON.Feature,
+    coord: number[],
+    baseProps: Partial<DWGEntityBase>,
+    rule: CadStandardRule | undefined,
+    options: ConversionOptions
+  ): PointEntity | BlockReference {
+    const [x, y] = this.convertPoint(coord, options);
+    if (!rule?.block) {
+      return { ...baseProps, type: 'POINT', position: [x, y, 0] } as PointEntity;
+    }
+
+    // Symboles dessinés en mm papier
+    const factor = (options.drawingScale ?? this.standard.defaultScale) / 1000;
+    const attributes = Object.fromEntries(
+      Object.entries(rule.attributes ?? {})
+        .filter(([, property]) => feature.properties?.[property] !== undefined && feature.properties?.[property] !== null)
+        .map(([tag, property]) => [tag, String(feature.properties![property])])
+    );
+    return {
+      ...baseProps,
+      type: 'INSERT',
+      blockName: rule.block,
+      position: [x, y, 0],
+      scale: [factor, factor, 1],
+      ...(Object.keys(attributes).length && { attributes })
+    } as BlockReference;
+  }
+
+  /**
+   * Étiquette de la norme : décalée du symbole sur les points, centrée au
+   * centroïde des polygones, parallèle au segment médian des lignes
+   */
+  private labelEntity(
+    feature: GeoJSON.Feature,
+    rule: CadStandardRule,
+    baseProps: Partial<DWGEntityBase>,
+    options: ConversionOptions
+  ): TextEntity | null {
+    const value = feature.properties?.[rule.label!.property];
+    if (value === undefined || value === null || value === '' || !feature.geometry) return null;
+
+    const scale = options.drawingScale ?? this.standard.defaultScale;
+    const height = CadStandard.textHeight(this.standard, rule.label!.style, scale);
+    const geometry = feature.geometry;
+    let position: Point;
+    let rotation = 0;
+    let centered = true;
+
+    switch (geometry.type) {
+      case 'Point':
+      case 'MultiPoint': {
+        const [x, y] = this.convertPoint(geometry.type === 'Point' ? geometry.coordinates : geometry.coordinates[0], options);
+        const offset = (1.5 * scale) / 1000;
+        position = [x + offset, y + offset];
+        centered = false;
+        break;
+      }
+      case 'LineString':
+      case 'MultiLineString': {
+        const line = this.convertLineString(geometry.type === 'LineString' ? geometry.coordinates : geometry.coordinates[0], options);
+        if (line.length < 2) return null;
+        const i = Math.floor((line.length - 2) / 2);
+        const [a, b] = [line[i], line[i + 1]];
+        position = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+        // Texte lisible : angle ramené dans ]-90°, 90°]
+        rotation = (Math.atan2(b[1] - a[1], b[0] - a[0]) * 180) / Math.PI;
+        if (rotation > 90) rotation -= 180;
+        if (rotation <= -90) rotation += 180;
+        break;
+      }
+      case 'Polygon':
+      case 'MultiPolygon': {
+        const ring = this.convertLineString(geometry.type === 'Polygon' ? geometry.coordinates[0] : geometry.coordinates[0][0], options);
+        let area = 0;
+        let cx = 0;
+        let cy = 0;
+        for (let i = 0; i < ring.length - 1; i++) {
+          const cross = ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+          area += cross;
+          cx += (ring[i][0] + ring[i + 1][0]) * cross;
+          cy += (ring[i][1] + ring[i + 1][1]) * cross;
+        }
+        position = area
+          ? [cx / (3 * area), cy / (3 * area)]
+          : [ring.reduce((sum, p) => sum + p[0], 0) / ring.length, ring.reduce((sum, p) => sum + p[1], 0) / ring.length];
+        break;
+      }
+      default:
+        return null;
+    }
+
+    return {
+      ...baseProps,
+      id: `${baseProps.id}_label`,
+      type: 'TEXT',
+      layer: rule.label!.layer,
+      color: 256,
+      position: [position[0], position[1], 0],
+      text: String(value),
+      height,
+      style: rule.label!.style,
+      ...(rotation && { rotation: parseFloat(rotation.toFixed(6)) }),
+      ...(centered && { horizontalAlignment: 1, verticalAlignment: 2, alignmentPoint: [position[0], position[1], 0] })
+    } as TextEntity;
+  }
+  
   private convertPoint(coord: number[], options: ConversionOptions): [number, number] {
     let [x, y] = coord;
     
     // Appliquer la transformation de coordonnées si nécessaire
     if (options.sourceCRS && options.targetCRS && options.sourceCRS !== options.targetCRS) {
-      [x, y] = proj4(options.sourceCRS, options.targetCRS, [x, y]);
+      [x, y] = this.transformCoordinates([x, y], options.sourceCRS, options.targetCRS, options.transformation);
     }
     
     // Appliquer l'échelle si spécifiée
@@ -450,113 +703,151 @@ export class CADBridge {
     return coords.map(coord => this.convertPoint(coord, options));
   }
   
-  private calculateBoundingBox(entities: DWGEntity[]): { min: Point3D; max: Point3D } {
-    let minX = Infinity, minY = Infinity, minZ = 0;
-    let maxX = -Infinity, maxY = -Infinity, maxZ = 0;
-    
-    const processPoint = (point: Point3D) => {
-      const [x, y, z = 0] = point;
-      minX = Math.min(minX, x);
-      minY = Math.min(minY, y);
-      minZ = Math.min(minZ, z);
-      maxX = Math.max(maxX, x);
-      maxY = Math.max(maxY, y);
-      maxZ = Math.max(maxZ, z);
-    };
-    
-    for (const entity of entities) {
-      switch (entity.type) {
-        case 'POINT':
-          processPoint(entity.position);
-          break;
-          
-        case 'LINE':
-          processPoint(entity.start);
-          processPoint(entity.end);
-          break;
-          
-        case 'LWPOLYLINE':
-          entity.vertices.forEach(vertex => {
-            processPoint([vertex[0], vertex[1], entity.elevation || 0]);
-          });
-          break;
-          
-        case 'TEXT':
-        case 'MTEXT':
-          processPoint([
-            entity.position[0],
-            entity.position[1],
-            entity.position[2] || 0
-          ]);
-          break;
-          
-        case 'INSERT':
-          processPoint(entity.position);
-          // TODO: Prendre en compte la taille du bloc référencé
-          break;
-      }
-    }
-    
-    return {
-      min: [minX, minY, minZ] as Point3D,
-      max: [maxX, maxY, maxZ] as Point3D
-    };
-  }
-  
+  /**
+   * Transformation tenant compte des datums ; la précision et les étapes
+   * utilisées sont cumulées dans le bilan fourni
+   */
   private transformCoordinates(
     coords: number[],
     sourceCRS: string,
-    targetCRS: string
+    targetCRS: string,
+    report?: TransformationReport
   ): number[] {
     try {
-      return proj4(sourceCRS, targetCRS, coords);
+      const result = CoordinateSystemManager.transform(coords[0], coords[1], sourceCRS, targetCRS, coords[2]);
+      if (report) {
+        report.accuracy = Math.max(report.accuracy, result.accuracy);
+        result.steps
+          .filter(step => !report.steps.includes(step.name))
+          .forEach(step => report.steps.push(step.name));
+      }
+      return coords.length > 2 ? [result.x, result.y, result.z!, ...coords.slice(3)] : [result.x, result.y];
     } catch (error) {
       console.warn(`Échec de la transformation de coordonnées de ${sourceCRS} vers ${targetCRS}:`, error);
+      if (report) report.failed++;
       return coords; // Retourner les coordonnées d'origine en cas d'erreur
     }
   }
   
-  // Méthodes de simulation (à remplacer par des appels à des bibliothèques réelles)
-  
-  private simulateDWGGeneration(data: any): string {
-    // Dans une implémentation réelle, on utiliserait une bibliothèque comme 'dwg2dxf' ou 'teigha-file-converter'
-    console.log('Génération du fichier DWG avec les données:', data);
-    
-    // Simuler la génération d'un fichier DWG binaire
-    const header = `DWG_HEADER:${JSON.stringify(data.header)}`;
-    const entities = `ENTITIES:${data.entities.length}`;
-    const blocks = `BLOCKS:${data.blocks.length}`;
-    
-    return [header, entities, blocks].join('|');
+  /**
+   * Entités prêtes à écrire : reprojection de toutes les géométries, puis
+   * calques, types de ligne, styles et blocs de la session
+   */
+  private prepareDrawing(entities: DWGEntity[], options: ExportOptions): Omit<DxfDrawing, 'version'> {
+    const needsReprojection = options.sourceCRS && options.targetCRS && options.sourceCRS !== options.targetCRS;
+    const transformation: TransformationReport | undefined = needsReprojection
+      ? { sourceCRS: options.sourceCRS!, targetCRS: options.targetCRS!, accuracy: 0, steps: [], failed: 0 }
+      : undefined;
+    const exported = transformation
+      ? entities.map(entity => this.transformEntity(entity, coords =>
+          this.transformCoordinates(coords, transformation.sourceCRS, transformation.targetCRS, transformation)))
+      : entities;
+
+    if (transformation?.failed) {
+      console.warn(`${transformation.failed} point(s) laissés dans ${transformation.sourceCRS}`);
+    }
+
+    return {
+      units: 6,
+      layers: Array.from(this.layerStyles.entries()).map(([name, style]) => ({
+        name,
+        color: style.color ?? 7,
+        lineType: style.lineType ?? 'Continuous',
+        ...(style.lineWeight !== undefined && { lineWeight: style.lineWeight }),
+        ...(style.trueColor !== undefined && { trueColor: style.trueColor }),
+        ...(style.frozen && { frozen: true }),
+        ...(style.off && { off: true }),
+        ...(style.locked && { locked: true })
+      })),
+      lineTypes: Array.from(this.lineTypes.values()).map(({ name, description, pattern }) => ({ name, description, pattern })),
+      textStyles: Array.from(this.textStyles.entries()).map(([name, style]) => ({
+        name,
+        font: style.font ?? 'txt',
+        width: style.width ?? 1,
+        oblique: style.oblique ?? 0,
+        height: style.lastHeight ?? 2.5
+      })),
+      blocks: Array.from(this.blockDefinitions.values()),
+      entities: exported
+    };
+  }
+
+  /**
+   * Applique une transformation à toutes les coordonnées d'une entité
+   */
+  private transformEntity(entity: DWGEntity, transform: (coords: number[]) => number[]): DWGEntity {
+    const point3D = (point: Point3D) => {
+      const [x, y, z] = transform([point[0], point[1], point[2] ?? 0]);
+      return [x, y, z ?? point[2]] as Point3D;
+    };
+    const point2D = (point: Point) => transform(point).slice(0, 2) as Point;
+
+    switch (entity.type) {
+      case 'TEXT':
+        return {
+          ...entity,
+          position: point3D(entity.position),
+          ...(entity.alignmentPoint && { alignmentPoint: point3D(entity.alignmentPoint) })
+        };
+      case 'POINT':
+      case 'MTEXT':
+      case 'INSERT':
+        return { ...entity, position: point3D(entity.position) };
+      case 'LINE':
+        return { ...entity, start: point3D(entity.start), end: point3D(entity.end) };
+      case 'LWPOLYLINE':
+        return { ...entity, vertices: entity.vertices.map(point2D) };
+      case 'CIRCLE':
+      case 'ARC':
+        return { ...entity, center: point3D(entity.center) };
+      case 'HATCH':
+        return { ...entity, boundary: entity.boundary.map(ring => ring.map(point2D)) };
+    }
   }
   
+  /**
+   * Lit un fichier DXF ASCII ; le DWG binaire doit être enregistré en DXF au préalable
+   */
   private async parseDWGFile(
     file: Buffer,
     options: ImportOptions
-  ): Promise<{ entities: any[] }> {
-    // Dans une implémentation réelle, on utiliserait une bibliothèque pour lire le fichier DWG
-    console.log('Analyse du fichier DWG, taille:', file.length);
+  ): Promise<DxfDrawing> {
+    // Les fichiers DWG commencent par leur numéro de version (AC1015, AC1032…)
+    if (/^AC10\d\d/.test(file.subarray(0, 6).toString('latin1'))) {
+      throw new Error('Binary DWG files cannot be read, save the drawing as DXF');
+    }
     
-    // Simuler l'analyse du fichier et retourner des entités factices
-    return {
-      entities: [
-        {
-          type: 'LWPOLYLINE',
-          vertices: [[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]],
-          layer: '0',
-          color: 7
-        }
-      ]
-    };
+    const drawing = this.readDXF(file);
+    const skipped = Object.entries(drawing.skipped ?? {});
+    if (skipped.length) {
+      console.warn('Entités DXF ignorées:', skipped.map(([type, count]) => `${type} (${count})`).join(', '));
+    }
+    
+    if (options.maxVerticesPerPolyline) {
+      const count = drawing.entities.length;
+      drawing.entities = drawing.entities.filter(entity =>
+        entity.type !== 'LWPOLYLINE' || entity.vertices.length <= options.maxVerticesPerPolyline!
+      );
+      if (drawing.entities.length < count) {
+        console.warn(`${count - drawing.entities.length} polyligne(s) de plus de ${options.maxVerticesPerPolyline} sommets ignorées`);
+      }
+    }
+    return drawing;
   }
   
   private convertDWGEntityToGeoJSON(
-    entity: any,
+    entity: DWGEntity,
     options: ImportOptions
   ): GeoJSON.Feature | null {
+    const layer = entity.layer || options.defaultLayer || '0';
     const properties: Record<string, any> = {
-      layer: entity.layer || '0',
-      color: entity.color || 7,
+      layer: options.layerMapping?.[layer] || layer,
+      color: entity.color ?? 256, // DuCalque par défaut
+      ...(entity.trueColor !== undefined && { trueColor: entity.trueColor }),
+      ...(entity.lineType && { lineType: entity.lineType }),
+      ...(entity.lineWeight !== undefined && { lineWeight: entity.lineWeight }),
+      ...(entity.handle && { handle: entity.handle }),
+      ...(entity.xdata && { xdata: entity.xdata }),
       ...(entity.extendedData || {})
     };
     
@@ -580,10 +871,14 @@ export class CADBridge {
         };
         break;
         
-      case 'LWPOLYLINE':
+      case 'LWPOLYLINE': {
         if (entity.vertices.length < 2) return null;
         
-        const coordinates = entity.vertices.map((v: any) => [v[0], v[1]]);
+        // Les segments courbes sont densifiés
+        const vertices = entity.bulges
+          ? DxfReader.densifyBulges(entity.vertices, entity.bulges, entity.closed)
+          : entity.vertices;
+        const coordinates = vertices.map(v => [v[0], v[1]]);
         
         if (entity.closed && coordinates.length > 2) {
           // Fermer la polyligne si nécessaire
@@ -604,6 +899,25 @@ export class CADBridge {
           };
         }
         break;
+      }
+        
+      case 'CIRCLE': {
+        const ring = DxfReader.arc([entity.center[0], entity.center[1]], entity.radius, 0, 360);
+        ring[ring.length - 1] = ring[0];
+        geometry = { type: 'Polygon', coordinates: [ring] };
+        properties.radius = entity.radius;
+        break;
+      }
+        
+      case 'ARC':
+        geometry = {
+          type: 'LineString',
+          coordinates: DxfReader.arc([entity.center[0], entity.center[1]], entity.radius, entity.startAngle, entity.endAngle)
+        };
+        properties.radius = entity.radius;
+        properties.startAngle = entity.startAngle;
+        properties.endAngle = entity.endAngle;
+        break;
         
       case 'TEXT':
       case 'MTEXT':
@@ -612,7 +926,7 @@ export class CADBridge {
           type: 'Point',
           coordinates: [entity.position[0], entity.position[1]]
         };
-        properties.text = entity.text;
+        properties.text = entity.type === 'MTEXT' ? DxfReader.plainText(entity.text) : entity.text;
         properties.textHeight = entity.height;
         properties.textRotation = entity.rotation || 0;
         break;
@@ -626,10 +940,25 @@ export class CADBridge {
         properties.blockName = entity.blockName;
         properties.blockScale = entity.scale || [1, 1, 1];
         properties.blockRotation = entity.rotation || 0;
+        if (entity.attributes) properties.attributes = entity.attributes;
+        break;
+        
+      case 'HATCH': {
+        // Premier contour extérieur, les suivants sont des trous
+        const rings = entity.boundary
+          .filter(ring => ring.length > 2)
+          .map(ring => {
+            const closed = ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1];
+            return closed ? ring : [...ring, ring[0]];
+          });
+        if (!rings.length) return null;
+        geometry = { type: 'Polygon', coordinates: rings };
+        properties.hatch = entity.solid ? 'SOLID' : entity.pattern?.name;
         break;
+      }
         
       default:
-        console.warn(`Type d'entité non supporté: ${entity.type}`);
+        console.warn(`Type d'entité non supporté: ${(entity as DWGEntityBase).type}`);
         return null;
     }
     
@@ -704,3 +1033,20 @@ export class CADBridge {
     });
   }
 }
+
+export type {
+  DWGEntityType,
+  DWGEntityBase,
+  DWGEntity,
+  PointEntity,
+  LineEntity,
+  LWPolylineEntity,
+  CircleEntity,
+  ArcEntity,
+  TextEntity,
+  BlockReference,
+  HatchEntity,
+  BlockDefinition,
+  Point,
+  Point3D
+};
@@ -0,0 +1,371 @@
+import type { BlockDefinition, DWGEntity, DWGEntityType, Point3D } from './CADBridge';
+import type { DxfLayer, DxfLineType } from './DxfFormat';
+
+/**
+ * Profils de normes de dessin CAO pour les livrables cadastraux.
+ *
+ * Un profil (JSON) associe chaque classe d'objets (propriété `featureType`
+ * par défaut) à un calque, un bloc de symbole et un style de texte. Les
+ * hauteurs de texte sont exprimées en millimètres papier pour chaque échelle
+ * et converties en unités du dessin à l'export. Le même profil sert à
+ * reclasser les entités d'un DXF importé.
+ */
+
+type GeometryKind = 'Point' | 'LineString' | 'Polygon';
+
+type CadStandardLayer = DxfLayer & {
+  description?: string;
+};
+
+type CadStandardTextStyle = {
+  name: string;
+  font: string;
+  width?: number;
+  oblique?: number;
+  heights: Record<string, number>; // Hauteur en mm papier par dénominateur d'échelle ("500", "1000"…)
+};
+
+// Entités de bloc sans identifiant, attribué au chargement
+type CadStandardBlockEntity = DWGEntity extends infer E ? E extends DWGEntity ? Omit<E, 'id'> & { id?: string } : never : never;
+
+type CadStandardBlock = {
+  name: string;
+  basePoint?: Point3D;
+  entities: CadStandardBlockEntity[]; // Dessinées en mm papier, insérées à l'échelle du plan
+};
+
+type CadStandardLabel = {
+  property: string; // Propriété dont la valeur est écrite
+  layer: string;
+  style: string;
+};
+
+type CadStandardRule = {
+  featureClass: string;
+  where?: Record<string, string | number | boolean | Array<string | number | boolean>>; // Conditions sur les autres propriétés
+  geometry?: GeometryKind[]; // Géométries admises (les multi-géométries sont ramenées à leur type simple)
+  layer: string;
+  block?: string; // Symbole inséré sur les points
+  attributes?: Record<string, string>; // Étiquette d'attribut du bloc → propriété
+  label?: CadStandardLabel;
+};
+
+type CadStandardProfile = {
+  name: string;
+  version?: string;
+  description?: string;
+  classProperty: string; // Propriété portant la classe d'objets
+  defaultScale: number;  // Dénominateur d'échelle utilisé sans précision contraire
+  layers: CadStandardLayer[];
+  lineTypes: DxfLineType[];
+  textStyles: CadStandardTextStyle[];
+  blocks: CadStandardBlock[];
+  rules: CadStandardRule[];
+};
+
+type CadStandardIssue = {
+  index: number;
+  id?: string | number;
+  featureClass?: string;
+  geometry?: string;
+  reason: string;
+};
+
+type CadStandardReport = {
+  profile: string;
+  total: number;
+  matched: number;
+  byClass: Record<string, number>; // Objets conformes par classe
+  unmatched: CadStandardIssue[];
+};
+
+type RuleMatch = { rule: CadStandardRule; reason?: undefined } | { rule?: undefined; reason: string };
+
+// Profil livré : plan de bornage et plan cadastral
+const CADASTRAL_STANDARD: CadStandardProfile = {
+  name: 'Plan cadastral - standard national',
+  version: '1.0',
+  description: 'Calques, symboles de bornes et hauteurs de texte des plans de bornage et de division',
+  classProperty: 'featureType',
+  defaultScale: 1000,
+  layers: [
+    { name: 'CAD_PARCELLE', color: 7, lineType: 'Continuous', lineWeight: 0.35, description: 'Contours de parcelles' },
+    { name: 'CAD_LIMITE', color: 1, lineType: 'Continuous', lineWeight: 0.5, description: 'Limites de propriété' },
+    { name: 'CAD_LIMITE_APPARENTE', color: 1, lineType: 'CAD_TIRETS', lineWeight: 0.25, description: 'Limites apparentes (murs, clôtures, haies)' },
+    { name: 'CAD_BORNE', color: 1, lineType: 'Continuous', lineWeight: 0.25, description: 'Bornes' },
+    { name: 'CAD_REPERE', color: 5, lineType: 'Continuous', lineWeight: 0.25, description: 'Repères et points de canevas' },
+    { name: 'CAD_SOMMET', color: 8, lineType: 'Continuous', lineWeight: 0.18, description: 'Sommets non matérialisés' },
+    { name: 'CAD_BATI', color: 30, lineType: 'Continuous', lineWeight: 0.35, description: 'Bâtiments' },
+    { name: 'CAD_SECTION', color: 3, lineType: 'CAD_AXE', lineWeight: 0.7, description: 'Limites de section' },
+    { name: 'CAD_VOIRIE', color: 8, lineType: 'Continuous', lineWeight: 0.25, description: 'Voirie et domaine public' },
+    { name: 'CAD_NUM_PARCELLE', color: 7, lineType: 'Continuous', description: 'Numéros de parcelles' },
+    { name: 'CAD_NUM_BORNE', color: 1, lineType: 'Continuous', description: 'Numéros de bornes' },
+    { name: 'CAD_TOPONYME', color: 3, lineType: 'Continuous', description: 'Noms de sections, lieux-dits et voies' },
+  ],
+  lineTypes: [
+    { name: 'CAD_TIRETS', description: 'Tirets __ __ __', pattern: [1.5, -0.75] },
+    { name: 'CAD_AXE', description: 'Trait mixte __ . __ .', pattern: [3, -0.75, 0, -0.75] },
+  ],
+  textStyles: [
+    { name: 'CAD_NUM_PARCELLE', font: 'arial.ttf', heights: { '200': 3.5, '500': 3, '1000': 2.5, '2000': 2.5, '5000': 2 } },
+    { name: 'CAD_NUM_BORNE', font: 'arial.ttf', heights: { '200': 2.5, '500': 2, '1000': 1.8, '2000': 1.5, '5000': 1.5 } },
+    { name: 'CAD_TOPONYME', font: 'arial.ttf', oblique: 15, heights: { '200': 5, '500': 4, '1000': 3.5, '2000': 3, '5000': 3 } },
+  ],
+  blocks: [
+    {
+      name: 'CAD_BORNE',
+      entities: [
+        { type: 'CIRCLE', layer: '0', center: [0, 0, 0], radius: 1 },
+        { type: 'LINE', layer: '0', start: [-1.5, 0, 0], end: [1.5, 0, 0] },
+        { type: 'LINE', layer: '0', start: [0, -1.5, 0], end: [0, 1.5, 0] },
+      ],
+    },
+    {
+      name: 'CAD_REPERE',
+      entities: [
+        { type: 'LWPOLYLINE', layer: '0', vertices: [[-1, -1], [1, -1], [1, 1], [-1, 1]], closed: true },
+        { type: 'POINT', layer: '0', position: [0, 0, 0] },
+      ],
+    },
+    {
+      name: 'CAD_SOMMET',
+      entities: [{ type: 'CIRCLE', layer: '0', center: [0, 0, 0], radius: 0.4 }],
+    },
+  ],
+  rules: [
+    {
+      featureClass: 'parcel',
+      geometry: ['Polygon'],
+      layer: 'CAD_PARCELLE',
+      label: { property: 'reference', layer: 'CAD_NUM_PARCELLE', style: 'CAD_NUM_PARCELLE' },
+    },
+    { featureClass: 'boundary', where: { nature: ['mur', 'clôture', 'haie', 'fossé'] }, geometry: ['LineString'], layer: 'CAD_LIMITE_APPARENTE' },
+    { featureClass: 'boundary', geometry: ['LineString'], layer: 'CAD_LIMITE' },
+    {
+      featureClass: 'marker',
+      where: { kind: 'borne' },
+      geometry: ['Point'],
+      layer: 'CAD_BORNE',
+      block: 'CAD_BORNE',
+      attributes: { NUMERO: 'code', ETAT: 'status' },
+      label: { property: 'code', layer: 'CAD_NUM_BORNE', style: 'CAD_NUM_BORNE' },
+    },
+    {
+      featureClass: 'marker',
+      where: { kind: 'repere' },
+      geometry: ['Point'],
+      layer: 'CAD_REPERE',
+      block: 'CAD_REPERE',
+      attributes: { NUMERO: 'code' },
+      label: { property: 'code', layer: 'CAD_NUM_BORNE', style: 'CAD_NUM_BORNE' },
+    },
+    { featureClass: 'marker', where: { kind: 'virtual' }, geometry: ['Point'], layer: 'CAD_SOMMET', block: 'CAD_SOMMET' },
+    { featureClass: 'building', geometry: ['Polygon'], layer: 'CAD_BATI' },
+    {
+      featureClass: 'section',
+      geometry: ['Polygon', 'LineString'],
+      layer: 'CAD_SECTION',
+      label: { property: 'name', layer: 'CAD_TOPONYME', style: 'CAD_TOPONYME' },
+    },
+    {
+      featureClass: 'road',
+      geometry: ['Polygon', 'LineString'],
+      layer: 'CAD_VOIRIE',
+      label: { property: 'name', layer: 'CAD_TOPONYME', style: 'CAD_TOPONYME' },
+    },
+  ],
+};
+
+/**
+ * Application et validation des profils de normes CAO
+ */
+class CadStandard {
+  static readonly CADASTRAL = CADASTRAL_STANDARD;
+
+  /**
+   * Lit un profil JSON, complète les valeurs par défaut et vérifie que les
+   * règles ne référencent que des calques, blocs et styles définis
+   */
+  static parse(source: string | Partial<CadStandardProfile>): CadStandardProfile {
+    const raw: Partial<CadStandardProfile> = typeof source === 'string' ? JSON.parse(source) : source;
+    const profile: CadStandardProfile = {
+      ...raw,
+      name: raw.name ?? '',
+      classProperty: raw.classProperty || 'featureType',
+      defaultScale: raw.defaultScale ?? 1000,
+      layers: raw.layers ?? [],
+      lineTypes: raw.lineTypes ?? [],
+      textStyles: raw.textStyles ?? [],
+      blocks: raw.blocks ?? [],
+      rules: raw.rules ?? [],
+    };
+
+    const issues: string[] = [];
+    const names = (items: Array<{ name: string }>) => new Set(items.map(item => item.name.toUpperCase()));
+    const layers = names(profile.layers);
+    const lineTypes = names([...profile.lineTypes, { name: 'Continuous' }, { name: 'ByLayer' }, { name: 'ByBlock' }]);
+    const styles = names(profile.textStyles);
+    const blocks = names(profile.blocks);
+
+    if (!profile.name) issues.push('missing profile name');
+    if (!(profile.defaultScale > 0)) issues.push('defaultScale must be positive');
+    profile.layers.forEach((layer, i) => {
+      if (!layer.name) issues.push(`layer ${i} has no name`);
+      else if (!lineTypes.has((layer.lineType || 'Continuous').toUpperCase())) {
+        issues.push(`layer ${layer.name} uses undefined line type ${layer.lineType}`);
+      }
+    });
+    profile.textStyles.forEach(style => {
+      if (!Object.keys(style.heights ?? {}).length) issues.push(`text style ${style.name} has no height`);
+    });
+    profile.rules.forEach((rule, i) => {
+      const label = `rule ${i} (${rule.featureClass})`;
+      if (!rule.featureClass) issues.push(`rule ${i} has no featureClass`);
+      if (!layers.has(rule.layer?.toUpperCase())) issues.push(`${label} uses undefined layer ${rule.layer}`);
+      if (rule.block && !blocks.has(rule.block.toUpperCase())) issues.push(`${label} uses undefined block ${rule.block}`);
+      if (rule.label && !layers.has(rule.label.layer?.toUpperCase())) issues.push(`${label} uses undefined label layer ${rule.label.layer}`);
+      if (rule.label && !styles.has(rule.label.style?.toUpperCase())) issues.push(`${label} uses undefined text style ${rule.label.style}`);
+    });
+
+    if (issues.length) {
+      throw new Error(`Invalid CAD standard profile: ${issues.join('; ')}`);
+    }
+    return profile;
+  }
+
+  /**
+   * Profil au format JSON, modèle à adapter pour une autre norme
+   */
+  static toJSON(profile: CadStandardProfile): string {
+    return JSON.stringify(profile, null, 2);
+  }
+
+  /**
+   * Règle applicable à un objet, ou motif de non-conformité
+   */
+  static match(profile: CadStandardProfile, feature: GeoJSON.Feature): RuleMatch {
+    const properties = feature.properties ?? {};
+    const featureClass = properties[profile.classProperty];
+    if (featureClass === undefined || featureClass === null || featureClass === '') {
+      return { reason: `missing ${profile.classProperty} property` };
+    }
+
+    const candidates = profile.rules.filter(rule =>
+      rule.featureClass === featureClass &&
+      Object.entries(rule.where ?? {}).every(([key, expected]) =>
+        Array.isArray(expected) ? expected.includes(properties[key]) : properties[key] === expected
+      )
+    );
+    if (!candidates.length) {
+      return { reason: `no rule for ${profile.classProperty} ${featureClass}` };
+    }
+
+    const kinds = CadStandard.geometryKinds(feature.geometry);
+    const rule = candidates.find(candidate => !candidate.geometry || kinds.every(kind => (candidate.geometry as string[]).includes(kind)));
+    return rule
+      ? { rule }
+      : { reason: `geometry ${feature.geometry?.type ?? 'null'} not allowed for ${featureClass}` };
+  }
+
+  /**
+   * Contrôle d'un jeu d'objets : conformes par classe et liste des objets
+   * qu'aucune règle ne couvre
+   */
+  static validate(profile: CadStandardProfile, features: GeoJSON.Feature[]): CadStandardReport {
+    const report: CadStandardReport = { profile: profile.name, total: features.length, matched: 0, byClass: {}, unmatched: [] };
+
+    features.forEach((feature, index) => {
+      const { rule, reason } = CadStandard.match(profile, feature);
+      if (rule) {
+        report.matched++;
+        report.byClass[rule.featureClass] = (report.byClass[rule.featureClass] ?? 0) + 1;
+        return;
+      }
+      const featureClass = feature.properties?.[profile.classProperty];
+      report.unmatched.push({
+        index,
+        ...(feature.id !== undefined && { id: feature.id }),
+        ...(featureClass !== undefined && featureClass !== null && { featureClass: String(featureClass) }),
+        ...(feature.geometry && { geometry: feature.geometry.type }),
+        reason: reason!,
+      });
+    });
+
+    return report;
+  }
+
+  /**
+   * Règle d'une entité lue dans un dessin : par calque et nom de bloc pour
+   * les objets, par calque d'étiquette pour les textes
+   */
+  static classify(
+    profile: CadStandardProfile,
+    entity: { type: DWGEntityType; layer: string; blockName?: string; closed?: boolean }
+  ): { rule: CadStandardRule; label: boolean } | undefined {
+    const layer = entity.layer.toUpperCase();
+
+    if (entity.type === 'TEXT' || entity.type === 'MTEXT') {
+      const rule = profile.rules.find(candidate => candidate.label?.layer.toUpperCase() === layer);
+      if (rule) return { rule, label: true };
+    }
+
+    const kind: GeometryKind = ['POINT', 'TEXT', 'MTEXT', 'INSERT'].includes(entity.type)
+      ? 'Point'
+      : entity.type === 'CIRCLE' || entity.type === 'HATCH' || (entity.type === 'LWPOLYLINE' && entity.closed)
+        ? 'Polygon'
+        : 'LineString';
+    const candidates = profile.rules.filter(rule =>
+      rule.layer.toUpperCase() === layer && (!rule.geometry || rule.geometry.includes(kind))
+    );
+    const rule = (entity.blockName && candidates.find(candidate => candidate.block?.toUpperCase() === entity.blockName!.toUpperCase()))
+      || candidates[0];
+    return rule && { rule, label: false };
+  }
+
+  /**
+   * Hauteur de texte en unités du dessin (mètres) pour une échelle : la
+   * hauteur papier de l'échelle la plus proche au-dessus, sinon la plus grande
+   */
+  static textHeight(profile: CadStandardProfile, styleName: string, scale = profile.defaultScale): number {
+    const style = profile.textStyles.find(candidate => candidate.name.toUpperCase() === styleName.toUpperCase());
+    const heights = Object.entries(style?.heights ?? {})
+      .map(([denominator, height]) => [Number(denominator), height] as const)
+      .sort((a, b) => a[0] - b[0]);
+    if (!heights.length) return (2.5 * scale) / 1000;
+
+    const [, height] = heights.find(([denominator]) => denominator >= scale) ?? heights[heights.length - 1];
+    return (height * scale) / 1000;
+  }
+
+  /**
+   * Définitions de blocs du profil, avec des identifiants d'entités stables
+   */
+  static blockDefinitions(profile: CadStandardProfile): BlockDefinition[] {
+    return profile.blocks.map(block => ({
+      name: block.name,
+      basePoint: block.basePoint ?? [0, 0, 0],
+      entities: block.entities.map((entity, i) => ({ ...entity, id: entity.id ?? `${block.name}_${i + 1}` }) as DWGEntity),
+    }));
+  }
+
+  /**
+   * Types simples d'une géométrie GeoJSON (les collections sont parcourues)
+   */
+  private static geometryKinds(geometry: GeoJSON.Geometry | null): string[] {
+    if (!geometry) return ['null'];
+    if (geometry.type === 'GeometryCollection') return geometry.geometries.flatMap(CadStandard.geometryKinds);
+    return [geometry.type.replace(/^Multi/, '')];
+  }
+}
+
+export { CadStandard, CADASTRAL_STANDARD };
+export type {
+  CadStandardProfile,
+  CadStandardLayer,
+  CadStandardTextStyle,
+  CadStandardBlock,
+  CadStandardLabel,
+  CadStandardRule,
+  CadStandardIssue,
+  CadStandardReport,
+};
@@ -0,0 +1,1165 @@
+import type {
+  ArcEntity,
+  BlockDefinition,
+  BlockReference,
+  CircleEntity,
+  DWGEntity,
+  DWGEntityBase,
+  HatchEntity,
+  LineEntity,
+  LWPolylineEntity,
+  Point,
+  Point3D,
+  PointEntity,
+  TextEntity,
+} from './CADBridge';
+
+/**
+ * Lecture et écriture du format DXF ASCII (R12 et 2000 à 2018).
+ *
+ * Un fichier DXF est une suite de paires « code de groupe / valeur » sur deux
+ * lignes. Les couleurs (ACI et RVB), types de ligne, épaisseurs et données
+ * étendues (XDATA) des entités sont conservés ; les propriétés métier des
+ * objets sont écrites dans les XDATA de l'application CADBRIDGE.
+ */
+
+type DxfVersion = 'R12' | 'R14' | '2000' | '2004' | '2007' | '2010' | '2013' | '2018';
+
+type DxfLayer = {
+  name: string;
+  color: number;       // ACI ; un calque éteint est écrit avec une couleur négative
+  lineType: string;
+  lineWeight?: number; // en mm
+  trueColor?: number;
+  frozen?: boolean;
+  off?: boolean;
+  locked?: boolean;
+};
+
+type DxfLineType = {
+  name: string;
+  description: string;
+  pattern: number[]; // Tirets positifs, espaces négatifs, 0 pour un point
+};
+
+type DxfTextStyle = {
+  name: string;
+  font: string;
+  width: number;
+  oblique: number;
+  height: number; // Dernière hauteur utilisée
+};
+
+type DxfDrawing = {
+  version: string;  // Valeur de $ACADVER (AC1009, AC1027…)
+  units?: number;   // $INSUNITS (6 = mètres)
+  layers: DxfLayer[];
+  lineTypes: DxfLineType[];
+  textStyles: DxfTextStyle[];
+  blocks: BlockDefinition[];
+  entities: DWGEntity[];
+  skipped?: Record<string, number>; // Entités non prises en charge, par type
+};
+
+type Group = [number, string | number];
+
+const ACAD_VERSIONS: Record<DxfVersion, string> = {
+  R12: 'AC1009',
+  R14: 'AC1014',
+  '2000': 'AC1015',
+  '2004': 'AC1018',
+  '2007': 'AC1021',
+  '2010': 'AC1024',
+  '2013': 'AC1027',
+  '2018': 'AC1032',
+};
+
+// Application sous laquelle sont enregistrées les propriétés des objets
+const APP_NAME = 'CADBRIDGE';
+const XDATA_CHUNK = 250;
+
+// Codes de groupe à valeur réelle, les autres codes numériques sont entiers
+function isRealCode(code: number): boolean {
+  return (code >= 10 && code <= 59) || (code >= 110 && code <= 149) || (code >= 210 && code <= 239)
+    || (code >= 460 && code <= 469) || (code >= 1010 && code <= 1059);
+}
+
+function isStringCode(code: number): boolean {
+  return code <= 9 || (code >= 100 && code <= 109) || (code >= 300 && code <= 369) || (code >= 390 && code <= 399)
+    || (code >= 410 && code <= 419) || (code >= 430 && code <= 439) || (code >= 470 && code <= 481)
+    || code === 999 || (code >= 1000 && code <= 1009);
+}
+
+/**
+ * Lecteur DXF ASCII
+ */
+class DxfReader {
+  /**
+   * Analyse un fichier DXF ASCII (UTF-8 à partir de 2007, ANSI auparavant)
+   */
+  static read(content: string | Uint8Array): DxfDrawing {
+    const text = typeof content === 'string' ? content : DxfReader.decode(content);
+    if (text.startsWith('AutoCAD Binary DXF')) throw new Error('Binary DXF files are not supported');
+
+    const groups = DxfReader.groups(text);
+    const drawing: DxfDrawing = { version: 'AC1009', layers: [], lineTypes: [], textStyles: [], blocks: [], entities: [], skipped: {} };
+
+    let i = 0;
+    while (i < groups.length) {
+      if (groups[i][0] === 0 && groups[i][1] === 'SECTION') {
+        const name = groups[i + 1]?.[1];
+        let end = i + 2;
+        while (end < groups.length && !(groups[end][0] === 0 && groups[end][1] === 'ENDSEC')) end++;
+        const section = groups.slice(i + 2, end);
+
+        switch (name) {
+          case 'HEADER':
+            DxfReader.readHeader(section, drawing);
+            break;
+          case 'TABLES':
+            DxfReader.readTables(section, drawing);
+            break;
+          case 'BLOCKS':
+            DxfReader.readBlocks(section, drawing);
+            break;
+          case 'ENTITIES':
+            drawing.entities = DxfReader.readEntities(DxfReader.records(section), drawing);
+            break;
+        }
+        i = end + 1;
+      } else {
+        i++;
+      }
+    }
+    return drawing;
+  }
+
+  /**
+   * Texte brut d'un MTEXT : paragraphes en sauts de ligne, codes de mise en forme retirés
+   */
+  static plainText(mtext: string): string {
+    return mtext
+      .replace(/\\P/g, '\n')
+      .replace(/\\[ACcFfHhQTtWw][^;]*;/g, '')
+      .replace(/\\[LlOoKk]/g, '')
+      .replace(/\\S([^^;]*)\^([^;]*);/g, '$1/$2')
+      .replace(/\\~/g, ' ')
+      .replace(/\\([\\{}])/g, '$1')
+      .replace(/[{}]/g, '');
+  }
+
+  private static decode(bytes: Uint8Array): string {
+    const utf8 = new TextDecoder('utf-8').decode(bytes);
+    // Les versions antérieures à 2007 sont en page de code Windows : repli en latin-1
+    return utf8.includes('�') ? new TextDecoder('latin1').decode(bytes) : utf8;
+  }
+
+  private static groups(text: string): Group[] {
+    const lines = text.split(/\r?\n/);
+    const groups: Group[] = [];
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+      const code = parseInt(lines[i].trim(), 10);
+      if (Number.isNaN(code)) throw new Error(`Invalid DXF group code at line ${i + 1}: ${lines[i]}`);
+      const raw = lines[i + 1];
+      const value = isStringCode(code)
+        ? DxfReader.unescape(raw)
+        : isRealCode(code) ? parseFloat(raw) : parseInt(raw.trim(), 10);
+      groups.push([code, value]);
+      if (code === 0 && value === 'EOF') break;
+    }
+    return groups;
+  }
+
+  // Caractères hors page de code écrits sous la forme \U+XXXX
+  private static unescape(value: string): string {
+    return value.replace(/\\U\+([0-9A-Fa-f]{4})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  }
+
+  /**
+   * Découpe une section en enregistrements commençant chacun par un code 0
+   */
+  private static records(groups: Group[]): Group[][] {
+    const records: Group[][] = [];
+    groups.forEach(group => {
+      if (group[0] === 0) records.push([group]);
+      else records[records.length - 1]?.push(group);
+    });
+    return records;
+  }
+
+  private static readHeader(groups: Group[], drawing: DxfDrawing): void {
+    groups.forEach(([code, value], i) => {
+      if (code !== 9) return;
+      if (value === '$ACADVER') drawing.version = String(groups[i + 1][1]);
+      if (value === '$INSUNITS') drawing.units = Number(groups[i + 1][1]);
+    });
+  }
+
+  private static readTables(groups: Group[], drawing: DxfDrawing): void {
+    DxfReader.records(groups).forEach(record => {
+      const get = (code: number) => record.find(([c]) => c === code)?.[1];
+      const name = String(get(2) ?? '');
+      const flags = Number(get(70) ?? 0);
+
+      switch (record[0][1]) {
+        case 'LAYER': {
+          const color = Number(get(62) ?? 7);
+          const lineWeight = get(370) as number | undefined;
+          drawing.layers.push({
+            name,
+            color: Math.abs(color),
+            lineType: String(get(6) ?? 'Continuous'),
+            ...(lineWeight !== undefined && lineWeight >= 0 && { lineWeight: lineWeight / 100 }),
+            ...(get(420) !== undefined && { trueColor: Number(get(420)) }),
+            ...(color < 0 && { off: true }),
+            ...((flags & 1) === 1 && { frozen: true }),
+            ...((flags & 4) === 4 && { locked: true }),
+          });
+          break;
+        }
+        case 'LTYPE':
+          if (['BYBLOCK', 'BYLAYER'].includes(name.toUpperCase())) break;
+          drawing.lineTypes.push({
+            name,
+            description: String(get(3) ?? ''),
+            pattern: record.filter(([c]) => c === 49).map(([, value]) => Number(value)),
+          });
+          break;
+        case 'STYLE':
+          // Les styles sans nom sont des fichiers de formes
+          if (!name) break;
+          drawing.textStyles.push({
+            name,
+            font: String(get(3) ?? ''),
+            width: Number(get(41) ?? 1),
+            oblique: Number(get(50) ?? 0),
+            height: Number(get(42) ?? 2.5),
+          });
+          break;
+      }
+    });
+  }
+
+  private static readBlocks(groups: Group[], drawing: DxfDrawing): void {
+    const records = DxfReader.records(groups);
+    let i = 0;
+    while (i < records.length) {
+      if (records[i][0][1] !== 'BLOCK') {
+        i++;
+        continue;
+      }
+      const header = records[i];
+      let end = i + 1;
+      while (end < records.length && records[end][0][1] !== 'ENDBLK') end++;
+
+      const get = (code: number) => header.find(([c]) => c === code)?.[1];
+      const name = String(get(2) ?? '');
+      // Espaces objet et papier : leurs entités sont dans la section ENTITIES
+      if (!/^\*(Model|Paper)_Space/i.test(name)) {
+        drawing.blocks.push({
+          name,
+          basePoint: [Number(get(10) ?? 0), Number(get(20) ?? 0), Number(get(30) ?? 0)],
+          entities: DxfReader.readEntities(records.slice(i + 1, end), drawing),
+        });
+      }
+      i = end + 1;
+    }
+  }
+
+  private static readEntities(records: Group[][], drawing: DxfDrawing): DWGEntity[] {
+    const entities: DWGEntity[] = [];
+    let i = 0;
+
+    while (i < records.length) {
+      const record = records[i++];
+      const type = String(record[0][1]);
+
+      switch (type) {
+        case 'POLYLINE': {
+          // Polyligne R12 : sommets dans les enregistrements VERTEX suivants
+          const vertices: Group[][] = [];
+          while (i < records.length && records[i][0][1] === 'VERTEX') vertices.push(records[i++]);
+          if (records[i]?.[0][1] === 'SEQEND') i++;
+          entities.push(DxfReader.polyline(record, vertices));
+          break;
+        }
+        case 'INSERT': {
+          const attributes: Group[][] = [];
+          while (i < records.length && records[i][0][1] === 'ATTRIB') attributes.push(records[i++]);
+          if (attributes.length && records[i]?.[0][1] === 'SEQEND') i++;
+          entities.push(DxfReader.insert(record, attributes));
+          break;
+        }
+        case 'POINT':
+        case 'LINE':
+        case 'LWPOLYLINE':
+        case 'CIRCLE':
+        case 'ARC':
+        case 'TEXT':
+        case 'MTEXT':
+        case 'HATCH':
+          entities.push(DxfReader.entity(type, record));
+          break;
+        default:
+          if (drawing.skipped) drawing.skipped[type] = (drawing.skipped[type] ?? 0) + 1;
+      }
+    }
+    return entities;
+  }
+
+  private static entity(type: string, record: Group[]): DWGEntity {
+    const { base, groups } = DxfReader.base(record);
+    const get = (code: number, fallback?: number) => (groups.find(([c]) => c === code)?.[1] as number | undefined) ?? fallback;
+    const point = (code: number): Point3D => [get(code, 0)!, get(code + 10, 0)!, get(code + 20, 0)!];
+
+    switch (type) {
+      case 'POINT':
+        return { ...base, type: 'POINT', position: point(10), ...(get(39) !== undefined && { thickness: get(39) }) } as PointEntity;
+
+      case 'LINE':
+        return { ...base, type: 'LINE', start: point(10), end: point(11) } as LineEntity;
+
+      case 'LWPOLYLINE': {
+        const vertices: Point[] = [];
+        const bulges: number[] = [];
+        groups.forEach(([code, value], index) => {
+          if (code === 10) {
+            vertices.push([Number(value), Number(groups[index + 1]?.[0] === 20 ? groups[index + 1][1] : 0)]);
+            bulges.push(0);
+          }
+          if (code === 42 && bulges.length) bulges[bulges.length - 1] = Number(value);
+        });
+        return {
+          ...base,
+          type: 'LWPOLYLINE',
+          vertices,
+          ...(bulges.some(bulge => bulge !== 0) && { bulges }),
+          closed: (get(70, 0)! & 1) === 1,
+          ...(get(38) !== undefined && { elevation: get(38) }),
+          ...(get(43) !== undefined && { width: get(43), constantWidth: true }),
+        } as LWPolylineEntity;
+      }
+
+      case 'CIRCLE':
+        return { ...base, type: 'CIRCLE', center: point(10), radius: get(40, 0)! } as CircleEntity;
+
+      case 'ARC':
+        return { ...base, type: 'ARC', center: point(10), radius: get(40, 0)!, startAngle: get(50, 0)!, endAngle: get(51, 0)! } as ArcEntity;
+
+      case 'TEXT': {
+        const style = groups.find(([c]) => c === 7)?.[1];
+        return {
+          ...base,
+          type: 'TEXT',
+          position: point(10),
+          text: String(groups.find(([c]) => c === 1)?.[1] ?? ''),
+          height: get(40, 0)!,
+          ...(get(50) !== undefined && { rotation: get(50) }),
+          ...(style !== undefined && { style: String(style) }),
+          ...(get(41) !== undefined && { width: get(41) }),
+          ...(!!get(72) && { horizontalAlignment: get(72) }),
+          ...(!!get(73) && { verticalAlignment: get(73) }),
+          ...(get(11) !== undefined && { alignmentPoint: point(11) }),
+        } as TextEntity;
+      }
+
+      case 'MTEXT': {
+        // Texte découpé en tronçons de 250 caractères (codes 3) terminés par le code 1
+        const text = groups.filter(([c]) => c === 3 || c === 1).map(([, value]) => String(value)).join('');
+        const style = groups.find(([c]) => c === 7)?.[1];
+        // Rotation en radians (code 50) ou par vecteur direction (codes 11/21), arrondie au 1e-8 degré
+        const radians = get(50) !== undefined
+          ? get(50)!
+          : get(11) !== undefined ? Math.atan2(get(21, 0)!, get(11)!) : undefined;
+        const rotation = radians === undefined ? undefined : Math.round(((radians * 180) / Math.PI) * 1e8) / 1e8;
+        return {
+          ...base,
+          type: 'MTEXT',
+          position: point(10),
+          text,
+          height: get(40, 0)!,
+          ...(!!rotation && { rotation }),
+          ...(style !== undefined && { style: String(style) }),
+          ...(get(41) !== undefined && { width: get(41) }),
+          attachmentPoint: get(71, 1),
+        } as TextEntity;
+      }
+
+      case 'HATCH':
+        return DxfReader.hatch(base, groups);
+    }
+    throw new Error(`Unsupported DXF entity ${type}`);
+  }
+
+  /**
+   * Propriétés communes et données étendues ; renvoie les groupes propres à l'entité
+   */
+  private static base(record: Group[]): { base: DWGEntityBase; groups: Group[] } {
+    const start = record.findIndex(([code]) => code === 1001);
+    const groups = start < 0 ? record.slice(1) : record.slice(1, start);
+    const xdata = start < 0 ? [] : record.slice(start);
+    const get = (code: number) => groups.find(([c]) => c === code)?.[1];
+
+    const base: DWGEntityBase = {
+      id: '',
+      type: record[0][1] as DWGEntityBase['type'],
+      layer: String(get(8) ?? '0'),
+    };
+    if (get(5) !== undefined) {
+      base.handle = String(get(5));
+      base.id = base.handle;
+    }
+    if (get(62) !== undefined) base.color = Number(get(62));
+    if (get(420) !== undefined) base.trueColor = Number(get(420));
+    if (get(6) !== undefined) base.lineType = String(get(6));
+    if (get(370) !== undefined && Number(get(370)) >= 0) base.lineWeight = Number(get(370)) / 100;
+
+    let application = '';
+    for (let i = 0; i < xdata.length; i++) {
+      const [code, value] = xdata[i];
+      if (code === 1001) {
+        application = String(value);
+        if (application === APP_NAME) {
+          const { properties, next } = DxfReader.properties(xdata, i + 1);
+          base.extendedData = properties;
+          i = next - 1;
+        }
+      } else if (application) {
+        base.xdata ??= {};
+        (base.xdata[application] ??= []).push([code, value]);
+      }
+    }
+    return { base, groups };
+  }
+
+  /**
+   * Propriétés CADBRIDGE : clé (1000) suivie de sa valeur (1000, 1040, 1071 ou
+   * JSON entre accolades 1002)
+   */
+  private static properties(xdata: Group[], start: number): { properties: Record<string, unknown>; next: number } {
+    const properties: Record<string, unknown> = {};
+    let i = start;
+    while (i < xdata.length && xdata[i][0] !== 1001) {
+      const key = String(xdata[i++][1]);
+      const [code, value] = xdata[i++] ?? [];
+      if (code === 1002) {
+        const chunks: string[] = [];
+        while (i < xdata.length && xdata[i][0] !== 1002) chunks.push(String(xdata[i++][1]));
+        i++;
+        properties[key] = JSON.parse(chunks.join(''));
+      } else {
+        properties[key] = value;
+      }
+    }
+    return { properties, next: i };
+  }
+
+  private static polyline(record: Group[], vertices: Group[][]): LWPolylineEntity {
+    const { base, groups } = DxfReader.base(record);
+    const flags = Number(groups.find(([c]) => c === 70)?.[1] ?? 0);
+    const points = vertices.map(vertex => {
+      const get = (code: number) => Number(vertex.find(([c]) => c === code)?.[1] ?? 0);
+      return { point: [get(10), get(20)] as Point, z: get(30), bulge: get(42) };
+    });
+    const elevation = Number(groups.find(([c]) => c === 30)?.[1] ?? points[0]?.z ?? 0);
+
+    return {
+      ...base,
+      type: 'LWPOLYLINE',
+      vertices: points.map(({ point }) => point),
+      ...(points.some(({ bulge }) => bulge !== 0) && { bulges: points.map(({ bulge }) => bulge) }),
+      closed: (flags & 1) === 1,
+      ...(elevation !== 0 && { elevation }),
+    };
+  }
+
+  private static insert(record: Group[], attributes: Group[][]): BlockReference {
+    const { base, groups } = DxfReader.base(record);
+    const get = (code: number, fallback: number) => Number(groups.find(([c]) => c === code)?.[1] ?? fallback);
+
+    return {
+      ...base,
+      type: 'INSERT',
+      blockName: String(groups.find(([c]) => c === 2)?.[1] ?? ''),
+      position: [get(10, 0), get(20, 0), get(30, 0)],
+      scale: [get(41, 1), get(42, 1), get(43, 1)],
+      rotation: get(50, 0),
+      ...(attributes.length > 0 && {
+        attributes: Object.fromEntries(attributes.map(attribute => [
+          String(attribute.find(([c]) => c === 2)?.[1] ?? ''),
+          String(attribute.find(([c]) => c === 1)?.[1] ?? ''),
+        ])),
+      }),
+    };
+  }
+
+  /**
+   * Hachure : contours polylignes ou suites d'arêtes (segments et arcs),
+   * lus dans l'ordre car les codes 10/20 s'y répètent
+   */
+  private static hatch(base: DWGEntityBase, groups: Group[]): HatchEntity {
+    const boundary: Point[][] = [];
+    let name = '';
+    let solid = false;
+    let angle = 0;
+    let scale = 1;
+    let i = 0;
+    const at = (code: number): number => {
+      while (i < groups.length && groups[i][0] !== code) i++;
+      return Number(groups[i++]?.[1] ?? 0);
+    };
+
+    while (i < groups.length) {
+      const [code, value] = groups[i];
+      if (code === 2) name = String(value);
+      else if (code === 70) solid = value === 1;
+      else if (code === 52) angle = Number(value);
+      else if (code === 41) scale = Number(value);
+      else if (code === 91) {
+        const paths = Number(value);
+        i++;
+        for (let p = 0; p < paths; p++) {
+          const type = at(92);
+          const ring: Point[] = [];
+          if (type & 2) {
+            const hasBulge = at(72);
+            at(73);
+            const count = at(93);
+            const bulges: number[] = [];
+            for (let v = 0; v < count; v++) {
+              ring.push([at(10), at(20)]);
+              bulges.push(hasBulge && groups[i]?.[0] === 42 ? Number(groups[i++][1]) : 0);
+            }
+            if (bulges.some(bulge => bulge !== 0)) {
+              boundary.push(DxfReader.densifyBulges(ring, bulges, true));
+              continue;
+            }
+          } else {
+            const edges = at(93);
+            for (let e = 0; e < edges; e++) {
+              const edge = at(72);
+              if (edge === 1) {
+                ring.push([at(10), at(20)]);
+                at(11);
+                at(21);
+              } else if (edge === 2) {
+                const [cx, cy, radius, start, end] = [at(10), at(20), at(40), at(50), at(51)];
+                const ccw = at(73) !== 0;
+                DxfReader.arc([cx, cy], radius, ccw ? start : -start, ccw ? end : -end, !ccw)
+                  .slice(0, -1)
+                  .forEach(vertex => ring.push(vertex));
+              } else {
+                // Ellipses et splines : points de définition seulement
+                ring.push([at(10), at(20)]);
+              }
+            }
+          }
+          boundary.push(ring);
+        }
+        continue;
+      }
+      i++;
+    }
+
+    return {
+      ...base,
+      type: 'HATCH',
+      boundary,
+      solid,
+      ...(!solid && name && { pattern: { name, scale, angle } }),
+    };
+  }
+
+  /**
+   * Points d'un arc de cercle, angles en degrés (sens horaire si `clockwise`)
+   */
+  static arc(center: Point, radius: number, start: number, end: number, clockwise = false, step = 5): Point[] {
+    let sweep = end - start;
+    if (!clockwise && sweep <= 0) sweep += 360;
+    if (clockwise && sweep >= 0) sweep -= 360;
+    const count = Math.max(2, Math.ceil(Math.abs(sweep) / step));
+    return Array.from({ length: count + 1 }, (_, k) => {
+      const angle = ((start + (sweep * k) / count) * Math.PI) / 180;
+      return [center[0] + radius * Math.cos(angle), center[1] + radius * Math.sin(angle)] as Point;
+    });
+  }
+
+  /**
+   * Remplace les segments à renflement d'une polyligne par des arcs densifiés
+   */
+  static densifyBulges(vertices: Point[], bulges: number[], closed: boolean, step = 5): Point[] {
+    const points: Point[] = [];
+    const segments = closed ? vertices.length : vertices.length - 1;
+    for (let i = 0; i < segments; i++) {
+      const [start, end] = [vertices[i], vertices[(i + 1) % vertices.length]];
+      const bulge = bulges[i] ?? 0;
+      points.push(start);
+      if (!bulge) continue;
+
+      // Centre sur la médiatrice de la corde, à gauche pour un renflement positif
+      const [dx, dy] = [end[0] - start[0], end[1] - start[1]];
+      const offset = (1 - bulge * bulge) / (4 * bulge);
+      const center: Point = [(start[0] + end[0]) / 2 - dy * offset, (start[1] + end[1]) / 2 + dx * offset];
+      const radius = Math.hypot(start[0] - center[0], start[1] - center[1]);
+      const from = Math.atan2(start[1] - center[1], start[0] - center[0]);
+      const sweep = 4 * Math.atan(bulge);
+      const count = Math.max(2, Math.ceil(Math.abs((sweep * 180) / Math.PI) / step));
+      for (let k = 1; k < count; k++) {
+        const angle = from + (sweep * k) / count;
+        points.push([center[0] + radius * Math.cos(angle), center[1] + radius * Math.sin(angle)]);
+      }
+    }
+    if (!closed) points.push(vertices[vertices.length - 1]);
+    return points;
+  }
+}
+
+/**
+ * Écriture DXF ASCII. En R12 les entités récentes sont dégradées :
+ * LWPOLYLINE en POLYLINE/VERTEX, MTEXT en lignes de TEXT, HATCH en contours.
+ */
+class DxfWriter {
+  private lines: string[] = [];
+  private handle = 0x20; // Les premiers identifiants restent libres pour les objets racine
+  private readonly legacy: boolean;
+  private readonly unicode: boolean;
+
+  private constructor(private readonly version: DxfVersion) {
+    this.legacy = version === 'R12';
+    // UTF-8 à partir de 2007, sinon caractères échappés en \U+XXXX
+    this.unicode = !['R12', 'R14', '2000', '2004'].includes(version);
+  }
+
+  static write(drawing: Omit<DxfDrawing, 'version'>, version: DxfVersion = '2013'): string {
+    return new DxfWriter(version).document(drawing);
+  }
+
+  private document(drawing: Omit<DxfDrawing, 'version'>): string {
+    const layers = this.layers(drawing);
+    const lineTypes = this.lineTypes(drawing, layers);
+    const textStyles = this.textStyles(drawing);
+    const applications = this.applications(drawing);
+    this.checkBlocks(drawing);
+
+    // Identifiants des enregistrements de blocs, référencés par les entités
+    const records = new Map<string, string>();
+    if (!this.legacy) {
+      ['*Model_Space', '*Paper_Space', ...drawing.blocks.map(block => block.name)].forEach(name => records.set(name, this.next()));
+    }
+
+    const body: string[] = [];
+    this.lines = body;
+    this.tables(layers, lineTypes, textStyles, applications, records);
+    this.blocks(drawing.blocks, records);
+    this.section('ENTITIES', () => drawing.entities.forEach(entity => this.entity(entity, records.get('*Model_Space'))));
+    if (!this.legacy) this.objects();
+    this.pair(0, 'EOF');
+
+    // L'en-tête est écrit en dernier pour connaître le prochain identifiant libre
+    this.lines = [];
+    this.header(drawing);
+    return [...this.lines, ...body, ''].join('\r\n');
+  }
+
+  // Sections
+
+  private header(drawing: Omit<DxfDrawing, 'version'>): void {
+    const extents = DxfWriter.extents(drawing.entities);
+    this.section('HEADER', () => {
+      this.variable('$ACADVER', [[1, ACAD_VERSIONS[this.version]]]);
+      if (!this.unicode) this.variable('$DWGCODEPAGE', [[3, 'ANSI_1252']]);
+      this.variable('$INSBASE', [[10, 0], [20, 0], [30, 0]]);
+      this.variable('$EXTMIN', [[10, extents.min[0]], [20, extents.min[1]], [30, extents.min[2]]]);
+      this.variable('$EXTMAX', [[10, extents.max[0]], [20, extents.max[1]], [30, extents.max[2]]]);
+      if (!this.legacy) {
+        this.variable('$INSUNITS', [[70, drawing.units ?? 6]]);
+        this.variable('$HANDSEED', [[5, this.next()]]);
+      }
+    });
+    if (!this.legacy) this.section('CLASSES', () => undefined);
+  }
+
+  private tables(
+    layers: DxfLayer[],
+    lineTypes: DxfLineType[],
+    textStyles: DxfTextStyle[],
+    applications: string[],
+    records: Map<string, string>
+  ): void {
+    this.section('TABLES', () => {
+      this.table('VPORT', ['*ACTIVE'], (name, owner) => {
+        this.record('VPORT', owner, 'AcDbViewportTableRecord');
+        this.pair(2, name);
+        this.pair(70, 0);
+        this.pairs([[10, 0], [20, 0], [11, 1], [21, 1], [12, 0], [22, 0], [40, 100], [41, 1.5]]);
+      });
+
+      this.table('LTYPE', lineTypes, (lineType, owner) => {
+        this.record('LTYPE', owner, 'AcDbLinetypeTableRecord');
+        this.pair(2, lineType.name);
+        this.pair(70, 0);
+        this.pair(3, lineType.description);
+        this.pair(72, 65);
+        this.pair(73, lineType.pattern.length);
+        this.pair(40, lineType.pattern.reduce((sum, value) => sum + Math.abs(value), 0));
+        lineType.pattern.forEach(value => {
+          this.pair(49, value);
+          if (!this.legacy) this.pair(74, 0);
+        });
+      });
+
+      this.table('LAYER', layers, (layer, owner) => {
+        this.record('LAYER', owner, 'AcDbLayerTableRecord');
+        this.pair(2, layer.name);
+        this.pair(70, (layer.frozen ? 1 : 0) | (layer.locked ? 4 : 0));
+        this.pair(62, layer.off ? -Math.abs(layer.color) : layer.color);
+        if (!this.legacy && layer.trueColor !== undefined) this.pair(420, layer.trueColor);
+        this.pair(6, layer.lineType);
+        if (!this.legacy && layer.lineWeight !== undefined) this.pair(370, Math.round(layer.lineWeight * 100));
+      });
+
+      this.table('STYLE', textStyles, (style, owner) => {
+        this.record('STYLE', owner, 'AcDbTextStyleTableRecord');
+        this.pairs([[2, style.name], [70, 0], [40, 0], [41, style.width], [50, style.oblique], [71, 0], [42, style.height], [3, style.font], [4, '']]);
+      });
+
+      this.table('VIEW', [], () => undefined);
+      this.table('UCS', [], () => undefined);
+
+      this.table('APPID', applications, (name, owner) => {
+        this.record('APPID', owner, 'AcDbRegAppTableRecord');
+        this.pair(2, name);
+        this.pair(70, 0);
+      });
+
+      this.table('DIMSTYLE', ['Standard'], (name, owner) => {
+        if (this.legacy) {
+          this.pair(0, 'DIMSTYLE');
+        } else {
+          // Les styles de cote portent leur identifiant en code 105
+          this.pairs([[0, 'DIMSTYLE'], [105, this.next()], [330, owner], [100, 'AcDbSymbolTableRecord'], [100, 'AcDbDimStyleTableRecord']]);
+        }
+        this.pair(2, name);
+        this.pair(70, 0);
+      });
+
+      if (!this.legacy) {
+        this.table('BLOCK_RECORD', Array.from(records), ([name, handle], owner) => {
+          this.pairs([[0, 'BLOCK_RECORD'], [5, handle], [330, owner], [100, 'AcDbSymbolTableRecord'], [100, 'AcDbBlockTableRecord'], [2, name]]);
+        });
+      }
+    });
+  }
+
+  private blocks(blocks: BlockDefinition[], records: Map<string, string>): void {
+    this.section('BLOCKS', () => {
+      const spaces: BlockDefinition[] = this.legacy
+        ? []
+        : [{ name: '*Model_Space', basePoint: [0, 0, 0], entities: [] }, { name: '*Paper_Space', basePoint: [0, 0, 0], entities: [] }];
+
+      [...spaces, ...blocks].forEach(block => {
+        const owner = records.get(block.name);
+        this.pair(0, 'BLOCK');
+        if (!this.legacy) this.pairs([[5, this.next()], [330, owner!], [100, 'AcDbEntity']]);
+        this.pair(8, '0');
+        if (!this.legacy) this.pair(100, 'AcDbBlockBegin');
+        this.pairs([[2, block.name], [70, 0], [10, block.basePoint[0]], [20, block.basePoint[1]], [30, block.basePoint[2] ?? 0], [3, block.name], [1, '']]);
+
+        // Les entités d'un bloc n'ont pas de données propres aux espaces
+        if (!block.name.startsWith('*')) block.entities.forEach(entity => this.entity(entity, owner));
+
+        this.pair(0, 'ENDBLK');
+        if (!this.legacy) this.pairs([[5, this.next()], [330, owner!], [100, 'AcDbEntity']]);
+        this.pair(8, '0');
+        if (!this.legacy) this.pair(100, 'AcDbBlockEnd');
+      });
+    });
+  }
+
+  private objects(): void {
+    this.section('OBJECTS', () => {
+      // Dictionnaire racine et dictionnaire des groupes, attendus par AutoCAD
+      this.pairs([[0, 'DICTIONARY'], [5, 'C'], [330, '0'], [100, 'AcDbDictionary'], [281, 1], [3, 'ACAD_GROUP'], [350, 'D']]);
+      this.pairs([[0, 'DICTIONARY'], [5, 'D'], [330, 'C'], [100, 'AcDbDictionary'], [281, 1]]);
+    });
+  }
+
+  // Entités
+
+  private entity(entity: DWGEntity, owner?: string): void {
+    switch (entity.type) {
+      case 'POINT':
+        this.start('POINT', entity, owner, 'AcDbPoint');
+        this.point(10, entity.position);
+        if (entity.thickness !== undefined) this.pair(39, entity.thickness);
+        break;
+
+      case 'LINE':
+        this.start('LINE', entity, owner, 'AcDbLine');
+        this.point(10, entity.start);
+        this.point(11, entity.end);
+        break;
+
+      case 'LWPOLYLINE':
+        if (this.legacy) {
+          this.legacyPolyline(entity, owner);
+          return;
+        }
+        this.start('LWPOLYLINE', entity, owner, 'AcDbPolyline');
+        this.pair(90, entity.vertices.length);
+        this.pair(70, entity.closed ? 1 : 0);
+        if (entity.elevation !== undefined) this.pair(38, entity.elevation);
+        if (entity.width !== undefined) this.pair(43, entity.width);
+        entity.vertices.forEach(([x, y], i) => {
+          this.pairs([[10, x], [20, y]]);
+          if (entity.bulges?.[i]) this.pair(42, entity.bulges[i]);
+        });
+        break;
+
+      case 'CIRCLE':
+        this.start('CIRCLE', entity, owner, 'AcDbCircle');
+        this.point(10, entity.center);
+        this.pair(40, entity.radius);
+        break;
+
+      case 'ARC':
+        this.start('ARC', entity, owner, 'AcDbCircle');
+        this.point(10, entity.center);
+        this.pair(40, entity.radius);
+        if (!this.legacy) this.pair(100, 'AcDbArc');
+        this.pairs([[50, entity.startAngle], [51, entity.endAngle]]);
+        break;
+
+      case 'TEXT':
+        this.text(entity, owner);
+        break;
+
+      case 'MTEXT':
+        if (this.legacy) {
+          this.legacyMText(entity, owner);
+          return;
+        }
+        this.start('MTEXT', entity, owner, 'AcDbMText');
+        this.point(10, entity.position);
+        this.pair(40, entity.height);
+        if (entity.width !== undefined) this.pair(41, entity.width);
+        this.pair(71, entity.attachmentPoint ?? 1);
+        this.pair(72, 1);
+        {
+          // Tronçons de 250 caractères en codes 3, le dernier en code 1
+          const text = entity.text.replace(/\r?\n/g, '\\P');
+          const last = Math.floor(Math.max(text.length - 1, 0) / XDATA_CHUNK) * XDATA_CHUNK;
+          for (let i = 0; i < last; i += XDATA_CHUNK) this.pair(3, text.slice(i, i + XDATA_CHUNK));
+          this.pair(1, text.slice(last));
+        }
+        if (entity.style) this.pair(7, entity.style);
+        if (entity.rotation) this.pair(50, (entity.rotation * Math.PI) / 180);
+        break;
+
+      case 'INSERT':
+        this.insert(entity, owner);
+        return;
+
+      case 'HATCH':
+        if (this.legacy) {
+          // Pas de hachures en R12 : seuls les contours sont conservés
+          entity.boundary.forEach(ring => this.legacyPolyline({ ...entity, type: 'LWPOLYLINE', vertices: ring, closed: true }, owner));
+          return;
+        }
+        this.hatch(entity, owner);
+        break;
+    }
+    this.xdata(entity);
+  }
+
+  private text(entity: TextEntity, owner?: string): void {
+    this.start('TEXT', entity, owner, 'AcDbText');
+    this.point(10, entity.position);
+    this.pair(40, entity.height);
+    this.pair(1, entity.text.replace(/\r?\n/g, ' '));
+    if (entity.rotation) this.pair(50, entity.rotation);
+    if (entity.width !== undefined) this.pair(41, entity.width);
+    if (entity.style) this.pair(7, entity.style);
+    if (entity.horizontalAlignment) this.pair(72, entity.horizontalAlignment);
+    if (entity.alignmentPoint) this.point(11, entity.alignmentPoint);
+    if (!this.legacy) this.pair(100, 'AcDbText');
+    if (entity.verticalAlignment) this.pair(73, entity.verticalAlignment);
+  }
+
+  private insert(entity: BlockReference, owner?: string): void {
+    const attributes = Object.entries(entity.attributes ?? {});
+    this.start('INSERT', entity, owner, 'AcDbBlockReference');
+    const handle = this.current;
+    if (attributes.length) this.pair(66, 1);
+    this.pair(2, entity.blockName);
+    this.point(10, entity.position);
+    const [sx, sy, sz] = entity.scale ?? [1, 1, 1];
+    if (sx !== 1 || sy !== 1 || sz !== 1) this.pairs([[41, sx], [42, sy], [43, sz]]);
+    if (entity.rotation) this.pair(50, entity.rotation);
+    this.xdata(entity);
+
+    if (!attributes.length) return;
+    attributes.forEach(([tag, value]) => {
+      this.pair(0, 'ATTRIB');
+      if (!this.legacy) this.pairs([[5, this.next()], [330, handle], [100, 'AcDbEntity']]);
+      this.pair(8, entity.layer);
+      if (!this.legacy) this.pair(100, 'AcDbText');
+      this.point(10, entity.position);
+      this.pairs([[40, 2.5], [1, value]]);
+      if (!this.legacy) this.pair(100, 'AcDbAttribute');
+      this.pairs([[2, tag], [70, 0]]);
+    });
+    this.pair(0, 'SEQEND');
+    if (!this.legacy) this.pairs([[5, this.next()], [330, handle], [100, 'AcDbEntity']]);
+    this.pair(8, entity.layer);
+  }
+
+  private hatch(entity: HatchEntity, owner?: string): void {
+    this.start('HATCH', entity, owner, 'AcDbHatch');
+    this.pairs([[10, 0], [20, 0], [30, 0], [210, 0], [220, 0], [230, 1]]);
+    this.pair(2, entity.solid ? 'SOLID' : entity.pattern?.name ?? 'ANSI31');
+    this.pairs([[70, entity.solid ? 1 : 0], [71, 0], [91, entity.boundary.length]]);
+    entity.boundary.forEach((ring, i) => {
+      // Contour polyligne ; le premier est le contour extérieur
+      this.pairs([[92, i === 0 ? 2 | 16 : 2], [72, 0], [73, 1], [93, ring.length]]);
+      ring.forEach(([x, y]) => this.pairs([[10, x], [20, y]]));
+      this.pair(97, 0);
+    });
+    this.pairs([[75, 1], [76, 1]]);
+    if (!entity.solid) this.pairs([[52, entity.pattern?.angle ?? 0], [41, entity.pattern?.scale ?? 1], [77, 0], [78, 0]]);
+    this.pair(98, 0);
+  }
+
+  private legacyPolyline(entity: LWPolylineEntity, owner?: string): void {
+    this.start('POLYLINE', entity, owner, 'AcDb2dPolyline');
+    this.pairs([[66, 1], [10, 0], [20, 0], [30, entity.elevation ?? 0], [70, entity.closed ? 1 : 0]]);
+    this.xdata(entity);
+    entity.vertices.forEach(([x, y], i) => {
+      this.pairs([[0, 'VERTEX'], [8, entity.layer], [10, x], [20, y], [30, entity.elevation ?? 0]]);
+      if (entity.bulges?.[i]) this.pair(42, entity.bulges[i]);
+    });
+    this.pairs([[0, 'SEQEND'], [8, entity.layer]]);
+  }
+
+  private legacyMText(entity: TextEntity, owner?: string): void {
+    // Un TEXT par paragraphe, interligne de 1,5 fois la hauteur
+    const rotation = ((entity.rotation ?? 0) * Math.PI) / 180;
+    DxfReader.plainText(entity.text).split('\n').forEach((line, i) => {
+      const offset = i * entity.height * 1.5;
+      this.text({
+        ...entity,
+        type: 'TEXT',
+        text: line,
+        position: [
+          entity.position[0] + offset * Math.sin(rotation),
+          entity.position[1] - entity.height - offset * Math.cos(rotation),
+          entity.position[2] ?? 0,
+        ],
+      }, owner);
+      this.xdata(entity);
+    });
+  }
+
+  /**
+   * Début d'entité : propriétés communes puis marqueur de sous-classe
+   */
+  private start(type: string, entity: DWGEntity, owner: string | undefined, subclass: string): void {
+    this.pair(0, type);
+    if (!this.legacy) this.pairs([[5, this.next()], [330, owner ?? '0'], [100, 'AcDbEntity']]);
+    this.pair(8, entity.layer || '0');
+    if (entity.lineType) this.pair(6, entity.lineType);
+    if (entity.color !== undefined) this.pair(62, entity.color);
+    if (!this.legacy) {
+      if (entity.trueColor !== undefined) this.pair(420, entity.trueColor);
+      if (entity.lineWeight !== undefined) this.pair(370, Math.round(entity.lineWeight * 100));
+      this.pair(100, subclass);
+    }
+  }
+
+  /**
+   * Données étendues : propriétés de l'objet sous CADBRIDGE, puis celles des
+   * autres applications telles que lues
+   */
+  private xdata(entity: DWGEntityBase): void {
+    const properties = Object.entries(entity.extendedData ?? {}).filter(([, value]) => value !== undefined);
+    if (properties.length) {
+      this.pair(1001, APP_NAME);
+      properties.forEach(([key, value]) => {
+        this.pair(1000, key.slice(0, 255));
+        if (typeof value === 'number' && Number.isInteger(value) && Math.abs(value) < 2 ** 31) this.pair(1071, value);
+        else if (typeof value === 'number') this.pair(1040, value);
+        else if (typeof value === 'string' && value.length <= XDATA_CHUNK && !value.includes('\n')) this.pair(1000, value);
+        else {
+          // Autres valeurs en JSON découpé entre accolades
+          const json = JSON.stringify(value);
+          this.pair(1002, '{');
+          for (let i = 0; i < json.length; i += XDATA_CHUNK) this.pair(1000, json.slice(i, i + XDATA_CHUNK));
+          this.pair(1002, '}');
+        }
+      });
+    }
+    Object.entries(entity.xdata ?? {}).forEach(([application, groups]) => {
+      this.pair(1001, application);
+      groups.forEach(([code, value]) => this.pair(code, value));
+    });
+  }
+
+  // Tables
+
+  private layers(drawing: Omit<DxfDrawing, 'version'>): DxfLayer[] {
+    const layers = new Map<string, DxfLayer>();
+    layers.set('0', { name: '0', color: 7, lineType: 'Continuous' });
+    drawing.layers.forEach(layer => layers.set(layer.name, layer));
+    DxfWriter.allEntities(drawing).forEach(entity => {
+      const name = entity.layer || '0';
+      if (!layers.has(name)) layers.set(name, { name, color: 7, lineType: 'Continuous' });
+    });
+    return Array.from(layers.values());
+  }
+
+  private lineTypes(drawing: Omit<DxfDrawing, 'version'>, layers: DxfLayer[]): DxfLineType[] {
+    const lineTypes = new Map<string, DxfLineType>();
+    const standard = this.legacy ? [] : ['ByBlock', 'ByLayer'];
+    [...standard, 'Continuous'].forEach(name => lineTypes.set(name.toUpperCase(), { name, description: name === 'Continuous' ? 'Solid line' : '', pattern: [] }));
+    drawing.lineTypes.forEach(lineType => lineTypes.set(lineType.name.toUpperCase(), lineType));
+
+    // Un type de ligne référencé mais non défini est déclaré continu
+    const used = [...layers.map(layer => layer.lineType), ...DxfWriter.allEntities(drawing).map(entity => entity.lineType)];
+    used.filter((name): name is string => !!name && !lineTypes.has(name.toUpperCase())).forEach(name => {
+      console.warn(`Type de ligne '${name}' non défini, exporté comme continu`);
+      lineTypes.set(name.toUpperCase(), { name, description: '', pattern: [] });
+    });
+    return Array.from(lineTypes.values());
+  }
+
+  private textStyles(drawing: Omit<DxfDrawing, 'version'>): DxfTextStyle[] {
+    const styles = new Map<string, DxfTextStyle>();
+    styles.set('STANDARD', { name: 'Standard', font: 'txt', width: 1, oblique: 0, height: 2.5 });
+    drawing.textStyles.forEach(style => styles.set(style.name.toUpperCase(), style));
+    DxfWriter.allEntities(drawing).forEach(entity => {
+      if ((entity.type === 'TEXT' || entity.type === 'MTEXT') && entity.style && !styles.has(entity.style.toUpperCase())) {
+        styles.set(entity.style.toUpperCase(), { name: entity.style, font: 'txt', width: 1, oblique: 0, height: entity.height });
+      }
+    });
+    return Array.from(styles.values());
+  }
+
+  private applications(drawing: Omit<DxfDrawing, 'version'>): string[] {
+    const applications = new Set(['ACAD']);
+    DxfWriter.allEntities(drawing).forEach(entity => {
+      if (Object.keys(entity.extendedData ?? {}).length) applications.add(APP_NAME);
+      Object.keys(entity.xdata ?? {}).forEach(name => applications.add(name));
+    });
+    return Array.from(applications);
+  }
+
+  private checkBlocks(drawing: Omit<DxfDrawing, 'version'>): void {
+    const names = new Set(drawing.blocks.map(block => block.name));
+    DxfWriter.allEntities(drawing).forEach(entity => {
+      if (entity.type === 'INSERT' && !names.has(entity.blockName)) throw new Error(`Block ${entity.blockName} is not defined`);
+    });
+  }
+
+  // Écriture des groupes
+
+  private section(name: string, body: () => void): void {
+    this.pairs([[0, 'SECTION'], [2, name]]);
+    body();
+    this.pair(0, 'ENDSEC');
+  }
+
+  private table<T>(name: string, entries: T[], write: (entry: T, owner: string) => void): void {
+    const handle = this.legacy ? '' : this.next();
+    this.pairs([[0, 'TABLE'], [2, name]]);
+    if (!this.legacy) this.pairs([[5, handle], [330, '0'], [100, 'AcDbSymbolTable']]);
+    this.pair(70, entries.length);
+    if (!this.legacy && name === 'DIMSTYLE') this.pair(100, 'AcDbDimStyleTable');
+    entries.forEach(entry => write(entry, handle));
+    this.pair(0, 'ENDTAB');
+  }
+
+  private record(type: string, owner: string, subclass: string): void {
+    this.pair(0, type);
+    if (!this.legacy) this.pairs([[5, this.next()], [330, owner], [100, 'AcDbSymbolTableRecord'], [100, subclass]]);
+  }
+
+  private variable(name: string, values: Group[]): void {
+    this.pair(9, name);
+    this.pairs(values);
+  }
+
+  private point(code: number, [x, y, z = 0]: number[]): void {
+    this.pairs([[code, x], [code + 10, y], [code + 20, z]]);
+  }
+
+  private pairs(groups: Group[]): void {
+    groups.forEach(([code, value]) => this.pair(code, value));
+  }
+
+  private pair(code: number, value: string | number): void {
+    const text = typeof value === 'number'
+      ? isRealCode(code) ? DxfWriter.real(value) : String(Math.round(value))
+      : this.encode(value);
+    this.lines.push(String(code).padStart(3, ' '), text);
+  }
+
+  private encode(value: string): string {
+    return this.unicode
+      ? value
+      : value.replace(/[^\x20-\x7e]/g, char => `\\U+${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}`);
+  }
+
+  private next(): string {
+    this.handle++;
+    return this.handle.toString(16).toUpperCase();
+  }
+
+  private get current(): string {
+    return this.handle.toString(16).toUpperCase();
+  }
+
+  // Réels en notation décimale, sans exposant
+  private static real(value: number): string {
+    if (!Number.isFinite(value)) throw new Error(`Invalid DXF coordinate: ${value}`);
+    const text = value.toFixed(10).replace(/0+$/, '').replace(/\.$/, '.0');
+    return text === '-0.0' ? '0.0' : text;
+  }
+
+  private static allEntities(drawing: Omit<DxfDrawing, 'version'>): DWGEntity[] {
+    return [...drawing.entities, ...drawing.blocks.flatMap(block => block.entities)];
+  }
+
+  private static extents(entities: DWGEntity[]): { min: Point3D; max: Point3D } {
+    const points: number[][] = entities.flatMap(entity => {
+      switch (entity.type) {
+        case 'POINT':
+        case 'TEXT':
+        case 'MTEXT':
+        case 'INSERT':
+          return [entity.position];
+        case 'LINE':
+          return [entity.start, entity.end];
+        case 'LWPOLYLINE':
+          return entity.vertices;
+        case 'CIRCLE':
+        case 'ARC':
+          return [
+            [entity.center[0] - entity.radius, entity.center[1] - entity.radius],
+            [entity.center[0] + entity.radius, entity.center[1] + entity.radius],
+          ];
+        case 'HATCH':
+          return entity.boundary.flat();
+      }
+      return [];
+    });
+    if (!points.length) return { min: [0, 0, 0], max: [0, 0, 0] };
+    const axis = (index: number, pick: (...values: number[]) => number) => pick(...points.map(point => point[index] ?? 0));
+    return {
+      min: [axis(0, Math.min), axis(1, Math.min), axis(2, Math.min)],
+      max: [axis(0, Math.max), axis(1, Math.max), axis(2, Math.max)],
+    };
+  }
+}
+
+export { DxfReader, DxfWriter, ACAD_VERSIONS };
+export type { DxfVersion, DxfDrawing, DxfLayer, DxfLineType, DxfTextStyle };
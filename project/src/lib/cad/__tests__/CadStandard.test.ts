@@ -0,0 +1,165 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { CadStandard, type CadStandardProfile } from '../CadStandard';
+import { CADBridge, type BlockReference, type TextEntity } from '../CADBridge';
+import { ParcelTopology } from '../../cadastre/ParcelTopology';
+
+const X0 = 652000;
+const Y0 = 6862000;
+
+// Parcelle, borne numérotée et sommet non matérialisé en Lambert-93
+function features(): GeoJSON.Feature[] {
+  return [
+    {
+      type: 'Feature',
+      id: 'p1',
+      geometry: { type: 'Polygon', coordinates: [[[X0, Y0], [X0 + 40, Y0], [X0 + 40, Y0 + 20], [X0, Y0 + 20], [X0, Y0]]] },
+      properties: { featureType: 'parcel', reference: 'AB-12' },
+    },
+    {
+      type: 'Feature',
+      id: 'm1',
+      geometry: { type: 'Point', coordinates: [X0, Y0] },
+      properties: { featureType: 'marker', kind: 'borne', code: 'B1', status: 'found' },
+    },
+    {
+      type: 'Feature',
+      id: 'm2',
+      geometry: { type: 'Point', coordinates: [X0 + 40, Y0] },
+      properties: { featureType: 'marker', kind: 'virtual' },
+    },
+    {
+      type: 'Feature',
+      id: 'l1',
+      geometry: { type: 'LineString', coordinates: [[X0 + 40, Y0 + 20], [X0, Y0 + 20]] },
+      properties: { featureType: 'boundary', nature: 'mur' },
+    },
+  ];
+}
+
+describe('CadStandard', () => {
+  const bridge = CADBridge.getInstance();
+
+  afterEach(() => {
+    bridge.setStandard(CadStandard.CADASTRAL);
+  });
+
+  it('should report features that no rule covers', () => {
+    const topology = new ParcelTopology('EPSG:2154');
+    topology.createParcel({
+      reference: 'AB-12',
+      ring: [{ x: X0, y: Y0 }, { x: X0 + 10, y: Y0 }, { x: X0 + 10, y: Y0 + 10 }, { x: X0, y: Y0 + 10, kind: 'virtual' }],
+    });
+    const extra: GeoJSON.Feature[] = [
+      { type: 'Feature', id: 't1', geometry: { type: 'Point', coordinates: [0, 0] }, properties: { featureType: 'tree' } },
+      { type: 'Feature', id: 'p9', geometry: { type: 'Point', coordinates: [0, 0] }, properties: { featureType: 'parcel' } },
+      { type: 'Feature', id: 'x1', geometry: { type: 'Point', coordinates: [0, 0] }, properties: {} },
+    ];
+    const report = bridge.validateFeatures([...topology.toFeatures(), ...extra]);
+
+    expect(report.profile).toBe(CadStandard.CADASTRAL.name);
+    expect(report.byClass).toEqual({ parcel: 1, marker: 4, boundary: 4 });
+    expect(report.matched).toBe(9);
+    expect(report.unmatched).toEqual([
+      { index: 9, id: 't1', featureClass: 'tree', geometry: 'Point', reason: 'no rule for featureType tree' },
+      { index: 10, id: 'p9', featureClass: 'parcel', geometry: 'Point', reason: 'geometry Point not allowed for parcel' },
+      { index: 11, id: 'x1', geometry: 'Point', reason: 'missing featureType property' },
+    ]);
+  });
+
+  it('should place features on standard layers with blocks and scaled labels', () => {
+    const entities = bridge.convertToDWG(features(), { drawingScale: 500 });
+
+    expect(entities.map(entity => [entity.type, entity.layer])).toEqual([
+      ['LWPOLYLINE', 'CAD_PARCELLE'],
+      ['TEXT', 'CAD_NUM_PARCELLE'],
+      ['INSERT', 'CAD_BORNE'],
+      ['TEXT', 'CAD_NUM_BORNE'],
+      ['INSERT', 'CAD_SOMMET'],
+      ['LWPOLYLINE', 'CAD_LIMITE_APPARENTE'],
+    ]);
+    expect(entities.every(entity => entity.color === 256)).toBe(true);
+
+    // Numéro de parcelle centré, 3 mm à 1/500
+    const parcelLabel = entities[1] as TextEntity;
+    expect(parcelLabel).toMatchObject({ text: 'AB-12', height: 1.5, style: 'CAD_NUM_PARCELLE', horizontalAlignment: 1 });
+    expect(parcelLabel.alignmentPoint).toEqual([X0 + 20, Y0 + 10, 0]);
+
+    // Symbole à l'échelle du plan, attributs de la borne
+    expect(entities[2] as BlockReference).toMatchObject({
+      blockName: 'CAD_BORNE',
+      scale: [0.5, 0.5, 1],
+      attributes: { NUMERO: 'B1', ETAT: 'found' },
+    });
+    expect(entities[3]).toMatchObject({ text: 'B1', height: 1, position: [X0 + 0.75, Y0 + 0.75, 0] });
+
+    expect(CadStandard.textHeight(CadStandard.CADASTRAL, 'CAD_NUM_PARCELLE', 750)).toBeCloseTo(1.875, 9);
+    expect(CadStandard.textHeight(CadStandard.CADASTRAL, 'CAD_NUM_PARCELLE', 10000)).toBe(20);
+  });
+
+  it('should write the standard tables and reclassify imported entities', async () => {
+    const file = await bridge.exportDWG(bridge.convertToDWG(features()), { version: '2013' });
+    const drawing = bridge.readDXF(file);
+
+    expect(drawing.layers.find(layer => layer.name === 'CAD_LIMITE_APPARENTE')).toMatchObject({ color: 1, lineType: 'CAD_TIRETS' });
+    expect(drawing.lineTypes.map(lineType => lineType.name)).toContain('CAD_AXE');
+    expect(drawing.blocks.map(block => block.name)).toEqual(expect.arrayContaining(['CAD_BORNE', 'CAD_REPERE', 'CAD_SOMMET']));
+
+    const { features: imported } = await bridge.importDWG(file, { extractBlocks: false });
+    const marker = imported.find(feature => feature.properties?.blockName === 'CAD_BORNE')!;
+    expect(marker.properties).toMatchObject({ featureType: 'marker', kind: 'borne', code: 'B1', status: 'found' });
+    expect(imported.find(feature => feature.properties?.text === 'AB-12')!.properties).toMatchObject({ labelOf: 'parcel' });
+    expect(imported.find(feature => feature.properties?.layer === 'CAD_PARCELLE')!.properties).toMatchObject({ featureType: 'parcel' });
+  });
+
+  it('should report imported entities that the standard does not classify', async () => {
+    const outside: GeoJSON.Feature = { type: 'Feature', id: 'x1', geometry: { type: 'Point', coordinates: [X0, Y0] }, properties: { layer: 'DIVERS' } };
+    const file = await bridge.exportDWG(bridge.convertToDWG([...features(), outside]), { version: '2013' });
+
+    const { features: imported, standard } = await bridge.importDWG(file, { extractBlocks: false });
+    expect(standard).toMatchObject({ profile: CadStandard.CADASTRAL.name, total: imported.length });
+    expect(standard.byClass).toMatchObject({ parcel: 2, marker: 3, boundary: 1 });
+    expect(standard.matched).toBe(imported.length - 1);
+    const index = imported.findIndex(feature => feature.properties?.layer === 'DIVERS');
+    expect(standard.unmatched).toEqual([{ index, id: imported[index].id, geometry: 'Point', reason: 'no rule for layer DIVERS' }]);
+  });
+
+  it('should reproject centered labels together with their alignment point', async () => {
+    const entities = bridge.convertToDWG(features(), { drawingScale: 500 });
+    const file = await bridge.exportDWG(entities, { version: '2013', sourceCRS: 'EPSG:2154', targetCRS: 'EPSG:4326' });
+    const label = bridge.readDXF(file).entities.find(entity => entity.type === 'TEXT' && entity.text === 'AB-12') as TextEntity;
+
+    expect(label.position[0]).toBeCloseTo(2.35, 1);
+    expect(label.position[1]).toBeCloseTo(48.85, 1);
+    expect(label.alignmentPoint![0]).toBeCloseTo(label.position[0], 9);
+    expect(label.alignmentPoint![1]).toBeCloseTo(label.position[1], 9);
+  });
+
+  it('should load custom JSON profiles and reject inconsistent ones', () => {
+    const profile: Partial<CadStandardProfile> = {
+      name: 'Plan topographique',
+      layers: [{ name: 'TOPO_ARBRE', color: 3, lineType: 'Continuous' }],
+      rules: [{ featureClass: 'tree', geometry: ['Point'], layer: 'TOPO_ARBRE' }],
+    };
+    bridge.setStandard(JSON.stringify(profile));
+
+    expect(bridge.getStandard()).toMatchObject({ classProperty: 'featureType', defaultScale: 1000 });
+    const [tree, parcel] = bridge.convertToDWG([
+      { type: 'Feature', geometry: { type: 'Point', coordinates: [1, 2] }, properties: { featureType: 'tree' } },
+      { type: 'Feature', geometry: { type: 'Point', coordinates: [3, 4] }, properties: { layer: 'DIVERS' } },
+    ]);
+    expect(tree).toMatchObject({ type: 'POINT', layer: 'TOPO_ARBRE', color: 256 });
+    expect(parcel).toMatchObject({ type: 'POINT', layer: 'DIVERS', color: 7 });
+
+    expect(() => CadStandard.parse({
+      name: 'Incomplet',
+      layers: [{ name: 'A', color: 1, lineType: 'POINTILLE' }],
+      rules: [{ featureClass: 'marker', layer: 'B', block: 'BORNE', label: { property: 'code', layer: 'A', style: 'NUM' } }],
+    })).toThrow(
+      'Invalid CAD standard profile: layer A uses undefined line type POINTILLE; rule 0 (marker) uses undefined layer B; ' +
+      'rule 0 (marker) uses undefined block BORNE; rule 0 (marker) uses undefined text style NUM'
+    );
+    // Norme inchangée après un profil refusé
+    expect(() => bridge.setStandard('{"name": ""}')).toThrow('missing profile name');
+    expect(bridge.getStandard().name).toBe('Plan topographique');
+  });
+});
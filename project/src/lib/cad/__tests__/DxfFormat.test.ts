@@ -0,0 +1,214 @@
+import { describe, it, expect } from 'vitest';
+import { DxfReader, DxfWriter, type DxfDrawing } from '../DxfFormat';
+import { CADBridge, type DWGEntity } from '../CADBridge';
+
+// Dessin de géomètre couvrant tous les types d'entités
+function surveyDrawing(): Omit<DxfDrawing, 'version'> {
+  return {
+    layers: [
+      { name: 'LIMITES', color: 1, lineType: 'DASHED', lineWeight: 0.35 },
+      { name: 'BORNES', color: 3, lineType: 'Continuous', trueColor: 0x2e8b57, locked: true },
+      { name: 'ARCHIVE', color: 8, lineType: 'Continuous', off: true, frozen: true },
+    ],
+    lineTypes: [{ name: 'DASHED', description: 'Tirets __ __ __', pattern: [0.5, -0.25] }],
+    textStyles: [{ name: 'PLAN', font: 'arial.ttf', width: 0.9, oblique: 0, height: 1.8 }],
+    blocks: [{
+      name: 'BORNE',
+      basePoint: [0, 0, 0],
+      entities: [
+        { id: 'b1', type: 'CIRCLE', layer: '0', center: [0, 0, 0], radius: 0.25 },
+        { id: 'b2', type: 'LINE', layer: '0', start: [-0.25, 0, 0], end: [0.25, 0, 0] },
+      ],
+    }],
+    entities: [
+      { id: 'e1', type: 'POINT', layer: 'BORNES', position: [652000.125, 6862000.5, 42.3] },
+      {
+        id: 'e2',
+        type: 'LINE',
+        layer: 'LIMITES',
+        color: 256,
+        start: [652000, 6862000, 0],
+        end: [652010, 6862000, 0],
+        extendedData: { reference: 'AB-12', area: 1234.56, markers: 4, certified: true, owners: ['Martin', 'Durand'] },
+      },
+      {
+        id: 'e3',
+        type: 'LWPOLYLINE',
+        layer: 'LIMITES',
+        lineType: 'DASHED',
+        lineWeight: 0.5,
+        vertices: [[0, 0], [10, 0], [10, 10], [0, 10]],
+        bulges: [0, 0, 1, 0],
+        closed: true,
+        elevation: 12.5,
+      },
+      { id: 'e4', type: 'CIRCLE', layer: '0', trueColor: 0xff8800, center: [5, 5, 0], radius: 2.5 },
+      { id: 'e5', type: 'ARC', layer: '0', center: [0, 0, 0], radius: 10, startAngle: 30, endAngle: 120 },
+      {
+        id: 'e6',
+        type: 'TEXT',
+        layer: 'BORNES',
+        position: [1, 2, 0],
+        text: 'Borne B1 (retrouvée)',
+        height: 1.8,
+        rotation: 45,
+        style: 'PLAN',
+        horizontalAlignment: 1,
+        verticalAlignment: 2,
+        alignmentPoint: [1.5, 2.5, 0],
+      },
+      {
+        id: 'e7',
+        type: 'MTEXT',
+        layer: '0',
+        position: [3, 4, 0],
+        text: `Procès-verbal\\Pde délimitation ${'x'.repeat(600)}`,
+        height: 2.5,
+        width: 40,
+        attachmentPoint: 7,
+        rotation: 90,
+      },
+      {
+        id: 'e8',
+        type: 'INSERT',
+        layer: 'BORNES',
+        blockName: 'BORNE',
+        position: [652000, 6862000, 0],
+        scale: [2, 2, 1],
+        rotation: 30,
+        attributes: { NUMERO: 'B1', NATURE: 'borne OGE' },
+        xdata: { SURVEY: [[1000, 'station 12'], [1040, 0.012], [1070, 3]] },
+      },
+      {
+        id: 'e9',
+        type: 'HATCH',
+        layer: 'LIMITES',
+        boundary: [[[0, 0], [20, 0], [20, 20], [0, 20]], [[5, 5], [5, 10], [10, 10], [10, 5]]],
+        solid: true,
+      },
+      {
+        id: 'e10',
+        type: 'HATCH',
+        layer: 'LIMITES',
+        boundary: [[[30, 0], [40, 0], [40, 10]]],
+        solid: false,
+        pattern: { name: 'ANSI31', scale: 2, angle: 45 },
+      },
+    ] as DWGEntity[],
+  };
+}
+
+// Comparaison sans les identifiants, réattribués à l'écriture
+function strip(entities: DWGEntity[]) {
+  return entities.map(entity => {
+    const copy: Partial<DWGEntity> = { ...entity };
+    delete copy.id;
+    delete copy.handle;
+    return copy;
+  });
+}
+
+describe('DxfFormat', () => {
+  it('should round-trip every entity type through DXF 2013', () => {
+    const drawing = surveyDrawing();
+    const text = DxfWriter.write(drawing, '2013');
+    const read = DxfReader.read(text);
+
+    expect(read.version).toBe('AC1027');
+    expect(read.units).toBe(6);
+    expect(read.skipped).toEqual({});
+    expect(strip(read.entities)).toEqual(strip(drawing.entities));
+    expect(read.entities.every(entity => /^[0-9A-F]+$/.test(entity.handle!))).toBe(true);
+
+    expect(read.blocks).toHaveLength(1);
+    expect(read.blocks[0]).toMatchObject({ name: 'BORNE', basePoint: [0, 0, 0] });
+    expect(strip(read.blocks[0].entities)).toEqual(strip(drawing.blocks[0].entities));
+
+    expect(read.layers.find(layer => layer.name === 'LIMITES')).toEqual(drawing.layers[0]);
+    expect(read.layers.find(layer => layer.name === 'BORNES')).toEqual(drawing.layers[1]);
+    expect(read.layers.find(layer => layer.name === 'ARCHIVE')).toEqual(drawing.layers[2]);
+    expect(read.lineTypes.find(lineType => lineType.name === 'DASHED')).toEqual(drawing.lineTypes[0]);
+    expect(read.textStyles.find(style => style.name === 'PLAN')).toEqual(drawing.textStyles[0]);
+
+    // Applications des XDATA déclarées, identifiant suivant supérieur à tous les autres
+    expect(text).toMatch(/APPID\r\n {2}5\r\n[0-9A-F]+\r\n330\r\n[0-9A-F]+\r\n100\r\nAcDbSymbolTableRecord\r\n100\r\nAcDbRegAppTableRecord\r\n {2}2\r\nCADBRIDGE/);
+    const seed = parseInt(text.match(/\$HANDSEED\r\n {2}5\r\n([0-9A-F]+)/)![1], 16);
+    const handles = Array.from(text.replace(/\$HANDSEED\r\n {2}5/, '').matchAll(/\r\n {2}5\r\n([0-9A-F]+)\r\n/g), match => parseInt(match[1], 16));
+    expect(Math.max(...handles)).toBeLessThan(seed);
+    expect(new Set(handles).size).toBe(handles.length);
+  });
+
+  it('should downgrade recent entities when writing R12', () => {
+    const text = DxfWriter.write(surveyDrawing(), 'R12');
+    const read = DxfReader.read(Buffer.from(text, 'latin1'));
+
+    expect(read.version).toBe('AC1009');
+    expect(text).not.toContain('AcDbEntity');
+    expect(text).not.toContain('LWPOLYLINE');
+    // Caractères accentués échappés en page de code ANSI
+    expect(text).toContain('Proc\\U+00E8s-verbal');
+
+    const polyline = read.entities.find(entity => entity.type === 'LWPOLYLINE' && entity.layer === 'LIMITES' && entity.elevation);
+    expect(polyline).toMatchObject({ vertices: [[0, 0], [10, 0], [10, 10], [0, 10]], bulges: [0, 0, 1, 0], closed: true, elevation: 12.5 });
+
+    // MTEXT en lignes de TEXT, hachures réduites à leurs contours
+    const texts = read.entities.filter(entity => entity.type === 'TEXT' && entity.layer === '0');
+    expect(texts.map(entity => (entity as { text: string }).text.slice(0, 16))).toEqual(['Procès-verbal', 'de délimitation ']);
+    expect(read.entities.filter(entity => entity.type === 'HATCH')).toHaveLength(0);
+    expect(read.entities.filter(entity => entity.type === 'LWPOLYLINE')).toHaveLength(1 + 3);
+    expect(read.entities.find(entity => entity.type === 'INSERT')).toMatchObject({
+      attributes: { NUMERO: 'B1', NATURE: 'borne OGE' },
+      xdata: { SURVEY: [[1000, 'station 12'], [1040, 0.012], [1070, 3]] },
+    });
+  });
+
+  it('should read hatch edge boundaries and skip unsupported entities', () => {
+    const groups = [
+      [0, 'SECTION'], [2, 'ENTITIES'],
+      [0, 'HATCH'], [5, '2A'], [8, 'LIMITES'], [10, 0], [20, 0], [30, 0], [2, 'SOLID'], [70, 1], [91, 1],
+      [92, 1], [93, 2],
+      [72, 1], [10, 0], [20, 0], [11, 10], [21, 0],
+      [72, 2], [10, 5], [20, 0], [40, 5], [50, 0], [51, 180], [73, 1],
+      [97, 0], [75, 1], [76, 1], [98, 0],
+      [0, 'DIMENSION'], [8, '0'],
+      [0, 'ENDSEC'], [0, 'EOF'],
+    ];
+    const read = DxfReader.read(groups.map(([code, value]) => `${String(code).padStart(3)}\n${value}`).join('\n'));
+
+    expect(read.skipped).toEqual({ DIMENSION: 1 });
+    const [hatch] = read.entities;
+    expect(hatch).toMatchObject({ type: 'HATCH', handle: '2A', layer: 'LIMITES', solid: true });
+    const ring = (hatch as { boundary: number[][][] }).boundary[0];
+    // Segment puis demi-cercle de 10 à 0 par le haut
+    expect(ring[0]).toEqual([0, 0]);
+    expect(ring[1][0]).toBeCloseTo(10, 9);
+    expect(Math.max(...ring.map(([, y]) => y))).toBeCloseTo(5, 9);
+  });
+
+  it('should import DXF drawings as GeoJSON through CADBridge', async () => {
+    const bridge = CADBridge.getInstance();
+    const file = Buffer.from(DxfWriter.write(surveyDrawing(), '2018'));
+    const { features } = await bridge.importDWG(file, { extractText: false });
+
+    expect(features.some(feature => feature.properties?.text !== undefined)).toBe(false);
+    const line = features.find(feature => feature.properties?.reference === 'AB-12')!;
+    expect(line.geometry).toEqual({ type: 'LineString', coordinates: [[652000, 6862000], [652010, 6862000]] });
+    expect(line.properties).toMatchObject({ layer: 'LIMITES', color: 256, certified: true, owners: ['Martin', 'Durand'] });
+
+    // Segment courbe densifié : demi-cercle entre (10, 10) et (0, 10)
+    const parcel = features.find(feature => feature.properties?.lineType === 'DASHED')!;
+    const ring = (parcel.geometry as GeoJSON.Polygon).coordinates[0];
+    expect(ring.length).toBeGreaterThan(30);
+    expect(Math.max(...ring.map(([, y]) => y))).toBeCloseTo(15, 6);
+
+    const hatch = features.find(feature => feature.properties?.hatch === 'SOLID')!;
+    expect((hatch.geometry as GeoJSON.Polygon).coordinates).toHaveLength(2);
+
+    // Les calques lus sont repris à l'export suivant
+    const exported = bridge.readDXF(await bridge.exportDXF([], { version: '2013' }));
+    expect(exported.layers.find(layer => layer.name === 'ARCHIVE')).toMatchObject({ off: true, frozen: true });
+    expect(exported.blocks.map(block => block.name)).toContain('BORNE');
+
+    await expect(bridge.importDWG(Buffer.from('AC1032\0\0binary'))).rejects.toThrow('save the drawing as DXF');
+  });
+});
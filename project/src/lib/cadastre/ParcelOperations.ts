@@ -0,0 +1,447 @@
+import { versionTracker, type CartoChange, type CartoVersion } from '../api/VersionTracker';
+import { ParcelTopology, type BoundaryMarker, type Parcel, type ParcelOwner } from './ParcelTopology';
+
+type Pt = { x: number; y: number };
+
+type OperationContext = {
+  missionId: string;
+  userId: string;
+  comment?: string;
+};
+
+type SplitOptions = {
+  references?: string[]; // Child references, `<parent>-1`, `<parent>-2`… by default
+};
+
+type MergeOptions = {
+  reference?: string;    // Defaults to the reference of the first parcel
+  owners?: ParcelOwner[]; // Required when the parcels have different owners
+};
+
+type ParcelLineage = {
+  operation: 'split' | 'merge';
+  parents: string[];
+  children: string[];
+};
+
+type ParcelOperationResult = {
+  operation: ParcelLineage['operation'];
+  parents: Parcel[];
+  children: Parcel[];
+  version: CartoVersion;
+};
+
+const EPSILON = 1e-6;
+
+/**
+ * Subdivision and merge of parcels in a topology. Cut points become new
+ * boundary markers shared with the neighbours, and each operation is
+ * recorded in the mission history with its parent and child parcels.
+ * An operation that fails leaves the topology unchanged.
+ */
+class ParcelOperations {
+  /**
+   * Splits a parcel in two along the line through `from` and `to`
+   */
+  static splitByLine(
+    topology: ParcelTopology,
+    parcelId: string,
+    line: [Pt | string, Pt | string],
+    context: OperationContext,
+    options: SplitOptions = {}
+  ): ParcelOperationResult {
+    const parent = ParcelOperations.requireSplittable(topology, parcelId);
+    const references = ParcelOperations.childReferences(topology, parent, 2, options);
+    const [a, b] = line.map(end => (typeof end === 'string' ? ParcelOperations.marker(topology, end) : end));
+    const direction = { x: b.x - a.x, y: b.y - a.y };
+    if (Math.hypot(direction.x, direction.y) < EPSILON) throw new Error('Cut line needs two distinct points');
+
+    // Left of the line first
+    const side = (p: Pt) => -(direction.x * (p.y - a.y) - direction.y * (p.x - a.x));
+    return topology.transaction(() => {
+      const pieces = ParcelOperations.cut(topology, parent.markers, side);
+      return ParcelOperations.replaceParcel(topology, parent, pieces, references, context);
+    });
+  }
+
+  /**
+   * Cuts a lot of the given area along a side of the parcel, the cut line
+   * running parallel to that side
+   */
+  static splitByArea(
+    topology: ParcelTopology,
+    parcelId: string,
+    area: number,
+    side: [string, string],
+    context: OperationContext,
+    options: SplitOptions = {}
+  ): ParcelOperationResult {
+    const parent = ParcelOperations.requireSplittable(topology, parcelId);
+    if (area <= 0 || area >= parent.area) {
+      throw new Error(`Lot area must be between 0 and ${parent.area.toFixed(2)} m²`);
+    }
+    const references = ParcelOperations.childReferences(topology, parent, 2, options);
+
+    const offset = ParcelOperations.offsetForArea(topology, parent, side);
+    const distance = offset.distanceFor(area);
+    return topology.transaction(() => {
+      const pieces = ParcelOperations.cut(topology, parent.markers, p => offset.distanceOf(p) - distance);
+      return ParcelOperations.replaceParcel(topology, parent, pieces, references, context);
+    });
+  }
+
+  /**
+   * Divides a parcel into `count` lots of equal area by cuts parallel to a side
+   */
+  static splitEqual(
+    topology: ParcelTopology,
+    parcelId: string,
+    count: number,
+    side: [string, string],
+    context: OperationContext,
+    options: SplitOptions = {}
+  ): ParcelOperationResult {
+    const parent = ParcelOperations.requireSplittable(topology, parcelId);
+    if (!Number.isInteger(count) || count < 2) throw new Error('A parcel is divided into two lots at least');
+    const references = ParcelOperations.childReferences(topology, parent, count, options);
+
+    // Offsets are computed on the parent, then cut one strip after the other
+    const offset = ParcelOperations.offsetForArea(topology, parent, side);
+    return topology.transaction(() => {
+      const pieces: string[][] = [];
+      let remainder = parent.markers;
+      for (let k = 1; k < count; k++) {
+        const distance = offset.distanceFor((parent.area * k) / count);
+        const [lot, rest] = ParcelOperations.cut(topology, remainder, p => offset.distanceOf(p) - distance);
+        pieces.push(lot);
+        remainder = rest;
+      }
+      pieces.push(remainder);
+
+      return ParcelOperations.replaceParcel(topology, parent, pieces, references, context);
+    });
+  }
+
+  /**
+   * Merges parcels sharing boundaries into a single parcel
+   */
+  static merge(
+    topology: ParcelTopology,
+    parcelIds: string[],
+    context: OperationContext,
+    options: MergeOptions = {}
+  ): ParcelOperationResult {
+    if (new Set(parcelIds).size < 2) throw new Error('At least two parcels are needed for a merge');
+    const parents = parcelIds.map(id => {
+      const parcel = topology.getParcel(id);
+      if (!parcel) throw new Error(`Parcel ${id} not found`);
+      return parcel;
+    });
+
+    const reference = options.reference ?? parents[0].reference;
+    if (topology.findParcel(reference) && !parents.some(parcel => parcel.reference === reference)) {
+      throw new Error(`Parcel reference ${reference} is already used`);
+    }
+    const ownerKey = (parcel: Parcel) => parcel.owners.map(owner => `${owner.name}:${owner.share ?? ''}`).sort().join('|');
+    if (options.owners) {
+      ParcelTopology.checkOwners(reference, options.owners);
+    } else if (parents.some(parcel => ownerKey(parcel) !== ownerKey(parents[0]))) {
+      throw new Error('Parcels have different owners, give the owners of the merged parcel');
+    }
+
+    // Directed edges of every ring; shared boundaries run both ways and cancel out
+    const directed = new Set<string>();
+    parents.forEach(parcel => {
+      [parcel.markers, ...parcel.holes].forEach(ring => {
+        ring.forEach((from, i) => directed.add(`${from}>${ring[(i + 1) % ring.length]}`));
+      });
+    });
+    const edges = new Map<string, string>();
+    directed.forEach(key => {
+      const [from, to] = key.split('>');
+      if (directed.has(`${to}>${from}`)) return;
+      if (edges.has(from)) throw new Error(`Merged boundary is not simple at marker ${from}`);
+      edges.set(from, to);
+    });
+
+    const rings: string[][] = [];
+    const remaining = new Map(edges);
+    while (remaining.size > 0) {
+      const [start] = remaining.keys();
+      const ring: string[] = [];
+      let current: string | undefined = start;
+      while (current !== undefined && remaining.has(current)) {
+        ring.push(current);
+        const next: string = remaining.get(current)!;
+        remaining.delete(current);
+        current = next;
+      }
+      if (current !== start) throw new Error('Merged boundary does not close');
+      rings.push(ring);
+    }
+
+    const signed = rings.map(ring => ({ ring, area: ParcelOperations.signedArea(ring.map(id => ParcelOperations.marker(topology, id))) }));
+    const outer = signed.filter(({ area }) => area > 0);
+    if (outer.length !== 1) {
+      throw new Error(`Parcels ${parents.map(parcel => parcel.reference).join(', ')} are not adjacent`);
+    }
+
+    const snapshots = parents.map(parcel => ({ parcel: ParcelOperations.snapshot(parcel), feature: topology.toFeature(parcel.id) }));
+    const titles = parents.flatMap(parcel => parcel.titles)
+      .filter((title, i, all) => all.findIndex(other => other.number === title.number) === i);
+    const declared = parents.every(parcel => parcel.declaredArea !== undefined)
+      ? parents.reduce((sum, parcel) => sum + parcel.declaredArea!, 0)
+      : undefined;
+
+    return topology.transaction(() => {
+      parents.forEach(parcel => topology.deleteParcel(parcel.id));
+      const child = topology.createParcel({
+        reference,
+        ring: outer[0].ring,
+        holes: signed.filter(({ area }) => area < 0).map(({ ring }) => ring),
+        owners: options.owners ?? parents[0].owners,
+        titles,
+        ...(declared !== undefined && { declaredArea: declared }),
+        properties: { ...parents[0].properties, parentParcelIds: parents.map(parcel => parcel.id) },
+      });
+
+      return ParcelOperations.record(topology, 'merge', snapshots, [child], context);
+    });
+  }
+
+  /**
+   * Parents and children of a parcel from the mission history
+   */
+  static getLineage(missionId: string, parcelId: string): { parents: string[]; children: string[] } {
+    const parents = new Set<string>();
+    const children = new Set<string>();
+    versionTracker.getHistory(missionId).forEach(version => {
+      version.changes.forEach(change => {
+        const lineage = (change.after ?? change.before)?.properties?.lineage as ParcelLineage | undefined;
+        if (!lineage || change.objectId !== parcelId) return;
+        if (change.action === 'add') lineage.parents.forEach(id => parents.add(id));
+        if (change.action === 'delete') lineage.children.forEach(id => children.add(id));
+      });
+    });
+    return { parents: Array.from(parents), children: Array.from(children) };
+  }
+
+  private static requireSplittable(topology: ParcelTopology, parcelId: string): Parcel {
+    const parcel = topology.getParcel(parcelId);
+    if (!parcel) throw new Error(`Parcel ${parcelId} not found`);
+    if (parcel.holes.length > 0) throw new Error(`Parcel ${parcel.reference} has enclaves, split it by hand`);
+    return parcel;
+  }
+
+  /**
+   * References of the lots, checked before the topology changes
+   */
+  private static childReferences(topology: ParcelTopology, parent: Parcel, count: number, options: SplitOptions): string[] {
+    const references = Array.from({ length: count }, (_, k) => options.references?.[k] ?? `${parent.reference}-${k + 1}`);
+    if (new Set(references).size < count) throw new Error(`Lot references must be unique: ${references.join(', ')}`);
+    references.forEach(reference => {
+      const existing = topology.findParcel(reference);
+      if (existing && existing.id !== parent.id) throw new Error(`Parcel reference ${reference} is already used`);
+    });
+    return references;
+  }
+
+  /**
+   * Distance from a side of the parcel towards its interior, and the
+   * distance at which the strip along that side reaches a given area
+   */
+  private static offsetForArea(topology: ParcelTopology, parcel: Parcel, side: [string, string]) {
+    const ring = parcel.markers;
+    const i = ring.indexOf(side[0]);
+    const j = ring.indexOf(side[1]);
+    const n = ring.length;
+    if (i === -1 || j === -1 || (j !== (i + 1) % n && i !== (j + 1) % n)) {
+      throw new Error(`Markers ${side[0]} and ${side[1]} do not form a side of parcel ${parcel.reference}`);
+    }
+
+    // Counter-clockwise ring: the interior is on the left of the side
+    const [from, to] = j === (i + 1) % n ? side : [side[1], side[0]];
+    const a = ParcelOperations.marker(topology, from);
+    const b = ParcelOperations.marker(topology, to);
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    const normal = { x: -(b.y - a.y) / length, y: (b.x - a.x) / length };
+    const distanceOf = (p: Pt) => (p.x - a.x) * normal.x + (p.y - a.y) * normal.y;
+    const points = ring.map(id => ParcelOperations.marker(topology, id));
+    const depth = Math.max(...points.map(distanceOf));
+
+    const distanceFor = (area: number) => {
+      let low = 0;
+      let high = depth;
+      for (let k = 0; k < 100 && high - low > 1e-9; k++) {
+        const middle = (low + high) / 2;
+        if (ParcelOperations.clippedArea(points, distanceOf, middle) < area) low = middle;
+        else high = middle;
+      }
+      return (low + high) / 2;
+    };
+
+    return { distanceOf, distanceFor };
+  }
+
+  /**
+   * Area of the part of a ring where distanceOf(p) ≤ limit (Sutherland-Hodgman)
+   */
+  private static clippedArea(ring: Pt[], distanceOf: (p: Pt) => number, limit: number): number {
+    const clipped: Pt[] = [];
+    ring.forEach((p, i) => {
+      const q = ring[(i + 1) % ring.length];
+      const dp = distanceOf(p) - limit;
+      const dq = distanceOf(q) - limit;
+      if (dp <= 0) clipped.push(p);
+      if ((dp < 0 && dq > 0) || (dp > 0 && dq < 0)) {
+        const t = dp / (dp - dq);
+        clipped.push({ x: p.x + (q.x - p.x) * t, y: p.y + (q.y - p.y) * t });
+      }
+    });
+    return clipped.length < 3 ? 0 : ParcelOperations.signedArea(clipped);
+  }
+
+  /**
+   * Cuts a ring where `side` changes sign. Crossing points become markers
+   * (shared with the neighbours). Returns the negative piece first.
+   */
+  private static cut(topology: ParcelTopology, ring: string[], side: (p: Pt) => number): [string[], string[]] {
+    const values = ring.map(id => side(ParcelOperations.marker(topology, id)));
+    const sign = (value: number) => (Math.abs(value) <= EPSILON ? 0 : Math.sign(value));
+
+    // Vertices on the line count when their neighbours are on opposite sides
+    const n = ring.length;
+    const crossings: Array<{ index: number; id?: string; point?: Pt }> = [];
+    ring.forEach((id, i) => {
+      const s = sign(values[i]);
+      if (s === 0) {
+        let before = (i - 1 + n) % n;
+        while (sign(values[before]) === 0 && before !== i) before = (before - 1 + n) % n;
+        let after = (i + 1) % n;
+        while (sign(values[after]) === 0 && after !== i) after = (after + 1) % n;
+        if (sign(values[before]) * sign(values[after]) < 0) crossings.push({ index: i, id });
+        return;
+      }
+      const next = (i + 1) % n;
+      if (s * sign(values[next]) < 0) {
+        const p = ParcelOperations.marker(topology, id);
+        const q = ParcelOperations.marker(topology, ring[next]);
+        const t = values[i] / (values[i] - values[next]);
+        crossings.push({ index: i, point: { x: p.x + (q.x - p.x) * t, y: p.y + (q.y - p.y) * t } });
+      }
+    });
+
+    if (crossings.length < 2) throw new Error('Cut line does not cross the parcel');
+    if (crossings.length > 2) throw new Error('Cut line crosses the parcel boundary more than twice');
+
+    // New markers are inserted after their edge, last edge first to keep the indexes
+    const cutRing = [...ring];
+    const cutIds = crossings
+      .slice()
+      .reverse()
+      .map(crossing => {
+        if (crossing.id) return crossing.id;
+        const marker = topology.addMarker({ ...crossing.point!, kind: 'borne', status: 'set' });
+        if (!cutRing.includes(marker.id)) cutRing.splice(crossing.index + 1, 0, marker.id);
+        return marker.id;
+      });
+
+    const start = cutRing.indexOf(cutIds[1]);
+    const end = cutRing.indexOf(cutIds[0]);
+    const [i1, i2] = start < end ? [start, end] : [end, start];
+    const first = cutRing.slice(i1, i2 + 1);
+    const second = [...cutRing.slice(i2), ...cutRing.slice(0, i1 + 1)];
+    if (first.length < 3 || second.length < 3) throw new Error('Cut line only touches the parcel');
+
+    const probe = first.slice(1, -1).map(id => side(ParcelOperations.marker(topology, id))).find(value => Math.abs(value) > EPSILON) ?? 0;
+    return probe < 0 ? [first, second] : [second, first];
+  }
+
+  private static replaceParcel(
+    topology: ParcelTopology,
+    parent: Parcel,
+    pieces: string[][],
+    references: string[],
+    context: OperationContext
+  ): ParcelOperationResult {
+    const snapshot = { parcel: ParcelOperations.snapshot(parent), feature: topology.toFeature(parent.id) };
+    topology.deleteParcel(parent.id);
+
+    const children = pieces.map((ring, k) => topology.createParcel({
+      reference: references[k],
+      ring,
+      owners: parent.owners.map(owner => ({ ...owner })),
+      titles: parent.titles.map(title => ({ ...title })),
+      properties: { ...parent.properties, parentParcelIds: [parent.id] },
+    }));
+
+    return ParcelOperations.record(topology, 'split', [snapshot], children, context);
+  }
+
+  /**
+   * Records the operation as one version: parents deleted, children added
+   */
+  private static record(
+    topology: ParcelTopology,
+    operation: ParcelLineage['operation'],
+    parents: Array<{ parcel: Parcel; feature: GeoJSON.Feature }>,
+    children: Parcel[],
+    context: OperationContext
+  ): ParcelOperationResult {
+    const lineage: ParcelLineage = {
+      operation,
+      parents: parents.map(({ parcel }) => parcel.id),
+      children: children.map(child => child.id),
+    };
+    const withLineage = (feature: GeoJSON.Feature) => ({
+      ...feature,
+      properties: { ...feature.properties, lineage },
+    });
+
+    const changes: CartoChange[] = [
+      ...parents.map(({ parcel, feature }) => ({
+        action: 'delete' as const,
+        objectId: parcel.id,
+        before: withLineage(feature),
+      })),
+      ...children.map(child => ({
+        action: 'add' as const,
+        objectId: child.id,
+        after: withLineage(topology.toFeature(child.id)),
+      })),
+    ];
+
+    const describe = (parcels: Parcel[]) => parcels.map(parcel => parcel.reference).join(', ');
+    const version = versionTracker.recordChange(
+      context.missionId,
+      context.userId,
+      changes,
+      context.comment ?? (operation === 'split'
+        ? `Split ${describe(parents.map(({ parcel }) => parcel))} into ${describe(children)}`
+        : `Merge ${describe(parents.map(({ parcel }) => parcel))} into ${describe(children)}`)
+    );
+
+    return { operation, parents: parents.map(({ parcel }) => parcel), children, version };
+  }
+
+  private static snapshot(parcel: Parcel): Parcel {
+    return JSON.parse(JSON.stringify(parcel));
+  }
+
+  private static marker(topology: ParcelTopology, id: string): BoundaryMarker {
+    const marker = topology.getMarker(id);
+    if (!marker) throw new Error(`Marker ${id} not found`);
+    return marker;
+  }
+
+  private static signedArea(ring: Pt[]): number {
+    const { x: x0, y: y0 } = ring[0];
+    return ring.reduce((sum, p, i) => {
+      const q = ring[(i + 1) % ring.length];
+      return sum + ((p.x - x0) * (q.y - y0) - (q.x - x0) * (p.y - y0));
+    }, 0) / 2;
+  }
+}
+
+export { ParcelOperations };
+export type { OperationContext, SplitOptions, MergeOptions, ParcelLineage, ParcelOperationResult };
@@ -0,0 +1,650 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CoordinateSystemManager } from '../sensors/CoordinateSystemManager';
+
+/**
+ * Boundary marker (borne) in the projected CRS of the topology
+ */
+type BoundaryMarker = {
+  id: string;
+  x: number;
+  y: number;
+  z?: number;
+  code?: string;  // Survey number or name painted on the marker
+  kind?: 'borne' | 'repere' | 'virtual'; // Virtual: boundary vertex without a physical marker
+  status?: 'found' | 'set' | 'missing' | 'disputed';
+  description?: string;
+};
+
+type ParcelOwner = {
+  name: string;
+  share?: number;  // Undivided share, between 0 and 1
+  role?: 'owner' | 'usufructuary' | 'bare-owner' | 'tenant';
+  reference?: string;
+};
+
+type TitleReference = {
+  number: string;     // Land title number (e.g. TF 1234/W)
+  office?: string;    // Land registry office
+  date?: string;      // ISO date of registration
+  volume?: string;
+  folio?: string;
+};
+
+type Parcel = {
+  id: string;
+  reference: string;     // Cadastral reference, unique in the topology
+  markers: string[];     // Outer ring, counter-clockwise, not closed
+  holes: string[][];     // Inner rings, clockwise
+  owners: ParcelOwner[];
+  titles: TitleReference[];
+  area: number;          // Official area (m²) in the topology projection
+  declaredArea?: number; // Area stated in the title deed
+  properties: Record<string, unknown>;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/**
+ * Boundary segment between two consecutive markers. Adjacent parcels share
+ * the same segment: `parcels` lists every parcel using it (two at most in a
+ * valid topology, one on the outer limit).
+ */
+type BoundarySegment = {
+  id: string;
+  from: string;
+  to: string;
+  length: number;
+  parcels: string[];
+  nature?: string; // Wall, fence, hedge, ditch…
+  properties?: Record<string, unknown>;
+};
+
+type MarkerInput = string | (Omit<BoundaryMarker, 'id'> & { id?: string });
+
+type ParcelInput = {
+  id?: string;
+  reference: string;
+  ring: MarkerInput[];
+  holes?: MarkerInput[][];
+  owners?: ParcelOwner[];
+  titles?: TitleReference[];
+  declaredArea?: number;
+  properties?: Record<string, unknown>;
+};
+
+type ParcelUpdate = Partial<Omit<ParcelInput, 'id'>>;
+
+type TopologyOptions = {
+  tolerance?: number; // Snapping distance (m) for markers and boundary junctions
+};
+
+/**
+ * Planar parcel topology: parcels are rings of shared boundary markers.
+ *
+ * Markers given as coordinates snap to existing markers within the
+ * tolerance, and markers lying on a boundary are inserted into every ring
+ * running along it, so adjacent parcels always share their segments exactly.
+ * Areas are planimetric areas in the projected CRS of the topology.
+ */
+class ParcelTopology {
+  readonly epsg: string;
+  readonly tolerance: number;
+  private markers: Map<string, BoundaryMarker> = new Map();
+  private parcels: Map<string, Parcel> = new Map();
+  private segmentAttributes: Map<string, Pick<BoundarySegment, 'nature' | 'properties'>> = new Map();
+
+  constructor(epsg: string, options: TopologyOptions = {}) {
+    const info = CoordinateSystemManager.getProjectionInfo(epsg);
+    if (!info) throw new Error(`Projection ${epsg} is not defined.`);
+    if (!info.isProjected) throw new Error(`Parcel topology needs a projected CRS, ${epsg} is geographic`);
+
+    this.epsg = epsg;
+    this.tolerance = options.tolerance ?? 0.01;
+  }
+
+  // Markers
+
+  /**
+   * Adds a marker, or returns the existing one within the tolerance
+   */
+  addMarker(input: Omit<BoundaryMarker, 'id'> & { id?: string }): BoundaryMarker {
+    if (input.id && this.markers.has(input.id)) throw new Error(`Marker ${input.id} already exists`);
+
+    const existing = this.findMarker(input.x, input.y);
+    if (existing) return existing;
+
+    const marker: BoundaryMarker = { kind: 'borne', ...input, id: input.id ?? `bm_${uuidv4()}` };
+    this.markers.set(marker.id, marker);
+
+    // A marker set on a boundary splits it for every parcel along it
+    this.parcels.forEach(parcel => this.densify(parcel, [marker.id]));
+    return marker;
+  }
+
+  getMarker(id: string): BoundaryMarker | undefined {
+    return this.markers.get(id);
+  }
+
+  listMarkers(): BoundaryMarker[] {
+    return Array.from(this.markers.values());
+  }
+
+  /**
+   * Nearest marker within the tolerance
+   */
+  findMarker(x: number, y: number, tolerance = this.tolerance): BoundaryMarker | undefined {
+    let nearest: BoundaryMarker | undefined;
+    let best = tolerance;
+    this.markers.forEach(marker => {
+      const distance = Math.hypot(marker.x - x, marker.y - y);
+      if (distance <= best) {
+        nearest = marker;
+        best = distance;
+      }
+    });
+    return nearest;
+  }
+
+  /**
+   * Updates marker attributes or moves it; every parcel using it follows
+   */
+  updateMarker(id: string, update: Partial<Omit<BoundaryMarker, 'id'>>): BoundaryMarker {
+    const marker = this.requireMarker(id);
+    Object.assign(marker, update);
+
+    if (update.x !== undefined || update.y !== undefined) {
+      this.parcelsUsing(id).forEach(parcel => {
+        parcel.area = this.ringsArea(parcel);
+        parcel.updatedAt = Date.now();
+      });
+    }
+    return marker;
+  }
+
+  /**
+   * Removes a marker that no parcel uses
+   */
+  deleteMarker(id: string): boolean {
+    const users = this.parcelsUsing(id);
+    if (users.length > 0) {
+      throw new Error(`Marker ${id} is used by parcels ${users.map(parcel => parcel.reference).join(', ')}`);
+    }
+    return this.markers.delete(id);
+  }
+
+  // Parcels
+
+  createParcel(input: ParcelInput): Parcel {
+    const id = input.id ?? `parcel_${uuidv4()}`;
+    if (this.parcels.has(id)) throw new Error(`Parcel ${id} already exists`);
+    this.checkReference(input.reference);
+    ParcelTopology.checkOwners(input.reference, input.owners ?? []);
+
+    const now = Date.now();
+    const parcel: Parcel = {
+      id,
+      reference: input.reference,
+      markers: [],
+      holes: [],
+      owners: input.owners ?? [],
+      titles: input.titles ?? [],
+      area: 0,
+      ...(input.declaredArea !== undefined && { declaredArea: input.declaredArea }),
+      properties: input.properties ?? {},
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.setRings(parcel, input.ring, input.holes ?? []);
+    this.parcels.set(id, parcel);
+    return parcel;
+  }
+
+  getParcel(id: string): Parcel | undefined {
+    return this.parcels.get(id);
+  }
+
+  findParcel(reference: string): Parcel | undefined {
+    return Array.from(this.parcels.values()).find(parcel => parcel.reference === reference);
+  }
+
+  listParcels(): Parcel[] {
+    return Array.from(this.parcels.values());
+  }
+
+  updateParcel(id: string, update: ParcelUpdate): Parcel {
+    const parcel = this.requireParcel(id);
+    if (update.reference !== undefined && update.reference !== parcel.reference) {
+      this.checkReference(update.reference);
+      parcel.reference = update.reference;
+    }
+    if (update.owners) {
+      ParcelTopology.checkOwners(parcel.reference, update.owners);
+      parcel.owners = update.owners;
+    }
+    if (update.titles) parcel.titles = update.titles;
+    if (update.declaredArea !== undefined) parcel.declaredArea = update.declaredArea;
+    if (update.properties) parcel.properties = { ...parcel.properties, ...update.properties };
+    if (update.ring || update.holes) {
+      this.setRings(parcel, update.ring ?? parcel.markers, update.holes ?? parcel.holes);
+    }
+
+    parcel.updatedAt = Date.now();
+    return parcel;
+  }
+
+  /**
+   * Deletes a parcel; its markers stay, they are physical survey points
+   */
+  deleteParcel(id: string): boolean {
+    const parcel = this.parcels.get(id);
+    if (!parcel) return false;
+
+    this.parcels.delete(id);
+    ParcelTopology.rings(parcel).forEach(ring => {
+      ParcelTopology.ringSegments(ring).forEach(([from, to]) => {
+        const key = ParcelTopology.segmentKey(from, to);
+        if (this.parcelsOnSegment(key).length === 0) this.segmentAttributes.delete(key);
+      });
+    });
+    return true;
+  }
+
+  // Boundaries
+
+  /**
+   * Boundary segments of one parcel, or of the whole topology
+   */
+  getBoundaries(parcelId?: string): BoundarySegment[] {
+    const parcels = parcelId ? [this.requireParcel(parcelId)] : this.listParcels();
+    const segments = new Map<string, [string, string]>();
+    parcels.forEach(parcel => {
+      ParcelTopology.rings(parcel).forEach(ring => {
+        ParcelTopology.ringSegments(ring).forEach(([from, to]) => {
+          const key = ParcelTopology.segmentKey(from, to);
+          if (!segments.has(key)) segments.set(key, [from, to]);
+        });
+      });
+    });
+
+    return Array.from(segments, ([key, [from, to]]) => {
+      const a = this.requireMarker(from);
+      const b = this.requireMarker(to);
+      return {
+        id: key,
+        from,
+        to,
+        length: Math.hypot(b.x - a.x, b.y - a.y),
+        parcels: this.parcelsOnSegment(key).map(parcel => parcel.id),
+        ...this.segmentAttributes.get(key),
+      };
+    });
+  }
+
+  /**
+   * Describes the boundary between two markers (nature, properties)
+   */
+  setBoundaryAttributes(from: string, to: string, attributes: Pick<BoundarySegment, 'nature' | 'properties'>): void {
+    const key = ParcelTopology.segmentKey(from, to);
+    if (this.parcelsOnSegment(key).length === 0) throw new Error(`No boundary between markers ${from} and ${to}`);
+    this.segmentAttributes.set(key, { ...this.segmentAttributes.get(key), ...attributes });
+  }
+
+  /**
+   * Parcels sharing at least one boundary segment with the parcel
+   */
+  getNeighbours(parcelId: string): Parcel[] {
+    const neighbours = new Set<string>();
+    this.getBoundaries(parcelId).forEach(segment => {
+      segment.parcels.forEach(id => { if (id !== parcelId) neighbours.add(id); });
+    });
+    return Array.from(neighbours, id => this.parcels.get(id)!);
+  }
+
+  // Geometry
+
+  /**
+   * Area of a parcel (m²), in the topology projection or in another projected CRS
+   */
+  computeArea(parcelId: string, epsg = this.epsg): number {
+    const parcel = this.requireParcel(parcelId);
+    if (epsg === this.epsg) return parcel.area;
+
+    const info = CoordinateSystemManager.getProjectionInfo(epsg);
+    if (!info?.isProjected) throw new Error(`Areas need a projected CRS, ${epsg} is not one`);
+    const project = (id: string) => {
+      const marker = this.requireMarker(id);
+      return CoordinateSystemManager.convert(marker.x, marker.y, this.epsg, epsg);
+    };
+    return ParcelTopology.rings(parcel).reduce(
+      (sum, ring) => sum + ParcelTopology.signedArea(ring.map(project)),
+      0
+    );
+  }
+
+  /**
+   * Marker coordinates of each ring of a parcel, outer ring first
+   */
+  getRings(parcelId: string): BoundaryMarker[][] {
+    return ParcelTopology.rings(this.requireParcel(parcelId)).map(ring => ring.map(id => this.requireMarker(id)));
+  }
+
+  /**
+   * GeoJSON feature of one parcel, in WGS84
+   */
+  toFeature(parcelId: string): GeoJSON.Feature<GeoJSON.Polygon> {
+    const parcel = this.requireParcel(parcelId);
+    return {
+      type: 'Feature',
+      id: parcel.id,
+      geometry: {
+        type: 'Polygon',
+        coordinates: this.getRings(parcel.id).map(ring => [...ring, ring[0]].map(marker => this.position(marker))),
+      },
+      properties: {
+        ...parcel.properties,
+        featureType: 'parcel',
+        reference: parcel.reference,
+        area: parcel.area,
+        ...(parcel.declaredArea !== undefined && { declaredArea: parcel.declaredArea }),
+        owners: parcel.owners.map(owner => owner.name).join('; '),
+        titles: parcel.titles.map(title => title.number).join('; '),
+        markers: parcel.markers,
+      },
+    };
+  }
+
+  /**
+   * GeoJSON features in WGS84 for validators and exporters
+   */
+  toFeatures(): GeoJSON.Feature[] {
+    const position = (marker: BoundaryMarker) => this.position(marker);
+    const parcels: GeoJSON.Feature[] = this.listParcels().map(parcel => this.toFeature(parcel.id));
+
+    const markers: GeoJSON.Feature[] = this.listMarkers().map(marker => ({
+      type: 'Feature',
+      id: marker.id,
+      geometry: { type: 'Point', coordinates: position(marker) },
+      properties: {
+        featureType: 'marker',
+        code: marker.code,
+        kind: marker.kind,
+        status: marker.status,
+        x: marker.x,
+        y: marker.y,
+      },
+    }));
+
+    const boundaries: GeoJSON.Feature[] = this.getBoundaries().map(segment => ({
+      type: 'Feature',
+      id: segment.id,
+      geometry: {
+        type: 'LineString',
+        coordinates: [this.requireMarker(segment.from), this.requireMarker(segment.to)].map(position),
+      },
+      properties: {
+        ...segment.properties,
+        featureType: 'boundary',
+        length: segment.length,
+        nature: segment.nature,
+        parcels: segment.parcels,
+      },
+    }));
+
+    return [...parcels, ...markers, ...boundaries];
+  }
+
+  /**
+   * Builds parcels from WGS84 polygon features (e.g. mobile annotations).
+   * Vertices become virtual markers snapped to the existing ones.
+   */
+  importFeatures(features: GeoJSON.Feature[], referenceProperty = 'reference'): Parcel[] {
+    return features
+      .filter(feature => feature.geometry?.type === 'Polygon')
+      .map((feature, index) => {
+        const [outer, ...inner] = (feature.geometry as GeoJSON.Polygon).coordinates;
+        const toMarkers = (ring: GeoJSON.Position[]): MarkerInput[] =>
+          ring.map(([lon, lat]) => ({ ...CoordinateSystemManager.fromWGS84(lat, lon, this.epsg), kind: 'virtual' as const }));
+        // Attributes derived by toFeatures() are recomputed, not imported
+        const reference = String(feature.properties?.[referenceProperty] ?? feature.id ?? `import-${index + 1}`);
+        const properties = Object.fromEntries(
+          Object.entries(feature.properties ?? {})
+            .filter(([key]) => ![referenceProperty, 'featureType', 'area', 'markers'].includes(key))
+        );
+
+        return this.createParcel({
+          reference,
+          ring: toMarkers(outer),
+          holes: inner.map(toMarkers),
+          properties: { ...properties, ...(feature.id !== undefined && { sourceFeatureId: feature.id }) },
+        });
+      });
+  }
+
+  /**
+   * Runs several edits as one: if any of them throws, markers, parcels and
+   * boundary attributes are restored as they were before the first one
+   */
+  transaction<T>(edit: () => T): T {
+    const markers = Array.from(this.markers.values(), marker => ({ marker, state: { ...marker } }));
+    const parcels = Array.from(this.parcels.values(), parcel => ({
+      parcel,
+      state: { ...parcel, markers: [...parcel.markers], holes: parcel.holes.map(hole => [...hole]) },
+    }));
+    const segmentAttributes = new Map(this.segmentAttributes);
+
+    try {
+      return edit();
+    } catch (error) {
+      this.markers.clear();
+      markers.forEach(({ marker, state }) => this.markers.set(marker.id, Object.assign(marker, state)));
+      this.parcels.clear();
+      parcels.forEach(({ parcel, state }) => this.parcels.set(parcel.id, Object.assign(parcel, state)));
+      this.segmentAttributes.clear();
+      segmentAttributes.forEach((attributes, key) => this.segmentAttributes.set(key, attributes));
+      throw error;
+    }
+  }
+
+  /**
+   * Owner shares must be positive and add up to 1 at most
+   */
+  static checkOwners(reference: string, owners: ParcelOwner[]): void {
+    const total = owners.reduce((sum, owner) => sum + (owner.share ?? 0), 0);
+    if (owners.some(owner => owner.share !== undefined && (owner.share <= 0 || owner.share > 1)) || total > 1 + 1e-9) {
+      throw new Error(`Owner shares of parcel ${reference} must be positive and add up to 1 at most`);
+    }
+  }
+
+  private position(marker: BoundaryMarker): GeoJSON.Position {
+    const { lat, lon } = CoordinateSystemManager.toWGS84(marker.x, marker.y, this.epsg);
+    return [lon, lat];
+  }
+
+  private setRings(parcel: Parcel, ring: MarkerInput[], holes: MarkerInput[][]): void {
+    const outer = this.resolveRing(ring, parcel.reference);
+    const inner = holes.map(hole => this.resolveRing(hole, parcel.reference));
+    const created = [outer, ...inner].flat();
+
+    // Positive area for the outer ring, negative for holes
+    parcel.markers = this.orient(outer, true);
+    parcel.holes = inner.map(hole => this.orient(hole, false));
+    this.densify(parcel, Array.from(this.markers.keys()));
+
+    // Markers of this parcel may split the boundaries of its neighbours
+    this.parcels.forEach(other => { if (other.id !== parcel.id) this.densify(other, created); });
+    parcel.area = this.ringsArea(parcel);
+  }
+
+  private resolveRing(ring: MarkerInput[], reference: string): string[] {
+    const ids = ring.map(input => (typeof input === 'string' ? this.requireMarker(input).id : this.addMarker(input).id));
+    const cleaned = ids.filter((id, i) => id !== ids[(i + 1) % ids.length]);
+    if (cleaned.length < 3) throw new Error(`Parcel ${reference} needs at least three distinct markers`);
+    return cleaned;
+  }
+
+  private orient(ring: string[], counterClockwise: boolean): string[] {
+    const area = ParcelTopology.signedArea(ring.map(id => this.requireMarker(id)));
+    return (area > 0) === counterClockwise ? ring : [...ring].reverse();
+  }
+
+  /**
+   * Inserts the candidate markers lying on the parcel boundaries
+   */
+  private densify(parcel: Parcel, candidates: string[]): void {
+    let changed = false;
+    const densifyRing = (ring: string[]) => ring.flatMap((from, i) => {
+      const to = ring[(i + 1) % ring.length];
+      const a = this.requireMarker(from);
+      const b = this.requireMarker(to);
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const length2 = dx * dx + dy * dy;
+
+      const inserted = candidates
+        .filter(id => id !== from && id !== to && !ring.includes(id))
+        .map(id => {
+          const m = this.requireMarker(id);
+          const t = ((m.x - a.x) * dx + (m.y - a.y) * dy) / length2;
+          const offset = Math.abs((m.x - a.x) * dy - (m.y - a.y) * dx) / Math.sqrt(length2);
+          return { id, t, offset };
+        })
+        .filter(({ t, offset }) => t > 0 && t < 1 && offset <= this.tolerance)
+        .sort((p, q) => p.t - q.t)
+        .map(({ id }) => id);
+
+      if (inserted.length > 0) {
+        changed = true;
+        // The split segments keep the description of the boundary
+        const attributes = this.segmentAttributes.get(ParcelTopology.segmentKey(from, to));
+        if (attributes) {
+          [from, ...inserted].forEach((id, k) => {
+            this.segmentAttributes.set(ParcelTopology.segmentKey(id, [...inserted, to][k]), { ...attributes });
+          });
+        }
+      }
+      return [from, ...inserted];
+    });
+
+    parcel.markers = densifyRing(parcel.markers);
+    parcel.holes = parcel.holes.map(densifyRing);
+    if (changed) parcel.updatedAt = Date.now();
+  }
+
+  private ringsArea(parcel: Parcel): number {
+    return ParcelTopology.rings(parcel).reduce(
+      (sum, ring) => sum + ParcelTopology.signedArea(ring.map(id => this.requireMarker(id))),
+      0
+    );
+  }
+
+  private parcelsUsing(markerId: string): Parcel[] {
+    return this.listParcels().filter(parcel => ParcelTopology.rings(parcel).some(ring => ring.includes(markerId)));
+  }
+
+  private parcelsOnSegment(key: string): Parcel[] {
+    return this.listParcels().filter(parcel =>
+      ParcelTopology.rings(parcel).some(ring =>
+        ParcelTopology.ringSegments(ring).some(([from, to]) => ParcelTopology.segmentKey(from, to) === key)
+      )
+    );
+  }
+
+  private checkReference(reference: string): void {
+    if (this.findParcel(reference)) throw new Error(`Parcel reference ${reference} is already used`);
+  }
+
+  private requireMarker(id: string): BoundaryMarker {
+    const marker = this.markers.get(id);
+    if (!marker) throw new Error(`Marker ${id} not found`);
+    return marker;
+  }
+
+  private requireParcel(id: string): Parcel {
+    const parcel = this.parcels.get(id);
+    if (!parcel) throw new Error(`Parcel ${id} not found`);
+    return parcel;
+  }
+
+  private static rings(parcel: Parcel): string[][] {
+    return [parcel.markers, ...parcel.holes];
+  }
+
+  private static ringSegments(ring: string[]): Array<[string, string]> {
+    return ring.map((id, i) => [id, ring[(i + 1) % ring.length]]);
+  }
+
+  private static segmentKey(from: string, to: string): string {
+    return from < to ? `${from}|${to}` : `${to}|${from}`;
+  }
+
+  /**
+   * Shoelace area, positive for counter-clockwise rings
+   */
+  private static signedArea(ring: Array<{ x: number; y: number }>): number {
+    // Centred on the first vertex to keep precision with large projected coordinates
+    const { x: x0, y: y0 } = ring[0];
+    return ring.reduce((sum, p, i) => {
+      const q = ring[(i + 1) % ring.length];
+      return sum + ((p.x - x0) * (q.y - y0) - (q.x - x0) * (p.y - y0));
+    }, 0) / 2;
+  }
+}
+
+/**
+ * One parcel topology per mission
+ */
+class ParcelRegistry {
+  private static instance: ParcelRegistry;
+  private topologies: Map<string, ParcelTopology> = new Map();
+
+  private constructor() {}
+
+  static getInstance(): ParcelRegistry {
+    if (!ParcelRegistry.instance) {
+      ParcelRegistry.instance = new ParcelRegistry();
+    }
+    return ParcelRegistry.instance;
+  }
+
+  /**
+   * Topology of a mission, created in the given projection on first use
+   */
+  getTopology(missionId: string, epsg?: string, options?: TopologyOptions): ParcelTopology {
+    const existing = this.topologies.get(missionId);
+    if (existing) {
+      if (epsg && epsg !== existing.epsg) {
+        throw new Error(`Parcels of mission ${missionId} are stored in ${existing.epsg}, not ${epsg}`);
+      }
+      return existing;
+    }
+    if (!epsg) throw new Error(`Mission ${missionId} has no parcel topology yet, a projection is needed`);
+
+    const topology = new ParcelTopology(epsg, options);
+    this.topologies.set(missionId, topology);
+    return topology;
+  }
+
+  hasTopology(missionId: string): boolean {
+    return this.topologies.has(missionId);
+  }
+
+  deleteTopology(missionId: string): boolean {
+    return this.topologies.delete(missionId);
+  }
+}
+
+export const parcelRegistry = ParcelRegistry.getInstance();
+
+export { ParcelTopology };
+export type {
+  BoundaryMarker,
+  ParcelOwner,
+  TitleReference,
+  Parcel,
+  BoundarySegment,
+  MarkerInput,
+  ParcelInput,
+  ParcelUpdate,
+  TopologyOptions,
+};
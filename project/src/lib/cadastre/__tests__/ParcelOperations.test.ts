@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ParcelTopology } from '../ParcelTopology';
+import { ParcelOperations } from '../ParcelOperations';
+import { versionTracker } from '../../api/VersionTracker';
+
+const X0 = 652000;
+const Y0 = 6862000;
+const context = { missionId: 'mission-lots', userId: 'geometre-1' };
+
+// Parcelle de 100 m × 60 m et sa voisine à l'est
+function setup() {
+  const topology = new ParcelTopology('EPSG:2154');
+  const parcel = topology.createParcel({
+    reference: 'C-40',
+    ring: [{ x: X0, y: Y0 }, { x: X0 + 100, y: Y0 }, { x: X0 + 100, y: Y0 + 60 }, { x: X0, y: Y0 + 60 }],
+    owners: [{ name: 'SCI Les Palmiers' }],
+    titles: [{ number: 'TF 5120' }],
+  });
+  const neighbour = topology.createParcel({
+    reference: 'C-41',
+    ring: [{ x: X0 + 100, y: Y0 }, { x: X0 + 150, y: Y0 }, { x: X0 + 150, y: Y0 + 60 }, { x: X0 + 100, y: Y0 + 60 }],
+    owners: [{ name: 'SCI Les Palmiers' }],
+  });
+  const corner = (x: number, y: number) => topology.findMarker(X0 + x, Y0 + y)!.id;
+  return { topology, parcel, neighbour, corner };
+}
+
+describe('ParcelOperations', () => {
+  it('should split a parcel along a line and record its lineage', () => {
+    versionTracker.clearMissionHistory(context.missionId);
+    const { topology, parcel, corner } = setup();
+
+    const result = ParcelOperations.splitByLine(
+      topology, parcel.id, [{ x: X0 + 30, y: Y0 - 10 }, { x: X0 + 30, y: Y0 + 70 }], context
+    );
+
+    expect(result.children.map(child => child.reference)).toEqual(['C-40-1', 'C-40-2']);
+    expect(result.children[0].area).toBeCloseTo(1800, 6); // À gauche de la ligne (ouest)
+    expect(result.children[1].area).toBeCloseTo(4200, 6);
+    expect(result.children[0].titles).toEqual([{ number: 'TF 5120' }]);
+    expect(topology.getParcel(parcel.id)).toBeUndefined();
+
+    // La limite créée est commune aux deux lots
+    const shared = topology.getBoundaries().filter(segment => segment.parcels.length === 2);
+    expect(shared.some(segment => Math.abs(segment.length - 60) < 1e-9)).toBe(true);
+    expect(topology.getNeighbours(result.children[0].id).map(p => p.reference)).toEqual(['C-40-2']);
+
+    expect(result.version.changes.map(change => change.action)).toEqual(['delete', 'add', 'add']);
+    expect(result.version.changes[1].after.properties.lineage).toEqual({
+      operation: 'split',
+      parents: [parcel.id],
+      children: result.children.map(child => child.id),
+    });
+    expect(ParcelOperations.getLineage(context.missionId, result.children[1].id).parents).toEqual([parcel.id]);
+    expect(ParcelOperations.getLineage(context.missionId, parcel.id).children).toHaveLength(2);
+
+    expect(() => ParcelOperations.splitByLine(topology, result.children[0].id, [corner(0, 0), corner(0, 60)], context))
+      .toThrow('does not cross');
+  });
+
+  it('should cut lots of a given area parallel to a side', () => {
+    const { topology, parcel, neighbour, corner } = setup();
+
+    // Lot de 1500 m² le long de la limite sud
+    const south = ParcelOperations.splitByArea(topology, parcel.id, 1500, [corner(0, 0), corner(100, 0)], context);
+    const [lot, rest] = south.children;
+    expect(lot.area).toBeCloseTo(1500, 4);
+    expect(rest.area).toBeCloseTo(4500, 4);
+    topology.getRings(lot.id)[0].forEach(marker => expect(marker.y - Y0).toBeLessThanOrEqual(15 + 1e-6));
+
+    // Le point de coupe sur la limite commune est inséré chez le voisin
+    expect(neighbour.markers).toHaveLength(5);
+    expect(neighbour.area).toBeCloseTo(3000, 6);
+
+    expect(() => ParcelOperations.splitByArea(topology, rest.id, 5000, [corner(0, 60), corner(100, 60)], context))
+      .toThrow('between 0 and');
+  });
+
+  it('should divide a parcel into equal lots and merge them back', () => {
+    const { topology, parcel, neighbour, corner } = setup();
+
+    const lots = ParcelOperations.splitEqual(topology, parcel.id, 4, [corner(0, 60), corner(0, 0)], context, {
+      references: ['L1', 'L2', 'L3', 'L4'],
+    }).children;
+    expect(lots.map(l => l.reference)).toEqual(['L1', 'L2', 'L3', 'L4']);
+    lots.forEach(l => expect(l.area).toBeCloseTo(1500, 4));
+    // Lots en bandes nord-sud depuis la limite ouest
+    expect(Math.max(...topology.getRings(lots[0].id)[0].map(m => m.x - X0))).toBeCloseTo(25, 6);
+
+    const merged = ParcelOperations.merge(topology, [lots[1].id, lots[2].id], context, { reference: 'L23' });
+    expect(merged.children[0].area).toBeCloseTo(3000, 4);
+    expect(merged.children[0].titles).toEqual([{ number: 'TF 5120' }]);
+    expect(merged.version.changes.filter(change => change.action === 'delete')).toHaveLength(2);
+    expect(ParcelOperations.getLineage(context.missionId, merged.children[0].id).parents)
+      .toEqual([lots[1].id, lots[2].id]);
+
+    expect(() => ParcelOperations.merge(topology, [lots[0].id, lots[3].id], context)).toThrow('not adjacent');
+    topology.updateParcel(neighbour.id, { owners: [{ name: 'M. Ekwalla' }] });
+    expect(() => ParcelOperations.merge(topology, [lots[3].id, neighbour.id], context)).toThrow('different owners');
+  });
+
+  it('should leave the topology unchanged when an operation fails', () => {
+    const { topology, parcel, neighbour } = setup();
+    const state = () => JSON.stringify([topology.listParcels(), topology.listMarkers(), topology.getBoundaries()]);
+    const before = state();
+    const line: [{ x: number; y: number }, { x: number; y: number }] = [{ x: X0 + 30, y: Y0 - 10 }, { x: X0 + 30, y: Y0 + 70 }];
+
+    // Entrées refusées avant toute modification
+    expect(() => ParcelOperations.splitByLine(topology, parcel.id, line, context, { references: ['L', 'L'] }))
+      .toThrow('Lot references must be unique');
+    expect(() => ParcelOperations.merge(topology, [parcel.id, neighbour.id], context, {
+      owners: [{ name: 'A', share: 0.8 }, { name: 'B', share: 0.8 }],
+    })).toThrow('add up to 1 at most');
+    expect(state()).toBe(before);
+
+    // Ligne frôlant l'angle sud-est : la borne créée sur la limite commune est retirée
+    expect(() => ParcelOperations.splitByLine(topology, parcel.id, [{ x: X0 + 99.995, y: Y0 }, { x: X0 + 100, y: Y0 + 5 }], context))
+      .toThrow('only touches');
+    expect(neighbour.markers).toHaveLength(4);
+    expect(state()).toBe(before);
+
+    // Échec à l'enregistrement, après le remplacement de la parcelle
+    vi.spyOn(versionTracker, 'recordChange').mockImplementationOnce(() => { throw new Error('Historique indisponible'); });
+    expect(() => ParcelOperations.splitByLine(topology, parcel.id, line, context)).toThrow('Historique indisponible');
+    expect(topology.getParcel(parcel.id)).toBe(parcel);
+    expect(state()).toBe(before);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { ParcelTopology, parcelRegistry } from '../ParcelTopology';
+
+const X0 = 652000;
+const Y0 = 6862000;
+
+// Deux parcelles carrées de 100 m accolées, la borne du milieu n'est levée que pour la seconde
+function adjacentParcels() {
+  const topology = new ParcelTopology('EPSG:2154');
+  const west = topology.createParcel({
+    reference: 'AB-12',
+    ring: [
+      { x: X0, y: Y0 },
+      { x: X0, y: Y0 + 100 },
+      { x: X0 + 100, y: Y0 + 100 },
+      { x: X0 + 100, y: Y0 },
+    ],
+    owners: [{ name: 'Indivision Martin', share: 0.5 }, { name: 'Jeanne Martin', share: 0.5 }],
+    titles: [{ number: 'TF 1234/W', office: 'Douala' }],
+  });
+  const east = topology.createParcel({
+    reference: 'AB-13',
+    ring: [
+      { x: X0 + 100.004, y: Y0 - 0.003 }, // Dans la tolérance de 1 cm
+      { x: X0 + 200, y: Y0 },
+      { x: X0 + 200, y: Y0 + 100 },
+      { x: X0 + 100, y: Y0 + 100 },
+      { x: X0 + 100, y: Y0 + 50, code: 'B7' },
+    ],
+  });
+  return { topology, west, east };
+}
+
+describe('ParcelTopology', () => {
+  it('should share boundary segments exactly between adjacent parcels', () => {
+    const { topology, west, east } = adjacentParcels();
+
+    expect(topology.listMarkers()).toHaveLength(7);
+    // La borne B7 est insérée dans le contour de la parcelle ouest
+    expect(west.markers).toHaveLength(5);
+    expect(west.markers).toContain(topology.listMarkers().find(marker => marker.code === 'B7')!.id);
+
+    const shared = topology.getBoundaries().filter(segment => segment.parcels.length === 2);
+    expect(shared).toHaveLength(2);
+    shared.forEach(segment => {
+      expect(segment.length).toBeCloseTo(50, 9);
+      expect(segment.parcels.sort()).toEqual([west.id, east.id].sort());
+    });
+    expect(topology.getBoundaries()).toHaveLength(8);
+    expect(topology.getNeighbours(west.id).map(parcel => parcel.reference)).toEqual(['AB-13']);
+
+    // Un segment coupé par une nouvelle borne garde sa nature
+    const [from, to] = [west.markers[0], west.markers[1]];
+    topology.setBoundaryAttributes(from, to, { nature: 'mur' });
+    const a = topology.getMarker(from)!;
+    const b = topology.getMarker(to)!;
+    topology.addMarker({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+    expect(topology.getBoundaries(west.id).filter(segment => segment.nature === 'mur')).toHaveLength(2);
+  });
+
+  it('should compute official areas and follow marker moves', () => {
+    const { topology, west, east } = adjacentParcels();
+    expect(west.area).toBeCloseTo(10000, 6);
+    expect(east.area).toBeCloseTo(10000, 1);
+
+    // Déplacer la borne commune change les deux surfaces en sens inverse
+    const b7 = topology.listMarkers().find(marker => marker.code === 'B7')!;
+    topology.updateMarker(b7.id, { x: b7.x + 2 });
+    expect(west.area).toBeCloseTo(10100, 1);
+    expect(east.area).toBeCloseTo(9900, 1);
+
+    // Une autre projection donne une surface légèrement différente (facteur d'échelle)
+    const cc49 = topology.computeArea(west.id, 'EPSG:3949');
+    expect(Math.abs(cc49 - west.area)).toBeGreaterThan(0);
+    expect(Math.abs(cc49 - west.area) / west.area).toBeLessThan(1e-3);
+
+    // Enclave soustraite de la surface
+    const withHole = topology.createParcel({
+      reference: 'AB-14',
+      ring: [{ x: X0, y: Y0 + 200 }, { x: X0 + 50, y: Y0 + 200 }, { x: X0 + 50, y: Y0 + 250 }, { x: X0, y: Y0 + 250 }],
+      holes: [[{ x: X0 + 10, y: Y0 + 210 }, { x: X0 + 20, y: Y0 + 210 }, { x: X0 + 20, y: Y0 + 220 }, { x: X0 + 10, y: Y0 + 220 }]],
+    });
+    expect(withHole.area).toBeCloseTo(2400, 6);
+  });
+
+  it('should enforce parcel and marker integrity', () => {
+    const { topology, west } = adjacentParcels();
+
+    expect(() => topology.createParcel({ reference: 'AB-12', ring: west.markers })).toThrow('already used');
+    expect(() => topology.createParcel({ reference: 'X', ring: west.markers.slice(0, 2) })).toThrow('three distinct markers');
+    expect(() => topology.updateParcel(west.id, { owners: [{ name: 'A', share: 0.7 }, { name: 'B', share: 0.4 }] })).toThrow('shares');
+    expect(() => topology.deleteMarker(west.markers[0])).toThrow('AB-12');
+    expect(() => new ParcelTopology('EPSG:4326')).toThrow('projected CRS');
+
+    topology.updateParcel(west.id, { reference: 'AB-12p', titles: [{ number: 'TF 99' }], properties: { lieuDit: 'Bonapriso' } });
+    expect(topology.findParcel('AB-12p')!.titles[0].number).toBe('TF 99');
+
+    const markerCount = topology.listMarkers().length;
+    expect(topology.deleteParcel(west.id)).toBe(true);
+    expect(topology.listMarkers()).toHaveLength(markerCount);
+    expect(topology.getBoundaries().every(segment => segment.parcels.length === 1)).toBe(true);
+  });
+
+  it('should round-trip parcels through WGS84 features', () => {
+    const { topology } = adjacentParcels();
+    const features = topology.toFeatures();
+    expect(features.filter(feature => feature.properties?.featureType === 'parcel')).toHaveLength(2);
+    expect(features.filter(feature => feature.properties?.featureType === 'marker')).toHaveLength(7);
+    expect(features.filter(feature => feature.properties?.featureType === 'boundary')).toHaveLength(8);
+
+    const copy = parcelRegistry.getTopology('mission-parcels', 'EPSG:2154');
+    const imported = copy.importFeatures(features.filter(feature => feature.properties?.featureType === 'parcel'));
+    expect(imported.map(parcel => parcel.reference)).toEqual(['AB-12', 'AB-13']);
+    expect(imported[0].area).toBeCloseTo(10000, 2);
+    expect(copy.listMarkers()).toHaveLength(7);
+    expect(copy.getNeighbours(imported[0].id)).toHaveLength(1);
+
+    expect(parcelRegistry.getTopology('mission-parcels')).toBe(copy);
+    expect(() => parcelRegistry.getTopology('mission-parcels', 'EPSG:32632')).toThrow('stored in EPSG:2154');
+    parcelRegistry.deleteTopology('mission-parcels');
+  });
+});
@@ -0,0 +1,769 @@
+import { Cogo } from '../survey/Cogo';
+import { CoordinateSystemManager } from '../sensors/CoordinateSystemManager';
+import type { ParcelTopology } from '../cadastre/ParcelTopology';
+import { symbolLibrary, type SymbolDefinition } from '../map/symbolLibrary';
+import { PdfDocument, type PdfPage } from './PdfDocument';
+
+/**
+ * Borne du plan, en coordonnées projetées
+ */
+type PlanMarker = {
+  label: string;  // Numéro imprimé (B1, B2… ou code de la borne)
+  x: number;
+  y: number;
+  kind?: 'borne' | 'repere' | 'virtual';
+  status?: string;
+};
+
+type PlanNeighbour = {
+  reference: string;
+  owners: string[];
+  ring: Array<[number, number]>;
+};
+
+/**
+ * Données d'un plan de bornage : la parcelle, ses riverains et la projection
+ */
+type PlanData = {
+  crs: string;
+  reference: string;
+  markers: PlanMarker[];   // Contour extérieur, non fermé
+  holes?: PlanMarker[][];  // Enclaves
+  owners: string[];
+  titles?: string[];
+  declaredArea?: number;   // Contenance du titre (m²)
+  neighbours?: PlanNeighbour[];
+};
+
+type SurveyorInfo = {
+  name: string;
+  licence?: string;  // Numéro d'inscription à l'Ordre
+  company?: string;
+  address?: string;
+};
+
+type PlanOptions = {
+  title?: string;
+  location?: string;  // Commune, lieu-dit
+  surveyor?: SurveyorInfo;
+  date?: string;
+  dossier?: string;
+  scale?: number;     // Dénominateur ; choisi parmi les échelles usuelles si absent
+  paper?: 'A4' | 'A3';
+  orientation?: 'portrait' | 'landscape';
+  angleUnit?: 'gon' | 'deg';
+};
+
+type PlanSide = {
+  from: string;
+  to: string;
+  distance: number;
+  azimuth: number; // Gisement en degrés, sens horaire depuis le nord du quadrillage
+};
+
+type CadastralPlanResult = {
+  pdf: Uint8Array;
+  scale: number;
+  area: number;
+  perimeter: number;
+  sides: PlanSide[];
+  pages: number;
+};
+
+type Point = [number, number];
+
+const PAPER: Record<'A4' | 'A3', Point> = { A4: [297, 210], A3: [420, 297] };
+const MARGIN = 10;
+const ROW = 3.6;
+const GREY: [number, number, number] = [0.45, 0.45, 0.45];
+const PARCEL_FILL: [number, number, number] = [0.96, 0.93, 0.85];
+
+/**
+ * Plan de bornage PDF : parcelle à l'échelle avec ses bornes numérotées,
+ * gisements et distances des côtés, riverains, tableau des coordonnées,
+ * calcul de contenance, cartouche et bloc de signature du géomètre.
+ * Rendu entièrement hors ligne (polices standard, symboles vectoriels).
+ */
+class CadastralPlan {
+  static readonly SCALES = [100, 200, 250, 500, 1000, 1250, 2000, 2500, 5000, 10000];
+
+  /**
+   * Données du plan d'une parcelle de la topologie cadastrale
+   */
+  static fromTopology(topology: ParcelTopology, parcelId: string): PlanData {
+    const parcel = topology.getParcel(parcelId);
+    if (!parcel) throw new Error(`Parcel ${parcelId} not found`);
+
+    const [outer, ...holes] = topology.getRings(parcelId);
+    const ring = CadastralPlan.clockwise(outer);
+    let counter = 0;
+    const toPlan = (marker: typeof outer[number]): PlanMarker => ({
+      label: marker.code ?? `B${++counter}`,
+      x: marker.x,
+      y: marker.y,
+      kind: marker.kind,
+      status: marker.status,
+    });
+
+    return {
+      crs: topology.epsg,
+      reference: parcel.reference,
+      markers: ring.map(toPlan),
+      holes: holes.map(hole => hole.map(toPlan)),
+      owners: parcel.owners.map(owner => owner.name),
+      titles: parcel.titles.map(title => title.number),
+      declaredArea: parcel.declaredArea,
+      neighbours: topology.getNeighbours(parcelId).map(neighbour => ({
+        reference: neighbour.reference,
+        owners: neighbour.owners.map(owner => owner.name),
+        ring: topology.getRings(neighbour.id)[0].map(marker => [marker.x, marker.y] as Point),
+      })),
+    };
+  }
+
+  /**
+   * Données du plan à partir d'entités WGS84 : la parcelle est le polygone
+   * portant la référence demandée (à défaut le premier), les autres polygones
+   * contigus sont les riverains et les points `featureType: 'marker'`
+   * renseignent la nature et le code des bornes.
+   */
+  static fromFeatures(features: GeoJSON.Feature[], epsg: string, reference?: string, tolerance = 0.05): PlanData {
+    const polygons = features.filter(feature => feature.geometry?.type === 'Polygon');
+    const referenceOf = (feature: GeoJSON.Feature, index: number) =>
+      String(feature.properties?.reference ?? feature.id ?? `P${index + 1}`);
+    const parcelIndex = reference
+      ? polygons.findIndex((feature, index) => referenceOf(feature, index) === reference)
+      : Math.max(0, polygons.findIndex(feature => feature.properties?.featureType === 'parcel'));
+    const parcel = polygons[parcelIndex];
+    if (!parcel) throw new Error(reference ? `Parcel ${reference} not found` : 'No parcel polygon to plot');
+
+    const project = (ring: GeoJSON.Position[]): Point[] => {
+      const points = ring.map(([lon, lat]) => {
+        const { x, y } = CoordinateSystemManager.fromWGS84(lat, lon, epsg);
+        return [x, y] as Point;
+      });
+      const [first, last] = [points[0], points[points.length - 1]];
+      return points.length > 1 && first[0] === last[0] && first[1] === last[1] ? points.slice(0, -1) : points;
+    };
+    const markers = features
+      .filter(feature => feature.geometry?.type === 'Point' && feature.properties?.featureType === 'marker')
+      .map(feature => {
+        const [x, y] = project([(feature.geometry as GeoJSON.Point).coordinates])[0];
+        return { x, y, code: feature.properties?.code, kind: feature.properties?.kind, status: feature.properties?.status };
+      });
+
+    let counter = 0;
+    const toPlan = ([x, y]: Point): PlanMarker => {
+      const marker = markers.find(candidate => Math.hypot(candidate.x - x, candidate.y - y) <= tolerance);
+      return {
+        label: marker?.code ?? `B${++counter}`,
+        x,
+        y,
+        kind: marker?.kind ?? (markers.length ? 'virtual' : 'borne'),
+        status: marker?.status,
+      };
+    };
+
+    const [outer, ...holes] = (parcel.geometry as GeoJSON.Polygon).coordinates.map(project);
+    const ring = CadastralPlan.clockwise(outer.map(([x, y]) => ({ x, y })));
+    const neighbours = polygons
+      .map((feature, index) => ({ feature, index, ring: project((feature.geometry as GeoJSON.Polygon).coordinates[0]) }))
+      .filter(({ index, ring: other }) => index !== parcelIndex && CadastralPlan.touches(outer, other, tolerance))
+      .map(({ feature, index, ring: other }) => ({
+        reference: referenceOf(feature, index),
+        owners: CadastralPlan.names(feature.properties?.owners),
+        ring: other,
+      }));
+
+    return {
+      crs: epsg,
+      reference: referenceOf(parcel, parcelIndex),
+      markers: ring.map(({ x, y }) => toPlan([x, y])),
+      holes: holes.map(hole => hole.map(toPlan)),
+      owners: CadastralPlan.names(parcel.properties?.owners),
+      titles: CadastralPlan.names(parcel.properties?.titles),
+      declaredArea: parcel.properties?.declaredArea,
+      neighbours,
+    };
+  }
+
+  /**
+   * Échelle usuelle la plus grande faisant tenir la parcelle et ses abords
+   */
+  static chooseScale(markers: PlanMarker[], frame: Point): number {
+    const xs = markers.map(marker => marker.x);
+    const ys = markers.map(marker => marker.y);
+    // 30 % de marge autour de la parcelle pour les cotes et les riverains
+    const needed = Math.max(
+      ((Math.max(...xs) - Math.min(...xs)) * 1000 * 1.3) / frame[0],
+      ((Math.max(...ys) - Math.min(...ys)) * 1000 * 1.3) / frame[1]
+    );
+    return CadastralPlan.SCALES.find(scale => scale >= needed) ?? Math.ceil(needed / 1000) * 1000;
+  }
+
+  /**
+   * Gisement et distance de chaque côté, anneaux fermés
+   */
+  static sides(rings: PlanMarker[][]): PlanSide[] {
+    return rings.flatMap(ring => ring.map((marker, i) => {
+      const next = ring[(i + 1) % ring.length];
+      const { azimuth, distance } = Cogo.inverse(marker, next);
+      return { from: marker.label, to: next.label, azimuth, distance };
+    }));
+  }
+
+  /**
+   * Contenance par la formule des trapèzes S = ½ |Σ Xi (Yi+1 − Yi−1)|, enclaves déduites
+   */
+  static area(data: PlanData): number {
+    const ringArea = (ring: PlanMarker[]) => Math.abs(ring.reduce((sum, marker, i) => {
+      const previous = ring[(i - 1 + ring.length) % ring.length];
+      const next = ring[(i + 1) % ring.length];
+      return sum + marker.x * (next.y - previous.y);
+    }, 0)) / 2;
+    return ringArea(data.markers) - (data.holes ?? []).reduce((sum, hole) => sum + ringArea(hole), 0);
+  }
+
+  /**
+   * Contenance au format cadastral : 1 ha 23 a 45 ca
+   */
+  static formatArea(area: number): string {
+    const m2 = Math.round(area);
+    return `${Math.floor(m2 / 10000)} ha ${String(Math.floor((m2 % 10000) / 100)).padStart(2, '0')} a ${String(m2 % 100).padStart(2, '0')} ca`;
+  }
+
+  /**
+   * Gisement en grades (4 décimales) ou en degrés sexagésimaux
+   */
+  static formatAzimuth(azimuth: number, unit: 'gon' | 'deg' = 'gon'): string {
+    if (unit === 'gon') return `${((azimuth * 400) / 360).toFixed(4)} gr`;
+
+    let seconds = Math.round(azimuth * 3600) % (360 * 3600);
+    const degrees = Math.floor(seconds / 3600);
+    seconds -= degrees * 3600;
+    const minutes = Math.floor(seconds / 60);
+    seconds -= minutes * 60;
+    return `${degrees}°${String(minutes).padStart(2, '0')}'${String(seconds).padStart(2, '0')}"`;
+  }
+
+  /**
+   * Génère le plan PDF
+   */
+  static generate(data: PlanData, options: PlanOptions = {}): CadastralPlanResult {
+    if (data.markers.length < 3) throw new Error('A cadastral plan needs a parcel with at least 3 markers');
+    const info = CoordinateSystemManager.getProjectionInfo(data.crs);
+    if (!info?.isProjected) throw new Error(`Cadastral plans are drawn in a projected CRS, ${data.crs} is not`);
+
+    const [paperWidth, paperHeight] = PAPER[options.paper ?? 'A4'];
+    const [width, height] = options.orientation === 'portrait'
+      ? [Math.min(paperWidth, paperHeight), Math.max(paperWidth, paperHeight)]
+      : [Math.max(paperWidth, paperHeight), Math.min(paperWidth, paperHeight)];
+    const column = options.paper === 'A3' ? 120 : 95;
+    const portrait = options.orientation === 'portrait';
+
+    // Portrait : cartouche sous la carte ; paysage : colonne à droite
+    const frame = portrait
+      ? { x: MARGIN, y: MARGIN + 120, width: width - 2 * MARGIN, height: height - 2 * MARGIN - 120 }
+      : { x: MARGIN, y: MARGIN, width: width - 2 * MARGIN - column - 5, height: height - 2 * MARGIN };
+    const panel = portrait
+      ? { x: MARGIN, y: MARGIN, width: width - 2 * MARGIN, height: 115 }
+      : { x: width - MARGIN - column, y: MARGIN, width: column, height: height - 2 * MARGIN };
+
+    const scale = options.scale ?? CadastralPlan.chooseScale(data.markers, [frame.width, frame.height]);
+    const rings = [data.markers, ...(data.holes ?? [])];
+    const sides = CadastralPlan.sides(rings);
+    const area = CadastralPlan.area(data);
+    const perimeter = sides.slice(0, data.markers.length).reduce((sum, side) => sum + side.distance, 0);
+
+    const pdf = new PdfDocument({
+      title: `${options.title ?? 'Plan de bornage'} - ${data.reference}`,
+      author: options.surveyor?.name,
+      subject: options.location,
+    });
+    const page = pdf.addPage(width, height);
+
+    CadastralPlan.drawMap(page, data, frame, scale, options);
+
+    const context: PanelContext = { data, options, scale, area, perimeter, sides };
+    const overflow = portrait
+      ? CadastralPlan.drawPortraitPanel(page, panel, context)
+      : CadastralPlan.drawPanel(page, panel, context);
+    CadastralPlan.drawAnnex(pdf, width, height, context, overflow);
+
+    return { pdf: pdf.toBytes(), scale, area, perimeter, sides, pages: pdf.pageCount };
+  }
+
+  // Carte
+
+  private static drawMap(page: PdfPage, data: PlanData, frame: Frame, scale: number, options: PlanOptions): void {
+    const xs = data.markers.map(marker => marker.x);
+    const ys = data.markers.map(marker => marker.y);
+    const center: Point = [(Math.min(...xs) + Math.max(...xs)) / 2, (Math.min(...ys) + Math.max(...ys)) / 2];
+    const factor = 1000 / scale; // mm papier par mètre terrain
+    const toPage = (x: number, y: number): Point => [
+      frame.x + frame.width / 2 + (x - center[0]) * factor,
+      frame.y + frame.height / 2 + (y - center[1]) * factor,
+    ];
+
+    page.lineWidth(0.5).rect(frame.x, frame.y, frame.width, frame.height).stroke();
+    page.save().rect(frame.x, frame.y, frame.width, frame.height).clip();
+
+    // Riverains en tireté, référence et propriétaires au centre de la partie visible
+    (data.neighbours ?? []).forEach(neighbour => {
+      const ring = neighbour.ring.map(([x, y]) => toPage(x, y));
+      page.lineWidth(0.25).strokeColor(GREY).dash([2, 1]).polyline(ring, true).stroke().dash().strokeColor([0, 0, 0]);
+      const [cx, cy] = CadastralPlan.centroid(ring);
+      const x = Math.min(Math.max(cx, frame.x + 15), frame.x + frame.width - 15);
+      const y = Math.min(Math.max(cy, frame.y + 8), frame.y + frame.height - 8);
+      page.text(x, y, neighbour.reference, { size: 7, font: 'bold', align: 'center', color: GREY });
+      if (neighbour.owners.length) {
+        page.text(x, y - 3, CadastralPlan.fit(neighbour.owners.join(', '), 40, 6), { size: 6, align: 'center', color: GREY });
+      }
+    });
+
+    // Parcelle
+    const rings = [data.markers, ...(data.holes ?? [])].map(ring => ring.map(marker => toPage(marker.x, marker.y)));
+    page.lineWidth(0.6).fillColor(PARCEL_FILL);
+    rings.forEach(ring => page.polyline(ring, true));
+    page.fillAndStroke().fillColor([0, 0, 0]);
+
+    // Distance à l'extérieur de chaque côté, gisement à l'intérieur
+    rings.forEach((ring, r) => {
+      const inside = CadastralPlan.interiorSign(ring, r > 0);
+      const markers = r === 0 ? data.markers : data.holes![r - 1];
+      ring.forEach((start, i) => {
+        const end = ring[(i + 1) % ring.length];
+        const { azimuth, distance } = Cogo.inverse(markers[i], markers[(i + 1) % markers.length]);
+        const outward = CadastralPlan.normal(start, end, -inside);
+        const mid: Point = [(start[0] + end[0]) / 2, (start[1] + end[1]) / 2];
+        let angle = (Math.atan2(end[1] - start[1], end[0] - start[0]) * 180) / Math.PI;
+        if (angle > 90) angle -= 180;
+        if (angle <= -90) angle += 180;
+
+        CadastralPlan.sideText(page, mid, outward, angle, `${distance.toFixed(2)} m`);
+        CadastralPlan.sideText(page, mid, [-outward[0], -outward[1]], angle,
+          CadastralPlan.formatAzimuth(azimuth, options.angleUnit), GREY);
+      });
+    });
+
+    // Bornes et numéros, décalés vers l'extérieur de la parcelle
+    rings.forEach((ring, r) => {
+      const inside = CadastralPlan.interiorSign(ring, r > 0);
+      const markers = r === 0 ? data.markers : data.holes![r - 1];
+      ring.forEach((point, i) => {
+        const previous = ring[(i - 1 + ring.length) % ring.length];
+        const next = ring[(i + 1) % ring.length];
+        const [n1, n2] = [CadastralPlan.normal(previous, point, -inside), CadastralPlan.normal(point, next, -inside)];
+        const length = Math.hypot(n1[0] + n2[0], n1[1] + n2[1]) || 1;
+        const direction: Point = [(n1[0] + n2[0]) / length, (n1[1] + n2[1]) / length];
+
+        CadastralPlan.drawSymbol(page, CadastralPlan.symbolFor(markers[i].kind), point);
+        page.text(point[0] + direction[0] * 3.5, point[1] + direction[1] * 3.5 - 1, markers[i].label, {
+          size: 7,
+          font: 'bold',
+          align: 'center',
+        });
+      });
+    });
+
+    // Référence et contenance au centre
+    const [cx, cy] = CadastralPlan.centroid(rings[0]);
+    page.text(cx, cy + 1, data.reference, { size: 10, font: 'bold', align: 'center' });
+    page.text(cx, cy - 3.5, CadastralPlan.formatArea(CadastralPlan.area(data)), { size: 7, align: 'center' });
+    page.restore();
+
+    CadastralPlan.drawNorthArrow(page, [frame.x + 12, frame.y + frame.height - 14], data.crs);
+    CadastralPlan.drawScaleBar(page, [frame.x + 6, frame.y + 6], scale);
+    CadastralPlan.drawLegend(page, frame, data);
+  }
+
+  private static sideText(page: PdfPage, mid: Point, direction: Point, angle: number, text: string, color?: [number, number, number]): void {
+    // Le texte est au-dessus de sa ligne de base : décalage plus grand s'il est du côté « bas »
+    const rad = (angle * Math.PI) / 180;
+    const up = direction[0] * -Math.sin(rad) + direction[1] * Math.cos(rad);
+    const offset = up > 0 ? 0.8 : 2.4;
+    page.text(mid[0] + direction[0] * offset, mid[1] + direction[1] * offset, text, {
+      size: 6,
+      angle,
+      align: 'center',
+      color,
+    });
+  }
+
+  private static drawNorthArrow(page: PdfPage, [x, y]: Point, crs: string): void {
+    CadastralPlan.drawSymbol(page, symbolLibrary.north_arrow, [x, y]);
+    page.text(x, y + 8.5, 'N', { size: 10, font: 'bold', align: 'center' });
+    page.text(x, y - 10, 'Nord du quadrillage', { size: 5, align: 'center' });
+    page.text(x, y - 12.5, crs, { size: 5, align: 'center' });
+  }
+
+  private static drawScaleBar(page: PdfPage, [x, y]: Point, scale: number): void {
+    // Longueur terrain « ronde » (1, 2 ou 5 × 10^n) proche de 40 mm papier
+    const target = (40 * scale) / 1000;
+    const magnitude = 10 ** Math.floor(Math.log10(target));
+    const length = [5, 2, 1].map(step => step * magnitude).find(value => value <= target)!;
+    const barWidth = (length * 1000) / scale;
+
+    page.lineWidth(0.2);
+    for (let i = 0; i < 4; i++) {
+      page.fillColor(i % 2 === 0 ? [0, 0, 0] : [1, 1, 1]).rect(x + (i * barWidth) / 4, y, barWidth / 4, 1.5).fillAndStroke();
+    }
+    page.fillColor([0, 0, 0]);
+    page.text(x, y + 2.5, '0', { size: 6, align: 'center' });
+    page.text(x + barWidth, y + 2.5, `${length} m`, { size: 6, align: 'center' });
+    page.text(x + barWidth + 6, y, `Échelle 1/${scale}`, { size: 8, font: 'bold' });
+  }
+
+  private static drawLegend(page: PdfPage, frame: Frame, data: PlanData): void {
+    const markers = [...data.markers, ...(data.holes ?? []).flat()];
+    const symbols = Array.from(new Set(markers.map(marker => CadastralPlan.symbolFor(marker.kind))));
+    const entries: Array<[SymbolDefinition | null, string]> = [
+      ...symbols.map(symbol => [symbol, symbol.description] as [SymbolDefinition, string]),
+      [null, 'Limite de la parcelle'],
+      ...(data.neighbours?.length ? [[null, 'Limite riveraine'] as [null, string]] : []),
+    ];
+    const width = 62;
+    const height = entries.length * 4.5 + 7;
+    const x = frame.x + frame.width - width - 3;
+    const y = frame.y + 3;
+
+    page.lineWidth(0.2).fillColor([1, 1, 1]).rect(x, y, width, height).fillAndStroke().fillColor([0, 0, 0]);
+    page.text(x + 2, y + height - 4, 'Légende', { size: 7, font: 'bold' });
+    entries.forEach(([symbol, label], i) => {
+      const rowY = y + height - 9 - i * 4.5;
+      if (symbol) {
+        CadastralPlan.drawSymbol(page, symbol, [x + 5, rowY + 0.8]);
+      } else {
+        page.lineWidth(label === 'Limite riveraine' ? 0.25 : 0.6)
+          .strokeColor(label === 'Limite riveraine' ? GREY : [0, 0, 0])
+          .dash(label === 'Limite riveraine' ? [2, 1] : [])
+          .polyline([[x + 2, rowY + 0.8], [x + 8, rowY + 0.8]])
+          .stroke()
+          .dash()
+          .strokeColor([0, 0, 0]);
+      }
+      page.text(x + 11, rowY, CadastralPlan.fit(label, width - 13, 6), { size: 6 });
+    });
+  }
+
+  /**
+   * Symbole SVG de la bibliothèque, centré sur le point, à sa taille imprimée
+   */
+  private static drawSymbol(page: PdfPage, symbol: SymbolDefinition, [x, y]: Point): void {
+    const [minX, minY, viewWidth, viewHeight] = (symbol.value.match(/viewBox="([^"]+)"/)?.[1] ?? '0 0 24 24')
+      .split(/[\s,]+/)
+      .map(Number);
+    const factor = (symbol.metadata?.size ?? 2.5) / viewWidth;
+    const paths = Array.from(symbol.value.matchAll(/<path([^>]*?)\bd="([^"]+)"/g), match => ({
+      outline: /fill="none"/.test(match[1]),
+      d: match[2],
+    }));
+
+    page.save().transform(x, y, 0, factor).lineWidth(0.2 / factor);
+    paths.forEach(({ outline, d }) => {
+      // Contours évidés sur fond blanc pour masquer les traits de limite
+      page.fillColor(outline ? [1, 1, 1] : [0, 0, 0]).svgPath(d, [minX + viewWidth / 2, minY + viewHeight / 2]);
+      if (outline) page.fillAndStroke();
+      else page.fill();
+    });
+    page.restore();
+  }
+
+  // Cartouche et tableaux
+
+  private static drawPanel(page: PdfPage, panel: Frame, context: PanelContext): PlanRow[] {
+    const top = panel.y + panel.height;
+    const titleBottom = CadastralPlan.drawTitleBlock(page, { ...panel, y: top - 52, height: 52 }, context);
+
+    const signatureHeight = 34;
+    const neighbours = context.data.neighbours ?? [];
+    const neighbourLines = Math.min(Math.max(neighbours.length, 1), 8);
+    const neighbourHeight = 9 + neighbourLines * ROW;
+    const areaHeight = 27;
+
+    let y = panel.y;
+    CadastralPlan.drawSignature(page, { ...panel, y, height: signatureHeight }, context);
+    y += signatureHeight + 2;
+    CadastralPlan.drawNeighbours(page, { ...panel, y, height: neighbourHeight }, context, neighbourLines);
+    y += neighbourHeight + 2;
+    CadastralPlan.drawAreaBlock(page, { ...panel, y, height: areaHeight }, context);
+    y += areaHeight + 2;
+
+    return CadastralPlan.drawTable(page, { ...panel, y, height: titleBottom - 2 - y }, context, CadastralPlan.rows(context));
+  }
+
+  private static drawPortraitPanel(page: PdfPage, panel: Frame, context: PanelContext): PlanRow[] {
+    // Deux colonnes : cartouche, contenance et signature à gauche ; tableaux à droite
+    const half = (panel.width - 4) / 2;
+    const left = { ...panel, width: half };
+    const right = { ...panel, x: panel.x + half + 4, width: half };
+    const top = panel.y + panel.height;
+
+    CadastralPlan.drawTitleBlock(page, { ...left, y: top - 52, height: 52 }, context);
+    CadastralPlan.drawAreaBlock(page, { ...left, y: top - 81, height: 27 }, context);
+    CadastralPlan.drawSignature(page, { ...left, y: panel.y, height: top - 83 - panel.y }, context);
+
+    const neighbourLines = Math.min(Math.max((context.data.neighbours ?? []).length, 1), 6);
+    const neighbourHeight = 9 + neighbourLines * ROW;
+    CadastralPlan.drawNeighbours(page, { ...right, height: neighbourHeight }, context, neighbourLines);
+    const tableY = panel.y + neighbourHeight + 2;
+    return CadastralPlan.drawTable(page, { ...right, y: tableY, height: top - tableY }, context, CadastralPlan.rows(context));
+  }
+
+  private static drawTitleBlock(page: PdfPage, block: Frame, { data, options, scale }: PanelContext): number {
+    const { x, width } = block;
+    const top = block.y + block.height;
+    page.lineWidth(0.4).rect(block.x, block.y, block.width, block.height).stroke();
+    page.text(x + width / 2, top - 7, (options.title ?? 'Plan de bornage').toUpperCase(), { size: 12, font: 'bold', align: 'center' });
+    if (options.location) {
+      page.text(x + width / 2, top - 12, CadastralPlan.fit(options.location, width - 4, 8), { size: 8, align: 'center' });
+    }
+    page.lineWidth(0.2).polyline([[x, top - 15], [x + width, top - 15]]).stroke();
+
+    const lines: Array<[string, string]> = [
+      ['Parcelle', data.reference],
+      ['Propriétaire(s)', data.owners.join(', ') || '-'],
+      ['Titre(s)', data.titles?.join(', ') || '-'],
+      ['Dossier', options.dossier ?? '-'],
+      ['Date', options.date ?? new Date().toISOString().slice(0, 10)],
+      ['Échelle', `1/${scale}`],
+      ['Système', data.crs],
+    ];
+    lines.forEach(([label, value], i) => {
+      const y = top - 20 - i * 4.5;
+      page.text(x + 2, y, `${label} :`, { size: 7, font: 'bold' });
+      page.text(x + 26, y, CadastralPlan.fit(value, width - 28, 7), { size: 7 });
+    });
+    return block.y;
+  }
+
+  private static drawTable(page: PdfPage, block: Frame, context: PanelContext, rows: PlanRow[]): PlanRow[] {
+    const capacity = Math.floor((block.height - 9) / ROW);
+    const fits = rows.length <= capacity;
+    const shown = fits ? rows : rows.slice(0, Math.max(capacity - 1, 0));
+
+    page.lineWidth(0.4).rect(block.x, block.y, block.width, block.height).stroke();
+    const top = block.y + block.height;
+    page.text(block.x + 2, top - 4.5, 'Tableau des bornes et des côtés', { size: 8, font: 'bold' });
+    CadastralPlan.tableRows(page, block.x, top - 8.5, block.width, shown, context.options.angleUnit, true);
+
+    if (!fits) {
+      page.text(block.x + 2, top - 8.5 - (shown.length + 1) * ROW, `... suite en annexe (${rows.length - shown.length} lignes)`, {
+        size: 6,
+        color: GREY,
+      });
+    }
+    return rows.slice(shown.length);
+  }
+
+  /**
+   * Lignes du tableau : borne, coordonnées, puis côté vers la borne suivante
+   */
+  private static rows({ data, sides }: PanelContext): PlanRow[] {
+    return [data.markers, ...(data.holes ?? [])].flat().map((marker, i) => ({ marker, side: sides[i] }));
+  }
+
+  private static tableRows(page: PdfPage, x: number, top: number, width: number, rows: PlanRow[], unit: PlanOptions['angleUnit'], header: boolean): void {
+    // Colonnes proportionnelles : N°, X, Y, côté, distance, gisement
+    const shares = [0.1, 0.2, 0.22, 0.16, 0.13, 0.19];
+    const columns = shares.map((_, i) => x + 1 + width * shares.slice(0, i).reduce((sum, share) => sum + share, 0));
+    const cells = (row: PlanRow): string[] => [
+      row.marker.label,
+      row.marker.x.toFixed(2),
+      row.marker.y.toFixed(2),
+      `${row.side.from}-${row.side.to}`,
+      row.side.distance.toFixed(2),
+      CadastralPlan.formatAzimuth(row.side.azimuth, unit),
+    ];
+
+    let y = top;
+    if (header) {
+      ['N°', 'X (m)', 'Y (m)', 'Côté', 'Dist. (m)', 'Gisement'].forEach((title, i) =>
+        page.text(columns[i], y - 2.5, title, { size: 6, font: 'bold' }));
+      page.lineWidth(0.15).polyline([[x, y - 3.4], [x + width, y - 3.4]]).stroke();
+      y -= ROW;
+    }
+    rows.forEach(row => {
+      cells(row).forEach((value, i) => page.text(columns[i], y - 2.5, value, { size: 6 }));
+      y -= ROW;
+    });
+  }
+
+  private static drawAreaBlock(page: PdfPage, block: Frame, { data, area, perimeter }: PanelContext): void {
+    const { x } = block;
+    const top = block.y + block.height;
+    page.lineWidth(0.4).rect(block.x, block.y, block.width, block.height).stroke();
+    page.text(x + 2, top - 4.5, 'Calcul de la contenance', { size: 8, font: 'bold' });
+    page.text(x + 2, top - 9, 'S = 1/2 |Somme Xi (Yi+1 - Yi-1)|  (coordonnées des bornes)', { size: 6 });
+    page.text(x + 2, top - 13.5, `Contenance calculée : ${area.toFixed(2)} m²  (${CadastralPlan.formatArea(area)})`, { size: 7, font: 'bold' });
+    page.text(x + 2, top - 17.5, `Périmètre : ${perimeter.toFixed(2)} m`, { size: 7 });
+
+    if (data.declaredArea !== undefined) {
+      const difference = area - data.declaredArea;
+      const percent = data.declaredArea ? (difference / data.declaredArea) * 100 : 0;
+      const sign = difference >= 0 ? '+' : '-';
+      page.text(x + 2, top - 21.5, `Contenance du titre : ${data.declaredArea.toFixed(2)} m²  (${CadastralPlan.formatArea(data.declaredArea)})`, { size: 7 });
+      page.text(x + 2, top - 25.5, `Écart : ${sign}${Math.abs(difference).toFixed(2)} m²  (${sign}${Math.abs(percent).toFixed(2)} %)`, { size: 7 });
+    } else {
+      page.text(x + 2, top - 21.5, 'Contenance du titre : non renseignée', { size: 7, color: GREY });
+    }
+  }
+
+  private static drawNeighbours(page: PdfPage, block: Frame, { data }: PanelContext, lines: number): void {
+    const neighbours = data.neighbours ?? [];
+    const top = block.y + block.height;
+    page.lineWidth(0.4).rect(block.x, block.y, block.width, block.height).stroke();
+    page.text(block.x + 2, top - 4.5, 'Riverains', { size: 8, font: 'bold' });
+
+    if (!neighbours.length) {
+      page.text(block.x + 2, top - 8.5, 'Aucun riverain connu', { size: 7, color: GREY });
+      return;
+    }
+    const shown = neighbours.length > lines ? neighbours.slice(0, lines - 1) : neighbours;
+    shown.forEach((neighbour, i) => {
+      const y = top - 8.5 - i * ROW;
+      page.text(block.x + 2, y, neighbour.reference, { size: 7, font: 'bold' });
+      page.text(block.x + 20, y, CadastralPlan.fit(neighbour.owners.join(', ') || '-', block.width - 22, 7), { size: 7 });
+    });
+    if (shown.length < neighbours.length) {
+      page.text(block.x + 2, top - 8.5 - shown.length * ROW, `... et ${neighbours.length - shown.length} autres`, { size: 7, color: GREY });
+    }
+  }
+
+  private static drawSignature(page: PdfPage, block: Frame, { options }: PanelContext): void {
+    const surveyor = options.surveyor;
+    const top = block.y + block.height;
+    page.lineWidth(0.4).rect(block.x, block.y, block.width, block.height).stroke();
+    page.text(block.x + 2, top - 4.5, 'Dressé par le géomètre soussigné', { size: 8, font: 'bold' });
+
+    const lines = [
+      surveyor?.name ?? '',
+      surveyor?.licence ? `Inscrit à l'Ordre n° ${surveyor.licence}` : '',
+      surveyor?.company ?? '',
+      surveyor?.address ?? '',
+      `Fait le ${options.date ?? new Date().toISOString().slice(0, 10)}`,
+    ].filter(Boolean);
+    lines.forEach((line, i) =>
+      page.text(block.x + 2, top - 9 - i * 3.5, CadastralPlan.fit(line, block.width / 2 - 4, 7), { size: 7 }));
+
+    // Emplacement de la signature et du cachet
+    const boxX = block.x + block.width / 2 + 2;
+    page.lineWidth(0.2).dash([1, 1]).rect(boxX, block.y + 2, block.width / 2 - 4, block.height - 9).stroke().dash();
+    page.text(boxX + (block.width / 2 - 4) / 2, block.y + 4, 'Signature et cachet', { size: 6, align: 'center', color: GREY });
+  }
+
+  /**
+   * Pages d'annexe pour les lignes du tableau qui ne tiennent pas sur le plan
+   */
+  private static drawAnnex(pdf: PdfDocument, width: number, height: number, context: PanelContext, rows: PlanRow[]): void {
+    const perPage = Math.floor((height - 2 * MARGIN - 14) / ROW);
+    for (let start = 0; start < rows.length; start += perPage) {
+      const page = pdf.addPage(width, height);
+      const top = height - MARGIN;
+      page.text(MARGIN, top - 5, `Annexe - tableau des bornes et des côtés (suite) - ${context.data.reference}`, {
+        size: 10,
+        font: 'bold',
+      });
+      CadastralPlan.tableRows(page, MARGIN, top - 10, Math.min(width - 2 * MARGIN, 180), rows.slice(start, start + perPage), context.options.angleUnit, true);
+    }
+  }
+
+  // Géométrie
+
+  private static clockwise<T extends { x: number; y: number }>(ring: T[]): T[] {
+    const signed = ring.reduce((sum, point, i) => {
+      const next = ring[(i + 1) % ring.length];
+      return sum + point.x * next.y - next.x * point.y;
+    }, 0);
+    const ordered = signed > 0 ? [...ring].reverse() : [...ring];
+    // Numérotation depuis la borne la plus au nord-ouest
+    const start = ordered.reduce((best, point, i) => (point.y - point.x > ordered[best].y - ordered[best].x ? i : best), 0);
+    return [...ordered.slice(start), ...ordered.slice(0, start)];
+  }
+
+  /**
+   * +1 si l'intérieur de la parcelle est à gauche des côtés de l'anneau, −1 sinon
+   */
+  private static interiorSign(ring: Point[], hole: boolean): number {
+    const signed = ring.reduce((sum, [x, y], i) => {
+      const [nx, ny] = ring[(i + 1) % ring.length];
+      return sum + x * ny - nx * y;
+    }, 0);
+    return (signed > 0) !== hole ? 1 : -1;
+  }
+
+  /**
+   * Normale unitaire au segment, à gauche (side = 1) ou à droite (side = −1)
+   */
+  private static normal([x1, y1]: Point, [x2, y2]: Point, side: number): Point {
+    const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+    return [(-(y2 - y1) / length) * side, ((x2 - x1) / length) * side];
+  }
+
+  private static centroid(ring: Point[]): Point {
+    let area = 0;
+    let cx = 0;
+    let cy = 0;
+    ring.forEach(([x, y], i) => {
+      const [nx, ny] = ring[(i + 1) % ring.length];
+      const cross = x * ny - nx * y;
+      area += cross;
+      cx += (x + nx) * cross;
+      cy += (y + ny) * cross;
+    });
+    if (Math.abs(area) < 1e-9) {
+      return [ring.reduce((sum, [x]) => sum + x, 0) / ring.length, ring.reduce((sum, [, y]) => sum + y, 0) / ring.length];
+    }
+    return [cx / (3 * area), cy / (3 * area)];
+  }
+
+  /**
+   * Deux anneaux se touchent si un sommet de l'un est sur une limite de l'autre
+   */
+  private static touches(a: Point[], b: Point[], tolerance: number): boolean {
+    const onBoundary = (point: Point, ring: Point[]) => ring.some((start, i) => {
+      const end = ring[(i + 1) % ring.length];
+      const dx = end[0] - start[0];
+      const dy = end[1] - start[1];
+      const t = Math.max(0, Math.min(1, ((point[0] - start[0]) * dx + (point[1] - start[1]) * dy) / (dx * dx + dy * dy || 1)));
+      return Math.hypot(start[0] + t * dx - point[0], start[1] + t * dy - point[1]) <= tolerance;
+    });
+    return a.some(point => onBoundary(point, b)) || b.some(point => onBoundary(point, a));
+  }
+
+  private static symbolFor(kind: PlanMarker['kind'] = 'borne'): SymbolDefinition {
+    const symbol = Object.values(symbolLibrary).find(candidate =>
+      candidate.type === 'svg' && (candidate.metadata?.kinds as string[] | undefined)?.includes(kind));
+    return symbol ?? symbolLibrary.boundary_marker;
+  }
+
+  /**
+   * Tronque un texte à la largeur disponible (mm)
+   */
+  private static fit(text: string, width: number, size: number): string {
+    if (PdfDocument.textWidth(text, size) <= width) return text;
+    let end = text.length;
+    while (end > 0 && PdfDocument.textWidth(`${text.slice(0, end)}...`, size) > width) end--;
+    return `${text.slice(0, end)}...`;
+  }
+
+  private static names(value: unknown): string[] {
+    if (Array.isArray(value)) return value.map(item => (typeof item === 'string' ? item : String(item?.name ?? item?.number ?? item)));
+    if (typeof value === 'string' && value) return value.split(/;\s*/);
+    return [];
+  }
+}
+
+type Frame = { x: number; y: number; width: number; height: number };
+type PlanRow = { marker: PlanMarker; side: PlanSide };
+type PanelContext = {
+  data: PlanData;
+  options: PlanOptions;
+  scale: number;
+  area: number;
+  perimeter: number;
+  sides: PlanSide[];
+};
+
+export { CadastralPlan };
+export type { PlanData, PlanMarker, PlanNeighbour, PlanOptions, PlanSide, SurveyorInfo, CadastralPlanResult };
@@ -1,5 +1,4 @@
-import * as JSZip from 'jszip';
-import * as shpwrite from 'shp-write';
+import JSZip from 'jszip';
 import { versionTracker } from '../api/VersionTracker';
 import { CorrectionVisualizer } from '../visualization/CorrectionVisualizer';
 import * as dbf from 'dbf';
@@ -7,7 +6,20 @@ import * as proj4 from 'proj4';
 import * as toGeoJSON from 'togeojson';
 import * as kmlParser from 'kml-parser';
 import * as gpxParser from 'gpx-parse';
-import { CADBridge } from '../cad/CADBridge';
+import { CADBridge, type TransformationReport } from '../cad/CADBridge';
+import type { CadStandardProfile, CadStandardReport } from '../cad/CadStandard';
+import { CoordinateSystemManager } from '../sensors/CoordinateSystemManager';
+import { SiteCalibration } from '../sensors/SiteCalibration';
+import { ELLIPSOIDAL } from '../sensors/GeoidModel';
+import type { CalibrationProfile } from '../sensors/CalibrationProtocol';
+import { Cogo, type CogoFeature } from '../survey/Cogo';
+import type { GlobalTest, NetworkAdjustmentResult } from '../survey/NetworkAdjustment';
+import type { ParcelTopology } from '../cadastre/ParcelTopology';
+import { CadastralPlan, type CadastralPlanResult, type PlanOptions } from './CadastralPlan';
+import { GeoPackage, type GeoPackageReadTileSet, type GeoPackageTileSet } from './GeoPackage';
+import { Shapefile, type ShapefileReport } from './Shapefile';
+import { Kml, type KmlGroundOverlay } from './Kml';
+import { mapTileManager } from '../map/MapTileManager';
 import { v4 as uuidv4 } from 'uuid';
 
 // Extend GeoJSON types to include id
@@ -23,7 +35,7 @@ declare module 'geojson' {
 /**
  * Types d'export supportés
  */
-type ExportFormat = 'GeoJSON' | 'KML' | 'GPX' | 'Shapefile' | 'DWG' | 'DXF' | 'CSV' | 'PDF';
+type ExportFormat = 'GeoJSON' | 'KML' | 'GPX' | 'Shapefile' | 'DWG' | 'DXF' | 'CSV' | 'PDF' | 'GeoPackage';
 type GeometryType = 'Point' | 'LineString' | 'Polygon' | 'MultiPoint' | 'MultiLineString' | 'MultiPolygon' | 'GeometryCollection';
 
 /**
@@ -39,6 +51,8 @@ interface CADExportOptions {
   comments?: string;
   scale?: number;
   flipY?: boolean;
+  standard?: CadStandardProfile | string; // Norme de dessin (profil ou JSON), à défaut celle de CADBridge
+  drawingScale?: number; // Dénominateur d'échelle pour les hauteurs de texte et les symboles
 }
 
 /**
@@ -56,13 +70,75 @@ interface ExportOptions {
   style?: {
     [key: string]: any;
   };
-  coordinateSystem?: 'WGS84' | 'Lambert93' | 'UTM' | 'WebMercator';
+  coordinateSystem?: 'WGS84' | 'Lambert93' | 'UTM' | 'WebMercator' | `EPSG:${number}`;
+  calibrationProfile?: CalibrationProfile; // Calage de chantier : export dans la grille locale (GeoJSON, Shapefile, GeoPackage, DWG/DXF)
+  verticalDatum?: string; // Référence altimétrique (ex: 'EGM2008', 'NGF-IGN69'), ellipsoïdale par défaut
   precision?: number;
   simplifyTolerance?: number;
   scale?: number;
   cadOptions?: CADExportOptions;
+  plan?: PlanOptions & { reference?: string }; // Plan de bornage PDF : parcelle à tracer et cartouche
+  geoPackage?: GeoPackageExportOptions;
+  shapefile?: { name?: string }; // Nom des fichiers de la couche, suffixé par type de géométrie
 }
 
+/**
+ * Options d'export GeoPackage
+ */
+interface GeoPackageExportOptions {
+  layerProperty?: string; // Propriété répartissant les objets en tables, 'layer' par défaut
+  tiles?: GeoPackageTileSet[]; // Mosaïques de tuiles Web Mercator à embarquer
+}
+
+/**
+ * Objets importés, avec la couche d'origine dans la propriété 'layer'
+ */
+interface ImportResult {
+  features: GeoJSON.Feature[];
+  layers: Array<{ name: string; crs: string; geometryType: string; featureCount: number }>;
+}
+
+/**
+ * Contenu d'un GeoPackage importé, reprojeté en WGS84
+ */
+interface GeoPackageImport extends ImportResult {
+  tileSets: GeoPackageReadTileSet[];
+}
+
+/**
+ * Options d'import Shapefile
+ */
+interface ShapefileImportOptions {
+  coordinateSystem?: ExportOptions['coordinateSystem']; // Système du projet, WGS84 par défaut
+  sourceCrs?: string; // Système des couches sans .prj reconnu
+}
+
+/**
+ * Contenu d'un fichier KML ou KMZ importé ; les dossiers sont des couches
+ */
+interface KmlImport extends ImportResult {
+  name?: string;
+  overlays: Array<KmlGroundOverlay & { sourceId?: string }>; // Source raster enregistrée dans MapTileManager
+}
+
+// Types MIME des images de superposition
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff'
+};
+
+// Formats écrits dans la grille locale d'un calage de chantier : KML, GPX et
+// CSV restent en WGS84, le plan PDF dans sa projection conforme
+const CALIBRATED_FORMATS: ExportFormat[] = ['GeoJSON', 'Shapefile', 'GeoPackage', 'DWG', 'DXF'];
+
+// Fichier d'une archive ZIP (JSZip)
+type ZipEntry = { name: string; async(type: 'uint8array'): Promise<Uint8Array>; async(type: 'string'): Promise<string> };
+
 /**
  * Résultat d'export
  */
@@ -76,7 +152,27 @@ interface ExportResult {
     featureCount: number;
     exportedAt: string;
     coordinateSystem: string;
+    verticalDatum?: string;
     bbox?: [number, number, number, number];
+    transformation?: TransformationReport;
+    adjustment?: {
+      crs: string;
+      iterations: number;
+      observationCount: number;
+      globalTest: GlobalTest | null;
+      dataSnooping: NetworkAdjustmentResult['dataSnooping'];
+      flagged: number[]; // Index des observations rejetées par le test de Baarda
+    };
+    standard?: CadStandardReport; // Conformité à la norme de dessin des exports CAO
+    shapefile?: ShapefileReport; // Schéma DBF, champs renommés et valeurs tronquées
+    plan?: {
+      reference: string;
+      crs: string;
+      scale: number;
+      area: number;
+      perimeter: number;
+      pages: number;
+    };
   };
 }
 
@@ -110,8 +206,17 @@ export class ExportManager {
     const cached = this.exportCache.get(cacheKey);
     if (cached) return cached;
 
-    // Préparer les données
-    const preparedFeatures = this.prepareFeatures(features, options);
+    // Refusé pour tous les formats, avant toute conversion des altitudes
+    this.checkVerticalDatum(options.calibrationProfile, options.verticalDatum);
+    if (options.calibrationProfile && !CALIBRATED_FORMATS.includes(options.format)) {
+      throw new Error(`Le format ${options.format} ne peut pas être exporté dans la grille du calage ${options.calibrationProfile.name}`);
+    }
+    
+    // Préparer les données ; hors GeoJSON (reprojeté plus loin), seules les altitudes changent de référence
+    let preparedFeatures = this.prepareFeatures(features, options);
+    if (options.verticalDatum && options.format !== 'GeoJSON') {
+      preparedFeatures = this.transformCoordinates(preparedFeatures, 'WGS84', undefined, options.verticalDatum).features;
+    }
     
     // Exporter dans le format demandé
     let result: ExportResult;
@@ -146,6 +251,10 @@ export class ExportManager {
         result = await this.exportPDF(preparedFeatures, options);
         break;
         
+      case 'GeoPackage':
+        result = await this.exportGeoPackage(preparedFeatures, options);
+        break;
+        
       default:
         throw new Error(`Format d'export non supporté: ${options.format}`);
     }
@@ -214,15 +323,276 @@ export class ExportManager {
     }
   }
 
+  /**
+   * Exporte le résultat d'une compensation de réseau : points compensés avec
+   * leurs ellipses d'erreur, observations avec résidus et test de Baarda.
+   * Les coordonnées sont dans la projection `epsg` du calcul.
+   */
+  async exportAdjustment(
+    adjustment: NetworkAdjustmentResult,
+    epsg: string,
+    options: ExportOptions
+  ): Promise<ExportResult> {
+    const positions = new Map(adjustment.points.map(point => [point.id, point]));
+
+    const points: CogoFeature[] = adjustment.points.map(point => ({
+      geometry: 'Point',
+      points: [point],
+      properties: {
+        name: point.id,
+        computation: 'adjustment-point',
+        fixed: point.fixed,
+        x: point.x,
+        y: point.y,
+        ...(point.z !== undefined && { z: point.z }),
+        ...(point.sigmaX !== undefined && { sigmaX: point.sigmaX, sigmaY: point.sigmaY }),
+        ...(point.sigmaZ !== undefined && { sigmaZ: point.sigmaZ }),
+        ...(point.ellipse && {
+          ellipseMajor: point.ellipse.semiMajor,
+          ellipseMinor: point.ellipse.semiMinor,
+          ellipseAzimuth: point.ellipse.azimuth,
+          ellipseMajor95: point.ellipse.semiMajor95,
+          ellipseMinor95: point.ellipse.semiMinor95,
+        }),
+      },
+    }));
+
+    const observations: CogoFeature[] = adjustment.observations.map(observation => ({
+      geometry: 'LineString',
+      // Un angle est tracé de la visée arrière à la visée avant en passant par la station
+      points: (observation.at ? [observation.from, observation.at, observation.to] : [observation.from, observation.to])
+        .map(id => positions.get(id)!),
+      properties: {
+        computation: 'adjustment-observation',
+        observation: observation.index,
+        type: observation.component ? `${observation.type}-${observation.component}` : observation.type,
+        from: observation.from,
+        to: observation.to,
+        ...(observation.at && { at: observation.at }),
+        observed: observation.observed,
+        adjusted: observation.adjusted,
+        residual: observation.residual,
+        unit: observation.unit,
+        redundancy: observation.redundancy,
+        standardized: observation.standardized,
+        mdb: observation.mdb,
+        flagged: observation.flagged,
+      },
+    }));
+
+    const features: GeoJSON.Feature[] = [...points, ...observations].map(feature => ({
+      type: 'Feature',
+      geometry: Cogo.toGeometry(feature, epsg),
+      properties: feature.properties ?? {},
+    }));
+
+    const result = await this.export(features, options);
+    const { globalTest, dataSnooping, iterations } = adjustment;
+    return {
+      ...result,
+      metadata: {
+        ...result.metadata,
+        adjustment: {
+          crs: epsg,
+          iterations,
+          observationCount: adjustment.observations.length,
+          globalTest,
+          dataSnooping,
+          flagged: adjustment.observations.filter(observation => observation.flagged).map(observation => observation.index),
+        },
+      },
+    };
+  }
+
+  /**
+   * Plan de bornage PDF d'une parcelle de la topologie cadastrale, dessiné
+   * dans la projection de la topologie avec ses riverains
+   */
+  async exportParcelPlan(
+    topology: ParcelTopology,
+    parcelId: string,
+    options: Omit<ExportOptions, 'format'> = {}
+  ): Promise<ExportResult> {
+    const data = CadastralPlan.fromTopology(topology, parcelId);
+    const plan = CadastralPlan.generate(data, options.plan);
+    const exportOptions: ExportOptions = { ...options, format: 'PDF' };
+
+    return this.planResult(plan, data.reference, topology.epsg, [topology.toFeature(parcelId)], exportOptions);
+  }
+
+  /**
+   * Importe toutes les tables d'entités d'un GeoPackage ; la table d'origine
+   * est conservée dans la propriété 'layer'
+   */
+  async importGeoPackage(data: ArrayBuffer | Uint8Array): Promise<GeoPackageImport> {
+    const { layers, tileSets } = await GeoPackage.read(data);
+    const features: GeoJSON.Feature[] = [];
+    
+    layers.forEach(layer => {
+      // Grille locale sans définition : coordonnées conservées telles quelles
+      if (layer.crs === 'LOCAL') {
+        console.warn(`Table ${layer.name} sans système de coordonnées, coordonnées non reprojetées`);
+      }
+      this.reprojectFeatures(layer.features, layer.crs === 'LOCAL' ? undefined : layer.crs, 'EPSG:4326')
+        .forEach(feature => features.push({ ...feature, properties: { ...feature.properties, layer: layer.name } }));
+    });
+    
+    return {
+      features,
+      layers: layers.map(layer => ({
+        name: layer.name,
+        crs: layer.crs,
+        geometryType: layer.geometryType,
+        featureCount: layer.features.length
+      })),
+      tileSets
+    };
+  }
+
+  /**
+   * Importe les couches d'une archive Shapefile (.zip) et les reprojette
+   * dans le système du projet d'après leur fichier .prj
+   */
+  async importShapefile(
+    data: ArrayBuffer | Uint8Array,
+    options: ShapefileImportOptions = {}
+  ): Promise<ImportResult> {
+    const zip = await JSZip.loadAsync(data);
+    const entries: ZipEntry[] = zip.file(/\.shp$/i);
+    if (!entries.length) {
+      throw new Error('Archive Shapefile sans fichier .shp');
+    }
+    
+    const features: GeoJSON.Feature[] = [];
+    const layers: ImportResult['layers'] = [];
+    for (const entry of entries) {
+      const base = entry.name.slice(0, -4);
+      const sibling = (extension: string): ZipEntry | undefined => zip.file(
+        new RegExp(`^${base.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\.${extension}$`, 'i')
+      )[0];
+      const [dbf, prj, cpg] = ['dbf', 'prj', 'cpg'].map(sibling);
+      const layer = Shapefile.read({
+        shp: await entry.async('uint8array'),
+        dbf: dbf && await dbf.async('uint8array'),
+        prj: prj && await prj.async('string'),
+        cpg: cpg && await cpg.async('string')
+      }, base.split('/').pop());
+      
+      const source = layer.crs ?? options.sourceCrs;
+      if (!source) {
+        console.warn(`Couche ${layer.name} sans système de coordonnées reconnu, coordonnées non reprojetées`);
+      }
+      const wgs84 = this.reprojectFeatures(layer.features, source, 'EPSG:4326');
+      const target = source ? this.resolveCrs(options.coordinateSystem ?? 'WGS84', wgs84) : 'LOCAL';
+      const projected = !source || target === source
+        ? layer.features
+        : this.transformCoordinates(wgs84, target).features;
+      
+      projected.forEach(feature => features.push({ ...feature, properties: { ...feature.properties, layer: layer.name } }));
+      layers.push({
+        name: layer.name,
+        crs: target,
+        geometryType: layer.geometry ?? `shape ${layer.shapeType}`,
+        featureCount: layer.features.length
+      });
+    }
+    
+    return { features, layers };
+  }
+
+  /**
+   * Importe un fichier KML ou une archive KMZ ; les images des superpositions
+   * au sol contenues dans le KMZ sont enregistrées comme sources raster locales
+   */
+  async importKML(data: string | ArrayBuffer | Uint8Array): Promise<KmlImport> {
+    const bytes = typeof data === 'string' ? undefined : data instanceof Uint8Array ? data : new Uint8Array(data);
+    const zip = bytes && bytes[0] === 0x50 && bytes[1] === 0x4b ? await JSZip.loadAsync(bytes) : undefined;
+    
+    // Document principal du KMZ : doc.kml, sinon le premier fichier .kml
+    let text: string;
+    let root = '';
+    if (zip) {
+      const documents: ZipEntry[] = zip.file(/\.kml$/i);
+      const main = documents.find(entry => entry.name.toLowerCase() === 'doc.kml') ?? documents[0];
+      if (!main) {
+        throw new Error('Archive KMZ sans document KML');
+      }
+      text = await main.async('string');
+      root = main.name.slice(0, main.name.lastIndexOf('/') + 1);
+    } else {
+      text = typeof data === 'string' ? data : new TextDecoder().decode(bytes);
+    }
+    
+    const document = Kml.parse(text);
+    const overlays: KmlImport['overlays'] = [];
+    for (const overlay of document.overlays) {
+      if (/^[a-z][a-z0-9+.-]*:/i.test(overlay.href) || !zip) {
+        console.warn(`Image de la superposition ${overlay.name} hors de l'archive, non disponible hors ligne: ${overlay.href}`);
+        overlays.push(overlay);
+        continue;
+      }
+      
+      // Chemin de l'image relatif au document
+      const path = `${root}${overlay.href}`.split('/').reduce<string[]>((segments, segment) => {
+        if (segment === '..') segments.pop();
+        else if (segment && segment !== '.') segments.push(segment);
+        return segments;
+      }, []).join('/');
+      const entry: ZipEntry | null = zip.file(path);
+      if (!entry) {
+        console.warn(`Image ${overlay.href} introuvable dans l'archive KMZ`);
+        overlays.push(overlay);
+        continue;
+      }
+      
+      const image = await entry.async('uint8array');
+      const raster = await mapTileManager.registerRasterSource({
+        id: `kml-${uuidv4()}`,
+        name: overlay.name,
+        data: image.buffer.slice(image.byteOffset, image.byteOffset + image.byteLength) as ArrayBuffer,
+        mimeType: IMAGE_TYPES[path.split('.').pop()!.toLowerCase()] ?? 'application/octet-stream',
+        bounds: overlay.bounds,
+        rotation: overlay.rotation,
+        ...(overlay.corners && { corners: overlay.corners }),
+        opacity: overlay.opacity,
+        metadata: { layer: overlay.layer, drawOrder: overlay.drawOrder, href: overlay.href }
+      });
+      overlays.push({ ...overlay, sourceId: raster.id });
+    }
+    
+    return {
+      ...(document.name && { name: document.name }),
+      features: document.features,
+      layers: document.layers.map(layer => {
+        const types = new Set(document.features
+          .filter(feature => feature.properties?.layer === layer.name && feature.geometry)
+          .map(feature => feature.geometry!.type));
+        return {
+          name: layer.name,
+          crs: 'EPSG:4326',
+          geometryType: types.size === 1 ? Array.from(types)[0] : 'Geometry',
+          featureCount: layer.featureCount
+        };
+      }),
+      overlays
+    };
+  }
+
   // Méthodes d'export spécifiques au format
-  
+
   private async exportGeoJSON(
     features: GeoJSON.Feature[],
     options: ExportOptions
   ): Promise<ExportResult> {
+    const { features: transformed, transformation } = this.transformCoordinates(
+      features,
+      options.coordinateSystem,
+      options.calibrationProfile,
+      options.verticalDatum
+    );
     const geojson: GeoJSON.FeatureCollection = {
       type: 'FeatureCollection',
-      features: this.transformCoordinates(features, options.coordinateSystem)
+      features: transformed
     };
     
     const content = JSON.stringify(geojson, null, 2);
@@ -233,7 +603,11 @@ export class ExportManager {
       filename: this.generateFilename('geojson', options),
       size: new TextEncoder().encode(content).length,
       mimeType: 'application/geo+json',
-      metadata: this.generateMetadata(features, options)
+      metadata: {
+        ...this.generateMetadata(transformed, options),
+        ...(transformation && { coordinateSystem: transformation.targetCRS }),
+        transformation
+      }
     };
   }
   
@@ -275,15 +649,30 @@ export class ExportManager {
     features: GeoJSON.Feature[],
     options: ExportOptions
   ): Promise<ExportResult> {
-    // Créer un shapefile avec shp-write
+    // Coordonnées dans le système cible, décrit par le fichier .prj
+    const { features: transformed, transformation } = this.transformCoordinates(
+      features,
+      options.coordinateSystem,
+      options.calibrationProfile
+    );
+    const crs = transformation?.targetCRS ?? 'EPSG:4326';
+    const { layers, report } = Shapefile.write(options.shapefile?.name ?? 'export', transformed, crs);
+    
+    // Une couche par type de géométrie dans l'archive
     const zip = new JSZip();
-    const shpData = shpwrite.zip({
-      type: 'FeatureCollection',
-      features: this.transformCoordinates(features, 'WGS84') // Shapefile utilise WGS84
+    layers.forEach(layer => {
+      zip.file(`${layer.name}.shp`, layer.shp);
+      zip.file(`${layer.name}.shx`, layer.shx);
+      zip.file(`${layer.name}.dbf`, layer.dbf);
+      zip.file(`${layer.name}.cpg`, layer.cpg);
+      if (layer.prj) zip.file(`${layer.name}.prj`, layer.prj);
     });
+    if (Object.keys(report.renamed).length) {
+      console.warn(`Champs renommés pour le DBF: ${Object.entries(report.renamed).map(([property, field]) => `${property} -> ${field}`).join(', ')}`);
+    }
     
     // Convertir en ArrayBuffer pour le téléchargement
-    const content = await shpData.generateAsync({ type: 'arraybuffer' });
+    const content: ArrayBuffer = await zip.generateAsync({ type: 'arraybuffer' });
     
     return {
       format: 'Shapefile',
@@ -291,7 +680,12 @@ export class ExportManager {
       filename: this.generateFilename('zip', options),
       size: content.byteLength,
       mimeType: 'application/zip',
-      metadata: this.generateMetadata(features, options)
+      metadata: {
+        ...this.generateMetadata(transformed, options),
+        coordinateSystem: crs,
+        transformation,
+        shapefile: report
+      }
     };
   }
   
@@ -299,17 +693,81 @@ export class ExportManager {
     features: GeoJSON.Feature[],
     options: ExportOptions
   ): Promise<ExportResult> {
-    // Intégration avec une API ou un service de conversion
-    // Ceci est un exemple simplifié
-    const cadData = await this.convertToCAD(features, options.format as 'DWG' | 'DXF');
+    // Norme demandée pour cet export seulement : celle de la session est rétablie ensuite
+    const cadBridge = CADBridge.getInstance();
+    const sessionStandard = cadBridge.getStandard();
+    let cadData: ArrayBuffer;
+    let transformation: TransformationReport;
+    let standard: CadStandardReport;
+    try {
+      if (options.cadOptions?.standard) {
+        cadBridge.setStandard(options.cadOptions.standard);
+      }
+      ({ content: cadData, transformation } = await this.convertToCAD(features, options.format as 'DWG' | 'DXF', options));
+      
+      // Objets hors norme, exportés sur leur calque d'origine
+      standard = cadBridge.validateFeatures(features);
+    } finally {
+      if (options.cadOptions?.standard) {
+        cadBridge.setStandard(sessionStandard);
+      }
+    }
+    if (standard.unmatched.length) {
+      console.warn(`${standard.unmatched.length} objet(s) hors de la norme '${standard.profile}'`);
+    }
     
+    // Le DWG binaire n'est pas écrit : les deux formats produisent un fichier DXF
     return {
       format: options.format,
       content: cadData,
-      filename: this.generateFilename(options.format.toLowerCase() as string, options),
-      size: cadData.byteLength || cadData.length,
-      mimeType: options.format === 'DWG' ? 'application/acad' : 'application/dxf',
-      metadata: this.generateMetadata(features, options)
+      filename: this.generateFilename('dxf', options),
+      size: cadData.byteLength,
+      mimeType: 'application/dxf',
+      metadata: {
+        ...this.generateMetadata(features, options),
+        coordinateSystem: transformation.targetCRS,
+        transformation,
+        standard
+      }
+    };
+  }
+  
+  private async exportGeoPackage(
+    features: GeoJSON.Feature[],
+    options: ExportOptions
+  ): Promise<ExportResult> {
+    const { features: transformed, transformation } = this.transformCoordinates(
+      features,
+      options.coordinateSystem,
+      options.calibrationProfile
+    );
+    const crs = transformation?.targetCRS ?? 'EPSG:4326';
+    
+    // Une table par couche, dans l'ordre d'apparition
+    const layerProperty = options.geoPackage?.layerProperty ?? 'layer';
+    const tables = new Map<string, GeoJSON.Feature[]>();
+    transformed.forEach(feature => {
+      const name = String(feature.properties?.[layerProperty] ?? 'features');
+      if (!tables.has(name)) tables.set(name, []);
+      tables.get(name)!.push(feature);
+    });
+    
+    const file = await GeoPackage.write(
+      Array.from(tables, ([name, layerFeatures]) => ({ name, features: layerFeatures, crs })),
+      options.geoPackage?.tiles
+    );
+    
+    return {
+      format: 'GeoPackage',
+      content: file.buffer as ArrayBuffer,
+      filename: this.generateFilename('gpkg', options),
+      size: file.byteLength,
+      mimeType: 'application/geopackage+sqlite3',
+      metadata: {
+        ...this.generateMetadata(transformed, options),
+        coordinateSystem: crs,
+        transformation
+      }
     };
   }
   
@@ -334,17 +792,36 @@ export class ExportManager {
     features: GeoJSON.Feature[],
     options: ExportOptions
   ): Promise<ExportResult> {
-    // Générer un PDF avec une carte et une légende
-    // Ceci est un exemple simplifié
-    const pdfData = await this.generatePDF(features, options);
-    
+    // Plan de bornage de la parcelle, dans la projection d'export (UTM si géographique)
+    const { plan, reference, crs } = await this.generatePDF(features, options);
+    return this.planResult(plan, reference, crs, features, options);
+  }
+
+  private planResult(
+    plan: CadastralPlanResult,
+    reference: string,
+    crs: string,
+    features: GeoJSON.Feature[],
+    options: ExportOptions
+  ): ExportResult {
     return {
       format: 'PDF',
-      content: pdfData,
+      content: plan.pdf.buffer as ArrayBuffer,
       filename: this.generateFilename('pdf', options),
-      size: pdfData.byteLength || pdfData.length,
+      size: plan.pdf.byteLength,
       mimeType: 'application/pdf',
-      metadata: this.generateMetadata(features, options)
+      metadata: {
+        ...this.generateMetadata(features, options),
+        coordinateSystem: crs,
+        plan: {
+          reference,
+          crs,
+          scale: plan.scale,
+          area: plan.area,
+          perimeter: plan.perimeter,
+          pages: plan.pages,
+        },
+      },
     };
   }
 
@@ -392,26 +869,143 @@ export class ExportManager {
     return filtered;
   }
   
+  /**
+   * Reprojette les features (supposées en WGS84, hauteurs ellipsoïdales) vers
+   * le système demandé, en appliquant les transformations de datum du registre
+   * et le géoïde de la référence altimétrique, ou vers la grille locale d'un
+   * profil de calage de chantier
+   */
   private transformCoordinates(
     features: GeoJSON.Feature[],
-    targetCrs: string = 'WGS84'
-  ): GeoJSON.Feature[] {
-    if (!targetCrs || targetCrs === 'WGS84') {
-      return features; // Pas de transformation nécessaire
+    targetCrs: string = 'WGS84',
+    calibration?: CalibrationProfile,
+    verticalDatum: string = ELLIPSOIDAL
+  ): { features: GeoJSON.Feature[]; transformation?: TransformationReport } {
+    const site = calibration?.siteCalibration;
+    if (calibration && !site) {
+      throw new Error(`Le profil ${calibration.name} ne contient pas de calage de chantier`);
     }
+    this.checkVerticalDatum(calibration, verticalDatum);
     
-    // Implémenter la transformation de coordonnées avec proj4
-    // Ceci est un exemple simplifié
-    return features.map(feature => {
-      if (!feature.geometry) return feature;
-      
-      const transformed = JSON.parse(JSON.stringify(feature));
+    const target = site ? `LOCAL:${calibration!.name}` : this.resolveCrs(targetCrs, features);
+    if (target === 'EPSG:4326' && verticalDatum === ELLIPSOIDAL) {
+      return { features }; // Pas de transformation nécessaire
+    }
+    
+    const transformation: TransformationReport = {
+      sourceCRS: 'EPSG:4326',
+      targetCRS: target,
+      accuracy: site ? site.rms.horizontal : 0,
+      steps: site
+        ? [`Calage ${calibration!.name} (${site.model}, ${site.pointCount} points)`]
+        : verticalDatum !== ELLIPSOIDAL ? [`Altitudes ${verticalDatum}`] : [],
+      failed: 0
+    };
+    
+    type Positions = GeoJSON.Position | Positions[];
+    const transformPositions = (coords: Positions): Positions => {
+      if (typeof coords[0] !== 'number') {
+        return (coords as Positions[]).map(transformPositions);
+      }
       
-      // Appliquer la transformation aux coordonnées
-      // Note: Implémentation simplifiée, à compléter avec proj4
+      const [x, y, z] = coords as GeoJSON.Position;
+      if (site) {
+        const local = SiteCalibration.toLocal(site, { lat: y, lon: x, alt: z });
+        return local.elevation !== undefined
+          ? [local.easting, local.northing, local.elevation, ...(coords as GeoJSON.Position).slice(3)]
+          : [local.easting, local.northing];
+      }
       
-      return transformed;
-    });
+      const result = CoordinateSystemManager.transform(x, y, 'EPSG:4326', target, z, {
+        targetVerticalDatum: verticalDatum
+      });
+      transformation.accuracy = Math.max(transformation.accuracy, result.accuracy);
+      result.steps
+        .filter(step => !transformation.steps.includes(step.name))
+        .forEach(step => transformation.steps.push(step.name));
+      return coords.length > 2
+        ? [result.x, result.y, result.z!, ...(coords as GeoJSON.Position).slice(3)]
+        : [result.x, result.y];
+    };
+    
+    const transformGeometry = (geometry: GeoJSON.Geometry): GeoJSON.Geometry => {
+      if (geometry.type === 'GeometryCollection') {
+        return { ...geometry, geometries: geometry.geometries.map(transformGeometry) };
+      }
+      return { ...geometry, coordinates: transformPositions(geometry.coordinates) } as GeoJSON.Geometry;
+    };
+    
+    try {
+      return {
+        features: features.map(feature => feature.geometry
+          ? { ...feature, geometry: transformGeometry(feature.geometry) }
+          : feature
+        ),
+        transformation
+      };
+    } catch (error) {
+      throw new Error(`Transformation vers ${target} impossible: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  
+  /**
+   * Un calage de chantier fixe ses altitudes locales : pas de référence altimétrique en plus
+   */
+  private checkVerticalDatum(calibration: CalibrationProfile | undefined, verticalDatum: string | undefined): void {
+    if (calibration?.siteCalibration && verticalDatum && verticalDatum !== ELLIPSOIDAL) {
+      throw new Error(`Le calage ${calibration.name} définit déjà les altitudes locales`);
+    }
+  }
+  
+  /**
+   * Reprojette des objets importés ; sans système source, les coordonnées sont conservées
+   */
+  private reprojectFeatures(features: GeoJSON.Feature[], sourceCrs: string | undefined, targetCrs: string): GeoJSON.Feature[] {
+    if (!sourceCrs || sourceCrs === targetCrs) return features;
+    
+    type Positions = GeoJSON.Position | Positions[];
+    const transformPositions = (coords: Positions): Positions => {
+      if (typeof coords[0] !== 'number') {
+        return (coords as Positions[]).map(transformPositions);
+      }
+      const [x, y, z] = coords as GeoJSON.Position;
+      const result = CoordinateSystemManager.transform(x, y, sourceCrs, targetCrs, z);
+      return coords.length > 2 ? [result.x, result.y, result.z!] : [result.x, result.y];
+    };
+    const transformGeometry = (geometry: GeoJSON.Geometry): GeoJSON.Geometry => geometry.type === 'GeometryCollection'
+      ? { ...geometry, geometries: geometry.geometries.map(transformGeometry) }
+      : { ...geometry, coordinates: transformPositions(geometry.coordinates) } as GeoJSON.Geometry;
+    
+    return features.map(feature => feature.geometry
+      ? { ...feature, geometry: transformGeometry(feature.geometry) }
+      : feature
+    );
+  }
+  
+  /**
+   * Code EPSG correspondant au système de coordonnées d'export
+   */
+  private resolveCrs(coordinateSystem: string, features: GeoJSON.Feature[]): string {
+    switch (coordinateSystem) {
+      case 'WGS84':
+        return 'EPSG:4326';
+      case 'Lambert93':
+        return 'EPSG:2154';
+      case 'WebMercator':
+        return 'EPSG:3857';
+      case 'UTM': {
+        // Fuseau UTM du centre de l'emprise
+        const bbox = this.calculateBoundingBox(features);
+        if (!bbox.length) return 'EPSG:4326';
+        if (!bbox.every(Number.isFinite)) {
+          throw new Error(`Emprise invalide (${bbox.join(', ')}) : fuseau UTM introuvable`);
+        }
+        const [minX, minY, maxX, maxY] = bbox;
+        return CoordinateSystemManager.findBestUTMZone((minX + maxX) / 2, (minY + maxY) / 2);
+      }
+      default:
+        return coordinateSystem;
+    }
   }
   
   private generateFilename(extension: string, options: ExportOptions): string {
@@ -441,6 +1035,7 @@ export class ExportManager {
       featureCount: features.length,
       exportedAt: new Date().toISOString(),
       coordinateSystem: options.coordinateSystem || 'WGS84',
+      verticalDatum: options.calibrationProfile ? undefined : options.verticalDatum || ELLIPSOIDAL,
       bbox: bbox.length ? (bbox as [number, number, number, number]) : undefined
     };
   }
@@ -451,8 +1046,8 @@ export class ExportManager {
     let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
     
     const processCoordinates = (coords: any[]): void => {
-      if (Array.isArray(coords[0]) && typeof coords[0][0] === 'number') {
-        // C'est un tableau de coordonnées
+      if (Array.isArray(coords[0])) {
+        // Tableau de positions, d'anneaux ou de polygones, quelle que soit la profondeur
         coords.forEach(coord => processCoordinates(coord));
       } else if (typeof coords[0] === 'number' && coords.length >= 2) {
         // C'est une paire de coordonnées [x, y, ...]
@@ -464,14 +1059,19 @@ export class ExportManager {
       }
     };
     
-    features.forEach(feature => {
-      if (!feature.geometry) return;
-      
-      const coords = (feature.geometry as any).coordinates;
-      if (coords) {
-        processCoordinates(coords);
+    const processGeometry = (geometry: GeoJSON.Geometry | null): void => {
+      if (!geometry) return;
+      if (geometry.type === 'GeometryCollection') {
+        geometry.geometries.forEach(processGeometry);
+      } else if (geometry.coordinates) {
+        processCoordinates(geometry.coordinates);
       }
-    });
+    };
+    
+    features.forEach(feature => processGeometry(feature.geometry));
+    
+    // Aucune position : pas d'emprise
+    if (minX === Infinity) return [];
     
     return [minX, minY, maxX, maxY];
   }
@@ -485,6 +1085,8 @@ export class ExportManager {
       options.missionId,
       options.versionId,
       options.coordinateSystem,
+      options.verticalDatum,
+      options.calibrationProfile?.id,
       JSON.stringify(options.bbox),
       options.layers?.join(','),
       options.includeMetadata,
@@ -536,8 +1138,11 @@ export class ExportManager {
       const coords = this.extractCoordinates(feature);
       if (!coords) return '';
       
+      const ele = feature.geometry?.type === 'Point' ? feature.geometry.coordinates[2] : undefined;
+      
       return `
-        <wpt lat="${coords[1]}" lon="${coords[0]}">
+        <wpt lat="${coords[1]}" lon="${coords[0]}">${ele !== undefined ? `
+          <ele>${ele.toFixed(3)}</ele>` : ''}
           <name>${feature.properties?.name || feature.id || ''}</name>
           <desc>${JSON.stringify(feature.properties)}</desc>
         </wpt>
@@ -604,15 +1209,29 @@ export class ExportManager {
     features: GeoJSON.Feature[], 
     format: 'DWG' | 'DXF',
     options: ExportOptions = {}
-  ): Promise<ArrayBuffer> {
+  ): Promise<{ content: ArrayBuffer; transformation: TransformationReport }> {
     try {
-      // Initialize CADBridge
       const cadBridge = CADBridge.getInstance();
       
-      // Convert GeoJSON features to DWG entities
-      const dwgEntities = cadBridge.convertToDWG(features, {
+      // Grille locale du calage de chantier, sinon projection conforme du plan
+      // (UTM par défaut) : pas de facteur d'échelle Web Mercator
+      const calibrated = options.calibrationProfile
+        ? this.transformCoordinates(features, undefined, options.calibrationProfile)
+        : undefined;
+      const transformation: TransformationReport = calibrated?.transformation ?? {
         sourceCRS: 'EPSG:4326', // Assuming input is WGS84
-        targetCRS: 'EPSG:3857', // Web Mercator for CAD
+        targetCRS: this.resolveCrs(options.coordinateSystem || 'UTM', features),
+        accuracy: 0,
+        steps: [],
+        failed: 0
+      };
+      
+      // Convert GeoJSON features to DWG entities
+      const dwgEntities = cadBridge.convertToDWG(calibrated?.features ?? features, {
+        // Objets calés déjà dans la grille locale : plus rien à reprojeter
+        sourceCRS: calibrated ? transformation.targetCRS : transformation.sourceCRS,
+        targetCRS: transformation.targetCRS,
+        transformation,
         layerMapping: options.layers?.reduce((acc, layer) => ({
           ...acc,
           [layer]: layer // Map layer names 1:1 by default
@@ -620,23 +1239,29 @@ export class ExportManager {
         defaultLayer: '0',
         includeMetadata: options.includeMetadata,
         precision: options.precision,
-        scale: options.scale
+        scale: options.scale,
+        drawingScale: options.cadOptions?.drawingScale ?? options.plan?.scale
       });
+      
+      // Un point resté en degrés fausserait tout le plan
+      if (transformation.failed) {
+        throw new Error(`${transformation.failed} point(s) non reprojetés vers ${transformation.targetCRS}`);
+      }
 
       // Export to the requested format
-      if (format === 'DWG') {
-        const dwgBuffer = await cadBridge.exportDWG(dwgEntities, {
-          fileName: options.missionId ? `export_${options.missionId}` : 'export',
-          version: '2018', // Default to a modern DWG version
-          creator: 'Cadastre IA',
-          comments: `Exported on ${new Date().toISOString()}`,
-          ...options.cadOptions
-        });
-        return Buffer.from(dwgBuffer);
-      } else {
-        // For DXF, we'll need to implement this in CADBridge
-        throw new Error('DXF export is not yet implemented');
-      }
+      const exportOptions = {
+        fileName: options.missionId ? `export_${options.missionId}` : 'export',
+        creator: 'Cadastre IA',
+        comments: `Exported on ${new Date().toISOString()}`,
+        ...options.cadOptions
+      };
+      const buffer = format === 'DWG'
+        ? await cadBridge.exportDWG(dwgEntities, exportOptions)
+        : await cadBridge.exportDXF(dwgEntities, exportOptions);
+      return {
+        content: buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer,
+        transformation
+      };
     } catch (error) {
       console.error('Error converting to CAD format:', error);
       throw new Error(`Failed to convert to ${format}: ${error.message}`);
@@ -646,9 +1271,15 @@ export class ExportManager {
   private async generatePDF(
     features: GeoJSON.Feature[], 
     options: ExportOptions
-  ): Promise<ArrayBuffer> {
-    // Implémentation factice - à remplacer par une bibliothèque comme PDFKit ou jsPDF
-    return new ArrayBuffer(0);
+  ): Promise<{ plan: CadastralPlanResult; reference: string; crs: string }> {
+    // Les cotes exigent une projection conforme : ni géographique ni Web Mercator
+    const requested = this.resolveCrs(options.coordinateSystem || 'UTM', features);
+    const crs = CoordinateSystemManager.getProjectionInfo(requested)?.isProjected && requested !== 'EPSG:3857'
+      ? requested
+      : this.resolveCrs('UTM', features);
+
+    const data = CadastralPlan.fromFeatures(features, crs, options.plan?.reference);
+    return { plan: CadastralPlan.generate(data, options.plan), reference: data.reference, crs };
   }
   
   // Méthodes d'aide pour la conversion
@@ -680,16 +1311,16 @@ export class ExportManager {
     
     switch (geometry.type) {
       case 'Point':
-        const [lon, lat] = (geometry as GeoJSON.Point).coordinates;
+        const [lon, lat, alt] = (geometry as GeoJSON.Point).coordinates;
         return `
           <Point>
-            <coordinates>${lon},${lat}</coordinates>
+            <coordinates>${lon},${lat}${alt !== undefined ? `,${alt}` : ''}</coordinates>
           </Point>
         `;
       
       case 'LineString':
         const lineCoords = (geometry as GeoJSON.LineString).coordinates
-          .map(([lon, lat]) => `${lon},${lat}`)
+          .map(([lon, lat, alt]) => (alt !== undefined ? `${lon},${lat},${alt}` : `${lon},${lat}`))
           .join(' ');
         return `
           <LineString>
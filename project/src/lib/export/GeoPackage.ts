@@ -0,0 +1,779 @@
+import initSqlJs from 'sql.js';
+import type { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { epsgRegistry } from '../sensors/EPSGRegistry';
+
+/**
+ * Lecture et écriture de GeoPackage (OGC 12-128r18, version 1.3).
+ *
+ * Le fichier est une base SQLite manipulée en mémoire avec sql.js
+ * (SQLite compilé en WebAssembly) : le même code fonctionne hors ligne dans
+ * le navigateur et sur le serveur Node. Chaque couche devient une table
+ * d'entités avec sa référence spatiale ; les mosaïques de tuiles
+ * Web Mercator sont écrites dans des tables de tuiles.
+ */
+
+type GeoPackageColumnType = 'INTEGER' | 'DOUBLE' | 'BOOLEAN' | 'TEXT' | 'DATE' | 'DATETIME' | 'BLOB';
+
+type GeoPackageColumn = {
+  name: string;      // Nom de la colonne SQLite
+  property: string;  // Propriété GeoJSON correspondante
+  type: GeoPackageColumnType;
+  json?: boolean;    // Objets et tableaux sérialisés en JSON
+};
+
+type GeoPackageLayer = {
+  name: string;
+  features: GeoJSON.Feature[];
+  crs?: string;        // 'EPSG:2154'… ; WGS84 par défaut, 'LOCAL' pour une grille de chantier
+  identifier?: string;
+  description?: string;
+};
+
+type GeoPackageTile = {
+  zoom: number;
+  x: number;           // Colonne, depuis l'ouest
+  y: number;           // Ligne, depuis le nord (schéma XYZ)
+  data: Uint8Array;    // Image PNG ou JPEG
+};
+
+type GeoPackageTileSet = {
+  name: string;
+  tiles: GeoPackageTile[];
+  tileSize?: number;   // 256 px par défaut
+  identifier?: string;
+  description?: string;
+};
+
+type GeoPackageReadLayer = {
+  name: string;
+  crs: string;
+  geometryColumn: string;
+  geometryType: string;
+  columns: GeoPackageColumn[];
+  bbox?: [number, number, number, number];
+  features: GeoJSON.Feature[];
+};
+
+type GeoPackageReadTileSet = {
+  name: string;
+  crs: string;
+  bounds: [number, number, number, number];
+  zoomLevels: number[];
+  tiles: GeoPackageTile[];
+};
+
+type GeoPackageContent = {
+  layers: GeoPackageReadLayer[];
+  tileSets: GeoPackageReadTileSet[];
+};
+
+type SqliteOptions = {
+  locateFile?: (file: string) => string; // URL du fichier sql-wasm.wasm servi par l'application
+  wasmBinary?: ArrayBuffer;              // Ou binaire déjà chargé (mode hors ligne)
+};
+
+type Envelope = [minX: number, maxX: number, minY: number, maxY: number, minZ?: number, maxZ?: number];
+
+// « GPKG » en ASCII, et version 1.3.0 de la norme
+const APPLICATION_ID = 0x47504b47;
+const USER_VERSION = 10300;
+
+// Emprise Web Mercator des mosaïques XYZ
+const MERCATOR_EXTENT = 20037508.342789244;
+
+// Propriété portant l'identifiant d'origine des entités
+const FEATURE_ID_COLUMN = 'feature_id';
+
+const WKB_TYPES: Record<string, number> = {
+  Point: 1,
+  LineString: 2,
+  Polygon: 3,
+  MultiPoint: 4,
+  MultiLineString: 5,
+  MultiPolygon: 6,
+  GeometryCollection: 7,
+};
+
+const SCHEMA = [
+  `CREATE TABLE gpkg_spatial_ref_sys (
+    srs_name TEXT NOT NULL, srs_id INTEGER NOT NULL PRIMARY KEY, organization TEXT NOT NULL,
+    organization_coordsys_id INTEGER NOT NULL, definition TEXT NOT NULL, description TEXT)`,
+  `CREATE TABLE gpkg_contents (
+    table_name TEXT NOT NULL PRIMARY KEY, data_type TEXT NOT NULL, identifier TEXT UNIQUE,
+    description TEXT DEFAULT '', last_change DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+    min_x DOUBLE, min_y DOUBLE, max_x DOUBLE, max_y DOUBLE, srs_id INTEGER,
+    CONSTRAINT fk_gc_r_srs_id FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys(srs_id))`,
+  `CREATE TABLE gpkg_geometry_columns (
+    table_name TEXT NOT NULL, column_name TEXT NOT NULL, geometry_type_name TEXT NOT NULL,
+    srs_id INTEGER NOT NULL, z TINYINT NOT NULL, m TINYINT NOT NULL,
+    CONSTRAINT pk_geom_cols PRIMARY KEY (table_name, column_name),
+    CONSTRAINT fk_gc_tn FOREIGN KEY (table_name) REFERENCES gpkg_contents(table_name),
+    CONSTRAINT fk_gc_srs FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys (srs_id))`,
+  `CREATE TABLE gpkg_tile_matrix_set (
+    table_name TEXT NOT NULL PRIMARY KEY, srs_id INTEGER NOT NULL,
+    min_x DOUBLE NOT NULL, min_y DOUBLE NOT NULL, max_x DOUBLE NOT NULL, max_y DOUBLE NOT NULL,
+    CONSTRAINT fk_gtms_table_name FOREIGN KEY (table_name) REFERENCES gpkg_contents(table_name),
+    CONSTRAINT fk_gtms_srs FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys (srs_id))`,
+  `CREATE TABLE gpkg_tile_matrix (
+    table_name TEXT NOT NULL, zoom_level INTEGER NOT NULL, matrix_width INTEGER NOT NULL,
+    matrix_height INTEGER NOT NULL, tile_width INTEGER NOT NULL, tile_height INTEGER NOT NULL,
+    pixel_x_size DOUBLE NOT NULL, pixel_y_size DOUBLE NOT NULL,
+    CONSTRAINT pk_ttm PRIMARY KEY (table_name, zoom_level),
+    CONSTRAINT fk_tmm_table_name FOREIGN KEY (table_name) REFERENCES gpkg_contents(table_name))`,
+  `CREATE TABLE gpkg_extensions (
+    table_name TEXT, column_name TEXT, extension_name TEXT NOT NULL, definition TEXT NOT NULL, scope TEXT NOT NULL,
+    CONSTRAINT ge_tce UNIQUE (table_name, column_name, extension_name))`,
+  `CREATE TABLE gpkg_data_columns (
+    table_name TEXT NOT NULL, column_name TEXT NOT NULL, name TEXT, title TEXT, description TEXT,
+    mime_type TEXT, constraint_name TEXT,
+    CONSTRAINT pk_gdc PRIMARY KEY (table_name, column_name),
+    CONSTRAINT gdc_tn UNIQUE (table_name, name))`,
+];
+
+/**
+ * Tampon binaire extensible pour l'écriture WKB, en petit-boutiste
+ */
+class ByteWriter {
+  private buffer = new ArrayBuffer(256);
+  private view = new DataView(this.buffer);
+  private length = 0;
+
+  uint8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  uint32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.length, value, true);
+    this.length += 4;
+  }
+
+  int32(value: number): void {
+    this.reserve(4);
+    this.view.setInt32(this.length, value, true);
+    this.length += 4;
+  }
+
+  float64(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.length, value, true);
+    this.length += 8;
+  }
+
+  bytes(): Uint8Array {
+    return new Uint8Array(this.buffer, 0, this.length).slice();
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.byteLength) return;
+    const grown = new ArrayBuffer(Math.max(this.buffer.byteLength * 2, this.length + size));
+    new Uint8Array(grown).set(new Uint8Array(this.buffer, 0, this.length));
+    this.buffer = grown;
+    this.view = new DataView(grown);
+  }
+}
+
+/**
+ * Accès en lecture à un GeoPackage et écriture de nouveaux fichiers
+ */
+class GeoPackage {
+  private static sqliteOptions: SqliteOptions = {};
+  private static sqlite?: Promise<SqlJsStatic>;
+
+  /**
+   * Emplacement du module WebAssembly de SQLite ; dans le navigateur, le
+   * fichier sql-wasm.wasm doit être servi par l'application pour fonctionner
+   * hors ligne. Sous Node, il est trouvé dans le paquet sql.js.
+   */
+  static configure(options: SqliteOptions): void {
+    GeoPackage.sqliteOptions = options;
+    GeoPackage.sqlite = undefined;
+  }
+
+  /**
+   * Écrit les couches d'entités et mosaïques de tuiles dans un nouveau GeoPackage
+   */
+  static async write(layers: GeoPackageLayer[], tileSets: GeoPackageTileSet[] = []): Promise<Uint8Array> {
+    const names = [...layers, ...tileSets].map(table => table.name);
+    const duplicate = names.find((name, i) => names.findIndex(other => other.toLowerCase() === name.toLowerCase()) !== i);
+    if (duplicate) throw new Error(`Duplicate GeoPackage table name: ${duplicate}`);
+    const reserved = names.find(name => /^(gpkg_|rtree_|sqlite_)/i.test(name));
+    if (reserved) throw new Error(`Reserved GeoPackage table name: ${reserved}`);
+
+    const SQL = await GeoPackage.load();
+    const db = new SQL.Database();
+    try {
+      db.run(`PRAGMA application_id = ${APPLICATION_ID}`);
+      db.run(`PRAGMA user_version = ${USER_VERSION}`);
+      db.run('BEGIN');
+      SCHEMA.forEach(statement => db.run(statement));
+      GeoPackage.insertSrs(db, 'EPSG:4326');
+      db.run(
+        `INSERT INTO gpkg_spatial_ref_sys VALUES ('Undefined cartesian SRS', -1, 'NONE', -1, 'undefined', 'undefined cartesian coordinate reference system'),
+          ('Undefined geographic SRS', 0, 'NONE', 0, 'undefined', 'undefined geographic coordinate reference system')`
+      );
+      layers.forEach(layer => GeoPackage.writeLayer(db, layer));
+      tileSets.forEach(tileSet => GeoPackage.writeTileSet(db, tileSet));
+      db.run('COMMIT');
+      return db.export();
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Lit toutes les tables d'entités et de tuiles d'un GeoPackage
+   */
+  static async read(data: Uint8Array | ArrayBuffer): Promise<GeoPackageContent> {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    if (new TextDecoder().decode(bytes.subarray(0, 15)) !== 'SQLite format 3') {
+      throw new Error('Not a GeoPackage: missing SQLite header');
+    }
+
+    const SQL = await GeoPackage.load();
+    const db = new SQL.Database(bytes);
+    try {
+      const tables = GeoPackage.rows(db, `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'gpkg_contents'`);
+      if (!tables.length) throw new Error('Not a GeoPackage: missing gpkg_contents table');
+
+      const hasDataColumns = GeoPackage.rows(db, `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'gpkg_data_columns'`).length > 0;
+      const contents = GeoPackage.rows(db, 'SELECT * FROM gpkg_contents');
+      const layers = contents
+        .filter(content => content.data_type === 'features')
+        .map(content => GeoPackage.readLayer(db, content, hasDataColumns));
+      const tileSets = contents
+        .filter(content => content.data_type === 'tiles')
+        .map(content => GeoPackage.readTileSet(db, String(content.table_name)));
+      return { layers, tileSets };
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Géométrie au format binaire GeoPackage : en-tête « GP », référence
+   * spatiale, emprise puis WKB ISO
+   */
+  static encodeGeometry(geometry: GeoJSON.Geometry | null, srsId: number): Uint8Array {
+    const writer = new ByteWriter();
+    const positions = geometry ? GeoPackage.positions(geometry) : [];
+    const empty = !positions.length;
+    const hasZ = positions.some(position => position.length > 2);
+
+    writer.uint8(0x47);
+    writer.uint8(0x50);
+    writer.uint8(0);
+    // Petit-boutiste, emprise xy ou xyz, indicateur de géométrie vide
+    writer.uint8(1 | ((empty ? 0 : hasZ ? 2 : 1) << 1) | ((empty ? 1 : 0) << 4));
+    writer.int32(srsId);
+    if (!empty) GeoPackage.envelope(positions, hasZ).forEach(value => writer.float64(value!));
+    GeoPackage.writeWkb(writer, geometry ?? { type: 'GeometryCollection', geometries: [] }, hasZ);
+    return writer.bytes();
+  }
+
+  /**
+   * Décode une géométrie GeoPackage (ou du WKB seul)
+   */
+  static decodeGeometry(blob: Uint8Array): { geometry: GeoJSON.Geometry | null; srsId?: number } {
+    const view = new DataView(blob.buffer, blob.byteOffset, blob.byteLength);
+    if (blob[0] !== 0x47 || blob[1] !== 0x50) {
+      return { geometry: GeoPackage.readWkb(view, { offset: 0 }) };
+    }
+
+    const flags = blob[3];
+    const little = (flags & 1) === 1;
+    const envelopeSize = [0, 32, 48, 48, 64][(flags >> 1) & 7];
+    if (envelopeSize === undefined) throw new Error('Invalid GeoPackage geometry envelope');
+    const srsId = view.getInt32(4, little);
+    const geometry = GeoPackage.readWkb(view, { offset: 8 + envelopeSize });
+    // Géométrie vide : collection vide ou point NaN
+    const empty = (flags & 0x10) !== 0 || (geometry?.type === 'Point' && geometry.coordinates.some(Number.isNaN));
+    return { geometry: empty ? null : geometry, srsId };
+  }
+
+  private static load(): Promise<SqlJsStatic> {
+    if (!GeoPackage.sqlite) {
+      GeoPackage.sqlite = initSqlJs(GeoPackage.sqliteOptions).catch(error => {
+        GeoPackage.sqlite = undefined;
+        throw new Error(`SQLite WebAssembly module could not be loaded: ${error instanceof Error ? error.message : error}`);
+      });
+    }
+    return GeoPackage.sqlite;
+  }
+
+  private static rows(db: Database, sql: string, params: SqlValue[] = []): Array<Record<string, SqlValue>> {
+    const statement = db.prepare(sql, params);
+    const rows: Array<Record<string, SqlValue>> = [];
+    try {
+      while (statement.step()) rows.push(statement.getAsObject());
+    } finally {
+      statement.free();
+    }
+    return rows;
+  }
+
+  private static quote(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+
+  /**
+   * Identifiant de la référence spatiale, enregistrée avec sa définition WKT du registre EPSG
+   */
+  private static insertSrs(db: Database, crs = 'EPSG:4326'): number {
+    if (/^LOCAL\b/i.test(crs)) return -1;
+    const match = crs.match(/^([A-Za-z]+):(\d+)$/);
+    if (!match) throw new Error(`Unsupported coordinate reference system: ${crs}`);
+
+    const [, organization, code] = match;
+    const srsId = Number(code);
+    if (GeoPackage.rows(db, 'SELECT srs_id FROM gpkg_spatial_ref_sys WHERE srs_id = ?', [srsId]).length) return srsId;
+
+    const definition = epsgRegistry.get(`EPSG:${code}`);
+    if (!definition?.wkt) {
+      console.warn(`Définition WKT inconnue pour ${crs}, référence spatiale enregistrée comme 'undefined'`);
+    }
+    db.run('INSERT INTO gpkg_spatial_ref_sys VALUES (?, ?, ?, ?, ?, ?)', [
+      definition?.name ?? crs,
+      srsId,
+      organization.toUpperCase(),
+      srsId,
+      definition?.wkt ?? 'undefined',
+      definition?.area.name ?? null,
+    ]);
+    return srsId;
+  }
+
+  private static writeLayer(db: Database, layer: GeoPackageLayer): void {
+    const srsId = GeoPackage.insertSrs(db, layer.crs);
+    const columns = GeoPackage.columns(layer.features);
+    const table = GeoPackage.quote(layer.name);
+
+    db.run(
+      `CREATE TABLE ${table} (fid INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL, geom GEOMETRY` +
+      columns.map(column => `, ${GeoPackage.quote(column.name)} ${column.type}`).join('') + ')'
+    );
+
+    const insert = db.prepare(
+      `INSERT INTO ${table} (geom${columns.map(column => `, ${GeoPackage.quote(column.name)}`).join('')}) ` +
+      `VALUES (?${', ?'.repeat(columns.length)})`
+    );
+    const positions: GeoJSON.Position[] = [];
+    let hasZ = false;
+    try {
+      layer.features.forEach(feature => {
+        const featurePositions = feature.geometry ? GeoPackage.positions(feature.geometry) : [];
+        featurePositions.forEach(position => positions.push(position));
+        hasZ ||= featurePositions.some(position => position.length > 2);
+        insert.run([
+          feature.geometry ? GeoPackage.encodeGeometry(feature.geometry, srsId) : null,
+          ...columns.map(column => GeoPackage.toSql(
+            column.property === FEATURE_ID_COLUMN ? feature.id : feature.properties?.[column.property],
+            column
+          )),
+        ]);
+      });
+    } finally {
+      insert.free();
+    }
+
+    const envelope = positions.length ? GeoPackage.envelope(positions, false) : undefined;
+    db.run('INSERT INTO gpkg_contents (table_name, data_type, identifier, description, min_x, min_y, max_x, max_y, srs_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)', [
+      layer.name,
+      'features',
+      layer.identifier ?? layer.name,
+      layer.description ?? '',
+      envelope?.[0] ?? null,
+      envelope?.[2] ?? null,
+      envelope?.[1] ?? null,
+      envelope?.[3] ?? null,
+      srsId,
+    ]);
+    db.run('INSERT INTO gpkg_geometry_columns VALUES (?, ?, ?, ?, ?, ?)', [
+      layer.name,
+      'geom',
+      GeoPackage.geometryTypeName(layer.features),
+      srsId,
+      hasZ ? 2 : 0,
+      0,
+    ]);
+
+    // Colonnes renommées ou JSON décrites dans l'extension de schéma
+    const described = columns.filter(column => column.json || column.name !== column.property);
+    described.forEach(column => db.run('INSERT INTO gpkg_data_columns (table_name, column_name, name, title, mime_type) VALUES (?, ?, ?, ?, ?)', [
+      layer.name,
+      column.name,
+      column.property,
+      column.property,
+      column.json ? 'application/json' : null,
+    ]));
+    if (described.length && !GeoPackage.rows(db, `SELECT 1 FROM gpkg_extensions WHERE extension_name = 'gpkg_schema'`).length) {
+      db.run(`INSERT INTO gpkg_extensions VALUES ('gpkg_data_columns', NULL, 'gpkg_schema', 'http://www.geopackage.org/spec/#extension_schema', 'read-write')`);
+    }
+  }
+
+  /**
+   * Colonnes d'attributs déduites des valeurs : entiers, réels, booléens,
+   * dates ISO, binaires, JSON pour les objets, texte sinon
+   */
+  private static columns(features: GeoJSON.Feature[]): GeoPackageColumn[] {
+    const types = new Map<string, Set<GeoPackageColumnType | 'JSON'>>();
+    const note = (property: string, type: GeoPackageColumnType | 'JSON') => {
+      if (!types.has(property)) types.set(property, new Set());
+      types.get(property)!.add(type);
+    };
+
+    features.forEach(feature => {
+      if (feature.id !== undefined && !(feature.properties && FEATURE_ID_COLUMN in feature.properties)) {
+        note(FEATURE_ID_COLUMN, 'TEXT');
+      }
+      Object.entries(feature.properties ?? {}).forEach(([property, value]) => {
+        if (value === null || value === undefined) {
+          if (!types.has(property)) types.set(property, new Set());
+        } else if (typeof value === 'boolean') note(property, 'BOOLEAN');
+        else if (typeof value === 'number') note(property, Number.isInteger(value) ? 'INTEGER' : 'DOUBLE');
+        else if (value instanceof Uint8Array) note(property, 'BLOB');
+        else if (typeof value === 'object') note(property, 'JSON');
+        else if (/^\d{4}-\d{2}-\d{2}$/.test(value)) note(property, 'DATE');
+        else if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(value)) note(property, 'DATETIME');
+        else note(property, 'TEXT');
+      });
+    });
+
+    const used = new Set(['fid', 'geom']);
+    return Array.from(types, ([property, found]) => {
+      const values = Array.from(found);
+      const type: GeoPackageColumnType | 'JSON' = values.length === 0
+        ? 'TEXT'
+        : values.length === 1
+          ? values[0]
+          : values.every(value => value === 'INTEGER' || value === 'DOUBLE') ? 'DOUBLE' : 'TEXT';
+
+      // Noms de colonnes uniques, sans casse, hors colonnes réservées
+      let name = property;
+      for (let i = 1; used.has(name.toLowerCase()); i++) name = `${property}_${i}`;
+      used.add(name.toLowerCase());
+      return type === 'JSON' ? { name, property, type: 'TEXT', json: true } : { name, property, type };
+    });
+  }
+
+  private static toSql(value: unknown, column: GeoPackageColumn): SqlValue {
+    if (value === null || value === undefined) return null;
+    if (column.json) return JSON.stringify(value);
+    switch (column.type) {
+      case 'BOOLEAN':
+        return value ? 1 : 0;
+      case 'INTEGER':
+      case 'DOUBLE':
+        return value as number;
+      case 'BLOB':
+        return value as Uint8Array;
+      default:
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+  }
+
+  private static geometryTypeName(features: GeoJSON.Feature[]): string {
+    const types = new Set(features.filter(feature => feature.geometry).map(feature => feature.geometry!.type));
+    return types.size === 1 ? Array.from(types)[0].toUpperCase() : 'GEOMETRY';
+  }
+
+  private static writeTileSet(db: Database, tileSet: GeoPackageTileSet): void {
+    const srsId = GeoPackage.insertSrs(db, 'EPSG:3857');
+    const tileSize = tileSet.tileSize ?? 256;
+    const table = GeoPackage.quote(tileSet.name);
+
+    db.run(`INSERT INTO gpkg_contents (table_name, data_type, identifier, description, min_x, min_y, max_x, max_y, srs_id) VALUES (?, 'tiles', ?, ?, ?, ?, ?, ?, ?)`, [
+      tileSet.name,
+      tileSet.identifier ?? tileSet.name,
+      tileSet.description ?? '',
+      ...GeoPackage.tileBounds(tileSet.tiles),
+      srsId,
+    ]);
+    db.run('INSERT INTO gpkg_tile_matrix_set VALUES (?, ?, ?, ?, ?, ?)', [
+      tileSet.name, srsId, -MERCATOR_EXTENT, -MERCATOR_EXTENT, MERCATOR_EXTENT, MERCATOR_EXTENT,
+    ]);
+    db.run(
+      `CREATE TABLE ${table} (id INTEGER PRIMARY KEY AUTOINCREMENT, zoom_level INTEGER NOT NULL, tile_column INTEGER NOT NULL, ` +
+      'tile_row INTEGER NOT NULL, tile_data BLOB NOT NULL, UNIQUE (zoom_level, tile_column, tile_row))'
+    );
+
+    // Matrice de chaque niveau : 2^z tuiles de côté sur l'emprise Web Mercator
+    Array.from(new Set(tileSet.tiles.map(tile => tile.zoom))).sort((a, b) => a - b).forEach(zoom => {
+      const size = 2 ** zoom;
+      const pixel = (2 * MERCATOR_EXTENT) / (size * tileSize);
+      db.run('INSERT INTO gpkg_tile_matrix VALUES (?, ?, ?, ?, ?, ?, ?, ?)', [tileSet.name, zoom, size, size, tileSize, tileSize, pixel, pixel]);
+    });
+
+    const insert = db.prepare(`INSERT INTO ${table} (zoom_level, tile_column, tile_row, tile_data) VALUES (?, ?, ?, ?)`);
+    try {
+      tileSet.tiles.forEach(tile => {
+        const size = 2 ** tile.zoom;
+        if (tile.x < 0 || tile.y < 0 || tile.x >= size || tile.y >= size) {
+          throw new Error(`Tile ${tile.zoom}/${tile.x}/${tile.y} is outside the tile matrix`);
+        }
+        insert.run([tile.zoom, tile.x, tile.y, tile.data]);
+      });
+    } finally {
+      insert.free();
+    }
+  }
+
+  /**
+   * Emprise Web Mercator couverte par des tuiles XYZ
+   */
+  private static tileBounds(tiles: GeoPackageTile[]): [number, number, number, number] {
+    if (!tiles.length) return [-MERCATOR_EXTENT, -MERCATOR_EXTENT, MERCATOR_EXTENT, MERCATOR_EXTENT];
+    const bounds = tiles.map(({ zoom, x, y }) => {
+      const span = (2 * MERCATOR_EXTENT) / 2 ** zoom;
+      return [-MERCATOR_EXTENT + x * span, MERCATOR_EXTENT - (y + 1) * span, -MERCATOR_EXTENT + (x + 1) * span, MERCATOR_EXTENT - y * span];
+    });
+    return [
+      Math.min(...bounds.map(bound => bound[0])),
+      Math.min(...bounds.map(bound => bound[1])),
+      Math.max(...bounds.map(bound => bound[2])),
+      Math.max(...bounds.map(bound => bound[3])),
+    ];
+  }
+
+  private static readLayer(db: Database, content: Record<string, SqlValue>, hasDataColumns: boolean): GeoPackageReadLayer {
+    const name = String(content.table_name);
+    const [geometryColumn] = GeoPackage.rows(db, 'SELECT * FROM gpkg_geometry_columns WHERE table_name = ?', [name]);
+    if (!geometryColumn) throw new Error(`Feature table ${name} has no geometry column`);
+    const geometryName = String(geometryColumn.column_name);
+
+    // Clé primaire, colonnes et description éventuelle (nom d'origine, JSON)
+    const info = GeoPackage.rows(db, `PRAGMA table_info(${GeoPackage.quote(name)})`);
+    const primaryKey = info.find(column => Number(column.pk) === 1)?.name as string | undefined;
+    const described = new Map(
+      hasDataColumns
+        ? GeoPackage.rows(db, 'SELECT column_name, name, mime_type FROM gpkg_data_columns WHERE table_name = ?', [name])
+          .map(row => [String(row.column_name), row])
+        : []
+    );
+    const columns: GeoPackageColumn[] = info
+      .filter(column => column.name !== geometryName && column.name !== primaryKey)
+      .map(column => {
+        const description = described.get(String(column.name));
+        const declared = String(column.type).toUpperCase();
+        const type: GeoPackageColumnType =
+          /BOOL/.test(declared) ? 'BOOLEAN'
+            : /INT/.test(declared) ? 'INTEGER'
+              : /DOUBLE|REAL|FLOAT/.test(declared) ? 'DOUBLE'
+                : declared === 'DATETIME' ? 'DATETIME'
+                  : declared === 'DATE' ? 'DATE'
+                    : /BLOB/.test(declared) ? 'BLOB'
+                      : 'TEXT';
+        return {
+          name: String(column.name),
+          property: description?.name ? String(description.name) : String(column.name),
+          type,
+          ...(description?.mime_type === 'application/json' && { json: true }),
+        };
+      });
+
+    const features = GeoPackage.rows(db, `SELECT * FROM ${GeoPackage.quote(name)}`).map(row => {
+      const properties: Record<string, unknown> = {};
+      columns.forEach(column => {
+        const value = GeoPackage.fromSql(row[column.name], column);
+        if (value !== null && column.property !== FEATURE_ID_COLUMN) properties[column.property] = value;
+      });
+      const blob = row[geometryName];
+      const sourceColumn = columns.find(column => column.property === FEATURE_ID_COLUMN);
+      const sourceId = sourceColumn ? row[sourceColumn.name] : null;
+      return {
+        type: 'Feature',
+        id: (sourceId ?? (primaryKey ? row[primaryKey] : undefined)) as string | number | undefined,
+        geometry: blob instanceof Uint8Array ? GeoPackage.decodeGeometry(blob).geometry : null,
+        properties,
+      } as GeoJSON.Feature;
+    });
+
+    const bbox = [content.min_x, content.min_y, content.max_x, content.max_y];
+    return {
+      name,
+      crs: GeoPackage.crsName(db, Number(geometryColumn.srs_id)),
+      geometryColumn: geometryName,
+      geometryType: String(geometryColumn.geometry_type_name),
+      columns,
+      ...(bbox.every(value => typeof value === 'number') && { bbox: bbox as [number, number, number, number] }),
+      features,
+    };
+  }
+
+  private static fromSql(value: SqlValue, column: GeoPackageColumn): unknown {
+    if (value === null) return null;
+    if (column.json && typeof value === 'string') {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    return column.type === 'BOOLEAN' ? value !== 0 : value;
+  }
+
+  private static readTileSet(db: Database, name: string): GeoPackageReadTileSet {
+    const [matrixSet] = GeoPackage.rows(db, 'SELECT * FROM gpkg_tile_matrix_set WHERE table_name = ?', [name]);
+    if (!matrixSet) throw new Error(`Tile table ${name} has no tile matrix set`);
+    const zoomLevels = GeoPackage.rows(db, 'SELECT zoom_level FROM gpkg_tile_matrix WHERE table_name = ? ORDER BY zoom_level', [name])
+      .map(row => Number(row.zoom_level));
+    const tiles = GeoPackage.rows(db, `SELECT zoom_level, tile_column, tile_row, tile_data FROM ${GeoPackage.quote(name)}`)
+      .map(row => ({
+        zoom: Number(row.zoom_level),
+        x: Number(row.tile_column),
+        y: Number(row.tile_row),
+        data: row.tile_data as Uint8Array,
+      }));
+    return {
+      name,
+      crs: GeoPackage.crsName(db, Number(matrixSet.srs_id)),
+      bounds: [Number(matrixSet.min_x), Number(matrixSet.min_y), Number(matrixSet.max_x), Number(matrixSet.max_y)],
+      zoomLevels,
+      tiles,
+    };
+  }
+
+  private static crsName(db: Database, srsId: number): string {
+    const [srs] = GeoPackage.rows(db, 'SELECT organization, organization_coordsys_id FROM gpkg_spatial_ref_sys WHERE srs_id = ?', [srsId]);
+    if (!srs || srsId <= 0 || String(srs.organization).toUpperCase() === 'NONE') return srsId === 0 ? 'EPSG:4326' : 'LOCAL';
+    return `${String(srs.organization).toUpperCase()}:${srs.organization_coordsys_id}`;
+  }
+
+  private static positions(geometry: GeoJSON.Geometry): GeoJSON.Position[] {
+    switch (geometry.type) {
+      case 'Point':
+        return geometry.coordinates.length ? [geometry.coordinates] : [];
+      case 'MultiPoint':
+      case 'LineString':
+        return geometry.coordinates;
+      case 'MultiLineString':
+      case 'Polygon':
+        return geometry.coordinates.flat();
+      case 'MultiPolygon':
+        return geometry.coordinates.flat(2);
+      case 'GeometryCollection':
+        return geometry.geometries.flatMap(GeoPackage.positions);
+    }
+  }
+
+  private static envelope(positions: GeoJSON.Position[], withZ: boolean): Envelope {
+    const axis = (index: number) => positions.map(position => position[index] ?? 0);
+    const [xs, ys] = [axis(0), axis(1)];
+    const envelope: Envelope = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    if (withZ) {
+      const zs = axis(2);
+      envelope.push(Math.min(...zs), Math.max(...zs));
+    }
+    return envelope;
+  }
+
+  private static writeWkb(writer: ByteWriter, geometry: GeoJSON.Geometry, hasZ: boolean): void {
+    const position = (coords: GeoJSON.Position) => {
+      writer.float64(coords[0]);
+      writer.float64(coords[1]);
+      if (hasZ) writer.float64(coords[2] ?? 0);
+    };
+    const sequence = (coords: GeoJSON.Position[]) => {
+      writer.uint32(coords.length);
+      coords.forEach(position);
+    };
+    const header = (type: string) => {
+      writer.uint8(1);
+      writer.uint32(WKB_TYPES[type] + (hasZ ? 1000 : 0));
+    };
+
+    header(geometry.type);
+    switch (geometry.type) {
+      case 'Point':
+        // Point vide : coordonnées NaN
+        position(geometry.coordinates.length ? geometry.coordinates : [NaN, NaN, NaN]);
+        break;
+      case 'LineString':
+        sequence(geometry.coordinates);
+        break;
+      case 'Polygon':
+        writer.uint32(geometry.coordinates.length);
+        geometry.coordinates.forEach(sequence);
+        break;
+      case 'MultiPoint':
+        writer.uint32(geometry.coordinates.length);
+        geometry.coordinates.forEach(coords => GeoPackage.writeWkb(writer, { type: 'Point', coordinates: coords }, hasZ));
+        break;
+      case 'MultiLineString':
+        writer.uint32(geometry.coordinates.length);
+        geometry.coordinates.forEach(coords => GeoPackage.writeWkb(writer, { type: 'LineString', coordinates: coords }, hasZ));
+        break;
+      case 'MultiPolygon':
+        writer.uint32(geometry.coordinates.length);
+        geometry.coordinates.forEach(coords => GeoPackage.writeWkb(writer, { type: 'Polygon', coordinates: coords }, hasZ));
+        break;
+      case 'GeometryCollection':
+        writer.uint32(geometry.geometries.length);
+        geometry.geometries.forEach(member => GeoPackage.writeWkb(writer, member, hasZ));
+        break;
+    }
+  }
+
+  /**
+   * WKB ISO (types 1000/2000/3000) ou étendu PostGIS ; la mesure M est ignorée
+   */
+  private static readWkb(view: DataView, cursor: { offset: number }): GeoJSON.Geometry {
+    const little = view.getUint8(cursor.offset) === 1;
+    const raw = view.getUint32(cursor.offset + 1, little);
+    cursor.offset += 5;
+
+    const iso = raw & 0xffff;
+    const type = iso % 1000;
+    const dimension = Math.floor(iso / 1000);
+    const hasZ = dimension === 1 || dimension === 3 || (raw & 0x80000000) !== 0;
+    const hasM = dimension === 2 || dimension === 3 || (raw & 0x40000000) !== 0;
+    if (raw & 0x20000000) cursor.offset += 4; // SRID du WKB étendu
+
+    const count = () => {
+      const value = view.getUint32(cursor.offset, little);
+      cursor.offset += 4;
+      return value;
+    };
+    const position = (): GeoJSON.Position => {
+      const values = [view.getFloat64(cursor.offset, little), view.getFloat64(cursor.offset + 8, little)];
+      if (hasZ) values.push(view.getFloat64(cursor.offset + 16, little));
+      cursor.offset += 8 * (2 + (hasZ ? 1 : 0) + (hasM ? 1 : 0));
+      return values;
+    };
+    const sequence = () => Array.from({ length: count() }, position);
+    const members = () => Array.from({ length: count() }, () => GeoPackage.readWkb(view, cursor));
+
+    switch (type) {
+      case 1:
+        return { type: 'Point', coordinates: position() };
+      case 2:
+        return { type: 'LineString', coordinates: sequence() };
+      case 3:
+        return { type: 'Polygon', coordinates: Array.from({ length: count() }, sequence) };
+      case 4:
+        return { type: 'MultiPoint', coordinates: members().map(member => (member as GeoJSON.Point).coordinates) };
+      case 5:
+        return { type: 'MultiLineString', coordinates: members().map(member => (member as GeoJSON.LineString).coordinates) };
+      case 6:
+        return { type: 'MultiPolygon', coordinates: members().map(member => (member as GeoJSON.Polygon).coordinates) };
+      case 7:
+        return { type: 'GeometryCollection', geometries: members() };
+      default:
+        throw new Error(`Unsupported WKB geometry type ${raw}`);
+    }
+  }
+}
+
+export { GeoPackage };
+export type {
+  GeoPackageColumn,
+  GeoPackageColumnType,
+  GeoPackageLayer,
+  GeoPackageTile,
+  GeoPackageTileSet,
+  GeoPackageReadLayer,
+  GeoPackageReadTileSet,
+  GeoPackageContent,
+};
@@ -0,0 +1,386 @@
+/**
+ * Lecture des documents KML (Google Earth, OGC 07-147r2).
+ *
+ * Les dossiers deviennent des couches (chemin « Dossier / Sous-dossier »),
+ * les données étendues des propriétés et les styles partagés ou en ligne
+ * des propriétés simplestyle (stroke, fill, marker-color…). Les
+ * superpositions au sol (GroundOverlay) sont rendues à part avec leur
+ * emprise, pour être enregistrées comme sources raster locales.
+ */
+
+type KmlStyle = {
+  stroke?: string;          // Couleur '#rrggbb'
+  strokeOpacity?: number;
+  strokeWidth?: number;
+  fill?: string;
+  fillOpacity?: number;
+  marker?: string;
+  markerOpacity?: number;
+  icon?: string;
+  scale?: number;
+};
+
+type KmlLayer = {
+  name: string;             // Chemin complet des dossiers
+  path: string[];
+  description?: string;
+  visible: boolean;
+  featureCount: number;
+};
+
+type KmlGroundOverlay = {
+  name: string;
+  layer: string;
+  href: string;             // Image, relative au document dans un KMZ
+  bounds: [number, number, number, number]; // [west, south, east, north] en WGS84
+  rotation: number;         // Degrés, sens trigonométrique autour du centre
+  corners?: GeoJSON.Position[]; // gx:LatLonQuad : SO, SE, NE, NO
+  opacity: number;
+  drawOrder: number;
+  description?: string;
+};
+
+type KmlDocument = {
+  name?: string;
+  features: GeoJSON.Feature[];
+  layers: KmlLayer[];
+  styles: Record<string, KmlStyle>;
+  overlays: KmlGroundOverlay[];
+};
+
+type SchemaFields = Record<string, string>; // Champ -> type (int, double, bool…)
+
+// Couche des objets hors de tout dossier, à défaut du nom du document
+const ROOT_LAYER = 'KML';
+
+function children(element: Element, name: string): Element[] {
+  return Array.from(element.children).filter(child => child.localName === name);
+}
+
+function child(element: Element, name: string): Element | undefined {
+  return children(element, name)[0];
+}
+
+function childText(element: Element, name: string): string | undefined {
+  const value = child(element, name)?.textContent?.trim();
+  return value || undefined;
+}
+
+function descendants(element: Element | Document, name: string): Element[] {
+  return Array.from(element.getElementsByTagNameNS('*', name));
+}
+
+/**
+ * Couleur KML aabbggrr en couleur CSS et opacité
+ */
+function parseColor(value?: string): { color: string; opacity: number } | undefined {
+  const hex = value?.trim().replace(/^#/, '');
+  if (!hex || !/^[0-9a-f]{8}$/i.test(hex)) return undefined;
+  const [alpha, blue, green, red] = [0, 2, 4, 6].map(i => hex.slice(i, i + 2).toLowerCase());
+  return { color: `#${red}${green}${blue}`, opacity: Math.round((parseInt(alpha, 16) / 255) * 100) / 100 };
+}
+
+function parseCoordinates(value?: string | null): GeoJSON.Position[] {
+  return (value ?? '')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(tuple => tuple.split(',').map(Number))
+    .filter(position => position.length >= 2 && position.every(Number.isFinite));
+}
+
+/**
+ * Lecture d'un document KML
+ */
+class Kml {
+  /**
+   * Lit un document KML ; l'archive KMZ est décompressée par l'appelant
+   */
+  static parse(text: string): KmlDocument {
+    const xml = new DOMParser().parseFromString(text, 'text/xml');
+    if (xml.getElementsByTagName('parsererror').length || xml.documentElement?.localName !== 'kml') {
+      throw new Error('Invalid KML document');
+    }
+
+    const styles = Kml.styles(xml);
+    const schemas = Object.fromEntries(descendants(xml, 'Schema').map(schema => [
+      schema.getAttribute('id') ?? schema.getAttribute('name') ?? '',
+      Object.fromEntries(children(schema, 'SimpleField').map(field => [field.getAttribute('name') ?? '', field.getAttribute('type') ?? 'string'])),
+    ]));
+
+    const root = Array.from(xml.documentElement.children).find(element => element.localName === 'Document' || element.localName === 'Folder')
+      ?? xml.documentElement;
+    const name = childText(root, 'name');
+    const document: KmlDocument = { ...(name && { name }), features: [], layers: [], styles, overlays: [] };
+    Kml.walk(root, [], true, document, schemas);
+    return document;
+  }
+
+  /**
+   * Parcours des dossiers : chaque dossier devient une couche, les objets
+   * hors dossier vont dans la couche du document
+   */
+  private static walk(container: Element, path: string[], visible: boolean, document: KmlDocument, schemas: Record<string, SchemaFields>): void {
+    const layerName = path.length ? path.join(' / ') : document.name ?? ROOT_LAYER;
+    let layer = document.layers.find(candidate => candidate.name === layerName);
+
+    Array.from(container.children).forEach(element => {
+      switch (element.localName) {
+        case 'Folder':
+        case 'Document': {
+          const folder = childText(element, 'name') ?? `${element.localName} ${path.length + 1}`;
+          Kml.walk(element, [...path, folder], visible && childText(element, 'visibility') !== '0', document, schemas);
+          break;
+        }
+        case 'Placemark': {
+          const feature = Kml.placemark(element, layerName, document.styles, schemas);
+          if (!layer) {
+            const description = childText(container, 'description');
+            layer = { name: layerName, path, ...(description && { description }), visible, featureCount: 0 };
+            document.layers.push(layer);
+          }
+          layer.featureCount++;
+          document.features.push(feature);
+          break;
+        }
+        case 'GroundOverlay': {
+          const overlay = Kml.groundOverlay(element, layerName);
+          if (overlay) document.overlays.push(overlay);
+          break;
+        }
+      }
+    });
+  }
+
+  private static placemark(
+    element: Element,
+    layer: string,
+    styles: Record<string, KmlStyle>,
+    schemas: Record<string, SchemaFields>
+  ): GeoJSON.Feature {
+    const properties: Record<string, unknown> = { layer };
+    const name = childText(element, 'name');
+    const description = childText(element, 'description');
+    if (name) properties.name = name;
+    if (description) properties.description = description;
+    if (childText(element, 'visibility') === '0') properties.visible = false;
+    const timestamp = child(element, 'TimeStamp');
+    if (timestamp && childText(timestamp, 'when')) properties.timestamp = childText(timestamp, 'when');
+
+    // Données étendues : Data libres et SchemaData typées
+    const extended = child(element, 'ExtendedData');
+    if (extended) {
+      children(extended, 'Data').forEach(data => {
+        const key = data.getAttribute('name');
+        if (key) properties[key] = childText(data, 'value') ?? '';
+      });
+      children(extended, 'SchemaData').forEach(schemaData => {
+        const fields = schemas[(schemaData.getAttribute('schemaUrl') ?? '').replace(/^#/, '')] ?? {};
+        children(schemaData, 'SimpleData').forEach(data => {
+          const key = data.getAttribute('name');
+          if (key) properties[key] = Kml.typedValue(data.textContent?.trim() ?? '', fields[key]);
+        });
+      });
+    }
+
+    // Style partagé puis style en ligne
+    const styleUrl = childText(element, 'styleUrl')?.replace(/^.*#/, '');
+    const inline = child(element, 'Style');
+    const style = { ...(styleUrl ? styles[styleUrl] : undefined), ...(inline ? Kml.style(inline) : undefined) };
+    if (styleUrl) properties.styleUrl = `#${styleUrl}`;
+    Object.assign(properties, Kml.styleProperties(style));
+
+    const id = element.getAttribute('id');
+    return {
+      type: 'Feature',
+      ...(id && { id }),
+      geometry: Kml.geometry(element)!,
+      properties,
+    };
+  }
+
+  private static typedValue(value: string, type?: string): unknown {
+    switch (type) {
+      case 'int':
+      case 'uint':
+      case 'short':
+      case 'ushort':
+      case 'float':
+      case 'double': {
+        const number = Number(value);
+        return value !== '' && Number.isFinite(number) ? number : value;
+      }
+      case 'bool':
+        return value === '1' || value.toLowerCase() === 'true';
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Géométrie d'un Placemark ; une MultiGeometry homogène devient un
+   * Multi*, sinon une GeometryCollection
+   */
+  private static geometry(element: Element): GeoJSON.Geometry | null {
+    const geometries = Array.from(element.children).flatMap(Kml.geometries);
+    if (!geometries.length) return null;
+    if (geometries.length === 1 && !child(element, 'MultiGeometry')) return geometries[0];
+
+    const types = new Set(geometries.map(geometry => geometry.type));
+    if (types.size === 1) {
+      switch (geometries[0].type) {
+        case 'Point':
+          return { type: 'MultiPoint', coordinates: geometries.map(geometry => (geometry as GeoJSON.Point).coordinates) };
+        case 'LineString':
+          return { type: 'MultiLineString', coordinates: geometries.map(geometry => (geometry as GeoJSON.LineString).coordinates) };
+        case 'Polygon':
+          return { type: 'MultiPolygon', coordinates: geometries.map(geometry => (geometry as GeoJSON.Polygon).coordinates) };
+      }
+    }
+    return { type: 'GeometryCollection', geometries };
+  }
+
+  private static geometries(element: Element): GeoJSON.Geometry[] {
+    switch (element.localName) {
+      case 'Point': {
+        const [position] = parseCoordinates(childText(element, 'coordinates'));
+        return position ? [{ type: 'Point', coordinates: position }] : [];
+      }
+      case 'LineString':
+      case 'LinearRing': {
+        const coordinates = parseCoordinates(childText(element, 'coordinates'));
+        return coordinates.length ? [{ type: 'LineString', coordinates }] : [];
+      }
+      case 'Polygon': {
+        const ring = (boundary: Element) => parseCoordinates(child(boundary, 'LinearRing') && childText(child(boundary, 'LinearRing')!, 'coordinates'));
+        const outer = children(element, 'outerBoundaryIs').map(ring).filter(coordinates => coordinates.length);
+        if (!outer.length) return [];
+        const inner = children(element, 'innerBoundaryIs').map(ring).filter(coordinates => coordinates.length);
+        return [{ type: 'Polygon', coordinates: [outer[0], ...inner] }];
+      }
+      case 'Track': {
+        // gx:Track : positions horodatées
+        const coordinates = children(element, 'coord')
+          .map(coord => (coord.textContent ?? '').trim().split(/\s+/).map(Number))
+          .filter(position => position.length >= 2 && position.every(Number.isFinite));
+        return coordinates.length ? [{ type: 'LineString', coordinates }] : [];
+      }
+      case 'MultiGeometry':
+      case 'MultiTrack':
+        return Array.from(element.children).flatMap(Kml.geometries);
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Styles partagés ; une StyleMap prend le style de sa paire « normal »
+   */
+  private static styles(xml: Document): Record<string, KmlStyle> {
+    const styles: Record<string, KmlStyle> = {};
+    descendants(xml, 'Style').forEach(element => {
+      const id = element.getAttribute('id');
+      if (id) styles[id] = Kml.style(element);
+    });
+    descendants(xml, 'StyleMap').forEach(element => {
+      const id = element.getAttribute('id');
+      const normal = children(element, 'Pair').find(pair => childText(pair, 'key') === 'normal');
+      if (!id || !normal) return;
+      const url = childText(normal, 'styleUrl')?.replace(/^.*#/, '');
+      const inline = child(normal, 'Style');
+      styles[id] = inline ? Kml.style(inline) : (url && styles[url]) || {};
+    });
+    return styles;
+  }
+
+  private static style(element: Element): KmlStyle {
+    const style: KmlStyle = {};
+    const line = child(element, 'LineStyle');
+    const poly = child(element, 'PolyStyle');
+    const icon = child(element, 'IconStyle');
+
+    if (line) {
+      const color = parseColor(childText(line, 'color'));
+      if (color) Object.assign(style, { stroke: color.color, strokeOpacity: color.opacity });
+      const width = Number(childText(line, 'width'));
+      if (childText(line, 'width') && Number.isFinite(width)) style.strokeWidth = width;
+    }
+    if (poly) {
+      const color = parseColor(childText(poly, 'color'));
+      if (color) Object.assign(style, { fill: color.color, fillOpacity: color.opacity });
+      if (childText(poly, 'fill') === '0') style.fillOpacity = 0;
+      if (childText(poly, 'outline') === '0') style.strokeOpacity = 0;
+    }
+    if (icon) {
+      const color = parseColor(childText(icon, 'color'));
+      if (color) Object.assign(style, { marker: color.color, markerOpacity: color.opacity });
+      const href = child(icon, 'Icon') && childText(child(icon, 'Icon')!, 'href');
+      if (href) style.icon = href;
+      const scale = Number(childText(icon, 'scale'));
+      if (childText(icon, 'scale') && Number.isFinite(scale)) style.scale = scale;
+    }
+    return style;
+  }
+
+  /**
+   * Propriétés simplestyle d'un style KML
+   */
+  private static styleProperties(style: KmlStyle): Record<string, string | number> {
+    const entries: Array<[string, string | number | undefined]> = [
+      ['stroke', style.stroke],
+      ['stroke-opacity', style.strokeOpacity],
+      ['stroke-width', style.strokeWidth],
+      ['fill', style.fill],
+      ['fill-opacity', style.fillOpacity],
+      ['marker-color', style.marker],
+      ['icon', style.icon],
+      ['icon-scale', style.scale],
+    ];
+    return Object.fromEntries(entries.filter((entry): entry is [string, string | number] => entry[1] !== undefined));
+  }
+
+  private static groundOverlay(element: Element, layer: string): KmlGroundOverlay | undefined {
+    const icon = child(element, 'Icon');
+    const href = icon && childText(icon, 'href');
+    const name = childText(element, 'name') ?? href ?? 'GroundOverlay';
+    if (!href) {
+      console.warn(`Superposition ${name} sans image, ignorée`);
+      return undefined;
+    }
+
+    const box = child(element, 'LatLonBox');
+    const quad = child(element, 'LatLonQuad');
+    const corners = quad ? parseCoordinates(childText(quad, 'coordinates')) : undefined;
+    let bounds: [number, number, number, number];
+    if (box) {
+      const [north, south, east, west] = ['north', 'south', 'east', 'west'].map(side => Number(childText(box, side)));
+      bounds = [west, south, east, north];
+    } else if (corners?.length === 4) {
+      const [lons, lats] = [corners.map(corner => corner[0]), corners.map(corner => corner[1])];
+      bounds = [Math.min(...lons), Math.min(...lats), Math.max(...lons), Math.max(...lats)];
+    } else {
+      console.warn(`Superposition ${name} sans emprise, ignorée`);
+      return undefined;
+    }
+    if (!bounds.every(Number.isFinite)) {
+      console.warn(`Superposition ${name} avec une emprise invalide, ignorée`);
+      return undefined;
+    }
+
+    const description = childText(element, 'description');
+    return {
+      name,
+      layer,
+      href,
+      bounds,
+      rotation: box ? Number(childText(box, 'rotation') ?? 0) || 0 : 0,
+      ...(corners?.length === 4 && { corners }),
+      opacity: parseColor(childText(element, 'color'))?.opacity ?? 1,
+      drawOrder: Number(childText(element, 'drawOrder') ?? 0) || 0,
+      ...(description && { description }),
+    };
+  }
+}
+
+export { Kml };
+export type { KmlDocument, KmlLayer, KmlStyle, KmlGroundOverlay };
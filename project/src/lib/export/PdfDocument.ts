@@ -0,0 +1,349 @@
+/**
+ * Écriture PDF minimale, sans dépendance : pages vectorielles, polices
+ * standard Helvetica (encodage WinAnsi) et tracés. Suffisant pour des plans
+ * générés hors ligne ; les coordonnées sont en millimètres depuis le coin
+ * inférieur gauche de la page.
+ */
+
+type PdfFont = 'regular' | 'bold';
+type PdfColor = [number, number, number]; // Composantes entre 0 et 1
+
+interface PdfTextOptions {
+  size?: number;       // Corps en points
+  font?: PdfFont;
+  angle?: number;      // Degrés, sens trigonométrique
+  align?: 'left' | 'center' | 'right';
+  color?: PdfColor;
+}
+
+const MM = 72 / 25.4;
+
+// Chasses Helvetica (AFM) des caractères ASCII 32 à 126, en millièmes de corps
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+/**
+ * Page en cours de dessin : accumule les opérateurs du flux de contenu
+ */
+class PdfPage {
+  private operations: string[] = [];
+
+  constructor(readonly width: number, readonly height: number) {}
+
+  save(): this {
+    this.operations.push('q');
+    return this;
+  }
+
+  restore(): this {
+    this.operations.push('Q');
+    return this;
+  }
+
+  lineWidth(width: number): this {
+    this.operations.push(`${PdfPage.n(width * MM)} w`);
+    return this;
+  }
+
+  strokeColor([r, g, b]: PdfColor): this {
+    this.operations.push(`${PdfPage.n(r)} ${PdfPage.n(g)} ${PdfPage.n(b)} RG`);
+    return this;
+  }
+
+  fillColor([r, g, b]: PdfColor): this {
+    this.operations.push(`${PdfPage.n(r)} ${PdfPage.n(g)} ${PdfPage.n(b)} rg`);
+    return this;
+  }
+
+  dash(pattern: number[] = []): this {
+    this.operations.push(`[${pattern.map(value => PdfPage.n(value * MM)).join(' ')}] 0 d`);
+    return this;
+  }
+
+  moveTo(x: number, y: number): this {
+    this.operations.push(`${PdfPage.n(x * MM)} ${PdfPage.n(y * MM)} m`);
+    return this;
+  }
+
+  lineTo(x: number, y: number): this {
+    this.operations.push(`${PdfPage.n(x * MM)} ${PdfPage.n(y * MM)} l`);
+    return this;
+  }
+
+  curveTo(x1: number, y1: number, x2: number, y2: number, x: number, y: number): this {
+    this.operations.push([x1, y1, x2, y2, x, y].map(value => PdfPage.n(value * MM)).join(' ') + ' c');
+    return this;
+  }
+
+  closePath(): this {
+    this.operations.push('h');
+    return this;
+  }
+
+  rect(x: number, y: number, width: number, height: number): this {
+    this.operations.push(`${[x, y, width, height].map(value => PdfPage.n(value * MM)).join(' ')} re`);
+    return this;
+  }
+
+  /**
+   * Cercle approché par quatre courbes de Bézier
+   */
+  circle(x: number, y: number, radius: number): this {
+    const k = 0.5523 * radius;
+    return this.moveTo(x + radius, y)
+      .curveTo(x + radius, y + k, x + k, y + radius, x, y + radius)
+      .curveTo(x - k, y + radius, x - radius, y + k, x - radius, y)
+      .curveTo(x - radius, y - k, x - k, y - radius, x, y - radius)
+      .curveTo(x + k, y - radius, x + radius, y - k, x + radius, y)
+      .closePath();
+  }
+
+  polyline(points: Array<[number, number]>, closed = false): this {
+    points.forEach(([x, y], i) => (i === 0 ? this.moveTo(x, y) : this.lineTo(x, y)));
+    return closed ? this.closePath() : this;
+  }
+
+  /**
+   * Tracé SVG (commandes M, L, H, V, C, Z absolues ou relatives) centré sur
+   * `origin`, l'axe Y étant inversé. À combiner avec `transform` pour
+   * positionner et mettre à l'échelle un symbole.
+   */
+  svgPath(d: string, origin: [number, number] = [0, 0]): this {
+    const tokens = d.match(/[MLHVCZmlhvcz]|-?(?:\d+\.?\d*|\.\d+)(?:e-?\d+)?/g) ?? [];
+    const map = (x: number, y: number): [number, number] => [x - origin[0], origin[1] - y];
+    let x = 0;
+    let y = 0;
+    let startX = 0;
+    let startY = 0;
+    let command = '';
+    let i = 0;
+    const next = () => parseFloat(tokens[i++]);
+
+    while (i < tokens.length) {
+      if (/[A-Za-z]/.test(tokens[i])) command = tokens[i++];
+      const relative = command === command.toLowerCase();
+      const dx = relative ? x : 0;
+      const dy = relative ? y : 0;
+
+      switch (command.toUpperCase()) {
+        case 'M':
+          x = next() + dx;
+          y = next() + dy;
+          startX = x;
+          startY = y;
+          this.moveTo(...map(x, y));
+          // Les coordonnées suivant un M sont des L implicites
+          command = relative ? 'l' : 'L';
+          break;
+        case 'L':
+          x = next() + dx;
+          y = next() + dy;
+          this.lineTo(...map(x, y));
+          break;
+        case 'H':
+          x = next() + dx;
+          this.lineTo(...map(x, y));
+          break;
+        case 'V':
+          y = next() + dy;
+          this.lineTo(...map(x, y));
+          break;
+        case 'C': {
+          const [x1, y1, x2, y2] = [next() + dx, next() + dy, next() + dx, next() + dy];
+          x = next() + dx;
+          y = next() + dy;
+          this.curveTo(...map(x1, y1), ...map(x2, y2), ...map(x, y));
+          break;
+        }
+        case 'Z':
+          x = startX;
+          y = startY;
+          this.closePath();
+          command = ''; // Aucune coordonnée implicite après Z
+          break;
+        default:
+          throw new Error(`Unsupported SVG path command: ${command}`);
+      }
+    }
+    return this;
+  }
+
+  stroke(): this {
+    this.operations.push('S');
+    return this;
+  }
+
+  fill(): this {
+    this.operations.push('f');
+    return this;
+  }
+
+  fillAndStroke(): this {
+    this.operations.push('B');
+    return this;
+  }
+
+  /**
+   * Restreint le dessin suivant au tracé courant (jusqu'au prochain restore)
+   */
+  clip(): this {
+    this.operations.push('W n');
+    return this;
+  }
+
+  /**
+   * Transformation locale en millimètres (translation, rotation en degrés, échelle)
+   */
+  transform(x: number, y: number, angle = 0, scale = 1): this {
+    const rad = (angle * Math.PI) / 180;
+    const cos = Math.cos(rad) * scale;
+    const sin = Math.sin(rad) * scale;
+    this.operations.push(`${[cos, sin, -sin, cos].map(PdfPage.n).join(' ')} ${PdfPage.n(x * MM)} ${PdfPage.n(y * MM)} cm`);
+    return this;
+  }
+
+  text(x: number, y: number, value: string, options: PdfTextOptions = {}): this {
+    const size = options.size ?? 9;
+    const font = options.font ?? 'regular';
+    const width = PdfDocument.textWidth(value, size, font);
+    const shift = options.align === 'center' ? width / 2 : options.align === 'right' ? width : 0;
+    const rad = ((options.angle ?? 0) * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    const originX = x - shift * cos;
+    const originY = y - shift * sin;
+
+    if (options.color) this.fillColor(options.color);
+    this.operations.push(
+      'BT',
+      `/${FONT_NAMES[font]} ${PdfPage.n(size)} Tf`,
+      `${[cos, sin, -sin, cos].map(PdfPage.n).join(' ')} ${PdfPage.n(originX * MM)} ${PdfPage.n(originY * MM)} Tm`,
+      `(${PdfPage.escape(value)}) Tj`,
+      'ET'
+    );
+    if (options.color) this.fillColor([0, 0, 0]);
+    return this;
+  }
+
+  content(): string {
+    return this.operations.join('\n');
+  }
+
+  private static n(value: number): string {
+    const rounded = Math.round(value * 1000) / 1000;
+    return Object.is(rounded, -0) ? '0' : String(rounded);
+  }
+
+  private static escape(value: string): string {
+    return Array.from(value)
+      .map(char => PdfDocument.winAnsi(char))
+      .map(code => {
+        if (code === 0x28 || code === 0x29 || code === 0x5c) return `\\${String.fromCharCode(code)}`;
+        return code < 0x20 || code > 0x7e ? `\\${code.toString(8).padStart(3, '0')}` : String.fromCharCode(code);
+      })
+      .join('');
+  }
+}
+
+/**
+ * Document PDF : pages au format donné, sérialisation en octets
+ */
+class PdfDocument {
+  private pages: PdfPage[] = [];
+
+  constructor(private info: { title?: string; author?: string; subject?: string } = {}) {}
+
+  /**
+   * Ajoute une page (dimensions en millimètres)
+   */
+  addPage(width: number, height: number): PdfPage {
+    const page = new PdfPage(width, height);
+    this.pages.push(page);
+    return page;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Largeur d'un texte en millimètres
+   */
+  static textWidth(value: string, size: number, font: PdfFont = 'regular'): number {
+    const units = Array.from(value).reduce((sum, char) => {
+      const code = char.charCodeAt(0);
+      const width = code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+      return sum + width;
+    }, 0);
+    return ((units * size) / 1000) * (font === 'bold' ? 1.06 : 1) / MM;
+  }
+
+  /**
+   * Code WinAnsi d'un caractère (Latin-1 pour l'essentiel), '?' à défaut
+   */
+  static winAnsi(char: string): number {
+    const code = char.charCodeAt(0);
+    const specials: Record<string, number> = { '€': 0x80, '…': 0x85, '’': 0x92, '–': 0x96, '—': 0x97, '•': 0x95 };
+    if (specials[char] !== undefined) return specials[char];
+    return code <= 0xff && (code < 0x80 || code >= 0xa0) ? code : 0x3f;
+  }
+
+  toBytes(): Uint8Array {
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body);
+
+    add('<< /Type /Catalog /Pages 2 0 R >>');
+    add(''); // Arbre des pages, complété plus bas
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    const infoEntries = Object.entries({ Title: this.info.title, Author: this.info.author, Subject: this.info.subject, Producer: 'ExportManager' })
+      .filter(([, value]) => value)
+      .map(([key, value]) => `/${key} (${PdfDocument.latin1(value!)})`);
+    add(`<< ${infoEntries.join(' ')} >>`);
+
+    const kids: number[] = [];
+    this.pages.forEach(page => {
+      const stream = page.content();
+      add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+      const contentId = objects.length;
+      add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${(page.width * MM).toFixed(2)} ${(page.height * MM).toFixed(2)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+      );
+      kids.push(objects.length);
+    });
+    objects[1] = `<< /Type /Pages /Kids [${kids.map(id => `${id} 0 R`).join(' ')}] /Count ${kids.length} >>`;
+
+    // Les flux ne contiennent que des caractères ASCII : longueur = nombre d'octets
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(output.length);
+      output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xref = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return Uint8Array.from(output, char => char.charCodeAt(0) & 0xff);
+  }
+
+  private static latin1(value: string): string {
+    return Array.from(value)
+      .map(char => PdfDocument.winAnsi(char))
+      .map(code => (code === 0x28 || code === 0x29 || code === 0x5c ? `\\${String.fromCharCode(code)}` : String.fromCharCode(code)))
+      .join('');
+  }
+}
+
+export { PdfDocument, PdfPage };
+export type { PdfFont, PdfColor, PdfTextOptions };
@@ -0,0 +1,633 @@
+import { epsgRegistry } from '../sensors/EPSGRegistry';
+
+/**
+ * Lecture et écriture du format ESRI Shapefile (.shp, .shx, .dbf, .prj, .cpg).
+ *
+ * Un Shapefile ne contient qu'un type de géométrie : les objets sont répartis
+ * en couches de points, multipoints, lignes et polygones. Les noms de champs
+ * DBF sont limités à 10 caractères et les textes à 254 octets ; les
+ * renommages et troncatures sont consignés dans un rapport d'export.
+ */
+
+type ShapefileGeometry = 'point' | 'multipoint' | 'line' | 'polygon';
+
+type ShapefileFieldType = 'C' | 'N' | 'F' | 'L' | 'D'; // Texte, numérique, flottant (lecture), logique, date
+
+type ShapefileField = {
+  name: string;      // Nom DBF (10 caractères au plus)
+  property: string;  // Propriété GeoJSON d'origine
+  type: ShapefileFieldType;
+  length: number;
+  decimals: number;
+};
+
+type ShapefileLayerFiles = {
+  name: string;
+  geometry: ShapefileGeometry;
+  shapeType: number;
+  featureCount: number;
+  shp: Uint8Array;
+  shx: Uint8Array;
+  dbf: Uint8Array;
+  prj?: string;      // Absent pour une grille locale ou un système sans définition WKT
+  cpg: string;
+};
+
+type ShapefileReport = {
+  crs: string;
+  prj: boolean;
+  fields: ShapefileField[];
+  renamed: Record<string, string>;   // Propriété -> nom de champ DBF
+  truncated: Record<string, number>; // Champ -> nombre de valeurs tronquées
+  skipped: number;                   // Objets sans géométrie, non exportés
+};
+
+type ShapefileExport = {
+  layers: ShapefileLayerFiles[];
+  report: ShapefileReport;
+};
+
+type ShapefileSource = {
+  shp: Uint8Array;
+  dbf?: Uint8Array;
+  prj?: string;
+  cpg?: string;
+};
+
+type ShapefileReadLayer = {
+  name: string;
+  crs?: string;      // Déduit du .prj, indéfini sans .prj reconnu
+  geometry?: ShapefileGeometry;
+  shapeType: number;
+  fields: ShapefileField[];
+  features: GeoJSON.Feature[];
+};
+
+type Ring = GeoJSON.Position[];
+
+const SHAPE_TYPES: Record<ShapefileGeometry, number> = {
+  point: 1,
+  line: 3,
+  polygon: 5,
+  multipoint: 8,
+};
+
+// Suffixe des couches lorsque les géométries sont réparties
+const LAYER_SUFFIXES: Record<ShapefileGeometry, string> = {
+  point: 'points',
+  multipoint: 'multipoints',
+  line: 'lines',
+  polygon: 'polygons',
+};
+
+const FILE_CODE = 9994;
+const VERSION = 1000;
+const HEADER_LENGTH = 100;
+const MAX_FIELD_NAME = 10;
+const MAX_CHARACTER_LENGTH = 254;
+const MAX_DECIMALS = 11;
+
+const encoder = new TextEncoder();
+
+/**
+ * Aire signée d'un anneau : positive dans le sens trigonométrique
+ */
+function signedArea(ring: Ring): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  }
+  return area / 2;
+}
+
+function ringContains(ring: Ring, [x, y]: GeoJSON.Position): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Écriture et lecture des fichiers d'un Shapefile
+ */
+class Shapefile {
+  /**
+   * Écrit les objets dans une couche par type de géométrie, dans le système
+   * de coordonnées donné (coordonnées déjà projetées)
+   */
+  static write(name: string, features: GeoJSON.Feature[], crs = 'EPSG:4326'): ShapefileExport {
+    const groups = new Map<ShapefileGeometry, Array<{ geometry: GeoJSON.Geometry; properties: GeoJSON.GeoJsonProperties }>>();
+    let skipped = 0;
+
+    features.forEach(feature => {
+      const members = feature.geometry ? Shapefile.flatten(feature.geometry) : [];
+      if (!members.length) skipped++;
+      members.forEach(geometry => {
+        const kind = Shapefile.geometryKind(geometry);
+        if (!groups.has(kind)) groups.set(kind, []);
+        groups.get(kind)!.push({ geometry, properties: feature.properties });
+      });
+    });
+
+    const records = Array.from(groups.values()).flat();
+    const fields = Shapefile.fields(records.map(record => record.properties ?? {}));
+    const wkt = /^LOCAL\b/i.test(crs) ? undefined : epsgRegistry.get(crs)?.wkt;
+    if (!wkt) console.warn(`Pas de fichier .prj pour ${crs} : définition WKT inconnue`);
+
+    const truncated: Record<string, number> = {};
+    const layers = Array.from(groups, ([geometry, group]): ShapefileLayerFiles => {
+      const hasZ = group.some(record => Shapefile.positions(record.geometry).some(position => position.length > 2));
+      const shapeType = SHAPE_TYPES[geometry] + (hasZ ? 10 : 0);
+      const { shp, shx } = Shapefile.writeShapes(group.map(record => record.geometry), shapeType);
+      return {
+        name: groups.size > 1 ? `${name}_${LAYER_SUFFIXES[geometry]}` : name,
+        geometry,
+        shapeType,
+        featureCount: group.length,
+        shp,
+        shx,
+        dbf: Shapefile.writeDbf(group.map(record => record.properties ?? {}), fields, truncated),
+        ...(wkt && { prj: wkt }),
+        cpg: 'UTF-8',
+      };
+    });
+
+    return {
+      layers,
+      report: {
+        crs,
+        prj: !!wkt,
+        fields,
+        renamed: Object.fromEntries(fields.filter(field => field.name !== field.property).map(field => [field.property, field.name])),
+        truncated,
+        skipped,
+      },
+    };
+  }
+
+  /**
+   * Lit une couche ; le système de coordonnées est déduit du .prj
+   */
+  static read(source: ShapefileSource, name = 'layer'): ShapefileReadLayer {
+    const view = new DataView(source.shp.buffer, source.shp.byteOffset, source.shp.byteLength);
+    if (source.shp.byteLength < HEADER_LENGTH || view.getInt32(0, false) !== FILE_CODE) {
+      throw new Error('Invalid shapefile: bad .shp file code');
+    }
+    const shapeType = view.getInt32(32, true);
+    const end = Math.min(view.getInt32(24, false) * 2, source.shp.byteLength);
+
+    const shapes: Array<GeoJSON.Geometry | null> = [];
+    for (let offset = HEADER_LENGTH; offset + 8 <= end;) {
+      const contentLength = view.getInt32(offset + 4, false) * 2;
+      shapes.push(Shapefile.readShape(view, offset + 8));
+      offset += 8 + contentLength;
+    }
+
+    const table = source.dbf ? Shapefile.readDbf(source.dbf, source.cpg) : undefined;
+    if (table && table.records.length !== shapes.length) {
+      console.warn(`Couche ${name} : ${shapes.length} formes pour ${table.records.length} enregistrements DBF`);
+    }
+
+    const features: GeoJSON.Feature[] = [];
+    shapes.forEach((geometry, i) => {
+      const record = table?.records[i];
+      if (record === null) return; // Enregistrement supprimé
+      features.push({ type: 'Feature', id: i + 1, geometry: geometry!, properties: record ?? {} });
+    });
+
+    const geometry = (Object.keys(SHAPE_TYPES) as ShapefileGeometry[]).find(kind => SHAPE_TYPES[kind] === shapeType % 10);
+    return {
+      name,
+      ...(source.prj && { crs: Shapefile.crsFromPrj(source.prj) }),
+      ...(geometry && { geometry }),
+      shapeType,
+      fields: table?.fields ?? [],
+      features,
+    };
+  }
+
+  /**
+   * Code EPSG d'un .prj : autorité du WKT, sinon nom du système (y compris
+   * les noms ESRI comme RGF_1993_Lambert_93) comparé au registre EPSG
+   */
+  static crsFromPrj(wkt: string): string | undefined {
+    const authority = wkt.trim().match(/AUTHORITY\[\s*"EPSG"\s*,\s*"?(\d+)"?\s*\]\s*\]$/i);
+    if (authority) return `EPSG:${authority[1]}`;
+
+    const name = wkt.match(/^\s*(?:PROJCS|GEOGCS|PROJCRS|GEOGCRS)\[\s*"([^"]+)"/i)?.[1];
+    if (!name) return undefined;
+    const normalize = (value: string) => value
+      .toLowerCase()
+      .replace(/^gcs_/, '')
+      .replace(/19(\d\d)/g, '$1')
+      .replace(/[^a-z0-9]/g, '');
+    return epsgRegistry.list().find(definition => normalize(definition.name) === normalize(name))?.code;
+  }
+
+  /**
+   * Géométries simples d'un objet ; les collections sont éclatées
+   */
+  private static flatten(geometry: GeoJSON.Geometry): GeoJSON.Geometry[] {
+    if (geometry.type === 'GeometryCollection') return geometry.geometries.flatMap(Shapefile.flatten);
+    return Shapefile.positions(geometry).length ? [geometry] : [];
+  }
+
+  private static geometryKind(geometry: GeoJSON.Geometry): ShapefileGeometry {
+    switch (geometry.type) {
+      case 'Point':
+        return 'point';
+      case 'MultiPoint':
+        return 'multipoint';
+      case 'LineString':
+      case 'MultiLineString':
+        return 'line';
+      default:
+        return 'polygon';
+    }
+  }
+
+  private static positions(geometry: GeoJSON.Geometry): GeoJSON.Position[] {
+    switch (geometry.type) {
+      case 'Point':
+        return geometry.coordinates.length ? [geometry.coordinates] : [];
+      case 'MultiPoint':
+      case 'LineString':
+        return geometry.coordinates;
+      case 'MultiLineString':
+      case 'Polygon':
+        return geometry.coordinates.flat();
+      case 'MultiPolygon':
+        return geometry.coordinates.flat(2);
+      case 'GeometryCollection':
+        return geometry.geometries.flatMap(Shapefile.positions);
+    }
+  }
+
+  /**
+   * Parties d'une forme ; anneaux extérieurs en sens horaire et trous en
+   * sens trigonométrique, à l'inverse du GeoJSON
+   */
+  private static parts(geometry: GeoJSON.Geometry): Ring[] {
+    const orient = (ring: Ring, outer: boolean) => (signedArea(ring) > 0) === outer ? [...ring].reverse() : ring;
+    const polygon = (rings: Ring[]) => rings.map((ring, i) => orient(ring, i === 0));
+    switch (geometry.type) {
+      case 'LineString':
+        return [geometry.coordinates];
+      case 'MultiLineString':
+        return geometry.coordinates;
+      case 'Polygon':
+        return polygon(geometry.coordinates);
+      case 'MultiPolygon':
+        return geometry.coordinates.flatMap(polygon);
+      default:
+        return [Shapefile.positions(geometry)];
+    }
+  }
+
+  private static writeShapes(geometries: GeoJSON.Geometry[], shapeType: number): { shp: Uint8Array; shx: Uint8Array } {
+    const hasZ = shapeType > 10;
+    const kind = shapeType % 10;
+    const contents = geometries.map(geometry => {
+      const parts = Shapefile.parts(geometry);
+      const points = parts.flat();
+      const size = kind === 1
+        ? 4 + 16 + (hasZ ? 8 : 0)
+        : 4 + 32 + (kind === 8 ? 4 : 8 + 4 * parts.length) + 16 * points.length + (hasZ ? 16 + 8 * points.length : 0);
+      const view = new DataView(new ArrayBuffer(size));
+      view.setInt32(0, shapeType, true);
+
+      if (kind === 1) {
+        view.setFloat64(4, points[0][0], true);
+        view.setFloat64(12, points[0][1], true);
+        if (hasZ) view.setFloat64(20, points[0][2] ?? 0, true);
+        return { view, points };
+      }
+
+      let offset = 4;
+      const write = (value: number) => {
+        view.setFloat64(offset, value, true);
+        offset += 8;
+      };
+      Shapefile.bounds(points).slice(0, 4).forEach(write);
+      if (kind !== 8) {
+        view.setInt32(offset, parts.length, true);
+        offset += 4;
+      }
+      view.setInt32(offset, points.length, true);
+      offset += 4;
+      if (kind !== 8) {
+        let start = 0;
+        parts.forEach(part => {
+          view.setInt32(offset, start, true);
+          offset += 4;
+          start += part.length;
+        });
+      }
+      points.forEach(([x, y]) => {
+        write(x);
+        write(y);
+      });
+      if (hasZ) {
+        const zs = points.map(position => position[2] ?? 0);
+        write(Math.min(...zs));
+        write(Math.max(...zs));
+        zs.forEach(write);
+      }
+      return { view, points };
+    });
+
+    const bounds = Shapefile.bounds(contents.flatMap(content => content.points));
+    const shpLength = HEADER_LENGTH + contents.reduce((sum, content) => sum + 8 + content.view.byteLength, 0);
+    const shxLength = HEADER_LENGTH + 8 * contents.length;
+    const shp = new Uint8Array(shpLength);
+    const shx = new Uint8Array(shxLength);
+    const shpView = new DataView(shp.buffer);
+    const shxView = new DataView(shx.buffer);
+
+    [[shpView, shpLength], [shxView, shxLength]].forEach(([view, length]) => {
+      const header = view as DataView;
+      header.setInt32(0, FILE_CODE, false);
+      header.setInt32(24, (length as number) / 2, false);
+      header.setInt32(28, VERSION, true);
+      header.setInt32(32, shapeType, true);
+      [bounds[0], bounds[1], bounds[2], bounds[3], hasZ ? bounds[4] : 0, hasZ ? bounds[5] : 0, 0, 0]
+        .forEach((value, i) => header.setFloat64(36 + 8 * i, value, true));
+    });
+
+    let offset = HEADER_LENGTH;
+    contents.forEach(({ view }, i) => {
+      shxView.setInt32(HEADER_LENGTH + 8 * i, offset / 2, false);
+      shxView.setInt32(HEADER_LENGTH + 8 * i + 4, view.byteLength / 2, false);
+      shpView.setInt32(offset, i + 1, false);
+      shpView.setInt32(offset + 4, view.byteLength / 2, false);
+      shp.set(new Uint8Array(view.buffer), offset + 8);
+      offset += 8 + view.byteLength;
+    });
+    return { shp, shx };
+  }
+
+  /**
+   * Emprise [minX, minY, maxX, maxY, minZ, maxZ]
+   */
+  private static bounds(points: GeoJSON.Position[]): number[] {
+    if (!points.length) return [0, 0, 0, 0, 0, 0];
+    const axis = (index: number) => points.map(position => position[index] ?? 0);
+    const [xs, ys, zs] = [axis(0), axis(1), axis(2)];
+    return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys), Math.min(...zs), Math.max(...zs)];
+  }
+
+  /**
+   * Schéma DBF déduit des valeurs, avec noms de champs ramenés à 10 caractères ASCII uniques
+   */
+  private static fields(records: Array<Record<string, unknown>>): ShapefileField[] {
+    const values = new Map<string, unknown[]>();
+    records.forEach(properties => Object.entries(properties).forEach(([property, value]) => {
+      if (!values.has(property)) values.set(property, []);
+      if (value !== null && value !== undefined && !(typeof value === 'number' && !Number.isFinite(value))) {
+        values.get(property)!.push(value);
+      }
+    }));
+
+    const used = new Set<string>();
+    return Array.from(values, ([property, found]): ShapefileField => {
+      const base = property
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^A-Za-z0-9_]/g, '_')
+        .slice(0, MAX_FIELD_NAME) || 'FIELD';
+      let name = base;
+      for (let i = 1; used.has(name.toUpperCase()); i++) {
+        name = `${base.slice(0, MAX_FIELD_NAME - String(i).length - 1)}_${i}`;
+      }
+      used.add(name.toUpperCase());
+
+      if (found.length && found.every(value => typeof value === 'boolean')) {
+        return { name, property, type: 'L', length: 1, decimals: 0 };
+      }
+      if (found.length && found.every(value => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value))) {
+        return { name, property, type: 'D', length: 8, decimals: 0 };
+      }
+      if (found.length && found.every(value => typeof value === 'number')) {
+        const decimals = Math.min(
+          MAX_DECIMALS,
+          Math.max(...(found as number[]).map(value => (String(value).split('.')[1] ?? '').length))
+        );
+        const length = Math.max(...(found as number[]).map(value => value.toFixed(decimals).length));
+        return { name, property, type: 'N', length, decimals };
+      }
+      const length = Math.max(1, ...found.map(value => encoder.encode(Shapefile.text(value)).length));
+      return { name, property, type: 'C', length: Math.min(length, MAX_CHARACTER_LENGTH), decimals: 0 };
+    });
+  }
+
+  private static text(value: unknown): string {
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  private static writeDbf(
+    records: Array<Record<string, unknown>>,
+    fields: ShapefileField[],
+    truncated: Record<string, number>
+  ): Uint8Array {
+    const headerLength = 32 + 32 * fields.length + 1;
+    const recordLength = 1 + fields.reduce((sum, field) => sum + field.length, 0);
+    const bytes = new Uint8Array(headerLength + recordLength * records.length + 1);
+    const view = new DataView(bytes.buffer);
+    const today = new Date();
+
+    view.setUint8(0, 0x03);
+    view.setUint8(1, today.getFullYear() - 1900);
+    view.setUint8(2, today.getMonth() + 1);
+    view.setUint8(3, today.getDate());
+    view.setUint32(4, records.length, true);
+    view.setUint16(8, headerLength, true);
+    view.setUint16(10, recordLength, true);
+
+    fields.forEach((field, i) => {
+      const offset = 32 + 32 * i;
+      bytes.set(encoder.encode(field.name), offset);
+      bytes[offset + 11] = field.type.charCodeAt(0);
+      bytes[offset + 16] = field.length;
+      bytes[offset + 17] = field.decimals;
+    });
+    bytes[headerLength - 1] = 0x0d;
+
+    records.forEach((properties, r) => {
+      let offset = headerLength + r * recordLength;
+      bytes.fill(0x20, offset, offset + recordLength);
+      offset += 1;
+      fields.forEach(field => {
+        const value = properties[field.property];
+        let encoded = encoder.encode(Shapefile.dbfValue(value, field));
+        if (encoded.length > field.length) {
+          // Coupure sur une limite de caractère UTF-8
+          let cut = field.length;
+          while (cut > 0 && (encoded[cut] & 0xc0) === 0x80) cut--;
+          encoded = encoded.slice(0, cut);
+          truncated[field.name] = (truncated[field.name] ?? 0) + 1;
+        }
+        // Nombres alignés à droite, textes à gauche
+        bytes.set(encoded, field.type === 'N' ? offset + field.length - encoded.length : offset);
+        offset += field.length;
+      });
+    });
+    bytes[bytes.length - 1] = 0x1a;
+    return bytes;
+  }
+
+  private static dbfValue(value: unknown, field: ShapefileField): string {
+    if (value === null || value === undefined) return field.type === 'L' ? '?' : '';
+    switch (field.type) {
+      case 'L':
+        return value ? 'T' : 'F';
+      case 'D':
+        return String(value).replace(/-/g, '');
+      case 'N':
+        return Number.isFinite(value) ? (value as number).toFixed(field.decimals) : '';
+      default:
+        return Shapefile.text(value);
+    }
+  }
+
+  private static readShape(view: DataView, offset: number): GeoJSON.Geometry | null {
+    const type = view.getInt32(offset, true);
+    const kind = type % 10;
+    const hasZ = type > 10 && type < 20;
+    if (type === 0) return null;
+
+    const point = (at: number): GeoJSON.Position => [view.getFloat64(at, true), view.getFloat64(at + 8, true)];
+    if (kind === 1) {
+      const position = point(offset + 4);
+      if (hasZ) position.push(view.getFloat64(offset + 20, true));
+      return { type: 'Point', coordinates: position };
+    }
+
+    const multipoint = kind === 8;
+    const partCount = multipoint ? 1 : view.getInt32(offset + 36, true);
+    const pointCount = view.getInt32(offset + (multipoint ? 36 : 40), true);
+    const partsOffset = offset + 44;
+    const pointsOffset = multipoint ? offset + 40 : partsOffset + 4 * partCount;
+    const zOffset = pointsOffset + 16 * pointCount + 16;
+
+    const points = Array.from({ length: pointCount }, (_, i) => {
+      const position = point(pointsOffset + 16 * i);
+      if (hasZ) position.push(view.getFloat64(zOffset + 8 * i, true));
+      return position;
+    });
+    if (multipoint) return { type: 'MultiPoint', coordinates: points };
+
+    const starts = Array.from({ length: partCount }, (_, i) => view.getInt32(partsOffset + 4 * i, true));
+    const parts = starts.map((start, i) => points.slice(start, starts[i + 1] ?? pointCount));
+    if (kind === 3) {
+      return parts.length === 1 ? { type: 'LineString', coordinates: parts[0] } : { type: 'MultiLineString', coordinates: parts };
+    }
+    if (kind !== 5) throw new Error(`Unsupported shape type ${type}`);
+
+    // Anneaux horaires extérieurs ; chaque trou rejoint le polygone qui le contient
+    const polygons: Ring[][] = [];
+    const holes: Ring[] = [];
+    parts.forEach(ring => (signedArea(ring) < 0 ? polygons.push([ring]) : holes.push(ring)));
+    holes.forEach(hole => {
+      const owner = polygons.find(([outer]) => ringContains(outer, hole[0]));
+      if (owner) owner.push(hole);
+      else polygons.push([hole]);
+    });
+    const coordinates = polygons.map(rings => rings.map(ring => [...ring].reverse()));
+    return coordinates.length === 1 ? { type: 'Polygon', coordinates: coordinates[0] } : { type: 'MultiPolygon', coordinates };
+  }
+
+  /**
+   * Table DBF ; les enregistrements supprimés valent null
+   */
+  private static readDbf(
+    bytes: Uint8Array,
+    cpg?: string
+  ): { fields: ShapefileField[]; records: Array<Record<string, unknown> | null> } {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const count = view.getUint32(4, true);
+    const headerLength = view.getUint16(8, true);
+    const recordLength = view.getUint16(10, true);
+    const decoder = new TextDecoder(Shapefile.encoding(cpg, bytes[29]));
+    const ascii = new TextDecoder('ascii');
+
+    const fields: ShapefileField[] = [];
+    for (let offset = 32; offset < headerLength - 1 && bytes[offset] !== 0x0d; offset += 32) {
+      const raw = bytes.subarray(offset, offset + 11);
+      const name = ascii.decode(raw.subarray(0, raw.indexOf(0) === -1 ? 11 : raw.indexOf(0)));
+      fields.push({
+        name,
+        property: name,
+        type: String.fromCharCode(bytes[offset + 11]) as ShapefileFieldType,
+        length: bytes[offset + 16],
+        decimals: bytes[offset + 17],
+      });
+    }
+
+    const records = Array.from({ length: count }, (_, r) => {
+      let offset = headerLength + r * recordLength;
+      if (offset + recordLength > bytes.byteLength) return {};
+      if (bytes[offset] === 0x2a) return null;
+      offset += 1;
+
+      const properties: Record<string, unknown> = {};
+      fields.forEach(field => {
+        const raw = decoder.decode(bytes.subarray(offset, offset + field.length)).trim();
+        offset += field.length;
+        if (!raw || raw === '?') return;
+        switch (field.type) {
+          case 'N':
+          case 'F': {
+            const value = Number(raw);
+            if (Number.isFinite(value)) properties[field.property] = value;
+            break;
+          }
+          case 'L':
+            properties[field.property] = /^[TtYy]$/.test(raw);
+            break;
+          case 'D':
+            properties[field.property] = /^\d{8}$/.test(raw) ? `${raw.slice(0, 4)}-${raw.slice(4, 6)}-${raw.slice(6)}` : raw;
+            break;
+          default:
+            properties[field.property] = raw;
+        }
+      });
+      return properties;
+    });
+    return { fields, records };
+  }
+
+  /**
+   * Encodage des textes : fichier .cpg, sinon identifiant de langue du DBF
+   */
+  private static encoding(cpg: string | undefined, languageDriver: number): string {
+    const label = cpg?.trim().toLowerCase().replace(/[\s_]/g, '');
+    if (label) {
+      const iso = label.match(/^iso-?8859-?(\d+)$/)?.[1];
+      const encoding = /^\d+$/.test(label)
+        ? label === '65001' ? 'utf-8' : `windows-${label}`
+        : iso ? `iso-8859-${iso}` : label;
+      try {
+        return new TextDecoder(encoding).encoding;
+      } catch {
+        console.warn(`Encodage ${cpg} non reconnu, lecture en UTF-8`);
+        return 'utf-8';
+      }
+    }
+    return languageDriver === 0x57 || languageDriver === 0x03 ? 'windows-1252' : 'utf-8';
+  }
+}
+
+export { Shapefile };
+export type {
+  ShapefileGeometry,
+  ShapefileFieldType,
+  ShapefileField,
+  ShapefileLayerFiles,
+  ShapefileReport,
+  ShapefileExport,
+  ShapefileSource,
+  ShapefileReadLayer,
+};
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { CadastralPlan, type PlanData } from '../CadastralPlan';
+import { PdfDocument } from '../PdfDocument';
+import { ParcelTopology } from '../../cadastre/ParcelTopology';
+
+const X0 = 652000;
+const Y0 = 6862000;
+
+function topology() {
+  const topology = new ParcelTopology('EPSG:2154');
+  const west = topology.createParcel({
+    reference: 'AB-12',
+    ring: [
+      { x: X0, y: Y0 },
+      { x: X0 + 100, y: Y0 },
+      { x: X0 + 100, y: Y0 + 100 },
+      { x: X0, y: Y0 + 100 },
+    ],
+    owners: [{ name: 'Jeanne Martin' }],
+    titles: [{ number: 'TF 1234/W' }],
+    declaredArea: 9950,
+  });
+  topology.createParcel({
+    reference: 'AB-13',
+    ring: [
+      { x: X0 + 100, y: Y0 },
+      { x: X0 + 200, y: Y0 },
+      { x: X0 + 200, y: Y0 + 100 },
+      { x: X0 + 100, y: Y0 + 100 },
+      { x: X0 + 100, y: Y0 + 50, code: 'B7' },
+    ],
+    owners: [{ name: 'Paul Durand' }],
+  });
+  return { topology, west };
+}
+
+// Texte brut du PDF (les flux ne sont pas compressés)
+function decode(pdf: Uint8Array): string {
+  return Array.from(pdf, byte => String.fromCharCode(byte)).join('');
+}
+
+describe('CadastralPlan', () => {
+  it('should number the markers clockwise from the north-west corner', () => {
+    const { topology: parcels, west } = topology();
+    const data = CadastralPlan.fromTopology(parcels, west.id);
+
+    expect(data.markers.map(marker => marker.label)).toEqual(['B1', 'B2', 'B7', 'B3', 'B4']);
+    expect(data.markers[0]).toMatchObject({ x: X0, y: Y0 + 100 });
+    expect(data.neighbours).toEqual([
+      expect.objectContaining({ reference: 'AB-13', owners: ['Paul Durand'] }),
+    ]);
+    expect(CadastralPlan.area(data)).toBeCloseTo(10000, 6);
+
+    // Même plan à partir des entités WGS84 de la topologie
+    const fromFeatures = CadastralPlan.fromFeatures(parcels.toFeatures(), 'EPSG:2154', 'AB-12');
+    expect(fromFeatures.markers.map(marker => marker.label)).toEqual(['B1', 'B2', 'B7', 'B3', 'B4']);
+    expect(fromFeatures.owners).toEqual(['Jeanne Martin']);
+    expect(fromFeatures.neighbours?.map(neighbour => neighbour.reference)).toEqual(['AB-13']);
+    expect(CadastralPlan.area(fromFeatures)).toBeCloseTo(10000, 2);
+  });
+
+  it('should produce a valid single-page plan', () => {
+    const { topology: parcels, west } = topology();
+    const plan = CadastralPlan.generate(CadastralPlan.fromTopology(parcels, west.id), {
+      location: 'Commune de Pontoise',
+      surveyor: { name: 'Claire Dubois', licence: '5123' },
+      date: '2024-05-02',
+    });
+    const text = decode(plan.pdf);
+
+    expect(plan.scale).toBe(1000);
+    expect(plan.pages).toBe(1);
+    expect(plan.perimeter).toBeCloseTo(400, 6);
+    expect(plan.sides[0]).toMatchObject({ from: 'B1', to: 'B2', azimuth: 90, distance: 100 });
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    // Chaque entrée de la table xref pointe sur son objet
+    const xref = Number(text.match(/startxref\n(\d+)/)![1]);
+    const entries = text.slice(xref).match(/^\d{10} 00000 n $/gm)!;
+    entries.forEach((entry, i) => expect(text.slice(Number(entry.slice(0, 10))).startsWith(`${i + 1} 0 obj`)).toBe(true));
+
+    ['(B7)', '(100.0000 gr)', '(100.00 m)', '(1 ha 00 a 00 ca)', '(AB-13)', '(Claire Dubois)', '(Fait le 2024-05-02)']
+      .forEach(fragment => expect(text).toContain(fragment));
+    // Contenance du titre et écart, caractères accentués en WinAnsi
+    expect(text).toContain('(\\311cart : +50.00 m\\262  \\(+0.50 %\\))');
+  });
+
+  it('should move the table overflow to annex pages', () => {
+    const markers = Array.from({ length: 50 }, (_, i) => {
+      const angle = (-2 * Math.PI * i) / 50;
+      return { label: `B${i + 1}`, x: X0 + 40 * Math.cos(angle), y: Y0 + 40 * Math.sin(angle) };
+    });
+    const data: PlanData = { crs: 'EPSG:2154', reference: 'ZC-4', markers, owners: [] };
+    const plan = CadastralPlan.generate(data, { angleUnit: 'deg', scale: 500 });
+    const text = decode(plan.pdf);
+
+    expect(plan.scale).toBe(500);
+    expect(plan.pages).toBe(2);
+    expect(text).toMatch(/\/Count 2/);
+    expect(text).toContain('(B50)');
+    expect(text).toContain('(Annexe - tableau des bornes et des c\\364t\\351s \\(suite\\) - ZC-4)');
+
+    expect(() => CadastralPlan.generate({ ...data, crs: 'EPSG:4326' })).toThrow('projected CRS');
+    expect(() => CadastralPlan.generate({ ...data, markers: markers.slice(0, 2) })).toThrow('at least 3 markers');
+  });
+
+  it('should format areas, bearings and vector symbols', () => {
+    expect(CadastralPlan.formatArea(12345.4)).toBe('1 ha 23 a 45 ca');
+    expect(CadastralPlan.formatAzimuth(123.456789, 'gon')).toBe('137.1742 gr');
+    expect(CadastralPlan.formatAzimuth(45.2084, 'deg')).toBe('45°12\'30"');
+
+    // Tracé SVG relatif, Y inversé autour de l'origine du symbole
+    const page = new PdfDocument().addPage(100, 100);
+    page.svgPath('M2 2l2 0v2Z', [2, 2]);
+    expect(page.content().split('\n')).toEqual(['0 0 m', `${(2 * 72 / 25.4).toFixed(3)} 0 l`, expect.stringMatching(/ -5\.669 l$/), 'h']);
+  });
+});
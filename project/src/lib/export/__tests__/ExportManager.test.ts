@@ -0,0 +1,205 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ExportManager } from '../ExportManager';
+import { CADBridge, type LWPolylineEntity } from '../../cad/CADBridge';
+import { CoordinateSystemManager } from '../../sensors/CoordinateSystemManager';
+import { SiteCalibration } from '../../sensors/SiteCalibration';
+import type { CalibrationProfile } from '../../sensors/CalibrationProtocol';
+
+// Dépendances de l'interface, sans objet pour les exports testés
+vi.mock('../../visualization/CorrectionVisualizer', () => ({ CorrectionVisualizer: class {} }));
+vi.mock('../../api/VersionTracker', () => ({ versionTracker: {} }));
+vi.mock('../../map/MapTileManager', () => ({ mapTileManager: {} }));
+
+// Limite levée en WGS84 à Yaoundé
+const LIMIT: GeoJSON.Position[] = [[11.5021, 3.8667], [11.5030, 3.8667], [11.5030, 3.8675]];
+
+function features(): GeoJSON.Feature[] {
+  return [{
+    type: 'Feature',
+    id: 'l1',
+    geometry: { type: 'LineString', coordinates: LIMIT },
+    properties: { layer: 'LIMITES' },
+  }];
+}
+
+// Parcelle levée au même endroit, en polygone puis en multipolygone
+const PARCEL: GeoJSON.Position[][] = [[[11.5021, 3.8667], [11.5030, 3.8667], [11.5030, 3.8675], [11.5021, 3.8675], [11.5021, 3.8667]]];
+
+function parcels(): GeoJSON.Feature[] {
+  return [
+    {
+      type: 'Feature',
+      id: 'p1',
+      geometry: { type: 'Polygon', coordinates: PARCEL },
+      properties: { layer: 'PARCELLES', numero: '1' },
+    },
+    {
+      type: 'Feature',
+      id: 'p2',
+      geometry: { type: 'MultiPolygon', coordinates: [PARCEL] },
+      properties: { layer: 'PARCELLES', numero: '2' },
+    },
+  ];
+}
+
+// Calage de chantier : grille locale décalée de la projection UTM
+function calibrationProfile(): CalibrationProfile {
+  const { parameters } = SiteCalibration.solve(LIMIT.map(([lon, lat], i) => {
+    const utm = CoordinateSystemManager.transform(lon, lat, 'EPSG:4326', 'EPSG:32632');
+    return {
+      id: `CP${i + 1}`,
+      measured: { lat, lon, alt: 760 },
+      local: { easting: utm.x - 770000, northing: utm.y - 420000, elevation: 748 },
+    };
+  }));
+  return {
+    id: 'chantier-1',
+    name: 'Chantier Yaoundé',
+    timestamp: Date.now(),
+    source: 'site',
+    bias: { lat: 0, lon: 0, alt: 0 },
+    siteCalibration: parameters,
+    confidence: 1,
+  };
+}
+
+function polyline(content: string | Blob | ArrayBuffer): LWPolylineEntity {
+  const drawing = CADBridge.getInstance().readDXF(Buffer.from(content as ArrayBuffer));
+  return drawing.entities.find(entity => entity.type === 'LWPOLYLINE') as LWPolylineEntity;
+}
+
+describe('ExportManager', () => {
+  const manager = ExportManager.getInstance();
+
+  it('should draw DXF exports in the UTM zone of the data by default', async () => {
+    const result = await manager.export(features(), { format: 'DXF', missionId: 'dxf-utm' });
+    const { vertices } = polyline(result.content);
+
+    LIMIT.forEach(([lon, lat], i) => {
+      const expected = CoordinateSystemManager.transform(lon, lat, 'EPSG:4326', 'EPSG:32632');
+      expect(vertices[i][0]).toBeCloseTo(expected.x, 3);
+      expect(vertices[i][1]).toBeCloseTo(expected.y, 3);
+    });
+    // Distances en projection conforme, sans le facteur 1/cos φ du Web Mercator
+    expect(Math.hypot(vertices[1][0] - vertices[0][0], vertices[1][1] - vertices[0][1])).toBeCloseTo(100.0, 1);
+  });
+
+  it('should draw DXF exports in the requested coordinate system', async () => {
+    const result = await manager.export(features(), { format: 'DXF', missionId: 'dxf-32633', coordinateSystem: 'EPSG:32633' });
+    const { vertices } = polyline(result.content);
+
+    const expected = CoordinateSystemManager.transform(LIMIT[0][0], LIMIT[0][1], 'EPSG:4326', 'EPSG:32633');
+    expect(vertices[0][0]).toBeCloseTo(expected.x, 3);
+    expect(vertices[0][1]).toBeCloseTo(expected.y, 3);
+  });
+
+  it('should draw polygon parcels to DXF in the UTM zone of the data by default', async () => {
+    const result = await manager.export(parcels(), { format: 'DXF', missionId: 'dxf-polygones' });
+    const { vertices } = polyline(result.content);
+
+    expect(result.metadata.coordinateSystem).toBe('EPSG:32632');
+    expect(result.metadata.transformation).toMatchObject({ targetCRS: 'EPSG:32632', failed: 0 });
+    const expected = CoordinateSystemManager.transform(PARCEL[0][0][0], PARCEL[0][0][1], 'EPSG:4326', 'EPSG:32632');
+    expect(vertices[0][0]).toBeCloseTo(expected.x, 3);
+    expect(vertices[0][1]).toBeCloseTo(expected.y, 3);
+  });
+
+  it('should fail a DXF export rather than leave points in degrees', async () => {
+    await expect(manager.export(parcels(), { format: 'DXF', missionId: 'dxf-inconnu', coordinateSystem: 'EPSG:999999' }))
+      .rejects.toThrow('non reprojetés vers EPSG:999999');
+  });
+
+  it('should apply a requested drawing standard to one DXF export only', async () => {
+    const bridge = CADBridge.getInstance();
+    const session = bridge.getStandard();
+    const standard = JSON.stringify({
+      name: 'Plan de limites',
+      layers: [{ name: 'LIM_TRAIT', color: 1, lineType: 'Continuous' }],
+      rules: [{ featureClass: 'limit', geometry: ['LineString'], layer: 'LIM_TRAIT' }],
+    });
+    const limits = features().map(feature => ({ ...feature, properties: { featureType: 'limit' } }));
+
+    const result = await manager.export(limits, { format: 'DXF', missionId: 'dxf-norme', includeMetadata: true, cadOptions: { standard } });
+
+    expect(polyline(result.content).layer).toBe('LIM_TRAIT');
+    expect(result.metadata.standard).toMatchObject({ profile: 'Plan de limites', unmatched: [] });
+    expect(bridge.getStandard()).toEqual(session);
+  });
+
+  it('should export polygons in the UTM zone of the data', async () => {
+    const expected = CoordinateSystemManager.transform(PARCEL[0][0][0], PARCEL[0][0][1], 'EPSG:4326', 'EPSG:32632');
+
+    const geojson = await manager.export(parcels(), { format: 'GeoJSON', missionId: 'polygones-utm', coordinateSystem: 'UTM' });
+    expect(geojson.metadata.coordinateSystem).toBe('EPSG:32632');
+    const [polygon, multiPolygon] = JSON.parse(geojson.content as string).features;
+    expect(polygon.geometry.coordinates[0][0][0]).toBeCloseTo(expected.x, 3);
+    expect(multiPolygon.geometry.coordinates[0][0][0][1]).toBeCloseTo(expected.y, 3);
+
+    for (const format of ['Shapefile', 'GeoPackage'] as const) {
+      const result = await manager.export(parcels(), { format, missionId: `polygones-${format}`, coordinateSystem: 'UTM' });
+      expect(result.metadata.coordinateSystem).toBe('EPSG:32632');
+    }
+  });
+
+  it('should import polygon shapefiles into the UTM zone of the data', async () => {
+    const shapefile = await manager.export(parcels(), { format: 'Shapefile', missionId: 'polygones-import' });
+    const { features: imported, layers } = await manager.importShapefile(shapefile.content as ArrayBuffer, { coordinateSystem: 'UTM' });
+
+    expect(layers.map(layer => layer.crs)).toEqual(['EPSG:32632']);
+    const expected = CoordinateSystemManager.transform(PARCEL[0][0][0], PARCEL[0][0][1], 'EPSG:4326', 'EPSG:32632');
+    const [x, y] = (imported[0].geometry as GeoJSON.Polygon).coordinates[0][0];
+    expect(x).toBeCloseTo(expected.x, 3);
+    expect(y).toBeCloseTo(expected.y, 3);
+  });
+
+  it('should plot a polygon parcel to PDF in the UTM zone of the data by default', async () => {
+    const result = await manager.export(parcels(), { format: 'PDF', missionId: 'plan-utm' });
+
+    expect(result.mimeType).toBe('application/pdf');
+    expect(new TextDecoder().decode(new Uint8Array(result.content as ArrayBuffer).slice(0, 5))).toBe('%PDF-');
+    expect(result.metadata.coordinateSystem).toBe('EPSG:32632');
+    expect(result.metadata.plan).toMatchObject({ reference: 'p1', crs: 'EPSG:32632' });
+    // Environ 100 m sur 88 m
+    expect(result.metadata.plan!.area).toBeCloseTo(8850, -2);
+  });
+
+  it('should reject a UTM export whose extent is not finite', async () => {
+    const invalid: GeoJSON.Feature[] = [{
+      type: 'Feature',
+      geometry: { type: 'Polygon', coordinates: [[[Number.NaN, 3.8667], [11.5030, 3.8667], [11.5030, 3.8675], [Number.NaN, 3.8667]]] },
+      properties: {},
+    }];
+
+    await expect(manager.export(invalid, { format: 'GeoJSON', missionId: 'emprise-nan', coordinateSystem: 'UTM' }))
+      .rejects.toThrow('fuseau UTM introuvable');
+  });
+
+  it('should draw DXF exports in the local grid of a site calibration', async () => {
+    const profile = calibrationProfile();
+    const result = await manager.export(features(), { format: 'DXF', missionId: 'dxf-calage', calibrationProfile: profile });
+    const { vertices } = polyline(result.content);
+
+    expect(result.metadata.coordinateSystem).toBe('LOCAL:Chantier Yaoundé');
+    LIMIT.forEach(([lon, lat], i) => {
+      const local = SiteCalibration.toLocal(profile.siteCalibration!, { lat, lon });
+      expect(vertices[i][0]).toBeCloseTo(local.easting, 3);
+      expect(vertices[i][1]).toBeCloseTo(local.northing, 3);
+    });
+  });
+
+  it('should reject a site calibration for formats written in WGS84 or in the plan projection', async () => {
+    for (const format of ['KML', 'GPX', 'CSV', 'PDF'] as const) {
+      await expect(manager.export(parcels(), { format, missionId: `calage-${format}`, calibrationProfile: calibrationProfile() }))
+        .rejects.toThrow(`Le format ${format} ne peut pas être exporté dans la grille du calage Chantier Yaoundé`);
+    }
+  });
+
+  it('should reject a vertical datum with a site calibration for every format', async () => {
+    const options = { calibrationProfile: calibrationProfile(), verticalDatum: 'EGM2008' };
+
+    for (const format of ['Shapefile', 'GeoPackage', 'DXF', 'GeoJSON'] as const) {
+      await expect(manager.export(features(), { format, missionId: `calage-${format}`, ...options }))
+        .rejects.toThrow('Le calage Chantier Yaoundé définit déjà les altitudes locales');
+    }
+  });
+});
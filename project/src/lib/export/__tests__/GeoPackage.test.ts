@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import initSqlJs from 'sql.js';
+import { GeoPackage } from '../GeoPackage';
+
+const X0 = 652000;
+const Y0 = 6862000;
+
+// Parcelles en Lambert-93 et points de levé en WGS84
+function parcels(): GeoJSON.Feature[] {
+  return [
+    {
+      type: 'Feature',
+      id: 'p1',
+      geometry: { type: 'Polygon', coordinates: [[[X0, Y0], [X0 + 40, Y0], [X0 + 40, Y0 + 20], [X0, Y0 + 20], [X0, Y0]]] },
+      properties: {
+        reference: 'AB-12',
+        area: 800.5,
+        lots: 2,
+        registered: true,
+        surveyDate: '2026-03-14',
+        owners: ['Dupont', 'Martin'],
+        fid: 'legacy-7',
+      },
+    },
+    {
+      type: 'Feature',
+      id: 'p2',
+      geometry: { type: 'Polygon', coordinates: [[[X0 + 40, Y0], [X0 + 60, Y0], [X0 + 60, Y0 + 20], [X0 + 40, Y0], [X0 + 40, Y0]]] },
+      properties: { reference: 'AB-13', area: 200, lots: null, registered: false },
+    },
+  ];
+}
+
+function points(): GeoJSON.Feature[] {
+  return [
+    {
+      type: 'Feature',
+      id: 1,
+      geometry: { type: 'Point', coordinates: [2.3522, 48.8566, 35.2] },
+      properties: { code: 'B1', measuredAt: '2026-03-14T09:30:00.000Z' },
+    },
+    { type: 'Feature', id: 2, geometry: null, properties: { code: 'B2' } } as unknown as GeoJSON.Feature,
+  ];
+}
+
+describe('GeoPackage', () => {
+  it('should round-trip several feature tables with typed attributes', async () => {
+    const file = await GeoPackage.write([
+      { name: 'parcelles', features: parcels(), crs: 'EPSG:2154', description: 'Parcelles du dossier' },
+      { name: 'points', features: points() },
+    ]);
+    const { layers, tileSets } = await GeoPackage.read(file);
+
+    expect(tileSets).toEqual([]);
+    expect(layers.map(layer => [layer.name, layer.crs, layer.geometryType])).toEqual([
+      ['parcelles', 'EPSG:2154', 'POLYGON'],
+      ['points', 'EPSG:4326', 'POINT'],
+    ]);
+
+    const [parcelLayer, pointLayer] = layers;
+    expect(parcelLayer.bbox).toEqual([X0, Y0, X0 + 60, Y0 + 20]);
+    expect(parcelLayer.columns.map(column => [column.name, column.property, column.type])).toEqual([
+      ['feature_id', 'feature_id', 'TEXT'],
+      ['reference', 'reference', 'TEXT'],
+      ['area', 'area', 'DOUBLE'],
+      ['lots', 'lots', 'INTEGER'],
+      ['registered', 'registered', 'BOOLEAN'],
+      ['surveyDate', 'surveyDate', 'DATE'],
+      ['owners', 'owners', 'TEXT'],
+      ['fid_1', 'fid', 'TEXT'],
+    ]);
+    expect(parcelLayer.features[0]).toEqual(parcels()[0]);
+    // Les valeurs nulles ne sont pas restituées
+    expect(parcelLayer.features[1].properties).toEqual({ reference: 'AB-13', area: 200, registered: false });
+
+    expect(pointLayer.features[0].geometry).toEqual({ type: 'Point', coordinates: [2.3522, 48.8566, 35.2] });
+    expect(pointLayer.features[0].properties).toEqual({ code: 'B1', measuredAt: '2026-03-14T09:30:00.000Z' });
+    expect(pointLayer.features[1]).toMatchObject({ id: '2', geometry: null });
+  });
+
+  it('should write the GeoPackage system tables', async () => {
+    const file = await GeoPackage.write([{ name: 'parcelles', features: parcels(), crs: 'EPSG:2154' }]);
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(file);
+
+    expect(db.exec('PRAGMA application_id')[0].values[0][0]).toBe(0x47504b47);
+    expect(db.exec('PRAGMA user_version')[0].values[0][0]).toBe(10300);
+
+    const srs = db.exec('SELECT srs_id, organization, definition FROM gpkg_spatial_ref_sys ORDER BY srs_id')[0].values;
+    expect(srs.map(row => row[0])).toEqual([-1, 0, 2154, 4326]);
+    expect(srs[2][2]).toMatch(/^PROJCS\["RGF93 \/ Lambert-93"/);
+    expect(db.exec('SELECT geometry_type_name, srs_id, z FROM gpkg_geometry_columns')[0].values).toEqual([['POLYGON', 2154, 0]]);
+    expect(db.exec('SELECT column_name, name, mime_type FROM gpkg_data_columns ORDER BY column_name')[0].values).toEqual([
+      ['fid_1', 'fid', null],
+      ['owners', 'owners', 'application/json'],
+    ]);
+    db.close();
+
+    await expect(GeoPackage.write([{ name: 'gpkg_parcelles', features: [] }])).rejects.toThrow('Reserved GeoPackage table name');
+    await expect(GeoPackage.read(new Uint8Array(100))).rejects.toThrow('missing SQLite header');
+  });
+
+  it('should store tiles in a Web Mercator tile matrix', async () => {
+    const png = (value: number) => new Uint8Array([0x89, 0x50, 0x4e, 0x47, value]);
+    const file = await GeoPackage.write([], [{
+      name: 'orthophoto',
+      tiles: [
+        { zoom: 1, x: 1, y: 0, data: png(1) },
+        { zoom: 2, x: 2, y: 1, data: png(2) },
+      ],
+    }]);
+    const { tileSets } = await GeoPackage.read(file);
+
+    expect(tileSets).toHaveLength(1);
+    expect(tileSets[0]).toMatchObject({ name: 'orthophoto', crs: 'EPSG:3857', zoomLevels: [1, 2] });
+    expect(tileSets[0].tiles[1]).toEqual({ zoom: 2, x: 2, y: 1, data: png(2) });
+
+    await expect(GeoPackage.write([], [{ name: 'ortho', tiles: [{ zoom: 1, x: 2, y: 0, data: png(0) }] }]))
+      .rejects.toThrow('Tile 1/2/0 is outside the tile matrix');
+  });
+
+  it('should encode the binary geometry header with its envelope', () => {
+    const line: GeoJSON.LineString = { type: 'LineString', coordinates: [[1, 2, 10], [4, -3, 12]] };
+    const blob = GeoPackage.encodeGeometry(line, 2154);
+    const view = new DataView(blob.buffer);
+
+    expect(Array.from(blob.subarray(0, 4))).toEqual([0x47, 0x50, 0, 0b101]);
+    expect(view.getInt32(4, true)).toBe(2154);
+    expect([8, 16, 24, 32, 40, 48].map(offset => view.getFloat64(offset, true))).toEqual([1, 4, -3, 2, 10, 12]);
+    expect(view.getUint32(57, true)).toBe(1002);
+    expect(GeoPackage.decodeGeometry(blob)).toEqual({ geometry: line, srsId: 2154 });
+
+    const empty = GeoPackage.encodeGeometry({ type: 'Point', coordinates: [] }, 4326);
+    expect(empty[3] & 0x10).toBe(0x10);
+    expect(GeoPackage.decodeGeometry(empty).geometry).toBeNull();
+
+    const collection: GeoJSON.GeometryCollection = {
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'MultiPoint', coordinates: [[0, 0], [1, 1]] },
+        { type: 'MultiPolygon', coordinates: [[[[0, 0], [1, 0], [1, 1], [0, 0]]]] },
+      ],
+    };
+    expect(GeoPackage.decodeGeometry(GeoPackage.encodeGeometry(collection, 0)).geometry).toEqual(collection);
+  });
+});
@@ -0,0 +1,173 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { Kml } from '../Kml';
+
+// Croquis de bornage exporté de Google Earth : dossiers, styles et calque image
+const SKETCH = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+  <Document>
+    <name>Village Bafou</name>
+    <Style id="limite">
+      <LineStyle><color>ff0000ff</color><width>3</width></LineStyle>
+      <PolyStyle><color>7f00ff00</color></PolyStyle>
+    </Style>
+    <StyleMap id="limite-map">
+      <Pair><key>normal</key><styleUrl>#limite</styleUrl></Pair>
+      <Pair><key>highlight</key><styleUrl>#autre</styleUrl></Pair>
+    </StyleMap>
+    <Schema name="parcelle" id="parcelle">
+      <SimpleField name="surface" type="double"/>
+      <SimpleField name="titre" type="bool"/>
+    </Schema>
+    <Placemark>
+      <name>Puits</name>
+      <Point><coordinates>10.25,5.5,1450</coordinates></Point>
+    </Placemark>
+    <Folder>
+      <name>Concessions</name>
+      <description>Relevé du chef de village</description>
+      <Folder>
+        <name>Quartier nord</name>
+        <visibility>0</visibility>
+        <Placemark id="c1">
+          <name>Concession Kamga</name>
+          <styleUrl>#limite-map</styleUrl>
+          <ExtendedData>
+            <Data name="proprietaire"><value>Kamga</value></Data>
+            <SchemaData schemaUrl="#parcelle">
+              <SimpleData name="surface">1250.5</SimpleData>
+              <SimpleData name="titre">1</SimpleData>
+            </SchemaData>
+          </ExtendedData>
+          <Polygon>
+            <outerBoundaryIs><LinearRing><coordinates>
+              10.1,5.1,0 10.2,5.1,0 10.2,5.2,0 10.1,5.1,0
+            </coordinates></LinearRing></outerBoundaryIs>
+            <innerBoundaryIs><LinearRing><coordinates>
+              10.15,5.12 10.16,5.12 10.16,5.13 10.15,5.12
+            </coordinates></LinearRing></innerBoundaryIs>
+          </Polygon>
+        </Placemark>
+        <Placemark>
+          <name>Haies</name>
+          <Style><LineStyle><color>ff00ffff</color></LineStyle></Style>
+          <MultiGeometry>
+            <LineString><coordinates>10.1,5.3 10.2,5.3</coordinates></LineString>
+            <LineString><coordinates>10.2,5.3 10.2,5.4</coordinates></LineString>
+          </MultiGeometry>
+        </Placemark>
+        <Placemark>
+          <name>Entrée</name>
+          <MultiGeometry>
+            <Point><coordinates>10.1,5.3</coordinates></Point>
+            <LineString><coordinates>10.1,5.3 10.1,5.35</coordinates></LineString>
+          </MultiGeometry>
+        </Placemark>
+      </Folder>
+      <GroundOverlay>
+        <name>Plan scanné</name>
+        <color>b3ffffff</color>
+        <drawOrder>2</drawOrder>
+        <Icon><href>files/plan.jpg</href></Icon>
+        <LatLonBox>
+          <north>5.4</north><south>5.0</south><east>10.3</east><west>10.0</west>
+          <rotation>12.5</rotation>
+        </LatLonBox>
+      </GroundOverlay>
+      <GroundOverlay>
+        <name>Orthophoto</name>
+        <Icon><href>https://example.org/ortho.png</href></Icon>
+        <gx:LatLonQuad><coordinates>10.0,5.0 10.3,5.01 10.31,5.4 10.01,5.39</coordinates></gx:LatLonQuad>
+      </GroundOverlay>
+    </Folder>
+  </Document>
+</kml>`;
+
+describe('Kml', () => {
+  it('should turn folders into layers', () => {
+    const document = Kml.parse(SKETCH);
+
+    expect(document.name).toBe('Village Bafou');
+    expect(document.layers).toEqual([
+      { name: 'Village Bafou', path: [], visible: true, featureCount: 1 },
+      { name: 'Concessions / Quartier nord', path: ['Concessions', 'Quartier nord'], visible: false, featureCount: 3 },
+    ]);
+    expect(document.features.map(feature => feature.properties?.layer)).toEqual([
+      'Village Bafou',
+      'Concessions / Quartier nord',
+      'Concessions / Quartier nord',
+      'Concessions / Quartier nord',
+    ]);
+    expect(document.features[0].geometry).toEqual({ type: 'Point', coordinates: [10.25, 5.5, 1450] });
+  });
+
+  it('should keep extended data and style colours as properties', () => {
+    const [, concession, hedges] = Kml.parse(SKETCH).features;
+
+    expect(concession.id).toBe('c1');
+    expect(concession.properties).toEqual({
+      layer: 'Concessions / Quartier nord',
+      name: 'Concession Kamga',
+      proprietaire: 'Kamga',
+      surface: 1250.5,
+      titre: true,
+      styleUrl: '#limite-map',
+      stroke: '#ff0000',
+      'stroke-opacity': 1,
+      'stroke-width': 3,
+      fill: '#00ff00',
+      'fill-opacity': 0.5,
+    });
+    expect(hedges.properties).toMatchObject({ stroke: '#ffff00', 'stroke-opacity': 1 });
+  });
+
+  it('should read polygons with holes and MultiGeometry', () => {
+    const [, concession, hedges, entrance] = Kml.parse(SKETCH).features;
+
+    expect(concession.geometry).toEqual({
+      type: 'Polygon',
+      coordinates: [
+        [[10.1, 5.1, 0], [10.2, 5.1, 0], [10.2, 5.2, 0], [10.1, 5.1, 0]],
+        [[10.15, 5.12], [10.16, 5.12], [10.16, 5.13], [10.15, 5.12]],
+      ],
+    });
+    expect(hedges.geometry).toEqual({
+      type: 'MultiLineString',
+      coordinates: [[[10.1, 5.3], [10.2, 5.3]], [[10.2, 5.3], [10.2, 5.4]]],
+    });
+    expect(entrance.geometry).toEqual({
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Point', coordinates: [10.1, 5.3] },
+        { type: 'LineString', coordinates: [[10.1, 5.3], [10.1, 5.35]] },
+      ],
+    });
+  });
+
+  it('should extract ground overlays with their footprint', () => {
+    const { overlays } = Kml.parse(SKETCH);
+
+    expect(overlays).toEqual([
+      {
+        name: 'Plan scanné',
+        layer: 'Concessions',
+        href: 'files/plan.jpg',
+        bounds: [10, 5, 10.3, 5.4],
+        rotation: 12.5,
+        opacity: 0.7,
+        drawOrder: 2,
+      },
+      {
+        name: 'Orthophoto',
+        layer: 'Concessions',
+        href: 'https://example.org/ortho.png',
+        bounds: [10, 5, 10.31, 5.4],
+        rotation: 0,
+        corners: [[10, 5], [10.3, 5.01], [10.31, 5.4], [10.01, 5.39]],
+        opacity: 1,
+        drawOrder: 0,
+      },
+    ]);
+    expect(() => Kml.parse('<gpx></gpx>')).toThrow('Invalid KML document');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { Shapefile } from '../Shapefile';
+
+const X0 = 652000;
+const Y0 = 6862000;
+
+// Parcelle trouée, limite, bornes et objet sans géométrie en Lambert-93
+function features(): GeoJSON.Feature[] {
+  return [
+    {
+      type: 'Feature',
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [[X0, Y0], [X0 + 40, Y0], [X0 + 40, Y0 + 20], [X0, Y0 + 20], [X0, Y0]],
+          [[X0 + 10, Y0 + 5], [X0 + 10, Y0 + 10], [X0 + 20, Y0 + 10], [X0 + 10, Y0 + 5]],
+        ],
+      },
+      properties: { reference: 'AB-12', surfaceCadastrale: 800.25, registered: true, surveyDate: '2026-03-14' },
+    },
+    {
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: [[X0, Y0 + 20], [X0 + 40, Y0 + 20]] },
+      properties: { reference: 'L1', nature: 'mur mitoyen en pierres sèches '.repeat(10) },
+    },
+    {
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [X0, Y0, 35.2] },
+      properties: { reference: 'B1', surfaceCadastrale: 0, surfaceCadastraleRelevee: 12 },
+    },
+    { type: 'Feature', geometry: null, properties: { reference: 'X' } } as unknown as GeoJSON.Feature,
+  ];
+}
+
+describe('Shapefile', () => {
+  it('should split geometry types into layers with a projection file', () => {
+    const { layers, report } = Shapefile.write('dossier', features(), 'EPSG:2154');
+
+    expect(layers.map(layer => [layer.name, layer.geometry, layer.shapeType, layer.featureCount])).toEqual([
+      ['dossier_polygons', 'polygon', 5, 1],
+      ['dossier_lines', 'line', 3, 1],
+      ['dossier_points', 'point', 11, 1],
+    ]);
+    expect(layers[0].prj).toMatch(/^PROJCS\["RGF93 \/ Lambert-93"/);
+    expect(layers[0].cpg).toBe('UTF-8');
+    expect(report).toMatchObject({ crs: 'EPSG:2154', prj: true, skipped: 1 });
+
+    // Index .shx : décalage et longueur de chaque enregistrement
+    const shx = new DataView(layers[2].shx.buffer);
+    expect(shx.getInt32(24, false)).toBe(54);
+    expect([shx.getInt32(100, false), shx.getInt32(104, false)]).toEqual([50, 14]);
+  });
+
+  it('should alias long field names and report truncated values', () => {
+    const { layers, report } = Shapefile.write('dossier', features(), 'EPSG:2154');
+
+    expect(report.fields.map(field => [field.name, field.type, field.length, field.decimals])).toEqual([
+      ['reference', 'C', 5, 0],
+      ['surfaceCad', 'N', 6, 2],
+      ['registered', 'L', 1, 0],
+      ['surveyDate', 'D', 8, 0],
+      ['nature', 'C', 254, 0],
+      ['surfaceC_1', 'N', 2, 0],
+    ]);
+    expect(report.renamed).toEqual({ surfaceCadastrale: 'surfaceCad', surfaceCadastraleRelevee: 'surfaceC_1' });
+    expect(report.truncated).toEqual({ nature: 1 });
+
+    // Texte coupé à 254 octets, sans couper un caractère accentué
+    const line = Shapefile.read({ shp: layers[1].shp, dbf: layers[1].dbf, cpg: layers[1].cpg });
+    const nature = line.features[0].properties!.nature as string;
+    expect(new TextEncoder().encode(nature).length).toBeLessThanOrEqual(254);
+    expect(nature.length).toBeGreaterThan(230);
+    expect(features()[1].properties!.nature.startsWith(nature)).toBe(true);
+  });
+
+  it('should read back geometries, attributes and the projection', () => {
+    const { layers } = Shapefile.write('dossier', features(), 'EPSG:2154');
+    const [polygons, , points] = layers.map(layer => Shapefile.read(layer, layer.name));
+
+    expect(polygons.crs).toBe('EPSG:2154');
+    expect(polygons.features[0].geometry).toEqual(features()[0].geometry);
+    expect(polygons.features[0].properties).toEqual({
+      reference: 'AB-12',
+      surfaceCad: 800.25,
+      registered: true,
+      surveyDate: '2026-03-14',
+    });
+    expect(points.features[0]).toMatchObject({
+      id: 1,
+      geometry: { type: 'Point', coordinates: [X0, Y0, 35.2] },
+      properties: { reference: 'B1', surfaceCad: 0, surfaceC_1: 12 },
+    });
+  });
+
+  it('should recognise ESRI projection files by name', () => {
+    expect(Shapefile.crsFromPrj('PROJCS["RGF_1993_Lambert_93",GEOGCS["GCS_RGF_1993",DATUM["D_RGF_1993"]]]')).toBe('EPSG:2154');
+    expect(Shapefile.crsFromPrj('GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]]]')).toBe('EPSG:4326');
+    expect(Shapefile.crsFromPrj('PROJCS["Local grid",UNIT["metre",1]]')).toBeUndefined();
+    expect(() => Shapefile.read({ shp: new Uint8Array(100) })).toThrow('bad .shp file code');
+  });
+});
@@ -0,0 +1,207 @@
+import * as math from 'mathjs';
+
+export interface AmbiguitySearchResult {
+  candidates: number[][]; // Integer candidates, best first
+  residuals: number[];    // Squared distances (a - z)' Q^-1 (a - z), ascending
+  ratio: number;          // Ratio test value: second best / best
+}
+
+/**
+ * Integer ambiguity resolution with the LAMBDA method
+ * (decorrelation by integer Gauss transformations + sequential search).
+ */
+export class AmbiguityResolver {
+  private static readonly MAX_SEARCH_LOOPS = 10000;
+
+  /**
+   * Search the `candidates` best integer vectors for float ambiguities `a`
+   * with covariance `Q`.
+   */
+  public static search(a: number[], Q: number[][], candidates: number = 2): AmbiguitySearchResult {
+    const n = a.length;
+    if (n === 0) {
+      throw new Error('No ambiguities to resolve');
+    }
+
+    const { L, D } = this.factorize(Q);
+    const Z = this.identity(n);
+    this.reduce(L, D, Z);
+
+    // z = Z' a
+    const z = a.map((_, j) => a.reduce((sum, value, i) => sum + Z[i][j] * value, 0));
+    const { vectors, distances } = this.sequentialSearch(L, D, z, candidates);
+
+    // F = Z'^-1 E
+    const Zt = math.transpose(math.matrix(Z));
+    const solved = vectors.map(vector => {
+      const column = math.lusolve(Zt, math.matrix(vector.map(v => [v]))) as math.Matrix;
+      return (column.toArray() as number[][]).map(row => Math.round(row[0]));
+    });
+
+    return {
+      candidates: solved,
+      residuals: distances,
+      ratio: distances.length > 1 && distances[0] > 0 ? distances[1] / distances[0] : 0,
+    };
+  }
+
+  /**
+   * Q = L' diag(D) L with L unit lower triangular
+   */
+  private static factorize(Q: number[][]): { L: number[][]; D: number[] } {
+    const n = Q.length;
+    const A = Q.map(row => [...row]);
+    const L = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+    const D = new Array<number>(n).fill(0);
+
+    for (let i = n - 1; i >= 0; i--) {
+      D[i] = A[i][i];
+      if (D[i] <= 0) {
+        throw new Error('Ambiguity covariance is not positive definite');
+      }
+      const root = Math.sqrt(D[i]);
+      for (let j = 0; j <= i; j++) L[i][j] = A[i][j] / root;
+      for (let j = 0; j <= i - 1; j++) {
+        for (let k = 0; k <= j; k++) A[j][k] -= L[i][k] * L[i][j];
+      }
+      for (let j = 0; j <= i; j++) L[i][j] /= L[i][i];
+    }
+
+    return { L, D };
+  }
+
+  /**
+   * Decorrelation: updates L, D and the transformation Z in place
+   */
+  private static reduce(L: number[][], D: number[], Z: number[][]): void {
+    const n = D.length;
+    let j = n - 2;
+    let k = n - 2;
+
+    while (j >= 0) {
+      if (j <= k) {
+        for (let i = j + 1; i < n; i++) this.gauss(L, Z, i, j);
+      }
+      const delta = D[j] + L[j + 1][j] * L[j + 1][j] * D[j + 1];
+      if (delta + 1e-6 < D[j + 1]) {
+        this.permute(L, D, j, delta, Z);
+        k = j;
+        j = n - 2;
+      } else {
+        j--;
+      }
+    }
+  }
+
+  private static gauss(L: number[][], Z: number[][], i: number, j: number): void {
+    const n = L.length;
+    const mu = Math.round(L[i][j]);
+    if (mu === 0) return;
+
+    for (let k = i; k < n; k++) L[k][j] -= mu * L[k][i];
+    for (let k = 0; k < n; k++) Z[k][j] -= mu * Z[k][i];
+  }
+
+  private static permute(L: number[][], D: number[], j: number, delta: number, Z: number[][]): void {
+    const n = L.length;
+    const eta = D[j] / delta;
+    const lambda = (D[j + 1] * L[j + 1][j]) / delta;
+
+    D[j] = eta * D[j + 1];
+    D[j + 1] = delta;
+
+    for (let k = 0; k <= j - 1; k++) {
+      const a0 = L[j][k];
+      const a1 = L[j + 1][k];
+      L[j][k] = -L[j + 1][j] * a0 + a1;
+      L[j + 1][k] = eta * a0 + lambda * a1;
+    }
+    L[j + 1][j] = lambda;
+
+    for (let k = j + 2; k < n; k++) {
+      [L[k][j], L[k][j + 1]] = [L[k][j + 1], L[k][j]];
+    }
+    for (let k = 0; k < n; k++) {
+      [Z[k][j], Z[k][j + 1]] = [Z[k][j + 1], Z[k][j]];
+    }
+  }
+
+  /**
+   * Depth-first search of the m best integer vectors in the decorrelated space
+   */
+  private static sequentialSearch(
+    L: number[][],
+    D: number[],
+    zs: number[],
+    m: number
+  ): { vectors: number[][]; distances: number[] } {
+    const n = D.length;
+    const S = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+    const dist = new Array<number>(n).fill(0);
+    const zb = new Array<number>(n).fill(0);
+    const z = new Array<number>(n).fill(0);
+    const step = new Array<number>(n).fill(0);
+    const vectors: number[][] = [];
+    const distances: number[] = [];
+    const sign = (value: number) => (value <= 0 ? -1 : 1);
+
+    let maxDist = Infinity;
+    let worst = 0;
+    let k = n - 1;
+    zb[k] = zs[k];
+    z[k] = Math.round(zb[k]);
+    let y = zb[k] - z[k];
+    step[k] = sign(y);
+
+    for (let loop = 0; loop < this.MAX_SEARCH_LOOPS; loop++) {
+      const newDist = dist[k] + (y * y) / D[k];
+
+      if (newDist < maxDist) {
+        if (k !== 0) {
+          dist[--k] = newDist;
+          for (let i = 0; i <= k; i++) {
+            S[k][i] = S[k + 1][i] + (z[k + 1] - zb[k + 1]) * L[k + 1][i];
+          }
+          zb[k] = zs[k] + S[k][k];
+          z[k] = Math.round(zb[k]);
+          y = zb[k] - z[k];
+          step[k] = sign(y);
+        } else {
+          if (vectors.length < m) {
+            if (vectors.length === 0 || newDist > distances[worst]) worst = vectors.length;
+            vectors.push([...z]);
+            distances.push(newDist);
+          } else {
+            if (newDist < distances[worst]) {
+              vectors[worst] = [...z];
+              distances[worst] = newDist;
+              worst = distances.indexOf(Math.max(...distances));
+            }
+            maxDist = distances[worst];
+          }
+          z[0] += step[0];
+          y = zb[0] - z[0];
+          step[0] = -step[0] - sign(step[0]);
+        }
+      } else {
+        if (k === n - 1) break;
+        k++;
+        z[k] += step[k];
+        y = zb[k] - z[k];
+        step[k] = -step[k] - sign(step[k]);
+      }
+    }
+
+    const order = distances.map((_, i) => i).sort((i, j) => distances[i] - distances[j]);
+    return {
+      vectors: order.map(i => vectors[i]),
+      distances: order.map(i => distances[i]),
+    };
+  }
+
+  private static identity(n: number): number[][] {
+    return Array.from({ length: n }, (_, i) =>
+      Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))
+    );
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Broadcast ionospheric coefficients (GPS Klobuchar model)
+ */
+export interface KlobucharParameters {
+  alpha: [number, number, number, number];
+  beta: [number, number, number, number];
+}
+
+/**
+ * Standard atmospheric delay models for single-point positioning
+ */
+export class AtmosphericCorrection {
+  private static readonly SPEED_OF_LIGHT = 299792458; // m/s
+
+  /**
+   * Klobuchar ionospheric delay on GPS L1 (meters)
+   * @param lat Receiver latitude (degrees)
+   * @param lon Receiver longitude (degrees)
+   * @param azimuth Satellite azimuth (degrees)
+   * @param elevation Satellite elevation (degrees)
+   * @param gpsSecondsOfWeek GPS time of week (s)
+   */
+  public static klobuchar(
+    params: KlobucharParameters,
+    lat: number,
+    lon: number,
+    azimuth: number,
+    elevation: number,
+    gpsSecondsOfWeek: number
+  ): number {
+    if (elevation <= 0) return 0;
+
+    // Semicircles
+    const el = elevation / 180;
+    const az = (azimuth * Math.PI) / 180;
+
+    const psi = 0.0137 / (el + 0.11) - 0.022;
+    let phiI = lat / 180 + psi * Math.cos(az);
+    phiI = Math.max(-0.416, Math.min(0.416, phiI));
+    const lambdaI = lon / 180 + (psi * Math.sin(az)) / Math.cos(phiI * Math.PI);
+    const phiM = phiI + 0.064 * Math.cos((lambdaI - 1.617) * Math.PI);
+
+    let t = 43200 * lambdaI + gpsSecondsOfWeek;
+    t -= Math.floor(t / 86400) * 86400;
+
+    const f = 1 + 16 * Math.pow(0.53 - el, 3);
+
+    let amp = params.alpha[0] + phiM * (params.alpha[1] + phiM * (params.alpha[2] + phiM * params.alpha[3]));
+    let per = params.beta[0] + phiM * (params.beta[1] + phiM * (params.beta[2] + phiM * params.beta[3]));
+    amp = Math.max(amp, 0);
+    per = Math.max(per, 72000);
+
+    const x = (2 * Math.PI * (t - 50400)) / per;
+    const delay = Math.abs(x) < 1.57
+      ? f * (5e-9 + amp * (1 - (x * x) / 2 + (x * x * x * x) / 24))
+      : f * 5e-9;
+
+    return delay * AtmosphericCorrection.SPEED_OF_LIGHT;
+  }
+
+  /**
+   * Saastamoinen tropospheric delay with a standard atmosphere (meters)
+   * @param lat Receiver latitude (degrees)
+   * @param height Receiver ellipsoidal height (m)
+   * @param elevation Satellite elevation (degrees)
+   * @param humidity Relative humidity (0-1)
+   */
+  public static saastamoinen(
+    lat: number,
+    height: number,
+    elevation: number,
+    humidity: number = 0.7
+  ): number {
+    if (height < -100 || height > 1e4 || elevation <= 0) return 0;
+
+    const h = Math.max(height, 0);
+    const pressure = 1013.25 * Math.pow(1 - 2.2557e-5 * h, 5.2568);
+    const temperature = 15 - 6.5e-3 * h + 273.16;
+    const e = 6.108 * humidity * Math.exp((17.15 * temperature - 4684) / (temperature - 38.45));
+    const z = Math.PI / 2 - (elevation * Math.PI) / 180;
+    const phi = (lat * Math.PI) / 180;
+
+    const hydrostatic = (0.0022768 * pressure) / (1 - 0.00266 * Math.cos(2 * phi) - 0.00028 * h / 1e3) / Math.cos(z);
+    const wet = (0.002277 * (1255 / temperature + 0.05) * e) / Math.cos(z);
+
+    return hydrostatic + wet;
+  }
+}
@@ -0,0 +1,581 @@
+import * as math from 'mathjs';
+import { CoordinateSystemManager } from '../sensors/CoordinateSystemManager';
+import type { FixQuality, PositionFix } from '../ai/LLMAssistant';
+import { AmbiguityResolver } from './AmbiguityResolver';
+import { AtmosphericCorrection } from './AtmosphericCorrection';
+import { SatelliteOrbit, type EphemerisSystem } from './SatelliteOrbit';
+import { rinexParser, type RinexHeader, type RinexNavigationData, type RinexObservation } from './RinexParser';
+
+type Vector3 = [number, number, number];
+
+/** Result of RinexParser.parseRinexFile */
+export interface RinexObservationData {
+  header: RinexHeader;
+  observations: RinexObservation[];
+}
+
+export interface BaselineProcessorOptions {
+  mode?: 'static' | 'kinematic';
+  basePosition?: Vector3;        // Known base ECEF coordinates (defaults to the header APPROX POSITION)
+  frequencies?: 1 | 2;           // L1 only, or L1 + L2/E5b/B2I when both receivers track them
+  elevationMask?: number;        // degrees
+  ratioThreshold?: number;       // LAMBDA ratio test threshold
+  phaseSigma?: number;           // Zenith carrier-phase sigma (m)
+  codeToPhaseRatio?: number;     // Code sigma = phaseSigma * ratio
+  fixedQuality?: FixQuality;     // Quality reported for fixed solutions ('PPK' or 'RTK')
+  epochTolerance?: number;       // Base/rover epoch matching tolerance (ms)
+}
+
+export interface BaselineSolution {
+  timestamp: number;
+  quality: FixQuality;
+  roverECEF: Vector3;
+  latLonAlt: Vector3;
+  baselineENU: Vector3;          // Rover - base in the base local frame (m)
+  baselineLength: number;        // m
+  covariance: number[][];        // 3x3 ECEF position covariance (m²)
+  satellites: number;
+  ratio?: number;
+  fixedAmbiguities?: number;
+}
+
+interface SignalDefinition {
+  codes: string[];
+  phases: string[];
+  frequency: number;
+}
+
+interface SatelliteMeasurement {
+  satId: string;
+  system: EphemerisSystem;
+  elevation: number;             // degrees, seen from the base
+  satellitePosition: Vector3;    // ECEF at emission, rotated to the rover reception frame
+  baseRange: number;
+  troposphere: number;           // Rover - base Saastamoinen delay (m)
+  code: (number | undefined)[];  // Single differences per frequency (m)
+  phase: (number | undefined)[]; // Single differences per frequency (m)
+  slip: boolean[];
+}
+
+const SPEED_OF_LIGHT = 299792458;
+
+// Signals per system and frequency (observation codes in order of preference)
+const SIGNALS: Record<EphemerisSystem, SignalDefinition[]> = {
+  G: [
+    { codes: ['C1C', 'C1W', 'C1', 'P1'], phases: ['L1C', 'L1W', 'L1'], frequency: 1575.42e6 },
+    { codes: ['C2W', 'C2L', 'C2X', 'P2', 'C2'], phases: ['L2W', 'L2L', 'L2X', 'L2'], frequency: 1227.6e6 },
+  ],
+  E: [
+    { codes: ['C1C', 'C1X'], phases: ['L1C', 'L1X'], frequency: 1575.42e6 },
+    { codes: ['C7Q', 'C7X', 'C7I'], phases: ['L7Q', 'L7X', 'L7I'], frequency: 1207.14e6 },
+  ],
+  C: [
+    { codes: ['C2I', 'C1I', 'C2X'], phases: ['L2I', 'L1I', 'L2X'], frequency: 1561.098e6 },
+    { codes: ['C7I', 'C7X'], phases: ['L7I', 'L7X'], frequency: 1207.14e6 },
+  ],
+};
+
+/**
+ * Single-baseline RTK/PPK processing of RINEX base and rover observations.
+ *
+ * A Kalman filter estimates the rover position and single-difference carrier
+ * ambiguities from double-differenced code and phase; integer ambiguities are
+ * resolved with LAMBDA and validated with the ratio test.
+ */
+export class BaselineProcessor {
+  private static readonly INITIAL_AMBIGUITY_SIGMA = 30;   // cycles
+  private static readonly KINEMATIC_POSITION_SIGMA = 30;  // m
+  private static readonly STATIC_PROCESS_NOISE = 1e-8;    // m² per epoch
+
+  private readonly options: Required<Omit<BaselineProcessorOptions, 'basePosition'>> & { basePosition?: Vector3 };
+
+  // Filter state: [x, y, z, N(sat, freq)...] with ambiguities in cycles
+  private state: number[] = [];
+  private covariance: number[][] = [];
+  private ambiguityIndex = new Map<string, number>();
+
+  constructor(options: BaselineProcessorOptions = {}) {
+    this.options = {
+      mode: options.mode ?? 'kinematic',
+      basePosition: options.basePosition,
+      frequencies: options.frequencies ?? 2,
+      elevationMask: options.elevationMask ?? 15,
+      ratioThreshold: options.ratioThreshold ?? 3,
+      phaseSigma: options.phaseSigma ?? 0.003,
+      codeToPhaseRatio: options.codeToPhaseRatio ?? 100,
+      fixedQuality: options.fixedQuality ?? 'PPK',
+      epochTolerance: options.epochTolerance ?? 50,
+    };
+  }
+
+  /**
+   * Process base and rover observation files epoch by epoch
+   */
+  public process(
+    base: RinexObservationData,
+    rover: RinexObservationData,
+    navigation: RinexNavigationData
+  ): BaselineSolution[] {
+    const basePosition = this.options.basePosition ?? base.header.positionApprox;
+    if (!basePosition || Math.hypot(...basePosition) < 1e6) {
+      throw new Error('Base position unknown: set basePosition or APPROX POSITION XYZ in the base header');
+    }
+
+    this.reset();
+    const solutions: BaselineSolution[] = [];
+    const baseEpochs = new Map<number, RinexObservation>();
+    for (const epoch of base.observations) {
+      baseEpochs.set(Math.round(epoch.timestamp / this.options.epochTolerance), epoch);
+    }
+
+    let roverPosition: Vector3 | undefined = rover.header.positionApprox &&
+      Math.hypot(...rover.header.positionApprox) > 1e6 ? rover.header.positionApprox : undefined;
+
+    for (const roverEpoch of rover.observations) {
+      const baseEpoch = baseEpochs.get(Math.round(roverEpoch.timestamp / this.options.epochTolerance));
+
+      try {
+        // Standalone position: filter linearization point and fallback without base epoch
+        const [single] = rinexParser.solveStandalonePositions([roverEpoch], navigation, {
+          approxPosition: roverPosition,
+          elevationMask: this.options.elevationMask,
+          audit: false,
+        });
+        const approx = single?.receiverECEF ?? roverPosition;
+        if (!approx) continue;
+
+        const solution = baseEpoch
+          ? this.processEpoch(baseEpoch, roverEpoch, navigation, basePosition, approx)
+          : null;
+
+        if (solution) {
+          roverPosition = solution.roverECEF;
+          solutions.push(solution);
+        } else if (single) {
+          roverPosition = single.receiverECEF;
+          solutions.push(this.buildSolution(
+            roverEpoch.timestamp,
+            'Single',
+            single.receiverECEF,
+            basePosition,
+            single.covariance.slice(0, 3).map(row => row.slice(0, 3)),
+            single.satellitesUsed
+          ));
+        }
+      } catch (error) {
+        console.warn(`Epoch ${new Date(roverEpoch.timestamp).toISOString()} skipped:`, error);
+      }
+    }
+
+    return solutions;
+  }
+
+  /**
+   * Convert baseline solutions into position fixes for LLMAssistant reports
+   */
+  public static toPositionFixes(solutions: BaselineSolution[]): PositionFix[] {
+    return solutions.map(solution => ({
+      lat: solution.latLonAlt[0],
+      lon: solution.latLonAlt[1],
+      alt: solution.latLonAlt[2],
+      timestamp: solution.timestamp,
+      quality: solution.quality,
+      source: 'RINEX',
+      metadata: {
+        satCount: solution.satellites,
+        fixType: solution.quality,
+        ratio: solution.ratio,
+        baselineLength: solution.baselineLength,
+        baselineENU: solution.baselineENU,
+        sigmaHorizontal: Math.sqrt(solution.covariance[0][0] + solution.covariance[1][1]),
+      },
+    }));
+  }
+
+  private reset(): void {
+    this.state = [0, 0, 0];
+    this.covariance = this.zeros(3);
+    this.ambiguityIndex.clear();
+  }
+
+  /**
+   * One filter epoch: time update, double-difference measurement update, LAMBDA
+   */
+  private processEpoch(
+    baseEpoch: RinexObservation,
+    roverEpoch: RinexObservation,
+    navigation: RinexNavigationData,
+    basePosition: Vector3,
+    roverApprox: Vector3
+  ): BaselineSolution | null {
+    const measurements = this.buildMeasurements(baseEpoch, roverEpoch, navigation, basePosition, roverApprox);
+    if (measurements.length < 5) return null;
+
+    this.timeUpdate(measurements, roverApprox);
+
+    // Double differences against the highest satellite of each system
+    const references = new Map<EphemerisSystem, SatelliteMeasurement>();
+    for (const m of measurements) {
+      const ref = references.get(m.system);
+      if (!ref || m.elevation > ref.elevation) references.set(m.system, m);
+    }
+
+    if (this.measurementUpdate(measurements, references) === 0) return null;
+
+    const position: Vector3 = [this.state[0], this.state[1], this.state[2]];
+    const positionCovariance = this.covariance.slice(0, 3).map(row => row.slice(0, 3));
+    const satellites = measurements.length;
+
+    const fixed = this.resolveAmbiguities(measurements, references);
+    if (fixed) {
+      return {
+        ...this.buildSolution(roverEpoch.timestamp, this.options.fixedQuality, fixed.position, basePosition, fixed.covariance, satellites),
+        ratio: fixed.ratio,
+        fixedAmbiguities: fixed.count,
+      };
+    }
+
+    return this.buildSolution(roverEpoch.timestamp, 'Float', position, basePosition, positionCovariance, satellites);
+  }
+
+  /**
+   * Single differences (rover - base) of code and phase for common satellites
+   */
+  private buildMeasurements(
+    baseEpoch: RinexObservation,
+    roverEpoch: RinexObservation,
+    navigation: RinexNavigationData,
+    basePosition: Vector3,
+    roverPosition: Vector3
+  ): SatelliteMeasurement[] {
+    const receiveTime = SatelliteOrbit.timestampToGpsSeconds(roverEpoch.timestamp);
+    const measurements: SatelliteMeasurement[] = [];
+    const baseGeodetic = CoordinateSystemManager.fromECEF(...basePosition);
+    const roverGeodetic = CoordinateSystemManager.fromECEF(...roverPosition);
+
+    for (const [satId, roverValues] of Object.entries(roverEpoch.observations)) {
+      const baseValues = baseEpoch.observations[satId];
+      const system = satId[0] as EphemerisSystem;
+      if (!baseValues || !SIGNALS[system]) continue;
+
+      const signals = SIGNALS[system].slice(0, this.options.frequencies);
+      const primaryCode = signals[0].codes.find(code => roverValues[code]?.value && baseValues[code]?.value);
+      if (!primaryCode) continue;
+
+      const ephemeris = SatelliteOrbit.selectEphemeris(navigation.ephemerides, satId, receiveTime);
+      if (!ephemeris) continue;
+
+      const roverSat = SatelliteOrbit.computeAtReception(ephemeris, receiveTime, roverValues[primaryCode].value, roverPosition);
+      const baseSat = SatelliteOrbit.computeAtReception(ephemeris, receiveTime, baseValues[primaryCode].value, basePosition);
+
+      const [east, north, up] = CoordinateSystemManager.toENU(baseSat.position, basePosition);
+      const elevation = (Math.atan2(up, Math.hypot(east, north)) * 180) / Math.PI;
+      if (elevation < this.options.elevationMask) continue;
+
+      const baseRange = this.distance(baseSat.position, basePosition);
+
+      // Short baselines with a height difference keep a tropospheric residual
+      const [roverEast, roverNorth, roverUp] = CoordinateSystemManager.toENU(roverSat.position, roverPosition);
+      const roverElevation = (Math.atan2(roverUp, Math.hypot(roverEast, roverNorth)) * 180) / Math.PI;
+      const troposphere =
+        AtmosphericCorrection.saastamoinen(roverGeodetic[0], roverGeodetic[2], roverElevation) -
+        AtmosphericCorrection.saastamoinen(baseGeodetic[0], baseGeodetic[2], elevation);
+
+      const code: (number | undefined)[] = [];
+      const phase: (number | undefined)[] = [];
+      const slip: boolean[] = [];
+
+      signals.forEach(signal => {
+        const wavelength = SPEED_OF_LIGHT / signal.frequency;
+        const codeType = signal.codes.find(type => roverValues[type]?.value && baseValues[type]?.value);
+        const phaseType = signal.phases.find(type => roverValues[type]?.value && baseValues[type]?.value);
+
+        code.push(codeType ? roverValues[codeType].value - baseValues[codeType].value : undefined);
+        phase.push(phaseType
+          ? (roverValues[phaseType].value - baseValues[phaseType].value) * wavelength
+          : undefined);
+        // Loss of lock indicator bit 0 on either receiver
+        slip.push(!!phaseType && (((roverValues[phaseType].lli ?? 0) & 1) === 1 || ((baseValues[phaseType].lli ?? 0) & 1) === 1));
+      });
+
+      measurements.push({
+        satId, system, elevation, satellitePosition: roverSat.position, baseRange, troposphere, code, phase, slip,
+      });
+    }
+
+    return measurements;
+  }
+
+  /**
+   * Prediction: position noise according to the mode, ambiguity (re)initialization
+   */
+  private timeUpdate(measurements: SatelliteMeasurement[], roverApprox: Vector3): void {
+    const initialized = this.covariance[0][0] > 0;
+
+    if (this.options.mode === 'kinematic' || !initialized) {
+      const variance = BaselineProcessor.KINEMATIC_POSITION_SIGMA ** 2;
+      for (let i = 0; i < 3; i++) {
+        this.state[i] = roverApprox[i];
+        for (let j = 0; j < this.state.length; j++) {
+          this.covariance[i][j] = 0;
+          this.covariance[j][i] = 0;
+        }
+        this.covariance[i][i] = variance;
+      }
+    } else {
+      for (let i = 0; i < 3; i++) this.covariance[i][i] += BaselineProcessor.STATIC_PROCESS_NOISE;
+    }
+
+    const tracked = new Set<string>();
+    for (const m of measurements) {
+      m.phase.forEach((phase, f) => {
+        if (phase === undefined || m.code[f] === undefined) return;
+        const key = `${m.satId}:${f}`;
+        tracked.add(key);
+
+        const wavelength = SPEED_OF_LIGHT / SIGNALS[m.system][f].frequency;
+        const estimate = (phase - m.code[f]!) / wavelength;
+        const index = this.ambiguityIndex.get(key);
+
+        if (index === undefined) {
+          this.addAmbiguity(key, estimate);
+        } else if (m.slip[f]) {
+          this.resetState(index, estimate, BaselineProcessor.INITIAL_AMBIGUITY_SIGMA ** 2);
+        }
+      });
+    }
+
+    // Ambiguities of satellites no longer tracked are dropped
+    for (const key of Array.from(this.ambiguityIndex.keys())) {
+      if (!tracked.has(key)) this.removeAmbiguity(key);
+    }
+  }
+
+  /**
+   * EKF update with double-differenced phase and code. Returns the number of rows used.
+   */
+  private measurementUpdate(
+    measurements: SatelliteMeasurement[],
+    references: Map<EphemerisSystem, SatelliteMeasurement>,
+  ): number {
+    const n = this.state.length;
+    const position: Vector3 = [this.state[0], this.state[1], this.state[2]];
+    const rows: number[][] = [];
+    const innovations: number[] = [];
+    const groups: { ref: number; sats: number[]; phase: boolean }[] = [];
+    const variances: number[] = [];
+
+    // Ranges and lines of sight at the current estimate
+    const ranges = new Map<string, { range: number; los: Vector3 }>();
+    for (const m of measurements) {
+      const range = this.distance(m.satellitePosition, position);
+      const los = m.satellitePosition.map((v, i) => (v - position[i]) / range) as Vector3;
+      ranges.set(m.satId, { range, los });
+    }
+
+    for (const [system, ref] of Array.from(references.entries())) {
+      const sats = measurements.filter(m => m.system === system && m !== ref);
+
+      for (let f = 0; f < this.options.frequencies; f++) {
+        for (const isPhase of [true, false]) {
+          const refValue = isPhase ? ref.phase[f] : ref.code[f];
+          const refAmbiguity = this.ambiguityIndex.get(`${ref.satId}:${f}`);
+          if (refValue === undefined || (isPhase && refAmbiguity === undefined)) continue;
+
+          const group = { ref: this.elevationVariance(ref.elevation, isPhase), sats: [] as number[], phase: isPhase };
+          const refGeometry = ranges.get(ref.satId)!;
+
+          for (const m of sats) {
+            const value = isPhase ? m.phase[f] : m.code[f];
+            const ambiguity = this.ambiguityIndex.get(`${m.satId}:${f}`);
+            if (value === undefined || (isPhase && ambiguity === undefined)) continue;
+
+            const geometry = ranges.get(m.satId)!;
+            const wavelength = SPEED_OF_LIGHT / SIGNALS[system][f].frequency;
+
+            // DD model: (ρr - ρb + T)_i - (ρr - ρb + T)_ref + λ (N_i - N_ref)
+            let predicted = (geometry.range - m.baseRange + m.troposphere) -
+              (refGeometry.range - ref.baseRange + ref.troposphere);
+            const row = new Array<number>(n).fill(0);
+            for (let k = 0; k < 3; k++) row[k] = -geometry.los[k] + refGeometry.los[k];
+
+            if (isPhase) {
+              predicted += wavelength * (this.state[ambiguity!] - this.state[refAmbiguity!]);
+              row[ambiguity!] = wavelength;
+              row[refAmbiguity!] = -wavelength;
+            }
+
+            rows.push(row);
+            innovations.push((value - refValue) - predicted);
+            group.sats.push(variances.length);
+            variances.push(this.elevationVariance(m.elevation, isPhase));
+          }
+
+          if (group.sats.length) groups.push(group);
+        }
+      }
+    }
+
+    if (rows.length === 0) return 0;
+
+    // DD covariance: σ²_i δij + σ²_ref within a group
+    const R = Array.from({ length: rows.length }, () => new Array<number>(rows.length).fill(0));
+    for (const group of groups) {
+      for (const i of group.sats) {
+        for (const j of group.sats) R[i][j] = group.ref + (i === j ? variances[i] : 0);
+      }
+    }
+
+    const H = math.matrix(rows);
+    const P = math.matrix(this.covariance);
+    const PHt = math.multiply(P, math.transpose(H));
+    const S = math.add(math.multiply(H, PHt), math.matrix(R)) as math.Matrix;
+    const K = math.multiply(PHt, math.inv(S));
+    const dx = (math.multiply(K, math.matrix(innovations)) as math.Matrix).toArray() as number[];
+
+    this.state = this.state.map((value, i) => value + dx[i]);
+    const I = math.identity(n) as math.Matrix;
+    this.covariance = (math.multiply(math.subtract(I, math.multiply(K, H)), P) as math.Matrix).toArray() as number[][];
+    this.symmetrize(this.covariance);
+
+    return rows.length;
+  }
+
+  /**
+   * LAMBDA on double-difference ambiguities and fixed position computation
+   */
+  private resolveAmbiguities(
+    measurements: SatelliteMeasurement[],
+    references: Map<EphemerisSystem, SatelliteMeasurement>
+  ): { position: Vector3; covariance: number[][]; ratio: number; count: number } | null {
+    const n = this.state.length;
+
+    // D maps single-difference ambiguities to double differences
+    const D: number[][] = [];
+    for (const m of measurements) {
+      const ref = references.get(m.system);
+      if (!ref || ref === m) continue;
+      for (let f = 0; f < this.options.frequencies; f++) {
+        const i = this.ambiguityIndex.get(`${m.satId}:${f}`);
+        const r = this.ambiguityIndex.get(`${ref.satId}:${f}`);
+        if (i === undefined || r === undefined) continue;
+        const row = new Array<number>(n).fill(0);
+        row[i] = 1;
+        row[r] = -1;
+        D.push(row);
+      }
+    }
+    if (D.length < 4) return null;
+
+    const Dm = math.matrix(D);
+    const P = math.matrix(this.covariance);
+    const floatDD = (math.multiply(Dm, math.matrix(this.state)) as math.Matrix).toArray() as number[];
+    const Qbb = (math.multiply(math.multiply(Dm, P), math.transpose(Dm)) as math.Matrix).toArray() as number[][];
+    this.symmetrize(Qbb);
+
+    let result;
+    try {
+      result = AmbiguityResolver.search(floatDD, Qbb, 2);
+    } catch {
+      return null;
+    }
+    if (result.candidates.length < 2 || result.ratio < this.options.ratioThreshold) return null;
+
+    // xa = x - Qab Qbb^-1 (b - b_fixed)
+    const Pa = P.toArray() as number[][];
+    const Qab = (math.multiply(math.matrix(Pa.slice(0, 3)), math.transpose(Dm)) as math.Matrix);
+    const QbbInv = math.inv(math.matrix(Qbb));
+    const gain = math.multiply(Qab, QbbInv);
+    const db = floatDD.map((value, i) => value - result.candidates[0][i]);
+    const correction = (math.multiply(gain, math.matrix(db)) as math.Matrix).toArray() as number[];
+    const fixedCovariance = (math.subtract(
+      math.matrix(Pa.slice(0, 3).map(row => row.slice(0, 3))),
+      math.multiply(gain, math.transpose(Qab))
+    ) as math.Matrix).toArray() as number[][];
+
+    return {
+      position: [0, 1, 2].map(i => this.state[i] - correction[i]) as Vector3,
+      covariance: fixedCovariance,
+      ratio: result.ratio,
+      count: floatDD.length,
+    };
+  }
+
+  private buildSolution(
+    timestamp: number,
+    quality: FixQuality,
+    position: Vector3,
+    basePosition: Vector3,
+    covariance: number[][],
+    satellites: number
+  ): BaselineSolution {
+    const baselineENU = CoordinateSystemManager.toENU(position, basePosition);
+    return {
+      timestamp,
+      quality,
+      roverECEF: position,
+      latLonAlt: CoordinateSystemManager.fromECEF(...position),
+      baselineENU,
+      baselineLength: this.distance(position, basePosition),
+      covariance,
+      satellites,
+    };
+  }
+
+  /**
+   * Elevation-dependent variance of an undifferenced observation (m²)
+   */
+  private elevationVariance(elevation: number, phase: boolean): number {
+    const sigma = this.options.phaseSigma * (phase ? 1 : this.options.codeToPhaseRatio);
+    const sinEl = Math.sin((Math.max(elevation, 5) * Math.PI) / 180);
+    return 2 * (sigma * sigma + (sigma * sigma) / (sinEl * sinEl));
+  }
+
+  private addAmbiguity(key: string, value: number): void {
+    const n = this.state.length;
+    this.state.push(value);
+    this.covariance.forEach(row => row.push(0));
+    const row = new Array<number>(n + 1).fill(0);
+    row[n] = BaselineProcessor.INITIAL_AMBIGUITY_SIGMA ** 2;
+    this.covariance.push(row);
+    this.ambiguityIndex.set(key, n);
+  }
+
+  private removeAmbiguity(key: string): void {
+    const index = this.ambiguityIndex.get(key)!;
+    this.state.splice(index, 1);
+    this.covariance.splice(index, 1);
+    this.covariance.forEach(row => row.splice(index, 1));
+    this.ambiguityIndex.delete(key);
+    for (const [other, i] of Array.from(this.ambiguityIndex.entries())) {
+      if (i > index) this.ambiguityIndex.set(other, i - 1);
+    }
+  }
+
+  private resetState(index: number, value: number, variance: number): void {
+    this.state[index] = value;
+    for (let j = 0; j < this.state.length; j++) {
+      this.covariance[index][j] = 0;
+      this.covariance[j][index] = 0;
+    }
+    this.covariance[index][index] = variance;
+  }
+
+  private symmetrize(matrix: number[][]): void {
+    for (let i = 0; i < matrix.length; i++) {
+      for (let j = i + 1; j < matrix.length; j++) {
+        const value = (matrix[i][j] + matrix[j][i]) / 2;
+        matrix[i][j] = value;
+        matrix[j][i] = value;
+      }
+    }
+  }
+
+  private distance(a: Vector3, b: Vector3): number {
+    return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+  }
+
+  private zeros(n: number): number[][] {
+    return Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  }
+}
@@ -0,0 +1,446 @@
+import type { RinexHeader, RinexObservation } from './RinexParser';
+
+export type CycleSlipMethod = 'LLI' | 'GEOMETRY_FREE' | 'MELBOURNE_WUBBENA';
+
+export interface CycleSlip {
+  satId: string;
+  timestamp: number;
+  methods: CycleSlipMethod[];
+  geometryFreeJump?: number;    // m
+  wideLaneJump?: number;        // wide-lane cycles
+}
+
+export interface ObservationArc {
+  start: number;
+  end: number;
+  epochs: number;
+}
+
+export interface DataGap {
+  satId?: string;               // Undefined for receiver-wide gaps
+  start: number;                // Last epoch before the gap
+  end: number;                  // First epoch after the gap
+  duration: number;             // s
+  missingEpochs: number;
+}
+
+export interface QualitySample {
+  timestamp: number;
+  mp1?: number;                 // m, arc mean removed
+  mp2?: number;                 // m, arc mean removed
+  snr?: number;                 // dB-Hz
+  geometryFree?: number;        // m
+  slip?: boolean;
+}
+
+export interface SatelliteQuality {
+  satId: string;
+  system: string;
+  observations: number;
+  expectedObservations: number;
+  usableObservations: number;
+  arcs: ObservationArc[];
+  slips: CycleSlip[];
+  lliCount: number;
+  snrDrops: number;
+  meanSnr?: number;
+  mp1Rms?: number;
+  mp2Rms?: number;
+  samples: QualitySample[];
+}
+
+export interface ObservationQualityReport {
+  start?: number;
+  end?: number;
+  interval: number;             // s
+  epochs: number;
+  expectedEpochs: number;
+  satellites: SatelliteQuality[];
+  gaps: DataGap[];
+  totalSlips: number;
+  totalLli: number;
+  mp1Rms?: number;
+  mp2Rms?: number;
+  observationsPerSlip?: number;
+  usablePercentage: number;
+}
+
+export interface QualityCheckOptions {
+  minSnr?: number;              // dB-Hz under which an observation is flagged
+  snrDropThreshold?: number;    // dB-Hz fall between consecutive epochs
+  geometryFreeThreshold?: number; // m between consecutive epochs
+  wideLaneThreshold?: number;   // wide-lane cycles from the running mean
+  minArcEpochs?: number;        // Shorter arcs are not counted as usable
+  gapFactor?: number;           // A gap is a spacing larger than gapFactor * interval
+}
+
+const SPEED_OF_LIGHT = 299792458;
+
+// Carrier frequencies by system and RINEX band digit (GLONASS FDMA is not modelled)
+const BAND_FREQUENCIES: Record<string, Record<string, number>> = {
+  G: { '1': 1575.42e6, '2': 1227.6e6, '5': 1176.45e6 },
+  E: { '1': 1575.42e6, '5': 1176.45e6, '7': 1207.14e6, '8': 1191.795e6, '6': 1278.75e6 },
+  C: { '2': 1561.098e6, '1': 1575.42e6, '7': 1207.14e6, '6': 1268.52e6, '5': 1176.45e6 },
+  J: { '1': 1575.42e6, '2': 1227.6e6, '5': 1176.45e6 },
+  S: { '1': 1575.42e6, '5': 1176.45e6 },
+};
+
+interface SignalSelection {
+  code1?: string;
+  code2?: string;
+  phase1?: string;
+  phase2?: string;
+  snr1?: string;
+  f1?: number;
+  f2?: number;
+}
+
+/**
+ * Observation quality check in the spirit of teqc: arcs, data gaps, cycle slips
+ * (loss of lock, geometry-free and Melbourne-Wübbena combinations), code multipath
+ * MP1/MP2 and signal strength.
+ */
+export class ObservationQualityChecker {
+  private static readonly DEFAULTS: Required<QualityCheckOptions> = {
+    minSnr: 30,
+    snrDropThreshold: 10,
+    geometryFreeThreshold: 0.05,
+    wideLaneThreshold: 4,
+    minArcEpochs: 10,
+    gapFactor: 1.5,
+  };
+
+  /**
+   * Analyse the observations of a parsed RINEX file
+   */
+  public static analyze(
+    header: RinexHeader,
+    observations: RinexObservation[],
+    options: QualityCheckOptions = {}
+  ): ObservationQualityReport {
+    const settings = { ...ObservationQualityChecker.DEFAULTS, ...options };
+    const epochs = observations
+      .filter(epoch => epoch.epochFlag <= 1)
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    const interval = header.interval && header.interval > 0
+      ? header.interval
+      : this.medianInterval(epochs.map(epoch => epoch.timestamp));
+    const maxSpacing = interval * 1000 * settings.gapFactor;
+
+    // Receiver-wide gaps
+    const gaps: DataGap[] = [];
+    for (let k = 1; k < epochs.length; k++) {
+      const gap = this.gapBetween(epochs[k - 1].timestamp, epochs[k].timestamp, interval, maxSpacing);
+      if (gap) gaps.push(gap);
+    }
+
+    const satIds = Array.from(new Set(epochs.flatMap(epoch => Object.keys(epoch.observations)))).sort();
+    const satellites = satIds.map(satId => this.analyzeSatellite(satId, epochs, interval, maxSpacing, settings));
+    satellites.forEach(satellite => {
+      for (let i = 1; i < satellite.arcs.length; i++) {
+        const gap = this.gapBetween(satellite.arcs[i - 1].end, satellite.arcs[i].start, interval, maxSpacing);
+        if (gap) gaps.push({ ...gap, satId: satellite.satId });
+      }
+    });
+
+    const start = epochs[0]?.timestamp;
+    const end = epochs[epochs.length - 1]?.timestamp;
+    const expectedEpochs = start !== undefined && end !== undefined && interval > 0
+      ? Math.round((end - start) / (interval * 1000)) + 1
+      : epochs.length;
+
+    const totalObservations = satellites.reduce((sum, sat) => sum + sat.observations, 0);
+    const totalExpected = satellites.reduce((sum, sat) => sum + sat.expectedObservations, 0);
+    const totalUsable = satellites.reduce((sum, sat) => sum + sat.usableObservations, 0);
+    const totalSlips = satellites.reduce((sum, sat) => sum + sat.slips.length, 0);
+
+    return {
+      start,
+      end,
+      interval,
+      epochs: epochs.length,
+      expectedEpochs,
+      satellites,
+      gaps,
+      totalSlips,
+      totalLli: satellites.reduce((sum, sat) => sum + sat.lliCount, 0),
+      mp1Rms: this.pooledRms(satellites.flatMap(sat => sat.samples.map(sample => sample.mp1))),
+      mp2Rms: this.pooledRms(satellites.flatMap(sat => sat.samples.map(sample => sample.mp2))),
+      observationsPerSlip: totalSlips > 0 ? totalObservations / totalSlips : undefined,
+      usablePercentage: totalExpected > 0 ? (100 * totalUsable) / totalExpected : 0,
+    };
+  }
+
+  /**
+   * Compact summary for audit logs (without the per-epoch samples)
+   */
+  public static summarize(report: ObservationQualityReport) {
+    return {
+      interval: report.interval,
+      epochs: report.epochs,
+      expectedEpochs: report.expectedEpochs,
+      satellites: report.satellites.length,
+      gaps: report.gaps.filter(gap => !gap.satId).length,
+      satelliteGaps: report.gaps.filter(gap => gap.satId).length,
+      totalSlips: report.totalSlips,
+      totalLli: report.totalLli,
+      mp1Rms: report.mp1Rms,
+      mp2Rms: report.mp2Rms,
+      observationsPerSlip: report.observationsPerSlip,
+      usablePercentage: Math.round(report.usablePercentage * 10) / 10,
+      perSatellite: report.satellites.map(sat => ({
+        satId: sat.satId,
+        arcs: sat.arcs.length,
+        slips: sat.slips.length,
+        mp1Rms: sat.mp1Rms,
+        mp2Rms: sat.mp2Rms,
+        meanSnr: sat.meanSnr,
+      })),
+    };
+  }
+
+  private static analyzeSatellite(
+    satId: string,
+    epochs: RinexObservation[],
+    interval: number,
+    maxSpacing: number,
+    settings: Required<QualityCheckOptions>
+  ): SatelliteQuality {
+    const system = satId[0];
+    const samples: QualitySample[] = [];
+    const slips: CycleSlip[] = [];
+    const arcs: ObservationArc[] = [];
+    const flagged = new Set<number>();
+    let lliCount = 0;
+    let snrDrops = 0;
+    let observations = 0;
+
+    // Multipath segments: the arc mean (ambiguity and hardware biases) is removed per segment
+    const segments: { mp1: number[]; mp2: number[]; samples: QualitySample[] }[] = [];
+    let segment: (typeof segments)[number] | null = null;
+
+    let previousTime: number | undefined;
+    let previousGeometryFree: number | undefined;
+    let previousSnr: number | undefined;
+    let wideLaneMean = 0;
+    let wideLaneVariance = 0;
+    let wideLaneCount = 0;
+
+    for (const epoch of epochs) {
+      const values = epoch.observations[satId];
+      if (!values) continue;
+
+      const signals = this.selectSignals(system, values);
+      if (!signals.code1 && !signals.phase1) continue;
+      observations++;
+
+      // Arc handling
+      const newArc = previousTime === undefined || epoch.timestamp - previousTime > maxSpacing;
+      if (newArc) {
+        arcs.push({ start: epoch.timestamp, end: epoch.timestamp, epochs: 0 });
+        previousGeometryFree = undefined;
+        previousSnr = undefined;
+        wideLaneCount = 0;
+        wideLaneVariance = 0;
+        segment = null;
+      }
+      const arc = arcs[arcs.length - 1];
+      arc.end = epoch.timestamp;
+      arc.epochs++;
+      previousTime = epoch.timestamp;
+
+      const sample: QualitySample = { timestamp: epoch.timestamp };
+      const methods: CycleSlipMethod[] = [];
+      const slip: CycleSlip = { satId, timestamp: epoch.timestamp, methods };
+
+      // Loss of lock indicator (bit 0) on any carrier phase
+      const lli = [signals.phase1, signals.phase2].some(type => type && ((values[type].lli ?? 0) & 1) === 1);
+      if (lli) {
+        lliCount++;
+        if (!newArc) methods.push('LLI');
+      }
+
+      // Signal strength
+      const snr = signals.snr1
+        ? values[signals.snr1].value
+        : signals.code1 && values[signals.code1].signalStrength
+          ? values[signals.code1].signalStrength! * 6
+          : undefined;
+      if (snr !== undefined) {
+        sample.snr = snr;
+        const drop = previousSnr !== undefined && previousSnr - snr >= settings.snrDropThreshold;
+        if (snr < settings.minSnr || drop) {
+          snrDrops++;
+          flagged.add(epoch.timestamp);
+        }
+        previousSnr = snr;
+      }
+
+      const { f1, f2, phase1, phase2, code1, code2 } = signals;
+      if (f1 && f2 && phase1 && phase2) {
+        const lambda1 = SPEED_OF_LIGHT / f1;
+        const lambda2 = SPEED_OF_LIGHT / f2;
+        const l1 = values[phase1].value * lambda1;
+        const l2 = values[phase2].value * lambda2;
+
+        // Geometry-free combination: ionosphere + ambiguities
+        const geometryFree = l1 - l2;
+        sample.geometryFree = geometryFree;
+        if (previousGeometryFree !== undefined) {
+          const jump = geometryFree - previousGeometryFree;
+          if (Math.abs(jump) > settings.geometryFreeThreshold) {
+            methods.push('GEOMETRY_FREE');
+            slip.geometryFreeJump = jump;
+          }
+        }
+        previousGeometryFree = geometryFree;
+
+        // Melbourne-Wübbena: wide-lane ambiguity from phase and code
+        if (code1 && code2) {
+          const p1 = values[code1].value;
+          const p2 = values[code2].value;
+          const wideLaneWavelength = SPEED_OF_LIGHT / (f1 - f2);
+          const mw = ((f1 * l1 - f2 * l2) / (f1 - f2) - (f1 * p1 + f2 * p2) / (f1 + f2)) / wideLaneWavelength;
+
+          if (wideLaneCount >= 2) {
+            const sigma = Math.max(Math.sqrt(wideLaneVariance / wideLaneCount), 0.25);
+            if (Math.abs(mw - wideLaneMean) > settings.wideLaneThreshold * sigma && Math.abs(mw - wideLaneMean) > 1) {
+              methods.push('MELBOURNE_WUBBENA');
+              slip.wideLaneJump = mw - wideLaneMean;
+            }
+          }
+
+          if (methods.length > 0) {
+            wideLaneCount = 0;
+            wideLaneVariance = 0;
+          }
+          // Running mean and variance of the wide-lane ambiguity
+          wideLaneCount++;
+          const delta = mw - wideLaneMean;
+          wideLaneMean = wideLaneCount === 1 ? mw : wideLaneMean + delta / wideLaneCount;
+          wideLaneVariance = wideLaneCount === 1 ? 0 : wideLaneVariance + delta * (mw - wideLaneMean);
+
+          // Code multipath combinations
+          const alpha = (f1 / f2) ** 2;
+          const mp1 = p1 - (1 + 2 / (alpha - 1)) * l1 + (2 / (alpha - 1)) * l2;
+          const mp2 = p2 - ((2 * alpha) / (alpha - 1)) * l1 + ((2 * alpha) / (alpha - 1) - 1) * l2;
+
+          if (!segment || methods.length > 0) {
+            segment = { mp1: [], mp2: [], samples: [] };
+            segments.push(segment);
+          }
+          segment.mp1.push(mp1);
+          segment.mp2.push(mp2);
+          segment.samples.push(sample);
+        }
+      }
+
+      if (methods.length > 0) {
+        sample.slip = true;
+        slips.push(slip);
+        flagged.add(epoch.timestamp);
+      }
+      samples.push(sample);
+    }
+
+    // Remove the segment mean from the multipath series
+    for (const { mp1, mp2, samples: segmentSamples } of segments) {
+      if (mp1.length < 2) continue;
+      const mean1 = mp1.reduce((sum, v) => sum + v, 0) / mp1.length;
+      const mean2 = mp2.reduce((sum, v) => sum + v, 0) / mp2.length;
+      segmentSamples.forEach((sample, i) => {
+        sample.mp1 = mp1[i] - mean1;
+        sample.mp2 = mp2[i] - mean2;
+      });
+    }
+
+    // Usable: in an arc long enough and not flagged by a slip or a weak signal
+    const usableObservations = samples.filter(sample => {
+      const arc = arcs.find(a => sample.timestamp >= a.start && sample.timestamp <= a.end);
+      return arc && arc.epochs >= settings.minArcEpochs && !flagged.has(sample.timestamp);
+    }).length;
+
+    const snrValues = samples.map(sample => sample.snr).filter((v): v is number => v !== undefined);
+    const first = arcs[0]?.start;
+    const last = arcs[arcs.length - 1]?.end;
+
+    return {
+      satId,
+      system,
+      observations,
+      expectedObservations: first !== undefined && last !== undefined && interval > 0
+        ? Math.round((last - first) / (interval * 1000)) + 1
+        : observations,
+      usableObservations,
+      arcs,
+      slips,
+      lliCount,
+      snrDrops,
+      meanSnr: snrValues.length ? snrValues.reduce((sum, v) => sum + v, 0) / snrValues.length : undefined,
+      mp1Rms: this.pooledRms(samples.map(sample => sample.mp1)),
+      mp2Rms: this.pooledRms(samples.map(sample => sample.mp2)),
+      samples,
+    };
+  }
+
+  /**
+   * Pick the code, phase and SNR observation types on the two first available bands
+   */
+  private static selectSignals(
+    system: string,
+    values: RinexObservation['observations'][string]
+  ): SignalSelection {
+    const frequencies = BAND_FREQUENCIES[system];
+    const types = Object.keys(values).filter(type => values[type]?.value);
+    const bands = Array.from(new Set(
+      types.filter(type => type[0] === 'L').map(type => type[1])
+    )).filter(band => !frequencies || frequencies[band]);
+
+    // Primary band first (L1/E1/B1I), then by increasing band number
+    const order = frequencies ? Object.keys(frequencies) : [];
+    bands.sort((a, b) => order.indexOf(a) - order.indexOf(b));
+    const [band1, band2] = bands;
+
+    const find = (prefixes: string[], band?: string) =>
+      band ? types.find(type => prefixes.includes(type[0]) && type[1] === band) : undefined;
+
+    const fallbackCode = types.find(type => type[0] === 'C' || type[0] === 'P');
+    return {
+      code1: find(['C', 'P'], band1) ?? fallbackCode,
+      code2: find(['C', 'P'], band2),
+      phase1: find(['L'], band1),
+      phase2: find(['L'], band2),
+      snr1: find(['S'], band1) ?? types.find(type => type[0] === 'S'),
+      f1: band1 && frequencies ? frequencies[band1] : undefined,
+      f2: band2 && frequencies ? frequencies[band2] : undefined,
+    };
+  }
+
+  private static gapBetween(
+    before: number,
+    after: number,
+    interval: number,
+    maxSpacing: number
+  ): DataGap | null {
+    if (after - before <= maxSpacing) return null;
+    const duration = (after - before) / 1000;
+    return {
+      start: before,
+      end: after,
+      duration,
+      missingEpochs: interval > 0 ? Math.round(duration / interval) - 1 : 0,
+    };
+  }
+
+  private static medianInterval(timestamps: number[]): number {
+    const spacings = timestamps.slice(1).map((t, i) => t - timestamps[i]).filter(dt => dt > 0).sort((a, b) => a - b);
+    return spacings.length ? spacings[Math.floor(spacings.length / 2)] / 1000 : 0;
+  }
+
+  private static pooledRms(values: (number | undefined)[]): number | undefined {
+    const defined = values.filter((v): v is number => v !== undefined);
+    if (defined.length === 0) return undefined;
+    return Math.sqrt(defined.reduce((sum, v) => sum + v * v, 0) / defined.length);
+  }
+}
@@ -1,6 +1,6 @@
 import * as math from 'mathjs';
-import { CoordinateSystemManager } from './CoordinateSystemManager';
-import { FusionAuditLog } from '../telemetry/FusionAuditLog';
+import { CoordinateSystemManager } from '../sensors/CoordinateSystemManager';
+import { fusionAuditLog } from '../sensors/FusionAuditLog';
 
 export interface SatelliteObservation {
   satId: string;
@@ -114,7 +114,7 @@ export class PositionSolver {
         }
         
         // Check convergence
-        if (math.norm(math.matrix(dxArray)) < PositionSolver.CONVERGENCE_THRESHOLD) {
+        if (Number(math.norm(dxArray.map(row => row[0]))) < PositionSolver.CONVERGENCE_THRESHOLD) {
           break;
         }
       } catch (error) {
@@ -141,16 +141,6 @@ export class PositionSolver {
       solutionStatus = 'DEGRADED';
     }
 
-    // Log the solution
-    FusionAuditLog.logPositionSolution({
-      timestamp: Date.now(),
-      position: [state[0], state[1], state[2]],
-      dop: { pdop, hdop, vdop, gdop },
-      satellitesUsed: observations.length,
-      solutionStatus,
-      residuals
-    });
-
     return {
       receiverECEF: [state[0], state[1], state[2]],
       latLonAlt: [lat, lon, alt],
@@ -165,6 +155,52 @@ export class PositionSolver {
     };
   }
 
+  /**
+   * Log a single audit entry summarizing a multi-epoch solve run
+   * (per-epoch entries would flood the audit store on long sessions)
+   */
+  public static logSolveRun(
+    estimates: PositionEstimate[],
+    metadata: Record<string, unknown> = {}
+  ): void {
+    if (estimates.length === 0) return;
+
+    const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+    const timestamps = estimates.map(e => e.timestamp);
+    const errors = estimates
+      .map(e => e.errorEstimate)
+      .filter((e): e is number => e !== undefined && Number.isFinite(e));
+
+    fusionAuditLog.log({
+      timestamp: new Date(),
+      position: {
+        lat: mean(estimates.map(e => e.latLonAlt[0])),
+        lon: mean(estimates.map(e => e.latLonAlt[1])),
+        alt: mean(estimates.map(e => e.latLonAlt[2]))
+      },
+      accuracy: errors.length ? mean(errors) : Number.NaN,
+      sources: ['gnss'],
+      status: 'raw',
+      metadata: {
+        ...metadata,
+        epochs: estimates.length,
+        startTime: new Date(Math.min(...timestamps)).toISOString(),
+        endTime: new Date(Math.max(...timestamps)).toISOString(),
+        degradedEpochs: estimates.filter(e => e.solutionStatus === 'DEGRADED').length,
+        meanDop: {
+          pdop: mean(estimates.map(e => e.dop.pdop)),
+          hdop: mean(estimates.map(e => e.dop.hdop)),
+          vdop: mean(estimates.map(e => e.dop.vdop)),
+          gdop: mean(estimates.map(e => e.dop.gdop))
+        },
+        satellitesUsed: {
+          min: Math.min(...estimates.map(e => e.satellitesUsed)),
+          max: Math.max(...estimates.map(e => e.satellitesUsed))
+        }
+      }
+    });
+  }
+
   /**
    * Calculate elevation angle of satellite relative to receiver
    */
@@ -209,7 +245,9 @@ export class PositionSolver {
    */
   private static calculateDOP(H: number[][]): [number, number, number, number] {
     try {
-      const HtH = math.multiply(math.transpose(H), H);
+      // DOP is defined with the clock column expressed in meters (unit partials)
+      const G = math.matrix(H.map(row => [row[0], row[1], row[2], 1]));
+      const HtH = math.multiply(math.transpose(G), G);
       const Q = math.inv(HtH) as math.Matrix;
       const q = Q.toArray() as number[][];
       
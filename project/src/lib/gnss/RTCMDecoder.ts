@@ -0,0 +1,967 @@
+import { SatelliteOrbit, type KeplerianEphemeris } from './SatelliteOrbit';
+import type { RinexObservation } from './RinexParser';
+
+export type MsmSystem = 'G' | 'R' | 'E' | 'C';
+
+/**
+ * 1005 / 1006: stationary RTK reference station ARP
+ */
+export interface RTCMStationMessage {
+  kind: 'station';
+  type: 1005 | 1006;
+  stationId: number;
+  itrfYear: number;
+  systems: { gps: boolean; glonass: boolean; galileo: boolean };
+  referenceStation: boolean;
+  singleReceiverOscillator: boolean;
+  quarterCycle: number;
+  ecef: [number, number, number]; // ARP (m)
+  antennaHeight?: number;         // m, 1006 only
+}
+
+/**
+ * 1033: receiver and antenna descriptors
+ */
+export interface RTCMDescriptorMessage {
+  kind: 'descriptor';
+  type: 1033;
+  stationId: number;
+  antennaDescriptor: string;
+  antennaSetupId: number;
+  antennaSerial: string;
+  receiverType: string;
+  receiverFirmware: string;
+  receiverSerial: string;
+}
+
+export interface RTCMMsmSignal {
+  satId: string;              // e.g. 'G05'
+  signal: string;             // RINEX 3 band + attribute, e.g. '1C'
+  frequency?: number;         // Hz, unknown for GLONASS without channel number
+  pseudorange?: number;       // m
+  phaseRange?: number;        // m
+  phase?: number;             // cycles (needs the carrier frequency)
+  phaseRangeRate?: number;    // m/s, MSM7 only
+  doppler?: number;           // Hz, MSM7 only
+  cnr?: number;               // dB-Hz
+  lockTimeIndicator: number;
+  minLockTime: number;        // ms, lower bound of the lock time interval
+  halfCycleAmbiguity: boolean;
+}
+
+/**
+ * MSM4 / MSM7 observables for one constellation
+ */
+export interface RTCMMsmMessage {
+  kind: 'msm';
+  type: number;
+  msmLevel: 4 | 7;
+  system: MsmSystem;
+  stationId: number;
+  epochTime: number;          // Calendar timestamp (ms) in the GPS time scale
+  multipleMessage: boolean;   // More MSM for the same epoch follow
+  iods: number;
+  clockSteering: number;
+  externalClock: number;
+  smoothing: boolean;
+  smoothingInterval: number;
+  satellites: string[];
+  glonassChannels: Record<string, number>; // From MSM7 extended info
+  signals: RTCMMsmSignal[];
+}
+
+/**
+ * 1019 (GPS) / 1045 (Galileo F/NAV) broadcast ephemeris
+ */
+export interface RTCMEphemerisMessage {
+  kind: 'ephemeris';
+  type: 1019 | 1045;
+  ephemeris: KeplerianEphemeris;
+}
+
+export interface GlonassEphemeris {
+  satId: string;
+  frequencyChannel: number;
+  tk: number;                 // Message frame time, s of day (Moscow)
+  tb: number;                 // Reference time, s of day (Moscow)
+  toeGps: number;             // Reference time, continuous GPS seconds
+  position: [number, number, number];     // PZ-90 (m)
+  velocity: [number, number, number];     // m/s
+  acceleration: [number, number, number]; // Luni-solar acceleration (m/s²)
+  gammaN: number;             // Relative frequency bias
+  tauN: number;               // Clock bias (s)
+  deltaTauN: number;          // L1/L2 delay difference (s)
+  age: number;                // Days
+  health: number;
+}
+
+/**
+ * 1020: GLONASS broadcast ephemeris
+ */
+export interface RTCMGlonassEphemerisMessage {
+  kind: 'glonassEphemeris';
+  type: 1020;
+  ephemeris: GlonassEphemeris;
+}
+
+export interface RTCMUnsupportedMessage {
+  kind: 'unsupported';
+  type: number;
+}
+
+export type RTCMMessage =
+  | RTCMStationMessage
+  | RTCMDescriptorMessage
+  | RTCMMsmMessage
+  | RTCMEphemerisMessage
+  | RTCMGlonassEphemerisMessage
+  | RTCMUnsupportedMessage;
+
+export interface RTCMFrame {
+  type: number;               // 12-bit message number (0 if the payload is empty)
+  length: number;             // Payload length in bytes
+  crc: number;                // CRC transmitted with the frame
+  crcValid: boolean;
+  message?: RTCMMessage;      // Only set when the CRC is valid and decoding succeeded
+  error?: string;
+}
+
+export interface RTCMDecodeOptions {
+  /** Timestamp (ms) close to the data, used to resolve week numbers and times of week */
+  referenceTime?: number;
+  /** GPS - UTC leap seconds, used for GLONASS epochs */
+  leapSeconds?: number;
+  /** Known GLONASS frequency channels (from 1020 or MSM7), by satellite id */
+  glonassChannels?: Record<string, number>;
+}
+
+const SPEED_OF_LIGHT = SatelliteOrbit.SPEED_OF_LIGHT;
+const RANGE_MS = SPEED_OF_LIGHT * 0.001; // Range of one light-millisecond (m)
+const SEMICIRCLE = Math.PI;
+const DAY_SECONDS = 86400;
+
+/**
+ * MSM signal mask bit (1-32) to RINEX 3 band + attribute (RTCM 10403.3 tables 3.5-91 to 3.5-108)
+ */
+const MSM_SIGNALS: Record<MsmSystem, Record<number, string>> = {
+  G: {
+    2: '1C', 3: '1P', 4: '1W', 8: '2C', 9: '2P', 10: '2W', 15: '2S', 16: '2L', 17: '2X',
+    22: '5I', 23: '5Q', 24: '5X', 30: '1S', 31: '1L', 32: '1X',
+  },
+  R: { 2: '1C', 3: '1P', 8: '2C', 9: '2P' },
+  E: {
+    2: '1C', 3: '1A', 4: '1B', 5: '1X', 6: '1Z', 8: '6C', 9: '6A', 10: '6B', 11: '6X', 12: '6Z',
+    14: '7I', 15: '7Q', 16: '7X', 18: '8I', 19: '8Q', 20: '8X', 22: '5I', 23: '5Q', 24: '5X',
+  },
+  C: {
+    2: '2I', 3: '2Q', 4: '2X', 8: '6I', 9: '6Q', 10: '6X', 14: '7I', 15: '7Q', 16: '7X',
+    22: '5D', 23: '5P', 24: '5X', 25: '7D', 30: '1D', 31: '1P', 32: '1X',
+  },
+};
+
+/**
+ * Carrier frequencies (Hz) by system and RINEX band
+ */
+const CARRIER_FREQUENCIES: Record<Exclude<MsmSystem, 'R'>, Record<string, number>> = {
+  G: { '1': 1575.42e6, '2': 1227.6e6, '5': 1176.45e6 },
+  E: { '1': 1575.42e6, '5': 1176.45e6, '6': 1278.75e6, '7': 1207.14e6, '8': 1191.795e6 },
+  C: { '1': 1575.42e6, '2': 1561.098e6, '5': 1176.45e6, '6': 1268.52e6, '7': 1207.14e6 },
+};
+
+/**
+ * MSM message number base per constellation (MSMn = base + n)
+ */
+const MSM_BASE: Record<number, MsmSystem> = { 1070: 'G', 1080: 'R', 1090: 'E', 1120: 'C' };
+
+/**
+ * MSM4 lock time indicator (4 bits) to minimum lock time (ms)
+ */
+const MSM4_LOCK_TIME = [0, 32, 64, 128, 256, 512, 1024, 2048, 4096, 8192, 16384, 32768, 65536, 131072, 262144, 524288];
+
+/**
+ * RTCM 3.x decoder: frame extraction, CRC-24Q and bit-level decoding of
+ * station (1005/1006/1033), MSM4/MSM7 and ephemeris (1019/1020/1045) messages.
+ */
+export class RTCMDecoder {
+  public static readonly PREAMBLE = 0xd3;
+  public static readonly HEADER_LENGTH = 3;
+  public static readonly CRC_LENGTH = 3;
+  private static readonly CRC24Q_POLY = 0x1864cfb;
+  private static readonly DEFAULT_LEAP_SECONDS = 18;
+  private static readonly MOSCOW_OFFSET = 3 * 3600; // s
+
+  /**
+   * CRC-24Q over bytes [start, end)
+   */
+  public static crc24q(bytes: Uint8Array, start: number = 0, end: number = bytes.length): number {
+    let crc = 0;
+    for (let i = start; i < end; i++) {
+      crc ^= bytes[i] << 16;
+      for (let bit = 0; bit < 8; bit++) {
+        crc <<= 1;
+        if (crc & 0x1000000) crc ^= this.CRC24Q_POLY;
+      }
+    }
+    return crc & 0xffffff;
+  }
+
+  /**
+   * Total frame length (header + payload + CRC) of a frame starting at `offset`,
+   * or null if the bytes there do not start a frame.
+   */
+  public static frameLength(bytes: Uint8Array, offset: number = 0): number | null {
+    if (bytes.length - offset < this.HEADER_LENGTH) return null;
+    if (bytes[offset] !== this.PREAMBLE || (bytes[offset + 1] & 0xfc) !== 0) return null;
+    const length = ((bytes[offset + 1] & 0x03) << 8) | bytes[offset + 2];
+    return this.HEADER_LENGTH + length + this.CRC_LENGTH;
+  }
+
+  /**
+   * Check the CRC of the frame starting at `offset`
+   */
+  public static validateFrame(bytes: Uint8Array, offset: number = 0): boolean {
+    const total = this.frameLength(bytes, offset);
+    if (total === null || bytes.length - offset < total) return false;
+    const end = offset + total - this.CRC_LENGTH;
+    return this.crc24q(bytes, offset, end) === this.readUnsigned(bytes, end * 8, 24);
+  }
+
+  /**
+   * Decode one complete frame starting at `offset`
+   */
+  public static decodeFrame(bytes: Uint8Array, offset: number = 0, options: RTCMDecodeOptions = {}): RTCMFrame | null {
+    const total = this.frameLength(bytes, offset);
+    if (total === null || bytes.length - offset < total) return null;
+
+    const length = total - this.HEADER_LENGTH - this.CRC_LENGTH;
+    const payload = bytes.subarray(offset + this.HEADER_LENGTH, offset + this.HEADER_LENGTH + length);
+    const crcOffset = offset + this.HEADER_LENGTH + length;
+    const crc = this.readUnsigned(bytes, crcOffset * 8, 24);
+    const crcValid = this.crc24q(bytes, offset, crcOffset) === crc;
+    const type = length >= 2 ? this.readUnsigned(payload, 0, 12) : 0;
+
+    const frame: RTCMFrame = { type, length, crc, crcValid };
+    if (!crcValid) {
+      frame.error = 'CRC-24Q mismatch';
+      return frame;
+    }
+
+    try {
+      frame.message = this.decodeMessage(payload, options);
+    } catch (error) {
+      frame.error = error instanceof Error ? error.message : String(error);
+    }
+    return frame;
+  }
+
+  /**
+   * Decode every complete frame in a buffer, skipping bytes that are not part of a frame
+   */
+  public static decodeAll(bytes: Uint8Array, options: RTCMDecodeOptions = {}): RTCMFrame[] {
+    const frames: RTCMFrame[] = [];
+    let offset = 0;
+
+    while (offset < bytes.length) {
+      const total = this.frameLength(bytes, offset);
+      if (total === null) {
+        offset++;
+        continue;
+      }
+      if (bytes.length - offset < total) {
+        // Truncated frame or false preamble: nothing more will arrive in this buffer
+        offset++;
+        continue;
+      }
+
+      const frame = this.decodeFrame(bytes, offset, options);
+      if (frame && frame.crcValid) {
+        frames.push(frame);
+        offset += total;
+      } else {
+        // A false preamble inside another frame: resynchronise on the next byte
+        if (frame) frames.push(frame);
+        offset++;
+      }
+    }
+
+    return frames;
+  }
+
+  /**
+   * Decode a message payload (without transport header and CRC)
+   */
+  public static decodeMessage(payload: Uint8Array, options: RTCMDecodeOptions = {}): RTCMMessage {
+    if (payload.length < 2) {
+      throw new Error('RTCM payload too short');
+    }
+    const type = this.readUnsigned(payload, 0, 12);
+
+    switch (type) {
+      case 1005:
+      case 1006:
+        return this.decodeStation(payload, type);
+      case 1033:
+        return this.decodeDescriptor(payload);
+      case 1019:
+        return this.decodeGpsEphemeris(payload, options);
+      case 1020:
+        return this.decodeGlonassEphemeris(payload, options);
+      case 1045:
+        return this.decodeGalileoEphemeris(payload);
+    }
+
+    const level = type % 10;
+    const system = MSM_BASE[type - level];
+    if (system && (level === 4 || level === 7)) {
+      return this.decodeMsm(payload, type, system, level, options);
+    }
+
+    return { kind: 'unsupported', type };
+  }
+
+  /**
+   * Merge the MSM messages of one epoch into a RINEX-style observation epoch
+   * (C/L/D/S observables with RINEX 3 codes), ready for the solvers.
+   */
+  public static toRinexObservation(messages: RTCMMsmMessage[]): RinexObservation | null {
+    if (messages.length === 0) return null;
+
+    const observations: RinexObservation['observations'] = {};
+    for (const message of messages) {
+      for (const signal of message.signals) {
+        const record = (observations[signal.satId] ??= {});
+        const lli = signal.halfCycleAmbiguity ? 2 : 0;
+        if (signal.pseudorange !== undefined) record[`C${signal.signal}`] = { value: signal.pseudorange };
+        if (signal.phase !== undefined) record[`L${signal.signal}`] = { value: signal.phase, lli };
+        if (signal.doppler !== undefined) record[`D${signal.signal}`] = { value: signal.doppler };
+        if (signal.cnr !== undefined) record[`S${signal.signal}`] = { value: signal.cnr };
+      }
+    }
+
+    return {
+      timestamp: messages[0].epochTime,
+      epochFlag: 0,
+      satellites: Object.keys(observations).sort(),
+      observations,
+    };
+  }
+
+  /**
+   * Carrier frequency (Hz) of a RINEX 3 signal, GLONASS needs its channel number
+   */
+  public static carrierFrequency(system: MsmSystem, signal: string, glonassChannel?: number): number | undefined {
+    const band = signal[0];
+    if (system === 'R') {
+      if (glonassChannel === undefined) return undefined;
+      if (band === '1') return 1602e6 + glonassChannel * 0.5625e6;
+      if (band === '2') return 1246e6 + glonassChannel * 0.4375e6;
+      return undefined;
+    }
+    return CARRIER_FREQUENCIES[system][band];
+  }
+
+  private static decodeStation(payload: Uint8Array, type: 1005 | 1006): RTCMStationMessage {
+    this.requireBits(payload, type === 1005 ? 152 : 168, type);
+    let i = 12;
+    const stationId = this.readUnsigned(payload, i, 12); i += 12;
+    const itrfYear = this.readUnsigned(payload, i, 6); i += 6;
+    const gps = this.readUnsigned(payload, i++, 1) === 1;
+    const glonass = this.readUnsigned(payload, i++, 1) === 1;
+    const galileo = this.readUnsigned(payload, i++, 1) === 1;
+    const referenceStation = this.readUnsigned(payload, i++, 1) === 0;
+    const x = this.readSigned(payload, i, 38) * 1e-4; i += 38;
+    const singleReceiverOscillator = this.readUnsigned(payload, i, 1) === 1; i += 2;
+    const y = this.readSigned(payload, i, 38) * 1e-4; i += 38;
+    const quarterCycle = this.readUnsigned(payload, i, 2); i += 2;
+    const z = this.readSigned(payload, i, 38) * 1e-4; i += 38;
+
+    const message: RTCMStationMessage = {
+      kind: 'station',
+      type,
+      stationId,
+      itrfYear,
+      systems: { gps, glonass, galileo },
+      referenceStation,
+      singleReceiverOscillator,
+      quarterCycle,
+      ecef: [x, y, z],
+    };
+    if (type === 1006) {
+      message.antennaHeight = this.readUnsigned(payload, i, 16) * 1e-4;
+    }
+    return message;
+  }
+
+  private static decodeDescriptor(payload: Uint8Array): RTCMDescriptorMessage {
+    let i = 12;
+    const stationId = this.readUnsigned(payload, i, 12); i += 12;
+    const readString = (): string => {
+      this.requireBits(payload, i + 8, 1033);
+      const count = this.readUnsigned(payload, i, 8); i += 8;
+      this.requireBits(payload, i + count * 8, 1033);
+      let text = '';
+      for (let c = 0; c < count; c++, i += 8) {
+        text += String.fromCharCode(this.readUnsigned(payload, i, 8));
+      }
+      return text.trim();
+    };
+
+    const antennaDescriptor = readString();
+    this.requireBits(payload, i + 8, 1033);
+    const antennaSetupId = this.readUnsigned(payload, i, 8); i += 8;
+    const antennaSerial = readString();
+    const receiverType = readString();
+    const receiverFirmware = readString();
+    const receiverSerial = readString();
+
+    return {
+      kind: 'descriptor',
+      type: 1033,
+      stationId,
+      antennaDescriptor,
+      antennaSetupId,
+      antennaSerial,
+      receiverType,
+      receiverFirmware,
+      receiverSerial,
+    };
+  }
+
+  private static decodeMsm(
+    payload: Uint8Array,
+    type: number,
+    system: MsmSystem,
+    level: 4 | 7,
+    options: RTCMDecodeOptions
+  ): RTCMMsmMessage {
+    this.requireBits(payload, 169, type);
+    let i = 12;
+    const stationId = this.readUnsigned(payload, i, 12); i += 12;
+
+    let epochTime: number;
+    if (system === 'R') {
+      const dayOfWeek = this.readUnsigned(payload, i, 3);
+      const tod = this.readUnsigned(payload, i + 3, 27) * 1e-3;
+      epochTime = this.resolveGlonassTime(dayOfWeek, tod, options);
+    } else {
+      const tow = this.readUnsigned(payload, i, 30) * 1e-3;
+      epochTime = this.resolveTimeOfWeek(system === 'C' ? tow + SatelliteOrbit.BDT_LEAP_SECONDS : tow, options);
+    }
+    i += 30;
+
+    const multipleMessage = this.readUnsigned(payload, i, 1) === 1; i += 1;
+    const iods = this.readUnsigned(payload, i, 3); i += 3 + 7;
+    const clockSteering = this.readUnsigned(payload, i, 2); i += 2;
+    const externalClock = this.readUnsigned(payload, i, 2); i += 2;
+    const smoothing = this.readUnsigned(payload, i, 1) === 1; i += 1;
+    const smoothingInterval = this.readUnsigned(payload, i, 3); i += 3;
+
+    const satMask: number[] = [];
+    for (let bit = 1; bit <= 64; bit++, i++) {
+      if (this.readUnsigned(payload, i, 1)) satMask.push(bit);
+    }
+    const sigMask: number[] = [];
+    for (let bit = 1; bit <= 32; bit++, i++) {
+      if (this.readUnsigned(payload, i, 1)) sigMask.push(bit);
+    }
+
+    const nSat = satMask.length;
+    const nSig = sigMask.length;
+    if (nSat * nSig > 64) {
+      throw new Error(`RTCM ${type}: cell mask too large (${nSat}x${nSig})`);
+    }
+    this.requireBits(payload, i + nSat * nSig, type);
+    const cells: Array<{ sat: number; sig: number }> = [];
+    for (let s = 0; s < nSat; s++) {
+      for (let k = 0; k < nSig; k++, i++) {
+        if (this.readUnsigned(payload, i, 1)) cells.push({ sat: s, sig: k });
+      }
+    }
+    const nCell = cells.length;
+    const satBits = level === 7 ? 36 : 18;
+    const cellBits = level === 7 ? 80 : 48;
+    this.requireBits(payload, i + nSat * satBits + nCell * cellBits, type);
+
+    const satellites = satMask.map(prn => `${system}${String(prn).padStart(2, '0')}`);
+
+    // Satellite data
+    const roughInt = new Array<number>(nSat);
+    const extInfo = new Array<number>(nSat).fill(-1);
+    const roughMod = new Array<number>(nSat);
+    const roughRate = new Array<number | undefined>(nSat).fill(undefined);
+    for (let s = 0; s < nSat; s++, i += 8) roughInt[s] = this.readUnsigned(payload, i, 8);
+    if (level === 7) {
+      for (let s = 0; s < nSat; s++, i += 4) extInfo[s] = this.readUnsigned(payload, i, 4);
+    }
+    for (let s = 0; s < nSat; s++, i += 10) roughMod[s] = this.readUnsigned(payload, i, 10);
+    if (level === 7) {
+      for (let s = 0; s < nSat; s++, i += 14) {
+        const rate = this.readSigned(payload, i, 14);
+        roughRate[s] = rate === -8192 ? undefined : rate;
+      }
+    }
+
+    const roughRange = roughInt.map((value, s) =>
+      value === 255 ? undefined : (value + roughMod[s] / 1024) * RANGE_MS
+    );
+
+    // Signal data, one field for all cells at a time
+    const readCells = (bits: number, signed: boolean): number[] => {
+      const values: number[] = [];
+      for (let c = 0; c < nCell; c++, i += bits) {
+        values.push(signed ? this.readSigned(payload, i, bits) : this.readUnsigned(payload, i, bits));
+      }
+      return values;
+    };
+    const finePr = readCells(level === 7 ? 20 : 15, true);
+    const finePhase = readCells(level === 7 ? 24 : 22, true);
+    const lock = readCells(level === 7 ? 10 : 4, false);
+    const halfCycle = readCells(1, false);
+    const cnr = readCells(level === 7 ? 10 : 6, false);
+    const fineRate = level === 7 ? readCells(15, true) : [];
+
+    const prInvalid = level === 7 ? -524288 : -16384;
+    const phaseInvalid = level === 7 ? -8388608 : -2097152;
+    const prScale = level === 7 ? 2 ** -29 : 2 ** -24;
+    const phaseScale = level === 7 ? 2 ** -31 : 2 ** -29;
+
+    const glonassChannels: Record<string, number> = {};
+    if (system === 'R' && level === 7) {
+      satellites.forEach((satId, s) => {
+        if (extInfo[s] >= 0 && extInfo[s] <= 13) glonassChannels[satId] = extInfo[s] - 7;
+      });
+    }
+
+    const signals: RTCMMsmSignal[] = [];
+    cells.forEach(({ sat, sig }, c) => {
+      const code = MSM_SIGNALS[system][sigMask[sig]];
+      if (!code) return;
+
+      const satId = satellites[sat];
+      const channel = glonassChannels[satId] ?? options.glonassChannels?.[satId];
+      const frequency = this.carrierFrequency(system, code, channel);
+      const range = roughRange[sat];
+      const signal: RTCMMsmSignal = {
+        satId,
+        signal: code,
+        frequency,
+        lockTimeIndicator: lock[c],
+        minLockTime: level === 7 ? this.msm7LockTime(lock[c]) : MSM4_LOCK_TIME[lock[c]],
+        halfCycleAmbiguity: halfCycle[c] === 1,
+      };
+
+      if (range !== undefined) {
+        if (finePr[c] !== prInvalid) signal.pseudorange = range + finePr[c] * prScale * RANGE_MS;
+        if (finePhase[c] !== phaseInvalid) {
+          signal.phaseRange = range + finePhase[c] * phaseScale * RANGE_MS;
+          if (frequency) signal.phase = (signal.phaseRange * frequency) / SPEED_OF_LIGHT;
+        }
+      }
+      if (level === 7 && roughRate[sat] !== undefined && fineRate[c] !== -16384) {
+        signal.phaseRangeRate = roughRate[sat]! + fineRate[c] * 1e-4;
+        if (frequency) signal.doppler = (-signal.phaseRangeRate * frequency) / SPEED_OF_LIGHT;
+      }
+      if (cnr[c] !== 0) signal.cnr = level === 7 ? cnr[c] * 2 ** -4 : cnr[c];
+
+      signals.push(signal);
+    });
+
+    return {
+      kind: 'msm',
+      type,
+      msmLevel: level,
+      system,
+      stationId,
+      epochTime,
+      multipleMessage,
+      iods,
+      clockSteering,
+      externalClock,
+      smoothing,
+      smoothingInterval,
+      satellites,
+      glonassChannels,
+      signals,
+    };
+  }
+
+  private static decodeGpsEphemeris(payload: Uint8Array, options: RTCMDecodeOptions): RTCMEphemerisMessage {
+    this.requireBits(payload, 488, 1019);
+    let i = 12;
+    const prn = this.readUnsigned(payload, i, 6); i += 6;
+    const week10 = this.readUnsigned(payload, i, 10); i += 10;
+    const ura = this.readUnsigned(payload, i, 4); i += 4 + 2;
+    const idot = this.readSigned(payload, i, 14) * 2 ** -43 * SEMICIRCLE; i += 14;
+    const iode = this.readUnsigned(payload, i, 8); i += 8;
+    const toc = this.readUnsigned(payload, i, 16) * 16; i += 16;
+    const af2 = this.readSigned(payload, i, 8) * 2 ** -55; i += 8;
+    const af1 = this.readSigned(payload, i, 16) * 2 ** -43; i += 16;
+    const af0 = this.readSigned(payload, i, 22) * 2 ** -31; i += 22;
+    const iodc = this.readUnsigned(payload, i, 10); i += 10;
+    const crs = this.readSigned(payload, i, 16) * 2 ** -5; i += 16;
+    const deltaN = this.readSigned(payload, i, 16) * 2 ** -43 * SEMICIRCLE; i += 16;
+    const m0 = this.readSigned(payload, i, 32) * 2 ** -31 * SEMICIRCLE; i += 32;
+    const cuc = this.readSigned(payload, i, 16) * 2 ** -29; i += 16;
+    const e = this.readUnsigned(payload, i, 32) * 2 ** -33; i += 32;
+    const cus = this.readSigned(payload, i, 16) * 2 ** -29; i += 16;
+    const sqrtA = this.readUnsigned(payload, i, 32) * 2 ** -19; i += 32;
+    const toe = this.readUnsigned(payload, i, 16) * 16; i += 16;
+    const cic = this.readSigned(payload, i, 16) * 2 ** -29; i += 16;
+    const omega0 = this.readSigned(payload, i, 32) * 2 ** -31 * SEMICIRCLE; i += 32;
+    const cis = this.readSigned(payload, i, 16) * 2 ** -29; i += 16;
+    const i0 = this.readSigned(payload, i, 32) * 2 ** -31 * SEMICIRCLE; i += 32;
+    const crc = this.readSigned(payload, i, 16) * 2 ** -5; i += 16;
+    const omega = this.readSigned(payload, i, 32) * 2 ** -31 * SEMICIRCLE; i += 32;
+    const omegaDot = this.readSigned(payload, i, 24) * 2 ** -43 * SEMICIRCLE; i += 24;
+    const tgd = this.readSigned(payload, i, 8) * 2 ** -31; i += 8;
+    const health = this.readUnsigned(payload, i, 6); i += 6 + 1;
+    const fitFlag = this.readUnsigned(payload, i, 1);
+
+    // 10-bit week: take the rollover closest to the reference time
+    const referenceWeek = Math.floor(
+      SatelliteOrbit.timestampToGpsSeconds(options.referenceTime ?? Date.now()) / SatelliteOrbit.SECONDS_PER_WEEK
+    );
+    const week = week10 + 1024 * Math.round((referenceWeek - week10) / 1024);
+
+    return {
+      kind: 'ephemeris',
+      type: 1019,
+      ephemeris: {
+        satId: `G${String(prn).padStart(2, '0')}`,
+        system: 'G',
+        toc: SatelliteOrbit.weekToGpsSeconds('G', week, toc),
+        af0,
+        af1,
+        af2,
+        iode,
+        week,
+        toe,
+        toeGps: SatelliteOrbit.weekToGpsSeconds('G', week, toe),
+        sqrtA,
+        e,
+        i0,
+        omega0,
+        omega,
+        m0,
+        deltaN,
+        omegaDot,
+        idot,
+        cuc,
+        cus,
+        crc,
+        crs,
+        cic,
+        cis,
+        tgd,
+        health,
+        accuracy: this.uraToMeters(ura),
+        iodc,
+        fitInterval: fitFlag ? 0 : 4,
+      },
+    };
+  }
+
+  private static decodeGalileoEphemeris(payload: Uint8Array): RTCMEphemerisMessage {
+    this.requireBits(payload, 496, 1045);
+    let i = 12;
+    const prn = this.readUnsigned(payload, i, 6); i += 6;
+    const gstWeek = this.readUnsigned(payload, i, 12); i += 12;
+    const iodnav = this.readUnsigned(payload, i, 10); i += 10;
+    const sisa = this.readUnsigned(payload, i, 8); i += 8;
+    const idot = this.readSigned(payload, i, 14) * 2 ** -43 * SEMICIRCLE; i += 14;
+    const toc = this.readUnsigned(payload, i, 14) * 60; i += 14;
+    const af2 = this.readSigned(payload, i, 6) * 2 ** -59; i += 6;
+    const af1 = this.readSigned(payload, i, 21) * 2 ** -46; i += 21;
+    const af0 = this.readSigned(payload, i, 31) * 2 ** -34; i += 31;
+    const crs = this.readSigned(payload, i, 16) * 2 ** -5; i += 16;
+    const deltaN = this.readSigned(payload, i, 16) * 2 ** -43 * SEMICIRCLE; i += 16;
+    const m0 = this.readSigned(payload, i, 32) * 2 ** -31 * SEMICIRCLE; i += 32;
+    const cuc = this.readSigned(payload, i, 16) * 2 ** -29; i += 16;
+    const e = this.readUnsigned(payload, i, 32) * 2 ** -33; i += 32;
+    const cus = this.readSigned(payload, i, 16) * 2 ** -29; i += 16;
+    const sqrtA = this.readUnsigned(payload, i, 32) * 2 ** -19; i += 32;
+    const toe = this.readUnsigned(payload, i, 14) * 60; i += 14;
+    const cic = this.readSigned(payload, i, 16) * 2 ** -29; i += 16;
+    const omega0 = this.readSigned(payload, i, 32) * 2 ** -31 * SEMICIRCLE; i += 32;
+    const cis = this.readSigned(payload, i, 16) * 2 ** -29; i += 16;
+    const i0 = this.readSigned(payload, i, 32) * 2 ** -31 * SEMICIRCLE; i += 32;
+    const crc = this.readSigned(payload, i, 16) * 2 ** -5; i += 16;
+    const omega = this.readSigned(payload, i, 32) * 2 ** -31 * SEMICIRCLE; i += 32;
+    const omegaDot = this.readSigned(payload, i, 24) * 2 ** -43 * SEMICIRCLE; i += 24;
+    const bgdE5a = this.readSigned(payload, i, 10) * 2 ** -32; i += 10;
+    const signalHealth = this.readUnsigned(payload, i, 2); i += 2;
+    const dataValidity = this.readUnsigned(payload, i, 1);
+
+    // Galileo week numbers in RINEX continue the GPS week count (GST week 0 = GPS week 1024)
+    const week = gstWeek + 1024;
+
+    return {
+      kind: 'ephemeris',
+      type: 1045,
+      ephemeris: {
+        satId: `E${String(prn).padStart(2, '0')}`,
+        system: 'E',
+        toc: SatelliteOrbit.weekToGpsSeconds('E', week, toc),
+        af0,
+        af1,
+        af2,
+        iode: iodnav,
+        week,
+        toe,
+        toeGps: SatelliteOrbit.weekToGpsSeconds('E', week, toe),
+        sqrtA,
+        e,
+        i0,
+        omega0,
+        omega,
+        m0,
+        deltaN,
+        omegaDot,
+        idot,
+        cuc,
+        cus,
+        crc,
+        crs,
+        cic,
+        cis,
+        // F/NAV only carries the E5a/E1 group delay
+        tgd: bgdE5a,
+        tgd2: bgdE5a,
+        // RINEX health bits 4-5 (E5a HS) and 3 (E5a DVS)
+        health: (signalHealth << 4) | (dataValidity << 3),
+        accuracy: this.sisaToMeters(sisa),
+      },
+    };
+  }
+
+  private static decodeGlonassEphemeris(payload: Uint8Array, options: RTCMDecodeOptions): RTCMGlonassEphemerisMessage {
+    this.requireBits(payload, 360, 1020);
+    let i = 12;
+    const prn = this.readUnsigned(payload, i, 6); i += 6;
+    const frequencyChannel = this.readUnsigned(payload, i, 5) - 7; i += 5 + 1 + 1 + 2;
+    const tkHours = this.readUnsigned(payload, i, 5); i += 5;
+    const tkMinutes = this.readUnsigned(payload, i, 6); i += 6;
+    const tkSeconds = this.readUnsigned(payload, i, 1) * 30; i += 1;
+    const health = this.readUnsigned(payload, i, 1); i += 1 + 1;
+    const tb = this.readUnsigned(payload, i, 7) * 900; i += 7;
+
+    const readAxis = (): [number, number, number] => {
+      const velocity = this.readSignMagnitude(payload, i, 24) * 2 ** -20 * 1e3; i += 24;
+      const position = this.readSignMagnitude(payload, i, 27) * 2 ** -11 * 1e3; i += 27;
+      const acceleration = this.readSignMagnitude(payload, i, 5) * 2 ** -30 * 1e3; i += 5;
+      return [position, velocity, acceleration];
+    };
+    const [x, vx, ax] = readAxis();
+    const [y, vy, ay] = readAxis();
+    const [z, vz, az] = readAxis();
+    i += 1;
+    const gammaN = this.readSignMagnitude(payload, i, 11) * 2 ** -40; i += 11 + 3;
+    const tauN = this.readSignMagnitude(payload, i, 22) * 2 ** -30; i += 22;
+    const deltaTauN = this.readSignMagnitude(payload, i, 5) * 2 ** -30; i += 5;
+    const age = this.readUnsigned(payload, i, 5);
+
+    // tb is Moscow time of day: place it on the day closest to the reference time
+    const toeTimestamp = this.resolveGlonassTime(-1, tb, options);
+
+    return {
+      kind: 'glonassEphemeris',
+      type: 1020,
+      ephemeris: {
+        satId: `R${String(prn).padStart(2, '0')}`,
+        frequencyChannel,
+        tk: tkHours * 3600 + tkMinutes * 60 + tkSeconds,
+        tb,
+        toeGps: SatelliteOrbit.timestampToGpsSeconds(toeTimestamp),
+        position: [x, y, z],
+        velocity: [vx, vy, vz],
+        acceleration: [ax, ay, az],
+        gammaN,
+        tauN,
+        deltaTauN,
+        age,
+        health,
+      },
+    };
+  }
+
+  /**
+   * GPS-scale time of week (s) to a timestamp, in the week closest to the reference time
+   */
+  private static resolveTimeOfWeek(tow: number, options: RTCMDecodeOptions): number {
+    const reference = SatelliteOrbit.timestampToGpsSeconds(options.referenceTime ?? Date.now());
+    const week = Math.floor(reference / SatelliteOrbit.SECONDS_PER_WEEK);
+    let seconds = week * SatelliteOrbit.SECONDS_PER_WEEK + tow;
+    if (seconds - reference > SatelliteOrbit.SECONDS_PER_WEEK / 2) seconds -= SatelliteOrbit.SECONDS_PER_WEEK;
+    else if (reference - seconds > SatelliteOrbit.SECONDS_PER_WEEK / 2) seconds += SatelliteOrbit.SECONDS_PER_WEEK;
+    return SatelliteOrbit.gpsSecondsToTimestamp(seconds);
+  }
+
+  /**
+   * GLONASS (Moscow) time of day to a GPS-scale timestamp. The day of week (0 = Sunday,
+   * 7 or -1 = unknown) is ignored; the day closest to the reference time is used.
+   */
+  private static resolveGlonassTime(dayOfWeek: number, tod: number, options: RTCMDecodeOptions): number {
+    const leapSeconds = options.leapSeconds ?? this.DEFAULT_LEAP_SECONDS;
+    const reference = SatelliteOrbit.timestampToGpsSeconds(options.referenceTime ?? Date.now());
+    // Time of day in the GPS scale
+    const gpsTod = tod - this.MOSCOW_OFFSET + leapSeconds;
+    const day = Math.floor(reference / DAY_SECONDS);
+    let seconds = day * DAY_SECONDS + gpsTod;
+    if (dayOfWeek >= 0 && dayOfWeek < 7) {
+      // Day of week in Moscow time refers to the same week as the GPS week
+      const week = Math.floor(reference / SatelliteOrbit.SECONDS_PER_WEEK);
+      seconds = week * SatelliteOrbit.SECONDS_PER_WEEK + dayOfWeek * DAY_SECONDS + gpsTod;
+      if (seconds - reference > SatelliteOrbit.SECONDS_PER_WEEK / 2) seconds -= SatelliteOrbit.SECONDS_PER_WEEK;
+      else if (reference - seconds > SatelliteOrbit.SECONDS_PER_WEEK / 2) seconds += SatelliteOrbit.SECONDS_PER_WEEK;
+    } else {
+      if (seconds - reference > DAY_SECONDS / 2) seconds -= DAY_SECONDS;
+      else if (reference - seconds > DAY_SECONDS / 2) seconds += DAY_SECONDS;
+    }
+    return SatelliteOrbit.gpsSecondsToTimestamp(seconds);
+  }
+
+  /**
+   * MSM7 extended lock time indicator (DF407) to minimum lock time (ms)
+   */
+  private static msm7LockTime(indicator: number): number {
+    if (indicator < 64) return indicator;
+    if (indicator >= 704) return 67108864;
+    const n = Math.floor(indicator / 32) - 1;
+    return 2 ** n * (indicator - 32 * n);
+  }
+
+  private static uraToMeters(ura: number): number {
+    const table = [2.4, 3.4, 4.85, 6.85, 9.65, 13.65, 24, 48, 96, 192, 384, 768, 1536, 3072, 6144];
+    return ura < table.length ? table[ura] : 6144;
+  }
+
+  private static sisaToMeters(sisa: number): number {
+    if (sisa <= 49) return sisa * 0.01;
+    if (sisa <= 74) return 0.5 + (sisa - 50) * 0.02;
+    if (sisa <= 99) return 1 + (sisa - 75) * 0.04;
+    if (sisa <= 125) return 2 + (sisa - 100) * 0.16;
+    return -1; // No accuracy prediction available
+  }
+
+  private static requireBits(payload: Uint8Array, bits: number, type: number): void {
+    if (payload.length * 8 < bits) {
+      throw new Error(`RTCM ${type}: payload too short (${payload.length} bytes)`);
+    }
+  }
+
+  /**
+   * Unsigned big-endian bit field, up to 53 bits
+   */
+  private static readUnsigned(bytes: Uint8Array, position: number, length: number): number {
+    let value = 0;
+    for (let i = position; i < position + length; i++) {
+      value = value * 2 + ((bytes[i >> 3] >> (7 - (i & 7))) & 1);
+    }
+    return value;
+  }
+
+  /**
+   * Two's complement bit field
+   */
+  private static readSigned(bytes: Uint8Array, position: number, length: number): number {
+    const value = this.readUnsigned(bytes, position, length);
+    return value >= 2 ** (length - 1) ? value - 2 ** length : value;
+  }
+
+  /**
+   * Sign-magnitude bit field (GLONASS)
+   */
+  private static readSignMagnitude(bytes: Uint8Array, position: number, length: number): number {
+    const magnitude = this.readUnsigned(bytes, position + 1, length - 1);
+    return this.readUnsigned(bytes, position, 1) ? -magnitude : magnitude;
+  }
+}
+
+/**
+ * Incremental decoder for an RTCM byte stream: keeps partial frames between
+ * chunks and learns GLONASS frequency channels from 1020 / MSM7 messages.
+ */
+export class RTCMStreamDecoder {
+  private buffer: Uint8Array = new Uint8Array(0);
+  private glonassChannels: Record<string, number> = {};
+  private discardedBytes = 0;
+  private crcErrors = 0;
+
+  constructor(private readonly options: RTCMDecodeOptions = {}) {
+    Object.assign(this.glonassChannels, options.glonassChannels);
+  }
+
+  /**
+   * Append a chunk and return the frames it completes
+   */
+  public push(chunk: Uint8Array): RTCMFrame[] {
+    const merged = new Uint8Array(this.buffer.length + chunk.length);
+    merged.set(this.buffer);
+    merged.set(chunk, this.buffer.length);
+
+    const frames: RTCMFrame[] = [];
+    let offset = 0;
+
+    while (offset < merged.length) {
+      if (merged[offset] !== RTCMDecoder.PREAMBLE) {
+        offset++;
+        this.discardedBytes++;
+        continue;
+      }
+      if (merged.length - offset < RTCMDecoder.HEADER_LENGTH) break;
+
+      const total = RTCMDecoder.frameLength(merged, offset);
+      if (total === null) {
+        offset++;
+        this.discardedBytes++;
+        continue;
+      }
+      if (merged.length - offset < total) break;
+
+      const frame = RTCMDecoder.decodeFrame(merged, offset, {
+        ...this.options,
+        glonassChannels: this.glonassChannels,
+      })!;
+      if (!frame.crcValid) {
+        this.crcErrors++;
+        frames.push(frame);
+        offset++;
+        this.discardedBytes++;
+        continue;
+      }
+
+      this.learn(frame.message);
+      frames.push(frame);
+      offset += total;
+    }
+
+    this.buffer = merged.slice(offset);
+    return frames;
+  }
+
+  public getCrcErrors(): number {
+    return this.crcErrors;
+  }
+
+  public getDiscardedBytes(): number {
+    return this.discardedBytes;
+  }
+
+  public getGlonassChannels(): Record<string, number> {
+    return { ...this.glonassChannels };
+  }
+
+  public reset(): void {
+    this.buffer = new Uint8Array(0);
+    this.discardedBytes = 0;
+    this.crcErrors = 0;
+  }
+
+  private learn(message: RTCMMessage | undefined): void {
+    if (message?.kind === 'glonassEphemeris') {
+      this.glonassChannels[message.ephemeris.satId] = message.ephemeris.frequencyChannel;
+    } else if (message?.kind === 'msm') {
+      Object.assign(this.glonassChannels, message.glonassChannels);
+    }
+  }
+}
@@ -1,8 +1,18 @@
 import { z } from 'zod';
-import { fusionAuditLog } from '../security/FusionAuditLog';
+import { fusionAuditLog } from '../sensors/FusionAuditLog';
 import { fileSyncManager } from '../sync/FileSyncManager';
 import { missionSync } from '../sync/MissionSync';
 import { llmAssistant } from '../ai/LLMAssistant';
+import { CoordinateSystemManager } from '../sensors/CoordinateSystemManager';
+import { PositionSolver, type PositionEstimate, type SatelliteObservation } from './PositionSolver';
+import { SatelliteOrbit, type EphemerisSystem, type KeplerianEphemeris } from './SatelliteOrbit';
+import { AtmosphericCorrection, type KlobucharParameters } from './AtmosphericCorrection';
+import {
+  ObservationQualityChecker,
+  type ObservationQualityReport,
+  type QualityCheckOptions,
+} from './ObservationQualityChecker';
+import { RinexWriter, type RinexWriteOptions, type RinexWriteResult } from './RinexWriter';
 
 // Schémas de validation avec Zod
 const RinexHeaderSchema = z.object({
@@ -75,6 +85,33 @@ const RinexObservationSchema = z.object({
 type RinexHeader = z.infer<typeof RinexHeaderSchema>;
 type RinexObservation = z.infer<typeof RinexObservationSchema>;
 
+interface RinexNavigationHeader {
+  version: string;
+  gnssType?: RinexHeader['gnssType'];
+  ionosphere?: KlobucharParameters;
+  leapSeconds?: number;
+}
+
+interface RinexNavigationData {
+  header: RinexNavigationHeader;
+  ephemerides: KeplerianEphemeris[];
+  skippedRecords: number; // GLONASS, SBAS, QZSS, IRNSS ou enregistrements invalides
+}
+
+// Codes de pseudo-distance sur la fréquence primaire, par ordre de préférence
+const PSEUDORANGE_CODES: Record<EphemerisSystem, string[]> = {
+  G: ['C1C', 'C1W', 'C1P', 'C1', 'P1'],
+  E: ['C1C', 'C1X', 'C1B'],
+  C: ['C2I', 'C1I', 'C2X'],
+};
+
+const GPS_L1_FREQUENCY = 1575.42e6;
+const PRIMARY_FREQUENCIES: Record<EphemerisSystem, number> = {
+  G: GPS_L1_FREQUENCY,
+  E: GPS_L1_FREQUENCY, // E1
+  C: 1561.098e6,       // B1I
+};
+
 export class RinexParser {
   private static instance: RinexParser;
   
@@ -93,9 +130,11 @@ export class RinexParser {
   public async parseRinexFile(content: string, options: {
     missionId?: string;
     filePath?: string;
+    qualityCheck?: QualityCheckOptions;
   } = {}): Promise<{
     header: RinexHeader;
     observations: RinexObservation[];
+    quality: ObservationQualityReport;
     metadata: {
       fileSize: number;
       duration?: number;
@@ -128,17 +167,22 @@ export class RinexParser {
         endTime: metadata.endTime,
       };
       
+      // Contrôle qualité des observations (arcs, sauts de cycle, multitrajets, lacunes)
+      const quality = ObservationQualityChecker.analyze(header, observations, options.qualityCheck);
+      
       // Journaliser l'import
       await this.logRinexImport({
         missionId: options.missionId,
         filePath: options.filePath,
         header,
         metadata: fileMetadata,
+        quality,
       });
       
       return {
         header,
         observations,
+        quality,
         metadata: fileMetadata,
       };
       
@@ -148,6 +192,214 @@ export class RinexParser {
     }
   }
   
+  /**
+   * Parse un fichier de navigation RINEX 2/3 (éphémérides radiodiffusées GPS, Galileo, BeiDou)
+   */
+  public async parseNavigationFile(content: string): Promise<RinexNavigationData> {
+    try {
+      const lines = content.split(/\r?\n/);
+      const { header, headerEndLine } = this.parseNavigationHeader(lines);
+      const ephemerides: KeplerianEphemeris[] = [];
+      let skippedRecords = 0;
+      
+      const isV3 = parseFloat(header.version) >= 3;
+      if (parseFloat(header.version) >= 4) {
+        throw new Error('RINEX 4 navigation non pris en charge');
+      }
+      
+      for (let i = headerEndLine + 1; i < lines.length; i++) {
+        const line = lines[i];
+        if (!line.trim()) continue;
+        
+        // RINEX 2 ne contient que des enregistrements GPS (fichiers .yyN)
+        const system = isV3 ? line[0] : 'G';
+        const recordLines = system === 'R' || system === 'S' ? 4 : 8;
+        const record = lines.slice(i, i + recordLines);
+        i += recordLines - 1;
+        
+        if (record.length < recordLines || (system !== 'G' && system !== 'E' && system !== 'C')) {
+          skippedRecords++;
+          continue;
+        }
+        
+        const ephemeris = this.parseKeplerianRecord(record, system, isV3);
+        if (ephemeris) {
+          ephemerides.push(ephemeris);
+        } else {
+          skippedRecords++;
+        }
+      }
+      
+      return { header, ephemerides, skippedRecords };
+      
+    } catch (error) {
+      console.error('Erreur lors du parsing RINEX navigation:', error);
+      throw new Error(`Échec du parsing RINEX navigation: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Parse l'en-tête d'un fichier de navigation RINEX
+   */
+  private parseNavigationHeader(lines: string[]): { header: RinexNavigationHeader; headerEndLine: number } {
+    const header: RinexNavigationHeader = { version: '' };
+    const alpha: number[] = [];
+    const beta: number[] = [];
+    let headerEndLine = -1;
+    
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      
+      if (line.includes('END OF HEADER')) {
+        headerEndLine = i;
+        break;
+      }
+      
+      if (line.includes('RINEX VERSION / TYPE')) {
+        header.version = line.slice(0, 9).trim();
+        const fileType = line.slice(20, 21);
+        if (this.mapFileType(fileType) !== 'NAVIGATION') {
+          throw new Error(`Type de fichier RINEX non supporté pour la navigation: ${fileType}`);
+        }
+        const system = line.slice(40, 41).trim();
+        header.gnssType = parseFloat(header.version) >= 3
+          ? this.mapSystemLetter(system)
+          : 'GPS';
+      }
+      else if (line.includes('ION ALPHA')) {
+        alpha.push(...this.parseNavValues(line, 2, 12, 4));
+      }
+      else if (line.includes('ION BETA')) {
+        beta.push(...this.parseNavValues(line, 2, 12, 4));
+      }
+      else if (line.includes('IONOSPHERIC CORR')) {
+        const source = line.slice(0, 4);
+        if (source === 'GPSA') alpha.push(...this.parseNavValues(line, 5, 12, 4));
+        if (source === 'GPSB') beta.push(...this.parseNavValues(line, 5, 12, 4));
+      }
+      else if (line.includes('LEAP SECONDS')) {
+        header.leapSeconds = parseInt(line.slice(0, 6).trim());
+      }
+    }
+    
+    if (headerEndLine < 0) {
+      throw new Error('En-tête RINEX invalide: marqueur "END OF HEADER" non trouvé');
+    }
+    
+    if (alpha.length === 4 && beta.length === 4) {
+      header.ionosphere = {
+        alpha: alpha as [number, number, number, number],
+        beta: beta as [number, number, number, number],
+      };
+    }
+    
+    return { header, headerEndLine };
+  }
+  
+  /**
+   * Parse un enregistrement d'éphéméride képlérienne (ligne d'époque + 7 lignes d'orbite)
+   */
+  private parseKeplerianRecord(
+    record: string[],
+    system: EphemerisSystem,
+    isV3: boolean
+  ): KeplerianEphemeris | null {
+    const first = record[0];
+    let satId: string;
+    let epoch: number[];
+    let clock: number[];
+    
+    if (isV3) {
+      // A1,I2.2,1X,I4,5(1X,I2.2),3D19.12
+      satId = `${system}${first.slice(1, 3).trim().padStart(2, '0')}`;
+      epoch = [4, 9, 12, 15, 18, 21].map((start, k) => parseInt(first.slice(start, start + (k === 0 ? 4 : 2)).trim()));
+      clock = this.parseNavValues(first, 23, 19, 3);
+    } else {
+      // I2,5I3,F5.1,3D19.12
+      satId = `G${first.slice(0, 2).trim().padStart(2, '0')}`;
+      epoch = [0, 1, 2, 3, 4].map(k => parseInt(first.slice(2 + k * 3, 5 + k * 3).trim()));
+      epoch.push(parseFloat(first.slice(17, 22).trim()));
+      clock = this.parseNavValues(first, 22, 19, 3);
+    }
+    
+    const orbit = record.slice(1).flatMap(line => this.parseNavValues(line, isV3 ? 4 : 3, 19, 4));
+    if (epoch.some(isNaN) || orbit.length < 28 || !orbit[7]) return null;
+    
+    // Époque d'horloge dans l'échelle de temps du système (BDT pour BeiDou)
+    const [year, month, day, hour, minute, second] = epoch;
+    let toc = SatelliteOrbit.timestampToGpsSeconds(
+      this.convertToTimestamp(year, month, day, hour, minute, second)
+    );
+    if (system === 'C') toc += SatelliteOrbit.BDT_LEAP_SECONDS;
+    
+    const week = orbit[18];
+    const toe = orbit[8];
+    
+    return {
+      satId,
+      system,
+      toc,
+      af0: clock[0],
+      af1: clock[1],
+      af2: clock[2],
+      iode: orbit[0],
+      crs: orbit[1],
+      deltaN: orbit[2],
+      m0: orbit[3],
+      cuc: orbit[4],
+      e: orbit[5],
+      cus: orbit[6],
+      sqrtA: orbit[7],
+      toe,
+      cic: orbit[9],
+      omega0: orbit[10],
+      cis: orbit[11],
+      i0: orbit[12],
+      crc: orbit[13],
+      omega: orbit[14],
+      omegaDot: orbit[15],
+      idot: orbit[16],
+      week,
+      toeGps: SatelliteOrbit.weekToGpsSeconds(system, week, toe),
+      accuracy: orbit[20],
+      health: orbit[21],
+      // GPS: TGD / IODC ; Galileo: BGD E5a/E1 / BGD E5b/E1 ; BeiDou: TGD1 / TGD2
+      tgd: system === 'E' ? orbit[23] : orbit[22],
+      tgd2: system === 'G' ? undefined : system === 'E' ? orbit[22] : orbit[23],
+      iodc: system === 'G' ? orbit[23] : undefined,
+      transmissionTime: orbit[24],
+      fitInterval: system === 'G' ? orbit[25] : undefined,
+    };
+  }
+  
+  /**
+   * Lit des valeurs numériques à largeur fixe (notation Fortran D acceptée)
+   */
+  private parseNavValues(line: string, start: number, width: number, count: number): number[] {
+    const values: number[] = [];
+    for (let k = 0; k < count; k++) {
+      const field = line.slice(start + k * width, start + (k + 1) * width).trim().replace(/[dD]/, 'E');
+      values.push(field ? parseFloat(field) : 0);
+    }
+    return values;
+  }
+  
+  /**
+   * Convertit la lettre de système RINEX 3 en type GNSS
+   */
+  private mapSystemLetter(letter: string): RinexHeader['gnssType'] {
+    switch (letter) {
+      case 'G': return 'GPS';
+      case 'R': return 'GLONASS';
+      case 'E': return 'GALILEO';
+      case 'C': return 'BEIDOU';
+      case 'J': return 'QZSS';
+      case 'I': return 'IRNSS';
+      case 'S': return 'SBAS';
+      default: return 'MIXED';
+    }
+  }
+  
   /**
    * Parse l'en-tête d'un fichier RINEX
    */
@@ -203,13 +455,10 @@ export class RinexParser {
         };
       }
       else if (line.includes('ANTENNA: DELTA H/E/N')) {
-        const parts = line.split(/\s+/).filter(Boolean);
-        if (parts.length >= 4) {
-          header.antennaDelta = [
-            parseFloat(parts[1]), // H
-            parseFloat(parts[2]), // E
-            parseFloat(parts[3])  // N
-          ];
+        // Format 3F14.4 : hauteur, excentrements est et nord
+        const values = [0, 14, 28].map(start => parseFloat(line.slice(start, start + 14)));
+        if (values.every(value => !isNaN(value))) {
+          header.antennaDelta = values as [number, number, number];
         }
       }
       else if (line.includes('APPROX POSITION XYZ')) {
@@ -223,13 +472,33 @@ export class RinexParser {
         }
       }
       else if (line.includes('WAVELENGTH FACT L1/2')) {
-        const parts = line.split(/\s+/).filter(Boolean);
-        if (parts.length >= 3) {
-          header.wavelengthFactors = [
-            [parseInt(parts[0]), parseInt(parts[1])],
-            [parseInt(parts[2]), parseInt(parts[3] || '0')]
-          ];
+        // Format 3I6 : facteurs L1 et L2, nombre de satellites concernés (0 = tous)
+        const [l1, l2, count] = [0, 6, 12].map(start => parseInt(line.slice(start, start + 6)) || 0);
+        header.wavelengthFactors = [
+          [l1, l2],
+          [count, 0]
+        ];
+      }
+      else if (line.includes('SYS / # / OBS TYPES')) {
+        // RINEX 3: types par système (13 par ligne, lignes de continuation)
+        const system = line[0];
+        const count = parseInt(line.slice(3, 6).trim()) || 0;
+        const types: string[] = [];
+        let lineIndex = 0;
+        
+        while (types.length < count && i + lineIndex < lines.length) {
+          const currentLine = lines[i + lineIndex];
+          for (let j = 0; j < 13 && types.length < count; j++) {
+            const start = 7 + j * 4;
+            const type = currentLine.slice(start, start + 3).trim();
+            if (!type) break;
+            types.push(type);
+          }
+          lineIndex++;
         }
+        
+        header.observationTypes = { ...(header.observationTypes || {}), [system]: types };
+        i += lineIndex - 1; // Ajuster l'index principal
       }
       else if (line.includes('# / TYPES OF OBSERV')) {
         const count = parseInt(line.slice(0, 6).trim()) || 0;
@@ -342,6 +611,110 @@ export class RinexParser {
     
     let currentObservations: Record<string, Record<string, { value: number; lli?: number; signalStrength?: number }>> = {};
     
+    // En RINEX 3, la liste des satellites n'est pas répétée après l'en-tête d'époque :
+    // chaque ligne d'observation commence par l'identifiant du satellite
+    const satellitesInObsLines = parseFloat(header.version) >= 3;
+    
+    // Enregistrer les observations de l'époque courante
+    const flushEpoch = () => {
+      if (!currentEpoch || Object.keys(currentObservations).length === 0) return;
+      
+      const timestamp = this.convertToTimestamp(
+        currentEpoch.year, 
+        currentEpoch.month, 
+        currentEpoch.day,
+        currentEpoch.hour,
+        currentEpoch.minute,
+        currentEpoch.second
+      );
+      
+      // Mettre à jour les métadonnées de temps
+      const currentDate = new Date(timestamp);
+      if (!metadata.startTime || currentDate < metadata.startTime) {
+        metadata.startTime = currentDate;
+      }
+      if (!metadata.endTime || currentDate > metadata.endTime) {
+        metadata.endTime = currentDate;
+      }
+      
+      observations.push({
+        timestamp,
+        epochFlag: currentEpoch.epochFlag,
+        receiverClockOffset: currentEpoch.receiverClockOffset,
+        satellites: [...currentEpoch.satellites],
+        observations: { ...currentObservations },
+      });
+      
+      currentObservations = {};
+    };
+    
+    // RINEX 2 : époques sans marqueur '>', liste commune de types, 5 observations par ligne
+    if (!satellitesInObsLines) {
+      const obsTypes = Object.values(header.observationTypes || {})[0] || [];
+      
+      for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (!line.trim() || !/^ [ \d]\d [ \d]\d [ \d]\d [ \d]\d [ \d]\d/.test(line)) continue;
+        
+        const epochData = this.parseEpochHeaderV2(line);
+        const sats: string[] = [];
+        let listLine = line;
+        while (sats.length < epochData.satelliteCount) {
+          const list = listLine.slice(32, 68);
+          for (let k = 0; k + 3 <= list.length && sats.length < epochData.satelliteCount; k += 3) {
+            const id = list.slice(k, k + 3);
+            // Identifiant sans lettre de système (ancien format GPS) : 'G' par défaut
+            sats.push(id[0] === ' ' ? `G${id.slice(1).trim().padStart(2, '0')}` : id.replace(' ', '0'));
+          }
+          if (sats.length < epochData.satelliteCount) listLine = lines[++i] || '';
+          else break;
+        }
+        
+        // Événements (drapeaux > 1) : lignes d'en-tête ou de commentaire à ignorer
+        if (epochData.epochFlag > 1) {
+          i += epochData.satelliteCount;
+          continue;
+        }
+        
+        currentEpoch = { ...epochData, satellites: sats };
+        const linesPerSat = Math.max(1, Math.ceil(obsTypes.length / 5));
+        
+        for (const satId of sats) {
+          metadata.satelliteSystems.add(satId[0]);
+          const values: Record<string, { value: number; lli?: number; signalStrength?: number }> = {};
+          
+          for (let l = 0; l < linesPerSat; l++) {
+            const obsLine = lines[++i] || '';
+            for (let j = 0; j < 5; j++) {
+              const obsType = obsTypes[l * 5 + j];
+              if (!obsType) break;
+              const field = obsLine.slice(j * 16, j * 16 + 16);
+              const value = parseFloat(field.slice(0, 14));
+              if (isNaN(value)) continue;
+              
+              const lli = parseInt(field[14]);
+              const signalStrength = parseInt(field[15]);
+              values[obsType] = {
+                value,
+                lli: isNaN(lli) ? undefined : lli,
+                signalStrength: isNaN(signalStrength) ? undefined : signalStrength,
+              };
+              metadata.observationTypes.add(obsType);
+            }
+          }
+          
+          if (Object.keys(values).length) currentObservations[satId] = values;
+        }
+        
+        flushEpoch();
+      }
+      
+      if (metadata.startTime && metadata.endTime) {
+        metadata.duration = metadata.endTime.getTime() - metadata.startTime.getTime();
+      }
+      return { observations, metadata };
+    }
+    
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
       if (!line.trim()) continue;
@@ -349,35 +722,7 @@ export class RinexParser {
       // Ligne d'en-tête d'époque
       if (line.startsWith('>')) {
         // Enregistrer les observations précédentes
-        if (currentEpoch && Object.keys(currentObservations).length > 0) {
-          const timestamp = this.convertToTimestamp(
-            currentEpoch.year, 
-            currentEpoch.month, 
-            currentEpoch.day,
-            currentEpoch.hour,
-            currentEpoch.minute,
-            currentEpoch.second
-          );
-          
-          // Mettre à jour les métadonnées de temps
-          const currentDate = new Date(timestamp);
-          if (!metadata.startTime || currentDate < metadata.startTime) {
-            metadata.startTime = currentDate;
-          }
-          if (!metadata.endTime || currentDate > metadata.endTime) {
-            metadata.endTime = currentDate;
-          }
-          
-          observations.push({
-            timestamp,
-            epochFlag: currentEpoch.epochFlag,
-            receiverClockOffset: currentEpoch.receiverClockOffset,
-            satellites: [...currentEpoch.satellites],
-            observations: { ...currentObservations },
-          });
-          
-          currentObservations = {};
-        }
+        flushEpoch();
         
         // Parser la nouvelle époque
         const epochData = this.parseEpochHeader(line);
@@ -395,6 +740,8 @@ export class RinexParser {
           continue;
         }
         
+        if (satellitesInObsLines) continue;
+        
         // Lire les satellites pour cette époque
         const satLines = Math.ceil((epochData.satelliteCount || 0) / 12);
         const sats: string[] = [];
@@ -419,7 +766,12 @@ export class RinexParser {
         // Le format des observations dépend de la version RINEX et des types d'observation
         // Pour simplifier, on suppose un format RINEX 3.x avec des observations sur plusieurs lignes
         const satId = line.slice(0, 3).trim();
-        if (!satId || !currentEpoch.satellites.includes(satId)) continue;
+        if (!satId) continue;
+        if (!currentEpoch.satellites.includes(satId)) {
+          if (!satellitesInObsLines) continue;
+          currentEpoch.satellites.push(satId);
+          metadata.satelliteSystems.add(satId[0]);
+        }
         
         const obsTypes = header.observationTypes?.[satId[0]] || [];
         if (!obsTypes.length) continue;
@@ -451,6 +803,8 @@ export class RinexParser {
       }
     }
     
+    flushEpoch();
+    
     // Calculer la durée totale
     if (metadata.startTime && metadata.endTime) {
       metadata.duration = metadata.endTime.getTime() - metadata.startTime.getTime();
@@ -473,8 +827,8 @@ export class RinexParser {
     // Ajuster l'année à 4 chiffres (RINEX 2 utilise 2 chiffres)
     const fullYear = year < 100 ? (year >= 80 ? 1900 + year : 2000 + year) : year;
     
-    // Créer une date en UTC
-    const date = new Date(Date.UTC(fullYear, month - 1, day, hour, minute, second));
+    // Créer une date en UTC (Date.UTC tronque les secondes fractionnaires)
+    const date = new Date(Date.UTC(fullYear, month - 1, day, hour, minute) + second * 1000);
     
     // Vérifier si la date est valide
     if (isNaN(date.getTime())) {
@@ -498,18 +852,19 @@ export class RinexParser {
     satelliteCount: number;
     receiverClockOffset?: number;
   } {
-    const year = parseInt(line.slice(1, 5).trim()) || 2000;
-    const month = parseInt(line.slice(6, 8).trim()) || 1;
-    const day = parseInt(line.slice(9, 11).trim()) || 1;
-    const hour = parseInt(line.slice(12, 14).trim()) || 0;
-    const minute = parseInt(line.slice(15, 17).trim()) || 0;
-    const second = parseFloat(line.slice(17, 29).trim()) || 0;
-    const epochFlag = parseInt(line[29] || '0');
-    const satelliteCount = parseInt(line[30] + (line[31] || '0').trim()) || 0;
+    // Format RINEX 3 : A1,1X,I4,4(1X,I2.2),F11.7,2X,I1,I3,6X,F15.12
+    const year = parseInt(line.slice(2, 6).trim()) || 2000;
+    const month = parseInt(line.slice(7, 9).trim()) || 1;
+    const day = parseInt(line.slice(10, 12).trim()) || 1;
+    const hour = parseInt(line.slice(13, 15).trim()) || 0;
+    const minute = parseInt(line.slice(16, 18).trim()) || 0;
+    const second = parseFloat(line.slice(18, 29).trim()) || 0;
+    const epochFlag = parseInt(line[31] || '0') || 0;
+    const satelliteCount = parseInt(line.slice(32, 35).trim()) || 0;
     
     let receiverClockOffset;
-    if (line.length > 68) {
-      receiverClockOffset = parseFloat(line.slice(68).trim());
+    if (line.length > 35) {
+      receiverClockOffset = parseFloat(line.slice(35, 56).trim());
       if (isNaN(receiverClockOffset)) receiverClockOffset = undefined;
     }
     
@@ -526,6 +881,35 @@ export class RinexParser {
     };
   }
   
+  /**
+   * Parse l'en-tête d'époque RINEX 2 : 1X,I2.2,4(1X,I2),F11.7,2X,I1,I3,12(A1,I2),F12.9
+   */
+  private parseEpochHeaderV2(line: string): {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    epochFlag: number;
+    satelliteCount: number;
+    receiverClockOffset?: number;
+  } {
+    const clock = parseFloat(line.slice(68, 80));
+    
+    return {
+      year: parseInt(line.slice(1, 3)),
+      month: parseInt(line.slice(4, 6)),
+      day: parseInt(line.slice(7, 9)),
+      hour: parseInt(line.slice(10, 12)),
+      minute: parseInt(line.slice(13, 15)),
+      second: parseFloat(line.slice(15, 26)),
+      epochFlag: parseInt(line[28] || '0') || 0,
+      satelliteCount: parseInt(line.slice(29, 32)) || 0,
+      receiverClockOffset: isNaN(clock) ? undefined : clock,
+    };
+  }
+  
   /**
    * Convertit le type de fichier RINEX
    */
@@ -544,6 +928,11 @@ export class RinexParser {
    * Convertit le type de système GNSS
    */
   private mapGnssType(type: string): RinexHeader['gnssType'] {
+    // Fichiers d'observation : lettre du système, éventuellement suivie du nom (« M (MIXED) »)
+    if (/^[GREMCJIS](\s|$)/.test(type)) {
+      return type[0] === 'M' ? 'MIXED' : this.mapSystemLetter(type[0]);
+    }
+    
     switch (type) {
       case 'GPS': return 'GPS';
       case 'GLO': return 'GLONASS';
@@ -572,15 +961,26 @@ export class RinexParser {
       startTime?: Date;
       endTime?: Date;
     };
+    quality?: ObservationQualityReport;
   }) {
-    const { missionId, filePath, header, metadata } = params;
+    const { missionId, filePath, header, metadata, quality } = params;
+    
+    // Position approchée de l'en-tête, si elle est renseignée (sinon 0/0)
+    const approx = header.positionApprox && Math.hypot(...header.positionApprox) > 1e6
+      ? CoordinateSystemManager.fromECEF(...header.positionApprox)
+      : undefined;
     
     // Journaliser avec FusionAuditLog
     await fusionAuditLog.log({
-      action: 'rinex_import',
-      entityType: 'mission',
-      entityId: missionId,
-      details: {
+      timestamp: new Date(),
+      position: approx ? { lat: approx[0], lon: approx[1], alt: approx[2] } : { lat: 0, lon: 0 },
+      accuracy: Number.NaN, // Précision inconnue : l'import ne calcule pas de position
+      sources: ['rinex'],
+      status: 'raw',
+      metadata: {
+        action: 'rinex_import',
+        entityType: 'mission',
+        entityId: missionId,
         filePath,
         fileSize: metadata.fileSize,
         version: header.version,
@@ -594,6 +994,7 @@ export class RinexParser {
         duration: metadata.duration,
         satelliteSystems: Array.from(metadata.satelliteSystems),
         observationTypes: Array.from(metadata.observationTypes),
+        quality: quality ? ObservationQualityChecker.summarize(quality) : undefined,
       },
     });
     
@@ -654,10 +1055,180 @@ export class RinexParser {
   }
   
   /**
-   * Convertit les observations RINEX en positions (solution de navigation)
-   * Note: Cette méthode est un exemple simplifié
+   * Construit les observations satellites attendues par PositionSolver pour une époque :
+   * positions ECEF à l'émission (corrigées de la rotation terrestre), pseudo-distances
+   * corrigées de l'horloge satellite, du retard de groupe et, si une position approchée
+   * est connue, de l'ionosphère (Klobuchar) et de la troposphère (Saastamoinen).
    */
-  public async calculatePositions(observations: RinexObservation[]): Promise<{
+  public buildSatelliteObservations(
+    observation: RinexObservation,
+    navigation: RinexNavigationData,
+    options: {
+      receiverPosition?: [number, number, number];
+      elevationMask?: number; // degrés
+      applyAtmosphere?: boolean;
+    } = {}
+  ): SatelliteObservation[] {
+    const c = SatelliteOrbit.SPEED_OF_LIGHT;
+    const receiveTime = SatelliteOrbit.timestampToGpsSeconds(observation.timestamp);
+    const receiverClockBias = observation.receiverClockOffset || 0;
+    const elevationMask = options.elevationMask ?? 10;
+    const applyAtmosphere = options.applyAtmosphere ?? true;
+    
+    const receiverPosition = options.receiverPosition &&
+      Math.hypot(...options.receiverPosition) > 1e6 ? options.receiverPosition : undefined;
+    const receiverGeodetic = receiverPosition
+      ? CoordinateSystemManager.fromECEF(...receiverPosition)
+      : undefined;
+    
+    const result: SatelliteObservation[] = [];
+    
+    for (const [satId, values] of Object.entries(observation.observations)) {
+      const system = satId[0];
+      if (system !== 'G' && system !== 'E' && system !== 'C') continue;
+      
+      const code = PSEUDORANGE_CODES[system].find(type => values[type]?.value);
+      if (!code) continue;
+      const pseudorange = values[code].value;
+      
+      const ephemeris = SatelliteOrbit.selectEphemeris(navigation.ephemerides, satId, receiveTime);
+      if (!ephemeris) continue;
+      
+      const state = SatelliteOrbit.computeAtReception(
+        ephemeris,
+        receiveTime,
+        pseudorange,
+        receiverPosition,
+        receiverClockBias
+      );
+      
+      // Horloge satellite (biais + relativité) moins le retard de groupe de la fréquence primaire
+      let corrected = pseudorange + c * (state.clockBias - ephemeris.tgd);
+      
+      if (receiverPosition && receiverGeodetic) {
+        const [east, north, up] = CoordinateSystemManager.toENU(state.position, receiverPosition);
+        const elevation = Math.atan2(up, Math.hypot(east, north)) * 180 / Math.PI;
+        const azimuth = (Math.atan2(east, north) * 180 / Math.PI + 360) % 360;
+        
+        if (elevation < elevationMask) continue;
+        
+        if (applyAtmosphere) {
+          const [lat, lon, height] = receiverGeodetic;
+          if (navigation.header.ionosphere) {
+            const secondsOfWeek = receiveTime % SatelliteOrbit.SECONDS_PER_WEEK;
+            const frequencyRatio = (GPS_L1_FREQUENCY / PRIMARY_FREQUENCIES[system]) ** 2;
+            corrected -= frequencyRatio * AtmosphericCorrection.klobuchar(
+              navigation.header.ionosphere, lat, lon, azimuth, elevation, secondsOfWeek
+            );
+          }
+          corrected -= AtmosphericCorrection.saastamoinen(lat, height, elevation);
+        }
+      }
+      
+      const snrType = `S${code.slice(1)}`;
+      const signalStrength = values[snrType]?.value ??
+        (values[code].signalStrength ? values[code].signalStrength! * 6 : undefined);
+      const phaseType = `L${code.slice(1)}`;
+      
+      result.push({
+        satId,
+        position: state.position,
+        pseudorange: corrected,
+        carrierPhase: values[phaseType]?.value,
+        signalStrength,
+        constellation: system === 'G' ? 'GPS' : system === 'E' ? 'GALILEO' : 'BEIDOU',
+      });
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Calcule les positions autonomes (single point) à partir d'un fichier d'observation
+   * et du fichier de navigation correspondant
+   */
+  public solveStandalonePositions(
+    observations: RinexObservation[],
+    navigation: RinexNavigationData,
+    options: {
+      approxPosition?: [number, number, number];
+      elevationMask?: number;
+      /** Journalise un résumé du calcul dans FusionAuditLog (par défaut : oui) */
+      audit?: boolean;
+    } = {}
+  ): PositionEstimate[] {
+    const estimates: PositionEstimate[] = [];
+    let receiverPosition = options.approxPosition && Math.hypot(...options.approxPosition) > 1e6
+      ? options.approxPosition
+      : undefined;
+    
+    for (const observation of observations) {
+      try {
+        // Sans position approchée : première solution sans atmosphère, puis raffinement
+        if (!receiverPosition) {
+          const raw = this.buildSatelliteObservations(observation, navigation, { applyAtmosphere: false });
+          if (raw.length < 4) continue;
+          const bootstrap = PositionSolver.solve(raw, [...this.initialGuess(raw), 0]);
+          receiverPosition = bootstrap.receiverECEF;
+        }
+        
+        // Les corrections (masque d'élévation, atmosphère) dépendent de la position :
+        // on recalcule tant que la solution s'éloigne de la position utilisée
+        let estimate: PositionEstimate | null = null;
+        for (let pass = 0; pass < 3; pass++) {
+          const satObs = this.buildSatelliteObservations(observation, navigation, {
+            receiverPosition,
+            elevationMask: options.elevationMask,
+          });
+          if (satObs.length < 4) break;
+          
+          estimate = PositionSolver.solve(satObs, [...receiverPosition, 0]);
+          const [x, y, z] = estimate.receiverECEF;
+          const shift = Math.hypot(x - receiverPosition[0], y - receiverPosition[1], z - receiverPosition[2]);
+          receiverPosition = estimate.receiverECEF;
+          if (shift < 1) break;
+        }
+        
+        if (!estimate || estimate.solutionStatus === 'INVALID') continue;
+        estimates.push({ ...estimate, timestamp: observation.timestamp });
+      } catch (error) {
+        console.warn(`Époque ${new Date(observation.timestamp).toISOString()} ignorée:`, error);
+      }
+    }
+    
+    // Une seule entrée d'audit pour l'ensemble du calcul
+    if (options.audit !== false) {
+      PositionSolver.logSolveRun(estimates, {
+        action: 'rinex_standalone_solution',
+        requestedEpochs: observations.length,
+      });
+    }
+    
+    return estimates;
+  }
+  
+  /**
+   * Point de départ pour le moindre carrés : barycentre des satellites ramené à la surface terrestre
+   */
+  private initialGuess(observations: SatelliteObservation[]): [number, number, number] {
+    const sum = observations.reduce(
+      (acc, obs) => [acc[0] + obs.position[0], acc[1] + obs.position[1], acc[2] + obs.position[2]],
+      [0, 0, 0]
+    );
+    const norm = Math.hypot(sum[0], sum[1], sum[2]) || 1;
+    const earthRadius = 6371000;
+    return [sum[0] / norm * earthRadius, sum[1] / norm * earthRadius, sum[2] / norm * earthRadius];
+  }
+  
+  /**
+   * Convertit les observations RINEX en positions (solution de navigation).
+   * Avec le fichier de navigation correspondant, les positions sont calculées par
+   * PositionSolver ; sinon un exemple simplifié est retourné.
+   */
+  public async calculatePositions(
+    observations: RinexObservation[],
+    navigation?: RinexNavigationData
+  ): Promise<{
     timestamp: number;
     lat: number;
     lon: number;
@@ -667,8 +1238,20 @@ export class RinexParser {
     pdop: number;
     satCount: number;
   }[]> {
-    // Implémentation simplifiée - dans une application réelle, cela nécessiterait
-    // des calculs de positionnement par satellites et des éphémérides
+    if (navigation) {
+      return this.solveStandalonePositions(observations, navigation).map(estimate => ({
+        timestamp: estimate.timestamp,
+        lat: estimate.latLonAlt[0],
+        lon: estimate.latLonAlt[1],
+        alt: estimate.latLonAlt[2],
+        hdop: estimate.dop.hdop,
+        vdop: estimate.dop.vdop,
+        pdop: estimate.dop.pdop,
+        satCount: estimate.satellitesUsed,
+      }));
+    }
+    
+    // Implémentation simplifiée - sans éphémérides, pas de positionnement réel
     
     const positions = [];
     const dop = this.calculateDop(observations);
@@ -709,6 +1292,32 @@ export class RinexParser {
     }
   }
   
+  /**
+   * Réécrit des observations RINEX (2.11 ou 3.04) avec édition d'en-tête, décimation,
+   * fenêtre temporelle et filtrage des constellations. Avec `sessionSeconds`, les
+   * observations sont découpées en plusieurs fichiers.
+   */
+  public exportToRinex(
+    data: { header: RinexHeader; observations: RinexObservation[] },
+    options: RinexWriteOptions & { sessionSeconds?: number } = {}
+  ): RinexWriteResult[] {
+    const { sessionSeconds, ...writeOptions } = options;
+    return sessionSeconds
+      ? RinexWriter.split(data, sessionSeconds, writeOptions)
+      : [RinexWriter.write(data, writeOptions)];
+  }
+  
+  /**
+   * Convertit un fichier d'observation RINEX vers une autre version (2.11 <-> 3.04)
+   */
+  public async convertRinex(content: string, options: RinexWriteOptions = {}): Promise<RinexWriteResult> {
+    const lines = content.split(/\r?\n/);
+    const headerResult = this.parseHeader(lines);
+    const header = RinexHeaderSchema.parse(headerResult);
+    const { observations } = await this.parseObservations(lines.slice(headerResult.headerEndLine + 1), header);
+    return RinexWriter.write({ header, observations }, options);
+  }
+  
   private async exportToGpx(data: any): Promise<string> {
     // Implémentation simplifiée
     let gpx = `<?xml version="1.0" encoding="UTF-8"?>\n`;
@@ -810,4 +1419,4 @@ export class RinexParser {
 }
 
 export const rinexParser = RinexParser.getInstance();
-export type { RinexHeader, RinexObservation };
+export type { RinexHeader, RinexObservation, RinexNavigationHeader, RinexNavigationData };
@@ -0,0 +1,448 @@
+import type { RinexHeader, RinexObservation } from './RinexParser';
+
+export type RinexOutputVersion = '2.11' | '3.04';
+
+export interface RinexHeaderOverrides {
+  markerName?: string;
+  markerNumber?: string;
+  markerType?: string;
+  observer?: string;
+  agency?: string;
+  receiverNumber?: string;
+  receiverType?: string;
+  receiverVersion?: string;
+  antennaNumber?: string;
+  antennaType?: string;
+  antennaDelta?: [number, number, number];   // Hauteur, est, nord (m)
+  positionApprox?: [number, number, number]; // ECEF (m)
+  comments?: string[];
+}
+
+export interface RinexWriteOptions {
+  version?: RinexOutputVersion;
+  header?: RinexHeaderOverrides;
+  interval?: number;                // Intervalle de décimation (s)
+  startTime?: Date | number;        // Inclus
+  endTime?: Date | number;          // Inclus
+  systems?: string[];               // Systèmes conservés ('G', 'R', 'E', 'C', 'J', 'S', 'I')
+  program?: string;
+  runBy?: string;
+}
+
+export interface RinexWriteResult {
+  content: string;
+  version: RinexOutputVersion;
+  epochs: number;
+  satellites: string[];
+  startTime?: number;
+  endTime?: number;
+  warnings: string[];
+}
+
+interface RinexObservationSet {
+  header: RinexHeader;
+  observations: RinexObservation[];
+}
+
+type ObservationValue = RinexObservation['observations'][string][string];
+
+// Systèmes pouvant être écrits en RINEX 2.11
+const RINEX2_SYSTEMS = ['G', 'R', 'E', 'S'];
+
+// Code d'observation RINEX 2 -> code RINEX 3, par système
+const RINEX2_TO_3: Record<string, Record<string, string>> = {
+  G: { C1: 'C1C', P1: 'C1W', L1: 'L1C', D1: 'D1C', S1: 'S1C', C2: 'C2X', P2: 'C2W', L2: 'L2W', D2: 'D2W', S2: 'S2W', C5: 'C5X', L5: 'L5X', D5: 'D5X', S5: 'S5X' },
+  R: { C1: 'C1C', P1: 'C1P', L1: 'L1C', D1: 'D1C', S1: 'S1C', C2: 'C2C', P2: 'C2P', L2: 'L2P', D2: 'D2P', S2: 'S2P' },
+  E: { C1: 'C1X', L1: 'L1X', D1: 'D1X', S1: 'S1X', C5: 'C5X', L5: 'L5X', D5: 'D5X', S5: 'S5X', C7: 'C7X', L7: 'L7X', D7: 'D7X', S7: 'S7X', C8: 'C8X', L8: 'L8X', D8: 'D8X', S8: 'S8X', C6: 'C6X', L6: 'L6X', D6: 'D6X', S6: 'S6X' },
+  S: { C1: 'C1C', L1: 'L1C', D1: 'D1C', S1: 'S1C', C5: 'C5I', L5: 'L5I', D5: 'D5I', S5: 'S5I' },
+  C: { C1: 'C2I', L1: 'L2I', D1: 'D2I', S1: 'S2I', C2: 'C2I', L2: 'L2I', D2: 'D2I', S2: 'S2I', C7: 'C7I', L7: 'L7I', D7: 'D7I', S7: 'S7I', C6: 'C6I', L6: 'L6I', D6: 'D6I', S6: 'S6I' },
+  J: { C1: 'C1C', L1: 'L1C', D1: 'D1C', S1: 'S1C', C2: 'C2X', L2: 'L2X', D2: 'D2X', S2: 'S2X', C5: 'C5X', L5: 'L5X', D5: 'D5X', S5: 'S5X' },
+};
+
+// Ordre des types RINEX 2 dans l'en-tête
+const RINEX2_ORDER = ['C1', 'P1', 'L1', 'D1', 'S1', 'C2', 'P2', 'L2', 'D2', 'S2', 'C5', 'L5', 'D5', 'S5', 'C6', 'L6', 'D6', 'S6', 'C7', 'L7', 'D7', 'S7', 'C8', 'L8', 'D8', 'S8'];
+
+const SYSTEM_NAMES: Record<string, string> = {
+  G: 'GPS', R: 'GLONASS', E: 'GALILEO', C: 'BEIDOU', J: 'QZSS', S: 'SBAS', I: 'IRNSS',
+};
+
+/**
+ * Écriture de fichiers d'observation RINEX 2.11 et 3.04 avec édition d'en-tête,
+ * décimation, fenêtre temporelle, filtrage des constellations et découpage en sessions.
+ */
+export class RinexWriter {
+  private static readonly EPOCH_TOLERANCE_MS = 5;
+
+  /**
+   * Écrit un fichier d'observation RINEX
+   */
+  public static write(data: RinexObservationSet, options: RinexWriteOptions = {}): RinexWriteResult {
+    const version = options.version ?? '3.04';
+    const warnings: string[] = [];
+    const epochs = this.selectEpochs(data.observations, options);
+
+    // Systèmes conservés
+    let systems = Array.from(new Set(epochs.flatMap(epoch => Object.keys(epoch.observations).map(satId => satId[0])))).sort();
+    if (options.systems?.length) {
+      systems = systems.filter(system => options.systems!.includes(system));
+    }
+    if (version === '2.11') {
+      const unsupported = systems.filter(system => !RINEX2_SYSTEMS.includes(system));
+      if (unsupported.length) {
+        warnings.push(`Systèmes non pris en charge en RINEX 2.11 ignorés: ${unsupported.map(s => SYSTEM_NAMES[s] ?? s).join(', ')}`);
+        systems = systems.filter(system => RINEX2_SYSTEMS.includes(system));
+      }
+    }
+
+    // Correspondance entre les types de sortie et les types lus, par système
+    const mapping = version === '2.11'
+      ? this.mappingToRinex2(data.header, epochs, systems)
+      : this.mappingToRinex3(data.header, epochs, systems);
+
+    const outputEpochs = epochs
+      .map(epoch => ({
+        ...epoch,
+        satellites: Object.keys(epoch.observations)
+          .filter(satId => systems.includes(satId[0]) && mapping.has(satId[0]))
+          .sort(),
+      }))
+      .filter(epoch => epoch.satellites.length > 0);
+
+    if (outputEpochs.length === 0) {
+      warnings.push('Aucune époque à écrire après filtrage');
+    }
+
+    const header = this.writeHeader(data.header, version, systems, mapping, outputEpochs, options);
+    const body = outputEpochs
+      .map(epoch => version === '2.11'
+        ? this.writeEpochV2(epoch, epoch.satellites, mapping)
+        : this.writeEpochV3(epoch, epoch.satellites, mapping))
+      .join('');
+
+    return {
+      content: header + body,
+      version,
+      epochs: outputEpochs.length,
+      satellites: Array.from(new Set(outputEpochs.flatMap(epoch => epoch.satellites))).sort(),
+      startTime: outputEpochs[0]?.timestamp,
+      endTime: outputEpochs[outputEpochs.length - 1]?.timestamp,
+      warnings,
+    };
+  }
+
+  /**
+   * Découpe les observations en sessions de durée fixe (ex. fichiers horaires),
+   * alignées sur des multiples de la durée depuis minuit
+   */
+  public static split(
+    data: RinexObservationSet,
+    sessionSeconds: number,
+    options: RinexWriteOptions = {}
+  ): RinexWriteResult[] {
+    if (sessionSeconds <= 0) {
+      throw new Error('Durée de session invalide');
+    }
+    const sessionMs = sessionSeconds * 1000;
+    const sessions = new Map<number, RinexObservation[]>();
+
+    for (const epoch of data.observations) {
+      const start = Math.floor(epoch.timestamp / sessionMs) * sessionMs;
+      if (!sessions.has(start)) sessions.set(start, []);
+      sessions.get(start)!.push(epoch);
+    }
+
+    return Array.from(sessions.keys())
+      .sort((a, b) => a - b)
+      .map(start => this.write({ header: data.header, observations: sessions.get(start)! }, options))
+      .filter(result => result.epochs > 0);
+  }
+
+  /**
+   * Fenêtre temporelle et décimation
+   */
+  private static selectEpochs(observations: RinexObservation[], options: RinexWriteOptions): RinexObservation[] {
+    const start = options.startTime !== undefined ? new Date(options.startTime).getTime() : -Infinity;
+    const end = options.endTime !== undefined ? new Date(options.endTime).getTime() : Infinity;
+    const intervalMs = options.interval ? options.interval * 1000 : 0;
+
+    return observations
+      .filter(epoch => epoch.timestamp >= start && epoch.timestamp <= end)
+      .filter(epoch => {
+        if (!intervalMs) return true;
+        const offset = epoch.timestamp - Math.round(epoch.timestamp / intervalMs) * intervalMs;
+        return Math.abs(offset) <= this.EPOCH_TOLERANCE_MS;
+      })
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Types RINEX 3 par système : repris tels quels ou convertis depuis les codes RINEX 2
+   */
+  private static mappingToRinex3(
+    header: RinexHeader,
+    epochs: RinexObservation[],
+    systems: string[]
+  ): Map<string, Map<string, string[]>> {
+    const mapping = new Map<string, Map<string, string[]>>();
+
+    for (const system of systems) {
+      const sourceTypes = this.sourceTypes(header, epochs, system);
+      const types = new Map<string, string[]>();
+
+      for (const source of sourceTypes) {
+        const target = source.length === 3 ? source : RINEX2_TO_3[system]?.[source] ?? `${source}X`;
+        if (!types.has(target)) types.set(target, []);
+        types.get(target)!.push(source);
+      }
+      if (types.size) mapping.set(system, types);
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Liste commune de types RINEX 2 ; chaque type reçoit le premier code RINEX 3 disponible
+   */
+  private static mappingToRinex2(
+    header: RinexHeader,
+    epochs: RinexObservation[],
+    systems: string[]
+  ): Map<string, Map<string, string[]>> {
+    const mapping = new Map<string, Map<string, string[]>>();
+
+    for (const system of systems) {
+      const types = new Map<string, string[]>();
+      for (const source of this.sourceTypes(header, epochs, system)) {
+        const target = source.length === 2 ? source : this.toRinex2Type(system, source);
+        if (!target) continue;
+        if (!types.has(target)) types.set(target, []);
+        types.get(target)!.push(source);
+      }
+      if (types.size) mapping.set(system, types);
+    }
+
+    return mapping;
+  }
+
+  private static toRinex2Type(system: string, type: string): string | null {
+    const [kind, band, attribute] = type;
+    if (!'CLDS'.includes(kind) || !'125678'.includes(band)) return null;
+    // Code P(Y) sur L1/L2 (GPS, GLONASS)
+    if (kind === 'C' && (band === '1' || band === '2') && (system === 'G' || system === 'R') && 'PWYM'.includes(attribute)) {
+      return `P${band}`;
+    }
+    return `${kind}${band}`;
+  }
+
+  /**
+   * Types lus pour un système : ceux de l'en-tête, sinon ceux présents dans les observations
+   */
+  private static sourceTypes(header: RinexHeader, epochs: RinexObservation[], system: string): string[] {
+    const declared = header.observationTypes?.[system] ??
+      (parseFloat(header.version) < 3 ? Object.values(header.observationTypes ?? {})[0] : undefined);
+    if (declared?.length) return declared;
+
+    const seen = new Set<string>();
+    for (const epoch of epochs) {
+      for (const [satId, values] of Object.entries(epoch.observations)) {
+        if (satId[0] === system) Object.keys(values).forEach(type => seen.add(type));
+      }
+    }
+    return Array.from(seen);
+  }
+
+  private static writeHeader(
+    source: RinexHeader,
+    version: RinexOutputVersion,
+    systems: string[],
+    mapping: Map<string, Map<string, string[]>>,
+    epochs: RinexObservation[],
+    options: RinexWriteOptions
+  ): string {
+    const edit = options.header ?? {};
+    const lines: string[] = [];
+    const add = (content: string, label: string) => lines.push(content.slice(0, 60).padEnd(60) + label);
+    const f14 = (value: number) => value.toFixed(4).padStart(14);
+
+    const systemLetter = systems.length === 1 ? systems[0] : 'M';
+    const systemText = systemLetter === 'M' ? 'M (MIXED)' : `${systemLetter}`;
+    add(`${version.padStart(9)}           OBSERVATION DATA    ${systemText}`, 'RINEX VERSION / TYPE');
+
+    const now = new Date();
+    const pad2 = (value: number) => String(value).padStart(2, '0');
+    const date = `${now.getUTCFullYear()}${pad2(now.getUTCMonth() + 1)}${pad2(now.getUTCDate())} ` +
+      `${pad2(now.getUTCHours())}${pad2(now.getUTCMinutes())}${pad2(now.getUTCSeconds())} UTC`;
+    add(`${(options.program ?? 'CadastreIA').padEnd(20)}${(options.runBy ?? '').padEnd(20)}${date}`, 'PGM / RUN BY / DATE');
+
+    for (const comment of [...(source.comment ? source.comment.split('\n') : []), ...(edit.comments ?? [])]) {
+      add(comment, 'COMMENT');
+    }
+
+    add(edit.markerName ?? source.markerName ?? 'UNKNOWN', 'MARKER NAME');
+    const markerNumber = edit.markerNumber ?? source.markerNumber;
+    if (markerNumber) add(markerNumber, 'MARKER NUMBER');
+    if (version === '3.04') add(edit.markerType ?? source.markerType ?? 'GEODETIC', 'MARKER TYPE');
+
+    add(`${(edit.observer ?? source.observer ?? '').padEnd(20)}${edit.agency ?? source.agency ?? ''}`, 'OBSERVER / AGENCY');
+    add(
+      `${(edit.receiverNumber ?? source.receiverInfo?.number ?? '').padEnd(20)}` +
+      `${(edit.receiverType ?? source.receiverInfo?.type ?? '').padEnd(20)}` +
+      `${edit.receiverVersion ?? source.receiverInfo?.version ?? ''}`,
+      'REC # / TYPE / VERS'
+    );
+    add(
+      `${(edit.antennaNumber ?? source.antennaInfo?.number ?? '').padEnd(20)}${edit.antennaType ?? source.antennaInfo?.type ?? ''}`,
+      'ANT # / TYPE'
+    );
+
+    const position = edit.positionApprox ?? source.positionApprox ?? [0, 0, 0];
+    add(position.map(f14).join(''), 'APPROX POSITION XYZ');
+    const delta = edit.antennaDelta ?? source.antennaDelta ?? [0, 0, 0];
+    add(delta.map(f14).join(''), 'ANTENNA: DELTA H/E/N');
+
+    if (version === '2.11') {
+      add('     1     1', 'WAVELENGTH FACT L1/2');
+      const types = this.rinex2Types(mapping);
+      for (let i = 0; i < Math.max(types.length, 1); i += 9) {
+        const count = i === 0 ? String(types.length).padStart(6) : '      ';
+        add(count + types.slice(i, i + 9).map(type => type.padStart(6)).join(''), '# / TYPES OF OBSERV');
+      }
+    } else {
+      for (const [system, types] of Array.from(mapping.entries())) {
+        const list = Array.from(types.keys());
+        for (let i = 0; i < list.length; i += 13) {
+          const prefix = i === 0 ? `${system}  ${String(list.length).padStart(3)}` : '      ';
+          add(prefix + list.slice(i, i + 13).map(type => ` ${type}`).join(''), 'SYS / # / OBS TYPES');
+        }
+      }
+    }
+
+    const interval = options.interval ?? source.interval;
+    if (interval) add(interval.toFixed(3).padStart(10), 'INTERVAL');
+
+    const timeSystem = source.firstObs?.timeSystem ?? 'GPS';
+    if (epochs.length) {
+      add(this.formatHeaderTime(epochs[0].timestamp, timeSystem), 'TIME OF FIRST OBS');
+      add(this.formatHeaderTime(epochs[epochs.length - 1].timestamp, timeSystem), 'TIME OF LAST OBS');
+    }
+
+    if (version === '3.04') {
+      // Enregistrements obligatoires en 3.04, laissés vides faute d'information
+      for (const system of Array.from(mapping.keys())) {
+        add(system, 'SYS / PHASE SHIFT');
+      }
+      if (mapping.has('R')) {
+        add('  0', 'GLONASS SLOT / FRQ #');
+        add('', 'GLONASS COD/PHS/BIS');
+      }
+    }
+    if (source.leapSeconds !== undefined) add(String(source.leapSeconds).padStart(6), 'LEAP SECONDS');
+
+    add('', 'END OF HEADER');
+    return lines.map(line => line.trimEnd()).join('\n') + '\n';
+  }
+
+  private static rinex2Types(mapping: Map<string, Map<string, string[]>>): string[] {
+    const types = new Set<string>();
+    Array.from(mapping.values()).forEach(systemTypes => Array.from(systemTypes.keys()).forEach(type => types.add(type)));
+    return Array.from(types).sort((a, b) => {
+      const ia = RINEX2_ORDER.indexOf(a);
+      const ib = RINEX2_ORDER.indexOf(b);
+      return (ia < 0 ? 99 : ia) - (ib < 0 ? 99 : ib);
+    });
+  }
+
+  private static writeEpochV3(
+    epoch: RinexObservation,
+    satellites: string[],
+    mapping: Map<string, Map<string, string[]>>
+  ): string {
+    const { year, month, day, hour, minute, second } = this.splitTimestamp(epoch.timestamp);
+    const pad2 = (value: number) => String(value).padStart(2, '0');
+    let line = `> ${year} ${pad2(month)} ${pad2(day)} ${pad2(hour)} ${pad2(minute)}` +
+      `${second.toFixed(7).padStart(11)}  ${epoch.epochFlag}${String(satellites.length).padStart(3)}`;
+    if (epoch.receiverClockOffset !== undefined) {
+      line += `      ${epoch.receiverClockOffset.toFixed(12).padStart(15)}`;
+    }
+
+    const lines = [line];
+    for (const satId of satellites) {
+      const types = mapping.get(satId[0])!;
+      const values = Array.from(types.values()).map(sources => this.pickValue(epoch.observations[satId], sources));
+      lines.push((satId + values.map(value => this.formatValue(value)).join('')).trimEnd());
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private static writeEpochV2(
+    epoch: RinexObservation,
+    satellites: string[],
+    mapping: Map<string, Map<string, string[]>>
+  ): string {
+    const { year, month, day, hour, minute, second } = this.splitTimestamp(epoch.timestamp);
+    const p2 = (value: number) => String(value).padStart(3);
+    const head = ` ${String(year % 100).padStart(2, '0')}${p2(month)}${p2(day)}${p2(hour)}${p2(minute)}` +
+      `${second.toFixed(7).padStart(11)}  ${epoch.epochFlag}${String(satellites.length).padStart(3)}`;
+
+    const lines: string[] = [];
+    for (let i = 0; i < satellites.length; i += 12) {
+      const list = satellites.slice(i, i + 12).join('');
+      const prefix = i === 0 ? head : ' '.repeat(32);
+      let line = prefix + list;
+      if (i === 0 && epoch.receiverClockOffset !== undefined) {
+        line = line.padEnd(68) + epoch.receiverClockOffset.toFixed(9).padStart(12);
+      }
+      lines.push(line);
+    }
+
+    // Liste commune des types : valeurs manquantes laissées en blanc
+    const allTypes = this.rinex2Types(mapping);
+    for (const satId of satellites) {
+      const types = mapping.get(satId[0])!;
+      const values = allTypes.map(type => {
+        const sources = types.get(type);
+        return sources ? this.pickValue(epoch.observations[satId], sources) : undefined;
+      });
+      for (let i = 0; i < values.length; i += 5) {
+        lines.push(values.slice(i, i + 5).map(value => this.formatValue(value)).join('').trimEnd());
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private static pickValue(values: Record<string, ObservationValue> | undefined, sources: string[]): ObservationValue | undefined {
+    if (!values) return undefined;
+    for (const source of sources) {
+      if (values[source] !== undefined) return values[source];
+    }
+    return undefined;
+  }
+
+  /**
+   * Observation au format F14.3, indicateur de perte de verrouillage et force du signal (I1)
+   */
+  private static formatValue(value?: ObservationValue): string {
+    if (!value || !isFinite(value.value) || Math.abs(value.value) >= 1e10) return ' '.repeat(16);
+    const lli = value.lli !== undefined && !isNaN(value.lli) ? String(value.lli % 10) : ' ';
+    const ssi = value.signalStrength !== undefined && !isNaN(value.signalStrength) ? String(value.signalStrength % 10) : ' ';
+    return value.value.toFixed(3).padStart(14) + lli + ssi;
+  }
+
+  private static formatHeaderTime(timestamp: number, timeSystem: string): string {
+    const { year, month, day, hour, minute, second } = this.splitTimestamp(timestamp);
+    return [year, month, day, hour, minute].map(v => String(v).padStart(6)).join('') +
+      second.toFixed(7).padStart(13) + '     ' + timeSystem.padEnd(3);
+  }
+
+  private static splitTimestamp(timestamp: number) {
+    const date = new Date(Math.floor(timestamp / 60000) * 60000);
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: (timestamp - date.getTime()) / 1000,
+    };
+  }
+}
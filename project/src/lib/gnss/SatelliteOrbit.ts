@@ -0,0 +1,302 @@
+export type EphemerisSystem = 'G' | 'E' | 'C';
+
+/**
+ * Keplerian broadcast ephemeris (GPS LNAV, Galileo I/NAV-F/NAV, BeiDou D1/D2)
+ * as transmitted in RINEX navigation files.
+ */
+export interface KeplerianEphemeris {
+  satId: string;          // e.g. 'G05', 'E11', 'C23'
+  system: EphemerisSystem;
+  // Clock
+  toc: number;            // Epoch of clock, continuous GPS seconds
+  af0: number;            // s
+  af1: number;            // s/s
+  af2: number;            // s/s²
+  // Orbit
+  iode: number;           // IODE (GPS), IODnav (Galileo), AODE (BeiDou)
+  week: number;           // Week number in the system's own time scale
+  toe: number;            // Time of ephemeris, seconds of the system week
+  toeGps: number;         // Time of ephemeris, continuous GPS seconds
+  sqrtA: number;          // sqrt(m)
+  e: number;
+  i0: number;             // rad
+  omega0: number;         // rad
+  omega: number;          // rad
+  m0: number;             // rad
+  deltaN: number;         // rad/s
+  omegaDot: number;       // rad/s
+  idot: number;           // rad/s
+  cuc: number;
+  cus: number;
+  crc: number;
+  crs: number;
+  cic: number;
+  cis: number;
+  // Signal / status
+  tgd: number;            // TGD (GPS), BGD E5b/E1 (Galileo), TGD1 (BeiDou) in s
+  tgd2?: number;          // BGD E5a/E1 (Galileo), TGD2 (BeiDou) in s
+  health: number;
+  accuracy?: number;      // SV accuracy / SISA in m
+  iodc?: number;
+  transmissionTime?: number;
+  fitInterval?: number;
+}
+
+export interface SatelliteState {
+  satId: string;
+  position: [number, number, number]; // ECEF (m), frame at time of transmission
+  clockBias: number;                  // s, includes relativistic correction
+  clockDrift: number;                 // s/s
+  relativistic: number;               // s
+  ephemeris: KeplerianEphemeris;
+}
+
+interface SystemConstants {
+  gm: number;          // Gravitational constant (m³/s²)
+  omegaE: number;      // Earth rotation rate (rad/s)
+  maxAge: number;      // Maximum |t - toe| for which the ephemeris is used (s)
+}
+
+/**
+ * Broadcast orbit propagation (IS-GPS-200, Galileo OS SIS ICD, BDS-SIS-ICD).
+ */
+export class SatelliteOrbit {
+  public static readonly SPEED_OF_LIGHT = 299792458; // m/s
+  public static readonly OMEGA_EARTH = 7.2921151467e-5; // rad/s (WGS84)
+  /** GPS epoch (1980-01-06T00:00:00) as a calendar timestamp */
+  public static readonly GPS_EPOCH_MS = Date.UTC(1980, 0, 6);
+  public static readonly SECONDS_PER_WEEK = 604800;
+  /** GPST - BDT (s) */
+  public static readonly BDT_LEAP_SECONDS = 14;
+  /** BDT started at GPS week 1356 + 14 s */
+  public static readonly BDT_OFFSET = 1356 * 604800 + SatelliteOrbit.BDT_LEAP_SECONDS;
+
+  private static readonly CONSTANTS: Record<EphemerisSystem, SystemConstants> = {
+    G: { gm: 3.986005e14, omegaE: 7.2921151467e-5, maxAge: 7200 },
+    E: { gm: 3.986004418e14, omegaE: 7.2921151467e-5, maxAge: 14400 },
+    C: { gm: 3.986004418e14, omegaE: 7.292115e-5, maxAge: 21600 },
+  };
+
+  private static readonly KEPLER_MAX_ITERATIONS = 30;
+  private static readonly KEPLER_THRESHOLD = 1e-13;
+  /** BeiDou GEO satellites use a dedicated rotation (inclination of -5°) */
+  private static readonly BDS_GEO_INCLINATION = (-5 * Math.PI) / 180;
+
+  /**
+   * Convert a calendar timestamp (ms, read in the GPS time scale as RinexParser
+   * does) to continuous GPS seconds.
+   */
+  public static timestampToGpsSeconds(timestamp: number): number {
+    return (timestamp - SatelliteOrbit.GPS_EPOCH_MS) / 1000;
+  }
+
+  /**
+   * Convert continuous GPS seconds back to a calendar timestamp (ms)
+   */
+  public static gpsSecondsToTimestamp(gpsSeconds: number): number {
+    return SatelliteOrbit.GPS_EPOCH_MS + gpsSeconds * 1000;
+  }
+
+  /**
+   * Convert a week/seconds-of-week pair from a system time scale to
+   * continuous GPS seconds. Galileo weeks in RINEX are aligned with GPS weeks.
+   */
+  public static weekToGpsSeconds(system: EphemerisSystem, week: number, sow: number): number {
+    const seconds = week * SatelliteOrbit.SECONDS_PER_WEEK + sow;
+    return system === 'C' ? seconds + SatelliteOrbit.BDT_OFFSET : seconds;
+  }
+
+  /**
+   * True for BeiDou geostationary satellites (C01-C05, C59-C63)
+   */
+  public static isBeidouGeo(satId: string): boolean {
+    if (satId[0] !== 'C') return false;
+    const prn = parseInt(satId.slice(1), 10);
+    return prn <= 5 || prn >= 59;
+  }
+
+  /**
+   * Select the healthy ephemeris closest to the requested time
+   * @param gpsSeconds Time of interest in continuous GPS seconds
+   */
+  public static selectEphemeris(
+    ephemerides: KeplerianEphemeris[],
+    satId: string,
+    gpsSeconds: number
+  ): KeplerianEphemeris | null {
+    let best: KeplerianEphemeris | null = null;
+    let bestAge = Infinity;
+
+    for (const eph of ephemerides) {
+      if (eph.satId !== satId || eph.health !== 0) continue;
+
+      const age = Math.abs(gpsSeconds - eph.toeGps);
+      if (age > SatelliteOrbit.CONSTANTS[eph.system].maxAge) continue;
+
+      if (age < bestAge) {
+        best = eph;
+        bestAge = age;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Satellite clock offset (without relativistic term) at GPS time t
+   */
+  public static clockOffset(eph: KeplerianEphemeris, gpsSeconds: number): number {
+    const dt = gpsSeconds - eph.toc;
+    return eph.af0 + eph.af1 * dt + eph.af2 * dt * dt;
+  }
+
+  /**
+   * Compute satellite ECEF position and clock at GPS time t (time of transmission)
+   */
+  public static computeState(eph: KeplerianEphemeris, gpsSeconds: number): SatelliteState {
+    const { gm, omegaE } = SatelliteOrbit.CONSTANTS[eph.system];
+
+    const a = eph.sqrtA * eph.sqrtA;
+    const tk = gpsSeconds - eph.toeGps;
+    const n = Math.sqrt(gm / (a * a * a)) + eph.deltaN;
+    const mk = eph.m0 + n * tk;
+
+    // Kepler's equation (Newton-Raphson)
+    let ek = mk;
+    for (let i = 0; i < SatelliteOrbit.KEPLER_MAX_ITERATIONS; i++) {
+      const delta = (ek - eph.e * Math.sin(ek) - mk) / (1 - eph.e * Math.cos(ek));
+      ek -= delta;
+      if (Math.abs(delta) < SatelliteOrbit.KEPLER_THRESHOLD) break;
+    }
+
+    const sinE = Math.sin(ek);
+    const cosE = Math.cos(ek);
+    const vk = Math.atan2(Math.sqrt(1 - eph.e * eph.e) * sinE, cosE - eph.e);
+    const phi = vk + eph.omega;
+    const sin2phi = Math.sin(2 * phi);
+    const cos2phi = Math.cos(2 * phi);
+
+    const uk = phi + eph.cus * sin2phi + eph.cuc * cos2phi;
+    const rk = a * (1 - eph.e * cosE) + eph.crs * sin2phi + eph.crc * cos2phi;
+    const ik = eph.i0 + eph.idot * tk + eph.cis * sin2phi + eph.cic * cos2phi;
+
+    const xp = rk * Math.cos(uk);
+    const yp = rk * Math.sin(uk);
+    const cosI = Math.cos(ik);
+    const sinI = Math.sin(ik);
+
+    let position: [number, number, number];
+
+    if (SatelliteOrbit.isBeidouGeo(eph.satId)) {
+      // Position in the inertial-aligned frame, then rotate -5° about X and ωe·tk about Z
+      const omegaK = eph.omega0 + eph.omegaDot * tk - omegaE * eph.toe;
+      const cosO = Math.cos(omegaK);
+      const sinO = Math.sin(omegaK);
+      const xg = xp * cosO - yp * cosI * sinO;
+      const yg = xp * sinO + yp * cosI * cosO;
+      const zg = yp * sinI;
+
+      const cosX = Math.cos(SatelliteOrbit.BDS_GEO_INCLINATION);
+      const sinX = Math.sin(SatelliteOrbit.BDS_GEO_INCLINATION);
+      const cosZ = Math.cos(omegaE * tk);
+      const sinZ = Math.sin(omegaE * tk);
+
+      position = [
+        xg * cosZ + yg * sinZ * cosX + zg * sinZ * sinX,
+        -xg * sinZ + yg * cosZ * cosX + zg * cosZ * sinX,
+        -yg * sinX + zg * cosX,
+      ];
+    } else {
+      const omegaK = eph.omega0 + (eph.omegaDot - omegaE) * tk - omegaE * eph.toe;
+      const cosO = Math.cos(omegaK);
+      const sinO = Math.sin(omegaK);
+      position = [
+        xp * cosO - yp * cosI * sinO,
+        xp * sinO + yp * cosI * cosO,
+        yp * sinI,
+      ];
+    }
+
+    // Relativistic correction: F·e·sqrt(A)·sin(E), F = -2·sqrt(GM)/c²
+    const f = (-2 * Math.sqrt(gm)) / (SatelliteOrbit.SPEED_OF_LIGHT ** 2);
+    const relativistic = f * eph.e * eph.sqrtA * sinE;
+    const dt = gpsSeconds - eph.toc;
+
+    return {
+      satId: eph.satId,
+      position,
+      clockBias: SatelliteOrbit.clockOffset(eph, gpsSeconds) + relativistic,
+      clockDrift: eph.af1 + 2 * eph.af2 * dt,
+      relativistic,
+      ephemeris: eph,
+    };
+  }
+
+  /**
+   * Compute the satellite state for a signal received at `receiveTime`
+   * (continuous GPS seconds) with the given pseudorange.
+   *
+   * The transmission time is corrected for the satellite clock and the
+   * resulting position is rotated into the ECEF frame at reception time
+   * (Sagnac / Earth rotation correction).
+   *
+   * @param receiverPosition Approximate receiver ECEF position, used for the
+   *   signal travel time. When omitted, the pseudorange corrected by
+   *   `receiverClockBias` is used instead.
+   */
+  public static computeAtReception(
+    eph: KeplerianEphemeris,
+    receiveTime: number,
+    pseudorange: number,
+    receiverPosition?: [number, number, number],
+    receiverClockBias: number = 0
+  ): SatelliteState {
+    const c = SatelliteOrbit.SPEED_OF_LIGHT;
+
+    // Transmission time in the satellite's frame, then corrected by its clock
+    const tsv = receiveTime - pseudorange / c;
+    let transmitTime = tsv - SatelliteOrbit.clockOffset(eph, tsv);
+    let state = SatelliteOrbit.computeState(eph, transmitTime);
+    transmitTime = tsv - state.clockBias;
+    state = SatelliteOrbit.computeState(eph, transmitTime);
+
+    let travelTime = pseudorange / c - receiverClockBias + state.clockBias;
+    if (receiverPosition && SatelliteOrbit.norm(receiverPosition) > 0) {
+      for (let i = 0; i < 2; i++) {
+        const rotated = SatelliteOrbit.rotateEarth(state.position, travelTime, eph.system);
+        travelTime = SatelliteOrbit.distance(rotated, receiverPosition) / c;
+      }
+    }
+
+    return {
+      ...state,
+      position: SatelliteOrbit.rotateEarth(state.position, travelTime, eph.system),
+    };
+  }
+
+  /**
+   * Rotate an ECEF position by the Earth rotation accumulated during `seconds`
+   */
+  public static rotateEarth(
+    position: [number, number, number],
+    seconds: number,
+    system: EphemerisSystem = 'G'
+  ): [number, number, number] {
+    const theta = SatelliteOrbit.CONSTANTS[system].omegaE * seconds;
+    const cosT = Math.cos(theta);
+    const sinT = Math.sin(theta);
+    return [
+      cosT * position[0] + sinT * position[1],
+      -sinT * position[0] + cosT * position[1],
+      position[2],
+    ];
+  }
+
+  private static norm(v: [number, number, number]): number {
+    return Math.sqrt(v[0] * v[0] + v[1] * v[1] + v[2] * v[2]);
+  }
+
+  private static distance(a: [number, number, number], b: [number, number, number]): number {
+    return SatelliteOrbit.norm([a[0] - b[0], a[1] - b[1], a[2] - b[2]]);
+  }
+}
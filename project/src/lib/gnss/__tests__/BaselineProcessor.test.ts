@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+import { rinexParser } from '../RinexParser';
+import { BaselineProcessor } from '../BaselineProcessor';
+import { AmbiguityResolver } from '../AmbiguityResolver';
+import { SAMPLE_NAV_3_04 } from './rinexFixtures';
+
+// Mock des dépendances
+vi.mock('../../sensors/FusionAuditLog');
+vi.mock('../../sync/FileSyncManager', () => ({
+  fileSyncManager: { associateFileWithEntity: vi.fn() },
+}));
+
+// Observations bi-fréquences simulées : base et mobile à ~960 m, 3 époques de 30 s
+const BASE_OBS = `     3.04           OBSERVATION DATA    M                   RINEX VERSION / TYPE
+BASE                                                        MARKER NAME
+    6236334.4203  1270689.6343   427290.8323                APPROX POSITION XYZ
+G    4 C1C L1C C2W L2W                                      SYS / # / OBS TYPES
+E    4 C1C L1C C7Q L7Q                                      SYS / # / OBS TYPES
+C    4 C2I L2I C7I L7I                                      SYS / # / OBS TYPES
+    30.000                                                  INTERVAL
+                                                            END OF HEADER
+> 2024 01 01 12 10  0.0000000  0 10
+G01  23465778.526   122891865.969    23465783.435    96592437.051
+G04  23464821.745   123941887.118    23464827.949    95192195.779
+G07  23871046.689   124688766.146    23871052.867    97902703.654
+G10  21735687.616   114896081.818    21735691.762    88593682.279
+G13  23190965.599   120986485.234    23190971.684    94348916.699
+G16  23381149.177   123197507.849    23381155.321    95308979.421
+E01  26508626.752   139531763.192    26508634.118   107009414.519
+E04  26574421.461   140528573.997    26574427.792   106705257.248
+C11  25195472.281   130421480.684    25195478.982   100607387.854
+C14  24046313.688   125129599.567    24046318.644    97605608.477
+> 2024 01 01 12 10 30.0000000  0 10
+G01  23447469.781   122795659.532    23447476.714    96517471.087
+G04  23450653.187   123867431.422    23450659.529    95134178.423
+G07  23876125.497   124715458.796    23876132.758    97923503.082
+G10  21726659.642   114848635.666    21726663.529    88556711.288
+G13  23174266.844   120898733.466    23174273.645    94280538.783
+G16  23378880.483   123185585.689    23378887.191    95299689.415
+E01  26494106.554   139455457.993    26494113.295   106950946.977
+E04  26562336.913   140465069.497    26562343.542   106656598.019
+C11  25179013.662   130335778.441    25179020.664   100541117.523
+C14  24036016.069   125075977.242    24036021.121    97564144.345
+> 2024 01 01 12 11  0.0000000  0 10
+G01  23429209.942   122699702.570    23429215.625    96442699.517
+G04  23436462.401   123792856.181    23436468.168    95076067.913
+G07  23881183.761   124742038.015    23881190.570    97944214.123
+G10  21717726.994   114801696.801    21717731.435    88520135.614
+G13  23157561.591   120810944.838    23157567.873    94212132.120
+G16  23376600.292   123173603.194    23376606.892    95290352.407
+E01  26479623.333   139379349.258    26479630.532   106892629.983
+E04  26550226.741   140401428.274    26550233.586   106607834.021
+C11  25162588.571   130250249.588    25162595.316   100474981.290
+C14  24025722.119   125022373.330    24025726.827    97522694.418
+`;
+
+const ROVER_OBS = `     3.04           OBSERVATION DATA    M                   RINEX VERSION / TYPE
+ROVER                                                       MARKER NAME
+    6236158.0000  1271493.0000   427789.0000                APPROX POSITION XYZ
+G    4 C1C L1C C2W L2W                                      SYS / # / OBS TYPES
+E    4 C1C L1C C7Q L7Q                                      SYS / # / OBS TYPES
+C    4 C2I L2I C7I L7I                                      SYS / # / OBS TYPES
+    30.000                                                  INTERVAL
+                                                            END OF HEADER
+> 2024 01 01 12 10  0.0000000  0 10
+G01  23420431.870   123398781.658    23420437.681    95892303.733
+G04  23419150.909   123526320.314    23419157.162    95871519.380
+G07  23825710.930   124890384.324    23825717.159    98136206.899
+G10  21689798.610   114811707.468    21689802.560    88702069.924
+G13  23144640.078   121999086.990    23144646.196    94236212.218
+G16  23335190.472   123381909.918    23335197.154    94817225.990
+E01  26463271.924   138411284.571    26463278.520   105790193.830
+E04  26528751.379   139911677.241    26528758.404   106915871.875
+C11  25150126.595   131158315.687    25150133.287   101431316.239
+C14  24000132.113   125600569.963    24000137.092    96451952.926
+> 2024 01 01 12 10 30.0000000  0 10
+G01  23402123.806   123302571.789    23402129.701    95817335.091
+G04  23404980.230   123451851.133    23404986.265    95813491.524
+G07  23830789.217   124917072.282    23830795.595    98157002.669
+G10  21680772.447   114764272.854    21680775.996    88665107.935
+G13  23127940.370   121911326.001    23127946.350    94167827.111
+G16  23332918.185   123369968.985    23332924.971    94807921.321
+E01  26448750.958   138334977.196    26448757.279   105731724.612
+E04  26516665.280   139848162.395    26516671.394   106867204.675
+C11  25133668.430   131072610.842    25133674.604   101365043.889
+C14  23989832.269   125546933.287    23989836.973    96410477.685
+> 2024 01 01 12 11  0.0000000  0 10
+G01  23383863.289   123206611.376    23383869.434    95742560.822
+G04  23390786.107   123377262.423    23390792.234    95755370.497
+G07  23835846.194   124943646.792    23835852.466    98177710.029
+G10  21671842.005   114717345.556    21671846.067    88628541.239
+G13  23111232.333   121823528.242    23111238.888    94099413.342
+G16  23330634.687   123357967.690    23330640.728    94798569.674
+E01  26434267.130   138258866.268    26434274.074   105673405.922
+E04  26504552.205   139784510.757    26504558.717   106818432.718
+C11  25117242.542   130987079.357    25117248.660   101298905.599
+C14  23979534.836   125493314.992    23979540.644    96369016.652
+`;
+
+// Coordonnées vraies du mobile utilisées pour simuler les observations
+const ROVER_ECEF = [6236158.1244, 1271492.6006, 427788.7995];
+
+const distance = (a: number[], b: number[]) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+describe('AmbiguityResolver', () => {
+  it('should find the closest integer vector for correlated ambiguities', () => {
+    const Q = [
+      [6.29, 5.978, 0.544],
+      [5.978, 6.292, 2.34],
+      [0.544, 2.34, 6.288],
+    ];
+    const result = AmbiguityResolver.search([5.45, 3.1, 2.97], Q, 2);
+
+    expect(result.candidates).toHaveLength(2);
+    expect(result.candidates[0]).toEqual([5, 3, 4]);
+    expect(result.residuals[0]).toBeLessThanOrEqual(result.residuals[1]);
+    expect(result.ratio).toBeGreaterThan(1);
+  });
+});
+
+describe('BaselineProcessor', () => {
+  const load = async () => ({
+    navigation: await rinexParser.parseNavigationFile(SAMPLE_NAV_3_04),
+    base: await rinexParser.parseRinexFile(BASE_OBS),
+    rover: await rinexParser.parseRinexFile(ROVER_OBS),
+  });
+
+  it('should fix ambiguities and recover the rover position', async () => {
+    const { navigation, base, rover } = await load();
+    const solutions = new BaselineProcessor({ mode: 'static' }).process(base, rover, navigation);
+
+    expect(solutions).toHaveLength(3);
+    for (const solution of solutions) {
+      expect(solution.quality).toBe('PPK');
+      expect(solution.ratio).toBeGreaterThanOrEqual(3);
+      expect(distance(solution.roverECEF, ROVER_ECEF)).toBeLessThan(0.02);
+      expect(solution.baselineLength).toBeCloseTo(distance(ROVER_ECEF, base.header.positionApprox!), 1);
+    }
+  });
+
+  it('should fall back to a standalone solution without base epoch', async () => {
+    const { navigation, base, rover } = await load();
+    base.observations.splice(1, 1);
+
+    const solutions = new BaselineProcessor({ fixedQuality: 'RTK' }).process(base, rover, navigation);
+
+    expect(solutions.map(solution => solution.quality)).toEqual(['RTK', 'Single', 'RTK']);
+    expect(distance(solutions[1].roverECEF, ROVER_ECEF)).toBeLessThan(10);
+  });
+
+  it('should convert solutions to position fixes', async () => {
+    const { navigation, base, rover } = await load();
+    const solutions = new BaselineProcessor().process(base, rover, navigation);
+    const fixes = BaselineProcessor.toPositionFixes(solutions);
+
+    expect(fixes).toHaveLength(3);
+    expect(fixes[0]).toMatchObject({
+      timestamp: rover.observations[0].timestamp,
+      quality: 'PPK',
+      source: 'RINEX',
+    });
+    expect(fixes[0].lat).toBeCloseTo(3.8712, 6);
+    expect(fixes[0].lon).toBeCloseTo(11.5241, 6);
+    expect(fixes[0].metadata?.satCount).toBe(10);
+  });
+});
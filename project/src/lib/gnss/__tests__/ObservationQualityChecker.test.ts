@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { ObservationQualityChecker } from '../ObservationQualityChecker';
+import type { RinexHeader, RinexObservation } from '../RinexParser';
+
+const C = 299792458;
+const F1 = 1575.42e6;
+const F2 = 1227.6e6;
+const START = Date.UTC(2024, 0, 1, 12, 0, 0);
+
+const header: RinexHeader = {
+  version: '3.04',
+  fileType: 'OBSERVATION',
+  interval: 30,
+  receiverClockOffset: false,
+};
+
+// Observations GPS bi-fréquences simulées : distance variable, ionosphère lente, multitrajet sinusoïdal
+function buildEpochs(options: {
+  epochs: number;
+  slipAt?: number;          // époque du saut de cycle sur L1
+  lliAt?: number;           // époque avec indicateur de perte de verrouillage
+  missing?: number[];       // époques absentes du fichier
+  weakSnrAt?: number;
+}): RinexObservation[] {
+  const result: RinexObservation[] = [];
+  for (let k = 0; k < options.epochs; k++) {
+    if (options.missing?.includes(k)) continue;
+    const range = 21000000 + 120 * k;
+    const iono = 3 + 0.002 * k;
+    const multipath = 0.4 * Math.sin(k / 3);
+    const n1 = 1000 + (options.slipAt !== undefined && k >= options.slipAt ? 7 : 0);
+    const n2 = 800;
+
+    result.push({
+      timestamp: START + k * 30000,
+      epochFlag: 0,
+      satellites: ['G05'],
+      observations: {
+        G05: {
+          C1C: { value: range + iono + multipath },
+          L1C: { value: (range - iono) / (C / F1) + n1, lli: k === options.lliAt ? 1 : undefined },
+          S1C: { value: k === options.weakSnrAt ? 22 : 45 },
+          C2W: { value: range + iono * (F1 / F2) ** 2 },
+          L2W: { value: (range - iono * (F1 / F2) ** 2) / (C / F2) + n2 },
+        },
+      },
+    });
+  }
+  return result;
+}
+
+describe('ObservationQualityChecker', () => {
+  it('should report arcs, multipath and a complete data set', () => {
+    const report = ObservationQualityChecker.analyze(header, buildEpochs({ epochs: 40 }));
+    const sat = report.satellites[0];
+
+    expect(report.epochs).toBe(40);
+    expect(report.gaps).toHaveLength(0);
+    expect(report.totalSlips).toBe(0);
+    expect(sat.arcs).toHaveLength(1);
+    expect(sat.arcs[0].epochs).toBe(40);
+    expect(sat.mp1Rms).toBeGreaterThan(0.2);
+    expect(sat.mp1Rms).toBeLessThan(0.35);
+    expect(sat.meanSnr).toBe(45);
+    expect(report.usablePercentage).toBe(100);
+  });
+
+  it('should detect cycle slips and loss of lock', () => {
+    const report = ObservationQualityChecker.analyze(header, buildEpochs({ epochs: 40, slipAt: 20, lliAt: 30 }));
+    const sat = report.satellites[0];
+
+    expect(sat.slips).toHaveLength(2);
+    expect(sat.slips[0].timestamp).toBe(START + 20 * 30000);
+    expect(sat.slips[0].methods).toEqual(expect.arrayContaining(['GEOMETRY_FREE', 'MELBOURNE_WUBBENA']));
+    expect(sat.slips[0].geometryFreeJump).toBeCloseTo(7 * C / F1, 2);
+    expect(sat.slips[1].methods).toEqual(['LLI']);
+    expect(sat.lliCount).toBe(1);
+    // Le saut ne doit pas biaiser le multitrajet (moyenne retirée par segment)
+    expect(sat.mp1Rms).toBeLessThan(0.35);
+  });
+
+  it('should list data gaps and reduce the usable percentage', () => {
+    const report = ObservationQualityChecker.analyze(
+      header,
+      buildEpochs({ epochs: 40, missing: [15, 16, 17], weakSnrAt: 5 })
+    );
+
+    expect(report.gaps.filter(gap => !gap.satId)).toEqual([
+      { start: START + 14 * 30000, end: START + 18 * 30000, duration: 120, missingEpochs: 3 },
+    ]);
+    expect(report.satellites[0].arcs).toHaveLength(2);
+    expect(report.satellites[0].snrDrops).toBe(1);
+    expect(report.usablePercentage).toBeCloseTo((100 * 36) / 40, 5);
+
+    const summary = ObservationQualityChecker.summarize(report);
+    expect(summary.gaps).toBe(1);
+    expect(summary.perSatellite[0]).toMatchObject({ satId: 'G05', arcs: 2 });
+  });
+});
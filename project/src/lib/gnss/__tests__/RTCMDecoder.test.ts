@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import { RTCMDecoder, RTCMStreamDecoder, type RTCMMsmMessage } from '../RTCMDecoder';
+import { SatelliteOrbit } from '../SatelliteOrbit';
+
+const C = 299792458;
+const RANGE_MS = C * 0.001;
+const REFERENCE = Date.UTC(2024, 0, 3, 12, 0, 0); // semaine GPS 2295
+
+// Trame 1005 de l'exemple de la norme RTCM 10403 (station 2003)
+const FRAME_1005 = 'D300133ED7D30202980EDEEF34B4BD62AC0941986F33360B98';
+
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g)!.map(h => parseInt(h, 16)));
+
+// Écriture bit à bit pour construire des messages de test
+class BitWriter {
+  private bits: number[] = [];
+
+  put(value: number, length: number): this {
+    let v = value < 0 ? value + 2 ** length : value;
+    const field: number[] = [];
+    for (let i = 0; i < length; i++) {
+      field.unshift(v % 2);
+      v = Math.floor(v / 2);
+    }
+    this.bits.push(...field);
+    return this;
+  }
+
+  bytes(): Uint8Array {
+    const out = new Uint8Array(Math.ceil(this.bits.length / 8));
+    this.bits.forEach((bit, i) => {
+      if (bit) out[i >> 3] |= 0x80 >> (i & 7);
+    });
+    return out;
+  }
+}
+
+function frame(payload: Uint8Array): Uint8Array {
+  const out = new Uint8Array(payload.length + 6);
+  out[0] = 0xd3;
+  out[1] = payload.length >> 8;
+  out[2] = payload.length & 0xff;
+  out.set(payload, 3);
+  const crc = RTCMDecoder.crc24q(out, 0, payload.length + 3);
+  out[payload.length + 3] = crc >> 16;
+  out[payload.length + 4] = (crc >> 8) & 0xff;
+  out[payload.length + 5] = crc & 0xff;
+  return out;
+}
+
+// Éphéméride GPS 1019 avec des champs entiers connus
+function build1019(): Uint8Array {
+  return new BitWriter()
+    .put(1019, 12).put(5, 6).put(2295 % 1024, 10).put(0, 4).put(1, 2)
+    .put(-100, 14)          // IDOT
+    .put(42, 8)             // IODE
+    .put(12600, 16)         // toc = 201600 s
+    .put(0, 8).put(-5, 16).put(123456, 22)
+    .put(42, 10)            // IODC
+    .put(-2000, 16)         // Crs
+    .put(15000, 16)         // Δn
+    .put(-300000000, 32)    // M0
+    .put(-4000, 16)
+    .put(85899346, 32)      // e ≈ 0.01
+    .put(5000, 16)
+    .put(2702000000, 32)    // √A ≈ 5153.65
+    .put(12600, 16)         // toe = 201600 s
+    .put(100, 16)
+    .put(1000000000, 32)    // Ω0
+    .put(-50, 16)
+    .put(650000000, 32)     // i0
+    .put(3000, 16)
+    .put(-400000000, 32)    // ω
+    .put(-20000, 24)        // Ω̇
+    .put(-10, 8)            // TGD
+    .put(0, 6).put(0, 1).put(0, 1)
+    .bytes();
+}
+
+// MSM7 GPS : G05 et G12, signaux 1C et 2W
+function buildMsm7(tow: number, multipleMessage: boolean): Uint8Array {
+  const w = new BitWriter()
+    .put(1077, 12).put(2003, 12).put(tow * 1000, 30).put(multipleMessage ? 1 : 0, 1)
+    .put(0, 3).put(0, 7).put(0, 2).put(0, 2).put(0, 1).put(0, 3);
+  for (let bit = 1; bit <= 64; bit++) w.put(bit === 5 || bit === 12 ? 1 : 0, 1);
+  for (let bit = 1; bit <= 32; bit++) w.put(bit === 2 || bit === 10 ? 1 : 0, 1);
+  w.put(1, 1).put(1, 1).put(1, 1).put(0, 1); // G12 n'a pas de 2W
+  // Données satellites : ms entières, info étendue, fraction de ms, vitesse grossière
+  w.put(70, 8).put(75, 8);
+  w.put(0, 4).put(0, 4);
+  w.put(512, 10).put(256, 10);
+  w.put(-500, 14).put(300, 14);
+  // Données signaux (3 cellules)
+  [1000, -2000, 4000].forEach(v => w.put(v, 20));
+  [50000, -60000, 70000].forEach(v => w.put(v, 24));
+  [100, 100, 300].forEach(v => w.put(v, 10));
+  [0, 0, 1].forEach(v => w.put(v, 1));
+  [720, 640, 700].forEach(v => w.put(v, 10));
+  [1234, -1234, 0].forEach(v => w.put(v, 15));
+  return w.bytes();
+}
+
+describe('RTCMDecoder', () => {
+  it('should validate CRC-24Q and decode a 1005 reference station frame', () => {
+    const bytes = fromHex(FRAME_1005);
+    expect(RTCMDecoder.crc24q(bytes, 0, bytes.length - 3)).toBe(0x360b98);
+    expect(RTCMDecoder.validateFrame(bytes)).toBe(true);
+
+    const frame1005 = RTCMDecoder.decodeFrame(bytes)!;
+    expect(frame1005.type).toBe(1005);
+    expect(frame1005.message).toMatchObject({ kind: 'station', stationId: 2003 });
+    if (frame1005.message?.kind !== 'station') throw new Error('station attendue');
+    expect(frame1005.message.ecef[0]).toBeCloseTo(1114104.5999, 4);
+    expect(frame1005.message.ecef[1]).toBeCloseTo(-4850729.7108, 4);
+    expect(frame1005.message.ecef[2]).toBeCloseTo(3975521.4643, 4);
+
+    // Un octet altéré doit être détecté
+    const corrupted = bytes.slice();
+    corrupted[10] ^= 0x01;
+    const rejected = RTCMDecoder.decodeFrame(corrupted)!;
+    expect(rejected.crcValid).toBe(false);
+    expect(rejected.message).toBeUndefined();
+  });
+
+  it('should decode a 1019 GPS ephemeris usable by SatelliteOrbit', () => {
+    const decoded = RTCMDecoder.decodeFrame(frame(build1019()), 0, { referenceTime: REFERENCE })!;
+    if (decoded.message?.kind !== 'ephemeris') throw new Error('éphéméride attendue');
+    const eph = decoded.message.ephemeris;
+
+    expect(eph.satId).toBe('G05');
+    expect(eph.week).toBe(2295);
+    expect(eph.toe).toBe(201600);
+    expect(eph.toeGps).toBe(2295 * 604800 + 201600);
+    expect(eph.iode).toBe(42);
+    expect(eph.sqrtA).toBeCloseTo(2702000000 * 2 ** -19, 9);
+    expect(eph.e).toBeCloseTo(0.01, 8);
+    expect(eph.m0).toBeCloseTo(-300000000 * 2 ** -31 * Math.PI, 12);
+    expect(eph.tgd).toBeCloseTo(-10 * 2 ** -31, 15);
+
+    const state = SatelliteOrbit.computeState(eph, eph.toeGps + 600);
+    const radius = Math.hypot(...state.position);
+    expect(radius).toBeGreaterThan(26.0e6);
+    expect(radius).toBeLessThan(27.1e6);
+  });
+
+  it('should decode MSM7 observables and merge them into a RINEX epoch', () => {
+    const tow = 216000; // mercredi 12:00 GPS
+    const decoded = RTCMDecoder.decodeFrame(frame(buildMsm7(tow, false)), 0, { referenceTime: REFERENCE })!;
+    if (decoded.message?.kind !== 'msm') throw new Error('MSM attendu');
+    const msm: RTCMMsmMessage = decoded.message;
+
+    expect(msm.type).toBe(1077);
+    expect(msm.msmLevel).toBe(7);
+    expect(msm.epochTime).toBe(SatelliteOrbit.gpsSecondsToTimestamp(2295 * 604800 + tow));
+    expect(msm.satellites).toEqual(['G05', 'G12']);
+    expect(msm.signals.map(s => `${s.satId}:${s.signal}`)).toEqual(['G05:1C', 'G05:2W', 'G12:1C']);
+
+    const [g05l1, g05l2, g12l1] = msm.signals;
+    const rough05 = (70 + 512 / 1024) * RANGE_MS;
+    expect(g05l1.pseudorange).toBeCloseTo(rough05 + 1000 * 2 ** -29 * RANGE_MS, 6);
+    expect(g05l2.phaseRange).toBeCloseTo(rough05 - 60000 * 2 ** -31 * RANGE_MS, 6);
+    expect(g05l1.phase).toBeCloseTo((g05l1.phaseRange! * 1575.42e6) / C, 3);
+    expect(g05l1.phaseRangeRate).toBeCloseTo(-500 + 0.1234, 6);
+    expect(g05l1.doppler).toBeCloseTo((-g05l1.phaseRangeRate! * 1575.42e6) / C, 6);
+    expect(g05l1.cnr).toBeCloseTo(45, 6);
+    expect(g12l1.halfCycleAmbiguity).toBe(true);
+    expect(g12l1.minLockTime).toBe(2 ** 8 * (300 - 32 * 8));
+
+    const epoch = RTCMDecoder.toRinexObservation([msm])!;
+    expect(epoch.satellites).toEqual(['G05', 'G12']);
+    expect(Object.keys(epoch.observations.G05).sort()).toEqual(
+      ['C1C', 'C2W', 'D1C', 'D2W', 'L1C', 'L2W', 'S1C', 'S2W']
+    );
+    expect(epoch.observations.G12.L1C.lli).toBe(2);
+  });
+
+  it('should reassemble frames split across chunks and skip corrupted data', () => {
+    const decoder = new RTCMStreamDecoder({ referenceTime: REFERENCE });
+    const good = fromHex(FRAME_1005);
+    const bad = good.slice();
+    bad[8] ^= 0xff;
+    const ephemeris = frame(build1019());
+
+    // La trame altérée contient un faux préambule : elle est placée en fin de flux
+    const stream = new Uint8Array([0x00, 0x42, ...good, ...ephemeris, ...bad]);
+    const cut = 40;
+    const first = decoder.push(stream.subarray(0, cut));
+    const second = decoder.push(stream.subarray(cut));
+    const valid = [...first, ...second].filter(f => f.crcValid);
+
+    expect(valid.map(f => f.type)).toEqual([1005, 1019]);
+    expect(decoder.getCrcErrors()).toBe(1);
+    expect(RTCMDecoder.decodeAll(stream).filter(f => f.crcValid)).toHaveLength(2);
+  });
+});
@@ -1,17 +1,21 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { rinexParser, type RinexHeader, type RinexObservation } from '../RinexParser';
-import { fusionAuditLog } from '../../security/FusionAuditLog';
+import { ObservationQualityChecker } from '../ObservationQualityChecker';
+import { fusionAuditLog } from '../../sensors/FusionAuditLog';
 import { fileSyncManager } from '../../sync/FileSyncManager';
+import { SAMPLE_NAV_3_04 } from './rinexFixtures';
 
 // Mock des dépendances
-vi.mock('../../security/FusionAuditLog');
-vi.mock('../../sync/FileSyncManager');
+vi.mock('../../sensors/FusionAuditLog');
+vi.mock('../../sync/FileSyncManager', () => ({
+  fileSyncManager: { associateFileWithEntity: vi.fn() },
+}));
 
 // Exemple de fichier RINEX 3.03 simplifié
 const SAMPLE_RINEX_3_03 = `     3.03           OBSERVATION DATA    M (MIXED)           RINEX VERSION / TYPE
 Convert2RINEX 3.4.1                   20240101 000000     PGM / RUN BY / DATE 
 EXAMPLE OBSERVATION SITE                COMMENT             
-                                                            MARKER NAME         
+EXAMPLE OBSERVATION SITE                                    MARKER NAME         
 12345A01                                                   MARKER NUMBER       
 GEODETIC    WGS84                       COMMENT             
                                                             MARKER TYPE        
@@ -39,12 +43,49 @@ C    4 C1C L1C D1C S1C                                    SYS / # / OBS TYPES
 G01G02G03G04G05G06G07G08G09G10G11G12
 G01  123456789.123    12345678.123      1234.123      30   
 G02  234567890.234    23456789.234      2345.234      32   
-G03  345678901.345    34567890.345      3456.345      34  n> 2024 01 01 00 00 30.0000000  0 12
+G03  345678901.345    34567890.345      3456.345      34   
+> 2024 01 01 00 00 30.0000000  0 12
 G01G02G03G04G05G06G07G08G09G10G11G12
 G01  123456789.123    12345678.123      1234.123      30   
 G02  234567890.234    23456789.234      2345.234      32   
 G03  345678901.345    34567890.345      3456.345      34   `;
 
+// Même éphéméride G01 au format RINEX 2.11
+const SAMPLE_NAV_2_11 = `     2.11           N: GPS NAV DATA                         RINEX VERSION / TYPE
+    0.1118D-07  0.7451D-08 -0.5960D-07 -0.5960D-07          ION ALPHA
+    0.9011D+05  0.0000D+00 -0.1966D+06 -0.6554D+05          ION BETA
+                                                            END OF HEADER
+ 1 24  1  1 12  0  0.0 0.000000000000D+00-3.100000000000D-12 0.000000000000D+00
+    4.100000000000D+01 1.830000000000D+01 4.500000000000D-09-1.500000000000D+00
+    1.200000000000D-06 5.000000000000D-03 8.300000000000D-06 5.153650000000D+03
+    1.296000000000D+05-5.200000000000D-08-3.000000000000D+00 1.100000000000D-07
+    9.599000000000D-01 2.205000000000D+02 6.000000000000D-01-8.100000000000D-09
+    2.100000000000D-10 0.000000000000D+00 2.295000000000D+03 0.000000000000D+00
+    2.000000000000D+00 0.000000000000D+00-1.100000000000D-08 4.100000000000D+01
+    1.260000000000D+05 4.000000000000D+00`;
+
+// Observations synthétiques cohérentes avec SAMPLE_NAV_3_04 pour un récepteur à Yaoundé
+const SAMPLE_OBS_3_04 = `     3.04           OBSERVATION DATA    M                   RINEX VERSION / TYPE
+YAOUNDE                                                     MARKER NAME
+    6236000.0000  1270000.0000   427000.0000                APPROX POSITION XYZ
+G    3 C1C L1C S1C                                          SYS / # / OBS TYPES
+E    3 C1C L1C S1C                                          SYS / # / OBS TYPES
+C    3 C2I L2I S2I                                          SYS / # / OBS TYPES
+    30.000                                                  INTERVAL
+                                                            END OF HEADER
+> 2024 01 01 12 10  0.0000000  0 10
+G01  23465774.060   123504074.002          39.510  
+G04  23464818.619   123499045.361          39.785  
+G07  23871043.349   125637070.257          39.285  
+G10  21735684.534   114398339.652          43.406  
+G13  23190962.130   122057695.421          39.162  
+G16  23381146.117   123058663.772          39.355  
+E01  26508627.878   139519094.093          39.651  
+E04  26574422.282   139865380.429          39.813  
+C11  25195472.825   132607751.709          39.488  
+C14  24046314.201   126559548.425          42.445  `;
+const RECEIVER_ECEF = [6236334.4203, 1270689.6343, 427290.8323];
+
 describe('RinexParser', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -85,10 +126,12 @@ describe('RinexParser', () => {
       // Vérifier que l'audit a été enregistré
       expect(fusionAuditLog.log).toHaveBeenCalledWith(
         expect.objectContaining({
-          action: 'rinex_import',
-          entityType: 'mission',
-          entityId: 'test-mission-123',
-          details: expect.objectContaining({
+          sources: ['rinex'],
+          status: 'raw',
+          metadata: expect.objectContaining({
+            action: 'rinex_import',
+            entityType: 'mission',
+            entityId: 'test-mission-123',
             filePath: '/path/to/file.24o',
             version: '3.03',
             fileType: 'OBSERVATION',
@@ -112,6 +155,16 @@ describe('RinexParser', () => {
       );
     });
 
+    it('should attach the quality summary to the import audit entry', async () => {
+      const result = await rinexParser.parseRinexFile(SAMPLE_OBS_3_04, { filePath: '/path/to/yaou.24o' });
+
+      expect(fusionAuditLog.log).toHaveBeenCalledTimes(1);
+      const [entry] = vi.mocked(fusionAuditLog.log).mock.calls[0];
+      expect(entry.metadata?.action).toBe('rinex_import');
+      expect(entry.metadata?.quality).toEqual(ObservationQualityChecker.summarize(result.quality));
+      expect(entry.metadata?.quality.epochs).toBe(result.observations.length);
+    });
+
     it('should handle invalid RINEX content', async () => {
       await expect(
         rinexParser.parseRinexFile('INVALID RINEX CONTENT')
@@ -229,6 +282,165 @@ describe('RinexParser', () => {
     });
   });
 
+  describe('parseNavigationFile', () => {
+    it('should parse RINEX 3 mixed navigation records', async () => {
+      const navigation = await rinexParser.parseNavigationFile(SAMPLE_NAV_3_04);
+      
+      expect(navigation.header.version).toBe('3.04');
+      expect(navigation.header.ionosphere?.alpha[0]).toBeCloseTo(1.1176e-8, 12);
+      expect(navigation.header.ionosphere?.beta[2]).toBeCloseTo(-1.9661e5, 0);
+      expect(navigation.ephemerides).toHaveLength(10);
+      expect(navigation.skippedRecords).toBe(0);
+      
+      const g01 = navigation.ephemerides.find(eph => eph.satId === 'G01')!;
+      expect(g01.sqrtA).toBeCloseTo(5153.65, 6);
+      expect(g01.week).toBe(2295);
+      expect(g01.toe).toBe(129600);
+      expect(g01.tgd).toBeCloseTo(-1.1e-8, 15);
+      
+      // BDT = GPST - 14 s : toe BeiDou exprimé en temps GPS continu
+      const c14 = navigation.ephemerides.find(eph => eph.satId === 'C14')!;
+      expect(c14.week).toBe(939);
+      expect(c14.toeGps).toBe(g01.toeGps);
+      expect(c14.toc).toBe(g01.toc);
+    });
+    
+    it('should parse RINEX 2 GPS navigation records', async () => {
+      const rinex2 = await rinexParser.parseNavigationFile(SAMPLE_NAV_2_11);
+      const rinex3 = await rinexParser.parseNavigationFile(SAMPLE_NAV_3_04);
+      
+      expect(rinex2.ephemerides).toHaveLength(1);
+      expect(rinex2.header.ionosphere).toBeDefined();
+      expect(rinex2.ephemerides[0]).toEqual(rinex3.ephemerides.find(eph => eph.satId === 'G01'));
+    });
+    
+    it('should reject observation files', async () => {
+      await expect(
+        rinexParser.parseNavigationFile(SAMPLE_OBS_3_04)
+      ).rejects.toThrow('Échec du parsing RINEX navigation');
+    });
+  });
+
+  describe('solveStandalonePositions', () => {
+    it('should compute satellite positions at transmission time', async () => {
+      const navigation = await rinexParser.parseNavigationFile(SAMPLE_NAV_3_04);
+      const { observations } = await rinexParser.parseRinexFile(SAMPLE_OBS_3_04);
+      const satObs = rinexParser.buildSatelliteObservations(observations[0], navigation, {
+        receiverPosition: RECEIVER_ECEF as [number, number, number],
+      });
+      
+      expect(satObs).toHaveLength(10);
+      for (const obs of satObs) {
+        const radius = Math.hypot(...obs.position);
+        expect(radius).toBeGreaterThan(2.5e7);
+        expect(radius).toBeLessThan(3.0e7);
+      }
+      expect(satObs.find(obs => obs.satId === 'C14')?.constellation).toBe('BEIDOU');
+    });
+    
+    it('should solve receiver position from observation and navigation files', async () => {
+      const navigation = await rinexParser.parseNavigationFile(SAMPLE_NAV_3_04);
+      const { header, observations } = await rinexParser.parseRinexFile(SAMPLE_OBS_3_04);
+      vi.mocked(fusionAuditLog.log).mockClear();
+      
+      const estimates = rinexParser.solveStandalonePositions(observations, navigation, {
+        approxPosition: header.positionApprox,
+      });
+      
+      expect(estimates).toHaveLength(1);
+      expect(estimates[0].timestamp).toBe(Date.UTC(2024, 0, 1, 12, 10, 0));
+      expect(estimates[0].satellitesUsed).toBe(10);
+      estimates[0].receiverECEF.forEach((value, i) => {
+        expect(Math.abs(value - RECEIVER_ECEF[i])).toBeLessThan(0.1);
+      });
+      
+      // Une seule entrée d'audit par calcul, quel que soit le nombre d'itérations
+      expect(fusionAuditLog.log).toHaveBeenCalledTimes(1);
+      expect(fusionAuditLog.log).toHaveBeenCalledWith(expect.objectContaining({
+        sources: ['gnss'],
+        metadata: expect.objectContaining({ action: 'rinex_standalone_solution', epochs: 1 }),
+      }));
+    });
+    
+    it('should solve without an approximate position', async () => {
+      const navigation = await rinexParser.parseNavigationFile(SAMPLE_NAV_3_04);
+      const { observations } = await rinexParser.parseRinexFile(SAMPLE_OBS_3_04);
+      
+      const positions = await rinexParser.calculatePositions(observations, navigation);
+      
+      expect(positions).toHaveLength(1);
+      expect(positions[0].lat).toBeCloseTo(3.8667, 5);
+      expect(positions[0].lon).toBeCloseTo(11.5167, 5);
+      expect(positions[0].alt).toBeCloseTo(760, 0);
+    });
+  });
+
+  describe('exportToRinex', () => {
+    // Dix époques à 1 s construites à partir de l'échantillon 3.04
+    const buildSession = async () => {
+      const { header, observations } = await rinexParser.parseRinexFile(SAMPLE_OBS_3_04);
+      return {
+        header,
+        observations: Array.from({ length: 10 }, (_, k) => ({
+          ...observations[0],
+          timestamp: observations[0].timestamp + k * 1000,
+        })),
+      };
+    };
+
+    it('should convert RINEX 3.04 to 2.11 and back', async () => {
+      const session = await buildSession();
+      const [v2] = rinexParser.exportToRinex(session, { version: '2.11' });
+
+      expect(v2.content).toContain('     2.11           OBSERVATION DATA    M (MIXED)');
+      expect(v2.content).toMatch(/ {5}3 {4}C1 {4}L1 {4}S1\s+# \/ TYPES OF OBSERV/);
+      expect(v2.warnings).toEqual([expect.stringContaining('BEIDOU')]);
+
+      const parsedV2 = await rinexParser.parseRinexFile(v2.content);
+      expect(parsedV2.header.version).toBe('2.11');
+      expect(parsedV2.observations).toHaveLength(10);
+      expect(parsedV2.observations[0].satellites).toEqual(['E01', 'E04', 'G01', 'G04', 'G07', 'G10', 'G13', 'G16']);
+      expect(parsedV2.observations[3].observations['G10'].C1.value)
+        .toBe(session.observations[3].observations['G10'].C1C.value);
+
+      const back = await rinexParser.convertRinex(v2.content, { version: '3.04' });
+      const parsedV3 = await rinexParser.parseRinexFile(back.content);
+      expect(parsedV3.header.observationTypes?.G).toEqual(['C1C', 'L1C', 'S1C']);
+      expect(parsedV3.observations[9].observations['G16'].L1C.value)
+        .toBe(session.observations[9].observations['G16'].L1C.value);
+    });
+
+    it('should decimate, cut and filter observations', async () => {
+      const session = await buildSession();
+      const start = session.observations[0].timestamp;
+      const [result] = rinexParser.exportToRinex(session, {
+        interval: 5,
+        startTime: start + 1000,
+        systems: ['E'],
+      });
+
+      expect(result.epochs).toBe(1);
+      expect(result.startTime).toBe(start + 5000);
+      expect(result.satellites).toEqual(['E01', 'E04']);
+      expect(result.content).toContain('     5.000                                                  INTERVAL');
+    });
+
+    it('should apply header edits and split sessions', async () => {
+      const session = await buildSession();
+      const results = rinexParser.exportToRinex(session, {
+        sessionSeconds: 4,
+        header: { markerName: 'BORNE 12', antennaType: 'TRM57971.00     NONE', antennaDelta: [1.562, 0, 0] },
+      });
+
+      expect(results.map(result => result.epochs)).toEqual([4, 4, 2]);
+      const parsed = await rinexParser.parseRinexFile(results[1].content);
+      expect(parsed.header.markerName).toBe('BORNE 12');
+      expect(parsed.header.antennaInfo?.type).toBe('TRM57971.00     NONE');
+      expect(parsed.header.antennaDelta).toEqual([1.562, 0, 0]);
+      expect(parsed.observations[0].timestamp).toBe(session.observations[4].timestamp);
+    });
+  });
+
   describe('parseEpochHeader', () => {
     it('should parse epoch header line', () => {
       const line = '> 2024 01 01 12 34 56.7890000  0 12';
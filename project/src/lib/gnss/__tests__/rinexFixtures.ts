@@ -0,0 +1,89 @@
+// Données RINEX partagées par les tests GNSS
+
+// Fichier de navigation RINEX 3.04 mixte (GPS, Galileo, BeiDou)
+export const SAMPLE_NAV_3_04 = `     3.04           N: GNSS NAV DATA    M: Mixed            RINEX VERSION / TYPE
+GPSA   1.1176D-08  7.4506D-09 -5.9605D-08 -5.9605D-08       IONOSPHERIC CORR
+GPSB   9.0112D+04  0.0000D+00 -1.9661D+05 -6.5536D+04       IONOSPHERIC CORR
+    18                                                      LEAP SECONDS
+                                                            END OF HEADER
+G01 2024 01 01 12 00 00 0.000000000000D+00-3.100000000000D-12 0.000000000000D+00
+     4.100000000000D+01 1.830000000000D+01 4.500000000000D-09-1.500000000000D+00
+     1.200000000000D-06 5.000000000000D-03 8.300000000000D-06 5.153650000000D+03
+     1.296000000000D+05-5.200000000000D-08-3.000000000000D+00 1.100000000000D-07
+     9.599000000000D-01 2.205000000000D+02 6.000000000000D-01-8.100000000000D-09
+     2.100000000000D-10 0.000000000000D+00 2.295000000000D+03 0.000000000000D+00
+     2.000000000000D+00 0.000000000000D+00-1.100000000000D-08 4.100000000000D+01
+     1.260000000000D+05 4.000000000000D+00
+G04 2024 01 01 12 00 00 0.000000000000D+00-3.100000000000D-12 0.000000000000D+00
+     4.400000000000D+01 1.830000000000D+01 4.500000000000D-09-2.160000000000D+00
+     1.200000000000D-06 8.000000000000D-03 8.300000000000D-06 5.153650000000D+03
+     1.296000000000D+05-5.200000000000D-08-2.000000000000D+00 1.100000000000D-07
+     9.599000000000D-01 2.205000000000D+02 9.000000000000D-01-8.100000000000D-09
+     2.100000000000D-10 0.000000000000D+00 2.295000000000D+03 0.000000000000D+00
+     2.000000000000D+00 0.000000000000D+00-1.100000000000D-08 4.400000000000D+01
+     1.260000000000D+05 4.000000000000D+00
+G07 2024 01 01 12 00 00 0.000000000000D+00-3.100000000000D-12 0.000000000000D+00
+     4.700000000000D+01 1.830000000000D+01 4.500000000000D-09 2.680000000000D+00
+     1.200000000000D-06 1.100000000000D-02 8.300000000000D-06 5.153650000000D+03
+     1.296000000000D+05-5.200000000000D-08-1.000000000000D+00 1.100000000000D-07
+     9.599000000000D-01 2.205000000000D+02 1.200000000000D+00-8.100000000000D-09
+     2.100000000000D-10 0.000000000000D+00 2.295000000000D+03 0.000000000000D+00
+     2.000000000000D+00 0.000000000000D+00-1.100000000000D-08 4.700000000000D+01
+     1.260000000000D+05 4.000000000000D+00
+G10 2024 01 01 12 00 00 0.000000000000D+00-3.100000000000D-12 0.000000000000D+00
+     5.000000000000D+01 1.830000000000D+01 4.500000000000D-09 1.020000000000D+00
+     1.200000000000D-06 1.400000000000D-02 8.300000000000D-06 5.153650000000D+03
+     1.296000000000D+05-5.200000000000D-08 0.000000000000D+00 1.100000000000D-07
+     9.599000000000D-01 2.205000000000D+02 1.500000000000D+00-8.100000000000D-09
+     2.100000000000D-10 0.000000000000D+00 2.295000000000D+03 0.000000000000D+00
+     2.000000000000D+00 0.000000000000D+00-1.100000000000D-08 5.000000000000D+01
+     1.260000000000D+05 4.000000000000D+00
+G13 2024 01 01 12 00 00 0.000000000000D+00-3.100000000000D-12 0.000000000000D+00
+     5.300000000000D+01 1.830000000000D+01 4.500000000000D-09-1.400000000000D-01
+     1.200000000000D-06 1.700000000000D-02 8.300000000000D-06 5.153650000000D+03
+     1.296000000000D+05-5.200000000000D-08 1.000000000000D+00 1.100000000000D-07
+     9.599000000000D-01 2.205000000000D+02 1.800000000000D+00-8.100000000000D-09
+     2.100000000000D-10 0.000000000000D+00 2.295000000000D+03 0.000000000000D+00
+     2.000000000000D+00 0.000000000000D+00-1.100000000000D-08 5.300000000000D+01
+     1.260000000000D+05 4.000000000000D+00
+G16 2024 01 01 12 00 00 0.000000000000D+00-3.100000000000D-12 0.000000000000D+00
+     5.600000000000D+01 1.830000000000D+01 4.500000000000D-09-1.300000000000D+00
+     1.200000000000D-06 2.000000000000D-02 8.300000000000D-06 5.153650000000D+03
+     1.296000000000D+05-5.200000000000D-08 2.000000000000D+00 1.100000000000D-07
+     9.599000000000D-01 2.205000000000D+02 2.100000000000D+00-8.100000000000D-09
+     2.100000000000D-10 0.000000000000D+00 2.295000000000D+03 0.000000000000D+00
+     2.000000000000D+00 0.000000000000D+00-1.100000000000D-08 5.600000000000D+01
+     1.260000000000D+05 4.000000000000D+00
+E01 2024 01 01 12 00 00 0.000000000000D+00-3.100000000000D-12 0.000000000000D+00
+     4.100000000000D+01 1.830000000000D+01 4.500000000000D-09-1.500000000000D+00
+     1.200000000000D-06 5.000000000000D-03 8.300000000000D-06 5.440610000000D+03
+     1.296000000000D+05-5.200000000000D-08-3.000000000000D+00 1.100000000000D-07
+     9.774000000000D-01 2.205000000000D+02 6.000000000000D-01-8.100000000000D-09
+     2.100000000000D-10 0.000000000000D+00 2.295000000000D+03 0.000000000000D+00
+     2.000000000000D+00 0.000000000000D+00 3.100000000000D-09 2.300000000000D-09
+     1.260000000000D+05 0.000000000000D+00
+E04 2024 01 01 12 00 00 0.000000000000D+00-3.100000000000D-12 0.000000000000D+00
+     4.400000000000D+01 1.830000000000D+01 4.500000000000D-09-2.160000000000D+00
+     1.200000000000D-06 8.000000000000D-03 8.300000000000D-06 5.440610000000D+03
+     1.296000000000D+05-5.200000000000D-08-2.000000000000D+00 1.100000000000D-07
+     9.774000000000D-01 2.205000000000D+02 9.000000000000D-01-8.100000000000D-09
+     2.100000000000D-10 0.000000000000D+00 2.295000000000D+03 0.000000000000D+00
+     2.000000000000D+00 0.000000000000D+00 3.100000000000D-09 2.300000000000D-09
+     1.260000000000D+05 0.000000000000D+00
+C11 2024 01 01 11 59 46 1.200000000000D-05-3.100000000000D-12 0.000000000000D+00
+     5.100000000000D+01 1.830000000000D+01 4.500000000000D-09-2.500000000000D+00
+     1.200000000000D-06 1.500000000000D-02 8.300000000000D-06 5.282620000000D+03
+     1.295860000000D+05-5.200000000000D-08-3.000000000000D+00 1.100000000000D-07
+     9.599000000000D-01 2.205000000000D+02 1.600000000000D+00-8.100000000000D-09
+     2.100000000000D-10 0.000000000000D+00 9.390000000000D+02 0.000000000000D+00
+     2.000000000000D+00 0.000000000000D+00 2.300000000000D-09 3.100000000000D-09
+     1.260000000000D+05 0.000000000000D+00
+C14 2024 01 01 11 59 46 1.200000000000D-05-3.100000000000D-12 0.000000000000D+00
+     5.400000000000D+01 1.830000000000D+01 4.500000000000D-09-2.660000000000D+00
+     1.200000000000D-06 1.800000000000D-02 8.300000000000D-06 5.282620000000D+03
+     1.295860000000D+05-5.200000000000D-08-2.000000000000D+00 1.100000000000D-07
+     9.599000000000D-01 2.205000000000D+02 1.900000000000D+00-8.100000000000D-09
+     2.100000000000D-10 0.000000000000D+00 9.390000000000D+02 0.000000000000D+00
+     2.000000000000D+00 0.000000000000D+00 2.300000000000D-09 3.100000000000D-09
+     1.260000000000D+05 0.000000000000D+00`;
+
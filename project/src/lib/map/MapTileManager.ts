@@ -12,6 +12,23 @@ interface Tile {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Image géoréférencée locale (superposition KML, plan scanné…), affichée
+ * telle quelle sur son emprise plutôt que découpée en tuiles
+ */
+interface RasterSource {
+  id: string;
+  name: string;
+  data: ArrayBuffer;
+  mimeType: string;
+  bounds: [number, number, number, number]; // [west, south, east, north] en WGS84
+  rotation?: number; // Degrés, sens trigonométrique autour du centre
+  corners?: number[][]; // Quadrilatère quelconque : SO, SE, NE, NO
+  opacity?: number;
+  timestamp: number;
+  metadata?: Record<string, unknown>;
+}
+
 interface MapTileDB extends DBSchema {
   tiles: {
     key: [number, number, number, string]; // [z, x, y, source]
@@ -25,29 +42,40 @@ interface MapTileDB extends DBSchema {
     key: string;
     value: any;
   };
+  rasters: {
+    key: string;
+    value: RasterSource;
+  };
 }
 
 class MapTileManager {
   private db: IDBPDatabase<MapTileDB> | null = null;
   private dbName = 'map-tile-cache';
-  private dbVersion = 1;
+  private dbVersion = 2;
   private maxCacheSize = 100 * 1024 * 1024; // 100MB
   private currentCacheSize = 0;
 
   async initialize() {
     this.db = await openDB<MapTileDB>(this.dbName, this.dbVersion, {
-      upgrade(db) {
-        // Créer le store pour les tuiles
-        const tileStore = db.createObjectStore('tiles', {
-          keyPath: ['z', 'x', 'y', 'source'],
-        });
-        
-        // Créer des index pour les requêtes
-        tileStore.createIndex('by-source', 'source');
-        tileStore.createIndex('by-timestamp', 'timestamp');
+      upgrade(db, oldVersion: number) {
+        if (oldVersion < 1) {
+          // Créer le store pour les tuiles
+          const tileStore = db.createObjectStore('tiles', {
+            keyPath: ['z', 'x', 'y', 'source'],
+          });
+          
+          // Créer des index pour les requêtes
+          tileStore.createIndex('by-source', 'source');
+          tileStore.createIndex('by-timestamp', 'timestamp');
+          
+          // Créer le store pour les métadonnées
+          db.createObjectStore('metadata');
+        }
         
-        // Créer le store pour les métadonnées
-        db.createObjectStore('metadata');
+        // Sources raster locales, hors du cache de tuiles
+        if (oldVersion < 2) {
+          db.createObjectStore('rasters', { keyPath: 'id' });
+        }
       },
     });
 
@@ -136,6 +164,33 @@ class MapTileManager {
     }
   }
 
+  /**
+   * Enregistre une image géoréférencée ; elle n'est pas comptée dans le
+   * cache de tuiles et n'est jamais purgée automatiquement
+   */
+  async registerRasterSource(source: Omit<RasterSource, 'timestamp'>): Promise<RasterSource> {
+    if (!this.db) await this.initialize();
+    
+    const raster = { ...source, timestamp: Date.now() };
+    await this.db!.put('rasters', raster);
+    return raster;
+  }
+
+  async getRasterSource(id: string): Promise<RasterSource | undefined> {
+    if (!this.db) await this.initialize();
+    return this.db!.get('rasters', id);
+  }
+
+  async getRasterSources(): Promise<RasterSource[]> {
+    if (!this.db) await this.initialize();
+    return this.db!.getAll('rasters');
+  }
+
+  async removeRasterSource(id: string) {
+    if (!this.db) await this.initialize();
+    await this.db!.delete('rasters', id);
+  }
+
   async cleanupCache(targetSize: number) {
     if (!this.db) return;
     
@@ -193,7 +248,7 @@ class MapTileManager {
 
 export const mapTileManager = new MapTileManager();
 
-export type { Tile };
+export type { Tile, RasterSource };
 
 // Initialiser le gestionnaire de tuiles au chargement du module
 mapTileManager.initialize().catch(console.error);
@@ -3,7 +3,7 @@ export * from './MapTileManager';
 export * from './OfflineMapRenderer';
 
 // Export types
-export type { Tile } from './MapTileManager';
+export type { Tile, RasterSource } from './MapTileManager';
 export type { OfflineTileLayerOptions } from './OfflineMapRenderer';
 
 // Export utilities
@@ -99,6 +99,65 @@ export const symbolLibrary: Record<string, SymbolDefinition> = {
     }
   },
   
+  // Topographie et bornage (symboles vectoriels pour les plans imprimés)
+  boundary_marker: {
+    type: 'svg',
+    value: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">' +
+      '<path fill="none" d="M20 12C20 16.42 16.42 20 12 20C7.58 20 4 16.42 4 12C4 7.58 7.58 4 12 4C16.42 4 20 7.58 20 12Z"/>' +
+      '<path d="M14.5 12C14.5 13.38 13.38 14.5 12 14.5C10.62 14.5 9.5 13.38 9.5 12C9.5 10.62 10.62 9.5 12 9.5C13.38 9.5 14.5 10.62 14.5 12Z"/>' +
+      '</svg>',
+    category: 'survey',
+    keywords: ['borne de limite', 'boundary marker', 'limite de propriété', 'plan de bornage'],
+    description: 'Borne de délimitation posée ou retrouvée',
+    metadata: {
+      size: 2.5, // Diamètre imprimé (mm)
+      kinds: ['borne']
+    }
+  },
+
+  survey_mark: {
+    type: 'svg',
+    value: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">' +
+      '<path fill="none" d="M4 4H20V20H4Z"/>' +
+      '<path fill="none" d="M12 4V20M4 12H20"/>' +
+      '</svg>',
+    category: 'survey',
+    keywords: ['repère', 'clou', 'survey mark', 'marque de limite'],
+    description: 'Repère de limite (clou, marque peinte, angle de mur)',
+    metadata: {
+      size: 2.2,
+      kinds: ['repere']
+    }
+  },
+
+  boundary_vertex: {
+    type: 'svg',
+    value: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">' +
+      '<path fill="none" d="M12 5L19 12L12 19L5 12Z"/>' +
+      '</svg>',
+    category: 'survey',
+    keywords: ['sommet', 'point de limite non matérialisé', 'boundary vertex'],
+    description: 'Sommet de limite sans matérialisation',
+    metadata: {
+      size: 1.8,
+      kinds: ['virtual']
+    }
+  },
+
+  north_arrow: {
+    type: 'svg',
+    value: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">' +
+      '<path d="M12 1L17 21L12 17Z"/>' +
+      '<path fill="none" d="M12 1L7 21L12 17Z"/>' +
+      '</svg>',
+    category: 'survey',
+    keywords: ['nord', 'north arrow', 'flèche du nord', 'orientation'],
+    description: 'Flèche d\'orientation vers le nord du quadrillage',
+    metadata: {
+      size: 14
+    }
+  },
+
   // Autres catégories...
   // ... (autres symboles de la liste originale)
 };
@@ -194,7 +253,8 @@ export const symbolCategories = {
   landmark: 'Points de repère',
   emergency: 'Urgence et sécurité',
   transport: 'Transports',
-  utility: 'Utilitaires'
+  utility: 'Utilitaires',
+  survey: 'Topographie et bornage'
 } as const;
 
 export type SymbolCategory = keyof typeof symbolCategories;
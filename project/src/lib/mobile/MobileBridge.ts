@@ -3,6 +3,7 @@ import { auditLog } from '../audit/FusionAuditLog';
 import { realtimeBridge } from '../realtime/RealtimeBridge';
 import { userReputationManager } from '../reputation/UserReputation';
 import { cartoValidator } from '../validation/CartoValidator';
+import { Cogo, type CogoFeature } from '../survey/Cogo';
 
 type GeoJSONGeometry = {
   type: 'Point' | 'LineString' | 'Polygon' | 'MultiPoint' | 'MultiLineString' | 'MultiPolygon';
@@ -160,6 +161,45 @@ export class MobileBridge {
     return annotation;
   }
 
+  /**
+   * Insert COGO results computed in a projected CRS as annotations (one per feature)
+   */
+  public insertCogoFeatures(params: {
+    userId: string;
+    missionId: string;
+    epsg: string;
+    features: CogoFeature[];
+    deviceInfo: {
+      id: string;
+      model: string;
+      os: string;
+      appVersion: string;
+    };
+    featureId?: string;
+    tags?: string[];
+  }): MobileAnnotation[] {
+    // Convert everything first so that a bad CRS or point inserts nothing
+    const geometries = params.features.map(feature => Cogo.toGeometry(feature, params.epsg) as GeoJSONGeometry);
+
+    return params.features.map((feature, i) => this.captureAnnotation({
+      userId: params.userId,
+      missionId: params.missionId,
+      featureId: params.featureId,
+      type: 'cogo',
+      geometry: geometries[i],
+      properties: {
+        ...feature.properties,
+        cogo: {
+          crs: params.epsg,
+          coordinates: feature.points.map(({ id, x, y, z }) => ({ id, x, y, z })),
+        },
+      },
+      gnss: {}, // Computed, not measured
+      deviceInfo: params.deviceInfo,
+      tags: ['cogo', ...(params.tags || [])],
+    }));
+  }
+
   /**
    * Update an existing annotation
    */
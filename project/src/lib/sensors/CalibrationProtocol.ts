@@ -1,7 +1,15 @@
 import { writable } from 'svelte/store';
 import { browser } from '$app/environment';
+import {
+  SiteCalibration,
+  type ControlPointPair,
+  type LocalGridPosition,
+  type SiteCalibrationOptions,
+  type SiteCalibrationParameters,
+  type SiteCalibrationResidual
+} from './SiteCalibration';
 
-type CalibrationSource = 'manual' | 'auto' | 'agent';
+type CalibrationSource = 'manual' | 'auto' | 'agent' | 'site';
 
 export interface CalibrationProfile {
   id: string;
@@ -23,6 +31,7 @@ export interface CalibrationProfile {
     gyroscope: [number, number, number];
     magnetometer?: [number, number, number];
   };
+  siteCalibration?: SiteCalibrationParameters; // WGS84 to local grid (localization)
   confidence: number; // 0-1
   metadata?: Record<string, any>;
 }
@@ -35,6 +44,7 @@ export interface CalibrationResult {
     positionError: number; // in meters
     orientationError: number; // in degrees
   };
+  residuals?: SiteCalibrationResidual[]; // Per control point, for site calibrations
 }
 
 const STORAGE_KEY = 'calibrationProfiles';
@@ -224,6 +234,68 @@ export class CalibrationProtocol {
     });
   }
   
+  /**
+   * Calibrate a job site on a local grid from control points measured in WGS84
+   */
+  static async calibrateSite(
+    pairs: ControlPointPair[],
+    options: SiteCalibrationOptions = {},
+    name = 'Site Calibration'
+  ): Promise<CalibrationResult> {
+    try {
+      const { parameters, residuals, redundancy } = SiteCalibration.solve(pairs, options);
+      const flagged = residuals.filter(residual => residual.flagged).length;
+      
+      const profile = calibrationProfiles.add({
+        name,
+        source: 'site',
+        bias: { lat: 0, lon: 0, alt: 0 },
+        siteCalibration: parameters,
+        // Without redundancy the residuals cannot reveal a bad control point
+        confidence: flagged > 0 ? 0.5 : redundancy.horizontal > 0 ? 0.9 : 0.6,
+        metadata: {
+          controlPoints: pairs.map(pair => pair.id),
+          redundancy,
+          flagged
+        }
+      });
+      
+      return {
+        success: true,
+        profile,
+        residuals,
+        metrics: {
+          positionError: parameters.rms.horizontal,
+          orientationError: 0
+        }
+      };
+    } catch (error) {
+      console.error('Site calibration failed:', error);
+      return {
+        success: false,
+        profile: null,
+        error: error instanceof Error ? error.message : 'Unknown error during site calibration'
+      };
+    }
+  }
+  
+  /**
+   * Local grid coordinates of a position through a site calibration profile
+   */
+  static toLocalGrid(
+    position: {
+      lat: number;
+      lon: number;
+      alt?: number;
+    },
+    profile: CalibrationProfile
+  ): LocalGridPosition {
+    if (!profile.siteCalibration) {
+      throw new Error(`Calibration profile ${profile.name} has no site calibration`);
+    }
+    return SiteCalibration.toLocal(profile.siteCalibration, position);
+  }
+  
   /**
    * Apply calibration to a position
    */
@@ -2,43 +2,25 @@ import proj4 from 'proj4';
 import { register } from 'ol/proj/proj4';
 import { get as getProjection } from 'ol/proj';
 import { Extent } from 'ol/extent';
+import { datumTransformationRegistry, type TransformationStep } from './DatumTransformation';
+import { geoidRegistry, ELLIPSOIDAL } from './GeoidModel';
+import { epsgRegistry, type CrsDefinition, type CrsSearchOptions } from './EPSGRegistry';
 
-// Register proj4 with OpenLayers
-proj4.defs([
-  // WGS84 - World Geodetic System 1984 (GPS)
-  ['EPSG:4326', '+title=WGS 84 (long/lat) +proj=longlat +ellps=WGS84 +datum=WGS84 +units=degrees'],
-  
-  // UTM Zones - Example for Zone 32N (Europe)
-  ['EPSG:32632', '+proj=utm +zone=32 +ellps=WGS84 +datum=WGS84 +units=m +no_defs'],
-  
-  // UTM Zone 33N - Africa (Cameroun, Gabon, etc.)
-  ['EPSG:32633', '+proj=utm +zone=33 +ellps=WGS84 +datum=WGS84 +units=m +no_defs'],
-  
-  // Lambert 93 - France
-  ['EPSG:2154', '+proj=lcc +lat_1=49 +lat_2=44 +lat_0=46.5 +lon_0=3 +x_0=700000 +y_0=6600000 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs'],
-  
-  // UTM Zone 33S - Southern Africa
-  ['EPSG:32733', '+proj=utm +zone=33 +south +ellps=WGS84 +datum=WGS84 +units=m +no_defs'],
-  
-  // Cameroun - UTM Zone 32N (West) & 33N (East)
-  ['EPSG:32632_CAM_WEST', '+proj=utm +zone=32 +ellps=WGS84 +datum=WGS84 +units=m +no_defs'],
-  ['EPSG:32633_CAM_EAST', '+proj=utm +zone=33 +ellps=WGS84 +datum=WGS84 +units=m +no_defs'],
-  
-  // Custom projections can be added here
-]);
-
-// Register projections with OpenLayers
+// Register the bundled EPSG definitions with proj4 and OpenLayers
+epsgRegistry.list().forEach(definition => proj4.defs(definition.code, definition.proj4));
 register(proj4);
 
-// Define projection extents (useful for map display)
-const projectionExtents: Record<string, Extent> = {
-  'EPSG:4326': [-180, -90, 180, 90],
-  'EPSG:32632': [166021.44, 0.0, 833978.55, 9329005.18],
-  'EPSG:32633': [166021.44, 0.0, 833978.55, 9329005.18],
-  'EPSG:2154': [-378305.81, 6093283.21, 1212610.74, 7186901.82],
-  'EPSG:32632_CAM_WEST': [166021.44, 0.0, 833978.55, 9329005.18],
-  'EPSG:32633_CAM_EAST': [166021.44, 0.0, 833978.55, 9329005.18],
+// proj4 projection objects, used without their built-in datum shifts
+type ProjectionInternals = ReturnType<typeof proj4.Proj> & {
+  projName?: string;
+  to_meter?: number;
+  from_greenwich?: number;
 };
+const projectionCache = new Map<string, ProjectionInternals>();
+
+// WGS84 ellipsoid
+const WGS84_A = 6378137.0;
+const WGS84_F = 1 / 298.257223563;
 
 type Coordinate2D = [number, number];
 type Coordinate3D = [number, number, number];
@@ -51,6 +33,20 @@ type BoundingBox = {
   maxZ?: number;
 };
 
+type CoordinateTransformResult = {
+  x: number;
+  y: number;
+  z?: number;
+  accuracy: number; // Datum transformation accuracy estimate (m), 0 within a datum
+  steps: TransformationStep[];
+};
+
+// Vertical datums of the input and output heights (geoid registry codes), ellipsoidal by default
+type VerticalDatumOptions = {
+  sourceVerticalDatum?: string;
+  targetVerticalDatum?: string;
+};
+
 interface ProjectionInfo {
   code: string;
   name: string;
@@ -69,14 +65,12 @@ class CoordinateSystemManager {
     x: number,
     y: number,
     sourceEpsg: string,
-    z?: number
+    z?: number,
+    options: VerticalDatumOptions = {}
   ): { lat: number; lon: number; alt?: number } {
-    this.ensureProjectionDefined(sourceEpsg);
-    
-    const proj = proj4(sourceEpsg, 'EPSG:4326');
-    const [lon, lat] = proj.forward([x, y]);
+    const { x: lon, y: lat, z: alt } = this.transform(x, y, sourceEpsg, 'EPSG:4326', z, options);
     
-    return z !== undefined ? { lat, lon, alt: z } : { lat, lon };
+    return alt !== undefined ? { lat, lon, alt } : { lat, lon };
   }
 
   /**
@@ -86,14 +80,12 @@ class CoordinateSystemManager {
     lat: number,
     lon: number,
     targetEpsg: string,
-    alt?: number
+    alt?: number,
+    options: VerticalDatumOptions = {}
   ): { x: number; y: number; z?: number } {
-    this.ensureProjectionDefined(targetEpsg);
+    const { x, y, z } = this.transform(lon, lat, 'EPSG:4326', targetEpsg, alt, options);
     
-    const proj = proj4('EPSG:4326', targetEpsg);
-    const [x, y] = proj.forward([lon, lat]);
-    
-    return alt !== undefined ? { x, y, z: alt } : { x, y };
+    return z !== undefined ? { x, y, z } : { x, y };
   }
 
   /**
@@ -104,15 +96,169 @@ class CoordinateSystemManager {
     y: number,
     fromEpsg: string,
     toEpsg: string,
-    z?: number
+    z?: number,
+    options: VerticalDatumOptions = {}
   ): { x: number; y: number; z?: number } {
-    this.ensureProjectionDefined(fromEpsg);
-    this.ensureProjectionDefined(toEpsg);
+    const { x: newX, y: newY, z: newZ } = this.transform(x, y, fromEpsg, toEpsg, z, options);
     
-    const proj = proj4(fromEpsg, toEpsg);
-    const [newX, newY] = proj.forward([x, y]);
+    return newZ !== undefined ? { x: newX, y: newY, z: newZ } : { x: newX, y: newY };
+  }
+
+  /**
+   * Datum-aware conversion: unprojects on the source datum, chains the
+   * registered datum transformations, then projects on the target datum.
+   * Heights are ellipsoidal unless vertical datums are given, in which case
+   * they go through the geoid models on either side of the datum shift.
+   */
+  static transform(
+    x: number,
+    y: number,
+    fromEpsg: string,
+    toEpsg: string,
+    z?: number,
+    options: VerticalDatumOptions = {}
+  ): CoordinateTransformResult {
+    const { sourceVerticalDatum = ELLIPSOIDAL, targetVerticalDatum = ELLIPSOIDAL } = options;
+    const [lon, lat] = this.toGeographic(x, y, fromEpsg);
+    const h = z !== undefined
+      ? geoidRegistry.convertHeight(lat, lon, z, sourceVerticalDatum, ELLIPSOIDAL)
+      : undefined;
+    const shifted = datumTransformationRegistry.transform(
+      { lat, lon, h },
+      this.getCrsDatum(fromEpsg),
+      this.getCrsDatum(toEpsg)
+    );
+    const [newX, newY] = this.fromGeographic(shifted.lon, shifted.lat, toEpsg);
     
-    return z !== undefined ? { x: newX, y: newY, z } : { x: newX, y: newY };
+    return {
+      x: newX,
+      y: newY,
+      ...(z !== undefined && {
+        z: geoidRegistry.convertHeight(shifted.lat, shifted.lon, shifted.h!, ELLIPSOIDAL, targetVerticalDatum),
+      }),
+      accuracy: shifted.accuracy,
+      steps: shifted.steps,
+    };
+  }
+
+  /**
+   * Datum transformations that transform() would chain for a point of the source CRS
+   */
+  static getTransformationPath(
+    fromEpsg: string,
+    toEpsg: string,
+    near?: { x: number; y: number }
+  ): TransformationStep[] | null {
+    const point = near && this.toGeographic(near.x, near.y, fromEpsg);
+    return datumTransformationRegistry.findPath(
+      this.getCrsDatum(fromEpsg),
+      this.getCrsDatum(toEpsg),
+      point && { lon: point[0], lat: point[1] }
+    );
+  }
+
+  /**
+   * Geodetic datum code of a CRS
+   */
+  static getCrsDatum(epsg: string): string {
+    return epsgRegistry.get(epsg)?.datum || 'WGS84';
+  }
+
+  /**
+   * Add a projection bound to a datum of the transformation registry
+   */
+  static registerCrs(
+    epsg: string,
+    proj4def: string,
+    datum: string,
+    bbox?: Extent
+  ): void {
+    if (!datumTransformationRegistry.getDatum(datum)) {
+      throw new Error(`Datum ${datum} is not registered.`);
+    }
+    this.addCustomProjection(epsg, proj4def, bbox, datum);
+  }
+
+  /**
+   * Convert ECEF coordinates (meters) to WGS84 geodetic [lat, lon, alt]
+   * (degrees, degrees, meters above the ellipsoid)
+   */
+  static fromECEF(x: number, y: number, z: number): Coordinate3D {
+    const e2 = WGS84_F * (2 - WGS84_F);
+    const p = Math.sqrt(x * x + y * y);
+    const lon = Math.atan2(y, x);
+
+    // Iterative solution (converges to sub-millimetre in a few iterations)
+    let lat = Math.atan2(z, p * (1 - e2));
+    let alt = 0;
+    for (let i = 0; i < 10; i++) {
+      const sinLat = Math.sin(lat);
+      const n = WGS84_A / Math.sqrt(1 - e2 * sinLat * sinLat);
+      alt = p / Math.cos(lat) - n;
+      const next = Math.atan2(z, p * (1 - e2 * n / (n + alt)));
+      const done = Math.abs(next - lat) < 1e-12;
+      lat = next;
+      if (done) break;
+    }
+
+    if (p < 1e-6) {
+      // On the polar axis
+      lat = z >= 0 ? Math.PI / 2 : -Math.PI / 2;
+      alt = Math.abs(z) - WGS84_A * Math.sqrt(1 - e2);
+    }
+
+    return [(lat * 180) / Math.PI, (lon * 180) / Math.PI, alt];
+  }
+
+  /**
+   * Convert WGS84 geodetic coordinates (degrees, meters) to ECEF (meters)
+   */
+  static toECEF(lat: number, lon: number, alt: number = 0): Coordinate3D {
+    const e2 = WGS84_F * (2 - WGS84_F);
+    const phi = (lat * Math.PI) / 180;
+    const lambda = (lon * Math.PI) / 180;
+    const sinPhi = Math.sin(phi);
+    const n = WGS84_A / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+
+    return [
+      (n + alt) * Math.cos(phi) * Math.cos(lambda),
+      (n + alt) * Math.cos(phi) * Math.sin(lambda),
+      (n * (1 - e2) + alt) * sinPhi,
+    ];
+  }
+
+  /**
+   * Express an ECEF point in the local East/North/Up frame of an ECEF origin
+   */
+  static toENU(point: Coordinate3D, origin: Coordinate3D): Coordinate3D {
+    const [lat, lon] = this.fromECEF(origin[0], origin[1], origin[2]);
+    const phi = (lat * Math.PI) / 180;
+    const lambda = (lon * Math.PI) / 180;
+    const dx = point[0] - origin[0];
+    const dy = point[1] - origin[1];
+    const dz = point[2] - origin[2];
+
+    return [
+      -Math.sin(lambda) * dx + Math.cos(lambda) * dy,
+      -Math.sin(phi) * Math.cos(lambda) * dx - Math.sin(phi) * Math.sin(lambda) * dy + Math.cos(phi) * dz,
+      Math.cos(phi) * Math.cos(lambda) * dx + Math.cos(phi) * Math.sin(lambda) * dy + Math.sin(phi) * dz,
+    ];
+  }
+
+  /**
+   * Convert a local East/North/Up offset back to ECEF (inverse of toENU)
+   */
+  static fromENU(enu: Coordinate3D, origin: Coordinate3D): Coordinate3D {
+    const [lat, lon] = this.fromECEF(origin[0], origin[1], origin[2]);
+    const phi = (lat * Math.PI) / 180;
+    const lambda = (lon * Math.PI) / 180;
+    const [e, n, u] = enu;
+
+    return [
+      origin[0] - Math.sin(lambda) * e - Math.sin(phi) * Math.cos(lambda) * n + Math.cos(phi) * Math.cos(lambda) * u,
+      origin[1] + Math.cos(lambda) * e - Math.sin(phi) * Math.sin(lambda) * n + Math.cos(phi) * Math.sin(lambda) * u,
+      origin[2] + Math.cos(phi) * n + Math.sin(phi) * u,
+    ];
   }
 
   /**
@@ -121,17 +267,21 @@ class CoordinateSystemManager {
   static getProjectionInfo(epsg: string): ProjectionInfo | null {
     if (!proj4.defs[epsg]) return null;
     
-    const def = proj4.defs[epsg];
+    const definition = epsgRegistry.get(epsg);
     const olProj = getProjection(epsg);
+    const isGeographic = definition
+      ? definition.kind === 'geographic'
+      : this.getProjection(epsg).projName === 'longlat';
+    const [minX, minY, maxX, maxY] = definition?.area.bbox ?? [-180, -90, 180, 90];
     
     return {
       code: epsg,
-      name: this.getProjectionName(epsg),
+      name: definition?.name || epsg,
       unit: olProj?.getUnits() || 'degrees',
-      areaOfUse: this.getAreaOfUse(epsg),
-      bbox: this.getBoundingBox(epsg),
-      isGeographic: olProj?.isGlobal() || false,
-      isProjected: olProj?.isProjection() || false,
+      areaOfUse: definition?.area.name || 'Not specified',
+      bbox: { minX, minY, maxX, maxY },
+      isGeographic,
+      isProjected: !isGeographic,
     };
   }
 
@@ -139,17 +289,31 @@ class CoordinateSystemManager {
    * List all supported projections with their details
    */
   static listSupportedProjections(): ProjectionInfo[] {
-    return Object.keys(proj4.defs)
-      .map(epsg => this.getProjectionInfo(epsg))
+    return epsgRegistry.list()
+      .map(definition => this.getProjectionInfo(definition.code))
       .filter((info): info is ProjectionInfo => info !== null);
   }
 
+  /**
+   * Search the EPSG database by code, name or area of use
+   */
+  static searchProjections(query: string, options?: CrsSearchOptions): CrsDefinition[] {
+    return epsgRegistry.search(query, options);
+  }
+
+  /**
+   * Projections whose area of use contains a WGS84 position, most local first
+   */
+  static findProjectionsAt(lon: number, lat: number, kind?: CrsDefinition['kind']): CrsDefinition[] {
+    return epsgRegistry.findByLocation(lon, lat, kind);
+  }
+
   /**
    * Find the best UTM zone for a given WGS84 coordinate
    */
   static findBestUTMZone(lon: number, lat: number): string {
     // UTM zones are 6 degrees wide, starting at -180
-    let zone = Math.floor((lon + 180) / 6) + 1;
+    let zone = Math.min(Math.floor((lon + 180) / 6) + 1, 60);
     
     // Handle special cases for Norway and Svalbard
     if (lat >= 56.0 && lat < 64.0 && lon >= 3.0 && lon < 12.0) {
@@ -164,8 +328,8 @@ class CoordinateSystemManager {
       else if (lon >= 33.0 && lon < 42.0) zone = 37;
     }
     
-    const hemisphere = lat >= 0 ? 'N' : 'S';
-    return `EPSG:326${zone}${hemisphere === 'S' ? '7' : '6'}${zone}`;
+    // WGS 84 / UTM zone N is EPSG:326NN, zone S is EPSG:327NN
+    return `EPSG:${(lat >= 0 ? 32600 : 32700) + zone}`;
   }
 
   /**
@@ -237,75 +401,106 @@ class CoordinateSystemManager {
   }
 
   /**
-   * Add a custom projection
+   * Add a custom projection (PROJ string or WKT), with its area of use as
+   * [west, south, east, north] in WGS84 degrees
    */
   static addCustomProjection(
     epsg: string,
     proj4def: string,
-    bbox?: Extent
+    bbox?: Extent,
+    datum?: string
   ): void {
     if (proj4.defs[epsg]) {
       console.warn(`Projection ${epsg} is already defined. Overwriting...`);
     }
     
     proj4.defs(epsg, proj4def);
+    projectionCache.delete(epsg);
     
-    if (bbox) {
-      projectionExtents[epsg] = bbox;
-    }
+    const existing = epsgRegistry.get(epsg);
+    const isGeographic = this.getProjection(epsg).projName === 'longlat';
+    const isWkt = !proj4def.trim().startsWith('+');
+    epsgRegistry.register({
+      code: epsg,
+      name: existing?.name || proj4def.match(/\+title=([^+]+)/)?.[1].trim() || epsg,
+      kind: isGeographic ? 'geographic' : 'projected',
+      datum: datum || existing?.datum || 'WGS84',
+      unit: isGeographic ? 'degree' : 'metre',
+      proj4: proj4def,
+      wkt: isWkt ? proj4def : undefined,
+      area: bbox
+        ? { name: existing?.area.name || 'Custom', bbox: [bbox[0], bbox[1], bbox[2], bbox[3]] }
+        : existing?.area || { name: 'Not specified', bbox: [-180, -90, 180, 90] },
+    });
     
     // Register with OpenLayers
     register(proj4);
   }
 
   private static ensureProjectionDefined(epsg: string): void {
-    if (!proj4.defs[epsg]) {
+    if (proj4.defs[epsg]) return;
+    
+    // Definitions added to the EPSG registry after start-up
+    const definition = epsgRegistry.get(epsg);
+    if (!definition) {
       throw new Error(`Projection ${epsg} is not defined.`);
     }
+    proj4.defs(epsg, definition.proj4);
+    register(proj4);
   }
 
-  private static getProjectionName(epsg: string): string {
-    const names: Record<string, string> = {
-      'EPSG:4326': 'WGS 84 (Latitude/Longitude)',
-      'EPSG:3857': 'Web Mercator',
-      'EPSG:2154': 'RGF93 / Lambert-93',
-      'EPSG:32632': 'WGS 84 / UTM zone 32N',
-      'EPSG:32633': 'WGS 84 / UTM zone 33N',
-      'EPSG:32733': 'WGS 84 / UTM zone 33S',
-      'EPSG:32632_CAM_WEST': 'WGS 84 / UTM zone 32N (Cameroon West)',
-      'EPSG:32633_CAM_EAST': 'WGS 84 / UTM zone 33N (Cameroon East)',
-    };
-    
-    return names[epsg] || epsg;
+  private static getProjection(epsg: string): ProjectionInternals {
+    this.ensureProjectionDefined(epsg);
+    let projection = projectionCache.get(epsg);
+    if (!projection) {
+      projection = proj4.Proj(epsg) as ProjectionInternals;
+      projectionCache.set(epsg, projection);
+    }
+    return projection;
   }
 
-  private static getAreaOfUse(epsg: string): string {
-    const areas: Record<string, string> = {
-      'EPSG:4326': 'World',
-      'EPSG:3857': 'World between 85.06°S and 85.06°N',
-      'EPSG:2154': 'France - mainland onshore',
-      'EPSG:32632': 'Between 6°E and 12°E, northern hemisphere',
-      'EPSG:32633': 'Between 12°E and 18°E, northern hemisphere',
-      'EPSG:32733': 'Between 12°E and 18°E, southern hemisphere',
-      'EPSG:32632_CAM_WEST': 'Cameroon - west of 12°E',
-      'EPSG:32633_CAM_EAST': 'Cameroon - east of 12°E',
-    };
+  /**
+   * Projected or geographic coordinates to [lon, lat] (degrees) on the CRS's own datum
+   */
+  private static toGeographic(x: number, y: number, epsg: string): Coordinate2D {
+    const projection = this.getProjection(epsg);
+    let lon = (x * Math.PI) / 180;
+    let lat = (y * Math.PI) / 180;
     
-    return areas[epsg] || 'Not specified';
+    if (projection.projName !== 'longlat') {
+      const scale = projection.to_meter ?? 1;
+      const point = projection.inverse({ x: x * scale, y: y * scale });
+      if (!point || !isFinite(point.x) || !isFinite(point.y)) {
+        throw new Error(`Coordinates ${x}, ${y} cannot be unprojected from ${epsg}.`);
+      }
+      lon = point.x;
+      lat = point.y;
+    }
+    lon += projection.from_greenwich ?? 0;
+    
+    return [(lon * 180) / Math.PI, (lat * 180) / Math.PI];
   }
 
-  private static getBoundingBox(epsg: string): BoundingBox {
-    const bbox = projectionExtents[epsg] || [-180, -90, 180, 90];
-    return {
-      minX: bbox[0],
-      minY: bbox[1],
-      maxX: bbox[2],
-      maxY: bbox[3],
-    };
+  private static fromGeographic(lon: number, lat: number, epsg: string): Coordinate2D {
+    const projection = this.getProjection(epsg);
+    const lambda = (lon * Math.PI) / 180 - (projection.from_greenwich ?? 0);
+    
+    if (projection.projName === 'longlat') {
+      return [(lambda * 180) / Math.PI, lat];
+    }
+    
+    const scale = projection.to_meter ?? 1;
+    const point = projection.forward({ x: lambda, y: (lat * Math.PI) / 180 });
+    if (!point || !isFinite(point.x) || !isFinite(point.y)) {
+      throw new Error(`Coordinates ${lat}, ${lon} cannot be projected to ${epsg}.`);
+    }
+    
+    return [point.x / scale, point.y / scale];
   }
 }
 
 export { CoordinateSystemManager };
+export type { Coordinate3D, CoordinateTransformResult, VerticalDatumOptions };
 
 // Helper function to get a projection's extent in meters
 function getProjectionExtent(epsg: string): Extent | null {
@@ -0,0 +1,667 @@
+import * as math from 'mathjs';
+
+type Ellipsoid = {
+  name: string;
+  a: number;  // Semi-major axis (m)
+  rf: number; // Inverse flattening
+};
+
+type DatumDefinition = {
+  code: string;
+  name: string;
+  ellipsoid: string; // Registered ellipsoid code
+};
+
+type GeographicArea = {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+};
+
+/**
+ * Seven-parameter Helmert transformation between the geocentric frames of two datums
+ */
+type HelmertParameters = {
+  tx: number; // m
+  ty: number; // m
+  tz: number; // m
+  rx?: number; // arc-seconds
+  ry?: number; // arc-seconds
+  rz?: number; // arc-seconds
+  ds?: number; // Scale difference (ppm)
+  /** EPSG 9606 (position vector, default) or 9607 (coordinate frame, opposite rotations) */
+  convention?: 'position-vector' | 'coordinate-frame';
+};
+
+/**
+ * One level of a grid shift file. Nodes are stored row by row from south to
+ * north and west to east; shifts are in arc-seconds, longitude positive east.
+ */
+type GridShiftSubgrid = {
+  name: string;
+  parent: string | null;
+  south: number;   // degrees
+  west: number;    // degrees, positive east
+  latStep: number; // degrees
+  lonStep: number; // degrees
+  rows: number;
+  cols: number;
+  latShift: Float32Array;
+  lonShift: Float32Array;
+  latAccuracy?: Float32Array; // m, negative when unknown
+  lonAccuracy?: Float32Array; // m, negative when unknown
+};
+
+type GridShift = {
+  format: 'ntv2' | 'nadcon';
+  subgrids: GridShiftSubgrid[];
+};
+
+type GridFile = ArrayBuffer | ArrayBufferView | Blob;
+
+type DatumTransformation = {
+  id: string;
+  name: string;
+  source: string;
+  target: string;
+  method: 'helmert' | 'grid';
+  accuracy: number; // Published accuracy of the transformation (m, 1σ)
+  area?: GeographicArea;
+  helmert?: HelmertParameters;
+  grid?: GridShift;
+};
+
+type TransformationStep = {
+  id: string;
+  name: string;
+  inverse: boolean;
+  source: string;
+  target: string;
+  accuracy: number; // m, evaluated at the transformed point when the grid provides it
+};
+
+type GeodeticPoint = {
+  lat: number;
+  lon: number;
+  h?: number;
+};
+
+type DatumTransformResult = {
+  lat: number;
+  lon: number;
+  h?: number;
+  accuracy: number; // Root-sum-square of the step accuracies (m)
+  steps: TransformationStep[];
+};
+
+const ARCSEC_TO_RAD = Math.PI / (180 * 3600);
+const NTV2_RECORD = 16;
+const GRID_INVERSE_TOLERANCE = 1e-12; // degrees
+
+/**
+ * Registry of datums and the transformations between them.
+ *
+ * Transformations are chained by a shortest-path search weighted by their
+ * variance, so the most accurate route wins (e.g. a loaded NADCON grid over
+ * a continental mean Helmert shift). Each conversion reports the steps used
+ * and a root-sum-square accuracy estimate.
+ */
+class DatumTransformationRegistry {
+  private static instance: DatumTransformationRegistry;
+
+  private ellipsoids = new Map<string, Ellipsoid>();
+  private datums = new Map<string, DatumDefinition>();
+  private transformations = new Map<string, DatumTransformation>();
+
+  private constructor() {
+    this.registerDefaults();
+  }
+
+  static getInstance(): DatumTransformationRegistry {
+    if (!DatumTransformationRegistry.instance) {
+      DatumTransformationRegistry.instance = new DatumTransformationRegistry();
+    }
+    return DatumTransformationRegistry.instance;
+  }
+
+  registerEllipsoid(code: string, ellipsoid: Ellipsoid): void {
+    this.ellipsoids.set(code, ellipsoid);
+  }
+
+  registerDatum(datum: DatumDefinition): void {
+    if (!this.ellipsoids.has(datum.ellipsoid)) {
+      throw new Error(`Unknown ellipsoid ${datum.ellipsoid} for datum ${datum.code}`);
+    }
+    this.datums.set(datum.code, datum);
+  }
+
+  getDatum(code: string): DatumDefinition | undefined {
+    return this.datums.get(code);
+  }
+
+  getEllipsoid(datum: string): Ellipsoid {
+    const definition = this.datums.get(datum);
+    if (!definition) throw new Error(`Datum ${datum} is not registered`);
+    return this.ellipsoids.get(definition.ellipsoid)!;
+  }
+
+  listDatums(): DatumDefinition[] {
+    return Array.from(this.datums.values());
+  }
+
+  listTransformations(): DatumTransformation[] {
+    return Array.from(this.transformations.values());
+  }
+
+  /**
+   * Declare a Helmert transformation from source to target datum
+   */
+  registerHelmert(
+    id: string,
+    source: string,
+    target: string,
+    parameters: HelmertParameters,
+    accuracy: number,
+    options: { name?: string; area?: GeographicArea } = {}
+  ): DatumTransformation {
+    return this.register({
+      id,
+      name: options.name ?? `${source} to ${target} (Helmert)`,
+      source,
+      target,
+      method: 'helmert',
+      accuracy,
+      area: options.area,
+      helmert: parameters,
+    });
+  }
+
+  /**
+   * Declare a grid-based transformation; the grid extent defines its area of use
+   */
+  registerGrid(
+    id: string,
+    source: string,
+    target: string,
+    grid: GridShift,
+    accuracy: number,
+    options: { name?: string } = {}
+  ): DatumTransformation {
+    if (grid.subgrids.length === 0) {
+      throw new Error(`Grid ${id} has no subgrid`);
+    }
+    return this.register({
+      id,
+      name: options.name ?? `${source} to ${target} (${grid.format.toUpperCase()})`,
+      source,
+      target,
+      method: 'grid',
+      accuracy,
+      area: DatumTransformationRegistry.gridArea(grid),
+      grid,
+    });
+  }
+
+  /**
+   * Load an NTv2 (.gsb) file, or a NADCON (.las/.los) pair, and register it
+   */
+  async loadGrid(
+    definition: { id: string; source: string; target: string; accuracy?: number; name?: string },
+    file: GridFile | { latitude: GridFile; longitude: GridFile }
+  ): Promise<DatumTransformation> {
+    let grid: GridShift;
+    if ('latitude' in file && 'longitude' in file) {
+      grid = DatumTransformationRegistry.parseNADCON(
+        await DatumTransformationRegistry.readGridFile(file.latitude),
+        await DatumTransformationRegistry.readGridFile(file.longitude)
+      );
+    } else {
+      grid = DatumTransformationRegistry.parseNTv2(await DatumTransformationRegistry.readGridFile(file));
+    }
+
+    // NADCON grids are quoted at about 0.15 m; NTv2 nodes carry their own accuracy
+    const accuracy = definition.accuracy ?? (grid.format === 'nadcon' ? 0.15 : 0.1);
+    return this.registerGrid(definition.id, definition.source, definition.target, grid, accuracy, {
+      name: definition.name,
+    });
+  }
+
+  removeTransformation(id: string): boolean {
+    return this.transformations.delete(id);
+  }
+
+  /**
+   * Most accurate chain of transformations between two datums, restricted to
+   * those covering the given point when one is provided
+   */
+  findPath(source: string, target: string, point?: GeodeticPoint): TransformationStep[] | null {
+    if (source === target) return [];
+
+    const variance = new Map<string, number>([[source, 0]]);
+    const previous = new Map<string, TransformationStep>();
+    const visited = new Set<string>();
+
+    while (true) {
+      let current: string | null = null;
+      for (const [datum, value] of variance) {
+        if (!visited.has(datum) && (current === null || value < variance.get(current)!)) current = datum;
+      }
+      if (current === null) return null;
+      if (current === target) break;
+      visited.add(current);
+
+      for (const transformation of this.transformations.values()) {
+        if (point && !DatumTransformationRegistry.covers(transformation, point)) continue;
+        const inverse = transformation.target === current;
+        if (!inverse && transformation.source !== current) continue;
+
+        const next = inverse ? transformation.source : transformation.target;
+        const cost = variance.get(current)! + transformation.accuracy ** 2;
+        if (!visited.has(next) && cost < (variance.get(next) ?? Infinity)) {
+          variance.set(next, cost);
+          previous.set(next, {
+            id: transformation.id,
+            name: transformation.name,
+            inverse,
+            source: current,
+            target: next,
+            accuracy: transformation.accuracy,
+          });
+        }
+      }
+    }
+
+    const steps: TransformationStep[] = [];
+    for (let datum = target; datum !== source; datum = previous.get(datum)!.source) {
+      steps.unshift(previous.get(datum)!);
+    }
+    return steps;
+  }
+
+  /**
+   * Transform geodetic coordinates (degrees, ellipsoidal height in m) between datums
+   */
+  transform(point: GeodeticPoint, source: string, target: string): DatumTransformResult {
+    this.getEllipsoid(source);
+    this.getEllipsoid(target);
+
+    const steps = this.findPath(source, target, point);
+    if (!steps) {
+      throw new Error(`No transformation from ${source} to ${target} covers ${point.lat}, ${point.lon}`);
+    }
+
+    let current = { ...point };
+    const applied = steps.map(step => {
+      const transformation = this.transformations.get(step.id)!;
+      let accuracy = transformation.accuracy;
+      if (transformation.method === 'helmert') {
+        current = this.applyHelmert(current, step);
+      } else {
+        const shifted = DatumTransformationRegistry.applyGrid(transformation.grid!, current, step.inverse);
+        current = { ...current, lat: shifted.lat, lon: shifted.lon };
+        if (shifted.accuracy !== undefined) accuracy = shifted.accuracy;
+      }
+      return { ...step, accuracy };
+    });
+
+    return {
+      ...current,
+      accuracy: Math.sqrt(applied.reduce((sum, step) => sum + step.accuracy ** 2, 0)),
+      steps: applied,
+    };
+  }
+
+  /**
+   * Parse an NTv2 grid shift file (either byte order)
+   */
+  static parseNTv2(buffer: ArrayBuffer): GridShift {
+    const view = new DataView(buffer);
+    const label = (offset: number) =>
+      String.fromCharCode(...new Uint8Array(buffer, offset, 8)).replace(/[\s\0]+$/, '');
+
+    if (buffer.byteLength < 11 * NTV2_RECORD || label(0) !== 'NUM_OREC') {
+      throw new Error('Not an NTv2 grid file');
+    }
+    const littleEndian = view.getInt32(8, true) === 11;
+    const headerRecords = view.getInt32(8, littleEndian);
+    const subgridCount = view.getInt32(2 * NTV2_RECORD + 8, littleEndian); // NUM_FILE
+
+    const subgrids: GridShiftSubgrid[] = [];
+    let offset = headerRecords * NTV2_RECORD;
+    for (let s = 0; s < subgridCount; s++) {
+      const field = (index: number) => offset + index * NTV2_RECORD + 8;
+      const text = (index: number) => label(field(index));
+      const value = (index: number) => view.getFloat64(field(index), littleEndian);
+
+      // Header values are arc-seconds with longitudes positive west
+      const south = value(4);
+      const north = value(5);
+      const eastWest = value(6);
+      const westWest = value(7);
+      const latInc = value(8);
+      const lonInc = value(9);
+      const count = view.getInt32(field(10), littleEndian);
+      const rows = Math.round((north - south) / latInc) + 1;
+      const cols = Math.round((westWest - eastWest) / lonInc) + 1;
+      if (rows * cols !== count) {
+        throw new Error(`NTv2 subgrid ${text(0)} declares ${count} nodes for a ${rows}×${cols} grid`);
+      }
+
+      const latShift = new Float32Array(count);
+      const lonShift = new Float32Array(count);
+      const latAccuracy = new Float32Array(count);
+      const lonAccuracy = new Float32Array(count);
+      let node = offset + 11 * NTV2_RECORD;
+      for (let row = 0; row < rows; row++) {
+        // Each row runs from east to west in the file
+        for (let k = 0; k < cols; k++) {
+          const index = row * cols + (cols - 1 - k);
+          latShift[index] = view.getFloat32(node, littleEndian);
+          lonShift[index] = -view.getFloat32(node + 4, littleEndian);
+          latAccuracy[index] = view.getFloat32(node + 8, littleEndian);
+          lonAccuracy[index] = view.getFloat32(node + 12, littleEndian);
+          node += NTV2_RECORD;
+        }
+      }
+
+      const parent = text(1);
+      subgrids.push({
+        name: text(0),
+        parent: parent === 'NONE' ? null : parent,
+        south: south / 3600,
+        west: -westWest / 3600,
+        latStep: latInc / 3600,
+        lonStep: lonInc / 3600,
+        rows,
+        cols,
+        latShift,
+        lonShift,
+        latAccuracy,
+        lonAccuracy,
+      });
+      offset = node;
+    }
+
+    return { format: 'ntv2', subgrids };
+  }
+
+  /**
+   * Parse a NADCON latitude (.las) and longitude (.los) shift file pair
+   */
+  static parseNADCON(latitude: ArrayBuffer, longitude: ArrayBuffer): GridShift {
+    const read = (buffer: ArrayBuffer) => {
+      const view = new DataView(buffer);
+      // 56-char identifier and 8-char program name, then the grid definition
+      const littleEndian = view.getInt32(64, true) > 0 && view.getInt32(64, true) < 1e5;
+      const cols = view.getInt32(64, littleEndian);
+      const rows = view.getInt32(68, littleEndian);
+      const recordLength = (cols + 1) * 4;
+      if (cols <= 0 || rows <= 0 || buffer.byteLength < recordLength * (rows + 1)) {
+        throw new Error('Not a NADCON grid file');
+      }
+
+      const values = new Float32Array(rows * cols);
+      for (let row = 0; row < rows; row++) {
+        const start = (row + 1) * recordLength + 4;
+        for (let col = 0; col < cols; col++) {
+          values[row * cols + col] = view.getFloat32(start + col * 4, littleEndian);
+        }
+      }
+      return {
+        cols,
+        rows,
+        west: view.getFloat32(76, littleEndian),
+        lonStep: view.getFloat32(80, littleEndian),
+        south: view.getFloat32(84, littleEndian),
+        latStep: view.getFloat32(88, littleEndian),
+        values,
+      };
+    };
+
+    const lat = read(latitude);
+    const lon = read(longitude);
+    if (lat.cols !== lon.cols || lat.rows !== lon.rows || lat.west !== lon.west || lat.south !== lon.south) {
+      throw new Error('NADCON latitude and longitude grids do not match');
+    }
+
+    return {
+      format: 'nadcon',
+      subgrids: [{
+        name: 'NADCON',
+        parent: null,
+        south: lat.south,
+        west: lat.west,
+        latStep: lat.latStep,
+        lonStep: lat.lonStep,
+        rows: lat.rows,
+        cols: lat.cols,
+        latShift: lat.values,
+        // Longitude shifts are stored positive west
+        lonShift: lon.values.map(value => -value),
+      }],
+    };
+  }
+
+  private register(transformation: DatumTransformation): DatumTransformation {
+    this.getEllipsoid(transformation.source);
+    this.getEllipsoid(transformation.target);
+    if (!(transformation.accuracy >= 0)) {
+      throw new Error(`Transformation ${transformation.id} needs a non-negative accuracy`);
+    }
+    this.transformations.set(transformation.id, transformation);
+    return transformation;
+  }
+
+  private applyHelmert(point: GeodeticPoint, step: TransformationStep): GeodeticPoint {
+    const { tx, ty, tz, rx = 0, ry = 0, rz = 0, ds = 0, convention = 'position-vector' } =
+      this.transformations.get(step.id)!.helmert!;
+    const sign = convention === 'position-vector' ? 1 : -1;
+    const [ox, oy, oz] = [rx, ry, rz].map(r => sign * r * ARCSEC_TO_RAD);
+    const scale = 1 + ds * 1e-6;
+    const rotation = [
+      [1, -oz, oy],
+      [oz, 1, -ox],
+      [-oy, ox, 1],
+    ];
+
+    const xyz = geodeticToGeocentric(point, this.getEllipsoid(step.source));
+    let result: number[];
+    if (!step.inverse) {
+      const rotated = math.multiply(rotation, xyz) as number[];
+      result = rotated.map((value, i) => [tx, ty, tz][i] + scale * value);
+    } else {
+      // Exact inverse rather than negated parameters
+      const translated = xyz.map((value, i) => (value - [tx, ty, tz][i]) / scale);
+      result = math.lusolve(rotation, translated).map(row => (row as number[])[0]);
+    }
+
+    const geodetic = geocentricToGeodetic(result, this.getEllipsoid(step.target));
+    return point.h === undefined ? { lat: geodetic.lat, lon: geodetic.lon } : geodetic;
+  }
+
+  private static applyGrid(
+    grid: GridShift,
+    point: GeodeticPoint,
+    inverse: boolean
+  ): { lat: number; lon: number; accuracy?: number } {
+    if (!inverse) {
+      const shift = DatumTransformationRegistry.interpolate(grid, point.lat, point.lon);
+      return { lat: point.lat + shift.lat / 3600, lon: point.lon + shift.lon / 3600, accuracy: shift.accuracy };
+    }
+
+    // Fixed-point iteration: find the source point whose shifted position is the input
+    let lat = point.lat;
+    let lon = point.lon;
+    let shift = DatumTransformationRegistry.interpolate(grid, lat, lon);
+    for (let i = 0; i < 10; i++) {
+      const nextLat = point.lat - shift.lat / 3600;
+      const nextLon = point.lon - shift.lon / 3600;
+      const done = Math.abs(nextLat - lat) < GRID_INVERSE_TOLERANCE && Math.abs(nextLon - lon) < GRID_INVERSE_TOLERANCE;
+      lat = nextLat;
+      lon = nextLon;
+      if (done) break;
+      shift = DatumTransformationRegistry.interpolate(grid, lat, lon);
+    }
+    return { lat, lon, accuracy: shift.accuracy };
+  }
+
+  /**
+   * Bilinear interpolation in the finest subgrid containing the point
+   */
+  private static interpolate(
+    grid: GridShift,
+    lat: number,
+    lon: number
+  ): { lat: number; lon: number; accuracy?: number } {
+    const subgrid = grid.subgrids
+      .filter(candidate => DatumTransformationRegistry.contains(candidate, lat, lon))
+      .sort((a, b) => a.latStep * a.lonStep - b.latStep * b.lonStep)[0];
+    if (!subgrid) {
+      throw new Error(`Point ${lat}, ${lon} is outside the grid`);
+    }
+
+    const y = (lat - subgrid.south) / subgrid.latStep;
+    const x = (lon - subgrid.west) / subgrid.lonStep;
+    const row = Math.min(Math.floor(y), subgrid.rows - 2);
+    const col = Math.min(Math.floor(x), subgrid.cols - 2);
+    const fy = y - row;
+    const fx = x - col;
+    const at = (values: Float32Array) => {
+      const i = row * subgrid.cols + col;
+      return (
+        values[i] * (1 - fx) * (1 - fy) +
+        values[i + 1] * fx * (1 - fy) +
+        values[i + subgrid.cols] * (1 - fx) * fy +
+        values[i + subgrid.cols + 1] * fx * fy
+      );
+    };
+
+    let accuracy: number | undefined;
+    if (subgrid.latAccuracy && subgrid.lonAccuracy) {
+      const latAccuracy = at(subgrid.latAccuracy);
+      const lonAccuracy = at(subgrid.lonAccuracy);
+      if (latAccuracy >= 0 && lonAccuracy >= 0) accuracy = Math.hypot(latAccuracy, lonAccuracy);
+    }
+    return { lat: at(subgrid.latShift), lon: at(subgrid.lonShift), accuracy };
+  }
+
+  private static contains(subgrid: GridShiftSubgrid, lat: number, lon: number): boolean {
+    const north = subgrid.south + (subgrid.rows - 1) * subgrid.latStep;
+    const east = subgrid.west + (subgrid.cols - 1) * subgrid.lonStep;
+    return lat >= subgrid.south && lat <= north && lon >= subgrid.west && lon <= east;
+  }
+
+  private static gridArea(grid: GridShift): GeographicArea {
+    return grid.subgrids.reduce<GeographicArea>((area, subgrid) => ({
+      west: Math.min(area.west, subgrid.west),
+      south: Math.min(area.south, subgrid.south),
+      east: Math.max(area.east, subgrid.west + (subgrid.cols - 1) * subgrid.lonStep),
+      north: Math.max(area.north, subgrid.south + (subgrid.rows - 1) * subgrid.latStep),
+    }), { west: Infinity, south: Infinity, east: -Infinity, north: -Infinity });
+  }
+
+  private static covers(transformation: DatumTransformation, point: GeodeticPoint): boolean {
+    const { area } = transformation;
+    if (area && (point.lat < area.south || point.lat > area.north || point.lon < area.west || point.lon > area.east)) {
+      return false;
+    }
+    // Nested NTv2 subgrids do not have to fill their overall extent
+    return transformation.method !== 'grid' ||
+      transformation.grid!.subgrids.some(subgrid => DatumTransformationRegistry.contains(subgrid, point.lat, point.lon));
+  }
+
+  private static async readGridFile(file: GridFile): Promise<ArrayBuffer> {
+    if (file instanceof ArrayBuffer) return file;
+    if (ArrayBuffer.isView(file)) {
+      return new Uint8Array(file.buffer, file.byteOffset, file.byteLength).slice().buffer;
+    }
+    return file.arrayBuffer();
+  }
+
+  private registerDefaults(): void {
+    this.registerEllipsoid('WGS84', { name: 'WGS 84', a: 6378137, rf: 298.257223563 });
+    this.registerEllipsoid('GRS80', { name: 'GRS 1980', a: 6378137, rf: 298.257222101 });
+    this.registerEllipsoid('CLARKE_1880_RGS', { name: 'Clarke 1880 (RGS)', a: 6378249.145, rf: 293.465 });
+    this.registerEllipsoid('CLARKE_1880_IGN', { name: 'Clarke 1880 (IGN)', a: 6378249.2, rf: 293.4660212936269 });
+    this.registerEllipsoid('CLARKE_1866', { name: 'Clarke 1866', a: 6378206.4, rf: 294.9786982138982 });
+
+    this.registerDatum({ code: 'WGS84', name: 'World Geodetic System 1984', ellipsoid: 'WGS84' });
+    this.registerDatum({ code: 'RGF93', name: 'Réseau Géodésique Français 1993', ellipsoid: 'GRS80' });
+    this.registerDatum({ code: 'NTF', name: 'Nouvelle Triangulation Française', ellipsoid: 'CLARKE_1880_IGN' });
+    this.registerDatum({ code: 'MINNA', name: 'Minna', ellipsoid: 'CLARKE_1880_RGS' });
+    this.registerDatum({ code: 'ADINDAN', name: 'Adindan', ellipsoid: 'CLARKE_1880_RGS' });
+    this.registerDatum({ code: 'NAD83', name: 'North American Datum 1983', ellipsoid: 'GRS80' });
+    this.registerDatum({ code: 'NAD27', name: 'North American Datum 1927', ellipsoid: 'CLARKE_1866' });
+
+    const cameroon = { west: 8.45, south: 1.65, east: 16.21, north: 13.09 };
+    this.registerHelmert('RGF93_WGS84', 'RGF93', 'WGS84', { tx: 0, ty: 0, tz: 0 }, 1);
+    this.registerHelmert('NTF_RGF93', 'NTF', 'RGF93', { tx: -168, ty: -60, tz: 320 }, 2, {
+      area: { west: -4.87, south: 41.31, east: 9.63, north: 51.14 },
+    });
+    this.registerHelmert('MINNA_WGS84_CMR', 'MINNA', 'WGS84', { tx: -81, ty: -84, tz: 115 }, 44, {
+      name: 'Minna to WGS 84 (Cameroon)',
+      area: cameroon,
+    });
+    this.registerHelmert('ADINDAN_WGS84_CMR', 'ADINDAN', 'WGS84', { tx: -134, ty: -2, tz: 210 }, 44, {
+      name: 'Adindan to WGS 84 (Cameroon)',
+      area: cameroon,
+    });
+    this.registerHelmert('NAD83_WGS84', 'NAD83', 'WGS84', { tx: 0, ty: 0, tz: 0 }, 4);
+    this.registerHelmert('NAD27_WGS84_CONUS', 'NAD27', 'WGS84', { tx: -8, ty: 160, tz: 176 }, 10, {
+      name: 'NAD27 to WGS 84 (CONUS mean)',
+      area: { west: -124.79, south: 24.41, east: -66.91, north: 49.38 },
+    });
+  }
+}
+
+/**
+ * Geodetic (degrees, m) to geocentric coordinates on the given ellipsoid
+ */
+function geodeticToGeocentric(point: GeodeticPoint, ellipsoid: Ellipsoid): number[] {
+  const f = 1 / ellipsoid.rf;
+  const e2 = f * (2 - f);
+  const phi = (point.lat * Math.PI) / 180;
+  const lambda = (point.lon * Math.PI) / 180;
+  const h = point.h ?? 0;
+  const n = ellipsoid.a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+  return [
+    (n + h) * Math.cos(phi) * Math.cos(lambda),
+    (n + h) * Math.cos(phi) * Math.sin(lambda),
+    (n * (1 - e2) + h) * Math.sin(phi),
+  ];
+}
+
+function geocentricToGeodetic([x, y, z]: number[], ellipsoid: Ellipsoid): Required<GeodeticPoint> {
+  const f = 1 / ellipsoid.rf;
+  const e2 = f * (2 - f);
+  const p = Math.hypot(x, y);
+  let lat = Math.atan2(z, p * (1 - e2));
+  let h = 0;
+  for (let i = 0; i < 10; i++) {
+    const n = ellipsoid.a / Math.sqrt(1 - e2 * Math.sin(lat) ** 2);
+    h = p / Math.cos(lat) - n;
+    const next = Math.atan2(z, p * (1 - (e2 * n) / (n + h)));
+    const done = Math.abs(next - lat) < 1e-12;
+    lat = next;
+    if (done) break;
+  }
+  return { lat: (lat * 180) / Math.PI, lon: (Math.atan2(y, x) * 180) / Math.PI, h };
+}
+
+const datumTransformationRegistry = DatumTransformationRegistry.getInstance();
+
+export { DatumTransformationRegistry, datumTransformationRegistry };
+export type {
+  Ellipsoid,
+  DatumDefinition,
+  GeographicArea,
+  HelmertParameters,
+  GridShift,
+  GridShiftSubgrid,
+  GridFile,
+  DatumTransformation,
+  TransformationStep,
+  GeodeticPoint,
+  DatumTransformResult,
+};
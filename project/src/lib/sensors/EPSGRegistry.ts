@@ -0,0 +1,353 @@
+/**
+ * Bundled offline subset of the EPSG geodetic parameter dataset: the CRSs
+ * used on our survey sites (France, Cameroon, Nigeria, North America) and
+ * every WGS 84 / UTM zone, with PROJ and WKT definitions and area of use.
+ */
+
+type CrsKind = 'geographic' | 'projected';
+
+type AreaOfUse = {
+  name: string;
+  bbox: [number, number, number, number]; // [west, south, east, north] in WGS84 degrees
+};
+
+type CrsDefinition = {
+  code: string;       // e.g. 'EPSG:2154'
+  name: string;
+  kind: CrsKind;
+  datum: string;      // Datum code of the transformation registry
+  unit: 'degree' | 'metre';
+  proj4: string;
+  wkt?: string;       // OGC WKT1
+  area: AreaOfUse;
+};
+
+type CrsSearchOptions = {
+  kind?: CrsKind;
+  near?: { lon: number; lat: number }; // Only CRSs whose area of use contains this point, most local first
+  limit?: number;
+};
+
+type Spheroid = [name: string, a: number, rf: number];
+
+const WGS84_SPHEROID: Spheroid = ['WGS 84', 6378137, 298.257223563];
+const GRS80_SPHEROID: Spheroid = ['GRS 1980', 6378137, 298.257222101];
+const CLARKE_IGN_SPHEROID: Spheroid = ['Clarke 1880 (IGN)', 6378249.2, 293.4660212936269];
+const CLARKE_RGS_SPHEROID: Spheroid = ['Clarke 1880 (RGS)', 6378249.145, 293.465];
+const CLARKE_1866_SPHEROID: Spheroid = ['Clarke 1866', 6378206.4, 294.9786982138982];
+
+const DEGREE = 'UNIT["degree",0.0174532925199433]';
+
+function authority(code?: string): string {
+  return code ? `,AUTHORITY["EPSG","${code.split(':')[1]}"]` : '';
+}
+
+function geogcs(name: string, datum: string, [spheroid, a, rf]: Spheroid, code?: string, towgs84 = ''): string {
+  return `GEOGCS["${name}",DATUM["${datum}",SPHEROID["${spheroid}",${a},${rf}]${towgs84 && `,TOWGS84[${towgs84}]`}],` +
+    `PRIMEM["Greenwich",0],${DEGREE}${authority(code)}]`;
+}
+
+function projcs(name: string, geographic: string, projection: string, parameters: Record<string, number>, code: string): string {
+  const params = Object.entries(parameters).map(([key, value]) => `PARAMETER["${key}",${value}]`).join(',');
+  return `PROJCS["${name}",${geographic},PROJECTION["${projection}"],${params},UNIT["metre",1]${authority(code)}]`;
+}
+
+const WGS84_WKT = geogcs('WGS 84', 'WGS_1984', WGS84_SPHEROID, 'EPSG:4326');
+const RGF93_WKT = geogcs('RGF93', 'Reseau_Geodesique_Francais_1993', GRS80_SPHEROID, 'EPSG:4171', '0,0,0,0,0,0,0');
+const MINNA_WKT = geogcs('Minna', 'Minna', CLARKE_RGS_SPHEROID, 'EPSG:4263');
+
+const FRANCE: AreaOfUse = { name: 'France - mainland onshore', bbox: [-9.86, 41.15, 10.38, 51.56] };
+const FRANCE_ONSHORE: AreaOfUse = { name: 'France - mainland onshore', bbox: [-4.87, 41.31, 9.63, 51.14] };
+
+const BASE_DEFINITIONS: CrsDefinition[] = [
+  {
+    code: 'EPSG:4326',
+    name: 'WGS 84',
+    kind: 'geographic',
+    datum: 'WGS84',
+    unit: 'degree',
+    proj4: '+title=WGS 84 (long/lat) +proj=longlat +ellps=WGS84 +datum=WGS84 +units=degrees',
+    wkt: WGS84_WKT,
+    area: { name: 'World', bbox: [-180, -90, 180, 90] },
+  },
+  {
+    code: 'EPSG:3857',
+    name: 'WGS 84 / Pseudo-Mercator',
+    kind: 'projected',
+    datum: 'WGS84',
+    unit: 'metre',
+    proj4: '+proj=merc +a=6378137 +b=6378137 +lat_ts=0 +lon_0=0 +x_0=0 +y_0=0 +k=1 +units=m +nadgrids=@null +wktext +no_defs',
+    wkt: projcs('WGS 84 / Pseudo-Mercator', WGS84_WKT, 'Mercator_1SP', {
+      central_meridian: 0, scale_factor: 1, false_easting: 0, false_northing: 0,
+    }, 'EPSG:3857'),
+    area: { name: 'World between 85.06°S and 85.06°N', bbox: [-180, -85.06, 180, 85.06] },
+  },
+  {
+    code: 'EPSG:4171',
+    name: 'RGF93',
+    kind: 'geographic',
+    datum: 'RGF93',
+    unit: 'degree',
+    proj4: '+proj=longlat +ellps=GRS80 +no_defs',
+    wkt: RGF93_WKT,
+    area: { name: 'France', bbox: [-9.86, 41.15, 10.38, 51.56] },
+  },
+  {
+    code: 'EPSG:2154',
+    name: 'RGF93 / Lambert-93',
+    kind: 'projected',
+    datum: 'RGF93',
+    unit: 'metre',
+    proj4: '+proj=lcc +lat_1=49 +lat_2=44 +lat_0=46.5 +lon_0=3 +x_0=700000 +y_0=6600000 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs',
+    wkt: projcs('RGF93 / Lambert-93', RGF93_WKT, 'Lambert_Conformal_Conic_2SP', {
+      standard_parallel_1: 49, standard_parallel_2: 44, latitude_of_origin: 46.5,
+      central_meridian: 3, false_easting: 700000, false_northing: 6600000,
+    }, 'EPSG:2154'),
+    area: FRANCE,
+  },
+  {
+    code: 'EPSG:4275',
+    name: 'NTF',
+    kind: 'geographic',
+    datum: 'NTF',
+    unit: 'degree',
+    proj4: '+proj=longlat +a=6378249.2 +rf=293.4660212936269 +no_defs',
+    wkt: geogcs('NTF', 'Nouvelle_Triangulation_Francaise', CLARKE_IGN_SPHEROID, 'EPSG:4275'),
+    area: FRANCE_ONSHORE,
+  },
+  {
+    code: 'EPSG:27572',
+    name: 'NTF (Paris) / Lambert zone II',
+    kind: 'projected',
+    datum: 'NTF',
+    unit: 'metre',
+    proj4: '+proj=lcc +lat_1=46.8 +lat_0=46.8 +lon_0=0 +k_0=0.99987742 +x_0=600000 +y_0=2200000 +a=6378249.2 +rf=293.4660212936269 +pm=paris +units=m +no_defs',
+    wkt: projcs(
+      'NTF (Paris) / Lambert zone II',
+      'GEOGCS["NTF (Paris)",DATUM["Nouvelle_Triangulation_Francaise_Paris",SPHEROID["Clarke 1880 (IGN)",6378249.2,293.4660212936269]],' +
+        'PRIMEM["Paris",2.33722917],UNIT["grad",0.01570796326794897],AUTHORITY["EPSG","4807"]]',
+      'Lambert_Conformal_Conic_1SP',
+      { latitude_of_origin: 52, central_meridian: 0, scale_factor: 0.99987742, false_easting: 600000, false_northing: 2200000 },
+      'EPSG:27572'
+    ),
+    area: FRANCE_ONSHORE,
+  },
+  {
+    code: 'EPSG:4263',
+    name: 'Minna',
+    kind: 'geographic',
+    datum: 'MINNA',
+    unit: 'degree',
+    proj4: '+proj=longlat +a=6378249.145 +rf=293.465 +no_defs',
+    wkt: MINNA_WKT,
+    area: { name: 'Cameroon; Nigeria', bbox: [2.66, 1.65, 16.21, 13.9] },
+  },
+  {
+    code: 'EPSG:4201',
+    name: 'Adindan',
+    kind: 'geographic',
+    datum: 'ADINDAN',
+    unit: 'degree',
+    proj4: '+proj=longlat +a=6378249.145 +rf=293.465 +no_defs',
+    wkt: geogcs('Adindan', 'Adindan', CLARKE_RGS_SPHEROID, 'EPSG:4201'),
+    area: { name: 'Cameroon; Ethiopia; Sudan', bbox: [8.32, 1.65, 47.99, 22.24] },
+  },
+  {
+    code: 'EPSG:4267',
+    name: 'NAD27',
+    kind: 'geographic',
+    datum: 'NAD27',
+    unit: 'degree',
+    proj4: '+proj=longlat +ellps=clrk66 +no_defs',
+    wkt: geogcs('NAD27', 'North_American_Datum_1927', CLARKE_1866_SPHEROID, 'EPSG:4267'),
+    area: { name: 'North America', bbox: [-172.54, 7.15, -47.74, 83.17] },
+  },
+  {
+    code: 'EPSG:4269',
+    name: 'NAD83',
+    kind: 'geographic',
+    datum: 'NAD83',
+    unit: 'degree',
+    proj4: '+title=NAD83 (long/lat) +proj=longlat +a=6378137.0 +b=6356752.31414036 +ellps=GRS80 +datum=NAD83 +units=degrees',
+    wkt: geogcs('NAD83', 'North_American_Datum_1983', GRS80_SPHEROID, 'EPSG:4269', '0,0,0,0,0,0,0'),
+    area: { name: 'North America', bbox: [-172.54, 14.92, -47.74, 86.46] },
+  },
+];
+
+/**
+ * WGS 84 / UTM zones 1–60, north (EPSG:326zz) and south (EPSG:327zz)
+ */
+function utmDefinitions(): CrsDefinition[] {
+  const definitions: CrsDefinition[] = [];
+  for (let zone = 1; zone <= 60; zone++) {
+    const west = -180 + (zone - 1) * 6;
+    const east = west + 6;
+    const meridians = [west, east].map(lon => `${Math.abs(lon)}°${lon < 0 ? 'W' : 'E'}`);
+
+    for (const south of [false, true]) {
+      const code = `EPSG:${(south ? 32700 : 32600) + zone}`;
+      const name = `WGS 84 / UTM zone ${zone}${south ? 'S' : 'N'}`;
+      definitions.push({
+        code,
+        name,
+        kind: 'projected',
+        datum: 'WGS84',
+        unit: 'metre',
+        proj4: `+proj=utm +zone=${zone}${south ? ' +south' : ''} +ellps=WGS84 +datum=WGS84 +units=m +no_defs`,
+        wkt: projcs(name, WGS84_WKT, 'Transverse_Mercator', {
+          latitude_of_origin: 0,
+          central_meridian: west + 3,
+          scale_factor: 0.9996,
+          false_easting: 500000,
+          false_northing: south ? 10000000 : 0,
+        }, code),
+        area: {
+          name: `Between ${meridians[0]} and ${meridians[1]}, ${south ? 'southern' : 'northern'} hemisphere`,
+          bbox: south ? [west, -80, east, 0] : [west, 0, east, 84],
+        },
+      });
+    }
+  }
+  return definitions;
+}
+
+/**
+ * Minna / UTM zones 31N–33N (EPSG:26331–26333): the local projected CRSs of
+ * Nigeria and Cameroon, west and east of 12°E
+ */
+function minnaUtmDefinitions(): CrsDefinition[] {
+  const areas: Record<number, AreaOfUse> = {
+    31: { name: 'Nigeria - west of 6°E', bbox: [2.66, 1.65, 6, 13.9] },
+    32: { name: 'Cameroon; Nigeria - between 6°E and 12°E', bbox: [6, 1.65, 12, 13.9] },
+    33: { name: 'Cameroon; Nigeria - east of 12°E', bbox: [12, 1.65, 16.21, 13.9] },
+  };
+  return Object.entries(areas).map(([zone, area]) => {
+    const code = `EPSG:${26300 + Number(zone)}`;
+    const name = `Minna / UTM zone ${zone}N`;
+    return {
+      code,
+      name,
+      kind: 'projected',
+      datum: 'MINNA',
+      unit: 'metre',
+      proj4: `+proj=utm +zone=${zone} +a=6378249.145 +rf=293.465 +units=m +no_defs`,
+      wkt: projcs(name, MINNA_WKT, 'Transverse_Mercator', {
+        latitude_of_origin: 0,
+        central_meridian: Number(zone) * 6 - 183,
+        scale_factor: 0.9996,
+        false_easting: 500000,
+        false_northing: 0,
+      }, code),
+      area,
+    };
+  });
+}
+
+/**
+ * RGF93 / CC42 to CC50 conic conformal zones (EPSG:3942–3950)
+ */
+function conicConformalDefinitions(): CrsDefinition[] {
+  const definitions: CrsDefinition[] = [];
+  for (let latitude = 42; latitude <= 50; latitude++) {
+    const code = `EPSG:${3900 + latitude}`;
+    const name = `RGF93 / CC${latitude}`;
+    const falseNorthing = (latitude - 41) * 1000000 + 200000;
+    definitions.push({
+      code,
+      name,
+      kind: 'projected',
+      datum: 'RGF93',
+      unit: 'metre',
+      proj4: `+proj=lcc +lat_1=${latitude - 0.75} +lat_2=${latitude + 0.75} +lat_0=${latitude} +lon_0=3 ` +
+        `+x_0=1700000 +y_0=${falseNorthing} +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs`,
+      wkt: projcs(name, RGF93_WKT, 'Lambert_Conformal_Conic_2SP', {
+        standard_parallel_1: latitude - 0.75,
+        standard_parallel_2: latitude + 0.75,
+        latitude_of_origin: latitude,
+        central_meridian: 3,
+        false_easting: 1700000,
+        false_northing: falseNorthing,
+      }, code),
+      area: {
+        name: `France - mainland onshore between ${latitude - 1}°N and ${latitude + 1}°N`,
+        bbox: [FRANCE_ONSHORE.bbox[0], Math.max(latitude - 1, FRANCE_ONSHORE.bbox[1]), FRANCE_ONSHORE.bbox[2], Math.min(latitude + 1, FRANCE_ONSHORE.bbox[3])],
+      },
+    });
+  }
+  return definitions;
+}
+
+class EPSGRegistry {
+  private static instance: EPSGRegistry;
+
+  private definitions = new Map<string, CrsDefinition>();
+
+  private constructor() {
+    [...BASE_DEFINITIONS, ...minnaUtmDefinitions(), ...conicConformalDefinitions(), ...utmDefinitions()]
+      .forEach(definition => this.register(definition));
+  }
+
+  static getInstance(): EPSGRegistry {
+    if (!EPSGRegistry.instance) {
+      EPSGRegistry.instance = new EPSGRegistry();
+    }
+    return EPSGRegistry.instance;
+  }
+
+  register(definition: CrsDefinition): void {
+    this.definitions.set(definition.code, definition);
+  }
+
+  get(code: string): CrsDefinition | undefined {
+    return this.definitions.get(code);
+  }
+
+  list(kind?: CrsKind): CrsDefinition[] {
+    return Array.from(this.definitions.values()).filter(definition => !kind || definition.kind === kind);
+  }
+
+  /**
+   * Search by code, name or area of use (every word of the query must match)
+   */
+  search(query: string, options: CrsSearchOptions = {}): CrsDefinition[] {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const { near } = options;
+
+    const matches = this.list(options.kind).filter(definition => {
+      const text = `${definition.code} ${definition.name} ${definition.area.name}`.toLowerCase();
+      return words.every(word => text.includes(word)) && (!near || EPSGRegistry.contains(definition.area, near.lon, near.lat));
+    });
+
+    if (near) {
+      // Most local CRS first, then the one centred closest to the point
+      const offset = ({ bbox: [west, south, east, north] }: AreaOfUse) =>
+        Math.hypot((west + east) / 2 - near.lon, (south + north) / 2 - near.lat);
+      matches.sort((a, b) =>
+        EPSGRegistry.areaSize(a.area) - EPSGRegistry.areaSize(b.area) || offset(a.area) - offset(b.area)
+      );
+    }
+    return options.limit !== undefined ? matches.slice(0, options.limit) : matches;
+  }
+
+  /**
+   * CRSs usable at a WGS84 position, most local first
+   */
+  findByLocation(lon: number, lat: number, kind?: CrsKind): CrsDefinition[] {
+    return this.search('', { kind, near: { lon, lat } });
+  }
+
+  static contains(area: AreaOfUse, lon: number, lat: number): boolean {
+    const [west, south, east, north] = area.bbox;
+    return lon >= west && lon <= east && lat >= south && lat <= north;
+  }
+
+  private static areaSize(area: AreaOfUse): number {
+    const [west, south, east, north] = area.bbox;
+    return (east - west) * (north - south);
+  }
+}
+
+const epsgRegistry = EPSGRegistry.getInstance();
+
+export { EPSGRegistry, epsgRegistry };
+export type { CrsKind, AreaOfUse, CrsDefinition, CrsSearchOptions };
@@ -2,6 +2,26 @@ import { EventEmitter } from 'events';
 import { Buffer } from 'buffer';
 import { GNSSFormatManager } from './GNSSFormatManager';
 import { CoordinateSystemManager } from './CoordinateSystemManager';
+import {
+  RTCMDecoder,
+  RTCMStreamDecoder,
+  type GlonassEphemeris,
+  type RTCMMessage,
+  type RTCMMsmMessage,
+} from '../gnss/RTCMDecoder';
+import type { KeplerianEphemeris } from '../gnss/SatelliteOrbit';
+import type { RinexObservation } from '../gnss/RinexParser';
+import {
+  buildNtripRequest,
+  ChunkedTransferDecoder,
+  concatBytes,
+  parseNtripResponse,
+  parseSourcetable,
+  type NtripResponse,
+  type NtripSourcetable,
+  type NtripStreamRecord
+} from './NtripProtocol';
+import { GNSSProcessor } from './GNSSProcessor';
 
 type CorrectionSource = {
   id: string;
@@ -14,6 +34,8 @@ type CorrectionSource = {
   username?: string;
   password?: string;
   mountpoint?: string;
+  ntripVersion?: 1 | 2; // NTRIP protocol version for NTRIP sources (default 2)
+  nmeaRequired?: boolean; // Mountpoint expects GGA position updates (VRS / network solution)
   country?: string;
   location?: {
     lat: number;
@@ -46,6 +68,36 @@ type CorrectionStats = {
   errors: number;
   lastError?: string;
   messageTypes: Record<number, number>; // messageType -> count
+  crcErrors: number; // RTCM frames rejected by CRC-24Q
+  referenceStation?: {
+    stationId: number;
+    ecef: [number, number, number];
+    antennaHeight?: number;
+    antennaDescriptor?: string;
+    receiverType?: string;
+  };
+  satellites: Record<string, number>; // system -> satellites in the last MSM epoch
+  lastEpochTime: Date | null; // Epoch of the last MSM observations
+  latency?: number; // Reception time - epoch time of the last MSM, in seconds
+};
+
+type MountpointCriteria = {
+  navSystems?: string[]; // Required constellations, e.g. ['GPS', 'GLO']
+  minCarrier?: number; // 1 = L1, 2 = L1+L2
+  maxDistanceKm?: number;
+  allowNetwork?: boolean; // Accept network (VRS) solutions, default true
+};
+
+type NearestMountpoint = {
+  mountpoint: NtripStreamRecord;
+  distance: number; // m
+};
+
+type CorrectionObservations = {
+  sourceId: string;
+  stationId: number;
+  epoch: RinexObservation;
+  messages: RTCMMsmMessage[];
 };
 
 class GNSSCorrectionFetcher extends EventEmitter {
@@ -56,8 +108,21 @@ class GNSSCorrectionFetcher extends EventEmitter {
   private defaultSource: string | null = null;
   private isInitialized = false;
   private reconnectIntervals: Map<string, NodeJS.Timeout> = new Map();
+  private rtcmDecoders: Map<string, RTCMStreamDecoder> = new Map();
+  private socketFactory: ((url: string) => WebSocket) | null = null;
+  private sourcetables: Map<string, NtripSourcetable> = new Map();
+  private roverPosition: { lat: number; lon: number; alt: number } | null = null;
+  private gnssProcessor: GNSSProcessor | null = null;
+  private pendingMsm: Map<string, RTCMMsmMessage[]> = new Map();
+  private ephemerides: Map<string, Map<string, KeplerianEphemeris>> = new Map();
+  private glonassEphemerides: Map<string, Map<string, GlonassEphemeris>> = new Map();
   private readonly MAX_RECONNECT_ATTEMPTS = 5;
   private readonly RECONNECT_DELAY = 5000; // 5 seconds
+  private readonly CONNECT_TIMEOUT = 10000; // 10 seconds for the caster to answer
+  private readonly GGA_INTERVAL = 10000; // GGA updates sent to VRS mountpoints every 10 seconds
+  private static readonly NAV_SYSTEM_ALIASES: Record<string, string> = {
+    GLONASS: 'GLO', GALILEO: 'GAL', BEIDOU: 'BDS', BEI: 'BDS', CMP: 'BDS', QZS: 'QZSS'
+  };
 
   private constructor() {
     super();
@@ -151,6 +216,11 @@ class GNSSCorrectionFetcher extends EventEmitter {
     
     this.sources.delete(id);
     this.stats.delete(id);
+    this.sourcetables.delete(id);
+    this.rtcmDecoders.delete(id);
+    this.pendingMsm.delete(id);
+    this.ephemerides.delete(id);
+    this.glonassEphemerides.delete(id);
     
     // Update default source if needed
     if (this.defaultSource === id) {
@@ -167,6 +237,27 @@ class GNSSCorrectionFetcher extends EventEmitter {
    * Connect to a correction source
    */
   public async connect(sourceId: string): Promise<void> {
+    if (!this.sources.has(sourceId)) {
+      throw new Error(`Source ${sourceId} not found`);
+    }
+    
+    // Clear any existing reconnect attempts
+    this.clearReconnectAttempt(sourceId);
+    
+    try {
+      await this.openConnection(sourceId);
+    } catch (error) {
+      // Schedule reconnection
+      this.scheduleReconnect(sourceId);
+      
+      throw error;
+    }
+  }
+
+  /**
+   * Open the connection to a source, without scheduling reconnection on failure
+   */
+  private async openConnection(sourceId: string): Promise<void> {
     const source = this.sources.get(sourceId);
     if (!source) {
       throw new Error(`Source ${sourceId} not found`);
@@ -174,11 +265,12 @@ class GNSSCorrectionFetcher extends EventEmitter {
     
     // Disconnect if already connected
     if (this.activeConnections.has(sourceId)) {
-      this.disconnect(sourceId);
+      this.closeConnection(sourceId);
     }
     
-    // Clear any existing reconnect attempts
-    this.clearReconnectAttempt(sourceId);
+    // A new stream starts without partial frames
+    this.rtcmDecoders.delete(sourceId);
+    this.pendingMsm.delete(sourceId);
     
     try {
       switch (source.type) {
@@ -212,19 +304,17 @@ class GNSSCorrectionFetcher extends EventEmitter {
       
       // Initialize stats if needed
       if (!this.stats.has(sourceId)) {
-        this.stats.set(sourceId, {
-          bytesReceived: 0,
-          messagesReceived: 0,
-          lastMessageTime: null,
-          uptime: 0,
-          errors: 0,
-          messageTypes: {}
-        });
+        this.stats.set(sourceId, this.createStats());
       }
       
       // Start uptime counter
       this.startUptimeCounter(sourceId);
       
+      // VRS mountpoints need the rover position to compute their corrections
+      if (source.nmeaRequired) {
+        this.startGgaUpdates(sourceId);
+      }
+      
       this.emit('connected', { sourceId });
       
     } catch (error) {
@@ -237,9 +327,6 @@ class GNSSCorrectionFetcher extends EventEmitter {
         error: error instanceof Error ? error.message : String(error)
       });
       
-      // Schedule reconnection
-      this.scheduleReconnect(sourceId);
-      
       throw error;
     }
   }
@@ -248,19 +335,9 @@ class GNSSCorrectionFetcher extends EventEmitter {
    * Disconnect from a correction source
    */
   public disconnect(sourceId: string): void {
-    const connection = this.activeConnections.get(sourceId);
-    if (!connection) return;
+    if (!this.activeConnections.has(sourceId)) return;
     
-    // Clean up based on connection type
-    if (connection instanceof WebSocket) {
-      connection.close();
-    } else if (connection instanceof EventSource) {
-      connection.close();
-    } else if (typeof connection === 'number') {
-      clearInterval(connection);
-    }
-    
-    this.activeConnections.delete(sourceId);
+    this.closeConnection(sourceId);
     this.clearReconnectAttempt(sourceId);
     
     // Update source status
@@ -271,10 +348,190 @@ class GNSSCorrectionFetcher extends EventEmitter {
     
     // Stop uptime counter
     this.stopUptimeCounter(sourceId);
+    this.stopGgaUpdates(sourceId);
     
     this.emit('disconnected', { sourceId });
   }
 
+  /**
+   * Download and parse the sourcetable of a source's caster (STR / CAS / NET records)
+   */
+  public async fetchSourcetable(sourceId: string): Promise<NtripSourcetable> {
+    const source = this.sources.get(sourceId);
+    if (!source) {
+      throw new Error(`Source ${sourceId} not found`);
+    }
+    
+    const url = new URL(source.url);
+    const version = source.ntripVersion ?? 2;
+    const bytes = await new Promise<Uint8Array>((resolve, reject) => {
+      let received: Uint8Array = new Uint8Array(0);
+      let settled = false;
+      let socket: WebSocket | null = null;
+      
+      const finish = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        socket?.close();
+        if (error) reject(error);
+        else resolve(received);
+      };
+      
+      const timeout = setTimeout(() => finish(new Error('NTRIP caster did not answer')), this.CONNECT_TIMEOUT);
+      
+      try {
+        socket = this.createSocket(this.toWebSocketUrl(url, '/'));
+        socket.binaryType = 'arraybuffer';
+        socket.onopen = () => {
+          socket?.send(buildNtripRequest({
+            host: url.host,
+            version,
+            ...(source.requiresAuth && source.username
+              ? { username: source.username, password: source.password }
+              : {})
+          }));
+        };
+        socket.onmessage = (event) => {
+          const chunk = event.data instanceof ArrayBuffer
+            ? new Uint8Array(event.data)
+            : new TextEncoder().encode(String(event.data));
+          received = concatBytes([received, chunk]);
+        };
+        socket.onerror = () => finish(new Error('WebSocket connection error'));
+        // The caster closes the connection once the table is sent
+        socket.onclose = () => finish();
+      } catch (error) {
+        finish(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+    
+    const response = parseNtripResponse(bytes);
+    if (!response || response.kind !== 'sourcetable') {
+      throw new Error(response
+        ? `Caster did not return a sourcetable: ${response.status} ${response.reason}`
+        : 'Empty answer from the caster');
+    }
+    
+    let body = bytes.subarray(response.headerLength);
+    if (response.chunked) {
+      body = new ChunkedTransferDecoder().push(body);
+    }
+    
+    const table = parseSourcetable(new TextDecoder().decode(body));
+    this.sourcetables.set(sourceId, table);
+    this.emit('sourcetable', { sourceId, table });
+    
+    return table;
+  }
+
+  /**
+   * Mountpoints of the last sourcetable fetched for a source
+   */
+  public getMountpoints(sourceId: string): NtripStreamRecord[] {
+    return this.sourcetables.get(sourceId)?.streams || [];
+  }
+
+  /**
+   * Closest RTCM 3 mountpoint compatible with the criteria in the source's sourcetable
+   */
+  public findNearestMountpoint(
+    sourceId: string,
+    lat: number,
+    lon: number,
+    criteria: MountpointCriteria = {}
+  ): NearestMountpoint | null {
+    const required = (criteria.navSystems || []).map(system => this.normalizeNavSystem(system));
+    let nearest: NearestMountpoint | null = null;
+    
+    for (const mountpoint of this.getMountpoints(sourceId)) {
+      // Only RTCM 3 streams can be decoded
+      if (!/RTCM\s*3/i.test(mountpoint.format)) continue;
+      if (criteria.minCarrier && mountpoint.carrier < criteria.minCarrier) continue;
+      if (criteria.allowNetwork === false && (mountpoint.solution === 1 || mountpoint.nmea)) continue;
+      
+      const systems = mountpoint.navSystem.split('+').map(system => this.normalizeNavSystem(system));
+      if (!required.every(system => systems.includes(system))) continue;
+      
+      // Streams without a position cannot be ranked
+      if (mountpoint.latitude === 0 && mountpoint.longitude === 0) continue;
+      
+      const distance = CoordinateSystemManager.calculateDistance(
+        { x: lon, y: lat },
+        { x: mountpoint.longitude, y: mountpoint.latitude },
+        'EPSG:4326'
+      );
+      if (criteria.maxDistanceKm && distance > criteria.maxDistanceKm * 1000) continue;
+      
+      if (!nearest || distance < nearest.distance) {
+        nearest = { mountpoint, distance };
+      }
+    }
+    
+    return nearest;
+  }
+
+  /**
+   * Select the closest compatible mountpoint of a caster from the rover GGA and connect to it
+   */
+  public async connectNearestMountpoint(
+    sourceId: string,
+    gga: string,
+    criteria: MountpointCriteria = {}
+  ): Promise<NtripStreamRecord | null> {
+    if (!this.updateRoverPosition(gga) || !this.roverPosition) {
+      throw new Error('Invalid GGA sentence');
+    }
+    
+    if (!this.sourcetables.has(sourceId)) {
+      await this.fetchSourcetable(sourceId);
+    }
+    
+    const nearest = this.findNearestMountpoint(sourceId, this.roverPosition.lat, this.roverPosition.lon, criteria);
+    if (!nearest) return null;
+    
+    const { mountpoint } = nearest;
+    this.updateSource(sourceId, {
+      mountpoint: mountpoint.mountpoint,
+      nmeaRequired: mountpoint.nmea,
+      location: { lat: mountpoint.latitude, lon: mountpoint.longitude }
+    });
+    
+    await this.connect(sourceId);
+    this.emit('mountpointSelected', { sourceId, mountpoint, distance: nearest.distance });
+    
+    return mountpoint;
+  }
+
+  /**
+   * Update the rover position sent to VRS mountpoints, from a GGA sentence or coordinates
+   */
+  public updateRoverPosition(position: string | { lat: number; lon: number; alt?: number }): boolean {
+    if (typeof position === 'string') {
+      const nmea = GNSSFormatManager.parseNMEA(position.trim());
+      if (!nmea || nmea.type !== 'GGA' || (nmea.fixQuality ?? 0) === 0) return false;
+      this.roverPosition = { lat: nmea.latitude, lon: nmea.longitude, alt: nmea.altitude ?? 0 };
+    } else {
+      this.roverPosition = { lat: position.lat, lon: position.lon, alt: position.alt ?? 0 };
+    }
+    return true;
+  }
+
+  /**
+   * Share the application's GNSS processor for GGA generation
+   */
+  public setGNSSProcessor(processor: GNSSProcessor): void {
+    this.gnssProcessor = processor;
+  }
+
+  /**
+   * Set the socket factory used for NTRIP / RTCM streams, e.g. a local NtripCaster
+   * (null restores the browser WebSocket)
+   */
+  public setSocketFactory(factory: ((url: string) => WebSocket) | null): void {
+    this.socketFactory = factory;
+  }
+
   /**
    * Set the default correction source
    */
@@ -310,12 +567,52 @@ class GNSSCorrectionFetcher extends EventEmitter {
     return this.stats.get(sourceId) || null;
   }
 
+  /**
+   * Get the GPS/Galileo broadcast ephemerides received from a source (1019/1045),
+   * latest per satellite, in the form expected by the position solvers
+   */
+  public getEphemerides(sourceId: string): KeplerianEphemeris[] {
+    return Array.from(this.ephemerides.get(sourceId)?.values() ?? []);
+  }
+
+  /**
+   * Get the GLONASS broadcast ephemerides received from a source (1020)
+   */
+  public getGlonassEphemerides(sourceId: string): GlonassEphemeris[] {
+    return Array.from(this.glonassEphemerides.get(sourceId)?.values() ?? []);
+  }
+
   /**
    * Find the best available correction source based on location
    */
   public findBestSource(lat: number, lon: number, alt?: number): CorrectionSource | null {
-    let bestSource: CorrectionSource | null = null;
-    let bestScore = -Infinity;
+    return this.rankSources(lat, lon, alt)[0] || null;
+  }
+
+  /**
+   * Auto-connect to the best available source, falling back to the next best ones
+   */
+  public async autoConnect(lat: number, lon: number, alt?: number): Promise<string | null> {
+    for (const source of this.rankSources(lat, lon, alt)) {
+      try {
+        await this.connect(source.id);
+        this.setDefaultSource(source.id);
+        return source.id;
+      } catch (error) {
+        console.warn('Failed to connect to best source, trying next best...', error);
+        // The next source is tried right away instead
+        this.clearReconnectAttempt(source.id);
+      }
+    }
+    
+    return null;
+  }
+
+  /**
+   * Sources within range of a location, best score first
+   */
+  private rankSources(lat: number, lon: number, alt?: number): CorrectionSource[] {
+    const ranked: Array<{ source: CorrectionSource; score: number }> = [];
     
     for (const source of this.sources.values()) {
       if (!source.location) continue;
@@ -335,89 +632,126 @@ class GNSSCorrectionFetcher extends EventEmitter {
       // Calculate score based on distance and priority
       const distanceScore = 1 / (1 + distance / 1000); // Convert to km and normalize
       const priorityScore = source.priority / 10; // Normalize priority (assuming max 10)
-      const score = distanceScore * 0.7 + priorityScore * 0.3;
-      
-      if (score > bestScore) {
-        bestScore = score;
-        bestSource = source;
-      }
-    }
-    
-    return bestSource;
-  }
-
-  /**
-   * Auto-connect to the best available source
-   */
-  public async autoConnect(lat: number, lon: number, alt?: number): Promise<string | null> {
-    const bestSource = this.findBestSource(lat, lon, alt);
-    
-    if (bestSource) {
-      try {
-        await this.connect(bestSource.id);
-        this.setDefaultSource(bestSource.id);
-        return bestSource.id;
-      } catch (error) {
-        console.warn('Failed to connect to best source, trying next best...', error);
-        // Try next best source recursively
-        const remainingSources = this.getSources().filter(s => s.id !== bestSource.id);
-        if (remainingSources.length > 0) {
-          return this.autoConnect(lat, lon, alt);
-        }
-      }
+      ranked.push({ source, score: distanceScore * 0.7 + priorityScore * 0.3 });
     }
     
-    return null;
+    return ranked.sort((a, b) => b.score - a.score).map(entry => entry.source);
   }
 
-  private async connectNTRIP(source: CorrectionSource): Promise<void> {
+  private async connectNTRIP(source: CorrectionSource, dataType: 'RTCM' | 'NMEA' = 'RTCM'): Promise<void> {
     if (!source.url) {
       throw new Error('NTRIP source URL is required');
     }
     
     const url = new URL(source.url);
-    const protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
-    const wsUrl = `${protocol}//${url.host}${url.pathname}`;
+    const wsUrl = this.toWebSocketUrl(url, url.pathname);
+    const mountpoint = source.mountpoint ?? url.pathname.replace(/^\//, '');
+    // Direct RTCM / NMEA streams start sending data without an NTRIP request
+    const handshake = source.type === 'NTRIP';
     
     return new Promise((resolve, reject) => {
+      let ws: WebSocket | null = null;
+      let settled = false;
+      let response: NtripResponse | null = null;
+      let header: Uint8Array = new Uint8Array(0);
+      let chunks: ChunkedTransferDecoder | null = null;
+      
+      const succeed = (socket: WebSocket) => {
+        settled = true;
+        clearTimeout(timeout);
+        this.activeConnections.set(source.id, socket);
+        resolve();
+      };
+      
+      const fail = (error: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        ws?.close();
+        reject(error);
+      };
+      
+      const timeout = setTimeout(() => fail(new Error('NTRIP caster did not answer')), this.CONNECT_TIMEOUT);
+      
       try {
-        const ws = new WebSocket(wsUrl);
+        const socket = this.createSocket(wsUrl);
+        ws = socket;
         
-        ws.binaryType = 'arraybuffer';
+        socket.binaryType = 'arraybuffer';
         
-        ws.onopen = () => {
-          // Send NTRIP authentication if needed
-          if (source.requiresAuth && source.username && source.password) {
-            const auth = btoa(`${source.username}:${source.password}`);
-            ws.send(`GET ${url.pathname} HTTP/1.1\r\n`);
-            ws.send(`Authorization: Basic ${auth}\r\n\r\n`);
+        socket.onopen = () => {
+          if (!handshake) {
+            succeed(socket);
+            return;
           }
           
-          this.activeConnections.set(source.id, ws);
-          resolve();
+          // Send the NTRIP request, with credentials if needed
+          socket.send(buildNtripRequest({
+            mountpoint,
+            host: url.host,
+            version: source.ntripVersion ?? 2,
+            gga: source.nmeaRequired ? this.currentGGA() ?? undefined : undefined,
+            ...(source.requiresAuth && source.username
+              ? { username: source.username, password: source.password }
+              : {})
+          }));
         };
         
-        ws.onmessage = (event) => {
-          const data = event.data instanceof ArrayBuffer 
-            ? Buffer.from(event.data)
-            : Buffer.from(event.data);
+        socket.onmessage = (event) => {
+          let bytes: Uint8Array = event.data instanceof ArrayBuffer
+            ? new Uint8Array(event.data)
+            : new TextEncoder().encode(String(event.data));
           
-          this.handleCorrectionData(source.id, data, 'RTCM');
+          if (handshake && !response) {
+            // Wait for the complete response header
+            header = concatBytes([header, bytes]);
+            response = parseNtripResponse(header);
+            if (!response) return;
+            
+            if (response.kind !== 'stream') {
+              fail(new Error(response.kind === 'sourcetable'
+                ? `Mountpoint ${mountpoint} not found on caster`
+                : `NTRIP caster refused the connection: ${response.status} ${response.reason}`));
+              return;
+            }
+            
+            if (response.chunked) chunks = new ChunkedTransferDecoder();
+            bytes = header.subarray(response.headerLength);
+            succeed(socket);
+          }
+          
+          if (chunks) bytes = chunks.push(bytes);
+          if (bytes.length > 0) {
+            this.handleCorrectionData(source.id, Buffer.from(bytes), dataType);
+          }
         };
         
-        ws.onerror = (error) => {
+        socket.onerror = (error) => {
           console.error('WebSocket error:', error);
-          reject(new Error('WebSocket connection error'));
+          fail(new Error('WebSocket connection error'));
         };
         
-        ws.onclose = () => {
-          if (this.activeConnections.get(source.id) === ws) {
+        socket.onclose = () => {
+          if (!settled) {
+            fail(new Error('Connection closed by the caster'));
+            return;
+          }
+          
+          if (this.activeConnections.get(source.id) === socket) {
             this.activeConnections.delete(source.id);
+            this.stopUptimeCounter(source.id);
+            this.stopGgaUpdates(source.id);
+            this.updateSource(source.id, {
+              active: false,
+              lastStatus: 'disconnected'
+            });
+            this.emit('disconnected', { sourceId: source.id });
             this.scheduleReconnect(source.id);
           }
         };
         
       } catch (error) {
+        clearTimeout(timeout);
         reject(error);
       }
     });
@@ -436,7 +770,7 @@ class GNSSCorrectionFetcher extends EventEmitter {
     const url = new URL(source.url);
     
     if (url.protocol === 'ws:' || url.protocol === 'wss:') {
-      return this.connectNTRIP(source); // Reuse WebSocket logic
+      return this.connectNTRIP(source, 'NMEA'); // Reuse WebSocket logic
     }
     
     // For HTTP/HTTPS, use EventSource or polling
@@ -476,6 +810,70 @@ class GNSSCorrectionFetcher extends EventEmitter {
     throw new Error(`Unsupported protocol: ${url.protocol}`);
   }
 
+  private createSocket(url: string): WebSocket {
+    return this.socketFactory ? this.socketFactory(url) : new WebSocket(url);
+  }
+
+  private toWebSocketUrl(url: URL, path: string): string {
+    const protocol = url.protocol === 'https:' || url.protocol === 'wss:' ? 'wss:' : 'ws:';
+    return `${protocol}//${url.host}${path}`;
+  }
+
+  private normalizeNavSystem(system: string): string {
+    const name = system.trim().toUpperCase();
+    return GNSSCorrectionFetcher.NAV_SYSTEM_ALIASES[name] || name;
+  }
+
+  private currentGGA(): string | null {
+    if (!this.roverPosition) return null;
+    
+    if (!this.gnssProcessor) {
+      this.gnssProcessor = new GNSSProcessor();
+    }
+    const { lat, lon, alt } = this.roverPosition;
+    return this.gnssProcessor.generateGGA(lat, lon, alt);
+  }
+
+  private sendGGA(sourceId: string): void {
+    const connection = this.activeConnections.get(sourceId);
+    const gga = this.currentGGA();
+    if (!gga || !connection || !('send' in connection) || connection.readyState !== 1) return;
+    
+    connection.send(gga);
+  }
+
+  private startGgaUpdates(sourceId: string): void {
+    this.stopGgaUpdates(sourceId);
+    
+    const interval = setInterval(() => this.sendGGA(sourceId), this.GGA_INTERVAL) as unknown as NodeJS.Timeout;
+    this.activeConnections.set(`gga_${sourceId}`, interval);
+  }
+
+  private stopGgaUpdates(sourceId: string): void {
+    const interval = this.activeConnections.get(`gga_${sourceId}`);
+    if (interval) {
+      clearInterval(interval as unknown as number);
+      this.activeConnections.delete(`gga_${sourceId}`);
+    }
+  }
+
+  private closeConnection(sourceId: string): void {
+    const connection = this.activeConnections.get(sourceId);
+    if (!connection) return;
+    
+    // Removed first so that the close handler does not schedule a reconnection
+    this.activeConnections.delete(sourceId);
+    
+    // Clean up based on connection type
+    if (typeof connection === 'number') {
+      clearInterval(connection);
+    } else if ('readyState' in connection) {
+      connection.close(); // WebSocket, EventSource or local caster socket
+    } else {
+      clearInterval(connection);
+    }
+  }
+
   private async connectLocal(source: CorrectionSource): Promise<void> {
     // For local connections (e.g., serial port, Bluetooth)
     // This would be implemented based on the platform
@@ -483,24 +881,45 @@ class GNSSCorrectionFetcher extends EventEmitter {
   }
 
   private handleCorrectionData(sourceId: string, data: Buffer, type: 'RTCM' | 'NMEA' | 'CMR' | 'RTCA'): void {
-    const stats = this.stats.get(sourceId) || {
-      bytesReceived: 0,
-      messagesReceived: 0,
-      lastMessageTime: null,
-      uptime: 0,
-      errors: 0,
-      messageTypes: {}
-    };
+    const stats = this.stats.get(sourceId) || this.createStats();
+    const receivedAt = new Date();
     
     // Update stats
     stats.bytesReceived += data.length;
-    stats.messagesReceived++;
-    stats.lastMessageTime = new Date();
+    stats.lastMessageTime = receivedAt;
     
-    // Parse message types (for RTCM)
-    if (type === 'RTCM' && data.length >= 3) {
-      const messageType = (data[1] << 4) | (data[2] >> 4);
-      stats.messageTypes[messageType] = (stats.messageTypes[messageType] || 0) + 1;
+    const messageTypes: number[] = [];
+    let checksumValid: boolean;
+    
+    if (type === 'RTCM') {
+      // Frames may span several chunks: decode through the per-source stream decoder
+      let decoder = this.rtcmDecoders.get(sourceId);
+      if (!decoder) {
+        decoder = new RTCMStreamDecoder();
+        this.rtcmDecoders.set(sourceId, decoder);
+      }
+      const frames = decoder.push(new Uint8Array(data.buffer, data.byteOffset, data.length));
+      
+      checksumValid = frames.every(frame => frame.crcValid);
+      for (const frame of frames) {
+        if (!frame.crcValid) {
+          stats.crcErrors++;
+          continue;
+        }
+        stats.messagesReceived++;
+        stats.messageTypes[frame.type] = (stats.messageTypes[frame.type] || 0) + 1;
+        messageTypes.push(frame.type);
+        
+        if (frame.message) {
+          this.handleRTCMMessage(sourceId, frame.message, stats, receivedAt);
+        } else if (frame.error) {
+          stats.errors++;
+          stats.lastError = frame.error;
+        }
+      }
+    } else {
+      stats.messagesReceived++;
+      checksumValid = this.validateChecksum(data, type);
     }
     
     this.stats.set(sourceId, stats);
@@ -508,33 +927,107 @@ class GNSSCorrectionFetcher extends EventEmitter {
     // Emit the correction data
     const correctionData: CorrectionData = {
       sourceId,
-      timestamp: new Date(),
+      timestamp: receivedAt,
       data,
       type,
-      messageTypes: type === 'RTCM' ? this.parseRTCMessageTypes(data) : [],
+      messageTypes,
       size: data.length,
-      checksumValid: this.validateChecksum(data, type)
+      checksumValid
     };
     
     this.emit('data', correctionData);
   }
 
-  private parseRTCMessageTypes(data: Buffer): number[] {
-    if (data.length < 3) return [];
+  private handleRTCMMessage(sourceId: string, message: RTCMMessage, stats: CorrectionStats, receivedAt: Date): void {
+    switch (message.kind) {
+      case 'station':
+        stats.referenceStation = {
+          ...stats.referenceStation,
+          stationId: message.stationId,
+          ecef: message.ecef,
+          antennaHeight: message.antennaHeight
+        };
+        break;
+        
+      case 'descriptor':
+        if (stats.referenceStation) {
+          stats.referenceStation.antennaDescriptor = message.antennaDescriptor;
+          stats.referenceStation.receiverType = message.receiverType;
+        }
+        break;
+        
+      case 'msm': {
+        stats.satellites[message.system] = message.satellites.length;
+        stats.lastEpochTime = new Date(message.epochTime);
+        stats.latency = (receivedAt.getTime() - message.epochTime) / 1000;
+        
+        // Observations of one epoch are spread over one MSM per constellation
+        const pending = (this.pendingMsm.get(sourceId) || [])
+          .filter(pendingMessage => pendingMessage.epochTime === message.epochTime);
+        pending.push(message);
+        
+        if (message.multipleMessage) {
+          this.pendingMsm.set(sourceId, pending);
+        } else {
+          this.pendingMsm.delete(sourceId);
+          const epoch = RTCMDecoder.toRinexObservation(pending);
+          if (epoch) {
+            const observations: CorrectionObservations = {
+              sourceId,
+              stationId: message.stationId,
+              epoch,
+              messages: pending
+            };
+            this.emit('observations', observations);
+          }
+        }
+        break;
+      }
+        
+      case 'ephemeris': {
+        const store = this.ephemerides.get(sourceId) || new Map<string, KeplerianEphemeris>();
+        store.set(message.ephemeris.satId, message.ephemeris);
+        this.ephemerides.set(sourceId, store);
+        break;
+      }
+        
+      case 'glonassEphemeris': {
+        const store = this.glonassEphemerides.get(sourceId) || new Map<string, GlonassEphemeris>();
+        store.set(message.ephemeris.satId, message.ephemeris);
+        this.glonassEphemerides.set(sourceId, store);
+        break;
+      }
+    }
     
-    const messageType = (data[1] << 4) | (data[2] >> 4);
-    return [messageType];
+    this.emit('rtcm', { sourceId, message });
   }
 
   private validateChecksum(data: Buffer, type: string): boolean {
-    // Implement checksum validation based on message type
-    // This is a simplified version
     if (type === 'NMEA') {
       return GNSSFormatManager.validateNMEAChecksum(data.toString());
     }
     
-    // For RTCM, we'd need to implement the proper CRC-24Q validation
-    return true; // Assume valid for now
+    if (type === 'RTCM') {
+      // Only meaningful for a buffer holding whole frames
+      return RTCMDecoder.decodeAll(new Uint8Array(data)).every(frame => frame.crcValid);
+    }
+    
+    // No checksum verification for CMR / RTCA
+    return true;
+  }
+
+  private createStats(): CorrectionStats {
+    return {
+      bytesReceived: 0,
+      messagesReceived: 0,
+      lastMessageTime: null,
+      uptime: 0,
+      errors: 0,
+      messageTypes: {},
+      crcErrors: 0,
+      satellites: {},
+      lastEpochTime: null
+    };
   }
 
   private handleSourceError(sourceId: string, error: unknown): void {
@@ -576,7 +1069,7 @@ class GNSSCorrectionFetcher extends EventEmitter {
       
       console.log(`Reconnection attempt ${attempts}/${this.MAX_RECONNECT_ATTEMPTS} for ${sourceId}`);
       
-      this.connect(sourceId)
+      this.openConnection(sourceId)
         .then(() => {
           console.log(`Successfully reconnected to ${sourceId}`);
           this.clearReconnectAttempt(sourceId);
@@ -616,6 +1109,8 @@ class GNSSCorrectionFetcher extends EventEmitter {
   }
 
   private startUptimeCounter(sourceId: string): void {
+    this.stopUptimeCounter(sourceId);
+    
     // Update uptime every second
     const interval = setInterval(() => {
       const stats = this.stats.get(sourceId);
@@ -722,4 +1217,11 @@ class GNSSCorrectionFetcher extends EventEmitter {
 // Singleton instance
 export const gnssCorrectionFetcher = GNSSCorrectionFetcher.getInstance();
 
-export type { CorrectionSource, CorrectionData, CorrectionStats };
+export type {
+  CorrectionSource,
+  CorrectionData,
+  CorrectionStats,
+  CorrectionObservations,
+  MountpointCriteria,
+  NearestMountpoint
+};
@@ -1,5 +1,7 @@
 import { CalibrationProfile, calibrationProfiles } from './CalibrationProtocol';
 import type { GNSSData, FusedPosition } from './SensorFusion';
+import { RTCMDecoder, type RTCMMessage } from '../gnss/RTCMDecoder';
+import { geoidRegistry, ELLIPSOIDAL } from './GeoidModel';
 
 /**
  * Interface for parsed NMEA data
@@ -32,6 +34,16 @@ interface RTCMMessageHeader {
   valid: boolean;
 }
 
+/**
+ * Parsed RTCM frame: header, raw payload and decoded message
+ */
+interface RTCMParseResult {
+  header: RTCMMessageHeader;
+  data: DataView;
+  message?: RTCMMessage;
+  error?: string;
+}
+
 /**
  * Interface for GPX track point
  */
@@ -67,6 +79,7 @@ export class GNSSFormatManager {
 
     switch (type) {
       case '$GPGGA': // Global Positioning System Fix Data
+      case '$GNGGA': // Same, multi-constellation receivers
         return this.parseGGA(parts);
       case '$GPRMC': // Recommended Minimum Navigation Information
         return this.parseRMC(parts);
@@ -194,9 +207,11 @@ export class GNSSFormatManager {
   private static nmeaToDecimal(coord: string, direction: string): number {
     if (!coord || !direction) return 0;
 
-    // Extract degrees and minutes
-    const deg = parseFloat(coord.substring(0, 2));
-    const min = parseFloat(coord.substring(2));
+    // Extract degrees and minutes (DDMM.MMMM or DDDMM.MMMM: minutes use the 2 digits before the dot)
+    const dot = coord.indexOf('.');
+    const split = (dot >= 0 ? dot : coord.length) - 2;
+    const deg = parseFloat(coord.substring(0, split)) || 0;
+    const min = parseFloat(coord.substring(split));
     
     // Convert to decimal degrees
     let decimal = deg + min / 60;
@@ -212,43 +227,36 @@ export class GNSSFormatManager {
   /**
    * Parse RTCM (Radio Technical Commission for Maritime Services) message
    */
-  static parseRTCM(data: ArrayBuffer): { header: RTCMMessageHeader; data: DataView } | null {
-    const view = new DataView(data);
+  static parseRTCM(data: ArrayBuffer): RTCMParseResult | null {
+    const bytes = new Uint8Array(data);
     
     // RTCM message format:
     // 8-bit preamble (0xD3)
     // 6-bit reserved (0x00)
     // 10-bit message length (number of bytes following the header, up to 1023)
     // n * 8-bit data bytes
-    // 24-bit CRC
-    
-    // Check minimum length (preamble + reserved + length + crc = 5 bytes)
-    if (view.byteLength < 5) return null;
+    // 24-bit CRC-24Q over preamble, header and data
     
-    // Check preamble
-    if (view.getUint8(0) !== 0xD3) return null;
+    // Check minimum length (preamble + reserved + length + crc = 6 bytes)
+    if (bytes.byteLength < 6) return null;
     
-    // Extract message length (10 bits starting at bit 6)
-    const length = ((view.getUint8(1) & 0x03) << 8) | view.getUint8(2);
+    // Check preamble and frame length
+    const frameLength = RTCMDecoder.frameLength(bytes);
+    if (frameLength === null || bytes.byteLength < frameLength) return null;
     
-    // Verify message length
-    if (view.byteLength < length + 6) return null; // +6 for header and CRC
-    
-    // Extract CRC (last 3 bytes)
-    const crc = (view.getUint8(length + 3) << 16) |
-                (view.getUint8(length + 4) << 8) |
-                view.getUint8(length + 5);
-    
-    // TODO: Implement CRC verification
+    const frame = RTCMDecoder.decodeFrame(bytes);
+    if (!frame) return null;
     
     return {
       header: {
-        type: view.getUint8(3),
-        length,
-        crc,
-        valid: true // TODO: Verify CRC
+        type: frame.type, // 12-bit message number
+        length: frame.length,
+        crc: frame.crc,
+        valid: frame.crcValid
       },
-      data: new DataView(data, 3, length + 3) // Include message type byte in data
+      data: new DataView(data, 3, frame.length), // Message payload, starting with the message number
+      message: frame.message,
+      error: frame.error
     };
   }
 
@@ -369,9 +377,12 @@ export class GNSSFormatManager {
   }
 
   /**
-   * Convert GNSSData to GPX format
+   * Convert GNSSData to GPX format, with elevations in the given vertical datum
    */
-  static toGPX(points: Array<{lat: number; lon: number; alt?: number; time?: Date}>): string {
+  static toGPX(
+    points: Array<{lat: number; lon: number; alt?: number; time?: Date}>,
+    verticalDatum: string = ELLIPSOIDAL
+  ): string {
     const formatTime = (date: Date): string => {
       return date.toISOString();
     };
@@ -380,7 +391,8 @@ export class GNSSFormatManager {
       let gpx = `    <trkpt lat="${point.lat}" lon="${point.lon}">\n`;
       
       if (point.alt !== undefined) {
-        gpx += `      <ele>${point.alt.toFixed(2)}</ele>\n`;
+        const ele = geoidRegistry.convertHeight(point.lat, point.lon, point.alt, ELLIPSOIDAL, verticalDatum);
+        gpx += `      <ele>${ele.toFixed(2)}</ele>\n`;
       }
       
       if (point.time) {
@@ -410,14 +422,19 @@ ${gpxPoints}
   }
 
   /**
-   * Convert GNSSData to GeoJSON format
+   * Convert GNSSData to GeoJSON format, with heights in the given vertical datum
    */
-  static toGeoJSON(points: Array<{lat: number; lon: number; alt?: number; props?: Record<string, any>}>): string {
+  static toGeoJSON(
+    points: Array<{lat: number; lon: number; alt?: number; props?: Record<string, any>}>,
+    verticalDatum: string = ELLIPSOIDAL
+  ): string {
     const features = points.map((point, index) => ({
       type: 'Feature',
       geometry: {
         type: 'Point',
-        coordinates: [point.lon, point.lat, point.alt].filter(coord => coord !== undefined)
+        coordinates: point.alt !== undefined
+          ? [point.lon, point.lat, geoidRegistry.convertHeight(point.lat, point.lon, point.alt, ELLIPSOIDAL, verticalDatum)]
+          : [point.lon, point.lat]
       },
       properties: {
         ...point.props,
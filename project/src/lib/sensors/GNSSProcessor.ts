@@ -195,8 +195,8 @@ export class GNSSProcessor extends EventEmitter {
       : (degrees >= 0 ? 'N' : 'S');
     
     // Format: DDDMM.MMMM for longitude, DDMM.MMMM for latitude
-    const format = isLongitude ? '0000.0000' : '00.0000';
-    const value = (deg * 100 + min).toFixed(4).padStart(9, '0');
+    const format = isLongitude ? '00000.0000' : '0000.0000';
+    const value = (deg * 100 + min).toFixed(4).padStart(format.length, '0');
     
     return `${value},${direction}`;
   }
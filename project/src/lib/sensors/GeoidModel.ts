@@ -0,0 +1,278 @@
+import type { GridFile } from './DatumTransformation';
+
+type GeoidInterpolation = 'bilinear' | 'biquadratic';
+
+/**
+ * Undulation grid. Rows run from south to north and columns from west to
+ * east; node() returns the geoid height above the ellipsoid (m), NaN when
+ * the model has no data there.
+ */
+type GeoidGrid = {
+  name: string;
+  format: 'pgm' | 'gtx';
+  south: number;   // degrees
+  west: number;    // degrees
+  latStep: number; // degrees
+  lonStep: number; // degrees
+  rows: number;
+  cols: number;
+  global: boolean; // Columns wrap around the globe
+  node: (row: number, col: number) => number;
+};
+
+type VerticalDatum = {
+  code: string;
+  name: string;
+  epsg?: string;
+  model?: GeoidGrid;
+};
+
+const ELLIPSOIDAL = 'ELLIPSOIDAL';
+const GTX_NODATA = -88.8888;
+const GTX_HEADER = 40;
+
+/**
+ * Geoid models and the vertical datums they realise.
+ *
+ * Heights handled elsewhere in the app are ellipsoidal; a vertical datum
+ * converts them to orthometric heights once its grid (EGM96/EGM2008 PGM
+ * files from GeographicLib, or national models in NOAA/PROJ GTX format)
+ * has been loaded from disk: H = h − N.
+ */
+class GeoidRegistry {
+  private static instance: GeoidRegistry;
+
+  private datums = new Map<string, VerticalDatum>();
+  private interpolation: GeoidInterpolation = 'bilinear';
+
+  private constructor() {
+    this.registerVerticalDatum({ code: ELLIPSOIDAL, name: 'Ellipsoidal height' });
+    this.registerVerticalDatum({ code: 'EGM96', name: 'EGM96 height', epsg: 'EPSG:5773' });
+    this.registerVerticalDatum({ code: 'EGM2008', name: 'EGM2008 height', epsg: 'EPSG:3855' });
+    this.registerVerticalDatum({ code: 'NGF-IGN69', name: 'NGF-IGN69 height (RAF grid)', epsg: 'EPSG:5720' });
+    this.registerVerticalDatum({ code: 'NAVD88', name: 'NAVD88 height (GEOID grid)', epsg: 'EPSG:5703' });
+  }
+
+  static getInstance(): GeoidRegistry {
+    if (!GeoidRegistry.instance) {
+      GeoidRegistry.instance = new GeoidRegistry();
+    }
+    return GeoidRegistry.instance;
+  }
+
+  registerVerticalDatum(datum: Omit<VerticalDatum, 'model'>): void {
+    this.datums.set(datum.code, { ...this.datums.get(datum.code), ...datum });
+  }
+
+  listVerticalDatums(): Array<Omit<VerticalDatum, 'model'> & { loaded: boolean }> {
+    return Array.from(this.datums.values()).map(({ model, ...datum }) => ({
+      ...datum,
+      loaded: datum.code === ELLIPSOIDAL || model !== undefined,
+    }));
+  }
+
+  /**
+   * Attach a geoid grid to a vertical datum (declaring the datum if needed)
+   */
+  registerModel(datum: string, model: GeoidGrid): void {
+    if (datum === ELLIPSOIDAL) {
+      throw new Error('Ellipsoidal heights do not use a geoid model');
+    }
+    const existing = this.datums.get(datum);
+    this.datums.set(datum, { code: datum, name: existing?.name ?? `${model.name} height`, ...existing, model });
+  }
+
+  /**
+   * Load a geoid grid file (PGM or GTX, detected from its header) for a vertical datum
+   */
+  async loadModel(datum: string, file: GridFile, name?: string): Promise<GeoidGrid> {
+    const buffer = file instanceof ArrayBuffer
+      ? file
+      : ArrayBuffer.isView(file)
+        ? new Uint8Array(file.buffer, file.byteOffset, file.byteLength).slice().buffer
+        : await file.arrayBuffer();
+
+    const header = new Uint8Array(buffer, 0, Math.min(2, buffer.byteLength));
+    const model = header[0] === 0x50 && header[1] === 0x35 // "P5"
+      ? GeoidRegistry.parsePGM(buffer, name ?? datum)
+      : GeoidRegistry.parseGTX(buffer, name ?? datum);
+    this.registerModel(datum, model);
+    return model;
+  }
+
+  hasModel(datum: string): boolean {
+    return datum === ELLIPSOIDAL || this.datums.get(datum)?.model !== undefined;
+  }
+
+  setInterpolation(method: GeoidInterpolation): void {
+    this.interpolation = method;
+  }
+
+  /**
+   * Geoid undulation N (m) of a vertical datum at a WGS84 position
+   */
+  getUndulation(lat: number, lon: number, datum: string, method: GeoidInterpolation = this.interpolation): number {
+    if (datum === ELLIPSOIDAL) return 0;
+
+    const vertical = this.datums.get(datum);
+    if (!vertical) throw new Error(`Vertical datum ${datum} is not registered`);
+    if (!vertical.model) throw new Error(`No geoid model loaded for vertical datum ${datum}`);
+    return GeoidRegistry.interpolate(vertical.model, lat, lon, method);
+  }
+
+  /**
+   * Convert a height between vertical datums (ellipsoidal included)
+   */
+  convertHeight(
+    lat: number,
+    lon: number,
+    height: number,
+    from: string,
+    to: string,
+    method: GeoidInterpolation = this.interpolation
+  ): number {
+    if (from === to) return height;
+    const ellipsoidal = height + this.getUndulation(lat, lon, from, method);
+    return ellipsoidal - this.getUndulation(lat, lon, to, method);
+  }
+
+  /**
+   * Parse a GeographicLib geoid file: 16-bit PGM starting at 90°N, 0°E,
+   * with the "# Offset" and "# Scale" header comments
+   */
+  static parsePGM(buffer: ArrayBuffer, name = 'PGM geoid'): GeoidGrid {
+    const bytes = new Uint8Array(buffer);
+    const tokens: string[] = [];
+    let offset = 0;
+    let scale = 1;
+    let position = 2;
+
+    // Header: width, height and maxval, interleaved with comment lines
+    while (tokens.length < 3 && position < bytes.length) {
+      const char = String.fromCharCode(bytes[position]);
+      if (char === '#') {
+        let end = position;
+        while (end < bytes.length && bytes[end] !== 0x0a) end++;
+        const comment = String.fromCharCode(...bytes.subarray(position + 1, end)).trim();
+        const [key, value] = comment.split(/\s+/);
+        if (key === 'Offset') offset = parseFloat(value);
+        if (key === 'Scale') scale = parseFloat(value);
+        position = end + 1;
+      } else if (/\s/.test(char)) {
+        position++;
+      } else {
+        let end = position;
+        while (end < bytes.length && !/\s/.test(String.fromCharCode(bytes[end]))) end++;
+        tokens.push(String.fromCharCode(...bytes.subarray(position, end)));
+        position = end;
+      }
+    }
+    position++; // Single whitespace before the raster
+
+    const [cols, rows, maxval] = tokens.map(Number);
+    if (!(cols > 0 && rows > 1) || maxval !== 65535 || buffer.byteLength < position + cols * rows * 2) {
+      throw new Error('Not a 16-bit PGM geoid grid');
+    }
+
+    const view = new DataView(buffer, position);
+    return {
+      name,
+      format: 'pgm',
+      south: -90,
+      west: 0,
+      latStep: 180 / (rows - 1),
+      lonStep: 360 / cols,
+      rows,
+      cols,
+      global: true,
+      // The raster runs from the north pole southwards
+      node: (row, col) => offset + scale * view.getUint16(((rows - 1 - row) * cols + col) * 2, false),
+    };
+  }
+
+  /**
+   * Parse a GTX grid (big-endian header and float32 nodes from the south-west corner)
+   */
+  static parseGTX(buffer: ArrayBuffer, name = 'GTX geoid'): GeoidGrid {
+    const view = new DataView(buffer);
+    if (buffer.byteLength < GTX_HEADER) throw new Error('Not a GTX geoid grid');
+
+    const south = view.getFloat64(0, false);
+    const west = view.getFloat64(8, false);
+    const latStep = view.getFloat64(16, false);
+    const lonStep = view.getFloat64(24, false);
+    const rows = view.getInt32(32, false);
+    const cols = view.getInt32(36, false);
+    if (!(rows > 1 && cols > 1 && latStep > 0 && lonStep > 0) || buffer.byteLength < GTX_HEADER + rows * cols * 4) {
+      throw new Error('Not a GTX geoid grid');
+    }
+
+    return {
+      name,
+      format: 'gtx',
+      south,
+      west: west > 180 ? west - 360 : west,
+      latStep,
+      lonStep,
+      rows,
+      cols,
+      global: cols * lonStep >= 360 - 1e-9,
+      node: (row, col) => {
+        const value = view.getFloat32(GTX_HEADER + (row * cols + col) * 4, false);
+        return Math.abs(value - GTX_NODATA) < 1e-3 ? NaN : value;
+      },
+    };
+  }
+
+  private static interpolate(model: GeoidGrid, lat: number, lon: number, method: GeoidInterpolation): number {
+    const y = (lat - model.south) / model.latStep;
+    let x = (lon - model.west) / model.lonStep;
+    if (model.global) {
+      x = ((x % model.cols) + model.cols) % model.cols;
+    } else if (x < -1e-9) {
+      // Regional grids may be referenced to 0–360° longitudes
+      x += 360 / model.lonStep;
+    }
+    if (y < -1e-9 || y > model.rows - 1 + 1e-9 || (!model.global && (x < -1e-9 || x > model.cols - 1 + 1e-9))) {
+      throw new Error(`Position ${lat}, ${lon} is outside geoid model ${model.name}`);
+    }
+
+    const column = (col: number) => (model.global ? ((col % model.cols) + model.cols) % model.cols : col);
+    let value: number;
+
+    if (method === 'biquadratic' && model.rows >= 3 && (model.global || model.cols >= 3)) {
+      // Quadratic Lagrange weights on the 3×3 nodes around the nearest node
+      const row = Math.min(Math.max(Math.round(y), 1), model.rows - 2);
+      const col = model.global ? Math.round(x) : Math.min(Math.max(Math.round(x), 1), model.cols - 2);
+      const weights = (t: number) => [(t * (t - 1)) / 2, 1 - t * t, (t * (t + 1)) / 2];
+      const wy = weights(y - row);
+      const wx = weights(x - col);
+      value = 0;
+      for (let i = 0; i < 3; i++) {
+        for (let j = 0; j < 3; j++) {
+          value += wy[i] * wx[j] * model.node(row + i - 1, column(col + j - 1));
+        }
+      }
+    } else {
+      const row = Math.min(Math.floor(y), model.rows - 2);
+      const col = model.global ? Math.floor(x) : Math.min(Math.floor(x), model.cols - 2);
+      const fy = y - row;
+      const fx = x - col;
+      value =
+        model.node(row, column(col)) * (1 - fx) * (1 - fy) +
+        model.node(row, column(col + 1)) * fx * (1 - fy) +
+        model.node(row + 1, column(col)) * (1 - fx) * fy +
+        model.node(row + 1, column(col + 1)) * fx * fy;
+    }
+
+    if (!isFinite(value)) {
+      throw new Error(`Geoid model ${model.name} has no data at ${lat}, ${lon}`);
+    }
+    return value;
+  }
+}
+
+const geoidRegistry = GeoidRegistry.getInstance();
+
+export { GeoidRegistry, geoidRegistry, ELLIPSOIDAL };
+export type { GeoidInterpolation, GeoidGrid, VerticalDatum };
@@ -148,10 +148,11 @@ export class IMUReader extends EventEmitter {
     const toRad = (deg: number | null) => deg !== null ? deg * (Math.PI / 180) : 0;
     
     const data: IMUData = {
+      // Orientation stays in degrees, as documented on IMUData
       orientation: {
-        alpha: toRad(event.alpha), // z-axis rotation
-        beta: toRad(event.beta ?? 0),   // x-axis rotation
-        gamma: toRad(event.gamma ?? 0),  // y-axis rotation
+        alpha: event.alpha ?? 0, // z-axis rotation
+        beta: event.beta ?? 0,   // x-axis rotation
+        gamma: event.gamma ?? 0,  // y-axis rotation
       },
       acceleration: this.lastData?.acceleration || [0, 0, 0],
       gyroscope: [
@@ -0,0 +1,539 @@
+import * as math from 'mathjs';
+import { CoordinateSystemManager, type Coordinate3D } from './CoordinateSystemManager';
+import type { GNSSData, IMUData } from './SensorFusion';
+
+type Vector3 = [number, number, number];
+type Quaternion = [number, number, number, number]; // [w, x, y, z]
+
+type NavigationEKFConfig = {
+  /** Accelerometer white noise (m/s²/√Hz), also absorbs unmodelled handheld motion */
+  accelNoise: number;
+  /** Gyroscope white noise (rad/s/√Hz) */
+  gyroNoise: number;
+  /** Accelerometer bias random walk (m/s²/√s) */
+  accelBiasNoise: number;
+  /** Gyroscope bias random walk (rad/s/√s) */
+  gyroBiasNoise: number;
+  /** Confidence level of the chi-square gate applied to GNSS innovations */
+  gnssGateProbability: number;
+  /** Consecutive rejected fixes after which the filter re-anchors on GNSS */
+  maxGnssRejections: number;
+};
+
+type NavigationState = {
+  timestamp: number;
+  origin: Coordinate3D;   // Geodetic origin of the local ENU frame [lat, lon, alt]
+  position: Vector3;      // East/North/Up (m)
+  velocity: Vector3;      // East/North/Up (m/s)
+  attitude: Quaternion;   // Body to ENU rotation
+  accelBias: Vector3;     // m/s²
+  gyroBias: Vector3;      // rad/s
+  covariance: number[][]; // 15×15 error-state covariance
+};
+
+type GnssUpdateResult = {
+  accepted: boolean;
+  mahalanobis: number;   // Squared Mahalanobis distance of the innovation
+  threshold: number;     // Chi-square gate for the innovation dimension
+  innovation: number[];  // ENU innovation (m), two components for 2D fixes
+  reset: boolean;        // True when the filter was (re)anchored on this fix
+};
+
+/**
+ * Loosely coupled GNSS/IMU extended Kalman filter.
+ *
+ * The nominal state (position, velocity, attitude, accelerometer and gyro
+ * biases) is propagated with the IMU in a local East/North/Up frame anchored
+ * on the first fix, while a 15-state error covariance tracks its uncertainty.
+ * Body axes follow the W3C device frame: x to the right of the screen, y to
+ * its top, z out of the screen, so a device lying flat with its top pointing
+ * north has the identity attitude.
+ */
+class NavigationEKF {
+  public static readonly DEFAULT_CONFIG: NavigationEKFConfig = {
+    accelNoise: 0.5,
+    gyroNoise: 0.005,
+    accelBiasNoise: 0.001,
+    gyroBiasNoise: 0.00001,
+    gnssGateProbability: 0.999,
+    maxGnssRejections: 5,
+  };
+
+  private static readonly GRAVITY = 9.80665; // m/s²
+  private static readonly STATE_SIZE = 15;
+  private static readonly UNAIDED_ACCEL_NOISE = 1.0; // Pedestrian dynamics without IMU (m/s²/√Hz)
+  private static readonly MAX_IMU_STEP = 1.0; // s
+  private static readonly DEFAULT_GNSS_ACCURACY = 10; // m
+  private static readonly UERE = 5; // User equivalent range error used with HDOP only (m)
+  private static readonly MIN_GNSS_STD = 0.01; // m
+  private static readonly UNKNOWN_ALTITUDE_STD = 100; // m
+  private static readonly INITIAL_STD = {
+    velocity: 1,
+    tilt: 0.1,
+    heading: Math.PI,
+    headingFromCompass: 0.2,
+    accelBias: 0.2,
+    gyroBias: 0.01,
+  };
+
+  private config: NavigationEKFConfig;
+  private state: NavigationState | null = null;
+  private originEcef: Coordinate3D | null = null;
+  private lastImu: IMUData | null = null;
+  private rejectedFixes = 0;
+  // Error-state transition accumulated since the last takeTransition() call;
+  // only tracked once a caller (the smoother) asks for it
+  private transition: number[][] | null = null;
+
+  constructor(config: Partial<NavigationEKFConfig> = {}) {
+    this.config = { ...NavigationEKF.DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Propagate the state with an IMU sample (specific force and angular rate)
+   */
+  public predict(imu: IMUData): void {
+    if (this.state) {
+      const dt = (imu.timestamp - this.state.timestamp) / 1000;
+      if (dt > 0) {
+        // Zero-order hold on the sample; after a sensor gap only grow the covariance
+        this.propagate(dt, dt <= NavigationEKF.MAX_IMU_STEP ? imu : null);
+      }
+    }
+    this.lastImu = imu;
+  }
+
+  /**
+   * Correct the state with a GNSS fix, rejecting it when the innovation
+   * falls outside the chi-square gate
+   */
+  public updateGnss(gnss: GNSSData): GnssUpdateResult {
+    const [sigmaH, sigmaV] = NavigationEKF.measurementStd(gnss);
+    const axes = gnss.altitude !== undefined ? [0, 1, 2] : [0, 1];
+    const threshold = NavigationEKF.chiSquareQuantile(this.config.gnssGateProbability, axes.length);
+
+    if (!this.state) {
+      this.initialize(gnss, sigmaH, sigmaV);
+      return { accepted: true, mahalanobis: 0, threshold, innovation: axes.map(() => 0), reset: true };
+    }
+
+    this.propagateTo(gnss.timestamp);
+
+    const state = this.state;
+    const measured = this.toLocal(gnss.latitude, gnss.longitude, gnss.altitude ?? state.origin[2]);
+    const innovation = axes.map(i => measured[i] - state.position[i]);
+    const variances = axes.map(i => (i < 2 ? sigmaH * sigmaH : sigmaV * sigmaV));
+
+    // H selects the position block, so H·P·Hᵀ and P·Hᵀ are plain sub-matrices of P
+    const P = state.covariance;
+    const PHt = P.map(row => axes.map(i => row[i]));
+    const S = axes.map((i, r) => axes.map((j, c) => P[i][j] + (r === c ? variances[r] : 0)));
+    const Sinv = math.inv(S) as number[][];
+    const mahalanobis = Number(math.multiply(innovation, math.multiply(Sinv, innovation)));
+
+    if (!(mahalanobis <= threshold)) {
+      this.rejectedFixes++;
+      if (this.rejectedFixes < this.config.maxGnssRejections) {
+        return { accepted: false, mahalanobis, threshold, innovation, reset: false };
+      }
+
+      // Persistent disagreement: the filter, not the receiver, has drifted
+      this.reanchor(measured, axes, sigmaH, sigmaV);
+      return { accepted: true, mahalanobis, threshold, innovation, reset: true };
+    }
+    this.rejectedFixes = 0;
+
+    const K = math.multiply(PHt, Sinv) as number[][];
+    const dx = math.multiply(K, innovation) as number[];
+    this.inject(dx);
+
+    // Joseph form keeps the covariance symmetric and positive definite
+    const IKH = NavigationEKF.identity(NavigationEKF.STATE_SIZE);
+    K.forEach((row, r) => axes.forEach((i, c) => {
+      IKH[r][i] -= row[c];
+    }));
+    const R = math.diag(variances) as unknown as number[][];
+    const KRKt = math.multiply(math.multiply(K, R), math.transpose(K)) as number[][];
+    const joseph = math.multiply(math.multiply(IKH, P), math.transpose(IKH)) as number[][];
+    state.covariance = NavigationEKF.symmetrize(math.add(joseph, KRKt) as number[][]);
+
+    return { accepted: true, mahalanobis, threshold, innovation, reset: false };
+  }
+
+  /**
+   * Propagate the state up to a timestamp, holding the last IMU sample if it
+   * is recent enough and assuming constant velocity otherwise
+   */
+  public propagateTo(timestamp: number): void {
+    if (!this.state) return;
+    const dt = (timestamp - this.state.timestamp) / 1000;
+    if (dt <= 0) return;
+    const imuFresh = this.lastImu !== null &&
+      timestamp - this.lastImu.timestamp <= NavigationEKF.MAX_IMU_STEP * 1000;
+    this.propagate(dt, imuFresh ? this.lastImu : null);
+  }
+
+  /**
+   * Get the error-state transition matrix accumulated since the previous
+   * call, and restart the accumulation
+   */
+  public takeTransition(): number[][] {
+    const transition = this.transition ?? NavigationEKF.identity(NavigationEKF.STATE_SIZE);
+    this.transition = NavigationEKF.identity(NavigationEKF.STATE_SIZE);
+    return transition;
+  }
+
+  /**
+   * Whether the filter has been anchored on a first GNSS fix
+   */
+  public isInitialized(): boolean {
+    return this.state !== null;
+  }
+
+  /**
+   * Get a copy of the current filter state
+   */
+  public getState(): NavigationState | null {
+    if (!this.state) return null;
+    return {
+      ...this.state,
+      origin: [...this.state.origin],
+      position: [...this.state.position],
+      velocity: [...this.state.velocity],
+      attitude: [...this.state.attitude],
+      accelBias: [...this.state.accelBias],
+      gyroBias: [...this.state.gyroBias],
+      covariance: this.state.covariance.map(row => [...row]),
+    };
+  }
+
+  /**
+   * Get the estimated position as WGS84 [lat, lon, alt]
+   */
+  public getGeodetic(): Coordinate3D | null {
+    if (!this.state || !this.originEcef) return null;
+    const ecef = CoordinateSystemManager.fromENU(this.state.position, this.originEcef);
+    return CoordinateSystemManager.fromECEF(ecef[0], ecef[1], ecef[2]);
+  }
+
+  /**
+   * Get the 3×3 East/North/Up position covariance (m²)
+   */
+  public getPositionCovariance(): number[][] | null {
+    if (!this.state) return null;
+    return this.state.covariance.slice(0, 3).map(row => row.slice(0, 3));
+  }
+
+  /**
+   * Get the horizontal accuracy (DRMS, m)
+   */
+  public getHorizontalAccuracy(): number | null {
+    if (!this.state) return null;
+    return Math.sqrt(this.state.covariance[0][0] + this.state.covariance[1][1]);
+  }
+
+  /**
+   * Get the attitude as W3C-style Euler angles (radians): pitch about x,
+   * roll about y and yaw about z, counter-clockwise from north
+   */
+  public getEulerAngles(): { pitch: number; roll: number; yaw: number } | null {
+    if (!this.state) return null;
+    const R = NavigationEKF.toRotationMatrix(this.state.attitude);
+    return {
+      pitch: Math.asin(Math.max(-1, Math.min(1, R[2][1]))),
+      roll: Math.atan2(-R[2][0], R[2][2]),
+      yaw: Math.atan2(-R[0][1], R[1][1]),
+    };
+  }
+
+  /**
+   * Number of consecutive GNSS fixes rejected by the gate
+   */
+  public getRejectedFixes(): number {
+    return this.rejectedFixes;
+  }
+
+  /**
+   * Update the noise model
+   */
+  public updateConfig(config: Partial<NavigationEKFConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Drop the state; the next GNSS fix re-initialises the filter
+   */
+  public reset(): void {
+    this.state = null;
+    this.originEcef = null;
+    this.lastImu = null;
+    this.rejectedFixes = 0;
+  }
+
+  private initialize(gnss: GNSSData, sigmaH: number, sigmaV: number): void {
+    const origin: Coordinate3D = [gnss.latitude, gnss.longitude, gnss.altitude ?? 0];
+    this.originEcef = CoordinateSystemManager.toECEF(origin[0], origin[1], origin[2]);
+    this.rejectedFixes = 0;
+
+    const std = NavigationEKF.INITIAL_STD;
+    const heading = this.lastImu?.orientation ? std.headingFromCompass : std.heading;
+    const altitude = gnss.altitude !== undefined ? sigmaV : NavigationEKF.UNKNOWN_ALTITUDE_STD;
+    const diagonal = [
+      sigmaH, sigmaH, altitude,
+      std.velocity, std.velocity, std.velocity,
+      std.tilt, std.tilt, heading,
+      std.accelBias, std.accelBias, std.accelBias,
+      std.gyroBias, std.gyroBias, std.gyroBias,
+    ];
+
+    this.state = {
+      timestamp: gnss.timestamp,
+      origin,
+      position: [0, 0, 0],
+      velocity: [0, 0, 0],
+      attitude: this.lastImu ? NavigationEKF.levelAttitude(this.lastImu) : [1, 0, 0, 0],
+      accelBias: [0, 0, 0],
+      gyroBias: [0, 0, 0],
+      covariance: diagonal.map((s, i) => diagonal.map((_, j) => (i === j ? s * s : 0))),
+    };
+  }
+
+  /**
+   * Move the position onto a fix and forget the position/velocity history,
+   * keeping the attitude and bias estimates
+   */
+  private reanchor(measured: Vector3, axes: number[], sigmaH: number, sigmaV: number): void {
+    const state = this.state!;
+    axes.forEach(i => {
+      state.position[i] = measured[i];
+    });
+    state.velocity = [0, 0, 0];
+
+    const velocity = NavigationEKF.INITIAL_STD.velocity;
+    const reset = [sigmaH * sigmaH, sigmaH * sigmaH, sigmaV * sigmaV, velocity ** 2, velocity ** 2, velocity ** 2];
+    for (let i = 0; i < 6; i++) {
+      if (i === 2 && !axes.includes(2)) continue;
+      for (let j = 0; j < NavigationEKF.STATE_SIZE; j++) {
+        state.covariance[i][j] = 0;
+        state.covariance[j][i] = 0;
+      }
+      state.covariance[i][i] = reset[i];
+    }
+    this.rejectedFixes = 0;
+  }
+
+  private propagate(dt: number, imu: IMUData | null): void {
+    const state = this.state!;
+    const n = NavigationEKF.STATE_SIZE;
+    const F = NavigationEKF.identity(n);
+    const Q = Array.from({ length: n }, () => new Array(n).fill(0));
+    for (let i = 0; i < 3; i++) F[i][3 + i] = dt;
+
+    let accelNoise = this.config.accelNoise;
+    if (imu) {
+      const C = NavigationEKF.toRotationMatrix(state.attitude);
+      const force = NavigationEKF.subtract(imu.acceleration, state.accelBias);
+      const rate = NavigationEKF.subtract(imu.gyroscope, state.gyroBias);
+      const forceNav = NavigationEKF.rotate(C, force);
+      const accel: Vector3 = [forceNav[0], forceNav[1], forceNav[2] - NavigationEKF.GRAVITY];
+
+      for (let i = 0; i < 3; i++) {
+        state.position[i] += state.velocity[i] * dt + 0.5 * accel[i] * dt * dt;
+        state.velocity[i] += accel[i] * dt;
+      }
+      state.attitude = NavigationEKF.normalize(
+        NavigationEKF.multiply(state.attitude, NavigationEKF.fromRotationVector(rate.map(w => w * dt) as Vector3))
+      );
+
+      // δv̇ = -[C·f]× δθ - C δba, δθ̇ = -C δbg
+      const skew = NavigationEKF.skew(forceNav);
+      for (let i = 0; i < 3; i++) {
+        for (let j = 0; j < 3; j++) {
+          F[3 + i][6 + j] = -skew[i][j] * dt;
+          F[3 + i][9 + j] = -C[i][j] * dt;
+          F[6 + i][12 + j] = -C[i][j] * dt;
+        }
+      }
+    } else {
+      // No inertial data: constant velocity with pedestrian-level uncertainty
+      for (let i = 0; i < 3; i++) state.position[i] += state.velocity[i] * dt;
+      accelNoise = Math.max(accelNoise, NavigationEKF.UNAIDED_ACCEL_NOISE);
+    }
+
+    for (let i = 0; i < 3; i++) {
+      Q[3 + i][3 + i] = accelNoise ** 2 * dt;
+      Q[6 + i][6 + i] = this.config.gyroNoise ** 2 * dt;
+      Q[9 + i][9 + i] = this.config.accelBiasNoise ** 2 * dt;
+      Q[12 + i][12 + i] = this.config.gyroBiasNoise ** 2 * dt;
+    }
+
+    if (this.transition) {
+      this.transition = math.multiply(F, this.transition) as number[][];
+    }
+
+    const FPFt = math.multiply(math.multiply(F, state.covariance), math.transpose(F)) as number[][];
+    state.covariance = NavigationEKF.symmetrize(math.add(FPFt, Q) as number[][]);
+    state.timestamp += dt * 1000;
+  }
+
+  /**
+   * Apply an error-state correction to the nominal state
+   */
+  private inject(dx: number[]): void {
+    Object.assign(this.state!, NavigationEKF.applyCorrection(this.state!, dx));
+  }
+
+  /**
+   * Error-state vector taking `from` to `to` (`to = from ⊞ δx`)
+   */
+  public static difference(to: NavigationState, from: NavigationState): number[] {
+    const [w, x, y, z] = from.attitude;
+    const delta = NavigationEKF.multiply(to.attitude, [w, -x, -y, -z]);
+    return [
+      ...to.position.map((value, i) => value - from.position[i]),
+      ...to.velocity.map((value, i) => value - from.velocity[i]),
+      ...NavigationEKF.toRotationVector(delta),
+      ...to.accelBias.map((value, i) => value - from.accelBias[i]),
+      ...to.gyroBias.map((value, i) => value - from.gyroBias[i]),
+    ];
+  }
+
+  /**
+   * Nominal state corrected by an error-state vector (`state ⊞ δx`)
+   */
+  public static applyCorrection(state: NavigationState, dx: number[]): NavigationState {
+    const shift = (v: Vector3, offset: number): Vector3 => [v[0] + dx[offset], v[1] + dx[offset + 1], v[2] + dx[offset + 2]];
+    return {
+      ...state,
+      position: shift(state.position, 0),
+      velocity: shift(state.velocity, 3),
+      attitude: NavigationEKF.normalize(
+        NavigationEKF.multiply(NavigationEKF.fromRotationVector([dx[6], dx[7], dx[8]]), state.attitude)
+      ),
+      accelBias: shift(state.accelBias, 9),
+      gyroBias: shift(state.gyroBias, 12),
+    };
+  }
+
+  private toLocal(lat: number, lon: number, alt: number): Vector3 {
+    const ecef = CoordinateSystemManager.toECEF(lat, lon, alt);
+    return CoordinateSystemManager.toENU(ecef, this.originEcef!);
+  }
+
+  /**
+   * Horizontal (per axis) and vertical standard deviations of a fix
+   */
+  private static measurementStd(gnss: GNSSData): [number, number] {
+    const horizontal = gnss.accuracy ??
+      (gnss.hdop ? gnss.hdop * NavigationEKF.UERE : NavigationEKF.DEFAULT_GNSS_ACCURACY);
+    const vertical = gnss.hdop && gnss.vdop ? (horizontal * gnss.vdop) / gnss.hdop : horizontal * 1.5;
+    return [Math.max(horizontal, NavigationEKF.MIN_GNSS_STD), Math.max(vertical, NavigationEKF.MIN_GNSS_STD)];
+  }
+
+  /**
+   * Roll and pitch from the gravity reaction of a (quasi) static sample, yaw
+   * from the device orientation when available
+   */
+  private static levelAttitude(imu: IMUData): Quaternion {
+    const [fx, fy, fz] = imu.acceleration;
+    const norm = Math.hypot(fx, fy, fz) || NavigationEKF.GRAVITY;
+    const pitch = Math.asin(Math.max(-1, Math.min(1, fy / norm)));
+    const roll = Math.atan2(-fx, fz);
+    const yaw = imu.orientation ? (imu.orientation.alpha * Math.PI) / 180 : 0;
+
+    // Intrinsic Z-X'-Y'' sequence, as for DeviceOrientationEvent
+    return NavigationEKF.normalize(NavigationEKF.multiply(
+      NavigationEKF.multiply([Math.cos(yaw / 2), 0, 0, Math.sin(yaw / 2)], [Math.cos(pitch / 2), Math.sin(pitch / 2), 0, 0]),
+      [Math.cos(roll / 2), 0, Math.sin(roll / 2), 0]
+    ));
+  }
+
+  /**
+   * Inverse chi-square CDF for 1 to 3 degrees of freedom (bisection)
+   */
+  private static chiSquareQuantile(probability: number, dof: number): number {
+    const cdf = (x: number): number => {
+      const root = Math.sqrt(x / 2);
+      if (dof === 1) return math.erf(root);
+      if (dof === 2) return 1 - Math.exp(-x / 2);
+      return math.erf(root) - Math.sqrt((2 * x) / Math.PI) * Math.exp(-x / 2);
+    };
+
+    let low = 0;
+    let high = 100;
+    for (let i = 0; i < 60; i++) {
+      const mid = (low + high) / 2;
+      if (cdf(mid) < probability) low = mid;
+      else high = mid;
+    }
+    return (low + high) / 2;
+  }
+
+  private static multiply(a: Quaternion, b: Quaternion): Quaternion {
+    return [
+      a[0] * b[0] - a[1] * b[1] - a[2] * b[2] - a[3] * b[3],
+      a[0] * b[1] + a[1] * b[0] + a[2] * b[3] - a[3] * b[2],
+      a[0] * b[2] - a[1] * b[3] + a[2] * b[0] + a[3] * b[1],
+      a[0] * b[3] + a[1] * b[2] - a[2] * b[1] + a[3] * b[0],
+    ];
+  }
+
+  private static fromRotationVector(v: Vector3): Quaternion {
+    const angle = Math.hypot(v[0], v[1], v[2]);
+    if (angle < 1e-12) return [1, v[0] / 2, v[1] / 2, v[2] / 2];
+    const s = Math.sin(angle / 2) / angle;
+    return [Math.cos(angle / 2), v[0] * s, v[1] * s, v[2] * s];
+  }
+
+  private static toRotationVector(q: Quaternion): Vector3 {
+    const [w, x, y, z] = q[0] < 0 ? q.map(c => -c) : q;
+    const norm = Math.hypot(x, y, z);
+    if (norm < 1e-12) return [2 * x, 2 * y, 2 * z];
+    const angle = 2 * Math.atan2(norm, w);
+    return [(x * angle) / norm, (y * angle) / norm, (z * angle) / norm];
+  }
+
+  private static normalize(q: Quaternion): Quaternion {
+    const norm = Math.hypot(q[0], q[1], q[2], q[3]);
+    return [q[0] / norm, q[1] / norm, q[2] / norm, q[3] / norm];
+  }
+
+  private static toRotationMatrix([w, x, y, z]: Quaternion): number[][] {
+    return [
+      [1 - 2 * (y * y + z * z), 2 * (x * y - w * z), 2 * (x * z + w * y)],
+      [2 * (x * y + w * z), 1 - 2 * (x * x + z * z), 2 * (y * z - w * x)],
+      [2 * (x * z - w * y), 2 * (y * z + w * x), 1 - 2 * (x * x + y * y)],
+    ];
+  }
+
+  private static rotate(R: number[][], v: Vector3): Vector3 {
+    return [
+      R[0][0] * v[0] + R[0][1] * v[1] + R[0][2] * v[2],
+      R[1][0] * v[0] + R[1][1] * v[1] + R[1][2] * v[2],
+      R[2][0] * v[0] + R[2][1] * v[1] + R[2][2] * v[2],
+    ];
+  }
+
+  private static subtract(a: Vector3, b: Vector3): Vector3 {
+    return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+  }
+
+  private static skew([x, y, z]: Vector3): number[][] {
+    return [
+      [0, -z, y],
+      [z, 0, -x],
+      [-y, x, 0],
+    ];
+  }
+
+  private static identity(n: number): number[][] {
+    return Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+  }
+
+  private static symmetrize(P: number[][]): number[][] {
+    return P.map((row, i) => row.map((value, j) => (value + P[j][i]) / 2));
+  }
+}
+
+export { NavigationEKF };
+export type { NavigationEKFConfig, NavigationState, GnssUpdateResult };
@@ -0,0 +1,458 @@
+import { EventEmitter } from 'events';
+import { RTCMDecoder } from '../gnss/RTCMDecoder';
+import {
+  buildNtripResponse,
+  concatBytes,
+  encodeChunk,
+  formatSourcetable,
+  parseNtripRequest,
+  type NtripRequest,
+  type NtripStreamRecord,
+  type NtripVersion,
+} from './NtripProtocol';
+
+type NtripMountpointConfig = Partial<Omit<NtripStreamRecord, 'mountpoint'>> & {
+  mountpoint: string;
+  data: Uint8Array; // Recorded RTCM stream to replay
+  credentials?: Array<{ username: string; password: string }>;
+  loop?: boolean; // Restart the recording at the end (default true)
+};
+
+type NtripCasterOptions = {
+  host?: string;
+  port?: number;
+  identifier?: string;
+  operator?: string;
+  country?: string;
+  latitude?: number;
+  longitude?: number;
+  chunkInterval?: number; // ms between two replayed epochs
+  latency?: number; // ms before each message reaches the client
+};
+
+type NtripClientInfo = {
+  id: number;
+  mountpoint: string;
+  version: NtripVersion;
+  username?: string;
+  bytesSent: number;
+  chunksSent: number;
+  lastGga?: string;
+};
+
+type MountpointState = {
+  record: NtripStreamRecord;
+  chunks: Uint8Array[];
+  credentials: Array<{ username: string; password: string }>;
+  loop: boolean;
+};
+
+type Session = {
+  socket: NtripMockSocket;
+  buffer: string;
+  info?: NtripClientInfo;
+  timer?: ReturnType<typeof setInterval>;
+  position: number;
+  chunked: boolean;
+};
+
+type MessageListener = ((event: { data: ArrayBuffer | string }) => void) | null;
+type EventListener = ((event: { type: string }) => void) | null;
+type CloseListener = ((event: { code: number; reason: string; wasClean: boolean }) => void) | null;
+
+/**
+ * Client end of an in-process caster connection. Implements the subset of the
+ * WebSocket API used by GNSSCorrectionFetcher.
+ */
+class NtripMockSocket {
+  public static readonly CONNECTING = 0;
+  public static readonly OPEN = 1;
+  public static readonly CLOSING = 2;
+  public static readonly CLOSED = 3;
+
+  public readyState = NtripMockSocket.CONNECTING;
+  public binaryType: 'arraybuffer' | 'blob' = 'blob';
+  public onopen: EventListener = null;
+  public onmessage: MessageListener = null;
+  public onerror: EventListener = null;
+  public onclose: CloseListener = null;
+
+  constructor(
+    public readonly url: string,
+    private readonly caster: NtripCaster,
+    private readonly latency: number
+  ) {}
+
+  public send(data: string | ArrayBuffer | Uint8Array): void {
+    if (this.readyState !== NtripMockSocket.OPEN) {
+      throw new Error('Socket is not open');
+    }
+    const text = typeof data === 'string'
+      ? data
+      : new TextDecoder('latin1').decode(data instanceof Uint8Array ? data : new Uint8Array(data));
+    this.caster.receive(this, text);
+  }
+
+  public close(code: number = 1000, reason: string = ''): void {
+    if (this.readyState === NtripMockSocket.CLOSED || this.readyState === NtripMockSocket.CLOSING) return;
+    this.readyState = NtripMockSocket.CLOSING;
+    this.caster.release(this);
+    this.deliverClose(code, reason, true);
+  }
+
+  /** Caster side: connection accepted */
+  public accept(): void {
+    this.later(() => {
+      if (this.readyState !== NtripMockSocket.CONNECTING) return;
+      this.readyState = NtripMockSocket.OPEN;
+      this.onopen?.({ type: 'open' });
+    });
+  }
+
+  /** Caster side: connection refused */
+  public refuse(): void {
+    this.later(() => {
+      this.readyState = NtripMockSocket.CLOSED;
+      this.onerror?.({ type: 'error' });
+      this.onclose?.({ code: 1006, reason: 'Connection refused', wasClean: false });
+    });
+  }
+
+  /** Caster side: send bytes to the client */
+  public deliver(bytes: Uint8Array): void {
+    if (this.readyState !== NtripMockSocket.OPEN) return;
+    const buffer = bytes.slice().buffer;
+    // Data written before a close still reaches the client
+    this.later(() => {
+      if (this.readyState === NtripMockSocket.CLOSED) return;
+      this.onmessage?.({ data: buffer });
+    });
+  }
+
+  /** Caster side: close the connection */
+  public drop(code: number = 1001, reason: string = 'Caster closed the connection'): void {
+    if (this.readyState === NtripMockSocket.CLOSED) return;
+    this.readyState = NtripMockSocket.CLOSING;
+    this.deliverClose(code, reason, code === 1000);
+  }
+
+  private deliverClose(code: number, reason: string, wasClean: boolean): void {
+    this.later(() => {
+      this.readyState = NtripMockSocket.CLOSED;
+      this.onclose?.({ code, reason, wasClean });
+    });
+  }
+
+  private later(callback: () => void): void {
+    setTimeout(callback, this.latency);
+  }
+}
+
+/**
+ * Local NTRIP 1.0 / 2.0 caster replaying recorded RTCM streams, used as a
+ * stand-in for real casters in tests and offline training sessions.
+ *
+ * Connect the fetcher with `gnssCorrectionFetcher.setSocketFactory(caster.socketFactory)`.
+ */
+class NtripCaster extends EventEmitter {
+  private mountpoints: Map<string, MountpointState> = new Map();
+  private sessions: Map<NtripMockSocket, Session> = new Map();
+  private online = true;
+  private nextClientId = 1;
+  private readonly options: Required<NtripCasterOptions>;
+
+  constructor(options: NtripCasterOptions = {}) {
+    super();
+    this.options = {
+      host: 'localhost',
+      port: 2101,
+      identifier: 'Local caster',
+      operator: 'Local',
+      country: 'FRA',
+      latitude: 0,
+      longitude: 0,
+      chunkInterval: 1000,
+      latency: 0,
+      ...options,
+    };
+  }
+
+  /**
+   * Factory to pass to GNSSCorrectionFetcher.setSocketFactory
+   */
+  public readonly socketFactory = (url: string): WebSocket => this.createSocket(url);
+
+  public createSocket(url: string): WebSocket {
+    const socket = new NtripMockSocket(url, this, this.options.latency);
+    if (this.online) {
+      this.sessions.set(socket, { socket, buffer: '', position: 0, chunked: false });
+      socket.accept();
+    } else {
+      socket.refuse();
+    }
+    return socket as unknown as WebSocket;
+  }
+
+  /**
+   * Publish a recorded RTCM stream under a mountpoint
+   */
+  public addMountpoint(config: NtripMountpointConfig): void {
+    const { data, credentials = [], loop = true, ...fields } = config;
+    const record: NtripStreamRecord = {
+      identifier: config.mountpoint,
+      format: 'RTCM 3.3',
+      formatDetails: '',
+      carrier: 2,
+      navSystem: 'GPS',
+      network: 'LOCAL',
+      country: this.options.country,
+      latitude: this.options.latitude,
+      longitude: this.options.longitude,
+      nmea: false,
+      solution: 0,
+      generator: 'NtripCaster',
+      compression: 'none',
+      authentication: credentials.length ? 'B' : 'N',
+      fee: false,
+      bitrate: 0,
+      ...fields,
+    };
+    const chunks = NtripCaster.splitEpochs(data);
+    if (!record.formatDetails) record.formatDetails = NtripCaster.describeMessages(chunks);
+    if (!record.bitrate && chunks.length > 0) {
+      record.bitrate = Math.round((data.length * 8 * 1000) / (chunks.length * this.options.chunkInterval));
+    }
+    this.mountpoints.set(config.mountpoint, { record, chunks, credentials, loop });
+  }
+
+  public removeMountpoint(mountpoint: string): boolean {
+    for (const session of this.sessions.values()) {
+      if (session.info?.mountpoint === mountpoint) this.endSession(session);
+    }
+    return this.mountpoints.delete(mountpoint);
+  }
+
+  public getSourcetable(): string {
+    return formatSourcetable({
+      casters: [{
+        host: this.options.host,
+        port: this.options.port,
+        identifier: this.options.identifier,
+        operator: this.options.operator,
+        nmea: Array.from(this.mountpoints.values()).some(m => m.record.nmea),
+        country: this.options.country,
+        latitude: this.options.latitude,
+        longitude: this.options.longitude,
+      }],
+      streams: Array.from(this.mountpoints.values()).map(m => m.record),
+    });
+  }
+
+  public getClients(): NtripClientInfo[] {
+    return Array.from(this.sessions.values())
+      .filter(session => session.info)
+      .map(session => ({ ...session.info! }));
+  }
+
+  /**
+   * Take the caster offline (refuse new connections and drop current clients) or back online
+   */
+  public setOnline(online: boolean): void {
+    this.online = online;
+    if (!online) this.dropConnections();
+  }
+
+  /**
+   * Drop every client connection, as a caster restart would
+   */
+  public dropConnections(): void {
+    for (const session of Array.from(this.sessions.values())) {
+      this.endSession(session);
+    }
+  }
+
+  public close(): void {
+    this.setOnline(false);
+    this.mountpoints.clear();
+    this.removeAllListeners();
+  }
+
+  /** @internal Data written by a client socket */
+  public receive(socket: NtripMockSocket, text: string): void {
+    const session = this.sessions.get(socket);
+    if (!session) return;
+
+    // Once streaming, clients only send NMEA GGA updates
+    if (session.info) {
+      const gga = text.split(/\r?\n/).find(line => /^\$..GGA/.test(line));
+      if (gga) {
+        session.info.lastGga = gga;
+        this.emit('gga', { clientId: session.info.id, mountpoint: session.info.mountpoint, gga });
+      }
+      return;
+    }
+
+    session.buffer += text;
+    const request = parseNtripRequest(session.buffer);
+    if (request) this.handleRequest(session, request);
+  }
+
+  /** @internal Client socket closed */
+  public release(socket: NtripMockSocket): void {
+    const session = this.sessions.get(socket);
+    if (!session) return;
+    if (session.timer) clearInterval(session.timer);
+    this.sessions.delete(socket);
+    if (session.info) this.emit('clientDisconnected', { ...session.info });
+  }
+
+  private handleRequest(session: Session, request: NtripRequest): void {
+    this.emit('request', request);
+    const name = decodeURIComponent(request.path.replace(/^\//, '').split('?')[0]);
+    const mountpoint = this.mountpoints.get(name);
+
+    if (request.method !== 'GET') {
+      this.reply(session, buildNtripResponse(request.version, 405, 'Method Not Allowed'));
+      this.endSession(session);
+      return;
+    }
+
+    if (!mountpoint) {
+      this.sendSourcetable(session, request.version);
+      return;
+    }
+
+    const { credentials } = mountpoint;
+    if (credentials.length > 0 && !credentials.some(
+      c => c.username === request.username && c.password === request.password
+    )) {
+      this.reply(session, buildNtripResponse(request.version, 401, 'Unauthorized', {
+        'WWW-Authenticate': `Basic realm="/${name}"`,
+        'Content-Length': '0',
+      }));
+      this.endSession(session);
+      return;
+    }
+
+    session.chunked = request.version === 2;
+    session.info = {
+      id: this.nextClientId++,
+      mountpoint: name,
+      version: request.version,
+      username: request.username,
+      bytesSent: 0,
+      chunksSent: 0,
+      lastGga: request.gga,
+    };
+
+    this.reply(session, request.version === 2
+      ? buildNtripResponse(2, 200, 'OK', {
+        'Content-Type': 'gnss/data',
+        'Transfer-Encoding': 'chunked',
+        'Cache-Control': 'no-store, no-cache, max-age=0',
+      })
+      : buildNtripResponse(1, 200, 'OK'));
+    this.emit('clientConnected', { ...session.info });
+    if (request.gga) {
+      this.emit('gga', { clientId: session.info.id, mountpoint: name, gga: request.gga });
+    }
+
+    session.timer = setInterval(() => this.streamNext(session, mountpoint), this.options.chunkInterval);
+  }
+
+  private streamNext(session: Session, mountpoint: MountpointState): void {
+    const { chunks, loop } = mountpoint;
+    if (chunks.length === 0) return;
+
+    if (session.position >= chunks.length) {
+      if (!loop) {
+        if (session.chunked) session.socket.deliver(new TextEncoder().encode('0\r\n\r\n'));
+        this.endSession(session, 1000, 'End of recording');
+        return;
+      }
+      session.position = 0;
+    }
+
+    const chunk = chunks[session.position++];
+    session.socket.deliver(session.chunked ? encodeChunk(chunk) : chunk);
+    session.info!.bytesSent += chunk.length;
+    session.info!.chunksSent++;
+  }
+
+  private sendSourcetable(session: Session, version: NtripVersion): void {
+    const body = this.getSourcetable();
+    const header = version === 2
+      ? buildNtripResponse(2, 200, 'OK', {
+        'Content-Type': 'gnss/sourcetable',
+        'Content-Length': String(body.length),
+      })
+      : `SOURCETABLE 200 OK\r\nServer: NTRIP ${this.options.identifier}\r\nContent-Type: text/plain\r\nContent-Length: ${body.length}\r\n\r\n`;
+    this.reply(session, header + body);
+    this.endSession(session, 1000, 'Sourcetable sent');
+  }
+
+  private reply(session: Session, text: string): void {
+    session.socket.deliver(new TextEncoder().encode(text));
+  }
+
+  private endSession(session: Session, code?: number, reason?: string): void {
+    this.release(session.socket);
+    session.socket.drop(code, reason);
+  }
+
+  /**
+   * Split a recording into the chunks sent at each interval: one epoch of MSM
+   * observations with the station / ephemeris messages preceding it.
+   */
+  private static splitEpochs(data: Uint8Array): Uint8Array[] {
+    const chunks: Uint8Array[] = [];
+    let pending: Uint8Array[] = [];
+    let offset = 0;
+
+    while (offset < data.length) {
+      const total = RTCMDecoder.frameLength(data, offset);
+      if (total === null || offset + total > data.length) {
+        offset++;
+        continue;
+      }
+      const bytes = data.subarray(offset, offset + total);
+      pending.push(bytes);
+      offset += total;
+
+      const message = RTCMDecoder.decodeFrame(bytes)?.message;
+      if (message?.kind === 'msm' && !message.multipleMessage) {
+        chunks.push(concatBytes(pending));
+        pending = [];
+      }
+    }
+
+    if (pending.length > 0) {
+      // No MSM epochs (or trailing messages): one frame per interval
+      chunks.push(...pending);
+    }
+    if (chunks.length === 0 && data.length > 0) {
+      // Not RTCM 3: replay as fixed-size blocks
+      for (let i = 0; i < data.length; i += 512) chunks.push(data.subarray(i, i + 512));
+    }
+    return chunks;
+  }
+
+  /**
+   * Sourcetable format details: message types with their average interval, e.g. '1005(10),1077(1)'
+   */
+  private static describeMessages(chunks: Uint8Array[]): string {
+    const counts = new Map<number, number>();
+    for (const chunk of chunks) {
+      for (const frame of RTCMDecoder.decodeAll(chunk)) {
+        if (frame.crcValid) counts.set(frame.type, (counts.get(frame.type) ?? 0) + 1);
+      }
+    }
+    return Array.from(counts.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([type, count]) => `${type}(${Math.max(1, Math.round(chunks.length / count))})`)
+      .join(',');
+  }
+}
+
+export { NtripCaster, NtripMockSocket };
+export type { NtripMountpointConfig, NtripCasterOptions, NtripClientInfo };
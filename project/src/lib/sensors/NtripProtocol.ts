@@ -0,0 +1,432 @@
+/**
+ * NTRIP 1.0 / 2.0 wire format helpers shared by the correction fetcher and the
+ * local caster: requests, response headers, chunked transfer coding and sourcetables.
+ */
+
+type NtripVersion = 1 | 2;
+
+type NtripRequest = {
+  method: string;
+  path: string;
+  version: NtripVersion;
+  headers: Record<string, string>; // Lower-case header names
+  username?: string;
+  password?: string;
+  gga?: string; // NMEA GGA sent with the request (Ntrip-GGA header or request body)
+};
+
+type NtripResponse = {
+  status: number;
+  reason: string;
+  version: NtripVersion;
+  kind: 'stream' | 'sourcetable' | 'error';
+  headers: Record<string, string>;
+  chunked: boolean;
+  headerLength: number; // Bytes used by the status line and headers
+};
+
+/**
+ * STR record: one data stream (mountpoint)
+ */
+type NtripStreamRecord = {
+  mountpoint: string;
+  identifier: string;
+  format: string;
+  formatDetails: string;
+  carrier: number; // 0 = none, 1 = L1, 2 = L1+L2
+  navSystem: string; // e.g. 'GPS+GLO+GAL+BDS'
+  network: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  nmea: boolean; // Client must send GGA (VRS)
+  solution: 0 | 1; // 0 = single base, 1 = network
+  generator: string;
+  compression: string;
+  authentication: 'N' | 'B' | 'D';
+  fee: boolean;
+  bitrate: number;
+  misc?: string;
+};
+
+/**
+ * CAS record: caster description
+ */
+type NtripCasterRecord = {
+  host: string;
+  port: number;
+  identifier: string;
+  operator: string;
+  nmea: boolean;
+  country: string;
+  latitude: number;
+  longitude: number;
+  fallbackHost?: string;
+  fallbackPort?: number;
+  misc?: string;
+};
+
+/**
+ * NET record: network of streams
+ */
+type NtripNetworkRecord = {
+  identifier: string;
+  operator: string;
+  authentication: 'N' | 'B' | 'D';
+  fee: boolean;
+  webNetwork?: string;
+  webStream?: string;
+  webRegistration?: string;
+  misc?: string;
+};
+
+type NtripSourcetable = {
+  streams: NtripStreamRecord[];
+  casters: NtripCasterRecord[];
+  networks: NtripNetworkRecord[];
+};
+
+const HEADER_END = '\r\n\r\n';
+const DEFAULT_USER_AGENT = 'NTRIP GeoSurveyClient/1.0';
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder('latin1');
+
+/**
+ * Build a client request for a mountpoint (or '/' for the sourcetable)
+ */
+export function buildNtripRequest(options: {
+  mountpoint?: string;
+  host: string;
+  version?: NtripVersion;
+  username?: string;
+  password?: string;
+  gga?: string;
+  userAgent?: string;
+}): string {
+  const version = options.version ?? 2;
+  const path = `/${options.mountpoint ?? ''}`;
+  const lines = [
+    `GET ${path} HTTP/${version === 2 ? '1.1' : '1.0'}`,
+    `Host: ${options.host}`,
+    `User-Agent: ${options.userAgent ?? DEFAULT_USER_AGENT}`,
+  ];
+
+  if (version === 2) {
+    lines.push('Ntrip-Version: Ntrip/2.0');
+    if (options.gga) lines.push(`Ntrip-GGA: ${options.gga.trim()}`);
+  }
+  if (options.username !== undefined) {
+    lines.push(`Authorization: Basic ${btoa(`${options.username}:${options.password ?? ''}`)}`);
+  }
+  lines.push('Connection: close');
+
+  let request = lines.join('\r\n') + HEADER_END;
+  // NTRIP 1.0 clients send the GGA sentence right after the request
+  if (version === 1 && options.gga) request += `${options.gga.trim()}\r\n`;
+  return request;
+}
+
+/**
+ * Parse a client request (caster side). Returns null until the header is complete.
+ */
+export function parseNtripRequest(text: string): NtripRequest | null {
+  const end = text.indexOf(HEADER_END);
+  if (end < 0) return null;
+
+  const [requestLine, ...headerLines] = text.slice(0, end).split('\r\n');
+  const [method = '', path = '/'] = requestLine.split(' ');
+  const headers = parseHeaderLines(headerLines);
+  const version: NtripVersion = /ntrip\/2/i.test(headers['ntrip-version'] ?? '') ? 2 : 1;
+
+  const request: NtripRequest = { method, path, version, headers };
+
+  const authorization = headers['authorization'];
+  if (authorization?.toLowerCase().startsWith('basic ')) {
+    try {
+      const decoded = atob(authorization.slice(6).trim());
+      const separator = decoded.indexOf(':');
+      request.username = separator >= 0 ? decoded.slice(0, separator) : decoded;
+      request.password = separator >= 0 ? decoded.slice(separator + 1) : '';
+    } catch {
+      // Malformed credentials are treated as missing
+    }
+  }
+
+  const body = text.slice(end + HEADER_END.length).trim();
+  request.gga = headers['ntrip-gga'] ?? (body.startsWith('$') ? body.split('\r\n')[0] : undefined);
+  return request;
+}
+
+/**
+ * Parse the caster response header at the start of a stream. Returns null until
+ * the header is complete; returns a zero-length 'stream' response when the data
+ * starts directly with binary content (raw RTCM relay without NTRIP header).
+ */
+export function parseNtripResponse(bytes: Uint8Array): NtripResponse | null {
+  if (bytes.length === 0) return null;
+  if (bytes[0] === 0xd3) {
+    return { status: 200, reason: 'OK', version: 1, kind: 'stream', headers: {}, chunked: false, headerLength: 0 };
+  }
+
+  const text = textDecoder.decode(bytes.subarray(0, Math.min(bytes.length, 4096)));
+  const end = text.indexOf(HEADER_END);
+  if (end < 0) {
+    // NTRIP 1.0 'ICY 200 OK' may be followed by a single CRLF only
+    const icy = text.match(/^ICY 200 OK\r\n/);
+    if (icy && bytes.length > icy[0].length && bytes[icy[0].length] === 0xd3) {
+      return { status: 200, reason: 'OK', version: 1, kind: 'stream', headers: {}, chunked: false, headerLength: icy[0].length };
+    }
+    return null;
+  }
+
+  const [statusLine, ...headerLines] = text.slice(0, end).split('\r\n');
+  const headers = parseHeaderLines(headerLines);
+  const headerLength = end + HEADER_END.length;
+  const match = statusLine.match(/^(\S+)\s+(\d{3})\s*(.*)$/);
+  if (!match) {
+    return { status: 0, reason: statusLine, version: 1, kind: 'error', headers, chunked: false, headerLength };
+  }
+
+  const [, protocol, statusText, reason] = match;
+  const status = parseInt(statusText, 10);
+  const version: NtripVersion = protocol === 'HTTP/1.1' && /ntrip\/2/i.test(headers['ntrip-version'] ?? '') ? 2 : 1;
+  const sourcetable = protocol === 'SOURCETABLE' || (headers['content-type'] ?? '').includes('gnss/sourcetable');
+
+  return {
+    status,
+    reason,
+    version,
+    kind: status !== 200 ? 'error' : sourcetable ? 'sourcetable' : 'stream',
+    headers,
+    chunked: (headers['transfer-encoding'] ?? '').toLowerCase() === 'chunked',
+    headerLength,
+  };
+}
+
+/**
+ * Build a caster response header
+ */
+export function buildNtripResponse(
+  version: NtripVersion,
+  status: number,
+  reason: string,
+  headers: Record<string, string> = {}
+): string {
+  if (version === 1 && status === 200 && !headers['Content-Type']) {
+    return 'ICY 200 OK\r\n\r\n';
+  }
+  const lines = [`HTTP/${version === 2 ? '1.1' : '1.0'} ${status} ${reason}`];
+  if (version === 2) lines.push('Ntrip-Version: Ntrip/2.0');
+  for (const [name, value] of Object.entries(headers)) lines.push(`${name}: ${value}`);
+  return lines.join('\r\n') + HEADER_END;
+}
+
+/**
+ * Encode one chunk of the HTTP/1.1 chunked transfer coding
+ */
+export function encodeChunk(data: Uint8Array): Uint8Array {
+  const head = textEncoder.encode(`${data.length.toString(16).toUpperCase()}\r\n`);
+  const chunk = new Uint8Array(head.length + data.length + 2);
+  chunk.set(head);
+  chunk.set(data, head.length);
+  chunk.set([0x0d, 0x0a], head.length + data.length);
+  return chunk;
+}
+
+/**
+ * Incremental decoder for the HTTP/1.1 chunked transfer coding (NTRIP 2.0 streams)
+ */
+export class ChunkedTransferDecoder {
+  private buffer = new Uint8Array(0);
+  private finished = false;
+
+  public push(data: Uint8Array): Uint8Array {
+    const merged = new Uint8Array(this.buffer.length + data.length);
+    merged.set(this.buffer);
+    merged.set(data, this.buffer.length);
+
+    const parts: Uint8Array[] = [];
+    let offset = 0;
+
+    while (!this.finished) {
+      const lineEnd = indexOfCrlf(merged, offset);
+      if (lineEnd < 0) break;
+
+      const sizeText = textDecoder.decode(merged.subarray(offset, lineEnd)).split(';')[0].trim();
+      const size = parseInt(sizeText, 16);
+      if (isNaN(size)) {
+        throw new Error(`Invalid chunk size: ${sizeText}`);
+      }
+      if (size === 0) {
+        this.finished = true;
+        offset = merged.length;
+        break;
+      }
+
+      const start = lineEnd + 2;
+      if (merged.length < start + size + 2) break;
+      parts.push(merged.subarray(start, start + size));
+      offset = start + size + 2;
+    }
+
+    this.buffer = merged.slice(offset);
+    return concatBytes(parts);
+  }
+
+  public isFinished(): boolean {
+    return this.finished;
+  }
+}
+
+/**
+ * Format a sourcetable body (records followed by ENDSOURCETABLE)
+ */
+export function formatSourcetable(table: Partial<NtripSourcetable>): string {
+  const flag = (value: boolean) => (value ? '1' : '0');
+  const coordinate = (value: number) => value.toFixed(2);
+  const lines: string[] = [];
+
+  for (const cas of table.casters ?? []) {
+    lines.push([
+      'CAS', cas.host, cas.port, cas.identifier, cas.operator, flag(cas.nmea), cas.country,
+      coordinate(cas.latitude), coordinate(cas.longitude), cas.fallbackHost ?? '0.0.0.0', cas.fallbackPort ?? 0,
+      cas.misc ?? 'none',
+    ].join(';'));
+  }
+  for (const net of table.networks ?? []) {
+    lines.push([
+      'NET', net.identifier, net.operator, net.authentication, net.fee ? 'Y' : 'N',
+      net.webNetwork ?? 'none', net.webStream ?? 'none', net.webRegistration ?? 'none', net.misc ?? 'none',
+    ].join(';'));
+  }
+  for (const str of table.streams ?? []) {
+    lines.push([
+      'STR', str.mountpoint, str.identifier, str.format, str.formatDetails, str.carrier, str.navSystem,
+      str.network, str.country, coordinate(str.latitude), coordinate(str.longitude), flag(str.nmea),
+      str.solution, str.generator, str.compression, str.authentication, str.fee ? 'Y' : 'N', str.bitrate,
+      str.misc ?? 'none',
+    ].join(';'));
+  }
+
+  lines.push('ENDSOURCETABLE');
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse a sourcetable body. Unknown record types and malformed lines are skipped.
+ */
+export function parseSourcetable(text: string): NtripSourcetable {
+  const table: NtripSourcetable = { streams: [], casters: [], networks: [] };
+  const number = (value: string | undefined) => {
+    const parsed = parseFloat(value ?? '');
+    return isNaN(parsed) ? 0 : parsed;
+  };
+  const optional = (value: string | undefined) => (value && value !== 'none' ? value : undefined);
+  const authentication = (value: string | undefined): 'N' | 'B' | 'D' =>
+    value === 'B' || value === 'D' ? value : 'N';
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === 'ENDSOURCETABLE') break;
+    const fields = line.split(';');
+
+    switch (fields[0]) {
+      case 'STR':
+        if (fields.length < 12 || !fields[1]) continue;
+        table.streams.push({
+          mountpoint: fields[1],
+          identifier: fields[2] ?? '',
+          format: fields[3] ?? '',
+          formatDetails: fields[4] ?? '',
+          carrier: number(fields[5]),
+          navSystem: fields[6] ?? '',
+          network: fields[7] ?? '',
+          country: fields[8] ?? '',
+          latitude: number(fields[9]),
+          longitude: number(fields[10]),
+          nmea: fields[11] === '1',
+          solution: fields[12] === '1' ? 1 : 0,
+          generator: fields[13] ?? '',
+          compression: fields[14] ?? '',
+          authentication: authentication(fields[15]),
+          fee: fields[16] === 'Y',
+          bitrate: number(fields[17]),
+          // Free text may itself contain ';'
+          misc: optional(fields.slice(18).join(';')),
+        });
+        break;
+
+      case 'CAS':
+        if (fields.length < 9) continue;
+        table.casters.push({
+          host: fields[1],
+          port: number(fields[2]),
+          identifier: fields[3] ?? '',
+          operator: fields[4] ?? '',
+          nmea: fields[5] === '1',
+          country: fields[6] ?? '',
+          latitude: number(fields[7]),
+          longitude: number(fields[8]),
+          fallbackHost: fields[9] && fields[9] !== '0.0.0.0' ? fields[9] : undefined,
+          fallbackPort: number(fields[10]) || undefined,
+          misc: optional(fields.slice(11).join(';')),
+        });
+        break;
+
+      case 'NET':
+        if (fields.length < 5) continue;
+        table.networks.push({
+          identifier: fields[1],
+          operator: fields[2] ?? '',
+          authentication: authentication(fields[3]),
+          fee: fields[4] === 'Y',
+          webNetwork: optional(fields[5]),
+          webStream: optional(fields[6]),
+          webRegistration: optional(fields[7]),
+          misc: optional(fields.slice(8).join(';')),
+        });
+        break;
+    }
+  }
+
+  return table;
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const length = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function parseHeaderLines(lines: string[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+  }
+  return headers;
+}
+
+function indexOfCrlf(bytes: Uint8Array, from: number): number {
+  for (let i = from; i < bytes.length - 1; i++) {
+    if (bytes[i] === 0x0d && bytes[i + 1] === 0x0a) return i;
+  }
+  return -1;
+}
+
+export type {
+  NtripVersion,
+  NtripRequest,
+  NtripResponse,
+  NtripStreamRecord,
+  NtripCasterRecord,
+  NtripNetworkRecord,
+  NtripSourcetable,
+};
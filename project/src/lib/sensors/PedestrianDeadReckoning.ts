@@ -0,0 +1,364 @@
+import { EventEmitter } from 'events';
+import { CoordinateSystemManager, type Coordinate3D } from './CoordinateSystemManager';
+import type { IMUData } from './SensorFusion';
+
+type PedestrianDeadReckoningConfig = {
+  /** Peak of the filtered acceleration magnitude above gravity that counts as a step (m/s²) */
+  stepThreshold: number;
+  /** Shortest accepted interval between two steps (ms) */
+  minStepInterval: number;
+  /** Weinberg coefficient K in L = K · (aMax - aMin)^¼ */
+  stepLengthCoefficient: number;
+  /** Relative standard deviation of the step length (0-1) */
+  stepLengthStd: number;
+  /** Gyroscope white noise driving the heading random walk (rad/s/√Hz) */
+  gyroNoise: number;
+  /** Standard deviation of a magnetometer heading (radians) */
+  magnetometerStd: number;
+  /** Magnetic declination added to magnetometer headings (degrees, east positive) */
+  declination: number;
+};
+
+type PdrPosition = {
+  lat: number;
+  lon: number;
+  alt?: number;
+};
+
+type PdrStep = {
+  timestamp: number;
+  length: number;   // m
+  heading: number;  // Degrees clockwise from true north
+  position: PdrPosition;
+  drift: number;    // Radial 1-sigma uncertainty (m)
+};
+
+type PdrState = {
+  anchored: boolean;
+  position: PdrPosition | null;
+  offset: [number, number];   // East/North displacement since the anchor (m)
+  covariance: number[][];     // East/North position covariance (m²)
+  heading: number | null;     // Degrees clockwise from true north
+  headingStd: number;         // Degrees
+  steps: number;              // Steps since the anchor
+  distance: number;           // Walked distance since the anchor (m)
+  drift: number;              // Radial 1-sigma uncertainty (m)
+  anchorTimestamp: number | null;
+};
+
+/**
+ * Pedestrian dead reckoning for handheld surveys.
+ *
+ * Steps are detected on peaks of the low-passed acceleration magnitude,
+ * their length estimated with the Weinberg model, and the walking heading
+ * tracked by a one-state Kalman filter propagated with the vertical gyro
+ * rate and corrected by the tilt-compensated magnetometer (or the device
+ * orientation when no magnetometer is exposed). Each step moves the track
+ * from the last anchor (GNSS fix or OCR landmark) and grows its drift.
+ */
+class PedestrianDeadReckoning extends EventEmitter {
+  public static readonly DEFAULT_CONFIG: PedestrianDeadReckoningConfig = {
+    stepThreshold: 1.2,
+    minStepInterval: 300,
+    stepLengthCoefficient: 0.48,
+    stepLengthStd: 0.1,
+    gyroNoise: 0.01,
+    magnetometerStd: (10 * Math.PI) / 180,
+    declination: 0,
+  };
+
+  private static readonly GRAVITY = 9.80665;
+  private static readonly LOW_PASS = 0.25; // Smoothing factor of the magnitude filter
+  private static readonly GRAVITY_LOW_PASS = 0.05; // Smoothing factor of the gravity direction
+  private static readonly MIN_FIELD = 20; // μT, weaker fields are disturbed
+  private static readonly MAX_FIELD = 70; // μT, stronger fields are disturbed
+  private static readonly MAGNETIC_GATE = 3; // Sigmas
+
+  private config: PedestrianDeadReckoningConfig;
+  private anchorEcef: Coordinate3D | null = null;
+  private anchorPosition: PdrPosition | null = null;
+  private anchorTimestamp: number | null = null;
+  private offset: [number, number] = [0, 0];
+  private covariance: number[][] = [[0, 0], [0, 0]];
+  private steps = 0;
+  private distance = 0;
+
+  private heading: number | null = null; // Radians clockwise from true north
+  private headingVariance = Math.PI ** 2;
+  private gravity: [number, number, number] | null = null;
+  private filtered = 0;
+  private peak = -Infinity;
+  private trough = Infinity;
+  private rising = false;
+  private lastStep: number | null = null;
+  private lastTimestamp: number | null = null;
+
+  constructor(config: Partial<PedestrianDeadReckoningConfig> = {}) {
+    super();
+    this.config = { ...PedestrianDeadReckoning.DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Feed an IMU sample; returns the step it completed, if any
+   */
+  public update(imu: IMUData): PdrStep | null {
+    const dt = this.lastTimestamp !== null ? (imu.timestamp - this.lastTimestamp) / 1000 : 0;
+    this.lastTimestamp = imu.timestamp;
+    if (dt < 0) return null;
+
+    this.updateGravity(imu.acceleration);
+    this.updateHeading(imu, dt);
+    return this.detectStep(imu);
+  }
+
+  /**
+   * Re-anchor the track on a known position (GNSS fix or OCR landmark)
+   */
+  public anchor(position: PdrPosition, accuracy: number, timestamp: number = Date.now()): void {
+    this.anchorPosition = { ...position };
+    this.anchorEcef = CoordinateSystemManager.toECEF(position.lat, position.lon, position.alt ?? 0);
+    this.anchorTimestamp = timestamp;
+    this.offset = [0, 0];
+    this.covariance = [[accuracy * accuracy / 2, 0], [0, accuracy * accuracy / 2]];
+    this.steps = 0;
+    this.distance = 0;
+    this.emit('anchored', this.getState());
+  }
+
+  /**
+   * Set the walking heading from an external source (e.g. GNSS course)
+   * @param heading Degrees clockwise from true north
+   * @param std Standard deviation in degrees
+   */
+  public setHeading(heading: number, std: number): void {
+    this.heading = PedestrianDeadReckoning.wrap((heading * Math.PI) / 180);
+    this.headingVariance = ((std * Math.PI) / 180) ** 2;
+  }
+
+  /**
+   * Whether the track has an anchor to propagate from
+   */
+  public isAnchored(): boolean {
+    return this.anchorEcef !== null;
+  }
+
+  /**
+   * Current dead-reckoned position, or null before the first anchor
+   */
+  public getPosition(): PdrPosition | null {
+    if (!this.anchorEcef || !this.anchorPosition) return null;
+    const ecef = CoordinateSystemManager.fromENU([this.offset[0], this.offset[1], 0], this.anchorEcef);
+    const [lat, lon] = CoordinateSystemManager.fromECEF(ecef[0], ecef[1], ecef[2]);
+    return { lat, lon, alt: this.anchorPosition.alt };
+  }
+
+  /**
+   * Radial 1-sigma uncertainty of the track (anchor accuracy plus drift)
+   */
+  public getDrift(): number {
+    return Math.sqrt(this.covariance[0][0] + this.covariance[1][1]);
+  }
+
+  /**
+   * Get a snapshot of the PDR state
+   */
+  public getState(): PdrState {
+    return {
+      anchored: this.isAnchored(),
+      position: this.getPosition(),
+      offset: [...this.offset],
+      covariance: this.covariance.map(row => [...row]),
+      heading: this.heading !== null ? PedestrianDeadReckoning.toDegrees(this.heading) : null,
+      headingStd: (Math.sqrt(this.headingVariance) * 180) / Math.PI,
+      steps: this.steps,
+      distance: this.distance,
+      drift: this.getDrift(),
+      anchorTimestamp: this.anchorTimestamp,
+    };
+  }
+
+  /**
+   * Update the configuration
+   */
+  public updateConfig(config: Partial<PedestrianDeadReckoningConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Forget the anchor, heading and step detector state
+   */
+  public reset(): void {
+    this.anchorEcef = null;
+    this.anchorPosition = null;
+    this.anchorTimestamp = null;
+    this.offset = [0, 0];
+    this.covariance = [[0, 0], [0, 0]];
+    this.steps = 0;
+    this.distance = 0;
+    this.heading = null;
+    this.headingVariance = Math.PI ** 2;
+    this.gravity = null;
+    this.filtered = 0;
+    this.peak = -Infinity;
+    this.trough = Infinity;
+    this.rising = false;
+    this.lastStep = null;
+    this.lastTimestamp = null;
+  }
+
+  private updateGravity(acceleration: [number, number, number]): void {
+    if (!this.gravity) {
+      this.gravity = [...acceleration];
+      return;
+    }
+    const k = PedestrianDeadReckoning.GRAVITY_LOW_PASS;
+    this.gravity = this.gravity.map((g, i) => g + k * (acceleration[i] - g)) as [number, number, number];
+  }
+
+  /**
+   * Heading Kalman filter: gyro rate about the vertical for prediction,
+   * magnetometer or device orientation for correction
+   */
+  private updateHeading(imu: IMUData, dt: number): void {
+    const up = this.upDirection();
+    if (!up) return;
+
+    if (this.heading !== null && dt > 0) {
+      // Counter-clockwise rotation about up decreases a clockwise heading
+      const rate = imu.gyroscope[0] * up[0] + imu.gyroscope[1] * up[1] + imu.gyroscope[2] * up[2];
+      this.heading = PedestrianDeadReckoning.wrap(this.heading - rate * dt);
+      this.headingVariance += this.config.gyroNoise ** 2 * dt;
+    }
+
+    const measured = this.absoluteHeading(imu, up);
+    if (measured === null) return;
+
+    if (this.heading === null) {
+      this.heading = measured;
+      this.headingVariance = this.config.magnetometerStd ** 2;
+      return;
+    }
+
+    const R = this.config.magnetometerStd ** 2;
+    const innovation = PedestrianDeadReckoning.wrap(measured - this.heading);
+    // Reject magnetic disturbances once the heading is trusted
+    if (innovation ** 2 > PedestrianDeadReckoning.MAGNETIC_GATE ** 2 * (this.headingVariance + R) &&
+        this.headingVariance < R) {
+      return;
+    }
+    const gain = this.headingVariance / (this.headingVariance + R);
+    this.heading = PedestrianDeadReckoning.wrap(this.heading + gain * innovation);
+    this.headingVariance *= 1 - gain;
+  }
+
+  /**
+   * Absolute heading of the device top (radians clockwise from true north)
+   */
+  private absoluteHeading(imu: IMUData, up: [number, number, number]): number | null {
+    if (imu.magnetometer) {
+      const field = Math.hypot(...imu.magnetometer);
+      if (field < PedestrianDeadReckoning.MIN_FIELD || field > PedestrianDeadReckoning.MAX_FIELD) {
+        return null;
+      }
+      // Tilt compensation: east = m × up, north = up × east (body frame)
+      const east = PedestrianDeadReckoning.cross(imu.magnetometer, up);
+      const north = PedestrianDeadReckoning.cross(up, east);
+      const declination = (this.config.declination * Math.PI) / 180;
+      return PedestrianDeadReckoning.wrap(Math.atan2(east[1], north[1]) + declination);
+    }
+
+    if (imu.orientation) {
+      // DeviceOrientationEvent alpha is counter-clockwise
+      return PedestrianDeadReckoning.wrap((-imu.orientation.alpha * Math.PI) / 180);
+    }
+
+    return null;
+  }
+
+  /**
+   * Peak detection on the low-passed acceleration magnitude
+   */
+  private detectStep(imu: IMUData): PdrStep | null {
+    const magnitude = Math.hypot(...imu.acceleration) - PedestrianDeadReckoning.GRAVITY;
+    const previous = this.filtered;
+    this.filtered += PedestrianDeadReckoning.LOW_PASS * (magnitude - this.filtered);
+
+    this.peak = Math.max(this.peak, this.filtered);
+    this.trough = Math.min(this.trough, this.filtered);
+
+    if (this.filtered > previous) {
+      this.rising = true;
+      return null;
+    }
+    if (!this.rising) return null;
+    this.rising = false;
+
+    // Local maximum: it is a step if high enough and not too close to the last one
+    if (previous < this.config.stepThreshold) return null;
+    if (this.lastStep !== null && imu.timestamp - this.lastStep < this.config.minStepInterval) {
+      return null;
+    }
+
+    this.lastStep = imu.timestamp;
+    const amplitude = this.peak - this.trough;
+    this.peak = -Infinity;
+    this.trough = this.filtered;
+
+    const length = this.config.stepLengthCoefficient * Math.pow(Math.max(amplitude, 0), 0.25);
+    return this.applyStep(length, imu.timestamp);
+  }
+
+  private applyStep(length: number, timestamp: number): PdrStep | null {
+    if (this.heading === null) return null;
+
+    const sin = Math.sin(this.heading);
+    const cos = Math.cos(this.heading);
+    this.offset[0] += length * sin;
+    this.offset[1] += length * cos;
+    this.steps++;
+    this.distance += length;
+
+    // Step covariance: J · diag(σL², σψ²) · Jᵀ with J = ∂(e, n)/∂(L, ψ)
+    const varLength = (this.config.stepLengthStd * length) ** 2;
+    const J = [[sin, length * cos], [cos, -length * sin]];
+    for (let i = 0; i < 2; i++) {
+      for (let j = 0; j < 2; j++) {
+        this.covariance[i][j] += J[i][0] * J[j][0] * varLength + J[i][1] * J[j][1] * this.headingVariance;
+      }
+    }
+
+    if (!this.anchorEcef) return null;
+
+    const step: PdrStep = {
+      timestamp,
+      length,
+      heading: PedestrianDeadReckoning.toDegrees(this.heading),
+      position: this.getPosition()!,
+      drift: this.getDrift(),
+    };
+    this.emit('step', step);
+    return step;
+  }
+
+  private upDirection(): [number, number, number] | null {
+    if (!this.gravity) return null;
+    const norm = Math.hypot(...this.gravity);
+    if (norm < 1e-6) return null;
+    return this.gravity.map(g => g / norm) as [number, number, number];
+  }
+
+  private static cross(a: [number, number, number], b: [number, number, number]): [number, number, number] {
+    return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+  }
+
+  private static wrap(angle: number): number {
+    return Math.atan2(Math.sin(angle), Math.cos(angle));
+  }
+
+  private static toDegrees(angle: number): number {
+    return ((angle * 180) / Math.PI + 360) % 360;
+  }
+}
+
+export { PedestrianDeadReckoning };
+export type { PedestrianDeadReckoningConfig, PdrPosition, PdrStep, PdrState };
@@ -2,6 +2,10 @@ import { GNSSProcessor } from './GNSSProcessor';
 import { IMUReader } from './IMUReader';
 import { OCRAgent } from '../ocr/OCRAgent';
 import { ocrCorrectionMemory } from '../ocr/OCRCorrectionMemory';
+import { NavigationEKF, type GnssUpdateResult } from './NavigationEKF';
+import { PedestrianDeadReckoning } from './PedestrianDeadReckoning';
+import { SiteCalibration, type LocalGridPosition, type SiteCalibrationParameters } from './SiteCalibration';
+import type { CalibrationProfile } from './CalibrationProtocol';
 
 /**
  * Represents GNSS data with position and metadata
@@ -66,7 +70,14 @@ export interface FusedPosition {
     roll: number;  // Rotation around y-axis (radians)
     yaw: number;   // Rotation around z-axis (radians)
   };
+  velocity?: {
+    east: number;  // m/s
+    north: number; // m/s
+    up: number;    // m/s
+  };
+  local?: LocalGridPosition; // Site grid coordinates when a site calibration is active
   accuracy: number; // Estimated accuracy in meters
+  covariance?: number[][]; // East/North/Up position covariance (m²)
   timestamp: number;
   sources: string[]; // Sources used for this position
   anchors?: OCRAnchor[]; // OCR anchors used for positioning
@@ -78,6 +89,14 @@ export interface FusedPosition {
       value: number;
       source: string;
     }>;
+    gnssGate?: Omit<GnssUpdateResult, 'innovation'>;
+    pdr?: {
+      steps: number;        // Steps since the last anchor
+      distance: number;     // Walked distance since the last anchor (m)
+      heading: number | null; // Degrees clockwise from true north
+      drift: number;        // Radial 1-sigma uncertainty (m)
+      anchorTimestamp: number | null;
+    };
   };
 }
 
@@ -127,12 +146,66 @@ export interface SensorFusionConfig {
    * Enable/disable offline mode
    */
   offlineMode?: boolean;
+  
+  /**
+   * Accelerometer white noise of the navigation filter (m/s²/√Hz)
+   * Raise it for handheld surveys where the device is shaken while walking
+   */
+  accelNoise?: number;
+  
+  /**
+   * Gyroscope white noise of the navigation filter (rad/s/√Hz)
+   */
+  gyroNoise?: number;
+  
+  /**
+   * Accelerometer bias random walk (m/s²/√s)
+   */
+  accelBiasNoise?: number;
+  
+  /**
+   * Gyroscope bias random walk (rad/s/√s)
+   */
+  gyroBiasNoise?: number;
+  
+  /**
+   * Confidence level of the chi-square gate on GNSS fixes (0-1)
+   * Fixes outside the gate are treated as outliers and ignored
+   */
+  gnssGateProbability?: number;
+  
+  /**
+   * Number of consecutive rejected GNSS fixes before the filter
+   * re-anchors on GNSS
+   */
+  maxGnssRejections?: number;
+  
+  /**
+   * Dead reckoning used when GNSS is unavailable:
+   * 'pedestrian' counts steps (handheld surveys), 'inertial' integrates the IMU
+   */
+  deadReckoningMode?: 'pedestrian' | 'inertial';
+  
+  /**
+   * Weinberg coefficient of the pedestrian step length model
+   */
+  stepLengthCoefficient?: number;
+  
+  /**
+   * Magnetic declination applied to magnetometer headings (degrees, east positive)
+   */
+  magneticDeclination?: number;
 }
 
 /**
  * Main SensorFusion class for fusing GNSS, IMU, and OCR data
  */
 export class SensorFusion {
+  private static readonly OCR_ANCHOR_CONFIDENCE = 0.8;
+  private static readonly OCR_ANCHOR_ACCURACY = 2; // m
+  private static readonly MIN_COURSE_SPEED = 0.5; // m/s
+  private static readonly COURSE_HEADING_STD = 15; // degrees
+  
   private gnssProcessor: GNSSProcessor;
   private imuReader: IMUReader;
   private ocrAgent: OCRAgent;
@@ -142,6 +215,10 @@ export class SensorFusion {
   private lastGnss: GNSSData | null = null;
   private lastImu: IMUData | null = null;
   private lastAnchors: OCRAnchor[] = [];
+  private lastGate: GnssUpdateResult | null = null;
+  private ekf: NavigationEKF;
+  private pdr: PedestrianDeadReckoning;
+  private siteCalibration: SiteCalibrationParameters | null = null;
   
   private calibrationData: {
     gnssBias: { x: number; y: number; z: number };
@@ -173,6 +250,10 @@ export class SensorFusion {
       maxOcrAge: 10000, // 10 seconds
       autoCalibrate: true,
       offlineMode: false,
+      ...NavigationEKF.DEFAULT_CONFIG,
+      deadReckoningMode: 'pedestrian',
+      stepLengthCoefficient: PedestrianDeadReckoning.DEFAULT_CONFIG.stepLengthCoefficient,
+      magneticDeclination: PedestrianDeadReckoning.DEFAULT_CONFIG.declination,
       ...config,
     };
     
@@ -182,6 +263,12 @@ export class SensorFusion {
     this.config.imuWeight /= totalWeight;
     this.config.ocrWeight /= totalWeight;
     
+    this.ekf = new NavigationEKF(this.config);
+    this.pdr = new PedestrianDeadReckoning({
+      stepLengthCoefficient: this.config.stepLengthCoefficient,
+      declination: this.config.magneticDeclination,
+    });
+    
     // Initialize event listeners
     this.initializeEventListeners();
   }
@@ -193,12 +280,20 @@ export class SensorFusion {
     // Listen for GNSS updates
     this.gnssProcessor.on('update', (data: GNSSData) => {
       this.lastGnss = data;
+      this.lastGate = this.ekf.updateGnss(data);
+      if (!this.lastGate.accepted) {
+        this.emit('gnssRejected', data, this.lastGate);
+      } else {
+        this.anchorPedestrianTrack();
+      }
       this.updateFusedPosition();
     });
     
     // Listen for IMU updates
     this.imuReader.on('update', (data: IMUData) => {
       this.lastImu = data;
+      this.ekf.predict(data);
+      this.pdr.update(data);
       this.updateFusedPosition();
     });
     
@@ -209,6 +304,11 @@ export class SensorFusion {
         ...this.lastAnchors.filter(a => a.text !== anchor.text),
         anchor
       ];
+      
+      // A confidently read landmark re-anchors the pedestrian track
+      if (anchor.confidence > SensorFusion.OCR_ANCHOR_CONFIDENCE) {
+        this.pdr.anchor(anchor.position, SensorFusion.OCR_ANCHOR_ACCURACY, anchor.timestamp);
+      }
       this.updateFusedPosition();
     });
   }
@@ -238,31 +338,41 @@ export class SensorFusion {
       return;
     }
     
-    let fusedPosition: FusedPosition;
+    let fusedPosition: FusedPosition | null = null;
     
     if (hasFreshGnss) {
-      // Start with GNSS as the base position
+      // Start with GNSS as the base position (none while the filter awaits an accepted fix)
       fusedPosition = this.fuseGnssWithImu(this.lastGnss, this.lastImu);
-      hasNewData = true;
-    } else if (hasFreshImu && this.lastPosition) {
-      // If no GNSS but we have IMU and a previous position, use dead reckoning
-      fusedPosition = this.deadReckoning(this.lastPosition, this.lastImu);
-      hasNewData = true;
-    } else if (freshAnchors.length > 0) {
+    }
+    
+    const pedestrianAnchored = this.config.deadReckoningMode === 'pedestrian' && this.pdr.isAnchored();
+    if (!fusedPosition && hasFreshImu && (this.ekf.isInitialized() || pedestrianAnchored)) {
+      // If no GNSS, walk on from the filter or from the last pedestrian anchor
+      fusedPosition = this.deadReckoning(this.lastImu);
+    }
+    
+    if (!fusedPosition && freshAnchors.length > 0) {
       // If we only have OCR anchors, use the most confident one
       const bestAnchor = this.getBestAnchor(freshAnchors);
       fusedPosition = this.positionFromAnchor(bestAnchor);
-      hasNewData = true;
-    } else {
+    }
+    
+    if (!fusedPosition) {
       // No new data to process
       return;
     }
+    hasNewData = true;
     
-    // Apply any OCR anchor corrections if available
-    if (freshAnchors.length > 0) {
+    // Apply any OCR anchor corrections if available; the pedestrian track
+    // already walks on from confident anchors
+    if (freshAnchors.length > 0 && !fusedPosition.sources.includes('PDR')) {
       fusedPosition = this.applyOcrCorrections(fusedPosition, freshAnchors);
     }
     
+    if (this.siteCalibration) {
+      fusedPosition.local = SiteCalibration.toLocal(this.siteCalibration, fusedPosition.position);
+    }
+    
     // Update the last position
     this.lastPosition = fusedPosition;
     
@@ -271,80 +381,127 @@ export class SensorFusion {
   }
 
   /**
-   * Fuse GNSS and IMU data
+   * Fuse GNSS and IMU data through the navigation filter
    */
-  private fuseGnssWithImu(gnss: GNSSData, imu: IMUData | null): FusedPosition {
-    const basePosition: FusedPosition = {
-      position: {
-        lat: gnss.latitude,
-        lon: gnss.longitude,
-        alt: gnss.altitude,
-      },
-      accuracy: gnss.accuracy || 10, // Default to 10m if not provided
-      timestamp: gnss.timestamp,
-      sources: [gnss.source],
-      metadata: {
-        gnss: { ...gnss },
-      },
-    };
+  private fuseGnssWithImu(gnss: GNSSData, imu: IMUData | null): FusedPosition | null {
+    const fused = this.positionFromFilter([gnss.source], gnss);
+    if (!fused) return null;
     
-    // If we have IMU data, fuse it
     if (imu) {
-      basePosition.orientation = {
-        pitch: imu.acceleration[0],
-        roll: imu.acceleration[1],
-        yaw: imu.gyroscope[2],
-      };
-      
-      // If we have a previous position, we can do better fusion
-      if (this.lastPosition) {
-        // Simple complementary filter for position
-        const alpha = 0.1; // Weight for new GNSS data
-        
-        basePosition.position.lat = alpha * gnss.latitude + (1 - alpha) * this.lastPosition.position.lat;
-        basePosition.position.lon = alpha * gnss.longitude + (1 - alpha) * this.lastPosition.position.lon;
-        
-        if (gnss.altitude && this.lastPosition.position.alt) {
-          basePosition.position.alt = alpha * gnss.altitude + (1 - alpha) * this.lastPosition.position.alt;
-        }
-        
-        // Update sources
-        basePosition.sources.push('IMU');
-        basePosition.metadata!.imu = { ...imu };
-      }
+      fused.sources.push('IMU');
+      fused.metadata!.imu = { ...imu };
+    }
+    
+    if (this.lastGate) {
+      const { accepted, mahalanobis, threshold, reset } = this.lastGate;
+      fused.metadata!.gnssGate = { accepted, mahalanobis, threshold, reset };
     }
     
-    return basePosition;
+    return fused;
   }
 
   /**
-   * Estimate new position using dead reckoning from last known position and IMU data
+   * Estimate the position from the filter while GNSS is unavailable
+   * (inertial propagation only, so the covariance keeps growing)
    */
-  private deadReckoning(lastPosition: FusedPosition, imu: IMUData): FusedPosition {
-    // This is a simplified dead reckoning implementation
-    // In a real application, you'd want to integrate acceleration to get velocity and position
+  private deadReckoning(imu: IMUData): FusedPosition | null {
+    // The pedestrian track may start from an OCR anchor before any GNSS fix
+    if (this.config.deadReckoningMode === 'pedestrian' && this.pdr.isAnchored()) {
+      return this.pedestrianPosition(imu);
+    }
     
-    const timeDelta = (imu.timestamp - lastPosition.timestamp) / 1000; // in seconds
+    const fused = this.positionFromFilter(['deadReckoning'], this.lastGnss);
+    if (!fused) return null;
+    fused.metadata!.imu = { ...imu };
+    return fused;
+  }
+
+  /**
+   * Estimate the position by step counting from the last anchor
+   */
+  private pedestrianPosition(imu: IMUData): FusedPosition {
+    const state = this.pdr.getState();
+    const headingRad = state.heading !== null ? (state.heading * Math.PI) / 180 : null;
     
-    // Simple model: assume constant velocity from last known position
-    // This would be enhanced with proper integration of acceleration
-    const newPosition: FusedPosition = {
-      ...lastPosition,
+    return {
+      position: { ...state.position! },
+      orientation: headingRad !== null ? { pitch: 0, roll: 0, yaw: -headingRad } : undefined,
+      accuracy: state.drift,
+      covariance: [
+        [state.covariance[0][0], state.covariance[0][1], 0],
+        [state.covariance[1][0], state.covariance[1][1], 0],
+        [0, 0, 0],
+      ],
       timestamp: imu.timestamp,
-      sources: [...lastPosition.sources.filter(s => s !== 'deadReckoning'), 'deadReckoning'],
-      accuracy: Math.min(lastPosition.accuracy * 1.1, 100), // Increase uncertainty over time, max 100m
+      sources: ['deadReckoning', 'PDR'],
+      metadata: {
+        imu: { ...imu },
+        pdr: {
+          steps: state.steps,
+          distance: state.distance,
+          heading: state.heading,
+          drift: state.drift,
+          anchorTimestamp: state.anchorTimestamp,
+        },
+      },
     };
+  }
+
+  /**
+   * Restart the pedestrian track from the filter after an accepted fix,
+   * taking the walking heading from the GNSS course when moving
+   */
+  private anchorPedestrianTrack(): void {
+    const position = this.ekf.getGeodetic();
+    const state = this.ekf.getState();
+    const accuracy = this.ekf.getHorizontalAccuracy();
+    if (!position || !state || accuracy === null) return;
     
-    // Update orientation
-    if (imu.orientation) {
-      newPosition.orientation = {
-        pitch: imu.orientation.beta * (Math.PI / 180), // Convert to radians
-        roll: imu.orientation.gamma * (Math.PI / 180),
-        yaw: imu.orientation.alpha * (Math.PI / 180),
-      };
+    const [lat, lon, alt] = position;
+    this.pdr.anchor(
+      { lat, lon, alt: this.lastGnss?.altitude !== undefined ? alt : undefined },
+      accuracy,
+      state.timestamp
+    );
+    
+    const [east, north] = state.velocity;
+    if (Math.hypot(east, north) >= SensorFusion.MIN_COURSE_SPEED) {
+      this.pdr.setHeading((Math.atan2(east, north) * 180) / Math.PI, SensorFusion.COURSE_HEADING_STD);
     }
+  }
+
+  /**
+   * Build a fused position from the current filter state,
+   * or null while no GNSS fix has initialised the filter
+   */
+  private positionFromFilter(sources: string[], gnss: GNSSData | null): FusedPosition | null {
+    const position = this.ekf.getGeodetic();
+    const state = this.ekf.getState();
+    const orientation = this.ekf.getEulerAngles();
+    const accuracy = this.ekf.getHorizontalAccuracy();
+    const covariance = this.ekf.getPositionCovariance();
+    if (!position || !state || !orientation || accuracy === null || !covariance) return null;
     
-    return newPosition;
+    const [lat, lon, alt] = position;
+    
+    return {
+      position: {
+        lat,
+        lon,
+        alt: gnss?.altitude !== undefined ? alt : undefined,
+      },
+      orientation,
+      velocity: {
+        east: state.velocity[0],
+        north: state.velocity[1],
+        up: state.velocity[2],
+      },
+      accuracy,
+      covariance,
+      timestamp: state.timestamp,
+      sources,
+      metadata: gnss ? { gnss: { ...gnss } } : {},
+    };
   }
 
   /**
@@ -381,11 +538,11 @@ export class SensorFusion {
     const bestAnchor = this.getBestAnchor(anchors);
     
     // If we have high confidence in the anchor, use its position
-    if (bestAnchor.confidence > 0.8) {
+    if (bestAnchor.confidence > SensorFusion.OCR_ANCHOR_CONFIDENCE) {
       return {
         ...position,
         position: { ...bestAnchor.position },
-        accuracy: 2, // Higher accuracy for anchor-based positioning
+        accuracy: SensorFusion.OCR_ANCHOR_ACCURACY, // Higher accuracy for anchor-based positioning
         anchors: [bestAnchor],
       };
     }
@@ -405,6 +562,13 @@ export class SensorFusion {
     };
   }
 
+  /**
+   * Get the last fused position
+   */
+  public getLastPosition(): FusedPosition | null {
+    return this.lastPosition;
+  }
+
   /**
    * Start the sensor fusion
    */
@@ -431,6 +595,9 @@ export class SensorFusion {
     this.lastGnss = null;
     this.lastImu = null;
     this.lastAnchors = [];
+    this.lastGate = null;
+    this.ekf.reset();
+    this.pdr.reset();
   }
 
   /**
@@ -438,6 +605,29 @@ export class SensorFusion {
    */
   public updateConfig(config: Partial<SensorFusionConfig>): void {
     this.config = { ...this.config, ...config };
+    this.ekf.updateConfig(this.config);
+    this.pdr.updateConfig({
+      stepLengthCoefficient: this.config.stepLengthCoefficient,
+      declination: this.config.magneticDeclination,
+    });
+  }
+
+  /**
+   * Report fused positions on the local grid of a site calibration profile
+   * (null to stop)
+   */
+  public setSiteCalibration(profile: CalibrationProfile | null): void {
+    if (profile && !profile.siteCalibration) {
+      throw new Error(`Calibration profile ${profile.name} has no site calibration`);
+    }
+    this.siteCalibration = profile?.siteCalibration ?? null;
+  }
+
+  /**
+   * Get the pedestrian dead reckoning track (steps, heading, drift)
+   */
+  public getPedestrianTrack(): PedestrianDeadReckoning {
+    return this.pdr;
   }
 
   // Event emitter implementation (simplified)
@@ -0,0 +1,345 @@
+import { CoordinateSystemManager, type Coordinate3D } from './CoordinateSystemManager';
+
+type GeodeticPosition = {
+  lat: number;
+  lon: number;
+  alt?: number;
+};
+
+type LocalGridPosition = {
+  easting: number;
+  northing: number;
+  elevation?: number;
+};
+
+/**
+ * A control point measured in WGS84 with its known local grid coordinates
+ */
+type ControlPointPair = {
+  id: string;
+  measured: GeodeticPosition;
+  local: LocalGridPosition;
+  horizontal?: boolean; // Use in the horizontal fit (default true)
+  vertical?: boolean;   // Use in the vertical fit when both heights are known (default true)
+};
+
+type SiteCalibrationOptions = {
+  /** 'similarity' keeps shapes (4 parameters), 'affine' absorbs differential scale and shear (6 parameters) */
+  model?: 'similarity' | 'affine';
+  /** Residuals above these values are flagged (m) */
+  tolerance?: {
+    horizontal: number;
+    vertical: number;
+  };
+};
+
+/**
+ * Solved calibration, stored in a CalibrationProfile.
+ * Grid = A·[x, y] + [c, f] with x/y east/north (m) in the tangent plane at the origin;
+ * elevation = h + shift + slopeNorth·(N − N0) + slopeEast·(E − E0).
+ */
+type SiteCalibrationParameters = {
+  model: 'similarity' | 'affine';
+  origin: Coordinate3D; // Geodetic tangent point [lat, lon, alt]
+  horizontal: {
+    a: number;
+    b: number;
+    c: number;
+    d: number;
+    e: number;
+    f: number;
+    scale: number;    // Mean scale factor
+    rotation: number; // Degrees counter-clockwise from the tangent plane to the grid
+  };
+  vertical: {
+    shift: number;      // m
+    slopeNorth: number; // m/m
+    slopeEast: number;  // m/m
+    origin: [number, number]; // Grid [E0, N0] of the inclined plane
+  } | null;
+  rms: {
+    horizontal: number;
+    vertical: number | null;
+  };
+  pointCount: number;
+};
+
+type SiteCalibrationResidual = {
+  id: string;
+  east: number | null;  // Known minus calibrated grid coordinate (m)
+  north: number | null;
+  horizontal: number | null;
+  vertical: number | null;
+  flagged: boolean;
+};
+
+type SiteCalibrationResult = {
+  parameters: SiteCalibrationParameters;
+  residuals: SiteCalibrationResidual[];
+  redundancy: {
+    horizontal: number;
+    vertical: number;
+  };
+};
+
+/**
+ * Site calibration (localization): ties WGS84 measurements to a local grid
+ * from control points with a horizontal similarity or affine transform and
+ * an inclined vertical plane, both solved by least squares.
+ */
+class SiteCalibration {
+  static readonly DEFAULT_TOLERANCE = { horizontal: 0.03, vertical: 0.05 };
+
+  /**
+   * Solve a calibration from measured/known control point pairs
+   */
+  static solve(pairs: ControlPointPair[], options: SiteCalibrationOptions = {}): SiteCalibrationResult {
+    const model = options.model ?? 'similarity';
+    const tolerance = options.tolerance ?? SiteCalibration.DEFAULT_TOLERANCE;
+    const horizontalPairs = pairs.filter(pair => pair.horizontal !== false);
+    const minimum = model === 'similarity' ? 2 : 3;
+    if (horizontalPairs.length < minimum) {
+      throw new Error(`A ${model} site calibration needs at least ${minimum} horizontal control points`);
+    }
+
+    // Tangent plane at the centroid of the measured points
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    const origin: Coordinate3D = [
+      mean(pairs.map(pair => pair.measured.lat)),
+      mean(pairs.map(pair => pair.measured.lon)),
+      mean(pairs.map(pair => pair.measured.alt ?? 0)),
+    ];
+    const plane = new Map(pairs.map(pair => [pair.id, SiteCalibration.toPlane(pair.measured, origin)]));
+
+    const horizontal = SiteCalibration.solveHorizontal(
+      horizontalPairs.map(pair => plane.get(pair.id)!),
+      horizontalPairs.map(pair => [pair.local.easting, pair.local.northing]),
+      model
+    );
+    const parameters: SiteCalibrationParameters = {
+      model,
+      origin,
+      horizontal,
+      vertical: null,
+      rms: { horizontal: 0, vertical: null },
+      pointCount: pairs.length,
+    };
+
+    // Inclined plane on the height differences, in grid coordinates
+    const verticalPairs = pairs.filter(pair =>
+      pair.vertical !== false && pair.measured.alt !== undefined && pair.local.elevation !== undefined
+    );
+    if (verticalPairs.length > 0) {
+      const grid = verticalPairs.map(pair => SiteCalibration.applyHorizontal(horizontal, plane.get(pair.id)!));
+      parameters.vertical = SiteCalibration.solveVertical(
+        grid,
+        verticalPairs.map(pair => pair.local.elevation! - pair.measured.alt!)
+      );
+    }
+
+    const residuals = pairs.map((pair): SiteCalibrationResidual => {
+      const calibrated = SiteCalibration.toLocal(parameters, pair.measured);
+      const inHorizontal = pair.horizontal !== false;
+      const inVertical = verticalPairs.includes(pair);
+      const east = inHorizontal ? pair.local.easting - calibrated.easting : null;
+      const north = inHorizontal ? pair.local.northing - calibrated.northing : null;
+      const vertical = inVertical ? pair.local.elevation! - calibrated.elevation! : null;
+      const horizontalResidual = east !== null && north !== null ? Math.hypot(east, north) : null;
+      return {
+        id: pair.id,
+        east,
+        north,
+        horizontal: horizontalResidual,
+        vertical,
+        flagged: (horizontalResidual ?? 0) > tolerance.horizontal || Math.abs(vertical ?? 0) > tolerance.vertical,
+      };
+    });
+
+    const horizontalResiduals = residuals.filter(r => r.horizontal !== null).map(r => r.horizontal!);
+    const verticalResiduals = residuals.filter(r => r.vertical !== null).map(r => r.vertical!);
+    parameters.rms = {
+      horizontal: Math.sqrt(mean(horizontalResiduals.map(r => r * r))),
+      vertical: verticalResiduals.length ? Math.sqrt(mean(verticalResiduals.map(r => r * r))) : null,
+    };
+
+    return {
+      parameters,
+      residuals,
+      redundancy: {
+        horizontal: 2 * horizontalPairs.length - (model === 'similarity' ? 4 : 6),
+        vertical: verticalPairs.length - Math.min(verticalPairs.length, 3),
+      },
+    };
+  }
+
+  /**
+   * Calibrated local grid coordinates of a WGS84 position
+   */
+  static toLocal(parameters: SiteCalibrationParameters, position: GeodeticPosition): LocalGridPosition {
+    const [easting, northing] = SiteCalibration.applyHorizontal(
+      parameters.horizontal,
+      SiteCalibration.toPlane(position, parameters.origin)
+    );
+    const { vertical } = parameters;
+    if (position.alt === undefined || !vertical) {
+      return { easting, northing };
+    }
+    return {
+      easting,
+      northing,
+      elevation: position.alt + vertical.shift +
+        vertical.slopeNorth * (northing - vertical.origin[1]) +
+        vertical.slopeEast * (easting - vertical.origin[0]),
+    };
+  }
+
+  /**
+   * WGS84 position of local grid coordinates (inverse of toLocal)
+   */
+  static toGeodetic(parameters: SiteCalibrationParameters, local: LocalGridPosition): GeodeticPosition {
+    const { a, b, c, d, e, f } = parameters.horizontal;
+    const det = a * e - b * d;
+    const dE = local.easting - c;
+    const dN = local.northing - f;
+    const x = (e * dE - b * dN) / det;
+    const y = (a * dN - d * dE) / det;
+
+    const [originLat, originLon, originAlt] = parameters.origin;
+    const { vertical } = parameters;
+    const hasHeight = local.elevation !== undefined && vertical !== null;
+    const height = hasHeight
+      ? local.elevation! - vertical!.shift -
+        vertical!.slopeNorth * (local.northing - vertical!.origin[1]) -
+        vertical!.slopeEast * (local.easting - vertical!.origin[0])
+      : originAlt;
+
+    // Find the up offset that puts the point at the requested ellipsoidal height
+    const originEcef = CoordinateSystemManager.toECEF(originLat, originLon, originAlt);
+    let up = height - originAlt;
+    let geodetic: Coordinate3D = [originLat, originLon, originAlt];
+    for (let i = 0; i < 5; i++) {
+      const ecef = CoordinateSystemManager.fromENU([x, y, up], originEcef);
+      geodetic = CoordinateSystemManager.fromECEF(ecef[0], ecef[1], ecef[2]);
+      up += height - geodetic[2];
+    }
+
+    const [lat, lon, alt] = geodetic;
+    return hasHeight ? { lat, lon, alt } : { lat, lon };
+  }
+
+  private static toPlane(position: GeodeticPosition, origin: Coordinate3D): [number, number] {
+    const [east, north] = CoordinateSystemManager.toENU(
+      CoordinateSystemManager.toECEF(position.lat, position.lon, position.alt ?? origin[2]),
+      CoordinateSystemManager.toECEF(origin[0], origin[1], origin[2])
+    );
+    return [east, north];
+  }
+
+  private static applyHorizontal(
+    horizontal: SiteCalibrationParameters['horizontal'],
+    [x, y]: [number, number]
+  ): [number, number] {
+    const { a, b, c, d, e, f } = horizontal;
+    return [a * x + b * y + c, d * x + e * y + f];
+  }
+
+  /**
+   * Least squares on centred coordinates; closed form for both models
+   */
+  private static solveHorizontal(
+    plane: [number, number][],
+    grid: number[][],
+    model: 'similarity' | 'affine'
+  ): SiteCalibrationParameters['horizontal'] {
+    const n = plane.length;
+    const [xm, ym] = [0, 1].map(i => plane.reduce((sum, p) => sum + p[i], 0) / n);
+    const [em, nm] = [0, 1].map(i => grid.reduce((sum, p) => sum + p[i], 0) / n);
+    const dx = plane.map(p => p[0] - xm);
+    const dy = plane.map(p => p[1] - ym);
+    const dE = grid.map(p => p[0] - em);
+    const dN = grid.map(p => p[1] - nm);
+    const sum = (fn: (i: number) => number) => plane.reduce((total, _, i) => total + fn(i), 0);
+
+    let a: number, b: number, d: number, e: number;
+    if (model === 'similarity') {
+      const norm = sum(i => dx[i] * dx[i] + dy[i] * dy[i]);
+      if (norm < 1e-6) throw new Error('Control points are coincident');
+      const p = sum(i => dx[i] * dE[i] + dy[i] * dN[i]) / norm;
+      const q = sum(i => dx[i] * dN[i] - dy[i] * dE[i]) / norm;
+      [a, b, d, e] = [p, -q, q, p];
+    } else {
+      const sxx = sum(i => dx[i] * dx[i]);
+      const syy = sum(i => dy[i] * dy[i]);
+      const sxy = sum(i => dx[i] * dy[i]);
+      const det = sxx * syy - sxy * sxy;
+      if (det < 1e-6 * Math.max(1, sxx * syy)) throw new Error('Control points are collinear');
+      const solve = (target: number[]) => {
+        const sxt = sum(i => dx[i] * target[i]);
+        const syt = sum(i => dy[i] * target[i]);
+        return [(syy * sxt - sxy * syt) / det, (sxx * syt - sxy * sxt) / det];
+      };
+      [a, b] = solve(dE);
+      [d, e] = solve(dN);
+    }
+
+    return {
+      a,
+      b,
+      c: em - a * xm - b * ym,
+      d,
+      e,
+      f: nm - d * xm - e * ym,
+      scale: Math.sqrt(Math.abs(a * e - b * d)),
+      rotation: (Math.atan2(d - b, a + e) * 180) / Math.PI,
+    };
+  }
+
+  /**
+   * Constant shift for one or two points, inclined plane from three
+   */
+  private static solveVertical(
+    grid: [number, number][],
+    separations: number[]
+  ): NonNullable<SiteCalibrationParameters['vertical']> {
+    const n = grid.length;
+    const e0 = grid.reduce((sum, p) => sum + p[0], 0) / n;
+    const n0 = grid.reduce((sum, p) => sum + p[1], 0) / n;
+    const shift = separations.reduce((sum, v) => sum + v, 0) / n;
+    if (n < 3) {
+      return { shift, slopeNorth: 0, slopeEast: 0, origin: [e0, n0] };
+    }
+
+    const de = grid.map(p => p[0] - e0);
+    const dn = grid.map(p => p[1] - n0);
+    const dh = separations.map(v => v - shift);
+    const sum = (fn: (i: number) => number) => grid.reduce((total, _, i) => total + fn(i), 0);
+    const see = sum(i => de[i] * de[i]);
+    const snn = sum(i => dn[i] * dn[i]);
+    const sen = sum(i => de[i] * dn[i]);
+    const det = see * snn - sen * sen;
+    if (det < 1e-6 * Math.max(1, see * snn)) {
+      // Collinear heights cannot define a plane
+      return { shift, slopeNorth: 0, slopeEast: 0, origin: [e0, n0] };
+    }
+    const seh = sum(i => de[i] * dh[i]);
+    const snh = sum(i => dn[i] * dh[i]);
+
+    return {
+      shift,
+      slopeEast: (snn * seh - sen * snh) / det,
+      slopeNorth: (see * snh - sen * seh) / det,
+      origin: [e0, n0],
+    };
+  }
+}
+
+export { SiteCalibration };
+export type {
+  GeodeticPosition,
+  LocalGridPosition,
+  ControlPointPair,
+  SiteCalibrationOptions,
+  SiteCalibrationParameters,
+  SiteCalibrationResidual,
+  SiteCalibrationResult,
+};
@@ -0,0 +1,238 @@
+import * as math from 'mathjs';
+import { CoordinateSystemManager, type Coordinate3D } from './CoordinateSystemManager';
+import { GNSSFormatManager } from './GNSSFormatManager';
+import { NavigationEKF, type NavigationEKFConfig, type NavigationState } from './NavigationEKF';
+import type { FusionLogEntry } from './FusionAuditLog';
+import type { GNSSData, IMUData } from './SensorFusion';
+
+type RecordedSession = {
+  gnss: GNSSData[];
+  imu?: IMUData[];
+};
+
+type TrajectorySmootherConfig = Partial<NavigationEKFConfig> & {
+  /** Longest interval without an output epoch, e.g. across GNSS outages (ms) */
+  outputInterval?: number;
+};
+
+type SmoothedPoint = {
+  timestamp: number;
+  lat: number;
+  lon: number;
+  alt?: number;
+  velocity: {
+    east: number;  // m/s
+    north: number; // m/s
+    up: number;    // m/s
+  };
+  covariance: number[][];   // Smoothed East/North/Up position covariance (m²)
+  accuracy: number;         // Smoothed horizontal DRMS (m)
+  filteredAccuracy: number; // Forward (real-time) horizontal DRMS (m)
+  gnss: 'accepted' | 'rejected' | 'none';
+};
+
+type SmoothedTrajectory = {
+  origin: Coordinate3D; // Geodetic origin of the local ENU frame [lat, lon, alt]
+  points: SmoothedPoint[];
+  segments: number;     // Independent RTS passes (split when the filter re-anchors)
+  rejectedFixes: number;
+};
+
+type Checkpoint = {
+  predicted: NavigationState;
+  filtered: NavigationState;
+  transition: number[][]; // Error-state transition from the previous checkpoint
+  gnss: SmoothedPoint['gnss'];
+};
+
+/**
+ * Offline Rauch–Tung–Striebel smoother for recorded fusion sessions.
+ *
+ * The session is replayed through the same NavigationEKF as real-time fusion;
+ * the predicted and filtered states are kept at each GNSS epoch (and every
+ * outputInterval during outages) together with the accumulated error-state
+ * transition, then a backward pass blends in the future measurements.
+ */
+export class TrajectorySmoother {
+  private static readonly DEFAULT_OUTPUT_INTERVAL = 2000; // ms
+  private static readonly GNSS_SOURCES = ['gnss', 'rtk', 'rtcm', 'nmea'];
+
+  /**
+   * Smooth a recorded session of GNSS fixes and (optional) IMU samples
+   */
+  static smooth(session: RecordedSession, config: TrajectorySmootherConfig = {}): SmoothedTrajectory {
+    const { outputInterval = TrajectorySmoother.DEFAULT_OUTPUT_INTERVAL, ...filterConfig } = config;
+    const ekf = new NavigationEKF(filterConfig);
+
+    // IMU samples go first on equal timestamps so fixes see the latest motion
+    const events = [
+      ...(session.imu ?? []).map(imu => ({ timestamp: imu.timestamp, imu, gnss: null })),
+      ...session.gnss.map(gnss => ({ timestamp: gnss.timestamp, imu: null, gnss })),
+    ].sort((a, b) => a.timestamp - b.timestamp || (a.imu ? -1 : 1));
+
+    const segments: Checkpoint[][] = [];
+    let lastCheckpoint = -Infinity;
+    let rejectedFixes = 0;
+
+    for (const event of events) {
+      if (event.imu) {
+        ekf.predict(event.imu);
+        if (ekf.isInitialized() && event.timestamp - lastCheckpoint >= outputInterval) {
+          const state = ekf.getState()!;
+          segments[segments.length - 1].push({
+            predicted: state,
+            filtered: state,
+            transition: ekf.takeTransition(),
+            gnss: 'none',
+          });
+          lastCheckpoint = event.timestamp;
+        }
+        continue;
+      }
+
+      const gnss = event.gnss!;
+      const initialized = ekf.isInitialized();
+      ekf.propagateTo(gnss.timestamp);
+      const predicted = ekf.getState();
+      const transition = ekf.takeTransition();
+      const result = ekf.updateGnss(gnss);
+      const filtered = ekf.getState()!;
+      if (!result.accepted) rejectedFixes++;
+
+      if (!initialized || result.reset) {
+        // The filter restarted: the previous segment cannot be smoothed across it
+        segments.push([{ predicted: filtered, filtered, transition, gnss: 'accepted' }]);
+      } else {
+        segments[segments.length - 1].push({
+          predicted: predicted!,
+          filtered,
+          transition,
+          gnss: result.accepted ? 'accepted' : 'rejected',
+        });
+      }
+      lastCheckpoint = gnss.timestamp;
+    }
+
+    if (segments.length === 0) {
+      throw new Error('At least one GNSS fix is required to smooth a session');
+    }
+
+    const origin = segments[0][0].filtered.origin;
+    const originEcef = CoordinateSystemManager.toECEF(origin[0], origin[1], origin[2]);
+    const hasAltitude = session.gnss.some(gnss => gnss.altitude !== undefined);
+
+    const points = segments.flatMap(segment =>
+      TrajectorySmoother.backwardPass(segment).map((state, k) => {
+        const ecef = CoordinateSystemManager.fromENU(state.position, originEcef);
+        const [lat, lon, alt] = CoordinateSystemManager.fromECEF(ecef[0], ecef[1], ecef[2]);
+        const P = state.covariance;
+        const Pf = segment[k].filtered.covariance;
+        return {
+          timestamp: state.timestamp,
+          lat,
+          lon,
+          alt: hasAltitude ? alt : undefined,
+          velocity: { east: state.velocity[0], north: state.velocity[1], up: state.velocity[2] },
+          covariance: P.slice(0, 3).map(row => row.slice(0, 3)),
+          accuracy: Math.sqrt(P[0][0] + P[1][1]),
+          filteredAccuracy: Math.sqrt(Pf[0][0] + Pf[1][1]),
+          gnss: segment[k].gnss,
+        };
+      })
+    );
+
+    return { origin, points, segments: segments.length, rejectedFixes };
+  }
+
+  /**
+   * Build a session from a FusionAuditLog export (GNSS entries only)
+   */
+  static fromAuditLog(entries: FusionLogEntry[]): RecordedSession {
+    const gnss = entries
+      .filter(entry => entry.sources.some(source =>
+        TrajectorySmoother.GNSS_SOURCES.includes(source.toLowerCase())
+      ))
+      .map((entry): GNSSData => ({
+        latitude: entry.position.lat,
+        longitude: entry.position.lon,
+        altitude: entry.position.alt,
+        timestamp: new Date(entry.timestamp).getTime(),
+        source: 'GNSS',
+        accuracy: entry.accuracy,
+      }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    return { gnss };
+  }
+
+  /**
+   * Export the smoothed track as GPX (elevations in the given vertical datum)
+   */
+  static toGPX(trajectory: SmoothedTrajectory, verticalDatum?: string): string {
+    return GNSSFormatManager.toGPX(trajectory.points.map(point => ({
+      lat: point.lat,
+      lon: point.lon,
+      alt: point.alt,
+      time: new Date(point.timestamp),
+    })), verticalDatum);
+  }
+
+  /**
+   * Export the smoothed epochs as GeoJSON points with their uncertainty
+   */
+  static toGeoJSON(trajectory: SmoothedTrajectory, verticalDatum?: string): string {
+    return GNSSFormatManager.toGeoJSON(trajectory.points.map(point => ({
+      lat: point.lat,
+      lon: point.lon,
+      alt: point.alt,
+      props: {
+        time: new Date(point.timestamp).toISOString(),
+        accuracy: point.accuracy,
+        filteredAccuracy: point.filteredAccuracy,
+        sigmaEast: Math.sqrt(point.covariance[0][0]),
+        sigmaNorth: Math.sqrt(point.covariance[1][1]),
+        sigmaUp: Math.sqrt(point.covariance[2][2]),
+        speed: Math.hypot(point.velocity.east, point.velocity.north),
+        gnss: point.gnss,
+        smoothed: true,
+      },
+    })), verticalDatum);
+  }
+
+  /**
+   * RTS backward recursion over one filter segment
+   */
+  private static backwardPass(segment: Checkpoint[]): NavigationState[] {
+    const n = segment.length;
+    const smoothed: NavigationState[] = new Array(n);
+    smoothed[n - 1] = segment[n - 1].filtered;
+
+    for (let k = n - 2; k >= 0; k--) {
+      const { filtered } = segment[k];
+      const next = segment[k + 1];
+
+      // C = Pf(k) · Φᵀ(k+1) · Pp(k+1)⁻¹
+      const gain = math.multiply(
+        math.multiply(filtered.covariance, math.transpose(next.transition)),
+        math.inv(next.predicted.covariance)
+      ) as number[][];
+
+      const delta = NavigationEKF.difference(smoothed[k + 1], next.predicted);
+      const state = NavigationEKF.applyCorrection(filtered, math.multiply(gain, delta) as number[]);
+
+      const spread = math.subtract(smoothed[k + 1].covariance, next.predicted.covariance) as number[][];
+      const covariance = math.add(
+        filtered.covariance,
+        math.multiply(math.multiply(gain, spread), math.transpose(gain))
+      ) as number[][];
+      smoothed[k] = {
+        ...state,
+        covariance: covariance.map((row, i) => row.map((value, j) => (value + covariance[j][i]) / 2)),
+      };
+    }
+
+    return smoothed;
+  }
+}
+
+export type { RecordedSession, TrajectorySmootherConfig, SmoothedPoint, SmoothedTrajectory };
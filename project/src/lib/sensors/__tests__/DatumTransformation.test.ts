@@ -0,0 +1,213 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { DatumTransformationRegistry, datumTransformationRegistry } from '../DatumTransformation';
+import { CoordinateSystemManager } from '../CoordinateSystemManager';
+
+type SyntheticSubgrid = {
+  name: string;
+  parent: string;
+  south: number;
+  north: number;
+  west: number;
+  east: number;
+  step: number;
+  shift: (lat: number, lon: number) => [number, number]; // secondes d'arc, longitude positive à l'est
+  accuracy: number;
+};
+
+// Fichier NTv2 minimal : en-tête, sous-grilles (lignes du sud au nord, nœuds d'est en ouest), END
+function buildNTv2(subgrids: SyntheticSubgrid[], littleEndian = true): ArrayBuffer {
+  const nodes = subgrids.map(g => (Math.round((g.north - g.south) / g.step) + 1) * (Math.round((g.east - g.west) / g.step) + 1));
+  const records = 11 + subgrids.length * 11 + nodes.reduce((a, b) => a + b, 0) + 1;
+  const buffer = new ArrayBuffer(records * 16);
+  const view = new DataView(buffer);
+  let offset = 0;
+  const key = (name: string) => {
+    name.padEnd(8).split('').forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+  };
+  const text = (name: string, value: string) => {
+    key(name);
+    value.padEnd(8).split('').forEach((c, i) => view.setUint8(offset + 8 + i, c.charCodeAt(0)));
+    offset += 16;
+  };
+  const int = (name: string, value: number) => { key(name); view.setInt32(offset + 8, value, littleEndian); offset += 16; };
+  const double = (name: string, value: number) => { key(name); view.setFloat64(offset + 8, value, littleEndian); offset += 16; };
+
+  int('NUM_OREC', 11);
+  int('NUM_SREC', 11);
+  int('NUM_FILE', subgrids.length);
+  text('GS_TYPE', 'SECONDS');
+  text('VERSION', 'NTv2.0');
+  text('SYSTEM_F', 'NTF');
+  text('SYSTEM_T', 'RGF93');
+  double('MAJOR_F', 6378249.2);
+  double('MINOR_F', 6356515.0);
+  double('MAJOR_T', 6378137.0);
+  double('MINOR_T', 6356752.314);
+
+  subgrids.forEach((g, s) => {
+    text('SUB_NAME', g.name);
+    text('PARENT', g.parent);
+    text('CREATED', '20250101');
+    text('UPDATED', '20250101');
+    double('S_LAT', g.south * 3600);
+    double('N_LAT', g.north * 3600);
+    double('E_LONG', -g.east * 3600);
+    double('W_LONG', -g.west * 3600);
+    double('LAT_INC', g.step * 3600);
+    double('LONG_INC', g.step * 3600);
+    int('GS_COUNT', nodes[s]);
+    for (let lat = g.south; lat <= g.north + 1e-9; lat += g.step) {
+      for (let lon = g.east; lon >= g.west - 1e-9; lon -= g.step) {
+        const [dlat, dlon] = g.shift(lat, lon);
+        view.setFloat32(offset, dlat, littleEndian);
+        view.setFloat32(offset + 4, -dlon, littleEndian);
+        view.setFloat32(offset + 8, g.accuracy, littleEndian);
+        view.setFloat32(offset + 12, g.accuracy, littleEndian);
+        offset += 16;
+      }
+    }
+  });
+  key('END');
+  return buffer;
+}
+
+// Fichier NADCON (.las ou .los) : enregistrement d'en-tête puis une ligne par enregistrement
+function buildNADCON(value: number): ArrayBuffer {
+  const cols = 25;
+  const rows = 5;
+  const recordLength = (cols + 1) * 4;
+  const buffer = new ArrayBuffer(recordLength * (rows + 1));
+  const view = new DataView(buffer);
+  'NADCON EXTRACTED REGION'.split('').forEach((c, i) => view.setUint8(i, c.charCodeAt(0)));
+  view.setInt32(64, cols, true);
+  view.setInt32(68, rows, true);
+  view.setInt32(72, 1, true);
+  [-100, 0.25, 35, 0.25, 0].forEach((v, i) => view.setFloat32(76 + i * 4, v, true));
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      view.setFloat32((row + 1) * recordLength + 4 + col * 4, value, true);
+    }
+  }
+  return buffer;
+}
+
+// Grille autour de Paris, avec une sous-grille plus fine décalée de 0,2"
+const parisGrid: SyntheticSubgrid[] = [
+  {
+    name: 'PARENT', parent: 'NONE', south: 48, north: 49.5, west: 1.5, east: 3.5, step: 0.5, accuracy: 0.08,
+    shift: (lat, lon) => [1 + 0.5 * (lat - 48), -4 + (lon - 1.5)],
+  },
+  {
+    name: 'PARIS', parent: 'PARENT', south: 48.5, north: 49, west: 2, east: 3, step: 0.25, accuracy: 0.02,
+    shift: (lat, lon) => [1.2 + 0.5 * (lat - 48), -3.8 + (lon - 1.5)],
+  },
+];
+
+describe('DatumTransformation', () => {
+  afterEach(() => {
+    ['WGS72_WGS84', 'NTF_RGF93_GRID', 'NAD27_NAD83_GRID'].forEach(id => datumTransformationRegistry.removeTransformation(id));
+  });
+
+  it('should apply a seven-parameter Helmert transformation and its exact inverse', () => {
+    // Exemple EPSG (Guidance Note 7-2) : WGS 72 vers WGS 84, convention vecteur position
+    datumTransformationRegistry.registerEllipsoid('WGS72', { name: 'WGS 72', a: 6378135, rf: 298.26 });
+    datumTransformationRegistry.registerDatum({ code: 'WGS72', name: 'World Geodetic System 1972', ellipsoid: 'WGS72' });
+    datumTransformationRegistry.registerHelmert('WGS72_WGS84', 'WGS72', 'WGS84', { tx: 0, ty: 0, tz: 4.5, rz: 0.554, ds: 0.219 }, 2);
+
+    const result = datumTransformationRegistry.transform({ lat: 55, lon: 4, h: 0 }, 'WGS72', 'WGS84');
+    const [x, y, z] = CoordinateSystemManager.toECEF(result.lat, result.lon, result.h);
+    expect(x).toBeCloseTo(3657660.78, 1);
+    expect(y).toBeCloseTo(255778.43, 1);
+    expect(z).toBeCloseTo(5201387.75, 1);
+    expect(result.steps.map(step => step.id)).toEqual(['WGS72_WGS84']);
+
+    const back = datumTransformationRegistry.transform(result, 'WGS84', 'WGS72');
+    expect(back.lat).toBeCloseTo(55, 10);
+    expect(back.lon).toBeCloseTo(4, 10);
+    expect(back.h!).toBeCloseTo(0, 4);
+    expect(back.steps[0].inverse).toBe(true);
+  });
+
+  it('should chain legacy datums through WGS84 and combine their accuracies', () => {
+    const result = CoordinateSystemManager.transform(11.5, 4, 'EPSG:4263', 'EPSG:4201', 500);
+
+    expect(result.steps.map(step => `${step.source}>${step.target}`)).toEqual(['MINNA>WGS84', 'WGS84>ADINDAN']);
+    expect(result.accuracy).toBeCloseTo(Math.sqrt(2) * 44, 6);
+    // Minna et Adindan diffèrent d'une cinquantaine de mètres au Cameroun
+    const shift = CoordinateSystemManager.calculateDistance({ x: 11.5, y: 4 }, { x: result.x, y: result.y });
+    expect(shift).toBeGreaterThan(50);
+    expect(shift).toBeLessThan(200);
+
+    const back = CoordinateSystemManager.transform(result.x, result.y, 'EPSG:4201', 'EPSG:4263', result.z);
+    expect(back.x).toBeCloseTo(11.5, 9);
+    expect(back.y).toBeCloseTo(4, 9);
+    expect(back.z!).toBeCloseTo(500, 3);
+
+    // Même datum : simple changement de projection, sans incertitude ajoutée
+    const utm = CoordinateSystemManager.transform(11.5, 4, 'EPSG:4263', 'EPSG:26332');
+    expect(utm.steps).toEqual([]);
+    expect(utm.accuracy).toBe(0);
+    expect(CoordinateSystemManager.toWGS84(utm.x, utm.y, 'EPSG:26332').lon).toBeCloseTo(11.499, 2);
+  });
+
+  it('should load an NTv2 grid and prefer it over the regional Helmert shift', async () => {
+    const before = CoordinateSystemManager.transform(600000, 2428000, 'EPSG:27572', 'EPSG:2154');
+    expect(before.steps.map(step => step.id)).toEqual(['NTF_RGF93']);
+    expect(before.accuracy).toBe(2);
+
+    await datumTransformationRegistry.loadGrid(
+      { id: 'NTF_RGF93_GRID', source: 'NTF', target: 'RGF93' },
+      new Blob([buildNTv2(parisGrid)])
+    );
+
+    // La sous-grille fine est utilisée à Paris, avec la précision de ses nœuds
+    const paris = CoordinateSystemManager.transform(2.3522, 48.8566, 'EPSG:4275', 'EPSG:4171');
+    expect(paris.steps.map(step => step.id)).toEqual(['NTF_RGF93_GRID']);
+    expect(paris.y).toBeCloseTo(48.8566 + (1.2 + 0.5 * 0.8566) / 3600, 9);
+    expect(paris.x).toBeCloseTo(2.3522 + (-3.8 + 0.8522) / 3600, 9);
+    expect(paris.accuracy).toBeCloseTo(Math.hypot(0.02, 0.02), 6);
+
+    // Hors sous-grille : grille mère ; inverse itératif
+    const rouen = CoordinateSystemManager.transform(1.6, 49.4, 'EPSG:4275', 'EPSG:4171');
+    expect(rouen.y).toBeCloseTo(49.4 + (1 + 0.5 * 1.4) / 3600, 9);
+    expect(rouen.accuracy).toBeCloseTo(Math.hypot(0.08, 0.08), 6);
+    const back = CoordinateSystemManager.transform(rouen.x, rouen.y, 'EPSG:4171', 'EPSG:4275');
+    expect(back.x).toBeCloseTo(1.6, 10);
+    expect(back.y).toBeCloseTo(49.4, 10);
+    expect(back.steps[0].inverse).toBe(true);
+
+    // Hors grille : retour au Helmert régional
+    const marseille = CoordinateSystemManager.getTransformationPath('EPSG:4275', 'EPSG:4171', { x: 5.37, y: 43.3 });
+    expect(marseille!.map(step => step.id)).toEqual(['NTF_RGF93']);
+
+    // Le fichier grand-boutiste donne la même grille
+    const big = DatumTransformationRegistry.parseNTv2(buildNTv2(parisGrid, false));
+    const little = DatumTransformationRegistry.parseNTv2(buildNTv2(parisGrid));
+    expect(big.subgrids.map(g => [g.name, g.parent, g.rows, g.cols])).toEqual([['PARENT', null, 4, 5], ['PARIS', 'PARENT', 3, 5]]);
+    expect(Array.from(big.subgrids[1].lonShift)).toEqual(Array.from(little.subgrids[1].lonShift));
+  });
+
+  it('should chain a NADCON grid with the NAD83 realisation inside its extent', async () => {
+    await datumTransformationRegistry.loadGrid(
+      { id: 'NAD27_NAD83_GRID', source: 'NAD27', target: 'NAD83' },
+      { latitude: buildNADCON(0.3), longitude: new Uint8Array(buildNADCON(1.2)) }
+    );
+
+    const inside = CoordinateSystemManager.transform(-97, 35.5, 'EPSG:4267', 'EPSG:4269');
+    expect(inside.y).toBeCloseTo(35.5 + 0.3 / 3600, 9);
+    // Décalage NADCON en longitude positif vers l'ouest
+    expect(inside.x).toBeCloseTo(-97 - 1.2 / 3600, 9);
+    expect(inside.accuracy).toBeCloseTo(0.15, 6);
+
+    const toWgs84 = CoordinateSystemManager.getTransformationPath('EPSG:4267', 'EPSG:4326', { x: -97, y: 35.5 });
+    expect(toWgs84!.map(step => step.id)).toEqual(['NAD27_NAD83_GRID', 'NAD83_WGS84']);
+    expect(CoordinateSystemManager.transform(-97, 35.5, 'EPSG:4267', 'EPSG:4326').accuracy).toBeCloseTo(Math.hypot(0.15, 4), 6);
+
+    const outside = CoordinateSystemManager.transform(-97, 40, 'EPSG:4267', 'EPSG:4326');
+    expect(outside.steps.map(step => step.id)).toEqual(['NAD27_WGS84_CONUS']);
+    expect(outside.accuracy).toBe(10);
+
+    // Aucune transformation ne couvre ce point
+    expect(() => CoordinateSystemManager.transform(10, 50, 'EPSG:4267', 'EPSG:4263')).toThrow('No transformation');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import proj4 from 'proj4';
+import { epsgRegistry } from '../EPSGRegistry';
+import { CoordinateSystemManager } from '../CoordinateSystemManager';
+
+describe('EPSGRegistry', () => {
+  it('should pick real WGS 84 / UTM codes', () => {
+    expect(CoordinateSystemManager.findBestUTMZone(11.5, 3.9)).toBe('EPSG:32632'); // Douala
+    expect(CoordinateSystemManager.findBestUTMZone(-43.2, -22.9)).toBe('EPSG:32723'); // Rio
+    expect(CoordinateSystemManager.findBestUTMZone(-177, 10)).toBe('EPSG:32601');
+    expect(CoordinateSystemManager.findBestUTMZone(180, -10)).toBe('EPSG:32760');
+    expect(CoordinateSystemManager.findBestUTMZone(5, 60)).toBe('EPSG:32632'); // Exception norvégienne
+
+    // Au méridien central, l'abscisse vaut 500 km et le sud part de 10 000 km
+    const utm = CoordinateSystemManager.convert(-45, -10, 'EPSG:4326', CoordinateSystemManager.findBestUTMZone(-45, -10));
+    expect(utm.x).toBeCloseTo(500000, 3);
+    expect(utm.y).toBeGreaterThan(8800000);
+  });
+
+  it('should report areas of use in WGS84 degrees', () => {
+    const zone = CoordinateSystemManager.getProjectionInfo('EPSG:32633')!;
+    expect(zone.name).toBe('WGS 84 / UTM zone 33N');
+    expect(zone.bbox).toEqual({ minX: 12, minY: 0, maxX: 18, maxY: 84 });
+    expect(zone.areaOfUse).toBe('Between 12°E and 18°E, northern hemisphere');
+    expect(zone.isProjected).toBe(true);
+
+    const wgs84 = CoordinateSystemManager.getProjectionInfo('EPSG:4326')!;
+    expect(wgs84.isGeographic).toBe(true);
+    expect(CoordinateSystemManager.isInBoundingBox(652000, 6862000, CoordinateSystemManager.getProjectionInfo('EPSG:2154')!.bbox, 'EPSG:2154')).toBe(true);
+    expect(CoordinateSystemManager.getProjectionInfo('EPSG:99999')).toBeNull();
+  });
+
+  it('should search by name and by location', () => {
+    expect(CoordinateSystemManager.searchProjections('lambert 93').map(crs => crs.code)).toEqual(['EPSG:2154']);
+    expect(CoordinateSystemManager.searchProjections('utm zone 33', { kind: 'projected' }).map(crs => crs.code))
+      .toEqual(expect.arrayContaining(['EPSG:32633', 'EPSG:32733']));
+
+    // Paris : la zone CC49 est la plus locale, la CC48, le Lambert 93 et l'UTM 31N suivent
+    const paris = CoordinateSystemManager.findProjectionsAt(2.35, 48.85, 'projected').map(crs => crs.code);
+    expect(paris[0]).toBe('EPSG:3949');
+    expect(paris).toEqual(expect.arrayContaining(['EPSG:2154', 'EPSG:32631', 'EPSG:3948']));
+    expect(paris).not.toContain('EPSG:3950');
+    expect(paris).not.toContain('EPSG:26332');
+  });
+
+  it('should offer the Minna UTM zones on both sides of Cameroon', () => {
+    // Bertoua, à l'est de 12°E : Minna / UTM 33N avant la zone WGS 84
+    const east = CoordinateSystemManager.findProjectionsAt(13.68, 4.58, 'projected').map(crs => crs.code);
+    expect(east).toEqual(expect.arrayContaining(['EPSG:26333', 'EPSG:32633']));
+    expect(east.indexOf('EPSG:26333')).toBeLessThan(east.indexOf('EPSG:32633'));
+    expect(east).not.toContain('EPSG:26332');
+
+    expect(CoordinateSystemManager.getCrsDatum('EPSG:26333')).toBe('MINNA');
+    expect(CoordinateSystemManager.searchProjections('minna utm').map(crs => crs.code))
+      .toEqual(['EPSG:26331', 'EPSG:26332', 'EPSG:26333']);
+
+    // Au méridien central (15°E), l'abscisse vaut 500 km
+    const utm = CoordinateSystemManager.convert(15, 4.58, 'EPSG:4326', 'EPSG:26333');
+    expect(utm.x).toBeCloseTo(500000, -3);
+  });
+
+  it('should bundle WKT definitions consistent with the PROJ strings', () => {
+    // Projection seule, sans changement de datum (radians)
+    const point = { x: (9.7 * Math.PI) / 180, y: (4.05 * Math.PI) / 180 };
+    ['EPSG:2154', 'EPSG:3949', 'EPSG:32733', 'EPSG:26332', 'EPSG:26333'].forEach(code => {
+      const definition = epsgRegistry.get(code)!;
+      const fromWkt = proj4.Proj(definition.wkt!).forward({ ...point });
+      const fromProj = proj4.Proj(definition.proj4).forward({ ...point });
+      expect(fromWkt.x).toBeCloseTo(fromProj.x, 3);
+      expect(fromWkt.y).toBeCloseTo(fromProj.y, 3);
+    });
+  });
+
+  it('should register custom projections with their datum and area of use', () => {
+    CoordinateSystemManager.registerCrs(
+      'EPSG:2066',
+      '+proj=tmerc +lat_0=0 +lon_0=8.5 +k=0.999 +x_0=1000000 +y_0=1000000 +a=6378249.145 +rf=293.465 +units=m +no_defs',
+      'MINNA',
+      [6, 1.65, 16.21, 13.9]
+    );
+
+    expect(CoordinateSystemManager.getCrsDatum('EPSG:2066')).toBe('MINNA');
+    expect(CoordinateSystemManager.findProjectionsAt(9.7, 4.05).map(crs => crs.code)).toContain('EPSG:2066');
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { GeoidRegistry, geoidRegistry } from '../GeoidModel';
+import { CoordinateSystemManager } from '../CoordinateSystemManager';
+
+// Géoïde synthétique : quadratique en latitude, périodique en longitude
+const undulation = (lat: number, lon: number) =>
+  20 + 0.005 * lat * lat - 0.1 * lat + 8 * Math.cos((lon * Math.PI) / 180);
+
+const OFFSET = -108;
+const SCALE = 0.003;
+
+// Grille mondiale au format PGM de GeographicLib (pas de 10°, du pôle Nord vers le sud)
+function buildPGM(step = 10): ArrayBuffer {
+  const cols = 360 / step;
+  const rows = 180 / step + 1;
+  const header = `P5\n# Geoid file in PGM format for the GeographicLib::Geoid class\n# Offset ${OFFSET}\n# Scale ${SCALE}\n${cols} ${rows}\n65535\n`;
+  const buffer = new ArrayBuffer(header.length + cols * rows * 2);
+  new Uint8Array(buffer).set(Array.from(header, char => char.charCodeAt(0)));
+  const view = new DataView(buffer, header.length);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const raw = Math.round((undulation(90 - row * step, col * step) - OFFSET) / SCALE);
+      view.setUint16((row * cols + col) * 2, raw, false);
+    }
+  }
+  return buffer;
+}
+
+// Grille nationale GTX sur la France avec un nœud sans donnée en mer
+function buildGTX(): ArrayBuffer {
+  const [south, west, step, rows, cols] = [41, -5, 0.5, 21, 21];
+  const buffer = new ArrayBuffer(40 + rows * cols * 4);
+  const view = new DataView(buffer);
+  view.setFloat64(0, south, false);
+  view.setFloat64(8, west + 360, false);
+  view.setFloat64(16, step, false);
+  view.setFloat64(24, step, false);
+  view.setInt32(32, rows, false);
+  view.setInt32(36, cols, false);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const lat = south + row * step;
+      const lon = west + col * step;
+      const value = row === 0 && col === 0 ? -88.8888 : 45 + 0.5 * (lat - 41) + 0.2 * lon;
+      view.setFloat32(40 + (row * cols + col) * 4, value, false);
+    }
+  }
+  return buffer;
+}
+
+describe('GeoidModel', () => {
+  afterEach(() => {
+    geoidRegistry.setInterpolation('bilinear');
+  });
+
+  it('should read a GeographicLib PGM grid and wrap longitudes around the globe', async () => {
+    await geoidRegistry.loadModel('EGM2008', buildPGM());
+
+    // Aux nœuds, seule la quantification (3 mm) intervient
+    expect(geoidRegistry.getUndulation(40, 30, 'EGM2008')).toBeCloseTo(undulation(40, 30), 2);
+    expect(geoidRegistry.getUndulation(-90, 0, 'EGM2008')).toBeCloseTo(undulation(-90, 0), 2);
+
+    // Continuité de part et d'autre du méridien 0/360
+    expect(geoidRegistry.getUndulation(12, -5, 'EGM2008'))
+      .toBeCloseTo(geoidRegistry.getUndulation(12, 355, 'EGM2008'), 9);
+    expect(geoidRegistry.listVerticalDatums().find(datum => datum.code === 'EGM2008')?.loaded).toBe(true);
+  });
+
+  it('should reproduce a quadratic surface with biquadratic interpolation', async () => {
+    await geoidRegistry.loadModel('EGM2008', buildPGM());
+    const [lat, lon] = [45, 180];
+
+    // Le terme 0.005·lat² laisse 0.125 m d'erreur à mi-maille en bilinéaire
+    const bilinear = geoidRegistry.getUndulation(lat, lon, 'EGM2008', 'bilinear');
+    expect(Math.abs(bilinear - undulation(lat, lon))).toBeGreaterThan(0.1);
+
+    geoidRegistry.setInterpolation('biquadratic');
+    expect(geoidRegistry.getUndulation(lat, lon, 'EGM2008')).toBeCloseTo(undulation(lat, lon), 2);
+  });
+
+  it('should convert heights between vertical datums through a GTX national grid', async () => {
+    const model = await geoidRegistry.loadModel('NGF-IGN69', buildGTX(), 'RAF synthetic');
+    expect(model.west).toBe(-5);
+    expect(model.global).toBe(false);
+
+    const [lat, lon, h] = [46.25, 2.3, 250];
+    const n = 45 + 0.5 * (lat - 41) + 0.2 * lon;
+    expect(geoidRegistry.convertHeight(lat, lon, h, 'ELLIPSOIDAL', 'NGF-IGN69')).toBeCloseTo(h - n, 4);
+
+    // Lambert 93 avec altitudes NGF-IGN69
+    const projected = CoordinateSystemManager.convert(lon, lat, 'EPSG:4326', 'EPSG:2154', h, {
+      targetVerticalDatum: 'NGF-IGN69',
+    });
+    expect(projected.z!).toBeCloseTo(h - n, 2);
+    const back = CoordinateSystemManager.toWGS84(projected.x, projected.y, 'EPSG:2154', projected.z, {
+      sourceVerticalDatum: 'NGF-IGN69',
+    });
+    expect(back.alt!).toBeCloseTo(h, 2);
+
+    // Passage d'une référence altimétrique à l'autre
+    await geoidRegistry.loadModel('EGM2008', buildPGM());
+    expect(geoidRegistry.convertHeight(lat, lon, 200, 'NGF-IGN69', 'EGM2008'))
+      .toBeCloseTo(200 + n - geoidRegistry.getUndulation(lat, lon, 'EGM2008'), 4);
+  });
+
+  it('should reject positions outside the grid or on missing nodes', async () => {
+    await geoidRegistry.loadModel('NGF-IGN69', buildGTX());
+
+    expect(() => geoidRegistry.getUndulation(52, 2, 'NGF-IGN69')).toThrow('outside geoid model');
+    expect(() => geoidRegistry.getUndulation(41.1, -4.9, 'NGF-IGN69')).toThrow('no data');
+    expect(() => geoidRegistry.getUndulation(45, 2, 'NAVD88')).toThrow('No geoid model loaded');
+    expect(() => GeoidRegistry.parseGTX(new ArrayBuffer(16))).toThrow('Not a GTX geoid grid');
+  });
+});
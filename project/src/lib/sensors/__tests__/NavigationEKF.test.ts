@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { NavigationEKF } from '../NavigationEKF';
+import { CoordinateSystemManager } from '../CoordinateSystemManager';
+import type { GNSSData, IMUData } from '../SensorFusion';
+import { gaussian } from './testUtils';
+
+const ORIGIN: [number, number, number] = [48.86, 2.34, 35];
+const ORIGIN_ECEF = CoordinateSystemManager.toECEF(...ORIGIN);
+const G = 9.80665;
+const IMU_RATE = 50; // Hz
+
+// Position ENU locale → fix GNSS
+function fix(east: number, north: number, timestamp: number, accuracy = 3): GNSSData {
+  const ecef = CoordinateSystemManager.fromENU([east, north, 0], ORIGIN_ECEF);
+  const [latitude, longitude, altitude] = CoordinateSystemManager.fromECEF(...ecef);
+  return { latitude, longitude, altitude, timestamp, source: 'GNSS', accuracy };
+}
+
+// Appareil à plat, haut de l'écran vers le nord, vitesse constante
+function imuSample(timestamp: number, noise: () => number): IMUData {
+  return {
+    acceleration: [0.05 * noise(), 0.05 * noise(), G + 0.05 * noise()],
+    gyroscope: [0.001 * noise(), 0.001 * noise(), 0.001 * noise()],
+    timestamp,
+  };
+}
+
+function localPosition(ekf: NavigationEKF): number[] {
+  const [lat, lon, alt] = ekf.getGeodetic()!;
+  return CoordinateSystemManager.toENU(CoordinateSystemManager.toECEF(lat, lon, alt), ORIGIN_ECEF);
+}
+
+// Marche vers l'est à 1.2 m/s avec un fix par seconde, sauf pendant la coupure
+function walk(ekf: NavigationEKF, seconds: number, outage: [number, number] = [Infinity, Infinity]) {
+  const noise = gaussian(7);
+  const speed = 1.2;
+  for (let k = 0; k <= seconds * IMU_RATE; k++) {
+    const t = k * (1000 / IMU_RATE);
+    if (k % IMU_RATE === 0) {
+      const second = k / IMU_RATE;
+      if (second < outage[0] || second >= outage[1]) {
+        ekf.updateGnss(fix(speed * second + noise(), noise(), t, 1.5));
+      }
+    }
+    ekf.predict(imuSample(t, noise));
+  }
+  return speed;
+}
+
+describe('NavigationEKF', () => {
+  it('should track a walking survey and report velocity and covariance', () => {
+    const ekf = new NavigationEKF();
+    const speed = walk(ekf, 30);
+    const state = ekf.getState()!;
+
+    expect(state.velocity[0]).toBeCloseTo(speed, 0);
+    expect(Math.abs(state.velocity[1])).toBeLessThan(0.5);
+
+    const [east, north] = localPosition(ekf);
+    expect(Math.abs(east - speed * 30)).toBeLessThan(2);
+    expect(Math.abs(north)).toBeLessThan(2);
+
+    // Covariance symétrique et plus précise qu'un fix isolé
+    const P = ekf.getPositionCovariance()!;
+    expect(P[0][1]).toBeCloseTo(P[1][0], 12);
+    expect(P[0][0]).toBeGreaterThan(0);
+    expect(ekf.getHorizontalAccuracy()!).toBeLessThan(1.5 * Math.SQRT2);
+  });
+
+  it('should gate out GNSS outliers without jumping', () => {
+    const ekf = new NavigationEKF();
+    walk(ekf, 20);
+    const before = localPosition(ekf);
+    const state = ekf.getState()!;
+
+    // Multitrajet sous couvert : saut de 25 m au nord
+    const result = ekf.updateGnss(fix(before[0], before[1] + 25, state.timestamp + 20, 1.5));
+    expect(result.accepted).toBe(false);
+    expect(result.mahalanobis).toBeGreaterThan(result.threshold);
+    expect(result.threshold).toBeCloseTo(16.266, 2); // χ² 3 ddl à 99.9 %
+
+    const after = localPosition(ekf);
+    expect(Math.hypot(after[0] - before[0], after[1] - before[1])).toBeLessThan(0.5);
+    expect(ekf.getRejectedFixes()).toBe(1);
+  });
+
+  it('should bridge a GNSS outage and re-anchor after persistent rejections', () => {
+    const ekf = new NavigationEKF({ maxGnssRejections: 3 });
+    walk(ekf, 30, [15, 25]);
+    const [east] = localPosition(ekf);
+    expect(Math.abs(east - 1.2 * 30)).toBeLessThan(3);
+
+    // Fixes cohérents mais décalés de 40 m : le filtre finit par se recaler
+    const t0 = ekf.getState()!.timestamp;
+    const results = [1, 2, 3].map(i => ekf.updateGnss(fix(east + 40, 0, t0 + i * 100, 1)));
+    expect(results.map(r => r.accepted)).toEqual([false, false, true]);
+    expect(results[2].reset).toBe(true);
+    expect(localPosition(ekf)[0]).toBeCloseTo(east + 40, 0);
+    expect(ekf.getRejectedFixes()).toBe(0);
+  });
+
+  it('should level the attitude from gravity and grow uncertainty without aiding', () => {
+    const ekf = new NavigationEKF();
+    // Appareil incliné de 10° autour de x (pitch), cap 90°
+    const pitch = (10 * Math.PI) / 180;
+    ekf.predict({
+      acceleration: [0, G * Math.sin(pitch), G * Math.cos(pitch)],
+      gyroscope: [0, 0, 0],
+      orientation: { alpha: 90, beta: 10, gamma: 0 },
+      timestamp: 0,
+    });
+    ekf.updateGnss(fix(0, 0, 0));
+
+    const angles = ekf.getEulerAngles()!;
+    expect(angles.pitch).toBeCloseTo(pitch, 6);
+    expect(angles.roll).toBeCloseTo(0, 6);
+    expect(angles.yaw).toBeCloseTo(Math.PI / 2, 6);
+
+    const initial = ekf.getHorizontalAccuracy()!;
+    ekf.updateGnss({ ...fix(0, 0, 5000), altitude: undefined, accuracy: 1e6 });
+    expect(ekf.getHorizontalAccuracy()!).toBeGreaterThan(initial);
+  });
+});
@@ -0,0 +1,293 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Le fetcher enregistre ses sources dans le localStorage dès son import
+vi.hoisted(() => {
+  const store = new Map<string, string>();
+  globalThis.localStorage = {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => void store.set(key, value),
+    removeItem: (key: string) => void store.delete(key),
+    clear: () => store.clear(),
+    key: (index: number) => Array.from(store.keys())[index] ?? null,
+    get length() { return store.size; },
+  } as Storage;
+});
+
+import { NtripCaster } from '../NtripCaster';
+import { buildNtripRequest, concatBytes, parseNtripResponse, parseSourcetable } from '../NtripProtocol';
+import { GNSSFormatManager } from '../GNSSFormatManager';
+import { RTCMDecoder } from '../../gnss/RTCMDecoder';
+import { gnssCorrectionFetcher } from '../GNSSCorrectionFetcher';
+
+// Mobile à Paris (48°51.6' N, 2°20.4' E)
+const ROVER_GGA = '$GPGGA,120000.00,4851.6000,N,00220.4000,E,1,08,1.0,35.0,M,0.0,M,,0000*6A';
+
+const FRAME_1005 = 'D300133ED7D30202980EDEEF34B4BD62AC0941986F33360B98';
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g)!.map(h => parseInt(h, 16)));
+
+// Écriture bit à bit d'un MSM4 GPS minimal (un satellite, un signal)
+function msm4Frame(tow: number): Uint8Array {
+  const bits: number[] = [];
+  const put = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push(Math.floor(value / 2 ** i) % 2);
+  };
+  put(1074, 12); put(2003, 12); put(tow * 1000, 30); put(0, 1);
+  put(0, 3); put(0, 7); put(0, 2); put(0, 2); put(0, 1); put(0, 3);
+  for (let bit = 1; bit <= 64; bit++) put(bit === 7 ? 1 : 0, 1);
+  for (let bit = 1; bit <= 32; bit++) put(bit === 2 ? 1 : 0, 1);
+  put(1, 1);
+  put(72, 8); put(100, 10);
+  put(10, 15); put(20, 22); put(5, 4); put(0, 1); put(44, 6);
+
+  const payload = new Uint8Array(Math.ceil(bits.length / 8));
+  bits.forEach((bit, i) => { if (bit) payload[i >> 3] |= 0x80 >> (i & 7); });
+  const frame = new Uint8Array(payload.length + 6);
+  frame.set([0xd3, payload.length >> 8, payload.length & 0xff]);
+  frame.set(payload, 3);
+  const crc = RTCMDecoder.crc24q(frame, 0, payload.length + 3);
+  frame.set([crc >> 16, (crc >> 8) & 0xff, crc & 0xff], payload.length + 3);
+  return frame;
+}
+
+// Enregistrement de 10 époques : 1005 puis un MSM4 par seconde
+function recording(): Uint8Array {
+  const parts: Uint8Array[] = [];
+  for (let k = 0; k < 10; k++) {
+    if (k % 5 === 0) parts.push(fromHex(FRAME_1005));
+    parts.push(msm4Frame(216000 + k));
+  }
+  return concatBytes(parts);
+}
+
+// Ouvre une connexion brute sur le caster et renvoie tout ce qu'il répond
+async function rawRequest(caster: NtripCaster, request: string): Promise<string> {
+  const socket = caster.createSocket('ws://localhost:2101/');
+  const received: Uint8Array[] = [];
+  socket.onopen = () => socket.send(request);
+  socket.onmessage = event => received.push(new Uint8Array(event.data as ArrayBuffer));
+  await vi.advanceTimersByTimeAsync(10);
+  return new TextDecoder().decode(concatBytes(received));
+}
+
+describe('NtripCaster', () => {
+  let caster: NtripCaster;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    caster = new NtripCaster({ latitude: 48.85, longitude: 2.35 });
+    caster.addMountpoint({ mountpoint: 'PARIS', data: recording(), navSystem: 'GPS', latitude: 48.85, longitude: 2.35 });
+    caster.addMountpoint({
+      mountpoint: 'PRIVATE',
+      data: recording(),
+      credentials: [{ username: 'geometre', password: 'secret' }],
+    });
+
+    gnssCorrectionFetcher.getSources().forEach(source => gnssCorrectionFetcher.removeSource(source.id));
+    gnssCorrectionFetcher.setSocketFactory(caster.socketFactory);
+  });
+
+  afterEach(() => {
+    gnssCorrectionFetcher.getSources().forEach(source => gnssCorrectionFetcher.removeSource(source.id));
+    gnssCorrectionFetcher.setSocketFactory(null);
+    caster.close();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should serve the sourcetable and enforce mountpoint authentication', async () => {
+    const table = await rawRequest(caster, buildNtripRequest({ host: 'localhost', version: 2 }));
+    expect(table).toContain('Content-Type: gnss/sourcetable');
+    expect(table).toMatch(/^STR;PARIS;PARIS;RTCM 3\.3;1005\(5\),1074\(1\);2;GPS;/m);
+    expect(table).toMatch(/^STR;PRIVATE;.*;B;N;/m);
+    expect(table.trim().endsWith('ENDSOURCETABLE')).toBe(true);
+
+    const refused = await rawRequest(caster, buildNtripRequest({ host: 'localhost', mountpoint: 'PRIVATE', version: 1 }));
+    expect(refused.startsWith('HTTP/1.0 401 Unauthorized')).toBe(true);
+
+    const accepted = await rawRequest(caster, buildNtripRequest({
+      host: 'localhost', mountpoint: 'PRIVATE', version: 1, username: 'geometre', password: 'secret',
+    }));
+    expect(accepted.startsWith('ICY 200 OK')).toBe(true);
+    expect(parseNtripResponse(new TextEncoder().encode(accepted))?.kind).toBe('stream');
+  });
+
+  it('should stream RTCM to the fetcher over NTRIP 1.0 and 2.0 and count uptime', async () => {
+    for (const ntripVersion of [1, 2] as const) {
+      const id = gnssCorrectionFetcher.addSource({
+        name: `Local v${ntripVersion}`,
+        url: 'http://localhost:2101/PRIVATE',
+        type: 'NTRIP',
+        format: 'RTCM3',
+        requiresAuth: true,
+        username: 'geometre',
+        password: 'secret',
+        ntripVersion,
+        priority: 5,
+      });
+
+      const connecting = gnssCorrectionFetcher.connect(id);
+      await vi.advanceTimersByTimeAsync(10);
+      await connecting;
+      await vi.advanceTimersByTimeAsync(6000);
+
+      const stats = gnssCorrectionFetcher.getStats(id)!;
+      expect(stats.uptime).toBeGreaterThanOrEqual(5);
+      expect(stats.crcErrors).toBe(0);
+      expect(stats.messageTypes[1074]).toBeGreaterThanOrEqual(5);
+      expect(stats.messageTypes[1005]).toBeGreaterThanOrEqual(1);
+      expect(stats.referenceStation?.stationId).toBe(2003);
+      expect(stats.satellites.G).toBe(1);
+      expect(caster.getClients()[0].version).toBe(ntripVersion);
+
+      gnssCorrectionFetcher.disconnect(id);
+      await vi.advanceTimersByTimeAsync(10);
+      expect(caster.getClients()).toHaveLength(0);
+    }
+  });
+
+  it('should reconnect after the caster drops and stop counting uptime meanwhile', async () => {
+    const id = gnssCorrectionFetcher.addSource({
+      name: 'Local', url: 'http://localhost:2101/PARIS', type: 'NTRIP', format: 'RTCM3',
+      requiresAuth: false, priority: 5,
+    });
+    const events: string[] = [];
+    gnssCorrectionFetcher.on('connected', () => events.push('connected'));
+    gnssCorrectionFetcher.on('disconnected', () => events.push('disconnected'));
+
+    const connecting = gnssCorrectionFetcher.connect(id);
+    await vi.advanceTimersByTimeAsync(10);
+    await connecting;
+    await vi.advanceTimersByTimeAsync(3000);
+
+    caster.setOnline(false);
+    await vi.advanceTimersByTimeAsync(10);
+    const uptimeAtDrop = gnssCorrectionFetcher.getStats(id)!.uptime;
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(gnssCorrectionFetcher.getStats(id)!.uptime).toBe(uptimeAtDrop);
+    expect(gnssCorrectionFetcher.getSources()[0].lastStatus).toBe('disconnected');
+
+    caster.setOnline(true);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(events).toEqual(['connected', 'disconnected', 'connected']);
+    expect(caster.getClients()).toHaveLength(1);
+
+    gnssCorrectionFetcher.removeAllListeners('connected');
+    gnssCorrectionFetcher.removeAllListeners('disconnected');
+  });
+
+  it('should fall back to the next best source when autoConnect fails', async () => {
+    const near = gnssCorrectionFetcher.addSource({
+      name: 'Proche, mauvais point de montage', url: 'http://localhost:2101/UNKNOWN', type: 'NTRIP',
+      format: 'RTCM3', requiresAuth: false, priority: 5, location: { lat: 48.85, lon: 2.35 },
+    });
+    const far = gnssCorrectionFetcher.addSource({
+      name: 'Lointain', url: 'http://localhost:2101/PARIS', type: 'NTRIP',
+      format: 'RTCM3', requiresAuth: false, priority: 5, location: { lat: 45.76, lon: 4.84 },
+    });
+    expect(gnssCorrectionFetcher.findBestSource(48.86, 2.34)?.id).toBe(near);
+
+    const connecting = gnssCorrectionFetcher.autoConnect(48.86, 2.34);
+    await vi.advanceTimersByTimeAsync(50);
+    expect(await connecting).toBe(far);
+    expect(gnssCorrectionFetcher.getSources().find(s => s.id === near)?.error).toContain('not found');
+  });
+});
+
+describe('NTRIP sourcetable', () => {
+  let caster: NtripCaster;
+  let casterId: string;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    caster = new NtripCaster({ latitude: 47, longitude: 2 });
+    caster.addMountpoint({ mountpoint: 'PARIS', data: recording(), latitude: 48.85, longitude: 2.35 });
+    caster.addMountpoint({ mountpoint: 'LYON', data: recording(), navSystem: 'GPS+GLO', latitude: 45.76, longitude: 4.84 });
+    caster.addMountpoint({
+      mountpoint: 'VRS_NET', data: recording(), navSystem: 'GPS+GLONASS+Galileo', nmea: true, solution: 1,
+      latitude: 48.9, longitude: 2.3,
+    });
+    caster.addMountpoint({ mountpoint: 'CMR_ONLY', data: recording(), format: 'CMR+', latitude: 48.86, longitude: 2.34 });
+
+    gnssCorrectionFetcher.getSources().forEach(source => gnssCorrectionFetcher.removeSource(source.id));
+    gnssCorrectionFetcher.setSocketFactory(caster.socketFactory);
+    casterId = gnssCorrectionFetcher.addSource({
+      name: 'Caster local', url: 'http://localhost:2101/', type: 'NTRIP', format: 'RTCM3',
+      requiresAuth: false, priority: 5, ntripVersion: 1,
+    });
+  });
+
+  afterEach(() => {
+    gnssCorrectionFetcher.getSources().forEach(source => gnssCorrectionFetcher.removeSource(source.id));
+    gnssCorrectionFetcher.setSocketFactory(null);
+    caster.close();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should parse STR, CAS and NET records', () => {
+    const table = parseSourcetable([
+      'CAS;caster.example.org;2101;Example;Operator;0;FRA;48.80;2.20;0.0;0;http://example.org',
+      'NET;RGP;IGN;B;N;http://rgp.ign.fr;none;http://rgp.ign.fr/register;none',
+      'STR;MLVL0;Marne-la-Vallee;RTCM 3.2;1004(1),1005(10);2;GPS+GLO;RGP;FRA;48.84;2.59;0;0;Trimble;none;B;N;5000;misc;with;semicolons',
+      'STR;broken',
+      'ENDSOURCETABLE',
+    ].join('\r\n'));
+
+    expect(table.casters[0]).toMatchObject({ host: 'caster.example.org', port: 2101, latitude: 48.8 });
+    expect(table.networks[0]).toMatchObject({ identifier: 'RGP', authentication: 'B', webRegistration: 'http://rgp.ign.fr/register' });
+    expect(table.streams).toHaveLength(1);
+    expect(table.streams[0]).toMatchObject({
+      mountpoint: 'MLVL0', format: 'RTCM 3.2', carrier: 2, navSystem: 'GPS+GLO', nmea: false,
+      latitude: 48.84, longitude: 2.59, authentication: 'B', bitrate: 5000, misc: 'misc;with;semicolons',
+    });
+  });
+
+  it('should download the sourcetable and rank compatible mountpoints by distance', async () => {
+    for (const ntripVersion of [1, 2] as const) {
+      gnssCorrectionFetcher.updateSource(casterId, { ntripVersion });
+      const fetching = gnssCorrectionFetcher.fetchSourcetable(casterId);
+      await vi.advanceTimersByTimeAsync(10);
+      const table = await fetching;
+
+      expect(table.casters[0].host).toBe('localhost');
+      expect(table.streams.map(s => s.mountpoint)).toEqual(['PARIS', 'LYON', 'VRS_NET', 'CMR_ONLY']);
+    }
+
+    // CMR_ONLY est le plus proche mais n'est pas en RTCM 3
+    expect(gnssCorrectionFetcher.findNearestMountpoint(casterId, 48.86, 2.34)?.mountpoint.mountpoint).toBe('PARIS');
+    expect(gnssCorrectionFetcher.findNearestMountpoint(casterId, 48.86, 2.34, { navSystems: ['GLONASS'] })
+      ?.mountpoint.mountpoint).toBe('VRS_NET');
+    expect(gnssCorrectionFetcher.findNearestMountpoint(casterId, 48.86, 2.34, { navSystems: ['GLO'], allowNetwork: false })
+      ?.mountpoint.mountpoint).toBe('LYON');
+    expect(gnssCorrectionFetcher.findNearestMountpoint(casterId, 48.86, 2.34, { navSystems: ['BDS'] })).toBeNull();
+  });
+
+  it('should connect to the nearest VRS mountpoint and keep sending the rover GGA', async () => {
+    const received: string[] = [];
+    caster.on('gga', ({ gga }) => received.push(gga));
+
+    const connecting = gnssCorrectionFetcher.connectNearestMountpoint(casterId, ROVER_GGA, { navSystems: ['GAL'] });
+    await vi.advanceTimersByTimeAsync(20);
+    const mountpoint = await connecting;
+
+    expect(mountpoint?.mountpoint).toBe('VRS_NET');
+    expect(gnssCorrectionFetcher.getSources()[0]).toMatchObject({ mountpoint: 'VRS_NET', nmeaRequired: true });
+    expect(caster.getClients()[0].mountpoint).toBe('VRS_NET');
+    // Position envoyée avec la requête NTRIP 1.0
+    expect(received).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(20000);
+    expect(received.length).toBeGreaterThanOrEqual(3);
+
+    const position = GNSSFormatManager.parseNMEA(received[received.length - 1])!;
+    expect(position.latitude).toBeCloseTo(48.86, 6);
+    expect(position.longitude).toBeCloseTo(2.34, 6);
+    expect(gnssCorrectionFetcher.getStats(casterId)!.messageTypes[1074]).toBeGreaterThan(10);
+  });
+});
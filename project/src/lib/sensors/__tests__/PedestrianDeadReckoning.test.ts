@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { PedestrianDeadReckoning, type PdrStep } from '../PedestrianDeadReckoning';
+import { CoordinateSystemManager } from '../CoordinateSystemManager';
+import type { IMUData } from '../SensorFusion';
+
+const G = 9.80665;
+const RATE = 50; // Hz
+const CADENCE = 1.8; // pas par seconde
+const START = { lat: 48.86, lon: 2.34 };
+
+// Champ magnétique (μT) vu par un appareil à plat orienté au cap donné
+function magneticField(headingDeg: number): [number, number, number] {
+  const h = (headingDeg * Math.PI) / 180;
+  return [-20 * Math.sin(h), 20 * Math.cos(h), -40];
+}
+
+// Marche à plat : oscillation verticale à la cadence, gyro optionnel
+function walkSamples(
+  seconds: number,
+  options: { heading?: number; t0?: number; yawRate?: number; field?: [number, number, number] } = {}
+): IMUData[] {
+  const samples: IMUData[] = [];
+  const t0 = options.t0 ?? 0;
+  for (let k = 0; k < seconds * RATE; k++) {
+    const t = k / RATE;
+    samples.push({
+      acceleration: [0, 0, G + 2.5 * Math.sin(2 * Math.PI * CADENCE * t)],
+      gyroscope: [0, 0, options.yawRate ?? 0],
+      magnetometer: options.field ?? (options.heading !== undefined ? magneticField(options.heading) : undefined),
+      timestamp: t0 + t * 1000,
+    });
+  }
+  return samples;
+}
+
+function offsetFromStart(pdr: PedestrianDeadReckoning): number[] {
+  const position = pdr.getPosition()!;
+  return CoordinateSystemManager.toENU(
+    CoordinateSystemManager.toECEF(position.lat, position.lon, 0),
+    CoordinateSystemManager.toECEF(START.lat, START.lon, 0)
+  );
+}
+
+describe('PedestrianDeadReckoning', () => {
+  it('should count steps and propagate north with a growing drift', () => {
+    const pdr = new PedestrianDeadReckoning();
+    pdr.anchor(START, 1, 0);
+    const steps: PdrStep[] = [];
+    pdr.on('step', (step: PdrStep) => steps.push(step));
+
+    walkSamples(60, { heading: 0 }).forEach(sample => pdr.update(sample));
+    const state = pdr.getState();
+
+    expect(Math.abs(state.steps - 60 * CADENCE)).toBeLessThanOrEqual(2);
+    expect(steps).toHaveLength(state.steps);
+    expect(state.heading! < 1 || state.heading! > 359).toBe(true);
+
+    // Longueur de pas de Weinberg : environ 0,6 m pour cette amplitude
+    const stepLength = state.distance / state.steps;
+    expect(stepLength).toBeGreaterThan(0.5);
+    expect(stepLength).toBeLessThan(0.8);
+
+    const [east, north] = offsetFromStart(pdr);
+    expect(north).toBeCloseTo(state.distance, 0);
+    expect(Math.abs(east)).toBeLessThan(1);
+
+    // La dérive croît à chaque pas
+    expect(steps[steps.length - 1].drift).toBeGreaterThan(steps[0].drift);
+    expect(state.drift).toBeGreaterThan(1);
+  });
+
+  it('should use a tilt-compensated magnetometer heading with declination', () => {
+    const pdr = new PedestrianDeadReckoning({ declination: 2 });
+    pdr.anchor(START, 1, 0);
+    walkSamples(20, { heading: 90 }).forEach(sample => pdr.update(sample));
+
+    expect(pdr.getState().heading!).toBeCloseTo(92, 0);
+    const [east, north] = offsetFromStart(pdr);
+    expect(east).toBeGreaterThan(10);
+    expect(Math.abs(north / east)).toBeLessThan(0.1);
+  });
+
+  it('should follow turns with the gyro and ignore disturbed magnetic fields', () => {
+    const pdr = new PedestrianDeadReckoning();
+    pdr.anchor(START, 1, 0);
+    pdr.setHeading(0, 2);
+
+    // Quart de tour à droite en 2 s (rotation horaire = vitesse négative autour de z)
+    const turn = walkSamples(2, { yawRate: -Math.PI / 4, field: [150, 0, 0] });
+    turn.forEach(sample => pdr.update(sample));
+    expect(Math.abs(pdr.getState().heading! - 90)).toBeLessThan(2);
+
+    // Un champ perturbé (structure métallique) est rejeté
+    const heading = pdr.getState().heading!;
+    walkSamples(5, { t0: 2000, field: [0, 150, -40] }).forEach(sample => pdr.update(sample));
+    expect(pdr.getState().heading!).toBeCloseTo(heading, 6);
+  });
+
+  it('should re-anchor on an OCR landmark and reset the drift', () => {
+    const pdr = new PedestrianDeadReckoning();
+    const anchored: unknown[] = [];
+    pdr.on('anchored', state => anchored.push(state));
+
+    // Pas d'ancrage : les pas mettent à jour le cap mais pas la position
+    walkSamples(5, { heading: 0 }).forEach(sample => pdr.update(sample));
+    expect(pdr.getPosition()).toBeNull();
+
+    pdr.anchor(START, 1, 5000);
+    walkSamples(30, { heading: 0, t0: 5000 }).forEach(sample => pdr.update(sample));
+    expect(pdr.getDrift()).toBeGreaterThan(1);
+
+    const landmark = { lat: 48.8602, lon: 2.3401, alt: 40 };
+    pdr.anchor(landmark, 2, 35000);
+    const state = pdr.getState();
+    expect(state.position!.lat).toBeCloseTo(landmark.lat, 9);
+    expect(state.position!.alt).toBe(40);
+    expect(state.drift).toBeCloseTo(2, 9);
+    expect(state.steps).toBe(0);
+    expect(state.anchorTimestamp).toBe(35000);
+    expect(anchored).toHaveLength(2);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { SiteCalibration, type ControlPointPair } from '../SiteCalibration';
+import { CoordinateSystemManager } from '../CoordinateSystemManager';
+
+// Chantier près de Douala ; le repère local est tourné, mis à l'échelle et décalé
+const SITE = CoordinateSystemManager.toECEF(4.05, 9.7, 20);
+const SCALE = 1.0001;
+const ROTATION = (2 * Math.PI) / 180;
+
+function measuredAt(east: number, north: number, up = 0) {
+  const ecef = CoordinateSystemManager.fromENU([east, north, up], SITE);
+  const [lat, lon, alt] = CoordinateSystemManager.fromECEF(ecef[0], ecef[1], ecef[2]);
+  return { lat, lon, alt };
+}
+
+// Grille locale « vraie » : similitude + plan incliné sur les hauteurs
+function localGrid(east: number, north: number, alt: number, stretch = 1) {
+  const x = east * stretch;
+  return {
+    easting: 1000 + SCALE * (Math.cos(ROTATION) * x - Math.sin(ROTATION) * north),
+    northing: 5000 + SCALE * (Math.sin(ROTATION) * x + Math.cos(ROTATION) * north),
+    elevation: alt - 12.4 + 2e-5 * north - 1e-5 * east,
+  };
+}
+
+const LAYOUT: Array<[string, number, number]> = [
+  ['CP1', -300, -250],
+  ['CP2', 350, -200],
+  ['CP3', 280, 320],
+  ['CP4', -260, 300],
+  ['CP5', 20, 40],
+];
+
+function controlPoints(stretch = 1): ControlPointPair[] {
+  return LAYOUT.map(([id, east, north]) => {
+    const measured = measuredAt(east, north);
+    return { id, measured, local: localGrid(east, north, measured.alt, stretch) };
+  });
+}
+
+describe('SiteCalibration', () => {
+  it('should solve a similarity transform and an inclined plane from control points', () => {
+    const { parameters, residuals, redundancy } = SiteCalibration.solve(controlPoints());
+
+    expect(parameters.horizontal.scale).toBeCloseTo(SCALE, 6);
+    expect(parameters.horizontal.rotation).toBeCloseTo(2, 4);
+    // Pentes exprimées dans la grille locale (tournée de 2°)
+    expect(parameters.vertical!.slopeNorth).toBeCloseTo(2e-5, 5);
+    expect(parameters.vertical!.slopeEast).toBeCloseTo(-1e-5, 5);
+    expect(redundancy).toEqual({ horizontal: 6, vertical: 2 });
+
+    residuals.forEach(residual => {
+      expect(residual.horizontal!).toBeLessThan(0.002);
+      expect(Math.abs(residual.vertical!)).toBeLessThan(0.002);
+      expect(residual.flagged).toBe(false);
+    });
+    expect(parameters.rms.horizontal).toBeLessThan(0.002);
+
+    // Un point levé hors des points de calage
+    const measured = measuredAt(150, -80, 1.5);
+    const truth = localGrid(150, -80, measured.alt);
+    const local = SiteCalibration.toLocal(parameters, measured);
+    expect(Math.abs(local.easting - truth.easting)).toBeLessThan(0.002);
+    expect(Math.abs(local.northing - truth.northing)).toBeLessThan(0.002);
+    expect(Math.abs(local.elevation! - truth.elevation)).toBeLessThan(0.002);
+
+    // Retour en WGS84
+    const back = SiteCalibration.toGeodetic(parameters, local);
+    expect(back.lat).toBeCloseTo(measured.lat, 9);
+    expect(back.lon).toBeCloseTo(measured.lon, 9);
+    expect(back.alt!).toBeCloseTo(measured.alt, 4);
+  });
+
+  it('should absorb a differential scale with the affine model', () => {
+    const points = controlPoints(1.0005);
+
+    const similarity = SiteCalibration.solve(points);
+    expect(similarity.parameters.rms.horizontal).toBeGreaterThan(0.05);
+    expect(similarity.residuals.some(residual => residual.flagged)).toBe(true);
+
+    const affine = SiteCalibration.solve(points, { model: 'affine' });
+    expect(affine.parameters.rms.horizontal).toBeLessThan(0.002);
+    expect(affine.redundancy.horizontal).toBe(4);
+  });
+
+  it('should flag a blundered control point and fall back to a vertical shift', () => {
+    const points = controlPoints();
+    points[2].local = { ...points[2].local, easting: points[2].local.easting + 0.15 };
+
+    const { residuals } = SiteCalibration.solve(points);
+    const worst = residuals.reduce((a, b) => (a.horizontal! > b.horizontal! ? a : b));
+    expect(worst.id).toBe('CP3');
+    expect(worst.flagged).toBe(true);
+    expect(worst.east!).toBeGreaterThan(0.08);
+
+    // Deux hauteurs seulement : translation verticale sans pente
+    const twoHeights = controlPoints().map((pair, i) => ({ ...pair, vertical: i < 2 }));
+    const { parameters } = SiteCalibration.solve(twoHeights);
+    expect(parameters.vertical!.slopeNorth).toBe(0);
+    expect(parameters.vertical!.slopeEast).toBe(0);
+    expect(parameters.vertical!.shift).toBeCloseTo(-12.4, 1);
+  });
+
+  it('should reject too few or degenerate control points', () => {
+    const points = controlPoints();
+    expect(() => SiteCalibration.solve(points.slice(0, 1))).toThrow('at least 2');
+    expect(() => SiteCalibration.solve(points.slice(0, 2), { model: 'affine' })).toThrow('at least 3');
+
+    const collinear = [0, 100, 200].map((north, i): ControlPointPair => {
+      const measured = measuredAt(0, north);
+      return { id: `L${i}`, measured, local: localGrid(0, north, measured.alt) };
+    });
+    expect(() => SiteCalibration.solve(collinear, { model: 'affine' })).toThrow('collinear');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { TrajectorySmoother, type SmoothedTrajectory } from '../TrajectorySmoother';
+import { CoordinateSystemManager } from '../CoordinateSystemManager';
+import type { FusionLogEntry } from '../FusionAuditLog';
+import type { GNSSData, IMUData } from '../SensorFusion';
+import { gaussian } from './testUtils';
+
+const ORIGIN_ECEF = CoordinateSystemManager.toECEF(48.86, 2.34, 35);
+const G = 9.80665;
+const SPEED = 1.2; // m/s vers l'est
+const T0 = Date.UTC(2025, 5, 2, 9, 0, 0);
+
+function toGeodetic(east: number, north: number) {
+  const ecef = CoordinateSystemManager.fromENU([east, north, 0], ORIGIN_ECEF);
+  return CoordinateSystemManager.fromECEF(...ecef);
+}
+
+function toLocal(lat: number, lon: number): number[] {
+  return CoordinateSystemManager.toENU(CoordinateSystemManager.toECEF(lat, lon, 35), ORIGIN_ECEF);
+}
+
+// Session enregistrée : marche rectiligne, fix à 1 Hz (σ = 2 m) et IMU à 25 Hz
+function recordSession(seconds: number, outage: [number, number] = [Infinity, Infinity]) {
+  const noise = gaussian(11);
+  const gnss: GNSSData[] = [];
+  const imu: IMUData[] = [];
+  for (let k = 0; k <= seconds * 25; k++) {
+    const t = k * 40;
+    imu.push({
+      acceleration: [0.05 * noise(), 0.05 * noise(), G + 0.05 * noise()],
+      gyroscope: [0.001 * noise(), 0.001 * noise(), 0.001 * noise()],
+      timestamp: T0 + t,
+    });
+    const second = t / 1000;
+    if (k % 25 === 0 && (second < outage[0] || second >= outage[1])) {
+      const [latitude, longitude, altitude] = toGeodetic(SPEED * second + 2 * noise(), 2 * noise());
+      gnss.push({ latitude, longitude, altitude, timestamp: T0 + t, source: 'GNSS', accuracy: 2 });
+    }
+  }
+  return { gnss, imu };
+}
+
+function horizontalErrors(trajectory: SmoothedTrajectory): number[] {
+  return trajectory.points.map(point => {
+    const [east, north] = toLocal(point.lat, point.lon);
+    return Math.hypot(east - (SPEED * (point.timestamp - T0)) / 1000, north);
+  });
+}
+
+const rms = (values: number[]) => Math.sqrt(values.reduce((sum, v) => sum + v * v, 0) / values.length);
+
+describe('TrajectorySmoother', () => {
+  it('should smooth a recorded walk better than the real-time filter', () => {
+    const session = recordSession(40);
+    const trajectory = TrajectorySmoother.smooth(session);
+
+    expect(trajectory.segments).toBe(1);
+    expect(trajectory.points).toHaveLength(session.gnss.length);
+    expect(trajectory.points.every(point => point.gnss === 'accepted')).toBe(true);
+
+    // Le lissage réduit l'incertitude à chaque époque
+    trajectory.points.forEach(point => {
+      expect(point.accuracy).toBeLessThanOrEqual(point.filteredAccuracy + 1e-9);
+      expect(point.covariance[0][1]).toBeCloseTo(point.covariance[1][0], 9);
+    });
+    expect(trajectory.points[20].accuracy).toBeLessThan(trajectory.points[20].filteredAccuracy * 0.6);
+
+    // Erreur horizontale nettement inférieure à celle des fixes bruts
+    const rawErrors = session.gnss.map(fix => {
+      const [east, north] = toLocal(fix.latitude, fix.longitude);
+      return Math.hypot(east - (SPEED * (fix.timestamp - T0)) / 1000, north);
+    });
+    expect(rms(horizontalErrors(trajectory))).toBeLessThan(0.7 * rms(rawErrors));
+    expect(trajectory.points[20].velocity.east).toBeCloseTo(SPEED, 0);
+  });
+
+  it('should bridge a GNSS outage with intermediate epochs', () => {
+    const trajectory = TrajectorySmoother.smooth(recordSession(40, [15, 27]), { outputInterval: 2000 });
+    const bridged = trajectory.points.filter(point => point.gnss === 'none');
+
+    expect(bridged.map(point => point.timestamp - T0)).toEqual([16000, 18000, 20000, 22000, 24000, 26000]);
+    // Au milieu de la coupure, le passage arrière resserre fortement l'incertitude
+    const middle = bridged[2];
+    expect(middle.accuracy).toBeLessThan(middle.filteredAccuracy / 2);
+
+    const [east] = toLocal(middle.lat, middle.lon);
+    expect(Math.abs(east - (SPEED * (middle.timestamp - T0)) / 1000)).toBeLessThan(2);
+  });
+
+  it('should smooth an audit log export and write GPX and GeoJSON', () => {
+    const { gnss } = recordSession(20);
+    // Le journal d'audit conserve les entrées les plus récentes en premier
+    const entries = gnss.map((fix, i): FusionLogEntry => ({
+      id: `log-${i}`,
+      timestamp: new Date(fix.timestamp),
+      position: { lat: fix.latitude, lon: fix.longitude, alt: fix.altitude },
+      accuracy: 2,
+      sources: ['gnss'],
+      status: 'raw',
+      createdAt: new Date(fix.timestamp),
+      updatedAt: new Date(fix.timestamp),
+    })).reverse();
+    entries.push({ ...entries[0], id: 'ocr', sources: ['OCR'] });
+
+    const session = TrajectorySmoother.fromAuditLog(entries);
+    expect(session.gnss).toHaveLength(gnss.length);
+    expect(session.gnss[0].timestamp).toBe(T0);
+
+    const trajectory = TrajectorySmoother.smooth(session);
+    expect(trajectory.points).toHaveLength(gnss.length);
+
+    const gpx = TrajectorySmoother.toGPX(trajectory);
+    expect(gpx.match(/<trkpt /g)).toHaveLength(gnss.length);
+    expect(gpx).toContain(`<time>${new Date(T0).toISOString()}</time>`);
+
+    const geojson = JSON.parse(TrajectorySmoother.toGeoJSON(trajectory));
+    expect(geojson.features).toHaveLength(gnss.length);
+    expect(geojson.features[0].geometry.coordinates).toHaveLength(3);
+    expect(geojson.features[5].properties).toMatchObject({ smoothed: true, gnss: 'accepted' });
+    expect(geojson.features[5].properties.sigmaEast).toBeGreaterThan(0);
+  });
+
+  it('should require at least one GNSS fix', () => {
+    expect(() => TrajectorySmoother.smooth({ gnss: [], imu: [] })).toThrow('At least one GNSS fix');
+  });
+});
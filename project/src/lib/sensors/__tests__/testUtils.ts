@@ -0,0 +1,11 @@
+// Outils partagés par les tests des capteurs
+
+// Générateur pseudo-aléatoire reproductible (LCG + Box-Muller)
+export function gaussian(seed: number): () => number {
+  let state = seed;
+  const uniform = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return (state + 1) / 4294967297;
+  };
+  return () => Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform());
+}
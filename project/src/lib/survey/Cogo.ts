@@ -0,0 +1,503 @@
+import { CoordinateSystemManager } from '../sensors/CoordinateSystemManager';
+
+/**
+ * Grid point of a projected CRS: x = easting, y = northing (CRS units, metres)
+ */
+type CogoPoint = {
+  id?: string;
+  x: number;
+  y: number;
+  z?: number;
+};
+
+type InverseResult = {
+  azimuth: number;   // Grid azimuth, degrees clockwise from north
+  distance: number;  // Horizontal distance
+  dx: number;
+  dy: number;
+  dz?: number;
+  slopeDistance?: number;
+};
+
+/**
+ * Traverse leg: either a grid azimuth, or an angle turned clockwise from
+ * the backsight (previous station, or the start reference azimuth)
+ */
+type TraverseLeg = {
+  id?: string;
+  distance: number;
+  azimuth?: number;
+  angle?: number;
+};
+
+type TraverseOptions = {
+  method?: 'bowditch' | 'transit';
+  startAzimuth?: number;    // Azimuth from the start station to its backsight (angle legs)
+  closingPoint?: CogoPoint; // Known coordinates of the last station (the start for a loop)
+  closingAzimuth?: number;  // Known azimuth from the last station to its foresight
+  closingAngle?: number;    // Angle turned at the last station onto that foresight
+};
+
+type TraverseMisclosure = {
+  angular?: number;  // Degrees, observed − known, before distribution
+  dx: number;
+  dy: number;
+  linear: number;
+  azimuth: number;
+  perimeter: number;
+  precision: number; // N of the 1:N relative precision
+};
+
+type TraverseResult = {
+  method: 'bowditch' | 'transit';
+  stations: CogoPoint[];   // Adjusted, starting with the start station
+  unadjusted: CogoPoint[];
+  azimuths: number[];      // Leg azimuths after angular adjustment
+  misclosure: TraverseMisclosure | null; // null for open traverses
+};
+
+type CurveElements = {
+  radius: number;
+  delta: number;    // Central angle, degrees
+  length: number;   // Arc length
+  tangent: number;
+  chord: number;
+  external: number;
+  middleOrdinate: number;
+};
+
+type CurveDefinition = { radius: number } & (
+  | { delta: number }
+  | { length: number }
+  | { chord: number }
+  | { tangent: number }
+);
+
+type CurveLayout = CurveElements & {
+  start: CogoPoint;
+  end: CogoPoint;
+  center: CogoPoint;
+  pi: CogoPoint;       // Tangent intersection
+  points: CogoPoint[]; // Arc from start to end
+};
+
+type ResectionTarget = {
+  point: CogoPoint;
+  direction: number; // Observed horizontal direction, degrees
+};
+
+type ResectionResult = {
+  point: CogoPoint;
+  orientation: number; // Azimuth of the zero direction of the circle
+  residuals: number[]; // Direction residuals, arc seconds
+};
+
+/**
+ * Geometry of COGO results, in the coordinates of the working CRS
+ */
+type CogoFeature = {
+  geometry: 'Point' | 'LineString' | 'Polygon';
+  points: CogoPoint[];
+  properties?: Record<string, unknown>;
+};
+
+const RAD = Math.PI / 180;
+const EPSILON = 1e-10;
+const MAX_ITERATIONS = 20;
+
+/**
+ * Coordinate geometry computations for cadastral surveys.
+ *
+ * Everything works on grid coordinates of a projected CRS with azimuths in
+ * degrees clockwise from grid north; toGeometry() brings results back to
+ * WGS84 GeoJSON through CoordinateSystemManager.
+ */
+class Cogo {
+  /**
+   * Normalize an angle to [0, 360)
+   */
+  static normalize(angle: number): number {
+    const normalized = angle % 360;
+    return normalized < 0 ? normalized + 360 : normalized;
+  }
+
+  static azimuth(from: CogoPoint, to: CogoPoint): number {
+    return Cogo.normalize(Math.atan2(to.x - from.x, to.y - from.y) / RAD);
+  }
+
+  /**
+   * Azimuth and distance between two points
+   */
+  static inverse(from: CogoPoint, to: CogoPoint): InverseResult {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const distance = Math.hypot(dx, dy);
+    const result: InverseResult = { azimuth: Cogo.azimuth(from, to), distance, dx, dy };
+
+    if (from.z !== undefined && to.z !== undefined) {
+      result.dz = to.z - from.z;
+      result.slopeDistance = Math.hypot(distance, result.dz);
+    }
+    return result;
+  }
+
+  /**
+   * Point at a bearing and distance from another
+   */
+  static forward(from: CogoPoint, azimuth: number, distance: number, id?: string): CogoPoint {
+    return {
+      ...(id !== undefined && { id }),
+      x: from.x + distance * Math.sin(azimuth * RAD),
+      y: from.y + distance * Math.cos(azimuth * RAD),
+    };
+  }
+
+  /**
+   * Bearing-distance traverse with angular and Bowditch (compass) or transit adjustment
+   */
+  static traverse(start: CogoPoint, legs: TraverseLeg[], options: TraverseOptions = {}): TraverseResult {
+    const method = options.method ?? 'bowditch';
+    if (legs.length === 0) throw new Error('A traverse needs at least one leg');
+
+    // Leg azimuths from the turned angles
+    let backsight = options.startAzimuth;
+    const azimuths = legs.map((leg, i) => {
+      if (leg.azimuth !== undefined) {
+        backsight = leg.azimuth + 180;
+        return Cogo.normalize(leg.azimuth);
+      }
+      if (leg.angle === undefined || backsight === undefined) {
+        throw new Error(`Traverse leg ${leg.id ?? i + 1} needs an azimuth, or an angle and a backsight`);
+      }
+      const azimuth = Cogo.normalize(backsight + leg.angle);
+      backsight = azimuth + 180;
+      return azimuth;
+    });
+
+    // Angular misclosure spread evenly over the turned angles
+    let angular: number | undefined;
+    if (options.closingAzimuth !== undefined && options.closingAngle !== undefined) {
+      if (backsight === undefined) throw new Error('Angular closure needs a backsight at the last station');
+      angular = Cogo.signedAngle(Cogo.normalize(backsight + options.closingAngle) - options.closingAzimuth);
+      const angles = legs.filter(leg => leg.azimuth === undefined).length + 1;
+      let correction = 0;
+      legs.forEach((leg, i) => {
+        if (leg.azimuth === undefined) correction -= angular! / angles;
+        azimuths[i] = Cogo.normalize(azimuths[i] + correction);
+      });
+    }
+
+    const unadjusted: CogoPoint[] = [{ ...start }];
+    legs.forEach((leg, i) => unadjusted.push(Cogo.forward(unadjusted[i], azimuths[i], leg.distance, leg.id)));
+
+    const { closingPoint } = options;
+    if (!closingPoint) {
+      return { method, stations: unadjusted, unadjusted, azimuths, misclosure: null };
+    }
+
+    const last = unadjusted[unadjusted.length - 1];
+    const dx = last.x - closingPoint.x;
+    const dy = last.y - closingPoint.y;
+    const perimeter = legs.reduce((sum, leg) => sum + leg.distance, 0);
+    const linear = Math.hypot(dx, dy);
+
+    // Corrections proportional to the cumulated length (Bowditch) or coordinate differences (transit)
+    const latitudes = azimuths.map((azimuth, i) => Math.abs(legs[i].distance * Math.cos(azimuth * RAD)));
+    const departures = azimuths.map((azimuth, i) => Math.abs(legs[i].distance * Math.sin(azimuth * RAD)));
+    const totalLatitude = latitudes.reduce((sum, value) => sum + value, 0) || 1;
+    const totalDeparture = departures.reduce((sum, value) => sum + value, 0) || 1;
+
+    let cumulated = 0;
+    let cumulatedLatitude = 0;
+    let cumulatedDeparture = 0;
+    const stations = unadjusted.map((point, i) => {
+      if (i === 0) return { ...point };
+      cumulated += legs[i - 1].distance;
+      cumulatedLatitude += latitudes[i - 1];
+      cumulatedDeparture += departures[i - 1];
+      const [fx, fy] = method === 'bowditch'
+        ? [cumulated / perimeter, cumulated / perimeter]
+        : [cumulatedDeparture / totalDeparture, cumulatedLatitude / totalLatitude];
+      return { ...point, x: point.x - dx * fx, y: point.y - dy * fy };
+    });
+
+    return {
+      method,
+      stations,
+      unadjusted,
+      azimuths,
+      misclosure: {
+        ...(angular !== undefined && { angular }),
+        dx,
+        dy,
+        linear,
+        azimuth: Cogo.normalize(Math.atan2(dx, dy) / RAD),
+        perimeter,
+        precision: linear > 0 ? perimeter / linear : Infinity,
+      },
+    };
+  }
+
+  /**
+   * Intersection of two rays given by a point and an azimuth
+   */
+  static bearingBearing(p1: CogoPoint, azimuth1: number, p2: CogoPoint, azimuth2: number): CogoPoint {
+    const [s1, c1] = [Math.sin(azimuth1 * RAD), Math.cos(azimuth1 * RAD)];
+    const [s2, c2] = [Math.sin(azimuth2 * RAD), Math.cos(azimuth2 * RAD)];
+    const denominator = s1 * c2 - c1 * s2;
+    if (Math.abs(denominator) < EPSILON) throw new Error('Bearings are parallel');
+
+    // p1 + t·u1 = p2 + s·u2
+    const t = ((p2.x - p1.x) * c2 - (p2.y - p1.y) * s2) / denominator;
+    if (t < 0) throw new Error('Bearings do not intersect ahead of the first point');
+    return { x: p1.x + t * s1, y: p1.y + t * c1 };
+  }
+
+  /**
+   * Intersections of two circles, the point left then right of p1 → p2
+   */
+  static distanceDistance(p1: CogoPoint, r1: number, p2: CogoPoint, r2: number): [CogoPoint, CogoPoint] {
+    const { distance: d, azimuth } = Cogo.inverse(p1, p2);
+    if (d < EPSILON) throw new Error('Circle centres are coincident');
+    if (d > r1 + r2 + EPSILON || d < Math.abs(r1 - r2) - EPSILON) {
+      throw new Error('Distances do not intersect');
+    }
+
+    const along = (d * d + r1 * r1 - r2 * r2) / (2 * d);
+    const across = Math.sqrt(Math.max(r1 * r1 - along * along, 0));
+    const foot = Cogo.forward(p1, azimuth, along);
+    return [Cogo.forward(foot, azimuth - 90, across), Cogo.forward(foot, azimuth + 90, across)];
+  }
+
+  /**
+   * Resection from horizontal directions to three or more known points
+   * (Tienstra on the first three, refined by least squares on all of them)
+   */
+  static resection(targets: ResectionTarget[]): ResectionResult {
+    if (targets.length < 3) throw new Error('A resection needs at least 3 known points');
+
+    const [a, b, c] = targets;
+    const cot = (angle: number) => 1 / Math.tan(angle * RAD);
+    const interior = (at: CogoPoint, p: CogoPoint, q: CogoPoint) =>
+      Cogo.signedAngle(Cogo.azimuth(at, q) - Cogo.azimuth(at, p));
+
+    // Angles subtended at the station and at the triangle vertices, with the same orientation
+    const alpha = c.direction - b.direction;
+    const beta = a.direction - c.direction;
+    const gamma = b.direction - a.direction;
+    const k1 = 1 / (cot(interior(a.point, b.point, c.point)) - cot(alpha));
+    const k2 = 1 / (cot(interior(b.point, c.point, a.point)) - cot(beta));
+    const k3 = 1 / (cot(interior(c.point, a.point, b.point)) - cot(gamma));
+    const sum = k1 + k2 + k3;
+    if (!isFinite(sum) || Math.abs(sum) < EPSILON) {
+      throw new Error('Station lies on the danger circle of the known points');
+    }
+
+    let x = (k1 * a.point.x + k2 * b.point.x + k3 * c.point.x) / sum;
+    let y = (k1 * a.point.y + k2 * b.point.y + k3 * c.point.y) / sum;
+    let orientation = Cogo.meanOrientation(targets, x, y);
+
+    // Gauss-Newton on (x, y, orientation): azimuth(station, target) − orientation − direction = 0
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      const normal = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+      const rhs = [0, 0, 0];
+      targets.forEach(({ point, direction }) => {
+        const dx = point.x - x;
+        const dy = point.y - y;
+        const d2 = dx * dx + dy * dy;
+        const jacobian = [-dy / d2 / RAD, dx / d2 / RAD, -1];
+        const misfit = Cogo.signedAngle(Math.atan2(dx, dy) / RAD - orientation - direction);
+        for (let i = 0; i < 3; i++) {
+          rhs[i] -= jacobian[i] * misfit;
+          for (let j = 0; j < 3; j++) normal[i][j] += jacobian[i] * jacobian[j];
+        }
+      });
+      const step = Cogo.solve3(normal, rhs);
+      if (!step) throw new Error('Resection geometry is singular');
+      x += step[0];
+      y += step[1];
+      orientation += step[2];
+      if (Math.hypot(step[0], step[1]) < 1e-6) break;
+    }
+
+    const residuals = targets.map(({ point, direction }) =>
+      Cogo.signedAngle(Cogo.azimuth({ x, y }, point) - orientation - direction) * 3600
+    );
+    return { point: { x, y }, orientation: Cogo.normalize(orientation), residuals };
+  }
+
+  /**
+   * Point at a station (chainage from `from`) and a perpendicular offset (positive to the right)
+   */
+  static offsetPoint(from: CogoPoint, to: CogoPoint, station: number, offset: number, id?: string): CogoPoint {
+    const azimuth = Cogo.azimuth(from, to);
+    const point = Cogo.forward(Cogo.forward(from, azimuth, station), azimuth + 90, offset);
+    return id !== undefined ? { id, ...point } : point;
+  }
+
+  /**
+   * Station and offset of a point relative to a line
+   */
+  static stationOffset(from: CogoPoint, to: CogoPoint, point: CogoPoint): { station: number; offset: number } {
+    const { azimuth, distance } = Cogo.inverse(from, to);
+    if (distance < EPSILON) throw new Error('Reference line has no length');
+    const [s, c] = [Math.sin(azimuth * RAD), Math.cos(azimuth * RAD)];
+    const dx = point.x - from.x;
+    const dy = point.y - from.y;
+    return { station: dx * s + dy * c, offset: dx * c - dy * s };
+  }
+
+  /**
+   * Elements of a circular curve from its radius and one other element
+   */
+  static curveElements(definition: CurveDefinition): CurveElements {
+    const { radius } = definition;
+    if (!(radius > 0)) throw new Error('Curve radius must be positive');
+
+    let delta: number;
+    if ('delta' in definition) delta = definition.delta;
+    else if ('length' in definition) delta = definition.length / radius / RAD;
+    else if ('chord' in definition) {
+      if (definition.chord > 2 * radius) throw new Error('Chord is longer than the curve diameter');
+      delta = (2 * Math.asin(definition.chord / (2 * radius))) / RAD;
+    } else delta = (2 * Math.atan(definition.tangent / radius)) / RAD;
+
+    const half = (Math.abs(delta) / 2) * RAD;
+    return {
+      radius,
+      delta: Math.abs(delta),
+      length: radius * Math.abs(delta) * RAD,
+      tangent: radius * Math.tan(half),
+      chord: 2 * radius * Math.sin(half),
+      external: radius * (1 / Math.cos(half) - 1),
+      middleOrdinate: radius * (1 - Math.cos(half)),
+    };
+  }
+
+  /**
+   * Lay out a circular curve from its start point and tangent azimuth,
+   * turning right unless `right` is false. Arc points are spaced by at most `step`.
+   */
+  static layoutCurve(
+    start: CogoPoint,
+    startAzimuth: number,
+    definition: CurveDefinition & { right?: boolean },
+    step: number = 5
+  ): CurveLayout {
+    const elements = Cogo.curveElements(definition);
+    const side = definition.right === false ? -1 : 1;
+    const center = Cogo.forward(start, startAzimuth + 90 * side, elements.radius);
+    const startRadial = Cogo.azimuth(center, start);
+    const segments = Math.max(1, Math.ceil(elements.length / step));
+
+    const points = Array.from({ length: segments + 1 }, (_, i) =>
+      Cogo.forward(center, startRadial + side * (elements.delta * i) / segments, elements.radius)
+    );
+    points[0] = { ...start };
+
+    return {
+      ...elements,
+      start: points[0],
+      end: points[segments],
+      center,
+      pi: Cogo.forward(start, startAzimuth, elements.tangent),
+      points,
+    };
+  }
+
+  /**
+   * Features for a traverse: the adjusted polyline and its stations
+   */
+  static traverseFeatures(result: TraverseResult): CogoFeature[] {
+    return [
+      {
+        geometry: 'LineString',
+        points: result.stations,
+        properties: {
+          computation: 'traverse',
+          method: result.method,
+          ...(result.misclosure && {
+            misclosure: result.misclosure.linear,
+            precision: result.misclosure.precision,
+          }),
+        },
+      },
+      ...result.stations.map((station, i): CogoFeature => ({
+        geometry: 'Point',
+        points: [station],
+        properties: { computation: 'traverse-station', name: station.id ?? `S${i}` },
+      })),
+    ];
+  }
+
+  /**
+   * GeoJSON geometry (WGS84) of a COGO feature computed in a projected CRS
+   */
+  static toGeometry(feature: CogoFeature, epsg: string): GeoJSON.Point | GeoJSON.LineString | GeoJSON.Polygon {
+    const info = CoordinateSystemManager.getProjectionInfo(epsg);
+    if (!info) throw new Error(`Projection ${epsg} is not defined.`);
+    if (!info.isProjected) throw new Error(`COGO computations need a projected CRS, ${epsg} is geographic`);
+    if (feature.points.length === 0) throw new Error('COGO feature has no points');
+
+    const positions = feature.points.map(point => {
+      const { lat, lon, alt } = CoordinateSystemManager.toWGS84(point.x, point.y, epsg, point.z);
+      return alt !== undefined ? [lon, lat, alt] : [lon, lat];
+    });
+
+    switch (feature.geometry) {
+      case 'Point':
+        return { type: 'Point', coordinates: positions[0] };
+      case 'LineString':
+        return { type: 'LineString', coordinates: positions };
+      case 'Polygon': {
+        const [first] = positions;
+        const last = positions[positions.length - 1];
+        const closed = first[0] === last[0] && first[1] === last[1] ? positions : [...positions, first];
+        return { type: 'Polygon', coordinates: [closed] };
+      }
+    }
+  }
+
+  /**
+   * Difference of two angles in (−180, 180]
+   */
+  private static signedAngle(angle: number): number {
+    const normalized = Cogo.normalize(angle);
+    return normalized > 180 ? normalized - 360 : normalized;
+  }
+
+  private static meanOrientation(targets: ResectionTarget[], x: number, y: number): number {
+    const reference = Cogo.azimuth({ x, y }, targets[0].point) - targets[0].direction;
+    const offsets = targets.map(({ point, direction }) =>
+      Cogo.signedAngle(Cogo.azimuth({ x, y }, point) - direction - reference)
+    );
+    return reference + offsets.reduce((sum, value) => sum + value, 0) / offsets.length;
+  }
+
+  private static solve3(a: number[][], b: number[]): number[] | null {
+    const det = (m: number[][]) =>
+      m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+      m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+      m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+    const d = det(a);
+    if (Math.abs(d) < EPSILON) return null;
+    // Cramer's rule
+    return [0, 1, 2].map(column => det(a.map((row, i) => row.map((value, j) => (j === column ? b[i] : value)))) / d);
+  }
+}
+
+export { Cogo };
+export type {
+  CogoPoint,
+  InverseResult,
+  TraverseLeg,
+  TraverseOptions,
+  TraverseMisclosure,
+  TraverseResult,
+  CurveElements,
+  CurveDefinition,
+  CurveLayout,
+  ResectionTarget,
+  ResectionResult,
+  CogoFeature,
+};
@@ -0,0 +1,523 @@
+import * as math from 'mathjs';
+import type { CogoPoint } from './Cogo';
+
+/**
+ * Network point with approximate coordinates in a projected CRS.
+ * `fixed` holds control points: true fixes all coordinates.
+ */
+type NetworkPoint = CogoPoint & {
+  id: string;
+  fixed?: boolean | 'horizontal' | 'vertical';
+};
+
+type DistanceObservation = { type: 'distance'; from: string; to: string; value: number; sigma: number }; // m
+type DirectionObservation = {
+  type: 'direction';
+  from: string;
+  to: string;
+  value: number;  // Degrees
+  sigma: number;  // Arc seconds
+  set?: string;   // Round of directions sharing an orientation unknown (defaults to the station)
+};
+type AngleObservation = {
+  type: 'angle';
+  at: string;
+  from: string;   // Backsight
+  to: string;     // Foresight, angle turned clockwise
+  value: number;  // Degrees
+  sigma: number;  // Arc seconds
+};
+type GnssVectorObservation = {
+  type: 'gnss';
+  from: string;
+  to: string;
+  dx: number;     // Grid easting difference (m)
+  dy: number;     // Grid northing difference (m)
+  dz?: number;    // Height difference (m)
+  sigma: { x: number; y: number; z?: number };
+};
+
+type NetworkObservation = DistanceObservation | DirectionObservation | AngleObservation | GnssVectorObservation;
+
+type AdjustmentOptions = {
+  alpha?: number;        // Global test significance level
+  alpha0?: number;       // Data snooping significance level per observation
+  power?: number;        // Test power used for minimal detectable biases
+  aPosteriori?: boolean; // Scale the covariances by the variance factor (default true)
+  maxIterations?: number;
+};
+
+type ErrorEllipse = {
+  semiMajor: number;   // m, 1σ
+  semiMinor: number;
+  azimuth: number;     // Major axis, degrees from grid north
+  semiMajor95: number; // 95 % confidence
+  semiMinor95: number;
+};
+
+type AdjustedPoint = {
+  id: string;
+  x: number;
+  y: number;
+  z?: number;
+  fixed: boolean;
+  sigmaX?: number;
+  sigmaY?: number;
+  sigmaZ?: number;
+  ellipse?: ErrorEllipse;
+};
+
+type ObservationResidual = {
+  index: number;
+  type: NetworkObservation['type'];
+  component?: 'x' | 'y' | 'z';  // GNSS vector component
+  from: string;
+  to: string;
+  at?: string;
+  observed: number;
+  adjusted: number;
+  residual: number;             // adjusted − observed, in m or arc seconds
+  unit: 'm' | 'arcsec';
+  redundancy: number;
+  standardized: number | null;  // Baarda w-test statistic, null when not controlled
+  mdb: number | null;           // Minimal detectable bias
+  flagged: boolean;
+};
+
+type GlobalTest = {
+  degreesOfFreedom: number;
+  sumSquares: number;     // vᵀPv
+  varianceFactor: number; // a posteriori σ0²
+  alpha: number;
+  lower: number;
+  upper: number;
+  passed: boolean;
+};
+
+type NetworkAdjustmentResult = {
+  points: AdjustedPoint[];
+  observations: ObservationResidual[];
+  orientations: Record<string, number>; // Degrees
+  globalTest: GlobalTest | null;        // null without redundancy
+  dataSnooping: {
+    alpha0: number;
+    critical: number;
+    suspect: number | null; // Index of the largest rejected w-test
+  };
+  iterations: number;
+};
+
+type Row = {
+  coefficients: Map<number, number>;
+  misclosure: number; // observed − computed
+  sigma: number;      // Internal units (m or rad)
+  residual: Omit<ObservationResidual, 'observed' | 'adjusted' | 'residual' | 'redundancy' | 'standardized' | 'mdb' | 'flagged'> & {
+    observed: number;
+    scale: number;    // Internal → reported units
+  };
+};
+
+const RAD = Math.PI / 180;
+const ARCSEC = RAD / 3600;
+const CONVERGENCE = 1e-6;
+
+/**
+ * Least-squares adjustment of total station and GNSS baseline networks.
+ *
+ * Observations are linearised around the approximate coordinates and
+ * solved by Gauss-Newton with weights 1/σ² (a priori σ0 = 1). The result
+ * carries error ellipses, Baarda's w-test on each observation and the
+ * chi-square global test on the variance factor.
+ */
+class NetworkAdjustment {
+  static adjust(
+    points: NetworkPoint[],
+    observations: NetworkObservation[],
+    options: AdjustmentOptions = {}
+  ): NetworkAdjustmentResult {
+    const alpha = options.alpha ?? 0.05;
+    const alpha0 = options.alpha0 ?? 0.001;
+    const power = options.power ?? 0.8;
+    const maxIterations = options.maxIterations ?? 10;
+
+    const coordinates = new Map(points.map(point => [point.id, { ...point }]));
+    observations.forEach(observation => {
+      NetworkAdjustment.stations(observation).forEach(id => {
+        if (!coordinates.has(id)) throw new Error(`Observation refers to unknown point ${id}`);
+      });
+    });
+
+    // Unknowns: free coordinates, then one orientation per direction set
+    const vertical = observations.some(o => o.type === 'gnss' && o.dz !== undefined);
+    const unknowns = new Map<string, number>();
+    points.forEach(point => {
+      if (point.fixed !== true && point.fixed !== 'horizontal') {
+        unknowns.set(`${point.id}.x`, unknowns.size);
+        unknowns.set(`${point.id}.y`, unknowns.size);
+      }
+      if (vertical && point.fixed !== true && point.fixed !== 'vertical') {
+        if (point.z === undefined) throw new Error(`Point ${point.id} needs an approximate height`);
+        unknowns.set(`${point.id}.z`, unknowns.size);
+      }
+    });
+    const orientations = new Map<string, number>();
+    observations.forEach(observation => {
+      if (observation.type !== 'direction') return;
+      const set = observation.set ?? observation.from;
+      if (!orientations.has(set)) {
+        unknowns.set(`orientation:${set}`, unknowns.size);
+        orientations.set(set, NetworkAdjustment.initialOrientation(observations, set, coordinates));
+      }
+    });
+
+    const u = unknowns.size;
+    let rows: Row[] = [];
+    let normalInverse: math.Matrix | null = null;
+    let iterations = 0;
+
+    for (; iterations < maxIterations; iterations++) {
+      rows = NetworkAdjustment.linearise(observations, coordinates, orientations, unknowns);
+      const { inverse, correction } = NetworkAdjustment.solveNormal(rows, u);
+      normalInverse = inverse;
+
+      unknowns.forEach((index, key) => {
+        const [id, axis] = key.split('.') as [string, 'x' | 'y' | 'z'];
+        if (key.startsWith('orientation:')) {
+          const set = key.slice('orientation:'.length);
+          orientations.set(set, orientations.get(set)! + correction[index]);
+        } else {
+          coordinates.get(id)![axis] = coordinates.get(id)![axis]! + correction[index];
+        }
+      });
+
+      if (Math.max(0, ...correction.map(Math.abs)) < CONVERGENCE) {
+        iterations++;
+        break;
+      }
+    }
+
+    // Final linearisation at the adjusted values: residuals are computed − observed
+    rows = NetworkAdjustment.linearise(observations, coordinates, orientations, unknowns);
+    const n = rows.length;
+    const degreesOfFreedom = n - u;
+    const residuals = rows.map(row => -row.misclosure);
+    const sumSquares = rows.reduce((sum, row, i) => sum + (residuals[i] / row.sigma) ** 2, 0);
+    const varianceFactor = degreesOfFreedom > 0 ? sumSquares / degreesOfFreedom : NaN;
+    const covarianceScale = options.aPosteriori !== false && degreesOfFreedom > 0 ? varianceFactor : 1;
+
+    // Cofactors of the residuals: Qvv = Qll − A Qxx Aᵀ
+    const qxx = (normalInverse ?? NetworkAdjustment.solveNormal(rows, u).inverse).toArray() as number[][];
+    const critical = NetworkAdjustment.normalQuantile(1 - alpha0 / 2);
+    const noncentrality = critical + NetworkAdjustment.normalQuantile(power);
+
+    const reported: ObservationResidual[] = rows.map((row, i) => {
+      let aQaT = 0;
+      row.coefficients.forEach((a, j) => {
+        row.coefficients.forEach((b, k) => {
+          aQaT += a * qxx[j][k] * b;
+        });
+      });
+      const qvv = Math.max(row.sigma ** 2 - aQaT, 0);
+      const redundancy = qvv / row.sigma ** 2;
+      const controlled = redundancy > 1e-9;
+      const standardized = controlled ? residuals[i] / Math.sqrt(qvv) : null;
+      const { scale, ...residual } = row.residual;
+
+      return {
+        ...residual,
+        adjusted: row.residual.observed + residuals[i] * scale,
+        residual: residuals[i] * scale,
+        redundancy,
+        standardized,
+        mdb: controlled ? (row.sigma * noncentrality * scale) / Math.sqrt(redundancy) : null,
+        flagged: standardized !== null && Math.abs(standardized) > critical,
+      };
+    });
+
+    // Data snooping rejects one observation at a time: the largest w-test
+    const suspect = reported
+      .filter(observation => observation.flagged)
+      .reduce<ObservationResidual | null>(
+        (worst, observation) =>
+          !worst || Math.abs(observation.standardized!) > Math.abs(worst.standardized!) ? observation : worst,
+        null
+      );
+
+    // Global test: vᵀPv follows χ²(r) when the a priori σ are right
+    let globalTest: GlobalTest | null = null;
+    if (degreesOfFreedom > 0) {
+      const lower = NetworkAdjustment.chiSquareQuantile(alpha / 2, degreesOfFreedom);
+      const upper = NetworkAdjustment.chiSquareQuantile(1 - alpha / 2, degreesOfFreedom);
+      globalTest = {
+        degreesOfFreedom,
+        sumSquares,
+        varianceFactor,
+        alpha,
+        lower,
+        upper,
+        passed: sumSquares >= lower && sumSquares <= upper,
+      };
+    }
+
+    return {
+      points: points.map(point => NetworkAdjustment.adjustedPoint(point, coordinates.get(point.id)!, unknowns, qxx, covarianceScale)),
+      observations: reported,
+      orientations: Object.fromEntries(
+        Array.from(orientations, ([set, orientation]) => [set, ((orientation / RAD) % 360 + 360) % 360])
+      ),
+      globalTest,
+      dataSnooping: { alpha0, critical, suspect: suspect?.index ?? null },
+      iterations,
+    };
+  }
+
+  /**
+   * Quantile of the chi-square distribution (Wilson-Hilferty approximation)
+   */
+  static chiSquareQuantile(p: number, degreesOfFreedom: number): number {
+    const z = NetworkAdjustment.normalQuantile(p);
+    const k = 2 / (9 * degreesOfFreedom);
+    return degreesOfFreedom * Math.max(1 - k + z * Math.sqrt(k), 0) ** 3;
+  }
+
+  /**
+   * Quantile of the standard normal distribution (Acklam's rational approximation)
+   */
+  static normalQuantile(p: number): number {
+    if (p <= 0 || p >= 1) throw new Error('Probability must be between 0 and 1');
+    const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+    const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+    const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+    const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+    const low = 0.02425;
+
+    const tail = (q: number) =>
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+
+    if (p < low) return tail(Math.sqrt(-2 * Math.log(p)));
+    if (p > 1 - low) return -tail(Math.sqrt(-2 * Math.log(1 - p)));
+    const q = p - 0.5;
+    const r = q * q;
+    return ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+      (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  }
+
+  private static stations(observation: NetworkObservation): string[] {
+    return observation.type === 'angle'
+      ? [observation.at, observation.from, observation.to]
+      : [observation.from, observation.to];
+  }
+
+  private static linearise(
+    observations: NetworkObservation[],
+    coordinates: Map<string, NetworkPoint>,
+    orientations: Map<string, number>,
+    unknowns: Map<string, number>
+  ): Row[] {
+    const rows: Row[] = [];
+    const add = (coefficients: Map<number, number>, id: string, axis: 'x' | 'y' | 'z', value: number) => {
+      const index = unknowns.get(`${id}.${axis}`);
+      if (index !== undefined) coefficients.set(index, (coefficients.get(index) ?? 0) + value);
+    };
+    // Azimuth (rad) and its partial derivatives for the `to` point
+    const bearing = (fromId: string, toId: string) => {
+      const from = coordinates.get(fromId)!;
+      const to = coordinates.get(toId)!;
+      const dx = to.x - from.x;
+      const dy = to.y - from.y;
+      const d2 = dx * dx + dy * dy;
+      if (d2 === 0) throw new Error(`Points ${fromId} and ${toId} are coincident`);
+      return { value: Math.atan2(dx, dy), dx: dy / d2, dy: -dx / d2, distance: Math.sqrt(d2), ex: dx, ey: dy };
+    };
+    const wrap = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+    observations.forEach((observation, index) => {
+      const coefficients = new Map<number, number>();
+
+      switch (observation.type) {
+        case 'distance': {
+          const { distance, ex, ey } = bearing(observation.from, observation.to);
+          add(coefficients, observation.to, 'x', ex / distance);
+          add(coefficients, observation.to, 'y', ey / distance);
+          add(coefficients, observation.from, 'x', -ex / distance);
+          add(coefficients, observation.from, 'y', -ey / distance);
+          rows.push({
+            coefficients,
+            misclosure: observation.value - distance,
+            sigma: observation.sigma,
+            residual: { index, type: 'distance', from: observation.from, to: observation.to, observed: observation.value, unit: 'm', scale: 1 },
+          });
+          break;
+        }
+        case 'direction': {
+          const set = observation.set ?? observation.from;
+          const azimuth = bearing(observation.from, observation.to);
+          add(coefficients, observation.to, 'x', azimuth.dx);
+          add(coefficients, observation.to, 'y', azimuth.dy);
+          add(coefficients, observation.from, 'x', -azimuth.dx);
+          add(coefficients, observation.from, 'y', -azimuth.dy);
+          coefficients.set(unknowns.get(`orientation:${set}`)!, -1);
+          rows.push({
+            coefficients,
+            misclosure: wrap(observation.value * RAD - (azimuth.value - orientations.get(set)!)),
+            sigma: observation.sigma * ARCSEC,
+            residual: { index, type: 'direction', from: observation.from, to: observation.to, observed: observation.value, unit: 'arcsec', scale: 1 / ARCSEC },
+          });
+          break;
+        }
+        case 'angle': {
+          const fore = bearing(observation.at, observation.to);
+          const back = bearing(observation.at, observation.from);
+          add(coefficients, observation.to, 'x', fore.dx);
+          add(coefficients, observation.to, 'y', fore.dy);
+          add(coefficients, observation.from, 'x', -back.dx);
+          add(coefficients, observation.from, 'y', -back.dy);
+          add(coefficients, observation.at, 'x', back.dx - fore.dx);
+          add(coefficients, observation.at, 'y', back.dy - fore.dy);
+          rows.push({
+            coefficients,
+            misclosure: wrap(observation.value * RAD - (fore.value - back.value)),
+            sigma: observation.sigma * ARCSEC,
+            residual: { index, type: 'angle', at: observation.at, from: observation.from, to: observation.to, observed: observation.value, unit: 'arcsec', scale: 1 / ARCSEC },
+          });
+          break;
+        }
+        case 'gnss': {
+          const from = coordinates.get(observation.from)!;
+          const to = coordinates.get(observation.to)!;
+          const components: Array<['x' | 'y' | 'z', number | undefined, number | undefined]> = [
+            ['x', observation.dx, observation.sigma.x],
+            ['y', observation.dy, observation.sigma.y],
+            ['z', observation.dz, observation.sigma.z],
+          ];
+          components.forEach(([axis, value, sigma]) => {
+            if (value === undefined) return;
+            if (sigma === undefined) throw new Error(`GNSS vector ${observation.from}-${observation.to} needs a ${axis} standard deviation`);
+            const component = new Map<number, number>();
+            add(component, observation.to, axis, 1);
+            add(component, observation.from, axis, -1);
+            rows.push({
+              coefficients: component,
+              misclosure: value - (to[axis]! - from[axis]!),
+              sigma,
+              residual: { index, type: 'gnss', component: axis, from: observation.from, to: observation.to, observed: value, unit: 'm', scale: 1 },
+            });
+          });
+          break;
+        }
+      }
+    });
+
+    return rows;
+  }
+
+  private static solveNormal(rows: Row[], u: number): { inverse: math.Matrix; correction: number[] } {
+    if (rows.length < u) {
+      throw new Error(`Network has ${rows.length} observations for ${u} unknowns`);
+    }
+
+    const A = math.matrix(rows.map(row => {
+      const line = new Array(u).fill(0);
+      row.coefficients.forEach((value, index) => { line[index] = value; });
+      return line;
+    }));
+    const P = math.diag(rows.map(row => 1 / row.sigma ** 2)) as math.Matrix;
+    const l = math.matrix(rows.map(row => [row.misclosure]));
+
+    const AtP = math.multiply(math.transpose(A), P);
+    const N = math.multiply(AtP, A) as math.Matrix;
+    let inverse: math.Matrix;
+    try {
+      inverse = math.inv(N) as math.Matrix;
+    } catch {
+      throw new Error('Network is not determined: fix enough control points and check its geometry');
+    }
+    if ((inverse.toArray() as number[][]).some(line => line.some(value => !isFinite(value)))) {
+      throw new Error('Network is not determined: fix enough control points and check its geometry');
+    }
+
+    const correction = (math.multiply(inverse, math.multiply(AtP, l)) as math.Matrix).toArray() as number[][];
+    return { inverse, correction: correction.map(line => line[0]) };
+  }
+
+  private static initialOrientation(
+    observations: NetworkObservation[],
+    set: string,
+    coordinates: Map<string, NetworkPoint>
+  ): number {
+    const offsets = observations
+      .filter((o): o is DirectionObservation => o.type === 'direction' && (o.set ?? o.from) === set)
+      .map(o => {
+        const from = coordinates.get(o.from)!;
+        const to = coordinates.get(o.to)!;
+        return Math.atan2(to.x - from.x, to.y - from.y) - o.value * RAD;
+      });
+    // Circular mean
+    return Math.atan2(
+      offsets.reduce((sum, offset) => sum + Math.sin(offset), 0),
+      offsets.reduce((sum, offset) => sum + Math.cos(offset), 0)
+    );
+  }
+
+  private static adjustedPoint(
+    point: NetworkPoint,
+    adjusted: NetworkPoint,
+    unknowns: Map<string, number>,
+    qxx: number[][],
+    scale: number
+  ): AdjustedPoint {
+    const result: AdjustedPoint = {
+      id: point.id,
+      x: adjusted.x,
+      y: adjusted.y,
+      ...(adjusted.z !== undefined && { z: adjusted.z }),
+      fixed: point.fixed === true,
+    };
+
+    const ix = unknowns.get(`${point.id}.x`);
+    const iy = unknowns.get(`${point.id}.y`);
+    const iz = unknowns.get(`${point.id}.z`);
+    if (iz !== undefined) result.sigmaZ = Math.sqrt(scale * qxx[iz][iz]);
+    if (ix === undefined || iy === undefined) return result;
+
+    const sxx = scale * qxx[ix][ix];
+    const syy = scale * qxx[iy][iy];
+    const sxy = scale * qxx[ix][iy];
+    const root = Math.sqrt(((sxx - syy) / 2) ** 2 + sxy ** 2);
+    const semiMajor = Math.sqrt((sxx + syy) / 2 + root);
+    const semiMinor = Math.sqrt(Math.max((sxx + syy) / 2 - root, 0));
+    // Major axis angle from the x (east) axis, turned into an azimuth
+    const theta = 0.5 * Math.atan2(2 * sxy, sxx - syy) / RAD;
+    const k95 = Math.sqrt(NetworkAdjustment.chiSquareQuantile(0.95, 2));
+
+    return {
+      ...result,
+      sigmaX: Math.sqrt(sxx),
+      sigmaY: Math.sqrt(syy),
+      ellipse: {
+        semiMajor,
+        semiMinor,
+        azimuth: ((90 - theta) % 180 + 180) % 180,
+        semiMajor95: semiMajor * k95,
+        semiMinor95: semiMinor * k95,
+      },
+    };
+  }
+}
+
+export { NetworkAdjustment };
+export type {
+  NetworkPoint,
+  NetworkObservation,
+  DistanceObservation,
+  DirectionObservation,
+  AngleObservation,
+  GnssVectorObservation,
+  AdjustmentOptions,
+  ErrorEllipse,
+  AdjustedPoint,
+  ObservationResidual,
+  GlobalTest,
+  NetworkAdjustmentResult,
+};
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { Cogo, type CogoPoint } from '../Cogo';
+
+const A: CogoPoint = { id: 'A', x: 1000, y: 2000 };
+
+// Directions lues au cercle pour une station et une orientation données
+function directions(station: CogoPoint, targets: CogoPoint[], orientation: number, noise: number[] = []) {
+  return targets.map((point, i) => ({
+    point,
+    direction: Cogo.normalize(Cogo.azimuth(station, point) - orientation + (noise[i] ?? 0) / 3600),
+  }));
+}
+
+describe('Cogo', () => {
+  it('should compute inverse and forward problems in every quadrant', () => {
+    const result = Cogo.inverse(A, { x: 990, y: 1990, z: 5 });
+    expect(result.azimuth).toBeCloseTo(225, 10);
+    expect(result.distance).toBeCloseTo(Math.SQRT2 * 10, 10);
+    expect(result.slopeDistance).toBeUndefined();
+
+    const withHeights = Cogo.inverse({ ...A, z: 100 }, { x: 1030, y: 2040, z: 112 });
+    expect(withHeights.distance).toBeCloseTo(50, 10);
+    expect(withHeights.slopeDistance).toBeCloseTo(Math.hypot(50, 12), 10);
+
+    const point = Cogo.forward(A, 300, 80);
+    expect(Cogo.inverse(A, point).azimuth).toBeCloseTo(300, 10);
+    expect(Cogo.inverse(A, point).distance).toBeCloseTo(80, 10);
+  });
+
+  it('should adjust a closed traverse with the Bowditch and transit rules', () => {
+    const legs = [
+      { id: 'B', azimuth: 0, distance: 100.02 },
+      { id: 'C', azimuth: 90, distance: 99.99 },
+      { id: 'D', azimuth: 180, distance: 100.01 },
+      { id: 'A', azimuth: 270, distance: 100 },
+    ];
+    const bowditch = Cogo.traverse(A, legs, { closingPoint: A });
+
+    expect(bowditch.misclosure!.dx).toBeCloseTo(-0.01, 9);
+    expect(bowditch.misclosure!.dy).toBeCloseTo(0.01, 9);
+    expect(bowditch.misclosure!.linear).toBeCloseTo(Math.SQRT2 * 0.01, 9);
+    expect(bowditch.misclosure!.precision).toBeCloseTo(400.02 / (Math.SQRT2 * 0.01), 3);
+    expect(bowditch.stations[4].x).toBeCloseTo(A.x, 9);
+    expect(bowditch.stations[4].y).toBeCloseTo(A.y, 9);
+    // Correction proportionnelle à la longueur cumulée
+    expect(bowditch.stations[1].y).toBeCloseTo(2100.02 - 0.01 * 100.02 / 400.02, 9);
+
+    const transit = Cogo.traverse(A, legs, { closingPoint: A, method: 'transit' });
+    expect(transit.stations[4].x).toBeCloseTo(A.x, 9);
+    expect(transit.stations[4].y).toBeCloseTo(A.y, 9);
+    // Les écarts en Y ne vont qu'aux côtés nord-sud
+    expect(transit.stations[2].y - transit.stations[1].y).toBeCloseTo(0, 9);
+
+    const open = Cogo.traverse(A, legs.slice(0, 2));
+    expect(open.misclosure).toBeNull();
+    expect(open.stations[2]).toMatchObject({ id: 'C' });
+  });
+
+  it('should distribute the angular misclosure of an angle traverse', () => {
+    // Carré parcouru dans le sens horaire, 10" d'erreur sur chaque angle lu
+    const error = 10 / 3600;
+    const result = Cogo.traverse(A, [90, 270, 270, 270].map(angle => ({ angle: angle + error, distance: 100 })), {
+      startAzimuth: 270,
+      closingPoint: A,
+      closingAzimuth: 270,
+      closingAngle: 180 + error,
+    });
+
+    expect(result.misclosure!.angular! * 3600).toBeCloseTo(50, 6);
+    expect(result.azimuths[0]).toBeCloseTo(0, 9);
+    expect(result.azimuths[1]).toBeCloseTo(90, 9);
+    expect(result.misclosure!.linear).toBeLessThan(1e-9);
+    expect(result.stations[2].x).toBeCloseTo(1100, 9);
+    expect(result.stations[2].y).toBeCloseTo(2100, 9);
+
+    expect(() => Cogo.traverse(A, [{ angle: 90, distance: 10 }])).toThrow('needs an azimuth');
+  });
+
+  it('should intersect bearings and distances', () => {
+    const point = Cogo.bearingBearing({ x: 0, y: 0 }, 45, { x: 100, y: 0 }, 315);
+    expect(point.x).toBeCloseTo(50, 9);
+    expect(point.y).toBeCloseTo(50, 9);
+    expect(() => Cogo.bearingBearing({ x: 0, y: 0 }, 10, { x: 100, y: 0 }, 190)).toThrow('parallel');
+
+    const [left, right] = Cogo.distanceDistance({ x: 0, y: 0 }, 5, { x: 8, y: 0 }, 5);
+    expect(left.x).toBeCloseTo(4, 9);
+    expect(left.y).toBeCloseTo(3, 9);
+    expect(right.y).toBeCloseTo(-3, 9);
+    expect(() => Cogo.distanceDistance({ x: 0, y: 0 }, 2, { x: 8, y: 0 }, 3)).toThrow('do not intersect');
+  });
+
+  it('should resect a station inside or outside the known points', () => {
+    const known: CogoPoint[] = [
+      { x: 5000, y: 5000 },
+      { x: 5400, y: 5100 },
+      { x: 5150, y: 4600 },
+      { x: 4800, y: 4700 },
+    ];
+
+    [{ x: 5150, y: 4900 }, { x: 5700, y: 4300 }].forEach(station => {
+      const result = Cogo.resection(directions(station, known.slice(0, 3), 37.5));
+      expect(result.point.x).toBeCloseTo(station.x, 6);
+      expect(result.point.y).toBeCloseTo(station.y, 6);
+      expect(result.orientation).toBeCloseTo(37.5, 8);
+    });
+
+    // Quatre visées bruitées : résidus de l'ordre du bruit
+    const station = { x: 5150, y: 4900 };
+    const noisy = Cogo.resection(directions(station, known, 212, [2, -1, 1.5, -2]));
+    expect(Math.hypot(noisy.point.x - station.x, noisy.point.y - station.y)).toBeLessThan(0.01);
+    noisy.residuals.forEach(residual => expect(Math.abs(residual)).toBeLessThan(3));
+
+    // Station sur le cercle passant par les trois points
+    const [a, b, c] = [{ x: 0, y: 100 }, { x: 100, y: 0 }, { x: -100, y: 0 }];
+    expect(() => Cogo.resection(directions({ x: 0, y: -100 }, [a, b, c], 0))).toThrow();
+  });
+
+  it('should compute offsets and circular curves', () => {
+    const end = { x: 1100, y: 2100 };
+    const offset = Cogo.offsetPoint(A, end, 50, 10);
+    const back = Cogo.stationOffset(A, end, offset);
+    expect(back.station).toBeCloseTo(50, 9);
+    expect(back.offset).toBeCloseTo(10, 9);
+    expect(Cogo.stationOffset(A, end, { x: 1000, y: 2010 }).offset).toBeLessThan(0); // À gauche
+
+    const elements = Cogo.curveElements({ radius: 100, delta: 90 });
+    expect(elements.length).toBeCloseTo(50 * Math.PI, 9);
+    expect(elements.tangent).toBeCloseTo(100, 9);
+    expect(elements.chord).toBeCloseTo(100 * Math.SQRT2, 9);
+    expect(elements.external).toBeCloseTo(100 * (Math.SQRT2 - 1), 9);
+    expect(elements.middleOrdinate).toBeCloseTo(100 * (1 - Math.SQRT1_2), 9);
+    expect(Cogo.curveElements({ radius: 100, chord: elements.chord }).delta).toBeCloseTo(90, 9);
+    expect(Cogo.curveElements({ radius: 100, tangent: 100 }).length).toBeCloseTo(elements.length, 9);
+
+    const right = Cogo.layoutCurve({ x: 0, y: 0 }, 0, { radius: 100, delta: 90 }, 10);
+    expect(right.center.x).toBeCloseTo(100, 9);
+    expect(right.center.y).toBeCloseTo(0, 9);
+    expect(right.end.x).toBeCloseTo(100, 9);
+    expect(right.end.y).toBeCloseTo(100, 9);
+    expect(right.pi.y).toBeCloseTo(100, 9);
+    expect(right.points).toHaveLength(17);
+    right.points.forEach(point => expect(Cogo.inverse(right.center, point).distance).toBeCloseTo(100, 9));
+
+    const left = Cogo.layoutCurve({ x: 0, y: 0 }, 0, { radius: 100, length: 50 * Math.PI, right: false });
+    expect(left.end.x).toBeCloseTo(-100, 9);
+    expect(left.end.y).toBeCloseTo(100, 9);
+  });
+
+  it('should convert computed features to WGS84 geometries', () => {
+    const traverse = Cogo.traverse({ id: 'S1', x: 652000, y: 6862000 }, [
+      { id: 'S2', azimuth: 90, distance: 100 },
+      { id: 'S3', azimuth: 180, distance: 100 },
+    ]);
+    const [line, ...stations] = Cogo.traverseFeatures(traverse);
+    expect(stations.map(station => station.properties?.name)).toEqual(['S1', 'S2', 'S3']);
+
+    const geometry = Cogo.toGeometry(line, 'EPSG:2154') as GeoJSON.LineString;
+    expect(geometry.coordinates).toHaveLength(3);
+    expect(geometry.coordinates[0][0]).toBeCloseTo(2.35, 1);
+    expect(geometry.coordinates[0][1]).toBeCloseTo(48.85, 1);
+
+    const polygon = Cogo.toGeometry({ ...line, geometry: 'Polygon' }, 'EPSG:2154') as GeoJSON.Polygon;
+    expect(polygon.coordinates[0]).toHaveLength(4);
+    expect(polygon.coordinates[0][3]).toEqual(polygon.coordinates[0][0]);
+
+    expect(() => Cogo.toGeometry(line, 'EPSG:4326')).toThrow('projected CRS');
+  });
+});
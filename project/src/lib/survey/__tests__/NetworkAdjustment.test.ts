@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { Cogo, type CogoPoint } from '../Cogo';
+import { NetworkAdjustment, type NetworkObservation, type NetworkPoint } from '../NetworkAdjustment';
+
+// Coordonnées vraies : A et B sont les points d'appui
+const truth: Record<string, CogoPoint> = {
+  A: { x: 1000, y: 1000 },
+  B: { x: 1500, y: 1000 },
+  C: { x: 1250, y: 1400 },
+  D: { x: 1200, y: 700 },
+};
+
+// Valeurs approchées décalées de quelques décimètres
+const approximate: NetworkPoint[] = [
+  { id: 'A', ...truth.A, fixed: true },
+  { id: 'B', ...truth.B, fixed: true },
+  { id: 'C', x: 1250.4, y: 1399.7 },
+  { id: 'D', x: 1199.8, y: 700.3 },
+];
+
+// Observations exactes, bruit éventuel indexé par observation (m ou secondes)
+function observations(noise: number[] = []): NetworkObservation[] {
+  const distance = (from: string, to: string) => Cogo.inverse(truth[from], truth[to]).distance;
+  const azimuth = (from: string, to: string) => Cogo.azimuth(truth[from], truth[to]);
+  const list: NetworkObservation[] = [
+    ...[['A', 'C'], ['A', 'D'], ['B', 'C'], ['B', 'D'], ['C', 'D']].map(([from, to]) => ({
+      type: 'distance' as const, from, to, value: distance(from, to), sigma: 0.003,
+    })),
+    // Tour d'horizon en A, orientation du cercle à 17°
+    ...['B', 'C', 'D'].map(to => ({
+      type: 'direction' as const, from: 'A', to, value: Cogo.normalize(azimuth('A', to) - 17), sigma: 2,
+    })),
+    ...['A', 'C', 'D'].map(to => ({
+      type: 'direction' as const, from: 'B', to, value: Cogo.normalize(azimuth('B', to) - 245), sigma: 2,
+    })),
+    { type: 'angle', at: 'C', from: 'A', to: 'B', value: Cogo.normalize(azimuth('C', 'B') - azimuth('C', 'A')), sigma: 3 },
+  ];
+  return list.map((observation, i) => ('value' in observation && noise[i]
+    ? { ...observation, value: observation.value + (observation.type === 'distance' ? noise[i] : noise[i] / 3600) }
+    : observation));
+}
+
+describe('NetworkAdjustment', () => {
+  it('should recover the true coordinates from exact observations', () => {
+    const result = NetworkAdjustment.adjust(approximate, observations(), { aPosteriori: false });
+
+    ['C', 'D'].forEach(id => {
+      const point = result.points.find(p => p.id === id)!;
+      expect(point.x).toBeCloseTo(truth[id].x, 6);
+      expect(point.y).toBeCloseTo(truth[id].y, 6);
+      expect(point.ellipse!.semiMajor).toBeGreaterThanOrEqual(point.ellipse!.semiMinor);
+      expect(point.ellipse!.semiMajor95 / point.ellipse!.semiMajor).toBeCloseTo(2.45, 1);
+    });
+    expect(result.points[0]).toEqual({ id: 'A', ...truth.A, fixed: true });
+    expect(result.orientations.A).toBeCloseTo(17, 8);
+    expect(result.orientations.B).toBeCloseTo(245, 8);
+
+    // 12 observations, 4 coordonnées et 2 orientations inconnues
+    expect(result.globalTest!.degreesOfFreedom).toBe(6);
+    expect(result.observations.reduce((sum, o) => sum + o.redundancy, 0)).toBeCloseTo(6, 8);
+    expect(result.observations.every(o => Math.abs(o.residual) < 1e-5)).toBe(true);
+    expect(result.dataSnooping.suspect).toBeNull();
+  });
+
+  it('should pass the global test with noise matching the standard deviations', () => {
+    const noise = [0.002, -0.003, 0.001, 0.004, -0.002, 1.5, -2, 1, -1, 2.5, -1.5, 2];
+    const result = NetworkAdjustment.adjust(approximate, observations(noise));
+
+    expect(result.globalTest!.passed).toBe(true);
+    expect(result.globalTest!.lower).toBeCloseTo(1.24, 1); // χ²(6) à 2,5 %
+    expect(result.globalTest!.upper).toBeCloseTo(14.45, 1); // χ²(6) à 97,5 %
+    expect(result.observations.some(o => o.flagged)).toBe(false);
+    result.points.slice(2).forEach(point => expect(Math.hypot(point.x - truth[point.id].x, point.y - truth[point.id].y)).toBeLessThan(0.01));
+  });
+
+  it('should detect a blunder by data snooping', () => {
+    const noise = [0.002, -0.003, 0.001, 0.004, -0.002, 1.5, -2, 1, -1, 2.5, -1.5, 2];
+    noise[3] += 0.05; // Faute de 5 cm sur B-D
+    const result = NetworkAdjustment.adjust(approximate, observations(noise));
+
+    expect(result.globalTest!.passed).toBe(false);
+    expect(result.dataSnooping.critical).toBeCloseTo(3.29, 2);
+    expect(result.dataSnooping.suspect).toBe(3);
+    const blunder = result.observations[3];
+    expect(blunder.flagged).toBe(true);
+    expect(blunder.residual).toBeLessThan(-0.02);
+    expect(blunder.mdb).toBeLessThan(0.05);
+  });
+
+  it('should adjust GNSS vectors in three dimensions', () => {
+    const points: NetworkPoint[] = [
+      { id: 'P1', x: 500000, y: 4000000, z: 100, fixed: true },
+      { id: 'P2', x: 500800, y: 4000300, z: 112, fixed: 'vertical' },
+      { id: 'P3', x: 500000, y: 4000000, z: 0 },
+    ];
+    const sigma = { x: 0.005, y: 0.005, z: 0.01 };
+    const result = NetworkAdjustment.adjust(points, [
+      { type: 'gnss', from: 'P1', to: 'P3', dx: 400.004, dy: 600, dz: 5.01, sigma },
+      { type: 'gnss', from: 'P2', to: 'P3', dx: -400, dy: 299.996, dz: -7, sigma },
+      { type: 'gnss', from: 'P1', to: 'P2', dx: 800.002, dy: 300.001, sigma: { x: 0.005, y: 0.005 } },
+    ]);
+
+    const p3 = result.points[2];
+    expect(p3.z).toBeCloseTo(105.005, 6);
+    expect(p3.sigmaZ).toBeGreaterThan(0);
+    expect(result.points[1].z).toBe(112);
+    expect(result.points[1].ellipse).toBeDefined();
+    expect(result.observations.map(o => o.component)).toEqual(['x', 'y', 'z', 'x', 'y', 'z', 'x', 'y']);
+    // Les deux dénivelées se partagent l'écart de 1 cm
+    expect(result.observations[2].residual).toBeCloseTo(-0.005, 6);
+    expect(result.observations[5].standardized).toBeCloseTo(-result.observations[2].standardized!, 6);
+    expect(result.globalTest!.degreesOfFreedom).toBe(3);
+
+    expect(() => NetworkAdjustment.adjust(points.map(p => ({ ...p, fixed: false })), [])).toThrow('observations');
+    expect(() => NetworkAdjustment.adjust(points, [{ type: 'distance', from: 'P1', to: 'X', value: 1, sigma: 1 }])).toThrow('unknown point X');
+  });
+
+  it('should orient error ellipses along the weak direction', () => {
+    // Point lancé depuis A : distance précise, angle médiocre depuis la référence au nord
+    const result = NetworkAdjustment.adjust(
+      [{ id: 'A', x: 0, y: 0, fixed: true }, { id: 'R', x: 0, y: 100, fixed: true }, { id: 'E', x: 100.1, y: 0.2 }],
+      [
+        { type: 'distance', from: 'A', to: 'E', value: 100, sigma: 0.001 },
+        { type: 'angle', at: 'A', from: 'R', to: 'E', value: 90, sigma: 60 },
+      ]
+    );
+
+    const ellipse = result.points[2].ellipse!;
+    expect(ellipse.semiMajor).toBeCloseTo((100 * 60) / 206264.8, 5);
+    expect(ellipse.semiMinor).toBeCloseTo(0.001, 6);
+    expect(Math.sin((ellipse.azimuth * Math.PI) / 180)).toBeCloseTo(0, 6); // Grand axe nord-sud
+    expect(result.globalTest).toBeNull();
+    expect(result.observations[0].standardized).toBeNull();
+  });
+});
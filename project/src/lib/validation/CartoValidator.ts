@@ -3,6 +3,8 @@ import { userReputationManager } from '../reputation/UserReputation';
 import { realtimeBridge } from '../realtime/RealtimeBridge';
 import { analyticsEngine } from '../analytics/AnalyticsEngine';
 import { FusionAuditLog } from '../audit/FusionAuditLog';
+import { TopologyRules, type TopologyFix, type TopologyRule, type TopologyRuleOptions } from './TopologyRules';
+import type { ParcelTopology } from '../cadastre/ParcelTopology';
 
 export type ValidationAction = 'approve' | 'reject' | 'modify' | 'comment';
 export type ValidationStatus = 'pending' | 'approved' | 'rejected' | 'conflict' | 'resolved';
@@ -16,11 +18,18 @@ export interface ValidationRecord {
   action: ValidationAction;
   timestamp: number;
   comment?: string;
+  status?: ValidationStatus; // Set by automatic checks: 'conflict' until fixed
+  fix?: TopologyFix;         // Correction the user can apply in one action
   metadata?: {
     coordinates?: [number, number];
     accuracy?: number;
     confidence?: number;
     modifiedProperties?: Record<string, any>;
+    rule?: TopologyRule;
+    relatedFeatureIds?: string[];
+    measure?: number;
+    resolvedBy?: string;
+    resolvedAt?: number;
   };
 }
 
@@ -176,6 +185,121 @@ export class CartoValidator {
     return { record, conflict };
   }
 
+  /**
+   * Run the topology rules on a dataset (WGS84 features measured in `epsg`)
+   * and record each issue as a conflict. Issues of a previous run that are
+   * still open are replaced.
+   */
+  public async validateTopology(
+    missionId: string,
+    features: GeoJSON.Feature[],
+    epsg: string,
+    options?: TopologyRuleOptions
+  ): Promise<ValidationRecord[]> {
+    const issues = TopologyRules.check(features, epsg, options);
+    const timestamp = Date.now();
+
+    this.records = this.records.filter(
+      r => !(r.missionId === missionId && r.metadata?.rule && r.status === 'conflict')
+    );
+
+    const records: ValidationRecord[] = issues.map(issue => ({
+      id: uuidv4(),
+      suggestionId: `topology:${issue.rule}:${issue.featureId}`,
+      featureId: issue.featureId,
+      missionId,
+      userId: 'system',
+      action: 'comment',
+      timestamp,
+      comment: issue.message,
+      status: 'conflict',
+      ...(issue.fix && { fix: issue.fix }),
+      metadata: {
+        coordinates: issue.location,
+        rule: issue.rule,
+        relatedFeatureIds: issue.relatedFeatureIds,
+        measure: issue.measure
+      }
+    }));
+
+    this.records.push(...records);
+    this.saveToStorage();
+    this.invalidateStatsCache(missionId);
+
+    await this.auditLog.logEvent({
+      type: 'topology_validation',
+      userId: 'system',
+      entityType: 'validation',
+      entityId: missionId,
+      metadata: {
+        missionId,
+        featureCount: features.length,
+        issueCount: records.length,
+        rules: Array.from(new Set(issues.map(issue => issue.rule)))
+      }
+    });
+
+    realtimeBridge.broadcast('validation', {
+      type: 'topology_checked',
+      missionId,
+      records
+    }, missionId, 'system');
+
+    return records;
+  }
+
+  /**
+   * Run the topology rules on the parcels of a mission
+   */
+  public async validateParcels(
+    missionId: string,
+    topology: ParcelTopology,
+    options?: TopologyRuleOptions
+  ): Promise<ValidationRecord[]> {
+    return this.validateTopology(missionId, topology.toFeatures(), topology.epsg, options);
+  }
+
+  /**
+   * Apply the fix suggested by a topology record and mark it resolved.
+   * Returns the corrected features, the input is left untouched.
+   */
+  public async applyFix(
+    recordId: string,
+    features: GeoJSON.Feature[],
+    userId: string
+  ): Promise<{ record: ValidationRecord; features: GeoJSON.Feature[] }> {
+    const record = this.records.find(r => r.id === recordId);
+    if (!record || record.status !== 'conflict' || !record.fix) {
+      throw new Error('Validation record not found or has no pending fix');
+    }
+
+    const fixed = TopologyRules.applyFix(features, record.fix);
+    record.status = 'resolved';
+    record.metadata = { ...record.metadata, resolvedBy: userId, resolvedAt: Date.now() };
+    this.saveToStorage();
+    this.invalidateStatsCache(record.missionId);
+
+    await this.auditLog.logEvent({
+      type: 'topology_fix_applied',
+      userId,
+      entityType: 'validation',
+      entityId: record.id,
+      metadata: {
+        featureId: record.featureId,
+        missionId: record.missionId,
+        rule: record.metadata.rule,
+        fix: record.fix.type
+      }
+    });
+
+    realtimeBridge.broadcast('validation', {
+      type: 'topology_fixed',
+      record
+    }, record.missionId, userId);
+
+    return { record, features: fixed };
+  }
+
   /**
    * Vote on a conflict resolution
    */
@@ -377,9 +501,10 @@ export class CartoValidator {
       total: missionRecords.length,
       approved: missionRecords.filter(r => r.action === 'approve').length,
       rejected: missionRecords.filter(r => r.action === 'reject').length,
-      conflicted: conflicts.filter(c => c.status === 'open').length,
+      conflicted: conflicts.filter(c => c.status === 'open').length +
+        missionRecords.filter(r => r.status === 'conflict').length,
       pending: missionRecords.filter(
-        r => !['approve', 'reject'].includes(r.action)
+        r => !['approve', 'reject'].includes(r.action) && !r.status
       ).length,
       byUser: {},
       byFeature: {},
@@ -655,6 +780,9 @@ export class CartoValidator {
 
     if (hasOpenConflict) return 'conflict';
 
+    // Unfixed topology issues
+    if (actions.some(a => a.status === 'conflict')) return 'conflict';
+
     // Check the most recent validation action
     const lastValidation = [...actions]
       .sort((a, b) => b.timestamp - a.timestamp)
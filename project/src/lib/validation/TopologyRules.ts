@@ -0,0 +1,608 @@
+import { CoordinateSystemManager } from '../sensors/CoordinateSystemManager';
+
+export type TopologyRule =
+  | 'overlap'
+  | 'gap'
+  | 'sliver'
+  | 'self-intersection'
+  | 'dangle'
+  | 'duplicate-marker'
+  | 'unclosed-ring';
+
+/**
+ * Machine-readable correction, applied on the WGS84 features with
+ * `TopologyRules.applyFix`. Vertex indexes refer to the GeoJSON coordinate
+ * arrays (ring 0 is the outer ring, or the line itself).
+ */
+export type TopologyFix =
+  | {
+      type: 'move-vertices';
+      featureId: string;
+      moves: Array<{ ring: number; vertex: number; to: [number, number] }>;
+    }
+  | { type: 'remove-vertex'; featureId: string; ring: number; vertex: number }
+  | { type: 'close-ring'; featureId: string; ring: number; replaceLast: boolean }
+  | { type: 'delete-feature'; featureId: string };
+
+export interface TopologyIssue {
+  rule: TopologyRule;
+  featureId: string;
+  relatedFeatureIds: string[];
+  message: string;
+  location: [number, number]; // WGS84 [lon, lat]
+  measure?: number;           // Area (m²) or distance (m), depending on the rule
+  fix?: TopologyFix;
+}
+
+export interface TopologyRuleOptions {
+  rules?: TopologyRule[];
+  snapTolerance?: number;   // Below this distance (m), vertices are considered coincident
+  gapTolerance?: number;    // Up to this distance (m), a near miss is a gap to snap
+  minOverlapArea?: number;  // m²
+  sliverArea?: number;      // Polygons smaller than this (m²) and thin are slivers
+  sliverThinness?: number;  // 4πA/P², 1 for a circle
+  duplicateTolerance?: number; // m, between markers
+}
+
+type Pt = { x: number; y: number };
+
+type PlanarFeature = {
+  id: string;
+  type: 'Point' | 'LineString' | 'Polygon';
+  rings: Pt[][];       // Open rings for polygons (closing vertex removed)
+  closed: boolean[];   // Whether the GeoJSON ring repeats its first vertex
+  bbox: [number, number, number, number];
+};
+
+const ALL_RULES: TopologyRule[] = [
+  'overlap', 'gap', 'sliver', 'self-intersection', 'dangle', 'duplicate-marker', 'unclosed-ring',
+];
+const EPSILON = 1e-7;
+
+/**
+ * Geometry checks for cadastral datasets.
+ *
+ * Features are given in WGS84 and measured in the projected CRS `epsg`.
+ * Each issue carries a fix suggestion when a deterministic correction exists
+ * (snapping, closing a ring, removing a spike or a duplicate).
+ */
+export class TopologyRules {
+  static check(features: GeoJSON.Feature[], epsg: string, options: TopologyRuleOptions = {}): TopologyIssue[] {
+    const info = CoordinateSystemManager.getProjectionInfo(epsg);
+    if (!info?.isProjected) throw new Error(`Topology checks need a projected CRS, ${epsg} is not one`);
+
+    const settings = {
+      snapTolerance: options.snapTolerance ?? 0.01,
+      gapTolerance: options.gapTolerance ?? 0.2,
+      minOverlapArea: options.minOverlapArea ?? 0.01,
+      sliverArea: options.sliverArea ?? 1,
+      sliverThinness: options.sliverThinness ?? 0.1,
+      duplicateTolerance: options.duplicateTolerance ?? 0.05,
+    };
+    const rules = new Set(options.rules ?? ALL_RULES);
+    const planar = features
+      .map((feature, index) => TopologyRules.toPlanar(feature, index, epsg))
+      .filter((feature): feature is PlanarFeature => feature !== null);
+    const polygons = planar.filter(feature => feature.type === 'Polygon');
+    const toWGS84 = (point: Pt): [number, number] => {
+      const { lat, lon } = CoordinateSystemManager.toWGS84(point.x, point.y, epsg);
+      return [lon, lat];
+    };
+
+    const issues: TopologyIssue[] = [];
+
+    if (rules.has('unclosed-ring')) {
+      const source = new Map(features.map((feature, index) => [TopologyRules.featureId(feature, index), feature]));
+      polygons.forEach(feature => {
+        feature.closed.forEach((closed, ring) => {
+          if (closed) return;
+          const coordinates = (source.get(feature.id)!.geometry as GeoJSON.Polygon).coordinates[ring];
+          const first = feature.rings[ring][0];
+          const last = feature.rings[ring][feature.rings[ring].length - 1];
+          const distance = TopologyRules.distance(first, last);
+          issues.push({
+            rule: 'unclosed-ring',
+            featureId: feature.id,
+            relatedFeatureIds: [],
+            message: `Ring ${ring} of ${feature.id} is not closed (${distance.toFixed(3)} m between its ends)`,
+            location: [coordinates[0][0], coordinates[0][1]],
+            measure: distance,
+            fix: { type: 'close-ring', featureId: feature.id, ring, replaceLast: distance <= settings.snapTolerance },
+          });
+        });
+      });
+    }
+
+    if (rules.has('self-intersection')) {
+      planar.filter(feature => feature.type !== 'Point').forEach(feature => {
+        feature.rings.forEach((ring, r) => {
+          const closed = feature.type === 'Polygon';
+          const crossings = TopologyRules.selfIntersections(ring, closed);
+          if (crossings.length === 0) return;
+
+          issues.push({
+            rule: 'self-intersection',
+            featureId: feature.id,
+            relatedFeatureIds: [],
+            message: `${feature.type === 'Polygon' ? 'Ring' : 'Line'} ${r} of ${feature.id} crosses itself ${crossings.length} time(s)`,
+            location: toWGS84(crossings[0]),
+            measure: crossings.length,
+            fix: TopologyRules.spikeFix(feature, r, closed),
+          });
+        });
+      });
+    }
+
+    if (rules.has('overlap')) {
+      polygons.forEach((a, i) => {
+        polygons.slice(i + 1).forEach(b => {
+          if (!TopologyRules.bboxOverlap(a.bbox, b.bbox, 0)) return;
+          const area = TopologyRules.intersectionArea(a.rings, b.rings);
+          if (area < settings.minOverlapArea) return;
+
+          // Snap the intruding vertices of one parcel onto the other when they are close enough
+          const fix = TopologyRules.snapInside(b, a, settings.gapTolerance, toWGS84)
+            ?? TopologyRules.snapInside(a, b, settings.gapTolerance, toWGS84);
+          const centre = TopologyRules.centroid(TopologyRules.verticesInside(b, a).concat(TopologyRules.verticesInside(a, b)))
+            ?? TopologyRules.centroid(a.rings[0])!;
+          issues.push({
+            rule: 'overlap',
+            featureId: b.id,
+            relatedFeatureIds: [a.id],
+            message: `${b.id} overlaps ${a.id} on ${area.toFixed(2)} m²`,
+            location: toWGS84(centre),
+            measure: area,
+            ...(fix && { fix }),
+          });
+        });
+      });
+    }
+
+    if (rules.has('gap')) {
+      // A gap between two parcels is reported once, with the moves of the first one
+      const reported = new Set<string>();
+      polygons.forEach(a => {
+        polygons.forEach(b => {
+          if (a === b || reported.has(`${b.id}|${a.id}`)) return;
+          if (!TopologyRules.bboxOverlap(a.bbox, b.bbox, settings.gapTolerance)) return;
+
+          const moves: Array<{ ring: number; vertex: number; to: [number, number] }> = [];
+          let widest = 0;
+          let location: Pt | null = null;
+          a.rings.forEach((ring, r) => {
+            ring.forEach((vertex, v) => {
+              const { point, distance } = TopologyRules.closestOnBoundary(vertex, b.rings);
+              if (distance <= settings.snapTolerance || distance > settings.gapTolerance) return;
+              if (TopologyRules.insidePolygon(vertex, b.rings)) return; // Reported as an overlap
+              if (polygons.some(other => other !== a && TopologyRules.insidePolygon(vertex, other.rings))) return;
+              moves.push({ ring: r, vertex: v, to: toWGS84(point) });
+              if (distance > widest) {
+                widest = distance;
+                location = vertex;
+              }
+            });
+          });
+          if (moves.length === 0) return;
+
+          reported.add(`${a.id}|${b.id}`);
+          issues.push({
+            rule: 'gap',
+            featureId: a.id,
+            relatedFeatureIds: [b.id],
+            message: `Gap of up to ${widest.toFixed(3)} m between ${a.id} and ${b.id}`,
+            location: toWGS84(location!),
+            measure: widest,
+            fix: { type: 'move-vertices', featureId: a.id, moves },
+          });
+        });
+      });
+    }
+
+    if (rules.has('sliver')) {
+      polygons.forEach(feature => {
+        const area = Math.abs(TopologyRules.ringsArea(feature.rings));
+        const perimeter = feature.rings.reduce((sum, ring) => sum + TopologyRules.perimeter(ring, true), 0);
+        const thinness = perimeter > 0 ? (4 * Math.PI * area) / (perimeter * perimeter) : 0;
+        if (area >= settings.sliverArea || thinness >= settings.sliverThinness) return;
+
+        issues.push({
+          rule: 'sliver',
+          featureId: feature.id,
+          relatedFeatureIds: [],
+          message: `${feature.id} is a sliver polygon (${area.toFixed(3)} m², thinness ${thinness.toFixed(3)})`,
+          location: toWGS84(TopologyRules.centroid(feature.rings[0])!),
+          measure: area,
+          fix: { type: 'delete-feature', featureId: feature.id },
+        });
+      });
+    }
+
+    if (rules.has('dangle')) {
+      planar.filter(feature => feature.type === 'LineString').forEach(line => {
+        const ring = line.rings[0];
+        const others = planar.filter(feature => feature !== line && feature.type !== 'Point');
+        [0, ring.length - 1].forEach(vertex => {
+          const end = ring[vertex];
+          const opposite = ring[vertex === 0 ? ring.length - 1 : 0];
+          if (TopologyRules.distance(end, opposite) <= settings.snapTolerance) return; // Closed line
+
+          let nearest: { point: Pt; distance: number; id: string } | null = null;
+          others.forEach(other => {
+            const { point, distance } = TopologyRules.closestOnBoundary(end, other.rings, other.type === 'Polygon');
+            if (!nearest || distance < nearest.distance) nearest = { point, distance, id: other.id };
+          });
+          const found = nearest as { point: Pt; distance: number; id: string } | null;
+          if (found && found.distance <= settings.snapTolerance) return;
+
+          const snappable = found !== null && found.distance <= settings.gapTolerance;
+          issues.push({
+            rule: 'dangle',
+            featureId: line.id,
+            relatedFeatureIds: snappable ? [found!.id] : [],
+            message: `${line.id} has a dangling ${vertex === 0 ? 'start' : 'end'}`,
+            location: toWGS84(end),
+            ...(found && { measure: found.distance }),
+            ...(snappable && {
+              fix: { type: 'move-vertices' as const, featureId: line.id, moves: [{ ring: 0, vertex, to: toWGS84(found!.point) }] },
+            }),
+          });
+        });
+      });
+    }
+
+    if (rules.has('duplicate-marker')) {
+      const markers = planar.filter(feature => feature.type === 'Point');
+      const duplicates = new Set<string>();
+      markers.forEach((a, i) => {
+        if (duplicates.has(a.id)) return;
+        markers.slice(i + 1).forEach(b => {
+          if (duplicates.has(b.id)) return;
+          const distance = TopologyRules.distance(a.rings[0][0], b.rings[0][0]);
+          if (distance > settings.duplicateTolerance) return;
+
+          duplicates.add(b.id);
+          issues.push({
+            rule: 'duplicate-marker',
+            featureId: b.id,
+            relatedFeatureIds: [a.id],
+            message: `Marker ${b.id} duplicates ${a.id} (${distance.toFixed(3)} m apart)`,
+            location: toWGS84(b.rings[0][0]),
+            measure: distance,
+            fix: { type: 'delete-feature', featureId: b.id },
+          });
+        });
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Applies a fix and returns the corrected features (the input is left untouched)
+   */
+  static applyFix(features: GeoJSON.Feature[], fix: TopologyFix): GeoJSON.Feature[] {
+    const index = features.findIndex((feature, i) => TopologyRules.featureId(feature, i) === fix.featureId);
+    if (index === -1) throw new Error(`Feature ${fix.featureId} not found`);
+    if (fix.type === 'delete-feature') return features.filter((_, i) => i !== index);
+
+    const feature = features[index];
+    const geometry = JSON.parse(JSON.stringify(feature.geometry)) as GeoJSON.Polygon | GeoJSON.LineString;
+    const ringOf = (r: number): GeoJSON.Position[] =>
+      geometry.type === 'Polygon' ? geometry.coordinates[r] : geometry.coordinates;
+    const isClosed = (ring: GeoJSON.Position[]) =>
+      geometry.type === 'Polygon' && ring.length > 1 &&
+      ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1];
+
+    switch (fix.type) {
+      case 'move-vertices':
+        fix.moves.forEach(({ ring: r, vertex, to }) => {
+          const ring = ringOf(r);
+          const closed = isClosed(ring);
+          ring[vertex] = [...to, ...ring[vertex].slice(2)];
+          if (closed && vertex === 0) ring[ring.length - 1] = [...ring[0]];
+        });
+        break;
+
+      case 'remove-vertex': {
+        const ring = ringOf(fix.ring);
+        const closed = isClosed(ring);
+        ring.splice(fix.vertex, 1);
+        if (closed && fix.vertex === 0) ring[ring.length - 1] = [...ring[0]];
+        break;
+      }
+
+      case 'close-ring': {
+        const ring = ringOf(fix.ring);
+        if (fix.replaceLast) ring[ring.length - 1] = [...ring[0]];
+        else ring.push([...ring[0]]);
+        break;
+      }
+    }
+
+    return features.map((item, i) => (i === index ? { ...item, geometry } : item));
+  }
+
+  /**
+   * Identifier used in issues and fixes
+   */
+  static featureId(feature: GeoJSON.Feature, index: number): string {
+    return String(feature.id ?? feature.properties?.id ?? `feature-${index}`);
+  }
+
+  private static toPlanar(feature: GeoJSON.Feature, index: number, epsg: string): PlanarFeature | null {
+    const geometry = feature.geometry;
+    if (!geometry || !['Point', 'LineString', 'Polygon'].includes(geometry.type)) return null;
+
+    const project = ([lon, lat]: GeoJSON.Position): Pt => {
+      const { x, y } = CoordinateSystemManager.fromWGS84(lat, lon, epsg);
+      return { x, y };
+    };
+    let rings: Pt[][];
+    let closed: boolean[] = [];
+    switch (geometry.type) {
+      case 'Point':
+        rings = [[project(geometry.coordinates)]];
+        break;
+      case 'LineString':
+        rings = [geometry.coordinates.map(project)];
+        break;
+      default: {
+        const polygon = geometry as GeoJSON.Polygon;
+        closed = polygon.coordinates.map(ring => {
+          const first = ring[0];
+          const last = ring[ring.length - 1];
+          return ring.length > 1 && first[0] === last[0] && first[1] === last[1];
+        });
+        rings = polygon.coordinates.map((ring, r) => (closed[r] ? ring.slice(0, -1) : ring).map(project));
+      }
+    }
+
+    const all = rings.flat();
+    return {
+      id: TopologyRules.featureId(feature, index),
+      type: geometry.type as PlanarFeature['type'],
+      rings,
+      closed,
+      bbox: [
+        Math.min(...all.map(p => p.x)), Math.min(...all.map(p => p.y)),
+        Math.max(...all.map(p => p.x)), Math.max(...all.map(p => p.y)),
+      ],
+    };
+  }
+
+  /**
+   * Area of A ∩ B from the boundary integral ½∮(x dy − y dx): the parts of
+   * ∂A inside B and of ∂B inside A. Shared edges count once when both
+   * polygons lie on the same side of them, not at all otherwise.
+   */
+  private static intersectionArea(a: Pt[][], b: Pt[][]): number {
+    const origin = a[0][0];
+    const orient = (rings: Pt[][]) => rings.map((ring, r) => {
+      const shifted = ring.map(p => ({ x: p.x - origin.x, y: p.y - origin.y }));
+      const ccw = TopologyRules.signedArea(shifted) > 0;
+      return ccw === (r === 0) ? shifted : [...shifted].reverse();
+    });
+    const ringsA = orient(a);
+    const ringsB = orient(b);
+
+    const contribution = (rings: Pt[][], other: Pt[][], countShared: boolean) => {
+      let sum = 0;
+      TopologyRules.edges(rings, true).forEach(([p, q]) => {
+        const splits = [0, 1];
+        TopologyRules.edges(other, true).forEach(([c, d]) => {
+          splits.push(...TopologyRules.crossingParameters(p, q, c, d));
+        });
+        splits.sort((s, t) => s - t);
+
+        for (let k = 0; k < splits.length - 1; k++) {
+          const [s, t] = [splits[k], splits[k + 1]];
+          if (t - s < EPSILON) continue;
+          const start = TopologyRules.lerp(p, q, s);
+          const end = TopologyRules.lerp(p, q, t);
+          const middle = TopologyRules.lerp(p, q, (s + t) / 2);
+
+          const shared = TopologyRules.edges(other, true).find(([c, d]) => TopologyRules.segmentDistance(middle, c, d).distance < 1e-6);
+          const counted = shared
+            ? countShared && (q.x - p.x) * (shared[1].x - shared[0].x) + (q.y - p.y) * (shared[1].y - shared[0].y) > 0
+            : TopologyRules.insidePolygon(middle, other);
+          if (counted) sum += (start.x * end.y - end.x * start.y) / 2;
+        }
+      });
+      return sum;
+    };
+
+    return Math.max(contribution(ringsA, ringsB, true) + contribution(ringsB, ringsA, false), 0);
+  }
+
+  /**
+   * Parameters along p→q where it meets c→d, including collinear overlaps
+   */
+  private static crossingParameters(p: Pt, q: Pt, c: Pt, d: Pt): number[] {
+    const r = { x: q.x - p.x, y: q.y - p.y };
+    const s = { x: d.x - c.x, y: d.y - c.y };
+    const denominator = r.x * s.y - r.y * s.x;
+    const length2 = r.x * r.x + r.y * r.y;
+    const cp = { x: c.x - p.x, y: c.y - p.y };
+
+    if (Math.abs(denominator) < EPSILON * Math.sqrt(length2 * (s.x * s.x + s.y * s.y))) {
+      // Parallel: only collinear segments matter
+      if (Math.abs(cp.x * r.y - cp.y * r.x) / Math.sqrt(length2) > 1e-6) return [];
+      return [c, d]
+        .map(point => ((point.x - p.x) * r.x + (point.y - p.y) * r.y) / length2)
+        .filter(t => t > 0 && t < 1);
+    }
+
+    const t = (cp.x * s.y - cp.y * s.x) / denominator;
+    const u = (cp.x * r.y - cp.y * r.x) / denominator;
+    return t > 0 && t < 1 && u >= -EPSILON && u <= 1 + EPSILON ? [t] : [];
+  }
+
+  private static selfIntersections(ring: Pt[], closed: boolean): Pt[] {
+    const segments = TopologyRules.edges([ring], closed);
+    const crossings: Pt[] = [];
+    segments.forEach(([p, q], i) => {
+      segments.forEach(([c, d], j) => {
+        if (j <= i) return;
+        const adjacent = j === i + 1 || (closed && i === 0 && j === segments.length - 1);
+        if (adjacent) {
+          // Consecutive edges only meet at their common vertex unless they fold back
+          const back = (q.x - p.x) * (d.x - c.x) + (q.y - p.y) * (d.y - c.y) < 0;
+          const collinear = Math.abs((q.x - p.x) * (d.y - c.y) - (q.y - p.y) * (d.x - c.x)) < 1e-9;
+          if (back && collinear) crossings.push(j === i + 1 ? q : p);
+          return;
+        }
+        const hit = TopologyRules.segmentIntersection(p, q, c, d);
+        if (hit) crossings.push(hit);
+      });
+    });
+    return crossings;
+  }
+
+  private static segmentIntersection(p: Pt, q: Pt, c: Pt, d: Pt): Pt | null {
+    const r = { x: q.x - p.x, y: q.y - p.y };
+    const s = { x: d.x - c.x, y: d.y - c.y };
+    const denominator = r.x * s.y - r.y * s.x;
+    if (Math.abs(denominator) < 1e-12) return null;
+    const t = ((c.x - p.x) * s.y - (c.y - p.y) * s.x) / denominator;
+    const u = ((c.x - p.x) * r.y - (c.y - p.y) * r.x) / denominator;
+    return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? TopologyRules.lerp(p, q, t) : null;
+  }
+
+  /**
+   * Removing a single vertex (spike or misplaced point) that untangles the ring
+   */
+  private static spikeFix(feature: PlanarFeature, r: number, closed: boolean): TopologyFix | undefined {
+    const ring = feature.rings[r];
+    const area = TopologyRules.signedArea(ring);
+    let best: { vertex: number; change: number } | null = null;
+
+    ring.forEach((_, vertex) => {
+      const candidate = ring.filter((__, k) => k !== vertex);
+      if (candidate.length < (closed ? 3 : 2)) return;
+      if (TopologyRules.selfIntersections(candidate, closed).length > 0) return;
+      const change = Math.abs(Math.abs(TopologyRules.signedArea(candidate)) - Math.abs(area));
+      if (!best || change < best.change) best = { vertex, change };
+    });
+
+    const found = best as { vertex: number; change: number } | null;
+    return found ? { type: 'remove-vertex', featureId: feature.id, ring: r, vertex: found.vertex } : undefined;
+  }
+
+  private static verticesInside(feature: PlanarFeature, container: PlanarFeature): Pt[] {
+    return feature.rings.flat().filter(vertex =>
+      TopologyRules.insidePolygon(vertex, container.rings) &&
+      TopologyRules.closestOnBoundary(vertex, container.rings).distance > 1e-6
+    );
+  }
+
+  private static snapInside(
+    feature: PlanarFeature,
+    container: PlanarFeature,
+    tolerance: number,
+    toWGS84: (point: Pt) => [number, number]
+  ): TopologyFix | undefined {
+    const moves: Array<{ ring: number; vertex: number; to: [number, number] }> = [];
+    let snappable = true;
+    const corners = container.rings.flat();
+    feature.rings.forEach((ring, r) => {
+      ring.forEach((vertex, v) => {
+        // Vertices near a corner of the other parcel go onto it, even along its boundary
+        const corner = corners.find(point => {
+          const distance = TopologyRules.distance(vertex, point);
+          return distance > 1e-6 && distance <= tolerance;
+        });
+        if (corner) {
+          moves.push({ ring: r, vertex: v, to: toWGS84(corner) });
+          return;
+        }
+        if (!TopologyRules.insidePolygon(vertex, container.rings)) return;
+        const { point, distance } = TopologyRules.closestOnBoundary(vertex, container.rings);
+        if (distance <= 1e-6) return;
+        if (distance > tolerance) snappable = false;
+        moves.push({ ring: r, vertex: v, to: toWGS84(point) });
+      });
+    });
+    return snappable && moves.length > 0 ? { type: 'move-vertices', featureId: feature.id, moves } : undefined;
+  }
+
+  private static closestOnBoundary(point: Pt, rings: Pt[][], closed = true): { point: Pt; distance: number } {
+    let best = { point: rings[0][0], distance: Infinity };
+    TopologyRules.edges(rings, closed).forEach(([p, q]) => {
+      const candidate = TopologyRules.segmentDistance(point, p, q);
+      if (candidate.distance < best.distance) best = candidate;
+    });
+    if (rings.every(ring => ring.length === 1)) {
+      best = { point: rings[0][0], distance: TopologyRules.distance(point, rings[0][0]) };
+    }
+    return best;
+  }
+
+  private static segmentDistance(point: Pt, p: Pt, q: Pt): { point: Pt; distance: number } {
+    const dx = q.x - p.x;
+    const dy = q.y - p.y;
+    const length2 = dx * dx + dy * dy;
+    const t = length2 === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - p.x) * dx + (point.y - p.y) * dy) / length2));
+    const closest = TopologyRules.lerp(p, q, t);
+    return { point: closest, distance: TopologyRules.distance(point, closest) };
+  }
+
+  /**
+   * Even-odd ray casting, holes included
+   */
+  private static insidePolygon(point: Pt, rings: Pt[][]): boolean {
+    let inside = false;
+    rings.forEach(ring => {
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const a = ring[i];
+        const b = ring[j];
+        if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+          inside = !inside;
+        }
+      }
+    });
+    return inside;
+  }
+
+  private static edges(rings: Pt[][], closed: boolean): Array<[Pt, Pt]> {
+    return rings.flatMap(ring => {
+      const count = closed ? ring.length : ring.length - 1;
+      return Array.from({ length: Math.max(count, 0) }, (_, i) => [ring[i], ring[(i + 1) % ring.length]] as [Pt, Pt]);
+    });
+  }
+
+  private static ringsArea(rings: Pt[][]): number {
+    return rings.reduce((sum, ring, r) => sum + (r === 0 ? 1 : -1) * Math.abs(TopologyRules.signedArea(ring)), 0);
+  }
+
+  private static signedArea(ring: Pt[]): number {
+    const { x: x0, y: y0 } = ring[0];
+    return ring.reduce((sum, p, i) => {
+      const q = ring[(i + 1) % ring.length];
+      return sum + ((p.x - x0) * (q.y - y0) - (q.x - x0) * (p.y - y0));
+    }, 0) / 2;
+  }
+
+  private static perimeter(ring: Pt[], closed: boolean): number {
+    return TopologyRules.edges([ring], closed).reduce((sum, [p, q]) => sum + TopologyRules.distance(p, q), 0);
+  }
+
+  private static centroid(points: Pt[]): Pt | null {
+    if (points.length === 0) return null;
+    return {
+      x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+      y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+    };
+  }
+
+  private static bboxOverlap(a: PlanarFeature['bbox'], b: PlanarFeature['bbox'], margin: number): boolean {
+    return a[0] - margin <= b[2] && b[0] - margin <= a[2] && a[1] - margin <= b[3] && b[1] - margin <= a[3];
+  }
+
+  private static lerp(p: Pt, q: Pt, t: number): Pt {
+    return { x: p.x + (q.x - p.x) * t, y: p.y + (q.y - p.y) * t };
+  }
+
+  private static distance(p: Pt, q: Pt): number {
+    return Math.hypot(q.x - p.x, q.y - p.y);
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { TopologyRules } from '../TopologyRules';
+import { CoordinateSystemManager } from '../../sensors/CoordinateSystemManager';
+
+const EPSG = 'EPSG:2154';
+const X0 = 652000;
+const Y0 = 6862000;
+
+// Sommets en mètres relatifs à l'origine, convertis en WGS84
+function position(x: number, y: number): [number, number] {
+  const { lat, lon } = CoordinateSystemManager.toWGS84(X0 + x, Y0 + y, EPSG);
+  return [lon, lat];
+}
+
+function polygon(id: string, ring: Array<[number, number]>, close = true): GeoJSON.Feature {
+  const coordinates = ring.map(([x, y]) => position(x, y));
+  return {
+    type: 'Feature',
+    id,
+    geometry: { type: 'Polygon', coordinates: [close ? [...coordinates, coordinates[0]] : coordinates] },
+    properties: {},
+  };
+}
+
+function square(id: string, x: number, y: number, size = 100): GeoJSON.Feature {
+  return polygon(id, [[x, y], [x + size, y], [x + size, y + size], [x, y + size]]);
+}
+
+describe('TopologyRules', () => {
+  it('should accept parcels sharing their boundaries exactly', () => {
+    const features = [square('A', 0, 0), square('B', 100, 0), square('C', 0, 100, 200)];
+    expect(TopologyRules.check(features, EPSG)).toEqual([]);
+  });
+
+  it('should measure overlaps and snap the intruding vertices', () => {
+    const intruding = polygon('B', [[99.95, 0], [200, 0], [200, 100], [99.95, 100]]);
+    const features = [square('A', 0, 0), intruding];
+    const [issue, ...others] = TopologyRules.check(features, EPSG);
+
+    expect(others).toEqual([]);
+    expect(issue.rule).toBe('overlap');
+    expect(issue.featureId).toBe('B');
+    expect(issue.relatedFeatureIds).toEqual(['A']);
+    expect(issue.measure).toBeCloseTo(5, 3);
+    expect(issue.fix).toMatchObject({ type: 'move-vertices', featureId: 'B' });
+
+    const fixed = TopologyRules.applyFix(features, issue.fix!);
+    expect(TopologyRules.check(fixed, EPSG)).toEqual([]);
+    // La géométrie d'origine n'est pas modifiée
+    expect(features[1]).toBe(intruding);
+
+    // Chevauchement franc : signalé sans correction automatique
+    const deep = TopologyRules.check([square('A', 0, 0), square('D', 50, 50)], EPSG, { rules: ['overlap'] });
+    expect(deep[0].measure).toBeCloseTo(2500, 3);
+    expect(deep[0].fix).toBeUndefined();
+  });
+
+  it('should report gaps and sliver polygons', () => {
+    const features = [square('A', 0, 0), polygon('B', [[100.05, 0], [200, 0], [200, 100], [100.05, 100]])];
+    const issues = TopologyRules.check(features, EPSG);
+
+    expect(issues.map(issue => issue.rule)).toEqual(['gap']);
+    expect(issues[0].measure).toBeCloseTo(0.05, 4);
+    expect(issues[0].fix).toMatchObject({ type: 'move-vertices', featureId: 'A' });
+    expect(TopologyRules.check(TopologyRules.applyFix(features, issues[0].fix!), EPSG)).toEqual([]);
+
+    const sliver = TopologyRules.check([polygon('S', [[0, 0], [50, 0], [50, 0.01], [0, 0.01]])], EPSG);
+    expect(sliver[0]).toMatchObject({ rule: 'sliver', fix: { type: 'delete-feature', featureId: 'S' } });
+  });
+
+  it('should find self-intersections and unclosed rings', () => {
+    const tangled = polygon('T', [[0, 0], [100, 0], [100, 100], [0, 100], [120, 50]]);
+    const [crossing] = TopologyRules.check([tangled], EPSG);
+    expect(crossing.rule).toBe('self-intersection');
+    expect(crossing.fix).toEqual({ type: 'remove-vertex', featureId: 'T', ring: 0, vertex: 4 });
+    const untangled = TopologyRules.applyFix([tangled], crossing.fix!);
+    expect((untangled[0].geometry as GeoJSON.Polygon).coordinates[0]).toHaveLength(5);
+    expect(TopologyRules.check(untangled, EPSG)).toEqual([]);
+
+    const open = polygon('O', [[0, 0], [100, 0], [100, 100], [0, 100]], false);
+    const [unclosed] = TopologyRules.check([open], EPSG);
+    expect(unclosed).toMatchObject({ rule: 'unclosed-ring', fix: { type: 'close-ring', replaceLast: false } });
+    const closed = TopologyRules.applyFix([open], unclosed.fix!);
+    expect(TopologyRules.check(closed, EPSG)).toEqual([]);
+  });
+
+  it('should detect dangling lines and duplicate markers', () => {
+    const line = (id: string, points: Array<[number, number]>): GeoJSON.Feature => ({
+      type: 'Feature',
+      id,
+      geometry: { type: 'LineString', coordinates: points.map(([x, y]) => position(x, y)) },
+      properties: {},
+    });
+    const marker = (id: string, x: number, y: number): GeoJSON.Feature => ({
+      type: 'Feature',
+      id,
+      geometry: { type: 'Point', coordinates: position(x, y) },
+      properties: {},
+    });
+
+    const features = [
+      square('A', 0, 0),
+      line('L1', [[0, 50], [-40, 50], [-40, 99.9]]), // Arrive à 10 cm du mur de C
+      square('C', -100, 100, 200),
+      line('L2', [[100, 20], [150, 20]]),
+      marker('M1', 0, 0),
+      marker('M2', 0.02, 0.01),
+      marker('M3', 100, 0),
+    ];
+    const issues = TopologyRules.check(features, EPSG);
+
+    const dangles = issues.filter(issue => issue.rule === 'dangle');
+    expect(dangles.map(issue => issue.featureId)).toEqual(['L1', 'L2']);
+    expect(dangles[0].fix).toMatchObject({ type: 'move-vertices', moves: [{ ring: 0, vertex: 2 }] });
+    expect(dangles[0].relatedFeatureIds).toEqual(['C']);
+    expect(dangles[1].fix).toBeUndefined();
+
+    const duplicates = issues.filter(issue => issue.rule === 'duplicate-marker');
+    expect(duplicates).toHaveLength(1);
+    expect(duplicates[0]).toMatchObject({ featureId: 'M2', relatedFeatureIds: ['M1'] });
+    expect(TopologyRules.applyFix(features, duplicates[0].fix!)).toHaveLength(features.length - 1);
+    expect(() => TopologyRules.applyFix(features, { type: 'delete-feature', featureId: 'X' })).toThrow('not found');
+  });
+});
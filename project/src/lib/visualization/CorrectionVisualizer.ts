@@ -1,9 +1,10 @@
 import * as THREE from 'three';
+import type { ObservationQualityReport } from '../gnss/ObservationQualityChecker';
 
 /**
  * Types de graphiques disponibles
  */
-type GraphType = 'residuals' | 'dop' | 'convergence' | 'snr' | 'elevation';
+type GraphType = 'residuals' | 'dop' | 'convergence' | 'snr' | 'elevation' | 'multipath';
 type ExportFormat = 'PNG' | 'SVG' | 'CSV' | 'GEOJSON';
 type ColorScale = 'viridis' | 'plasma' | 'inferno' | 'magma' | 'cividis' | 'custom';
 
@@ -172,6 +173,41 @@ export class CorrectionVisualizer {
     });
   }
 
+  /**
+   * Crée les graphiques du contrôle qualité RINEX (MP1, MP2, SNR) avec une série par satellite.
+   * Les époques de saut de cycle sont marquées dans les métadonnées des points.
+   * @returns Identifiants des graphiques créés
+   */
+  createQualityGraphs(report: ObservationQualityReport, idPrefix: string = 'qc'): string[] {
+    const graphs: Array<{ id: string; type: GraphType; title: string; key: 'mp1' | 'mp2' | 'snr' }> = [
+      { id: `${idPrefix}-mp1`, type: 'multipath', title: 'Multitrajets MP1', key: 'mp1' },
+      { id: `${idPrefix}-mp2`, type: 'multipath', title: 'Multitrajets MP2', key: 'mp2' },
+      { id: `${idPrefix}-snr`, type: 'snr', title: 'Rapport signal/bruit', key: 'snr' },
+    ];
+    const created: string[] = [];
+
+    for (const graph of graphs) {
+      const series = report.satellites
+        .map(satellite => ({
+          name: satellite.satId,
+          data: satellite.samples
+            .filter(sample => sample[graph.key] !== undefined)
+            .map(sample => ({
+              timestamp: sample.timestamp,
+              value: sample[graph.key]!,
+              meta: sample.slip ? { slip: true } : undefined
+            }))
+        }))
+        .filter(s => s.data.length > 0);
+
+      if (series.length === 0) continue;
+      this.createTimeSeriesGraph(graph.id, graph.type, graph.title, series, { showLegend: series.length <= 12 });
+      created.push(graph.id);
+    }
+
+    return created;
+  }
+
   /**
    * Génère une carte thématique
    */
@@ -297,7 +333,8 @@ export class CorrectionVisualizer {
       dop: 'DOP',
       convergence: 'Temps de convergence (s)',
       snr: 'Rapport signal/bruit (dB)',
-      elevation: 'Angle d\'élévation (°)'
+      elevation: 'Angle d\'élévation (°)',
+      multipath: 'Multitrajets (m)'
     };
     return labels[type] || 'Valeur';
   }
@@ -308,7 +345,8 @@ export class CorrectionVisualizer {
       dop: '#9b59b6',
       convergence: '#2ecc71',
       snr: '#3498db',
-      elevation: '#f39c12'
+      elevation: '#f39c12',
+      multipath: '#16a085'
     };
     return colors[type] || '#3498db';
   }